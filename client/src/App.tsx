@@ -6,6 +6,12 @@ import { InlineDiffViewer } from '@/components/InlineDiffViewer'
 import { FileViewer } from '@/components/FileViewer'
 import { TaskBoard } from '@/components/TaskBoard'
 import { ConversationView } from '@/components/ConversationView'
+import { UsageDashboard } from '@/components/UsageDashboard'
+import { QueueView } from '@/components/QueueView'
+import { WorkflowView } from '@/components/WorkflowView'
+import { ComparisonView } from '@/components/ComparisonView'
+import { AutoApprovalLog } from '@/components/AutoApprovalLog'
+import { WorktreeCleanup } from '@/components/WorktreeCleanup'
 import { ErrorBanner } from '@/components/ErrorBanner'
 import { AddProjectScreen } from '@/components/AddProjectScreen'
 import { AddWorktreeScreen } from '@/components/AddWorktreeScreen'
@@ -26,7 +32,7 @@ function getAccessToken(): string | null {
 }
 
 function MainContent() {
-  const { selectedSessions, viewingFileDiff, viewingFile, taskBoardOpen, conversationViewOpen } = useAppStore()
+  const { selectedSessions, viewingFileDiff, viewingFile, taskBoardOpen, conversationViewOpen, usageDashboardOpen, queueViewOpen, workflowViewOpen, comparisonViewOpen, autoApprovalLogOpen, worktreeCleanupOpen } = useAppStore()
 
   // Show task board when toggled
   if (taskBoardOpen) {
@@ -38,6 +44,31 @@ function MainContent() {
     return <ConversationView />
   }
 
+  // Show usage dashboard when toggled
+  if (usageDashboardOpen) {
+    return <UsageDashboard />
+  }
+
+  if (queueViewOpen) {
+    return <QueueView />
+  }
+
+  if (workflowViewOpen) {
+    return <WorkflowView />
+  }
+
+  if (comparisonViewOpen) {
+    return <ComparisonView />
+  }
+
+  if (autoApprovalLogOpen) {
+    return <AutoApprovalLog />
+  }
+
+  if (worktreeCleanupOpen) {
+    return <WorktreeCleanup />
+  }
+
   // Show diff viewer when viewing a file diff
   if (viewingFileDiff) {
     return <InlineDiffViewer />
@@ -0,0 +1,327 @@
+import { Fragment, useCallback, useEffect, useState } from 'react'
+import { useAppStore } from '@/lib/store'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import type { AutoApprovalDecision, AutoApprovalLogResponse, AutoApprovalVerdict } from '@/lib/types'
+import { AlertCircle, ChevronDown, ChevronRight, Loader2, RefreshCw, ShieldCheck, X } from 'lucide-react'
+
+const PAGE_SIZE = 100
+
+const VERDICT_OPTIONS: Array<{ value: AutoApprovalVerdict | null; label: string }> = [
+  { value: null, label: 'All' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'needs_permission', label: 'Held back' },
+  { value: 'error', label: 'Error' },
+]
+
+const DECIDED_BY_OPTIONS: Array<{ value: string | null; label: string }> = [
+  { value: null, label: 'Any' },
+  { value: 'rule', label: 'Rule' },
+  { value: 'verifier', label: 'Verifier' },
+  { value: 'no-match', label: 'No match' },
+]
+
+const RANGE_OPTIONS: Array<{ days: number | null; label: string }> = [
+  { days: 1, label: '24 hours' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: null, label: 'All time' },
+]
+
+const VERDICT_STYLES: Record<AutoApprovalVerdict, string> = {
+  approved: 'border-green-500/40 text-green-500',
+  needs_permission: 'border-yellow-500/40 text-yellow-500',
+  error: 'border-destructive/40 text-destructive',
+}
+
+function formatVerdict(verdict: AutoApprovalVerdict): string {
+  return VERDICT_OPTIONS.find(option => option.value === verdict)?.label || verdict
+}
+
+function formatLatency(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`
+}
+
+function formatDecidedBy(decision: AutoApprovalDecision): string {
+  if (decision.decidedBy === 'rule') return decision.rule ? `rule: ${decision.rule}` : 'rule'
+  return decision.decidedBy || '-'
+}
+
+function FilterButton({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        'rounded border px-2 py-1 text-[10px] transition-colors',
+        active
+          ? 'border-border bg-accent text-foreground'
+          : 'border-border/60 bg-card text-muted-foreground hover:text-foreground'
+      )}
+    >
+      {children}
+    </button>
+  )
+}
+
+export function AutoApprovalLog() {
+  const { currentProject, socket, sessions, closeAutoApprovalLog } = useAppStore()
+  const [verdict, setVerdict] = useState<AutoApprovalVerdict | null>(null)
+  const [decidedBy, setDecidedBy] = useState<string | null>(null)
+  const [rangeDays, setRangeDays] = useState<number | null>(7)
+  const [overriddenOnly, setOverriddenOnly] = useState(false)
+  const [allProjects, setAllProjects] = useState(false)
+  const [log, setLog] = useState<AutoApprovalLogResponse | null>(null)
+  const [expandedId, setExpandedId] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchLog = useCallback(async (offset = 0) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) })
+      if (!allProjects && currentProject?.path) {
+        params.set('projectPath', currentProject.path)
+      }
+      if (verdict) params.set('verdict', verdict)
+      if (decidedBy) params.set('decidedBy', decidedBy)
+      if (overriddenOnly) params.set('overridden', 'true')
+      if (rangeDays !== null) {
+        params.set('since', String(Math.floor(Date.now() / 1000) - rangeDays * 24 * 60 * 60))
+      }
+
+      const res = await fetch(`/api/auto-approval/log?${params.toString()}`, {
+        credentials: 'include',
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load auto-approval log')
+      }
+      setLog(prev =>
+        offset > 0 && prev
+          ? { ...data, decisions: [...prev.decisions, ...data.decisions] }
+          : data
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load auto-approval log')
+    } finally {
+      setLoading(false)
+    }
+  }, [allProjects, currentProject?.path, verdict, decidedBy, overriddenOnly, rangeDays])
+
+  useEffect(() => {
+    void fetchLog()
+  }, [fetchLog])
+
+  useEffect(() => {
+    const handleDecision = () => void fetchLog()
+    socket.on('auto_approval_decision', handleDecision)
+    return () => {
+      socket.off('auto_approval_decision', handleDecision)
+    }
+  }, [socket, fetchLog])
+
+  const sessionLabel = (sessionId: string) =>
+    sessions.find(session => session.id === sessionId)?.name || sessionId.slice(0, 8)
+
+  const decisions = log?.decisions || []
+  const approvedCount = decisions.filter(decision => decision.verdict === 'approved').length
+  const overriddenCount = decisions.filter(decision => decision.userOverride).length
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between gap-2 border-b border-border px-3 py-2">
+        <div className="flex items-center gap-2 text-sm">
+          <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">Auto-Approval Log</span>
+          <span className="text-xs text-muted-foreground">
+            {allProjects ? 'All projects' : currentProject?.name}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => void fetchLog()}
+            title="Refresh"
+          >
+            <RefreshCw className={cn('h-3.5 w-3.5', loading && 'animate-spin')} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={closeAutoApprovalLog}
+            title="Close"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 border-b border-border px-3 py-2 text-xs">
+        <div className="flex items-center gap-1">
+          <span className="text-muted-foreground">Verdict</span>
+          {VERDICT_OPTIONS.map(option => (
+            <FilterButton key={option.label} active={verdict === option.value} onClick={() => setVerdict(option.value)}>
+              {option.label}
+            </FilterButton>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-muted-foreground">Decided by</span>
+          {DECIDED_BY_OPTIONS.map(option => (
+            <FilterButton key={option.label} active={decidedBy === option.value} onClick={() => setDecidedBy(option.value)}>
+              {option.label}
+            </FilterButton>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-muted-foreground">Range</span>
+          {RANGE_OPTIONS.map(option => (
+            <FilterButton key={option.label} active={rangeDays === option.days} onClick={() => setRangeDays(option.days)}>
+              {option.label}
+            </FilterButton>
+          ))}
+        </div>
+        <label className="flex cursor-pointer items-center gap-1.5 text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={overriddenOnly}
+            onChange={(event) => setOverriddenOnly(event.target.checked)}
+          />
+          Overridden only
+        </label>
+        <label className="flex cursor-pointer items-center gap-1.5 text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={allProjects}
+            onChange={(event) => setAllProjects(event.target.checked)}
+          />
+          All projects
+        </label>
+      </div>
+
+      {log && (
+        <div className="grid grid-cols-3 gap-2 border-b border-border px-3 py-3">
+          <div className="rounded border border-border bg-card px-3 py-2">
+            <div className="text-[10px] uppercase text-muted-foreground">Decisions</div>
+            <div className="text-lg font-semibold">{log.total}</div>
+          </div>
+          <div className="rounded border border-border bg-card px-3 py-2">
+            <div className="text-[10px] uppercase text-muted-foreground">Approved (shown)</div>
+            <div className="text-lg font-semibold">{approvedCount}</div>
+          </div>
+          <div className="rounded border border-border bg-card px-3 py-2">
+            <div className="text-[10px] uppercase text-muted-foreground">Overridden (shown)</div>
+            <div className="text-lg font-semibold">{overriddenCount}</div>
+          </div>
+        </div>
+      )}
+
+      <div className="min-h-0 flex-1 overflow-y-auto px-3 py-2">
+        {error ? (
+          <div className="flex items-center gap-2 text-xs text-destructive">
+            <AlertCircle className="h-3.5 w-3.5" />
+            {error}
+          </div>
+        ) : !log && loading ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            Loading decisions...
+          </div>
+        ) : log && decisions.length === 0 ? (
+          <div className="text-xs text-muted-foreground">
+            No auto-approval decisions match these filters.
+          </div>
+        ) : log ? (
+          <>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[10px] uppercase text-muted-foreground">
+                  <th className="w-4 py-1" />
+                  <th className="py-1 pr-2 font-medium">Time</th>
+                  <th className="py-1 pr-2 font-medium">Session</th>
+                  <th className="py-1 pr-2 font-medium">Agent</th>
+                  <th className="py-1 pr-2 font-medium">Verdict</th>
+                  <th className="py-1 pr-2 font-medium">Decided by</th>
+                  <th className="py-1 pr-2 font-medium">Reason</th>
+                  <th className="py-1 pr-2 text-right font-medium">Latency</th>
+                </tr>
+              </thead>
+              <tbody>
+                {decisions.map(decision => {
+                  const expanded = expandedId === decision.id
+                  return (
+                    <Fragment key={decision.id}>
+                      <tr
+                        className="cursor-pointer border-t border-border/50 align-top hover:bg-accent/40"
+                        onClick={() => setExpandedId(expanded ? null : decision.id)}
+                      >
+                        <td className="py-1.5 text-muted-foreground">
+                          {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                        </td>
+                        <td className="whitespace-nowrap py-1.5 pr-2 text-muted-foreground">
+                          {new Date(decision.createdAt * 1000).toLocaleString()}
+                        </td>
+                        <td className="py-1.5 pr-2 font-mono">{sessionLabel(decision.sessionId)}</td>
+                        <td className="py-1.5 pr-2">{decision.agentId || '-'}</td>
+                        <td className="py-1.5 pr-2">
+                          <span className={cn('rounded border px-1.5 py-0.5 text-[10px]', VERDICT_STYLES[decision.verdict])}>
+                            {formatVerdict(decision.verdict)}
+                          </span>
+                          {decision.userOverride && (
+                            <span
+                              className="ml-1 rounded border border-blue-500/40 px-1.5 py-0.5 text-[10px] text-blue-500"
+                              title={decision.overriddenAt ? `Approved by user at ${new Date(decision.overriddenAt * 1000).toLocaleString()}` : undefined}
+                            >
+                              Overridden
+                            </span>
+                          )}
+                        </td>
+                        <td className="max-w-[14rem] truncate py-1.5 pr-2" title={formatDecidedBy(decision)}>
+                          {formatDecidedBy(decision)}
+                        </td>
+                        <td className="max-w-[20rem] truncate py-1.5 pr-2 text-muted-foreground" title={decision.reason || undefined}>
+                          {decision.reason || '-'}
+                        </td>
+                        <td className="py-1.5 pr-2 text-right">{formatLatency(decision.latencyMs)}</td>
+                      </tr>
+                      {expanded && (
+                        <tr>
+                          <td />
+                          <td colSpan={7} className="pb-2 pr-2">
+                            {decision.worktreePath && (
+                              <div className="mb-1 text-[10px] text-muted-foreground">{decision.worktreePath}</div>
+                            )}
+                            <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded border border-border bg-card p-2 font-mono text-[10px]">
+                              {decision.terminalExcerpt || '(no terminal output captured)'}
+                            </pre>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  )
+                })}
+              </tbody>
+            </table>
+            {decisions.length < log.total && (
+              <div className="flex justify-center py-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={loading}
+                  onClick={() => void fetchLog(decisions.length)}
+                >
+                  Load more ({log.total - decisions.length} remaining)
+                </Button>
+              </div>
+            )}
+          </>
+        ) : null}
+      </div>
+    </div>
+  )
+}
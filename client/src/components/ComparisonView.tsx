@@ -0,0 +1,514 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAppStore } from '@/lib/store'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ConfirmDialog } from '@/components/ConfirmDialog'
+import { AgentIcon } from '@/components/AgentIcon'
+import { cn } from '@/lib/utils'
+import type { ComparisonAttemptReport, ComparisonReport, ComparisonRun } from '@/lib/types'
+import {
+  AlertCircle,
+  CheckCircle2,
+  ChevronDown,
+  ChevronRight,
+  Columns,
+  FlaskConical,
+  Loader2,
+  Play,
+  RefreshCw,
+  Trophy,
+  X,
+  XCircle,
+} from 'lucide-react'
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return '-'
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+function formatTokens(tokens: number | null): string {
+  if (tokens === null) return '-'
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`
+  return String(tokens)
+}
+
+function runTitle(run: ComparisonRun): string {
+  const prompt = run.prompt?.split('\n')[0]
+  return prompt || run.promptTemplate || run.tdTaskId || 'A/B run'
+}
+
+export function ComparisonView() {
+  const { currentProject, agents, sessions, socket, selectSession, closeComparisonView } = useAppStore()
+  const [runs, setRuns] = useState<ComparisonRun[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [report, setReport] = useState<ComparisonReport | null>(null)
+  const [reportLoading, setReportLoading] = useState(false)
+  const [busyAction, setBusyAction] = useState<string | null>(null)
+  const [keepTarget, setKeepTarget] = useState<{ run: ComparisonRun; attempt: ComparisonAttemptReport; index: number } | null>(null)
+  const [discardTarget, setDiscardTarget] = useState<ComparisonRun | null>(null)
+
+  const [selectedAgents, setSelectedAgents] = useState<string[]>([])
+  const [prompt, setPrompt] = useState('')
+  const [tdTaskId, setTdTaskId] = useState('')
+  const [baseBranch, setBaseBranch] = useState('')
+  const [starting, setStarting] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const availableAgents = agents.filter(agent => agent.kind === 'agent' && agent.enabled !== false)
+
+  const fetchRuns = useCallback(async () => {
+    if (!currentProject?.path) return
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ projectPath: currentProject.path })
+      const res = await fetch(`/api/comparisons?${params.toString()}`, { credentials: 'include' })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load A/B runs')
+      }
+      setRuns(data.runs)
+      setExpandedId(current => current ?? data.runs.find((run: ComparisonRun) => run.status === 'running')?.id ?? null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load A/B runs')
+    } finally {
+      setLoading(false)
+    }
+  }, [currentProject?.path])
+
+  const fetchReport = useCallback(async (id: string) => {
+    setReportLoading(true)
+    try {
+      const res = await fetch(`/api/comparisons/${encodeURIComponent(id)}`, { credentials: 'include' })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load comparison')
+      }
+      setReport(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load comparison')
+    } finally {
+      setReportLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    void fetchRuns()
+  }, [fetchRuns])
+
+  useEffect(() => {
+    if (expandedId) {
+      void fetchReport(expandedId)
+    } else {
+      setReport(null)
+    }
+  }, [expandedId, fetchReport])
+
+  useEffect(() => {
+    const handleUpdate = () => {
+      void fetchRuns()
+      if (expandedId) void fetchReport(expandedId)
+    }
+    socket.on('comparison_updated', handleUpdate)
+    return () => {
+      socket.off('comparison_updated', handleUpdate)
+    }
+  }, [socket, fetchRuns, fetchReport, expandedId])
+
+  const toggleAgent = (agentId: string, checked: boolean) => {
+    setSelectedAgents(current =>
+      checked ? [...current, agentId] : current.filter(id => id !== agentId)
+    )
+  }
+
+  const startRun = async () => {
+    if (!currentProject?.path) return
+    setStarting(true)
+    setFormError(null)
+    try {
+      const res = await fetch('/api/comparisons/run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          projectPath: currentProject.path,
+          agentIds: selectedAgents,
+          prompt: prompt.trim() || undefined,
+          tdTaskId: tdTaskId.trim() || undefined,
+          baseBranch: baseBranch.trim() || undefined,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to start A/B run')
+      }
+      setPrompt('')
+      setTdTaskId('')
+      setExpandedId(data.run.id)
+      void fetchRuns()
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to start A/B run')
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const runAction = async (action: 'test' | 'keep' | 'discard', id: string, attemptIndex?: number) => {
+    setBusyAction(`${action}:${id}`)
+    setError(null)
+    try {
+      const res = await fetch(`/api/comparisons/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ id, attemptIndex }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        throw new Error(data.error || `Failed to ${action} A/B run`)
+      }
+      if (data.warnings?.length) {
+        setError(data.warnings.join('\n'))
+      }
+      void fetchRuns()
+      if (expandedId === id) void fetchReport(id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} A/B run`)
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  const canStart = selectedAgents.length >= 2 && (prompt.trim() || tdTaskId.trim()) && !starting
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between gap-2 border-b border-border px-3 py-2">
+        <div className="flex items-center gap-2 text-sm">
+          <Columns className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">Compare Agents</span>
+          <span className="text-xs text-muted-foreground">{currentProject?.name}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => void fetchRuns()}
+            title="Refresh"
+          >
+            <RefreshCw className={cn('h-3.5 w-3.5', loading && 'animate-spin')} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={closeComparisonView}
+            title="Close"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 border-b border-border px-3 py-3 text-xs">
+        <div className="col-span-3 space-y-1">
+          <Label className="text-xs">Agents</Label>
+          <div className="flex flex-wrap items-center gap-3">
+            {availableAgents.map(agent => (
+              <label key={agent.id} className="flex cursor-pointer items-center gap-1.5">
+                <Checkbox
+                  checked={selectedAgents.includes(agent.id)}
+                  onCheckedChange={(checked) => toggleAgent(agent.id, checked === true)}
+                />
+                <AgentIcon icon={agent.icon} iconColor={agent.iconColor} className="h-3.5 w-3.5" />
+                {agent.name}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="col-span-3 space-y-1">
+          <Label className="text-xs">Prompt</Label>
+          <textarea
+            value={prompt}
+            onChange={(event) => setPrompt(event.target.value)}
+            rows={3}
+            placeholder="What every agent should do (optional with a TD task)"
+            className="w-full rounded border border-border bg-background px-2 py-1.5 text-xs resize-none focus:outline-none focus:ring-1 focus:ring-ring"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">TD task</Label>
+          <Input
+            value={tdTaskId}
+            onChange={(event) => setTdTaskId(event.target.value)}
+            className="h-8 font-mono text-xs"
+            placeholder="td-a1b2c3 (optional)"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Base branch</Label>
+          <Input
+            value={baseBranch}
+            onChange={(event) => setBaseBranch(event.target.value)}
+            className="h-8 font-mono text-xs"
+            placeholder="Default branch"
+          />
+        </div>
+        <div className="flex items-end justify-end gap-2">
+          {formError && (
+            <span className="flex items-center gap-1 text-destructive">
+              <AlertCircle className="h-3.5 w-3.5" />
+              {formError}
+            </span>
+          )}
+          <Button
+            size="sm"
+            className="h-8 text-xs"
+            onClick={() => void startRun()}
+            disabled={!canStart}
+          >
+            {starting ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <Play className="mr-1 h-3.5 w-3.5" />}
+            Start A/B run
+          </Button>
+        </div>
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-y-auto px-3 py-2">
+        {error && (
+          <div className="mb-2 flex items-start gap-2 whitespace-pre-wrap text-xs text-destructive">
+            <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+            {error}
+          </div>
+        )}
+        {runs.length === 0 && !loading ? (
+          <div className="text-xs text-muted-foreground">
+            No A/B runs yet. Pick two or more agents and a prompt or TD task; each agent works in its own worktree off the same base branch.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {runs.map(run => {
+              const expanded = expandedId === run.id
+              const runReport = expanded && report?.run.id === run.id ? report : null
+              const testing = busyAction === `test:${run.id}`
+              return (
+                <div key={run.id} className="rounded border border-border/60 bg-card text-xs">
+                  <div className="flex items-center justify-between gap-2 px-3 py-2">
+                    <button
+                      className="flex min-w-0 items-center gap-2 text-left"
+                      onClick={() => setExpandedId(expanded ? null : run.id)}
+                    >
+                      {expanded ? <ChevronDown className="h-3.5 w-3.5 shrink-0" /> : <ChevronRight className="h-3.5 w-3.5 shrink-0" />}
+                      <span className="truncate font-medium">{runTitle(run)}</span>
+                      {run.tdTaskId && <span className="font-mono text-muted-foreground">{run.tdTaskId}</span>}
+                      <span className="font-mono text-muted-foreground">{run.baseBranch}</span>
+                      <span
+                        className={cn(
+                          run.status === 'failed' && 'text-destructive',
+                          run.status === 'discarded' && 'text-muted-foreground',
+                          run.status === 'kept' && 'text-status-active'
+                        )}
+                      >
+                        {run.status === 'kept' && run.keptBranch ? `kept ${run.keptBranch}` : run.status}
+                      </span>
+                      <span className="text-muted-foreground">{new Date(run.createdAt * 1000).toLocaleString()}</span>
+                    </button>
+                    {run.status === 'running' && (
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-[10px]"
+                          onClick={() => void runAction('test', run.id)}
+                          disabled={!!busyAction}
+                          title="Run scripts.test from .cacd.json in every worktree"
+                        >
+                          {testing ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <FlaskConical className="mr-1 h-3 w-3" />}
+                          Run tests
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-[10px]"
+                          onClick={() => setDiscardTarget(run)}
+                          disabled={!!busyAction}
+                        >
+                          Discard all
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  {run.error && (
+                    <div className="flex items-center gap-1 px-3 pb-2 text-destructive">
+                      <AlertCircle className="h-3 w-3" />
+                      {run.error}
+                    </div>
+                  )}
+                  {expanded && (
+                    <div className="border-t border-border/60 px-3 py-2">
+                      {!runReport ? (
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                          Comparing attempts...
+                        </div>
+                      ) : (
+                        <div
+                          className="grid gap-2"
+                          style={{ gridTemplateColumns: `repeat(${runReport.attempts.length}, minmax(0, 1fr))` }}
+                        >
+                          {runReport.attempts.map((attempt, index) => {
+                            const agent = agents.find(a => a.id === attempt.agentId)
+                            const session = attempt.sessionId ? sessions.find(s => s.id === attempt.sessionId) : undefined
+                            return (
+                              <div
+                                key={index}
+                                className={cn(
+                                  'flex min-w-0 flex-col gap-1.5 rounded border p-2',
+                                  attempt.status === 'kept' ? 'border-status-active/60' : 'border-border/60',
+                                  attempt.status === 'discarded' && 'opacity-60'
+                                )}
+                              >
+                                <div className="flex items-center gap-1.5">
+                                  <AgentIcon icon={agent?.icon} iconColor={agent?.iconColor} className="h-3.5 w-3.5 shrink-0" />
+                                  <span className="truncate font-medium">{attempt.agentName}</span>
+                                  <span className="ml-auto text-muted-foreground">{attempt.status}</span>
+                                </div>
+                                <div className="truncate font-mono text-[10px] text-muted-foreground" title={attempt.worktreePath ?? undefined}>
+                                  {attempt.branch}
+                                </div>
+                                {attempt.error && (
+                                  <div className="text-destructive">{attempt.error}</div>
+                                )}
+                                <div className="grid grid-cols-2 gap-x-2 gap-y-0.5">
+                                  <span className="text-muted-foreground">Changes</span>
+                                  <span>
+                                    {attempt.changes ? (
+                                      <>
+                                        {attempt.changes.files.length} files{' '}
+                                        <span className="text-status-active">+{attempt.changes.additions}</span>{' '}
+                                        <span className="text-destructive">-{attempt.changes.deletions}</span>
+                                      </>
+                                    ) : '-'}
+                                  </span>
+                                  <span className="text-muted-foreground">Tests</span>
+                                  <span title={attempt.test?.output || undefined}>
+                                    {attempt.test ? (
+                                      attempt.test.passed ? (
+                                        <span className="flex items-center gap-1 text-status-active">
+                                          <CheckCircle2 className="h-3 w-3" /> passed
+                                        </span>
+                                      ) : (
+                                        <span className="flex items-center gap-1 text-destructive">
+                                          <XCircle className="h-3 w-3" /> failed
+                                        </span>
+                                      )
+                                    ) : 'not run'}
+                                  </span>
+                                  <span className="text-muted-foreground">Tokens</span>
+                                  <span>{formatTokens(attempt.totalTokens)}</span>
+                                  <span className="text-muted-foreground">Cost</span>
+                                  <span>{attempt.estimatedCostUsd !== null ? `$${attempt.estimatedCostUsd.toFixed(2)}` : '-'}</span>
+                                  <span className="text-muted-foreground">Time</span>
+                                  <span>
+                                    {formatDuration(attempt.durationSeconds)}
+                                    {attempt.busySeconds !== null && (
+                                      <span className="text-muted-foreground"> ({formatDuration(attempt.busySeconds)} busy)</span>
+                                    )}
+                                  </span>
+                                </div>
+                                {attempt.changes && attempt.changes.files.length > 0 && (
+                                  <div className="max-h-40 overflow-y-auto rounded bg-background/50 p-1 font-mono text-[10px]">
+                                    {attempt.changes.files.map(file => (
+                                      <div key={file.path} className="flex gap-2">
+                                        <span className="min-w-0 flex-1 truncate" title={file.path}>
+                                          {file.path}
+                                          {file.untracked && <span className="text-muted-foreground"> (new)</span>}
+                                        </span>
+                                        <span className="text-status-active">{file.additions !== null ? `+${file.additions}` : 'bin'}</span>
+                                        <span className="text-destructive">{file.deletions !== null ? `-${file.deletions}` : ''}</span>
+                                      </div>
+                                    ))}
+                                  </div>
+                                )}
+                                <div className="mt-auto flex items-center gap-1 pt-1">
+                                  {session && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-6 px-2 text-[10px]"
+                                      onClick={() => selectSession(session.id)}
+                                    >
+                                      Open session
+                                    </Button>
+                                  )}
+                                  {run.status === 'running' && attempt.worktreePath && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      className="ml-auto h-6 px-2 text-[10px]"
+                                      onClick={() => setKeepTarget({ run, attempt, index })}
+                                      disabled={!!busyAction}
+                                    >
+                                      <Trophy className="mr-1 h-3 w-3" />
+                                      Keep this one
+                                    </Button>
+                                  )}
+                                </div>
+                              </div>
+                            )
+                          })}
+                        </div>
+                      )}
+                      {reportLoading && runReport && (
+                        <div className="mt-1 flex items-center gap-1 text-[10px] text-muted-foreground">
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                          Refreshing...
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        open={!!keepTarget}
+        onOpenChange={(open) => !open && setKeepTarget(null)}
+        title={`Keep ${keepTarget?.attempt.agentName ?? ''}'s attempt?`}
+        description={
+          keepTarget
+            ? `All sessions of this run are stopped, ${keepTarget.attempt.branch} is committed and merged into ${keepTarget.run.baseBranch}, and the other attempts' worktrees and branches are deleted.`
+            : ''
+        }
+        confirmLabel="Keep and merge"
+        loading={!!busyAction}
+        onConfirm={() => {
+          if (keepTarget) void runAction('keep', keepTarget.run.id, keepTarget.index)
+        }}
+      />
+      <ConfirmDialog
+        open={!!discardTarget}
+        onOpenChange={(open) => !open && setDiscardTarget(null)}
+        title="Discard all attempts?"
+        description="All sessions of this run are stopped and every attempt's worktree and branch is deleted."
+        confirmLabel="Discard all"
+        variant="destructive"
+        loading={!!busyAction}
+        onConfirm={() => {
+          if (discardTarget) void runAction('discard', discardTarget.id)
+        }}
+      />
+    </div>
+  )
+}
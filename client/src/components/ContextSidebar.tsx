@@ -9,9 +9,9 @@ import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip
 import { StatusIndicator } from '@/components/StatusIndicator'
 import { AgentIcon, getLegacyAgentIconProps } from '@/components/AgentIcon'
 import { FileBrowser } from '@/components/FileBrowser'
-import { mapSessionState, ChangedFile } from '@/lib/types'
+import { mapSessionStatus, ChangedFile, WorktreePullRequest, WorktreeStatusUpdate } from '@/lib/types'
 import { TaskContextCard } from '@/components/TaskContextCard'
-import { X, GitBranch, Copy, Check, FileText, FilePlus, FileX, FileEdit, FileQuestion, GitCommit, FolderTree, Pencil } from 'lucide-react'
+import { X, GitBranch, GitPullRequest, Copy, Check, FileText, FilePlus, FileX, FileEdit, FileQuestion, GitCommit, FolderTree, Pencil } from 'lucide-react'
 import { cn, formatPath, copyToClipboard } from '@/lib/utils'
 
 export function ContextSidebar() {
@@ -25,6 +25,7 @@ export function ContextSidebar() {
     renameSession,
     sessionContextTabs,
     setSessionContextTab,
+    socket,
   } = useAppStore()
 
   const isMobile = useIsMobile()
@@ -35,6 +36,7 @@ export function ContextSidebar() {
   const [changedFiles, setChangedFiles] = useState<ChangedFile[]>([])
   const [filesLoading, setFilesLoading] = useState(false)
   const [filesError, setFilesError] = useState<string | null>(null)
+  const [pullRequest, setPullRequest] = useState<WorktreePullRequest | null>(null)
 
   // Find the session
   const session = contextSidebarSessionId
@@ -74,6 +76,16 @@ export function ContextSidebar() {
     }
   }, [session?.path])
 
+  // Pull request published from this worktree, if any
+  useEffect(() => {
+    setPullRequest(null)
+    if (!session?.path) return
+    fetch(`/api/worktree/pull-request?path=${encodeURIComponent(session.path)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setPullRequest(data?.pullRequest || null))
+      .catch(() => {})
+  }, [session?.path])
+
   // Track previous session state to detect meaningful changes
   const prevSessionStateRef = useRef<string | null>(null)
 
@@ -143,6 +155,17 @@ export function ContextSidebar() {
     prevSessionStateRef.current = session.state
   }, [session?.state, fetchChangedFiles, session])
 
+  // The daemon pushes status as soon as files in the worktree change
+  useEffect(() => {
+    if (!session?.path) return
+    const handleStatus = (update: WorktreeStatusUpdate) => {
+      if (update.worktreePath === session.path) void fetchChangedFiles()
+    }
+    socket.on('worktree_status', handleStatus)
+    return () => {
+      socket.off('worktree_status', handleStatus)
+    }
+  }, [socket, session?.path, fetchChangedFiles])
 
   if (!session) {
     return null
@@ -163,7 +186,11 @@ export function ContextSidebar() {
       {/* Session Info - Header area with status dot, icon, and name */}
           <div className="space-y-3">
             <div className="flex items-center gap-2 min-w-0">
-              <StatusIndicator status={mapSessionState(session.state)} size="md" />
+              <StatusIndicator
+                status={mapSessionStatus(session)}
+                size="md"
+                title={session.budget?.message}
+              />
               <AgentIcon icon={agentIcon} iconColor={agentIconColor} className="h-5 w-5 shrink-0" />
               {isRenamingSession ? (
                 <Input
@@ -193,6 +220,20 @@ export function ContextSidebar() {
                   </span>
                 </div>
               )}
+              {pullRequest && (
+                <a
+                  href={pullRequest.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="flex items-center gap-2 text-xs min-w-0 text-muted-foreground hover:text-foreground"
+                  title={pullRequest.title}
+                >
+                  <GitPullRequest className="h-3.5 w-3.5 shrink-0" />
+                  <span className="truncate">
+                    #{pullRequest.number} · {pullRequest.state}
+                  </span>
+                </a>
+              )}
               <Tooltip>
                 <TooltipTrigger asChild>
                   <button
@@ -2,6 +2,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import ReactMarkdown from 'react-markdown'
 import { useAppStore } from '@/lib/store'
 import { AgentIcon } from '@/components/AgentIcon'
+import { TerminalReplay } from '@/components/TerminalSession'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { cn } from '@/lib/utils'
@@ -10,6 +11,8 @@ import type {
   ConversationMessagesResponse,
   ConversationSession,
   ConversationSessionMetadata,
+  MessageSearchHit,
+  MessageSearchResponse,
 } from '@/lib/types'
 import {
   AlertCircle,
@@ -18,6 +21,7 @@ import {
   ChevronRight,
   Clock3,
   Filter,
+  History,
   Loader2,
   MessageSquare,
   RefreshCw,
@@ -30,6 +34,10 @@ import {
 
 const SESSION_PAGE_SIZE = 50
 const MESSAGE_PAGE_SIZE = 120
+const MESSAGE_SEARCH_LIMIT = 50
+const MESSAGE_SEARCH_DEBOUNCE_MS = 300
+
+type SearchMode = 'sessions' | 'messages'
 
 interface ConversationDetailState {
   metadata: ConversationSessionMetadata
@@ -100,6 +108,19 @@ function toInlinePreview(value?: string | null, maxLength = 96): string | null {
   return `${normalized.slice(0, maxLength)}...`
 }
 
+// Matched terms arrive wrapped in [[ ]] from the FTS snippet() call
+function renderSnippet(snippet: string) {
+  return snippet.split(/(\[\[.*?\]\])/g).map((part, index) =>
+    part.startsWith('[[') && part.endsWith(']]') ? (
+      <mark key={index} className="rounded bg-yellow-500/30 px-0.5 text-foreground">
+        {part.slice(2, -2)}
+      </mark>
+    ) : (
+      <span key={index}>{part}</span>
+    )
+  )
+}
+
 function groupSessionsByDate(sessions: ConversationSession[]): Array<{ label: string; sessions: ConversationSession[] }> {
   const now = new Date()
   const todayStart = startOfDay(now)
@@ -251,6 +272,11 @@ export function ConversationView() {
   const [sessions, setSessions] = useState<ConversationSession[]>([])
   const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null)
   const [search, setSearch] = useState('')
+  const [searchMode, setSearchMode] = useState<SearchMode>('sessions')
+  const [messageHits, setMessageHits] = useState<MessageSearchHit[]>([])
+  const [messageHitsTotal, setMessageHitsTotal] = useState(0)
+  const [messageSearchLoading, setMessageSearchLoading] = useState(false)
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null)
   const [enabledAgentTypes, setEnabledAgentTypes] = useState<Set<string>>(new Set())
   const [total, setTotal] = useState(0)
   const [offset, setOffset] = useState(0)
@@ -262,6 +288,7 @@ export function ConversationView() {
   const [detailLoading, setDetailLoading] = useState(false)
   const [detailLoadingMore, setDetailLoadingMore] = useState(false)
   const [detailError, setDetailError] = useState<string | null>(null)
+  const [replaySessionId, setReplaySessionId] = useState<string | null>(null)
 
   const [expandedMessages, setExpandedMessages] = useState<Set<string>>(new Set())
   const [expandedToolBlocks, setExpandedToolBlocks] = useState<Set<string>>(new Set())
@@ -288,7 +315,7 @@ export function ConversationView() {
         offset: String(nextOffset),
       })
 
-      if (search.trim()) {
+      if (searchMode === 'sessions' && search.trim()) {
         params.set('search', search.trim())
       }
       if (conversationTaskFilterId) {
@@ -346,7 +373,7 @@ export function ConversationView() {
       setLoading(false)
       setLoadingMore(false)
     }
-  }, [conversationInitialSessionId, conversationTaskFilterId, currentProject?.path, offset, search])
+  }, [conversationInitialSessionId, conversationTaskFilterId, currentProject?.path, offset, search, searchMode])
 
   const fetchMessages = useCallback(async (sessionId: string, reset = false, nextOffset = 0) => {
     if (reset) {
@@ -398,7 +425,77 @@ export function ConversationView() {
   useEffect(() => {
     setOffset(0)
     void fetchSessions(true)
-  }, [conversationTaskFilterId, currentProject?.path, search])
+  }, [conversationTaskFilterId, currentProject?.path, search, searchMode])
+
+  const messageQuery = searchMode === 'messages' ? search.trim() : ''
+
+  useEffect(() => {
+    if (!messageQuery || !currentProject?.path) {
+      setMessageHits([])
+      setMessageHitsTotal(0)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setMessageSearchLoading(true)
+      try {
+        const params = new URLSearchParams({
+          q: messageQuery,
+          projectPath: currentProject.path,
+          limit: String(MESSAGE_SEARCH_LIMIT),
+          refresh: '1',
+        })
+        if (conversationTaskFilterId) {
+          params.set('taskId', conversationTaskFilterId)
+        }
+        const res = await fetch(`/api/conversations/search?${params.toString()}`, {
+          credentials: 'include',
+        })
+        if (!res.ok) {
+          throw new Error('Failed to search messages')
+        }
+        const data = (await res.json()) as MessageSearchResponse
+        if (cancelled) return
+        setMessageHits(data.hits)
+        setMessageHitsTotal(data.total)
+        setError(null)
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to search messages')
+        }
+      } finally {
+        if (!cancelled) setMessageSearchLoading(false)
+      }
+    }, MESSAGE_SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [conversationTaskFilterId, currentProject?.path, messageQuery])
+
+  const openSearchHit = async (hit: MessageSearchHit) => {
+    if (!sessions.some(session => session.id === hit.sessionId)) {
+      try {
+        const res = await fetch(`/api/conversations/${encodeURIComponent(hit.sessionId)}`, {
+          credentials: 'include',
+        })
+        if (!res.ok) return
+        const data = (await res.json()) as { session?: ConversationSession }
+        if (!data.session) return
+        setSessions(prev => (prev.some(session => session.id === data.session!.id) ? prev : [data.session!, ...prev]))
+      } catch {
+        return
+      }
+    }
+    if (enabledAgentTypes.size > 0 && !enabledAgentTypes.has(hit.agentType)) {
+      setEnabledAgentTypes(new Set())
+    }
+    setReplaySessionId(null)
+    setFocusedMessageId(hit.messageId)
+    setSelectedSessionId(hit.sessionId)
+  }
 
   useEffect(() => {
     if (conversationInitialSessionId) {
@@ -511,6 +608,16 @@ export function ConversationView() {
   }, [selectedDetail?.messages])
   const selectedSubAgentSessions = selectedDetail?.subAgentSessions || []
 
+  useEffect(() => {
+    if (!focusedMessageId || !selectedDetail?.messages.some(message => message.id === focusedMessageId)) return
+    setExpandedMessages(prev => new Set(prev).add(focusedMessageId))
+    requestAnimationFrame(() => {
+      document
+        .querySelector(`[data-message-id="${CSS.escape(focusedMessageId)}"]`)
+        ?.scrollIntoView({ block: 'center' })
+    })
+  }, [focusedMessageId, selectedDetail?.messages])
+
   const availableAgentTypes = useMemo(() => {
     return Array.from(new Set(sessions.map(session => session.agentType))).sort()
   }, [sessions])
@@ -529,7 +636,7 @@ export function ConversationView() {
 
   const onListScroll = () => {
     const element = listRef.current
-    if (!element || loading || loadingMore) return
+    if (!element || loading || loadingMore || messageQuery) return
     if (sessions.length >= total) return
 
     const nearBottom = element.scrollTop + element.clientHeight >= element.scrollHeight - 80
@@ -614,10 +721,25 @@ export function ConversationView() {
               <Search className="h-3 w-3 text-muted-foreground" />
               <Input
                 className="h-7 border-0 px-0 text-xs shadow-none focus-visible:ring-0"
-                placeholder="Search by session, branch, task, content"
+                placeholder={searchMode === 'messages' ? 'Search message text, paths, commands' : 'Search by session, branch, task, content'}
                 value={search}
                 onChange={(event) => setSearch(event.target.value)}
               />
+              {(['sessions', 'messages'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setSearchMode(mode)}
+                  className={cn(
+                    'rounded px-1.5 py-0.5 text-[10px] capitalize whitespace-nowrap transition-colors',
+                    searchMode === mode
+                      ? 'bg-accent text-foreground'
+                      : 'text-muted-foreground hover:text-foreground'
+                  )}
+                  title={mode === 'messages' ? 'Full-text search inside conversations' : 'Filter sessions by metadata'}
+                >
+                  {mode}
+                </button>
+              ))}
             </div>
 
             <div className="flex items-center gap-1.5 overflow-x-auto pb-1">
@@ -655,7 +777,53 @@ export function ConversationView() {
             className="min-h-0 flex-1 overflow-y-auto px-2 py-2"
             onScroll={onListScroll}
           >
-            {loading ? (
+            {messageQuery ? (
+              messageSearchLoading && messageHits.length === 0 ? (
+                <div className="flex h-full items-center justify-center text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                </div>
+              ) : messageHits.length === 0 ? (
+                <div className="flex h-full items-center justify-center text-xs text-muted-foreground">
+                  No messages match
+                </div>
+              ) : (
+                <div className="space-y-1.5">
+                  {messageHits.map(hit => (
+                    <button
+                      key={`${hit.sessionId}-${hit.messageId}`}
+                      onClick={() => void openSearchHit(hit)}
+                      className={cn(
+                        'w-full rounded border px-3 py-2 text-left transition-colors',
+                        'hover:bg-accent/40 hover:border-border',
+                        hit.sessionId === selectedSessionId && hit.messageId === focusedMessageId
+                          ? 'bg-accent/50 border-border'
+                          : 'bg-card border-border/60'
+                      )}
+                    >
+                      <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+                        {(() => {
+                          const RoleIcon = getRoleIcon(hit.role as ConversationMessage['role'])
+                          return <RoleIcon className="h-2.5 w-2.5" />
+                        })()}
+                        <span className="truncate">
+                          {hit.sessionName || hit.agentProfileName}
+                          {hit.branchName && ` · ${hit.branchName}`}
+                        </span>
+                        <span className="ml-auto shrink-0">
+                          {new Date((hit.timestamp ?? hit.createdAt) * 1000).toLocaleDateString()}
+                        </span>
+                      </div>
+                      <p className="mt-1 line-clamp-3 text-xs leading-relaxed">{renderSnippet(hit.snippet)}</p>
+                    </button>
+                  ))}
+                  {messageHitsTotal > messageHits.length && (
+                    <p className="px-1 text-[10px] text-muted-foreground">
+                      Showing {messageHits.length} of {messageHitsTotal} matches. Refine the query to narrow results.
+                    </p>
+                  )}
+                </div>
+              )
+            ) : loading ? (
               <div className="flex h-full items-center justify-center text-muted-foreground">
                 <Loader2 className="h-4 w-4 animate-spin" />
               </div>
@@ -701,8 +869,20 @@ export function ConversationView() {
           {selectedSession ? (
             <div className="flex h-full min-h-0 flex-col rounded border border-border bg-card">
               <div className="border-b border-border px-4 py-3">
-                <div className="text-sm font-medium">
-                  {selectedSession.sessionName || selectedSession.contentPreview || `${selectedSession.agentProfileName} session`}
+                <div className="flex items-start justify-between gap-2">
+                  <div className="text-sm font-medium">
+                    {selectedSession.sessionName || selectedSession.contentPreview || `${selectedSession.agentProfileName} session`}
+                  </div>
+                  <Button
+                    variant={replaySessionId === selectedSession.id ? 'secondary' : 'outline'}
+                    size="sm"
+                    className="h-6 shrink-0 gap-1 px-2 text-[11px]"
+                    onClick={() => setReplaySessionId(prev => (prev === selectedSession.id ? null : selectedSession.id))}
+                    title="Replay recorded terminal output"
+                  >
+                    <History className="h-3 w-3" />
+                    Replay
+                  </Button>
                 </div>
                 <div className="mt-1 flex flex-wrap items-center gap-1 text-[11px] text-muted-foreground">
                   <span>{selectedSession.agentProfileName}</span>
@@ -736,7 +916,13 @@ export function ConversationView() {
               </div>
 
               <div className="min-h-0 flex-1 overflow-y-auto px-3 py-3">
-                {detailLoading ? (
+                {replaySessionId === selectedSession.id ? (
+                  <TerminalReplay
+                    sessionId={selectedSession.id}
+                    onClose={() => setReplaySessionId(null)}
+                    className="h-full rounded border border-border"
+                  />
+                ) : detailLoading ? (
                   <div className="flex h-full items-center justify-center text-muted-foreground">
                     <Loader2 className="h-4 w-4 animate-spin" />
                   </div>
@@ -781,7 +967,14 @@ export function ConversationView() {
                             {turn.messages.map(message => {
                               const isExpanded = expandedMessages.has(message.id)
                               return (
-                                <div key={message.id} className="rounded border border-border/60 bg-background px-2 py-1.5">
+                                <div
+                                  key={message.id}
+                                  data-message-id={message.id}
+                                  className={cn(
+                                    'rounded border bg-background px-2 py-1.5',
+                                    message.id === focusedMessageId ? 'border-yellow-500/60' : 'border-border/60'
+                                  )}
+                                >
                                   <button
                                     className="flex w-full items-start gap-2 text-left"
                                     onClick={() => toggleMessage(message.id)}
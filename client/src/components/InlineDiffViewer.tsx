@@ -9,8 +9,13 @@ import {
   Keyboard,
   ChevronDown,
   ChevronUp,
+  MessageSquarePlus,
+  Pencil,
+  Send,
+  Trash2,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import type { ReviewComment } from '@/lib/types'
 
 interface DiffLine {
   type: 'context' | 'add' | 'delete' | 'hunk' | 'header'
@@ -74,6 +79,17 @@ function parseDiff(diffText: string): { lines: DiffLine[]; stats: DiffStats } {
   return { lines, stats: { additions, deletions } }
 }
 
+// Review comments anchor to the new file, or to the old file for deleted lines
+function getLineAnchor(line: DiffLine): { line: number; side: 'old' | 'new' } | null {
+  if (line.type === 'delete' && line.oldLineNum !== undefined) {
+    return { line: line.oldLineNum, side: 'old' }
+  }
+  if ((line.type === 'add' || line.type === 'context') && line.newLineNum !== undefined) {
+    return { line: line.newLineNum, side: 'new' }
+  }
+  return null
+}
+
 function findHunkIndices(lines: DiffLine[]): number[] {
   return lines.reduce<number[]>((acc, line, idx) => {
     if (line.type === 'hunk') acc.push(idx)
@@ -82,7 +98,7 @@ function findHunkIndices(lines: DiffLine[]): number[] {
 }
 
 export function InlineDiffViewer() {
-  const { viewingFileDiff, closeFileDiff } = useAppStore()
+  const { viewingFileDiff, closeFileDiff, sessions } = useAppStore()
 
   const [diffText, setDiffText] = useState<string>('')
   const [loading, setLoading] = useState(false)
@@ -90,6 +106,10 @@ export function InlineDiffViewer() {
   const [viewMode, setViewMode] = useState<ViewMode>('unified')
   const [showHelp, setShowHelp] = useState(false)
   const [focusedLine, setFocusedLine] = useState(0)
+  const [reviewComments, setReviewComments] = useState<ReviewComment[]>([])
+  const [draftLine, setDraftLine] = useState<number | null>(null)
+  const [reviewStatus, setReviewStatus] = useState<string | null>(null)
+  const [sendingReview, setSendingReview] = useState(false)
 
   const containerRef = useRef<HTMLDivElement>(null)
   const lineRefs = useRef<(HTMLDivElement | null)[]>([])
@@ -127,6 +147,135 @@ export function InlineDiffViewer() {
     fetchDiff()
   }, [file, worktreePath])
 
+  const fetchReviewComments = useCallback(async () => {
+    if (!worktreePath) return
+    try {
+      const response = await fetch(
+        `/api/worktree/review-comments?path=${encodeURIComponent(worktreePath)}`
+      )
+      if (!response.ok) return
+      const data = await response.json()
+      setReviewComments(data.comments || [])
+    } catch {
+      // Comments are an overlay; the diff stays usable without them
+    }
+  }, [worktreePath])
+
+  useEffect(() => {
+    setDraftLine(null)
+    setReviewStatus(null)
+    void fetchReviewComments()
+  }, [fetchReviewComments, file])
+
+  // Comments of this file, keyed by the index of the diff line they anchor to
+  const commentsByLine = useMemo(() => {
+    const byLine = new Map<number, ReviewComment[]>()
+    const fileComments = reviewComments.filter((comment) => comment.filePath === file?.path)
+    if (fileComments.length === 0) return byLine
+    lines.forEach((line, idx) => {
+      const anchor = getLineAnchor(line)
+      if (!anchor) return
+      const matching = fileComments.filter(
+        (comment) => comment.line === anchor.line && comment.side === anchor.side
+      )
+      if (matching.length > 0) byLine.set(idx, matching)
+    })
+    return byLine
+  }, [reviewComments, file?.path, lines])
+
+  const unsentCount = reviewComments.filter((comment) => !comment.sentAt).length
+  const hasSession = sessions.some((session) => session.path === worktreePath)
+
+  const startComment = useCallback(
+    (idx: number) => {
+      if (lines[idx] && getLineAnchor(lines[idx])) {
+        setFocusedLine(idx)
+        setDraftLine(idx)
+      }
+    },
+    [lines]
+  )
+
+  const saveComment = async (idx: number, body: string) => {
+    const line = lines[idx]
+    const anchor = line ? getLineAnchor(line) : null
+    if (!anchor || !file || !worktreePath) return
+    const response = await fetch('/api/worktree/review-comments', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        path: worktreePath,
+        file: file.path,
+        line: anchor.line,
+        side: anchor.side,
+        snippet: line.content,
+        body,
+      }),
+    })
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error(data.error || 'Failed to save comment')
+    }
+    setDraftLine(null)
+    await fetchReviewComments()
+  }
+
+  const updateComment = async (id: string, body: string) => {
+    const response = await fetch(`/api/worktree/review-comments/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ body }),
+    })
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error(data.error || 'Failed to update comment')
+    }
+    await fetchReviewComments()
+  }
+
+  const deleteComment = async (id: string) => {
+    await fetch(`/api/worktree/review-comments/${encodeURIComponent(id)}`, { method: 'DELETE' })
+    await fetchReviewComments()
+  }
+
+  const sendReview = async () => {
+    if (!worktreePath) return
+    setSendingReview(true)
+    setReviewStatus(null)
+    try {
+      const response = await fetch('/api/worktree/review/send', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path: worktreePath }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send review')
+      }
+      setReviewStatus(`Sent ${data.count} comment${data.count === 1 ? '' : 's'} to the agent`)
+      await fetchReviewComments()
+    } catch (err) {
+      setReviewStatus(err instanceof Error ? err.message : 'Failed to send review')
+    } finally {
+      setSendingReview(false)
+    }
+  }
+
+  const renderComments = (idx: number) => {
+    const comments = commentsByLine.get(idx)
+    if (!comments && draftLine !== idx) return null
+    return (
+      <ReviewCommentThread
+        comments={comments || []}
+        drafting={draftLine === idx}
+        onSaveDraft={(body) => saveComment(idx, body)}
+        onCancelDraft={() => setDraftLine(null)}
+        onUpdate={updateComment}
+        onDelete={(id) => void deleteComment(id)}
+      />
+    )
+  }
+
   // Scroll focused line into view
   useEffect(() => {
     lineRefs.current[focusedLine]?.scrollIntoView({
@@ -204,12 +353,18 @@ export function InlineDiffViewer() {
           e.preventDefault()
           setViewMode('split')
           break
+        case 'c':
+          // Leave Ctrl/Cmd+C to copying
+          if (e.metaKey || e.ctrlKey) break
+          e.preventDefault()
+          startComment(focusedLine)
+          break
       }
     }
 
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [viewingFileDiff, closeFileDiff, lines.length, navigateHunk])
+  }, [viewingFileDiff, closeFileDiff, lines.length, navigateHunk, startComment, focusedLine])
 
   if (!viewingFileDiff || !file) {
     return null
@@ -250,6 +405,23 @@ export function InlineDiffViewer() {
 
         {/* Controls */}
         <div className="flex items-center gap-1 shrink-0">
+          {/* Review */}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 gap-1 text-xs mr-1"
+            onClick={() => void sendReview()}
+            disabled={unsentCount === 0 || !hasSession || sendingReview}
+            title={
+              hasSession
+                ? 'Send unsent review comments of this worktree to its agent'
+                : 'No running session in this worktree'
+            }
+          >
+            <Send className="h-3 w-3" />
+            Send review{unsentCount > 0 && ` (${unsentCount})`}
+          </Button>
+
           {/* View mode toggle */}
           <div className="flex items-center border border-border rounded overflow-hidden">
             <Button
@@ -354,6 +526,11 @@ export function InlineDiffViewer() {
               <kbd className="px-1.5 py-0.5 bg-secondary rounded text-xs">s</kbd>
               <span>Split view</span>
 
+              <span className="text-muted-foreground mt-2">Review</span>
+              <span></span>
+              <kbd className="px-1.5 py-0.5 bg-secondary rounded text-xs">c</kbd>
+              <span>Comment on line</span>
+
               <span className="text-muted-foreground mt-2">Other</span>
               <span></span>
               <kbd className="px-1.5 py-0.5 bg-secondary rounded text-xs">?</kbd>
@@ -395,6 +572,8 @@ export function InlineDiffViewer() {
             focusedLine={focusedLine}
             lineRefs={lineRefs}
             onLineClick={setFocusedLine}
+            onComment={startComment}
+            renderComments={renderComments}
           />
         ) : (
           <SplitDiffView
@@ -402,6 +581,8 @@ export function InlineDiffViewer() {
             focusedLine={focusedLine}
             lineRefs={lineRefs}
             onLineClick={setFocusedLine}
+            onComment={startComment}
+            renderComments={renderComments}
           />
         )}
       </div>
@@ -412,6 +593,7 @@ export function InlineDiffViewer() {
           {lines.length > 0 && (
             <>Line {focusedLine + 1} of {lines.length}</>
           )}
+          {reviewStatus && <span className="ml-3">{reviewStatus}</span>}
         </span>
         <span className="text-[10px] opacity-60">
           Press <kbd className="px-1 bg-secondary rounded">?</kbd> for help
@@ -427,57 +609,65 @@ function UnifiedDiffView({
   focusedLine,
   lineRefs,
   onLineClick,
+  onComment,
+  renderComments,
 }: {
   lines: DiffLine[]
   focusedLine: number
   lineRefs: React.MutableRefObject<(HTMLDivElement | null)[]>
   onLineClick: (index: number) => void
+  onComment: (index: number) => void
+  renderComments: (index: number) => React.ReactNode
 }) {
   return (
     <ScrollArea className="h-full">
       <div className="font-mono text-[13px] leading-6">
         {lines.map((line, idx) => (
-          <div
-            key={idx}
-            ref={(el) => (lineRefs.current[idx] = el)}
-            className={cn(
-              'flex hover:bg-muted/30 cursor-pointer transition-colors',
-              idx === focusedLine && 'ring-1 ring-primary/50 ring-inset',
-              line.type === 'add' && 'bg-green-500/10 border-l-4 border-green-500/60',
-              line.type === 'delete' && 'bg-red-500/10 border-l-4 border-red-500/60',
-              line.type === 'hunk' && 'bg-blue-500/10 border-l-4 border-blue-500/60 text-blue-400',
-              line.type === 'header' && 'bg-muted/30 text-muted-foreground border-l-4 border-muted',
-              line.type === 'context' && 'border-l-4 border-transparent'
-            )}
-            onClick={() => onLineClick(idx)}
-          >
-            {/* Line numbers gutter */}
-            <div className="flex shrink-0 select-none text-muted-foreground/60 text-right border-r border-border bg-card/30">
-              <span className="w-12 px-2 border-r border-border/50">
-                {line.type === 'delete' || line.type === 'context' ? line.oldLineNum : ''}
-              </span>
-              <span className="w-12 px-2">
-                {line.type === 'add' || line.type === 'context' ? line.newLineNum : ''}
-              </span>
-            </div>
-
-            {/* Diff marker */}
-            <span
+          <div key={idx}>
+            <div
+              ref={(el) => (lineRefs.current[idx] = el)}
               className={cn(
-                'w-5 shrink-0 text-center select-none',
-                line.type === 'add' && 'text-green-500',
-                line.type === 'delete' && 'text-red-500'
+                'group flex hover:bg-muted/30 cursor-pointer transition-colors',
+                idx === focusedLine && 'ring-1 ring-primary/50 ring-inset',
+                line.type === 'add' && 'bg-green-500/10 border-l-4 border-green-500/60',
+                line.type === 'delete' && 'bg-red-500/10 border-l-4 border-red-500/60',
+                line.type === 'hunk' && 'bg-blue-500/10 border-l-4 border-blue-500/60 text-blue-400',
+                line.type === 'header' && 'bg-muted/30 text-muted-foreground border-l-4 border-muted',
+                line.type === 'context' && 'border-l-4 border-transparent'
               )}
+              onClick={() => onLineClick(idx)}
             >
-              {line.type === 'add' && '+'}
-              {line.type === 'delete' && '-'}
-              {line.type === 'context' && ' '}
-            </span>
-
-            {/* Content */}
-            <pre className="flex-1 px-2 whitespace-pre overflow-x-auto">
-              {line.content}
-            </pre>
+              {/* Line numbers gutter */}
+              <div className="flex shrink-0 select-none text-muted-foreground/60 text-right border-r border-border bg-card/30">
+                <span className="w-12 px-2 border-r border-border/50">
+                  {line.type === 'delete' || line.type === 'context' ? line.oldLineNum : ''}
+                </span>
+                <span className="w-12 px-2">
+                  {line.type === 'add' || line.type === 'context' ? line.newLineNum : ''}
+                </span>
+              </div>
+
+              {/* Diff marker */}
+              <span
+                className={cn(
+                  'w-5 shrink-0 text-center select-none',
+                  line.type === 'add' && 'text-green-500',
+                  line.type === 'delete' && 'text-red-500'
+                )}
+              >
+                {line.type === 'add' && '+'}
+                {line.type === 'delete' && '-'}
+                {line.type === 'context' && ' '}
+              </span>
+
+              {/* Content */}
+              <pre className="flex-1 px-2 whitespace-pre overflow-x-auto">
+                {line.content}
+              </pre>
+
+              {getLineAnchor(line) && <CommentButton onClick={() => onComment(idx)} />}
+            </div>
+            {renderComments(idx)}
           </div>
         ))}
       </div>
@@ -491,12 +681,18 @@ function SplitDiffView({
   focusedLine,
   lineRefs,
   onLineClick,
+  onComment,
+  renderComments,
 }: {
   lines: DiffLine[]
   focusedLine: number
   lineRefs: React.MutableRefObject<(HTMLDivElement | null)[]>
   onLineClick: (index: number) => void
+  onComment: (index: number) => void
+  renderComments: (index: number) => React.ReactNode
 }) {
+  const lineIndices = useMemo(() => new Map(lines.map((line, idx) => [line, idx])), [lines])
+
   const pairs = useMemo(() => {
     const result: {
       left: DiffLine | null
@@ -551,85 +747,93 @@ function SplitDiffView({
         {pairs.map((pair, idx) => {
           const isHunkOrHeader =
             pair.left?.type === 'hunk' || pair.left?.type === 'header'
+          const leftIndex = pair.left ? lineIndices.get(pair.left) : undefined
+          const rightIndex = pair.right ? lineIndices.get(pair.right) : undefined
+          // Context lines appear on both sides; comment on the new side
+          const commentIndex = pair.right && getLineAnchor(pair.right) ? rightIndex : leftIndex
 
           return (
-            <div
-              key={idx}
-              ref={(el) => (lineRefs.current[pair.originalIndex] = el)}
-              className={cn(
-                'flex hover:bg-muted/20 cursor-pointer transition-colors',
-                pair.originalIndex === focusedLine && 'ring-1 ring-primary/50 ring-inset'
-              )}
-              onClick={() => onLineClick(pair.originalIndex)}
-            >
-              {isHunkOrHeader ? (
-                <div
-                  className={cn(
-                    'flex-1 flex border-l-4',
-                    pair.left?.type === 'hunk' && 'bg-blue-500/10 border-blue-500/60 text-blue-400',
-                    pair.left?.type === 'header' && 'bg-muted/30 border-muted text-muted-foreground'
-                  )}
-                >
-                  <span className="w-12 px-2 text-right text-muted-foreground/60 border-r border-border/50 select-none shrink-0">
-                    {pair.left?.oldLineNum || ''}
-                  </span>
-                  <pre className="flex-1 px-2 whitespace-pre overflow-x-auto">
-                    {pair.left?.content}
-                  </pre>
-                </div>
-              ) : (
-                <>
-                  {/* Left side (old) */}
+            <div key={idx}>
+              <div
+                ref={(el) => (lineRefs.current[pair.originalIndex] = el)}
+                className={cn(
+                  'group flex hover:bg-muted/20 cursor-pointer transition-colors',
+                  pair.originalIndex === focusedLine && 'ring-1 ring-primary/50 ring-inset'
+                )}
+                onClick={() => onLineClick(pair.originalIndex)}
+              >
+                {isHunkOrHeader ? (
                   <div
                     className={cn(
-                      'flex-1 flex border-r border-border',
-                      pair.left?.type === 'delete' && 'bg-red-500/10 border-l-4 border-l-red-500/60',
-                      pair.left?.type === 'context' && 'border-l-4 border-l-transparent',
-                      !pair.left && 'bg-muted/20 border-l-4 border-l-transparent'
+                      'flex-1 flex border-l-4',
+                      pair.left?.type === 'hunk' && 'bg-blue-500/10 border-blue-500/60 text-blue-400',
+                      pair.left?.type === 'header' && 'bg-muted/30 border-muted text-muted-foreground'
                     )}
                   >
                     <span className="w-12 px-2 text-right text-muted-foreground/60 border-r border-border/50 select-none shrink-0">
                       {pair.left?.oldLineNum || ''}
                     </span>
-                    <span
-                      className={cn(
-                        'w-5 shrink-0 text-center select-none',
-                        pair.left?.type === 'delete' && 'text-red-500'
-                      )}
-                    >
-                      {pair.left?.type === 'delete' && '-'}
-                    </span>
                     <pre className="flex-1 px-2 whitespace-pre overflow-x-auto">
-                      {pair.left?.content ?? ''}
+                      {pair.left?.content}
                     </pre>
                   </div>
-
-                  {/* Right side (new) */}
-                  <div
-                    className={cn(
-                      'flex-1 flex',
-                      pair.right?.type === 'add' && 'bg-green-500/10 border-l-4 border-l-green-500/60',
-                      pair.right?.type === 'context' && 'border-l-4 border-l-transparent',
-                      !pair.right && 'bg-muted/20 border-l-4 border-l-transparent'
-                    )}
-                  >
-                    <span className="w-12 px-2 text-right text-muted-foreground/60 border-r border-border/50 select-none shrink-0">
-                      {pair.right?.newLineNum || ''}
-                    </span>
-                    <span
+                ) : (
+                  <>
+                    {/* Left side (old) */}
+                    <div
                       className={cn(
-                        'w-5 shrink-0 text-center select-none',
-                        pair.right?.type === 'add' && 'text-green-500'
+                        'flex-1 flex border-r border-border',
+                        pair.left?.type === 'delete' && 'bg-red-500/10 border-l-4 border-l-red-500/60',
+                        pair.left?.type === 'context' && 'border-l-4 border-l-transparent',
+                        !pair.left && 'bg-muted/20 border-l-4 border-l-transparent'
                       )}
                     >
-                      {pair.right?.type === 'add' && '+'}
-                    </span>
-                    <pre className="flex-1 px-2 whitespace-pre overflow-x-auto">
-                      {pair.right?.content ?? ''}
-                    </pre>
-                  </div>
-                </>
-              )}
+                      <span className="w-12 px-2 text-right text-muted-foreground/60 border-r border-border/50 select-none shrink-0">
+                        {pair.left?.oldLineNum || ''}
+                      </span>
+                      <span
+                        className={cn(
+                          'w-5 shrink-0 text-center select-none',
+                          pair.left?.type === 'delete' && 'text-red-500'
+                        )}
+                      >
+                        {pair.left?.type === 'delete' && '-'}
+                      </span>
+                      <pre className="flex-1 px-2 whitespace-pre overflow-x-auto">
+                        {pair.left?.content ?? ''}
+                      </pre>
+                    </div>
+
+                    {/* Right side (new) */}
+                    <div
+                      className={cn(
+                        'flex-1 flex',
+                        pair.right?.type === 'add' && 'bg-green-500/10 border-l-4 border-l-green-500/60',
+                        pair.right?.type === 'context' && 'border-l-4 border-l-transparent',
+                        !pair.right && 'bg-muted/20 border-l-4 border-l-transparent'
+                      )}
+                    >
+                      <span className="w-12 px-2 text-right text-muted-foreground/60 border-r border-border/50 select-none shrink-0">
+                        {pair.right?.newLineNum || ''}
+                      </span>
+                      <span
+                        className={cn(
+                          'w-5 shrink-0 text-center select-none',
+                          pair.right?.type === 'add' && 'text-green-500'
+                        )}
+                      >
+                        {pair.right?.type === 'add' && '+'}
+                      </span>
+                      <pre className="flex-1 px-2 whitespace-pre overflow-x-auto">
+                        {pair.right?.content ?? ''}
+                      </pre>
+                      {commentIndex !== undefined && <CommentButton onClick={() => onComment(commentIndex)} />}
+                    </div>
+                  </>
+                )}
+              </div>
+              {leftIndex !== undefined && leftIndex !== rightIndex && renderComments(leftIndex)}
+              {rightIndex !== undefined && renderComments(rightIndex)}
             </div>
           )
         })}
@@ -637,3 +841,138 @@ function SplitDiffView({
     </ScrollArea>
   )
 }
+
+function CommentButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      className="shrink-0 px-1.5 text-muted-foreground opacity-0 transition-opacity hover:text-primary group-hover:opacity-100"
+      onClick={(e) => {
+        e.stopPropagation()
+        onClick()
+      }}
+      title="Add review comment (c)"
+    >
+      <MessageSquarePlus className="h-3.5 w-3.5" />
+    </button>
+  )
+}
+
+// Review comments on one diff line, plus the editor for a new one
+function ReviewCommentThread({
+  comments,
+  drafting,
+  onSaveDraft,
+  onCancelDraft,
+  onUpdate,
+  onDelete,
+}: {
+  comments: ReviewComment[]
+  drafting: boolean
+  onSaveDraft: (body: string) => Promise<void>
+  onCancelDraft: () => void
+  onUpdate: (id: string, body: string) => Promise<void>
+  onDelete: (id: string) => void
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  return (
+    <div className="border-y border-border bg-card/60 px-4 py-2 font-sans text-xs space-y-2">
+      {comments.map((comment) =>
+        editingId === comment.id ? (
+          <CommentEditor
+            key={comment.id}
+            initialValue={comment.body}
+            onSave={async (body) => {
+              await onUpdate(comment.id, body)
+              setEditingId(null)
+            }}
+            onCancel={() => setEditingId(null)}
+          />
+        ) : (
+          <div key={comment.id} className="group/comment flex items-start gap-2">
+            <p className="flex-1 whitespace-pre-wrap">{comment.body}</p>
+            {comment.sentAt && (
+              <span className="shrink-0 rounded border border-border px-1.5 text-[10px] text-muted-foreground">
+                sent
+              </span>
+            )}
+            <button
+              className="shrink-0 text-muted-foreground opacity-0 hover:text-foreground group-hover/comment:opacity-100"
+              onClick={() => setEditingId(comment.id)}
+              title="Edit comment"
+            >
+              <Pencil className="h-3 w-3" />
+            </button>
+            <button
+              className="shrink-0 text-muted-foreground opacity-0 hover:text-destructive group-hover/comment:opacity-100"
+              onClick={() => onDelete(comment.id)}
+              title="Delete comment"
+            >
+              <Trash2 className="h-3 w-3" />
+            </button>
+          </div>
+        )
+      )}
+      {drafting && <CommentEditor initialValue="" onSave={onSaveDraft} onCancel={onCancelDraft} />}
+    </div>
+  )
+}
+
+function CommentEditor({
+  initialValue,
+  onSave,
+  onCancel,
+}: {
+  initialValue: string
+  onSave: (body: string) => Promise<void>
+  onCancel: () => void
+}) {
+  const [value, setValue] = useState(initialValue)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const save = async () => {
+    if (!value.trim()) return
+    setSaving(true)
+    setError(null)
+    try {
+      await onSave(value.trim())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save comment')
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <textarea
+        autoFocus
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault()
+            void save()
+          } else if (e.key === 'Escape') {
+            e.preventDefault()
+            e.stopPropagation()
+            onCancel()
+          }
+        }}
+        rows={3}
+        placeholder="Leave a review comment for the agent..."
+        className="w-full resize-y rounded border border-border bg-background px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-primary"
+      />
+      <div className="flex items-center gap-2">
+        <Button size="sm" className="h-6 px-2 text-xs" onClick={() => void save()} disabled={saving || !value.trim()}>
+          Save
+        </Button>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onCancel}>
+          Cancel
+        </Button>
+        <span className="text-[10px] text-muted-foreground">Ctrl+Enter to save</span>
+        {error && <span className="text-destructive">{error}</span>}
+      </div>
+    </div>
+  )
+}
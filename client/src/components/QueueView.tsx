@@ -0,0 +1,399 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAppStore } from '@/lib/store'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+import type { QueueJob, QueueJobTrigger, QueueResponse } from '@/lib/types'
+import { AlertCircle, CalendarClock, Loader2, Plus, RefreshCw, X } from 'lucide-react'
+
+const TRIGGER_OPTIONS: Array<{ value: QueueJobTrigger; label: string }> = [
+  { value: 'slot', label: 'When a slot is free' },
+  { value: 'at', label: 'At a time' },
+  { value: 'cron', label: 'On a schedule' },
+]
+
+// Select items need a non-empty value; this stands for "project root"
+const PROJECT_ROOT = '__project_root__'
+
+function formatTrigger(job: QueueJob): string {
+  if (job.trigger === 'cron') return `cron ${job.cronExpression ?? ''}`
+  if (job.trigger === 'at') return 'at'
+  return 'when free'
+}
+
+function formatNextRun(job: QueueJob): string {
+  if (job.status !== 'pending') return '-'
+  if (job.trigger === 'slot') return 'next free slot'
+  return new Date(job.runAt * 1000).toLocaleString()
+}
+
+function formatTarget(job: QueueJob): string {
+  if (job.branchTemplate) return job.branchTemplate
+  const path = job.worktreePath || job.projectPath
+  return path.split('/').filter(Boolean).pop() || path
+}
+
+export function QueueView() {
+  const { currentProject, agents, worktrees, socket, closeQueueView } = useAppStore()
+  const [queue, setQueue] = useState<QueueResponse | null>(null)
+  const [showFinished, setShowFinished] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [formOpen, setFormOpen] = useState(false)
+  const [agentId, setAgentId] = useState('')
+  const [worktreePath, setWorktreePath] = useState(PROJECT_ROOT)
+  const [branchTemplate, setBranchTemplate] = useState('')
+  const [promptTemplate, setPromptTemplate] = useState('')
+  const [tdTaskId, setTdTaskId] = useState('')
+  const [trigger, setTrigger] = useState<QueueJobTrigger>('slot')
+  const [runAtLocal, setRunAtLocal] = useState('')
+  const [cronExpression, setCronExpression] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const selectableAgents = agents.filter(agent => agent.kind === 'agent' && agent.enabled !== false)
+
+  const fetchQueue = useCallback(async () => {
+    if (!currentProject?.path) return
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ projectPath: currentProject.path })
+      if (!showFinished) {
+        params.set('status', 'pending')
+      }
+      const res = await fetch(`/api/queue?${params.toString()}`, { credentials: 'include' })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load queue')
+      }
+      setQueue(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load queue')
+    } finally {
+      setLoading(false)
+    }
+  }, [currentProject?.path, showFinished])
+
+  useEffect(() => {
+    void fetchQueue()
+  }, [fetchQueue])
+
+  useEffect(() => {
+    const handleUpdate = () => void fetchQueue()
+    socket.on('queue_updated', handleUpdate)
+    return () => {
+      socket.off('queue_updated', handleUpdate)
+    }
+  }, [socket, fetchQueue])
+
+  const submitJob = async () => {
+    if (!currentProject?.path || !agentId) return
+    setSubmitting(true)
+    setFormError(null)
+    try {
+      const res = await fetch('/api/queue', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          projectPath: currentProject.path,
+          agentId,
+          worktreePath: !branchTemplate.trim() && worktreePath !== PROJECT_ROOT ? worktreePath : undefined,
+          branchTemplate: branchTemplate.trim() || undefined,
+          promptTemplate: promptTemplate.trim() || undefined,
+          tdTaskId: tdTaskId.trim() || undefined,
+          at: trigger === 'at' && runAtLocal ? new Date(runAtLocal).toISOString() : undefined,
+          cron: trigger === 'cron' ? cronExpression.trim() : undefined,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to queue job')
+      }
+      setFormOpen(false)
+      setBranchTemplate('')
+      setPromptTemplate('')
+      setTdTaskId('')
+      setRunAtLocal('')
+      setCronExpression('')
+      void fetchQueue()
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to queue job')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const cancelJob = async (id: string) => {
+    try {
+      const res = await fetch('/api/queue/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ id }),
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to cancel job')
+      }
+      void fetchQueue()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel job')
+    }
+  }
+
+  const canSubmit =
+    !!agentId &&
+    !submitting &&
+    (trigger !== 'at' || !!runAtLocal) &&
+    (trigger !== 'cron' || !!cronExpression.trim())
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between gap-2 border-b border-border px-3 py-2">
+        <div className="flex items-center gap-2 text-sm">
+          <CalendarClock className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">Queue</span>
+          <span className="text-xs text-muted-foreground">{currentProject?.name}</span>
+          {queue?.maxConcurrentAgents && (
+            <span className="text-xs text-muted-foreground">
+              · max {queue.maxConcurrentAgents} concurrent agents
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setFormOpen(open => !open)}
+          >
+            <Plus className="mr-1 h-3.5 w-3.5" />
+            Add job
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => void fetchQueue()}
+            title="Refresh"
+          >
+            <RefreshCw className={cn('h-3.5 w-3.5', loading && 'animate-spin')} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={closeQueueView}
+            title="Close"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      {formOpen && (
+        <div className="grid grid-cols-2 gap-3 border-b border-border px-3 py-3 text-xs">
+          <div className="space-y-1">
+            <Label className="text-xs">Agent</Label>
+            <Select value={agentId} onValueChange={setAgentId}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Select agent" />
+              </SelectTrigger>
+              <SelectContent>
+                {selectableAgents.map(agent => (
+                  <SelectItem key={agent.id} value={agent.id}>
+                    {agent.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Worktree</Label>
+            <Select
+              value={worktreePath}
+              onValueChange={setWorktreePath}
+              disabled={!!branchTemplate.trim()}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PROJECT_ROOT}>Project root</SelectItem>
+                {worktrees.filter(worktree => !worktree.isMainWorktree).map(worktree => (
+                  <SelectItem key={worktree.path} value={worktree.path}>
+                    {worktree.branch || worktree.path}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">New worktree per run (branch template)</Label>
+            <Input
+              value={branchTemplate}
+              onChange={(event) => setBranchTemplate(event.target.value)}
+              className="h-8 font-mono text-xs"
+              placeholder="nightly/{{date}}-{{time}}"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Prompt template</Label>
+            <Input
+              value={promptTemplate}
+              onChange={(event) => setPromptTemplate(event.target.value)}
+              className="h-8 text-xs"
+              placeholder="Template name (optional)"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">TD task</Label>
+            <Input
+              value={tdTaskId}
+              onChange={(event) => setTdTaskId(event.target.value)}
+              className="h-8 font-mono text-xs"
+              placeholder="td-a1b2c3 (optional)"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Run</Label>
+            <div className="flex items-center gap-1">
+              {TRIGGER_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setTrigger(option.value)}
+                  className={cn(
+                    'rounded border px-2 py-1 text-[10px] transition-colors',
+                    trigger === option.value
+                      ? 'border-border bg-accent text-foreground'
+                      : 'border-border/60 bg-card text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {trigger === 'at' && (
+              <Input
+                type="datetime-local"
+                value={runAtLocal}
+                onChange={(event) => setRunAtLocal(event.target.value)}
+                className="h-8 text-xs"
+              />
+            )}
+            {trigger === 'cron' && (
+              <Input
+                value={cronExpression}
+                onChange={(event) => setCronExpression(event.target.value)}
+                className="h-8 font-mono text-xs"
+                placeholder="0 3 * * 1-5"
+              />
+            )}
+          </div>
+          <div className="col-span-2 flex items-center justify-end gap-2">
+            {formError && (
+              <span className="flex items-center gap-1 text-destructive">
+                <AlertCircle className="h-3.5 w-3.5" />
+                {formError}
+              </span>
+            )}
+            <Button size="sm" className="h-7 text-xs" onClick={() => void submitJob()} disabled={!canSubmit}>
+              {submitting && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+              Queue job
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3 border-b border-border px-3 py-2 text-xs">
+        <label className="flex cursor-pointer items-center gap-1.5 text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={showFinished}
+            onChange={(event) => setShowFinished(event.target.checked)}
+          />
+          Show finished and cancelled jobs
+        </label>
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-y-auto px-3 py-2">
+        {error ? (
+          <div className="flex items-center gap-2 text-xs text-destructive">
+            <AlertCircle className="h-3.5 w-3.5" />
+            {error}
+          </div>
+        ) : !queue && loading ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            Loading queue...
+          </div>
+        ) : queue && queue.jobs.length === 0 ? (
+          <div className="text-xs text-muted-foreground">
+            No queued jobs. Add one to run an agent later, on a schedule, or as soon as a slot frees up.
+          </div>
+        ) : queue ? (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[10px] uppercase text-muted-foreground">
+                <th className="py-1 pr-2 font-medium">Agent</th>
+                <th className="py-1 pr-2 font-medium">Target</th>
+                <th className="py-1 pr-2 font-medium">Trigger</th>
+                <th className="py-1 pr-2 font-medium">Next run</th>
+                <th className="py-1 pr-2 font-medium">Status</th>
+                <th className="py-1 pr-2 text-right font-medium">Runs</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {queue.jobs.map(job => (
+                <tr key={job.id} className="border-t border-border/50">
+                  <td className="py-1.5 pr-2">
+                    {agents.find(agent => agent.id === job.agentId)?.name || job.agentId}
+                  </td>
+                  <td className="max-w-[200px] truncate py-1.5 pr-2 font-mono" title={job.branchTemplate || job.worktreePath || job.projectPath}>
+                    {formatTarget(job)}
+                    {job.tdTaskId && <span className="ml-1 text-muted-foreground">({job.tdTaskId})</span>}
+                  </td>
+                  <td className="py-1.5 pr-2 font-mono">{formatTrigger(job)}</td>
+                  <td className="py-1.5 pr-2">{formatNextRun(job)}</td>
+                  <td className="py-1.5 pr-2">
+                    <span
+                      className={cn(
+                        job.status === 'failed' && 'text-destructive',
+                        job.status === 'cancelled' && 'text-muted-foreground'
+                      )}
+                      title={job.lastError ?? undefined}
+                    >
+                      {job.status}
+                      {job.status === 'pending' && job.lastError && (
+                        <AlertCircle className="ml-1 inline h-3 w-3 text-destructive" />
+                      )}
+                    </span>
+                  </td>
+                  <td className="py-1.5 pr-2 text-right tabular-nums">{job.runCount}</td>
+                  <td className="py-1.5 text-right">
+                    {job.status === 'pending' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-[10px]"
+                        onClick={() => void cancelJob(job.id)}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : null}
+      </div>
+    </div>
+  )
+}
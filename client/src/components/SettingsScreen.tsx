@@ -6,22 +6,24 @@ import {
   SettingsGeneral,
   SettingsAgents,
   SettingsStatusHooks,
+  SettingsNotifications,
   SettingsWorktreeHooks,
   SettingsTd,
   SettingsProject,
 } from '@/components/settings'
-import { Settings, Bot, Bell, GitBranch, X, Loader2, ChevronRight, ListTodo, Check } from 'lucide-react'
+import { Settings, Bot, Bell, BellRing, GitBranch, X, Loader2, ChevronRight, ListTodo, Check } from 'lucide-react'
 import { ThemeSelector } from '@/components/ThemeSelector'
 import { FontSelector } from '@/components/FontSelector'
 import { cn } from '@/lib/utils'
 import type { AppConfig, AgentConfig } from '@/lib/types'
 
-type SettingsSection = 'general' | 'agents' | 'status-hooks' | 'worktree-hooks' | 'td' | 'project'
+type SettingsSection = 'general' | 'agents' | 'status-hooks' | 'notifications' | 'worktree-hooks' | 'td' | 'project'
 
 const NAV_ITEMS: { id: SettingsSection; label: string; icon: typeof Settings; description: string }[] = [
   { id: 'general', label: 'General', icon: Settings, description: 'Auto-approval, worktree defaults' },
   { id: 'agents', label: 'Agents', icon: Bot, description: 'Configure agent presets' },
   { id: 'status-hooks', label: 'Status Hooks', icon: Bell, description: 'Session status notifications' },
+  { id: 'notifications', label: 'Notifications', icon: BellRing, description: 'Browser, webhook, quiet hours' },
   { id: 'worktree-hooks', label: 'Worktree Hooks', icon: GitBranch, description: 'Lifecycle automation' },
   { id: 'td', label: 'TD Integration', icon: ListTodo, description: 'Agent TODO lists' },
 ]
@@ -30,6 +32,7 @@ const SECTION_LABELS: Record<SettingsSection, string> = {
   general: 'General',
   agents: 'Agents',
   'status-hooks': 'Status Hooks',
+  notifications: 'Notifications',
   'worktree-hooks': 'Worktree Hooks',
   td: 'TD Integration',
   project: 'Project Settings',
@@ -173,6 +176,8 @@ export function SettingsScreen() {
         )
       case 'status-hooks':
         return <SettingsStatusHooks localConfig={localConfig} setLocalConfig={setLocalConfig} />
+      case 'notifications':
+        return <SettingsNotifications localConfig={localConfig} setLocalConfig={setLocalConfig} />
       case 'worktree-hooks':
         return <SettingsWorktreeHooks localConfig={localConfig} setLocalConfig={setLocalConfig} />
       case 'td':
@@ -5,6 +5,7 @@ import { cn } from '@/lib/utils'
 interface StatusIndicatorProps {
   status: SessionStatus
   size?: 'sm' | 'md'
+  title?: string
 }
 
 // Human-readable status labels
@@ -15,10 +16,11 @@ export const statusLabels: Record<SessionStatus, string> = {
   error: 'Error',
   pending: 'Waiting',
   waiting_input: 'Needs Input',
+  over_budget: 'Over Budget',
 }
 
 // Memoized to prevent unnecessary re-renders
-export const StatusIndicator = memo(function StatusIndicator({ status, size = 'sm' }: StatusIndicatorProps) {
+export const StatusIndicator = memo(function StatusIndicator({ status, size = 'sm', title }: StatusIndicatorProps) {
   const sizeClasses = size === 'sm' ? 'h-2 w-2' : 'h-2.5 w-2.5'
   const ref = useRef<HTMLSpanElement>(null)
   const [isVisible, setIsVisible] = useState(true)
@@ -50,6 +52,7 @@ export const StatusIndicator = memo(function StatusIndicator({ status, size = 's
   // - idle: Agent is not doing anything (gray outline, like "off")
   // - pending/waiting_input: User action needed (orange, double-flash)
   // - error: Something went wrong (red)
+  // - over_budget: Session exceeded a cost or runtime budget (red ring)
 
   // Only animate when visible
   const shouldAnimate = isVisible
@@ -66,11 +69,12 @@ export const StatusIndicator = memo(function StatusIndicator({ status, size = 's
         status === 'error' && 'bg-status-error',
         status === 'pending' && 'bg-status-pending',
         status === 'waiting_input' && 'bg-status-pending',
+        status === 'over_budget' && 'bg-transparent border-2 border-status-error',
         // Only apply animation classes when visible
         shouldAnimate && (status === 'active' || status === 'busy') && 'animate-blink',
         shouldAnimate && (status === 'pending' || status === 'waiting_input') && 'animate-double-flash',
       )}
-      title={statusLabels[status] || status}
+      title={title || statusLabels[status] || status}
     />
   )
 })
@@ -1,15 +1,20 @@
-import { useState, useEffect, useMemo, useCallback } from 'react'
+import { useState, useEffect, useMemo, useCallback, type DragEvent } from 'react'
 import { useAppStore } from '@/lib/store'
-import type { TdIssue } from '@/lib/types'
+import type { TdGraph, TdIssue } from '@/lib/types'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { cn } from '@/lib/utils'
 import { TaskDetailModal } from '@/components/TaskDetailModal'
+import { TaskGraph } from '@/components/TaskGraph'
+import { TaskFieldsForm, taskFieldsFromIssue, splitLabels, type TaskFields } from '@/components/TaskFieldsForm'
 import {
   ListTodo,
   LayoutGrid,
   List,
+  Network,
+  Play,
+  Loader2,
   Search,
   X,
   Circle,
@@ -22,6 +27,7 @@ import {
   RefreshCw,
   XCircle,
   ChevronRight,
+  Plus,
 } from 'lucide-react'
 
 // Status column configuration
@@ -33,7 +39,10 @@ const STATUS_COLUMNS = [
   { key: 'closed', label: 'Closed', icon: CheckCircle2, color: 'text-green-500', bg: 'bg-green-500/10' },
 ]
 
-type ViewMode = 'board' | 'list'
+type ViewMode = 'board' | 'list' | 'graph'
+
+// Drag payload type so drops from outside the board are ignored
+const TASK_DRAG_TYPE = 'application/x-cacd-task'
 
 function normalizeBranchName(branch?: string): string {
   if (!branch) return ''
@@ -47,13 +56,19 @@ function priorityBadgeClass(priority: string): string {
   return 'bg-muted/50 text-muted-foreground/50'
 }
 
-function IssueCard({ issue, compact, indent, onSelect, childCount }: { issue: TdIssue; compact?: boolean; indent?: boolean; onSelect: (id: string) => void; childCount?: number }) {
+function IssueCard({ issue, compact, indent, onSelect, childCount, draggable }: { issue: TdIssue; compact?: boolean; indent?: boolean; onSelect: (id: string) => void; childCount?: number; draggable?: boolean }) {
   return (
     <button
       onClick={() => onSelect(issue.id)}
+      draggable={draggable}
+      onDragStart={draggable ? (e) => {
+        e.dataTransfer.setData(TASK_DRAG_TYPE, issue.id)
+        e.dataTransfer.effectAllowed = 'move'
+      } : undefined}
       className={cn(
         'w-full text-left rounded border border-border/50 bg-card p-2 transition-colors',
         'hover:bg-accent/50 hover:border-border',
+        draggable && 'cursor-grab active:cursor-grabbing',
         compact && 'p-1.5',
         indent && 'ml-4',
       )}
@@ -122,15 +137,36 @@ function groupIssuesWithChildren(issues: TdIssue[]): Array<{ issue: TdIssue; chi
   return result
 }
 
-function StatusColumn({ status, issues, onSelect, childCountByEpicId }: {
+function StatusColumn({ status, issues, onSelect, onDropIssue, childCountByEpicId }: {
   status: typeof STATUS_COLUMNS[0]
   issues: TdIssue[]
   onSelect: (id: string) => void
+  onDropIssue: (id: string, status: string) => void
   childCountByEpicId: Map<string, number>
 }) {
   const StatusIcon = status.icon
   const [isCollapsed, setIsCollapsed] = useState(issues.length === 0)
   const [showAllClosed, setShowAllClosed] = useState(false)
+  const [isDragOver, setIsDragOver] = useState(false)
+
+  const dropHandlers = {
+    onDragOver: (e: DragEvent) => {
+      if (!e.dataTransfer.types.includes(TASK_DRAG_TYPE)) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = 'move'
+      setIsDragOver(true)
+    },
+    onDragLeave: (e: DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragOver(false)
+    },
+    onDrop: (e: DragEvent) => {
+      setIsDragOver(false)
+      const issueId = e.dataTransfer.getData(TASK_DRAG_TYPE)
+      if (!issueId) return
+      e.preventDefault()
+      if (!issues.some(issue => issue.id === issueId)) onDropIssue(issueId, status.key)
+    },
+  }
 
   useEffect(() => {
     if (issues.length === 0) setIsCollapsed(true)
@@ -144,8 +180,12 @@ function StatusColumn({ status, issues, onSelect, childCountByEpicId }: {
   if (isCollapsed) {
     return (
       <div
-        className="flex flex-col items-center gap-2 py-2 px-1 rounded border border-border/30 bg-muted/10 cursor-pointer w-8 shrink-0"
+        className={cn(
+          'flex flex-col items-center gap-2 py-2 px-1 rounded border border-border/30 bg-muted/10 cursor-pointer w-8 shrink-0',
+          isDragOver && 'border-primary/60 bg-primary/10',
+        )}
         onClick={() => setIsCollapsed(false)}
+        {...dropHandlers}
         title={`${status.label} (${issues.length})`}
       >
         <StatusIcon className={cn('h-3 w-3', status.color)} />
@@ -161,7 +201,10 @@ function StatusColumn({ status, issues, onSelect, childCountByEpicId }: {
   }
 
   return (
-    <div className="flex flex-col flex-1">
+    <div
+      className={cn('flex flex-col flex-1 rounded border border-transparent', isDragOver && 'border-primary/60 bg-primary/5')}
+      {...dropHandlers}
+    >
       <div className={cn('flex items-center gap-1.5 px-2 py-1.5 rounded-t', status.bg)}>
         <StatusIcon className={cn('h-3 w-3', status.color)} />
         <span className="text-xs font-medium">{status.label}</span>
@@ -187,6 +230,7 @@ function StatusColumn({ status, issues, onSelect, childCountByEpicId }: {
                 issue={issue}
                 onSelect={onSelect}
                 childCount={issue.type === 'epic' ? childCountByEpicId.get(issue.id) : undefined}
+                draggable
               />
             ))
           )}
@@ -204,6 +248,43 @@ function StatusColumn({ status, issues, onSelect, childCountByEpicId }: {
   )
 }
 
+function NewTaskForm({ epics, onCancel }: { epics: TdIssue[]; onCancel: () => void }) {
+  const { createTdIssue } = useAppStore()
+  const [fields, setFields] = useState<TaskFields>(() => taskFieldsFromIssue())
+  const [saving, setSaving] = useState(false)
+
+  const handleCreate = async () => {
+    if (!fields.title.trim()) return
+    setSaving(true)
+    const labels = splitLabels(fields.labels)
+    const id = await createTdIssue({
+      title: fields.title.trim(),
+      type: fields.type,
+      priority: fields.priority,
+      description: fields.description.trim() || undefined,
+      acceptance: fields.acceptance.trim() || undefined,
+      labels: labels.length > 0 ? labels : undefined,
+      parentId: fields.type !== 'epic' && fields.parentId ? fields.parentId : undefined,
+    })
+    setSaving(false)
+    if (id !== null) onCancel()
+  }
+
+  return (
+    <div className="border-b border-border p-2 space-y-2 shrink-0 max-w-xl">
+      <TaskFieldsForm value={fields} onChange={setFields} epics={epics} />
+      <div className="flex items-center gap-2 justify-end">
+        <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" className="h-6 text-xs" disabled={saving || !fields.title.trim()} onClick={handleCreate}>
+          {saving ? 'Creating...' : 'Create Task'}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
 export function TaskBoard() {
   const {
     tdStatus,
@@ -211,6 +292,10 @@ export function TaskBoard() {
     fetchTdBoard,
     fetchTdIssues,
     tdIssues,
+    moveTdIssue,
+    fetchTdGraph,
+    startNextTdTask,
+    lastTdIssueChange,
     openAddSession,
     closeTaskBoard,
     currentProject,
@@ -219,6 +304,14 @@ export function TaskBoard() {
   const [viewMode, setViewMode] = useState<ViewMode>('board')
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedIssueId, setSelectedIssueId] = useState<string | null>(null)
+  const [showNewTask, setShowNewTask] = useState(false)
+  const [graph, setGraph] = useState<TdGraph | null>(null)
+  const [startingTaskId, setStartingTaskId] = useState<string | null>(null)
+
+  const epics = useMemo(
+    () => tdIssues.filter(issue => issue.type === 'epic' && issue.status !== 'closed' && !issue.deleted_at),
+    [tdIssues]
+  )
 
   const childCountByEpicId = useMemo(() => {
     const counts = new Map<string, number>()
@@ -260,16 +353,38 @@ export function TaskBoard() {
     }
   }, [tdStatus?.projectState?.enabled, currentProject?.path, fetchTdBoard, fetchTdIssues])
 
+  // Dependencies are not part of issue change events, so refetch the graph on any change
+  useEffect(() => {
+    if (!tdStatus?.projectState?.enabled) return
+    let cancelled = false
+    fetchTdGraph().then(next => {
+      if (!cancelled) setGraph(next)
+    })
+    return () => { cancelled = true }
+  }, [tdStatus?.projectState?.enabled, currentProject?.path, lastTdIssueChange, fetchTdGraph])
+
+  const startTask = useCallback(async (taskId?: string) => {
+    const target = taskId ?? graph?.readyIds[0]
+    if (!target) return
+    setStartingTaskId(target)
+    try {
+      await startNextTdTask(taskId)
+    } finally {
+      setStartingTaskId(null)
+    }
+  }, [graph, startNextTdTask])
+
   // Escape key handler to close task board
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') {
-        closeTaskBoard()
+      if (e.key === 'Escape' && !selectedIssueId) {
+        if (showNewTask) setShowNewTask(false)
+        else closeTaskBoard()
       }
     }
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [closeTaskBoard])
+  }, [closeTaskBoard, selectedIssueId, showNewTask])
 
   // Client-side filter for issues
   const filterIssues = useCallback((issues: TdIssue[]) => {
@@ -330,17 +445,56 @@ export function TaskBoard() {
           >
             <List className="h-3 w-3" />
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn('h-6 w-6', viewMode === 'graph' && 'bg-background shadow-sm')}
+            onClick={() => setViewMode('graph')}
+            title="Dependency graph"
+          >
+            <Network className="h-3 w-3" />
+          </Button>
           <Button
             variant="ghost"
             size="icon"
             className="h-6 w-6"
-            onClick={() => { fetchTdBoard(); fetchTdIssues() }}
+            onClick={() => { fetchTdBoard(); fetchTdIssues(); fetchTdGraph().then(setGraph) }}
             title="Refresh"
           >
             <RefreshCw className="h-3 w-3" />
           </Button>
         </div>
 
+        <Button
+          variant={showNewTask ? 'secondary' : 'ghost'}
+          size="sm"
+          className="h-6 px-2 text-xs shrink-0"
+          onClick={() => setShowNewTask(open => !open)}
+          title="Create a task"
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          New
+        </Button>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs shrink-0"
+          onClick={() => startTask()}
+          disabled={!graph?.readyIds.length || startingTaskId !== null}
+          title={graph?.readyIds[0]
+            ? `Start ${graph.readyIds[0]}, the highest priority task with no open dependencies`
+            : 'No task is ready to start'}
+        >
+          {startingTaskId ? (
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          ) : (
+            <Play className="h-3 w-3 mr-1" />
+          )}
+          Start next
+          <span className="ml-1 text-muted-foreground">{graph?.readyIds.length ?? 0}</span>
+        </Button>
+
         {/* Search */}
         <div className="flex-1 flex items-center gap-1.5">
           <Search className="h-3 w-3 text-muted-foreground shrink-0" />
@@ -382,8 +536,20 @@ export function TaskBoard() {
         </Button>
       </div>
 
+      {showNewTask && (
+        <NewTaskForm epics={epics} onCancel={() => setShowNewTask(false)} />
+      )}
+
       {/* Board View */}
-      {viewMode === 'board' ? (
+      {viewMode === 'graph' ? (
+        <TaskGraph
+          graph={graph}
+          filter={filterIssues}
+          onSelect={setSelectedIssueId}
+          onStart={(taskId) => startTask(taskId)}
+          startingTaskId={startingTaskId}
+        />
+      ) : viewMode === 'board' ? (
         <div className="flex-1 overflow-x-auto">
           <div className="flex gap-2 p-2 h-full min-w-max">
             {STATUS_COLUMNS.map(status => (
@@ -392,6 +558,7 @@ export function TaskBoard() {
                 status={status}
                 issues={(filteredBoard[status.key] || []).filter(i => !i.deleted_at)}
                 onSelect={setSelectedIssueId}
+                onDropIssue={moveTdIssue}
                 childCountByEpicId={childCountByEpicId}
               />
             ))}
@@ -435,6 +602,7 @@ export function TaskBoard() {
       {selectedIssueId && (
         <TaskDetailModal
           issueId={selectedIssueId}
+          epics={epics}
           onClose={() => setSelectedIssueId(null)}
           onNavigate={setSelectedIssueId}
           onStartWorking={(taskId) => {
@@ -41,7 +41,7 @@ interface TaskContextCardProps {
 }
 
 export function TaskContextCard({ worktreePath }: TaskContextCardProps) {
-  const { tdStatus } = useAppStore()
+  const { tdStatus, lastTdIssueChange } = useAppStore()
   const [expanded, setExpanded] = useState(false)
   const [task, setTask] = useState<TdIssue | null>(null)
   const [handoff, setHandoff] = useState<TdHandoffParsed | null>(null)
@@ -60,7 +60,8 @@ export function TaskContextCard({ worktreePath }: TaskContextCardProps) {
     }
 
     const fetchLinkedTask = async () => {
-      setLoading(true)
+      // Live td updates refresh quietly instead of flashing the loader
+      if (!lastTdIssueChange) setLoading(true)
       try {
         // Get all in-progress tasks and find one linked to this worktree
         const res = await fetch('/api/td/issues?status=in_progress', { credentials: 'include' })
@@ -101,7 +102,7 @@ export function TaskContextCard({ worktreePath }: TaskContextCardProps) {
     }
 
     fetchLinkedTask()
-  }, [worktreePath, tdStatus?.projectState?.enabled])
+  }, [worktreePath, tdStatus?.projectState?.enabled, lastTdIssueChange])
 
   if (loading) {
     return (
@@ -4,13 +4,14 @@ import { ScrollArea } from '@/components/ui/scroll-area'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { cn } from '@/lib/utils'
 import { useAppStore } from '@/lib/store'
+import { TaskFieldsForm, taskFieldsFromIssue, splitLabels, type TaskFields } from '@/components/TaskFieldsForm'
 import {
   formatTdAbsolute,
   formatTdDateValue,
   formatTdRelative,
   parseTdTimestamp,
 } from '@/lib/tdTimestamp'
-import type { TdIssueWithChildren, TdHandoffParsed, TdIssue } from '@/lib/types'
+import type { TdIssueWithChildren, TdHandoffParsed, TdIssue, TdIssueInput } from '@/lib/types'
 import {
   getLinkedSessions,
   getTaskDetailLayoutCounts,
@@ -35,6 +36,7 @@ import {
   Send,
   RotateCcw,
   MessageSquare,
+  Pencil,
 } from 'lucide-react'
 
 type TaskDetailTab = 'overview' | 'activity' | 'details'
@@ -170,8 +172,25 @@ function CollapsibleSection({ title, icon: Icon, defaultOpen = false, count, chi
   )
 }
 
+/** Only the fields the user changed, so td does not rewrite untouched ones */
+function getChangedFields(issue: TdIssue, fields: TaskFields): TdIssueInput {
+  const original = taskFieldsFromIssue(issue)
+  const changes: TdIssueInput = {}
+  if (fields.title.trim() !== original.title) changes.title = fields.title.trim()
+  if (fields.priority !== original.priority) changes.priority = fields.priority
+  if (fields.parentId !== original.parentId) changes.parentId = fields.parentId
+  if (fields.description.trim() !== original.description.trim()) changes.description = fields.description.trim()
+  if (fields.acceptance.trim() !== original.acceptance.trim()) changes.acceptance = fields.acceptance.trim()
+  if (splitLabels(fields.labels).join(',') !== splitLabels(original.labels).join(',')) {
+    changes.labels = splitLabels(fields.labels)
+  }
+  return changes
+}
+
 interface TaskDetailModalProps {
   issueId: string
+  /** Epics offered when moving the task under another epic */
+  epics?: TdIssue[]
   onClose: () => void
   onNavigate?: (issueId: string) => void
   onStartWorking?: (issueId: string) => void
@@ -179,8 +198,8 @@ interface TaskDetailModalProps {
   onRefresh?: () => void
 }
 
-export function TaskDetailModal({ issueId, onClose, onNavigate, onStartWorking, onStartReview, onRefresh }: TaskDetailModalProps) {
-  const { openConversationView, currentProject } = useAppStore()
+export function TaskDetailModal({ issueId, epics = [], onClose, onNavigate, onStartWorking, onStartReview, onRefresh }: TaskDetailModalProps) {
+  const { openConversationView, currentProject, updateTdIssue, lastTdIssueChange } = useAppStore()
   const [issue, setIssue] = useState<TdIssueWithChildren | null>(null)
   const [loading, setLoading] = useState(true)
   const [isVisible, setIsVisible] = useState(false)
@@ -189,6 +208,8 @@ export function TaskDetailModal({ issueId, onClose, onNavigate, onStartWorking,
   const [commentText, setCommentText] = useState('')
   const [activeTab, setActiveTab] = useState<TaskDetailTab>('overview')
   const [nowMs, setNowMs] = useState(() => Date.now())
+  const [editFields, setEditFields] = useState<TaskFields | null>(null)
+  const [saving, setSaving] = useState(false)
 
   // Animate in
   useEffect(() => {
@@ -202,14 +223,16 @@ export function TaskDetailModal({ issueId, onClose, onNavigate, onStartWorking,
     setTimeout(onClose, 200)
   }, [onClose])
 
-  // Escape to close
+  // Escape cancels an edit in progress, otherwise closes
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') handleClose()
+      if (e.key !== 'Escape') return
+      if (editFields) setEditFields(null)
+      else handleClose()
     }
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [handleClose])
+  }, [handleClose, editFields])
 
   useEffect(() => {
     const timer = window.setInterval(() => setNowMs(Date.now()), 60_000)
@@ -222,6 +245,7 @@ export function TaskDetailModal({ issueId, onClose, onNavigate, onStartWorking,
     setActiveTab('overview')
     setShowCommentInput(false)
     setCommentText('')
+    setEditFields(null)
     fetch(`/api/td/issues/${issueId}`, { credentials: 'include' })
       .then(res => res.json())
       .then(data => setIssue(data.issue || null))
@@ -229,6 +253,15 @@ export function TaskDetailModal({ issueId, onClose, onNavigate, onStartWorking,
       .finally(() => setLoading(false))
   }, [issueId])
 
+  // Reload when an agent changes this task from its terminal
+  useEffect(() => {
+    if (lastTdIssueChange?.issueId !== issueId) return
+    fetch(`/api/td/issues/${issueId}`, { credentials: 'include' })
+      .then(res => res.json())
+      .then(data => { if (data.issue) setIssue(data.issue) })
+      .catch(() => {})
+  }, [lastTdIssueChange, issueId])
+
   const status = issue ? statusConfig[issue.status] : null
   const StatusIcon = status?.icon || Circle
   const priority = issue ? priorityConfig[issue.priority] : null
@@ -248,6 +281,22 @@ export function TaskDetailModal({ issueId, onClose, onNavigate, onStartWorking,
     ? getTaskDetailLayoutCounts(issue)
     : { overview: 0, activity: 0, details: 0 }
 
+  const handleSave = async () => {
+    if (!issue || !editFields || !editFields.title.trim()) return
+    const changes = getChangedFields(issue, editFields)
+    if (Object.keys(changes).length === 0) {
+      setEditFields(null)
+      return
+    }
+    setSaving(true)
+    if (await updateTdIssue(issue.id, changes)) {
+      const data = await fetch(`/api/td/issues/${issue.id}`, { credentials: 'include' }).then(r => r.json()).catch(() => ({}))
+      if (data.issue) setIssue(data.issue)
+      setEditFields(null)
+    }
+    setSaving(false)
+  }
+
   const resolveConversationSessionId = useCallback(async (tdSessionId: string): Promise<string | null> => {
     if (!issue?.id) return null
     try {
@@ -295,9 +344,22 @@ export function TaskDetailModal({ issueId, onClose, onNavigate, onStartWorking,
             {issue && <StatusIcon className={cn('h-4 w-4 shrink-0', status?.color)} />}
             <span className="font-mono text-sm text-muted-foreground shrink-0">{issueId}</span>
           </div>
-          <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={handleClose}>
-            <X className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center gap-1 shrink-0">
+            {issue && !editFields && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => setEditFields(taskFieldsFromIssue(issue))}
+                title="Edit task"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={handleClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
 
         {/* Content */}
@@ -312,8 +374,28 @@ export function TaskDetailModal({ issueId, onClose, onNavigate, onStartWorking,
         ) : (
           <ScrollArea className="flex-1">
             <div className="p-4 space-y-4">
+              {editFields && (
+                <div className="space-y-2 rounded-md border border-primary/30 bg-card/40 p-3">
+                  <TaskFieldsForm
+                    value={editFields}
+                    onChange={setEditFields}
+                    epics={epics.filter(epic => epic.id !== issue.id)}
+                    hideType
+                    menuClassName="z-[70]"
+                  />
+                  <div className="flex items-center gap-2 justify-end">
+                    <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => setEditFields(null)}>
+                      Cancel
+                    </Button>
+                    <Button size="sm" className="h-6 text-xs" disabled={saving || !editFields.title.trim()} onClick={handleSave}>
+                      {saving ? 'Saving...' : 'Save'}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
               {/* Title + badges */}
-              <div className="space-y-2">
+              <div className={cn('space-y-2', editFields && 'hidden')}>
                 <h2 className="text-base font-medium leading-snug">{issue.title}</h2>
                 <div className="flex items-center gap-2 flex-wrap">
                   <span className={cn('text-[11px] rounded-full px-2 py-0.5', status?.bg, status?.color)}>
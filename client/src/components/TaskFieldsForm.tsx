@@ -0,0 +1,127 @@
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { TdIssue } from '@/lib/types'
+
+export const TASK_TYPES = ['task', 'feature', 'bug', 'chore', 'epic']
+export const TASK_PRIORITIES = ['P0', 'P1', 'P2', 'P3']
+
+// Radix Select items cannot use an empty value
+const NO_EPIC = '__none__'
+
+export interface TaskFields {
+  title: string
+  type: string
+  priority: string
+  parentId: string
+  labels: string
+  description: string
+  acceptance: string
+}
+
+export function taskFieldsFromIssue(issue?: TdIssue | null): TaskFields {
+  return {
+    title: issue?.title ?? '',
+    type: issue?.type || 'task',
+    priority: issue?.priority || 'P2',
+    parentId: issue?.parent_id ?? '',
+    labels: issue?.labels ?? '',
+    description: issue?.description ?? '',
+    acceptance: issue?.acceptance ?? '',
+  }
+}
+
+export function splitLabels(labels: string): string[] {
+  return labels.split(',').map(label => label.trim()).filter(Boolean)
+}
+
+const textareaClass = 'w-full rounded border border-border bg-background px-2 py-1.5 text-xs resize-y focus:outline-none focus:ring-1 focus:ring-ring'
+
+interface TaskFieldsFormProps {
+  value: TaskFields
+  onChange: (value: TaskFields) => void
+  /** Epics the task can be filed under */
+  epics: TdIssue[]
+  /** Hide the type picker (e.g. when editing an existing task) */
+  hideType?: boolean
+  /** Lift select menus above the task detail modal */
+  menuClassName?: string
+}
+
+/** Title, type, priority, epic, labels, description and acceptance inputs. */
+export function TaskFieldsForm({ value, onChange, epics, hideType, menuClassName }: TaskFieldsFormProps) {
+  const set = (patch: Partial<TaskFields>) => onChange({ ...value, ...patch })
+
+  return (
+    <div className="space-y-2">
+      <Input
+        value={value.title}
+        onChange={(e) => set({ title: e.target.value })}
+        placeholder="Task title"
+        className="h-7 text-xs"
+        autoFocus
+      />
+      <div className="flex items-center gap-2">
+        {!hideType && (
+          <Select value={value.type} onValueChange={(type) => set({ type })}>
+            <SelectTrigger className="h-7 text-xs w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className={menuClassName}>
+              {TASK_TYPES.map(type => (
+                <SelectItem key={type} value={type} className="text-xs">{type}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Select value={value.priority} onValueChange={(priority) => set({ priority })}>
+          <SelectTrigger className="h-7 text-xs w-20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className={menuClassName}>
+            {TASK_PRIORITIES.map(priority => (
+              <SelectItem key={priority} value={priority} className="text-xs">{priority}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {value.type !== 'epic' && (
+          <Select
+            value={value.parentId || NO_EPIC}
+            onValueChange={(parentId) => set({ parentId: parentId === NO_EPIC ? '' : parentId })}
+          >
+            <SelectTrigger className="h-7 text-xs flex-1 min-w-0">
+              <SelectValue placeholder="Epic" />
+            </SelectTrigger>
+            <SelectContent className={menuClassName}>
+              <SelectItem value={NO_EPIC} className="text-xs">No epic</SelectItem>
+              {epics.map(epic => (
+                <SelectItem key={epic.id} value={epic.id} className="text-xs">
+                  {epic.id} — {epic.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      <Input
+        value={value.labels}
+        onChange={(e) => set({ labels: e.target.value })}
+        placeholder="Labels (comma separated)"
+        className="h-7 text-xs"
+      />
+      <textarea
+        value={value.description}
+        onChange={(e) => set({ description: e.target.value })}
+        placeholder="Description"
+        className={textareaClass}
+        rows={3}
+      />
+      <textarea
+        value={value.acceptance}
+        onChange={(e) => set({ acceptance: e.target.value })}
+        placeholder="Acceptance criteria (one per line)"
+        className={textareaClass}
+        rows={3}
+      />
+    </div>
+  )
+}
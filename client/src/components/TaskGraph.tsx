@@ -0,0 +1,154 @@
+import { useMemo, useState } from 'react'
+import type { TdGraph } from '@/lib/types'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { GRAPH_NODE_HEIGHT, GRAPH_NODE_WIDTH, layoutTaskGraph, type GraphEdge } from '@/lib/taskGraphLayout'
+import { Layers, Loader2, Play } from 'lucide-react'
+
+const STATUS_BORDER: Record<string, string> = {
+  open: 'border-border',
+  in_progress: 'border-blue-500/60',
+  in_review: 'border-purple-500/60',
+  blocked: 'border-red-500/60',
+  closed: 'border-green-500/40 opacity-60',
+}
+
+function edgePath(edge: GraphEdge): string {
+  const bend = Math.max(24, Math.abs(edge.x2 - edge.x1) / 2)
+  return `M ${edge.x1} ${edge.y1} C ${edge.x1 + bend} ${edge.y1}, ${edge.x2 - bend} ${edge.y2}, ${edge.x2} ${edge.y2}`
+}
+
+interface TaskGraphProps {
+  graph: TdGraph | null
+  /** Client-side filter from the board toolbar */
+  filter: (issues: TdGraph['issues']) => TdGraph['issues']
+  onSelect: (id: string) => void
+  onStart: (id: string) => void
+  /** Task currently being started, if any */
+  startingTaskId: string | null
+}
+
+/** Epic lanes with tasks placed after the tasks they depend on. */
+export function TaskGraph({ graph, filter, onSelect, onStart, startingTaskId }: TaskGraphProps) {
+  const [showClosed, setShowClosed] = useState(false)
+
+  const readyIds = useMemo(() => new Set(graph?.readyIds ?? []), [graph])
+  const layout = useMemo(() => {
+    if (!graph) return null
+    const issues = filter(graph.issues.filter(issue => showClosed || issue.status !== 'closed'))
+    return layoutTaskGraph(issues, graph.dependencies)
+  }, [graph, filter, showClosed])
+
+  if (!layout) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex items-center gap-3 px-3 py-1.5 border-b border-border text-[10px] text-muted-foreground shrink-0">
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={showClosed} onChange={(e) => setShowClosed(e.target.checked)} className="h-3 w-3" />
+          Show closed
+        </label>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-4 border-t border-muted-foreground" /> depends on
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-4 border-t border-dashed border-muted-foreground" /> epic
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-2 w-2 rounded-full bg-green-500" /> ready to start
+        </span>
+      </div>
+
+      {layout.nodes.length === 0 ? (
+        <p className="text-xs text-muted-foreground text-center py-8">No tasks found</p>
+      ) : (
+        <div className="flex-1 overflow-auto">
+          <div className="relative" style={{ width: layout.width, height: layout.height }}>
+            <svg className="absolute inset-0 pointer-events-none" width={layout.width} height={layout.height}>
+              <defs>
+                <marker id="task-graph-arrow" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M 0 0 L 6 3 L 0 6 z" className="fill-muted-foreground" />
+                </marker>
+              </defs>
+              {layout.lanes.map(lane => (
+                <rect
+                  key={lane.epicId ?? 'none'}
+                  x={4}
+                  y={lane.y}
+                  width={layout.width - 8}
+                  height={lane.height}
+                  rx={6}
+                  className="fill-muted/20 stroke-border/40"
+                />
+              ))}
+              {layout.edges.map(edge => (
+                <path
+                  key={`${edge.kind}:${edge.from}:${edge.to}`}
+                  d={edgePath(edge)}
+                  fill="none"
+                  strokeWidth={1.25}
+                  strokeDasharray={edge.kind === 'epic' ? '4 3' : undefined}
+                  markerEnd={edge.kind === 'dependency' ? 'url(#task-graph-arrow)' : undefined}
+                  className={edge.kind === 'epic' ? 'stroke-purple-400/40' : 'stroke-muted-foreground/70'}
+                />
+              ))}
+            </svg>
+
+            {layout.lanes.map(lane => (
+              <div
+                key={lane.epicId ?? 'none'}
+                className="absolute left-4 text-[10px] font-medium text-muted-foreground truncate"
+                style={{ top: lane.y + 5, maxWidth: layout.width - 32 }}
+              >
+                {lane.epicId ? `${lane.epicId} — ${lane.title}` : lane.title}
+              </div>
+            ))}
+
+            {layout.nodes.map(({ issue, x, y }) => {
+              const ready = readyIds.has(issue.id)
+              return (
+                <div
+                  key={issue.id}
+                  className={cn(
+                    'absolute rounded border bg-card transition-colors hover:bg-accent/50',
+                    STATUS_BORDER[issue.status] || 'border-border',
+                    ready && 'ring-1 ring-green-500/70',
+                  )}
+                  style={{ left: x, top: y, width: GRAPH_NODE_WIDTH, height: GRAPH_NODE_HEIGHT }}
+                >
+                  <button onClick={() => onSelect(issue.id)} className="w-full h-full text-left px-2 py-1 flex flex-col justify-between">
+                    <p className="text-[11px] leading-snug line-clamp-2 pr-5">{issue.title}</p>
+                    <div className="flex items-center gap-1 text-[9px] text-muted-foreground">
+                      {issue.type === 'epic' && <Layers className="h-2.5 w-2.5 text-purple-400" />}
+                      <span className="font-mono">{issue.id}</span>
+                      <span>· {issue.priority}</span>
+                      <span className="truncate">· {issue.status.replace('_', ' ')}</span>
+                    </div>
+                  </button>
+                  {ready && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="absolute top-0.5 right-0.5 h-5 w-5 text-green-500 hover:text-green-400"
+                      onClick={() => onStart(issue.id)}
+                      disabled={startingTaskId !== null}
+                      title="Start working in a new worktree"
+                    >
+                      {startingTaskId === issue.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <Play className="h-3 w-3" />}
+                    </Button>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
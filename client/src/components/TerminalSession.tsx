@@ -26,10 +26,14 @@ import {
 	Pencil,
 	RotateCcw,
 	LayoutGrid,
+	History,
+	Play,
+	Pause,
+	Loader2,
 } from 'lucide-react';
 import {cn} from '@/lib/utils';
-import type {Session} from '@/lib/types';
-import {mapSessionState} from '@/lib/types';
+import type {Session, SessionReplayResponse} from '@/lib/types';
+import {mapSessionStatus} from '@/lib/types';
 import {useIsMobile} from '@/hooks/useIsMobile';
 
 // Debounced fit function to prevent layout thrashing
@@ -110,6 +114,234 @@ function getTerminalTheme(): {
 	};
 }
 
+const REPLAY_TICK_MS = 100;
+const REPLAY_SPEEDS = [1, 2, 4, 8];
+
+function formatReplayTime(seconds: number): string {
+	const total = Math.floor(seconds);
+	const minutes = Math.floor(total / 60);
+	const secs = total % 60;
+	return `${minutes}:${secs.toString().padStart(2, '0')}`;
+}
+
+interface TerminalReplayProps {
+	sessionId: string;
+	onClose?: () => void;
+	className?: string;
+}
+
+// Read-only playback of a session's recorded scrollback (live or finished)
+export function TerminalReplay({sessionId, onClose, className}: TerminalReplayProps) {
+	const {font, fontScale} = useAppStore();
+	const containerRef = useRef<HTMLDivElement>(null);
+	const xtermRef = useRef<XTerm | null>(null);
+	// Index of the next event to write, so playback only appends new output
+	const nextEventRef = useRef(0);
+	const [replay, setReplay] = useState<SessionReplayResponse | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [position, setPosition] = useState(0);
+	const [isPlaying, setIsPlaying] = useState(false);
+	const [speed, setSpeed] = useState(1);
+
+	useEffect(() => {
+		let cancelled = false;
+		setReplay(null);
+		setError(null);
+
+		const fetchPage = async (cursor: number) => {
+			const res = await fetch(
+				`/api/sessions/${encodeURIComponent(sessionId)}/replay?cursor=${cursor}`,
+				{credentials: 'include'},
+			);
+			if (!res.ok) {
+				const body = (await res.json().catch(() => ({}))) as {error?: string};
+				throw new Error(body.error || 'Failed to load recorded output');
+			}
+			return (await res.json()) as SessionReplayResponse;
+		};
+
+		// The server sends long recordings in pages
+		const fetchReplay = async () => {
+			const data = await fetchPage(0);
+			let nextCursor = data.nextCursor;
+			while (nextCursor !== undefined && !cancelled) {
+				const page = await fetchPage(nextCursor);
+				data.events.push(...page.events);
+				data.duration = Math.max(data.duration, page.duration);
+				data.truncated = data.truncated || page.truncated;
+				nextCursor = page.nextCursor;
+			}
+			return data;
+		};
+
+		fetchReplay()
+			.then(data => {
+				if (cancelled) return;
+				setReplay(data);
+				// Start at the end so the final screen is visible immediately
+				setPosition(data.duration);
+			})
+			.catch(err => {
+				if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [sessionId]);
+
+	useLayoutEffect(() => {
+		if (!replay || !containerRef.current) return;
+
+		const fontFamilyMap: Record<string, string> = {
+			jetbrains: "'JetBrains Mono', monospace",
+			fira: "'Fira Code', monospace",
+			source: "'Source Code Pro', monospace",
+			ibm: "'IBM Plex Mono', monospace",
+		};
+		const term = new XTerm({
+			cols: replay.header.width,
+			rows: replay.header.height,
+			disableStdin: true,
+			cursorBlink: false,
+			scrollback: 10000,
+			fontFamily: fontFamilyMap[font] || fontFamilyMap.jetbrains,
+			fontSize: Math.round(16 * (fontScale / 100)),
+			theme: getTerminalTheme(),
+		});
+		term.open(containerRef.current);
+		xtermRef.current = term;
+		nextEventRef.current = 0;
+
+		return () => {
+			term.dispose();
+			xtermRef.current = null;
+		};
+	}, [replay, font, fontScale]);
+
+	// Render the terminal up to the current position. Scrubbing backwards
+	// resets and rewrites from the start, since output can't be un-written.
+	useEffect(() => {
+		const term = xtermRef.current;
+		if (!replay || !term) return;
+
+		const targetIndex = replay.events.findIndex(([time]) => time > position);
+		const endIndex = targetIndex === -1 ? replay.events.length : targetIndex;
+		if (endIndex < nextEventRef.current) {
+			term.reset();
+			nextEventRef.current = 0;
+		}
+		const chunk = replay.events
+			.slice(nextEventRef.current, endIndex)
+			.map(([, data]) => data)
+			.join('');
+		if (chunk) term.write(chunk);
+		nextEventRef.current = endIndex;
+		// font settings recreate the terminal, which then needs a full rewrite
+	}, [replay, position, font, fontScale]);
+
+	useEffect(() => {
+		if (!isPlaying || !replay) return;
+
+		const interval = setInterval(() => {
+			setPosition(prev => {
+				const next = prev + (REPLAY_TICK_MS / 1000) * speed;
+				if (next >= replay.duration) {
+					setIsPlaying(false);
+					return replay.duration;
+				}
+				return next;
+			});
+		}, REPLAY_TICK_MS);
+
+		return () => clearInterval(interval);
+	}, [isPlaying, replay, speed]);
+
+	const togglePlaying = useCallback(() => {
+		if (!replay) return;
+		if (!isPlaying && position >= replay.duration) {
+			setPosition(0);
+		}
+		setIsPlaying(!isPlaying);
+	}, [isPlaying, position, replay]);
+
+	return (
+		<div className={cn('flex min-h-0 min-w-0 flex-col bg-terminal-bg', className)}>
+			<div className="flex h-7 shrink-0 items-center gap-2 border-b border-border bg-card px-2 text-xs">
+				<History className="h-3 w-3 text-muted-foreground shrink-0" />
+				<span className="font-medium text-card-foreground shrink-0">Replay</span>
+				<Button
+					variant="ghost"
+					size="icon"
+					className="h-5 w-5 text-muted-foreground hover:text-foreground"
+					onClick={togglePlaying}
+					disabled={!replay}
+					title={isPlaying ? 'Pause' : 'Play'}
+				>
+					{isPlaying ? <Pause className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+				</Button>
+				<input
+					type="range"
+					min={0}
+					max={replay?.duration || 0}
+					step={0.1}
+					value={position}
+					onChange={e => {
+						setIsPlaying(false);
+						setPosition(Number(e.target.value));
+					}}
+					disabled={!replay}
+					className="min-w-0 flex-1 accent-primary"
+					aria-label="Replay position"
+				/>
+				<span className="font-mono text-[11px] text-muted-foreground shrink-0">
+					{formatReplayTime(position)} / {formatReplayTime(replay?.duration || 0)}
+				</span>
+				<Button
+					variant="ghost"
+					size="sm"
+					className="h-5 px-1.5 font-mono text-[11px] text-muted-foreground hover:text-foreground"
+					onClick={() =>
+						setSpeed(REPLAY_SPEEDS[(REPLAY_SPEEDS.indexOf(speed) + 1) % REPLAY_SPEEDS.length])
+					}
+					title="Playback speed"
+				>
+					{speed}x
+				</Button>
+				{onClose && (
+					<Button
+						variant="ghost"
+						size="icon"
+						className="h-5 w-5 text-muted-foreground hover:text-foreground"
+						onClick={onClose}
+						title="Close replay"
+					>
+						<X className="h-3 w-3" />
+					</Button>
+				)}
+			</div>
+			{replay?.truncated && (
+				<div className="shrink-0 border-b border-border bg-amber-500/10 px-2 py-0.5 text-[11px] text-amber-600">
+					Recording hit the size limit; later output was not saved.
+				</div>
+			)}
+			<div className="relative min-h-0 min-w-0 flex-1 overflow-auto p-1">
+				{error ? (
+					<div className="flex h-full items-center justify-center text-xs text-muted-foreground">
+						{error}
+					</div>
+				) : !replay ? (
+					<div className="flex h-full items-center justify-center text-muted-foreground">
+						<Loader2 className="h-4 w-4 animate-spin" />
+					</div>
+				) : (
+					<div ref={containerRef} className="min-w-0" />
+				)}
+			</div>
+		</div>
+	);
+}
+
 // Memoized to prevent re-renders when parent state changes but props are equal
 export const TerminalSession = memo(function TerminalSession({
 	session,
@@ -152,6 +384,7 @@ export const TerminalSession = memo(function TerminalSession({
 	const fontFamily = fontFamilyMap[font] || fontFamilyMap.jetbrains;
 	const [isMaximized, setIsMaximized] = useState(false);
 	const [isScrolledUp, setIsScrolledUp] = useState(false);
+	const [isReplaying, setIsReplaying] = useState(false);
 	const terminalRef = useRef<HTMLDivElement>(null);
 	const xtermRef = useRef<XTerm | null>(null);
 	const fitAddonRef = useRef<FitAddon | null>(null);
@@ -688,7 +921,10 @@ export const TerminalSession = memo(function TerminalSession({
 				)}
 			>
 				<div className="flex items-center gap-2 text-xs min-w-0">
-					<StatusIndicator status={mapSessionState(session.state)} />
+					<StatusIndicator
+						status={mapSessionStatus(session)}
+						title={session.budget?.message}
+					/>
 					<AgentIcon
 						icon={agent?.icon}
 						iconColor={agent?.iconColor}
@@ -791,6 +1027,10 @@ export const TerminalSession = memo(function TerminalSession({
 								<Copy className="mr-2 h-3 w-3" />
 								Copy selection
 							</DropdownMenuItem>
+							<DropdownMenuItem onClick={() => setIsReplaying(!isReplaying)}>
+								<History className="mr-2 h-3 w-3" />
+								{isReplaying ? 'Back to live terminal' : 'Replay output'}
+							</DropdownMenuItem>
 							<DropdownMenuItem onClick={handleRenameSession}>
 								<Pencil className="mr-2 h-3 w-3" />
 								Rename session
@@ -835,6 +1075,14 @@ export const TerminalSession = memo(function TerminalSession({
 						<ArrowDown className="h-4 w-4" />
 					</Button>
 				)}
+				{/* Replay overlays the live terminal so it keeps receiving output */}
+				{isReplaying && (
+					<TerminalReplay
+						sessionId={session.id}
+						onClose={() => setIsReplaying(false)}
+						className="absolute inset-0 z-10"
+					/>
+				)}
 			</div>
 		</div>
 	);
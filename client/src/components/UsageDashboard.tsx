@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAppStore } from '@/lib/store'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import type { UsageGroupBy, UsageResponse } from '@/lib/types'
+import { AlertCircle, BarChart3, Loader2, RefreshCw, X } from 'lucide-react'
+
+const GROUP_BY_OPTIONS: Array<{ value: UsageGroupBy; label: string }> = [
+  { value: 'project', label: 'Project' },
+  { value: 'agent', label: 'Agent' },
+  { value: 'model', label: 'Model' },
+  { value: 'task', label: 'Task' },
+  { value: 'day', label: 'Day' },
+]
+
+const RANGE_OPTIONS: Array<{ days: number | null; label: string }> = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: null, label: 'All time' },
+]
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`
+  return String(tokens)
+}
+
+function formatCost(cost: number): string {
+  return `$${cost.toFixed(2)}`
+}
+
+function formatGroupKey(groupBy: UsageGroupBy, key: string | null): string {
+  if (!key) return '(none)'
+  if (groupBy === 'project') return key.split('/').filter(Boolean).pop() || key
+  return key
+}
+
+export function UsageDashboard() {
+  const { currentProject, closeUsageDashboard } = useAppStore()
+  const [groupBy, setGroupBy] = useState<UsageGroupBy>('day')
+  const [rangeDays, setRangeDays] = useState<number | null>(30)
+  const [allProjects, setAllProjects] = useState(false)
+  const [usage, setUsage] = useState<UsageResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchUsage = useCallback(async (refresh = false) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ groupBy })
+      if (!allProjects && currentProject?.path) {
+        params.set('projectPath', currentProject.path)
+      }
+      if (rangeDays !== null) {
+        params.set('dateFrom', String(Math.floor(Date.now() / 1000) - rangeDays * 24 * 60 * 60))
+      }
+      if (refresh) {
+        params.set('refresh', '1')
+      }
+
+      const res = await fetch(`/api/analytics/usage?${params.toString()}`, {
+        credentials: 'include',
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load usage')
+      }
+      setUsage(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load usage')
+    } finally {
+      setLoading(false)
+    }
+  }, [groupBy, rangeDays, allProjects, currentProject?.path])
+
+  useEffect(() => {
+    void fetchUsage()
+  }, [fetchUsage])
+
+  const maxCost = Math.max(0, ...(usage?.groups.map(group => group.estimatedCostUsd) || []))
+  const maxTokens = Math.max(0, ...(usage?.groups.map(group => group.totalTokens) || []))
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between gap-2 border-b border-border px-3 py-2">
+        <div className="flex items-center gap-2 text-sm">
+          <BarChart3 className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">Usage</span>
+          <span className="text-xs text-muted-foreground">
+            {allProjects ? 'All projects' : currentProject?.name}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => void fetchUsage(true)}
+            title="Refresh (re-read agent session files)"
+          >
+            <RefreshCw className={cn('h-3.5 w-3.5', loading && 'animate-spin')} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={closeUsageDashboard}
+            title="Close"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 border-b border-border px-3 py-2 text-xs">
+        <div className="flex items-center gap-1">
+          <span className="text-muted-foreground">Group by</span>
+          {GROUP_BY_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setGroupBy(option.value)}
+              className={cn(
+                'rounded border px-2 py-1 text-[10px] transition-colors',
+                groupBy === option.value
+                  ? 'border-border bg-accent text-foreground'
+                  : 'border-border/60 bg-card text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-muted-foreground">Range</span>
+          {RANGE_OPTIONS.map(option => (
+            <button
+              key={option.label}
+              onClick={() => setRangeDays(option.days)}
+              className={cn(
+                'rounded border px-2 py-1 text-[10px] transition-colors',
+                rangeDays === option.days
+                  ? 'border-border bg-accent text-foreground'
+                  : 'border-border/60 bg-card text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <label className="flex cursor-pointer items-center gap-1.5 text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={allProjects}
+            onChange={(event) => setAllProjects(event.target.checked)}
+          />
+          All projects
+        </label>
+      </div>
+
+      {usage && (
+        <div className="grid grid-cols-3 gap-2 border-b border-border px-3 py-3">
+          <div className="rounded border border-border bg-card px-3 py-2">
+            <div className="text-[10px] uppercase text-muted-foreground">Estimated cost</div>
+            <div className="text-lg font-semibold">{formatCost(usage.totals.estimatedCostUsd)}</div>
+          </div>
+          <div className="rounded border border-border bg-card px-3 py-2">
+            <div className="text-[10px] uppercase text-muted-foreground">Tokens</div>
+            <div className="text-lg font-semibold">{formatTokens(usage.totals.totalTokens)}</div>
+          </div>
+          <div className="rounded border border-border bg-card px-3 py-2">
+            <div className="text-[10px] uppercase text-muted-foreground">Sessions</div>
+            <div className="text-lg font-semibold">{usage.totals.sessions}</div>
+          </div>
+        </div>
+      )}
+
+      <div className="min-h-0 flex-1 overflow-y-auto px-3 py-2">
+        {error ? (
+          <div className="flex items-center gap-2 text-xs text-destructive">
+            <AlertCircle className="h-3.5 w-3.5" />
+            {error}
+          </div>
+        ) : !usage && loading ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            Loading usage...
+          </div>
+        ) : usage && usage.groups.length === 0 ? (
+          <div className="text-xs text-muted-foreground">
+            No usage recorded for this range yet. Usage is collected from agent session files every few minutes.
+          </div>
+        ) : usage ? (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[10px] uppercase text-muted-foreground">
+                <th className="py-1 pr-2 font-medium">{GROUP_BY_OPTIONS.find(o => o.value === usage.groupBy)?.label}</th>
+                <th className="w-1/3 py-1 pr-2 font-medium" />
+                <th className="py-1 pr-2 text-right font-medium">Sessions</th>
+                <th className="py-1 pr-2 text-right font-medium">Tokens</th>
+                <th className="py-1 text-right font-medium">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.groups.map(group => {
+                // Bars follow cost when any is known, otherwise tokens
+                const ratio = maxCost > 0
+                  ? group.estimatedCostUsd / maxCost
+                  : maxTokens > 0 ? group.totalTokens / maxTokens : 0
+                return (
+                  <tr key={group.key ?? '(none)'} className="border-t border-border/50">
+                    <td className="max-w-[240px] truncate py-1.5 pr-2 font-mono" title={group.key ?? undefined}>
+                      {formatGroupKey(usage.groupBy, group.key)}
+                    </td>
+                    <td className="py-1.5 pr-2">
+                      <div className="h-1.5 w-full rounded bg-muted">
+                        <div className="h-1.5 rounded bg-primary" style={{ width: `${Math.round(ratio * 100)}%` }} />
+                      </div>
+                    </td>
+                    <td className="py-1.5 pr-2 text-right tabular-nums">{group.sessions}</td>
+                    <td className="py-1.5 pr-2 text-right tabular-nums">{formatTokens(group.totalTokens)}</td>
+                    <td className="py-1.5 text-right tabular-nums">{formatCost(group.estimatedCostUsd)}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        ) : null}
+      </div>
+    </div>
+  )
+}
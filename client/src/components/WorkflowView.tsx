@@ -0,0 +1,342 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAppStore } from '@/lib/store'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+import type { WorkflowRun, WorkflowStep, WorkflowStepRun, WorkflowSummary } from '@/lib/types'
+import { AlertCircle, Loader2, Play, RefreshCw, Workflow, X } from 'lucide-react'
+
+// Select items need a non-empty value; this stands for "project root"
+const PROJECT_ROOT = '__project_root__'
+
+function formatAfter(step: WorkflowStep, index: number): string {
+  if (index === 0) return 'start'
+  if (step.after === 'manual') return 'manual'
+  if (step.after === 'exit') return 'after exit'
+  return 'after idle'
+}
+
+function stepStatusClass(step: WorkflowStepRun): string {
+  if (step.status === 'running') return 'border-primary/60 text-foreground'
+  if (step.status === 'failed') return 'border-destructive/60 text-destructive'
+  if (step.status === 'pending') return 'border-border/60 text-muted-foreground'
+  return 'border-border text-foreground'
+}
+
+export function WorkflowView() {
+  const { currentProject, agents, worktrees, sessions, socket, selectSession, closeWorkflowView } = useAppStore()
+  const [workflows, setWorkflows] = useState<WorkflowSummary[] | null>(null)
+  const [runs, setRuns] = useState<WorkflowRun[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const [selectedWorkflow, setSelectedWorkflow] = useState('')
+  const [tdTaskId, setTdTaskId] = useState('')
+  const [worktreePath, setWorktreePath] = useState(PROJECT_ROOT)
+  const [starting, setStarting] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const agentName = (agentId: string) => agents.find(agent => agent.id === agentId)?.name || agentId
+
+  const fetchWorkflows = useCallback(async () => {
+    if (!currentProject?.path) return
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ projectPath: currentProject.path })
+      const [workflowsRes, runsRes] = await Promise.all([
+        fetch(`/api/workflows?${params.toString()}`, { credentials: 'include' }),
+        fetch(`/api/workflows/runs?${params.toString()}`, { credentials: 'include' }),
+      ])
+      const workflowsData = await workflowsRes.json()
+      if (!workflowsRes.ok) {
+        throw new Error(workflowsData.error || 'Failed to load workflows')
+      }
+      const runsData = await runsRes.json()
+      if (!runsRes.ok) {
+        throw new Error(runsData.error || 'Failed to load workflow runs')
+      }
+      setWorkflows(workflowsData.workflows)
+      setRuns(runsData.runs)
+      setSelectedWorkflow(current =>
+        current && workflowsData.workflows.some((workflow: WorkflowSummary) => workflow.name === current)
+          ? current
+          : workflowsData.workflows[0]?.name || ''
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load workflows')
+    } finally {
+      setLoading(false)
+    }
+  }, [currentProject?.path])
+
+  useEffect(() => {
+    void fetchWorkflows()
+  }, [fetchWorkflows])
+
+  useEffect(() => {
+    const handleUpdate = () => void fetchWorkflows()
+    socket.on('workflow_updated', handleUpdate)
+    return () => {
+      socket.off('workflow_updated', handleUpdate)
+    }
+  }, [socket, fetchWorkflows])
+
+  const startRun = async () => {
+    if (!currentProject?.path || !selectedWorkflow) return
+    setStarting(true)
+    setFormError(null)
+    try {
+      const res = await fetch('/api/workflows/run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          projectPath: currentProject.path,
+          workflow: selectedWorkflow,
+          tdTaskId: tdTaskId.trim() || undefined,
+          worktreePath: worktreePath !== PROJECT_ROOT ? worktreePath : undefined,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to start workflow')
+      }
+      setTdTaskId('')
+      void fetchWorkflows()
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to start workflow')
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const updateRun = async (action: 'advance' | 'cancel', id: string) => {
+    try {
+      const res = await fetch(`/api/workflows/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ id }),
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || `Failed to ${action} workflow run`)
+      }
+      void fetchWorkflows()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} workflow run`)
+    }
+  }
+
+  const selected = workflows?.find(workflow => workflow.name === selectedWorkflow)
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between gap-2 border-b border-border px-3 py-2">
+        <div className="flex items-center gap-2 text-sm">
+          <Workflow className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">Workflows</span>
+          <span className="text-xs text-muted-foreground">{currentProject?.name}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => void fetchWorkflows()}
+            title="Refresh"
+          >
+            <RefreshCw className={cn('h-3.5 w-3.5', loading && 'animate-spin')} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={closeWorkflowView}
+            title="Close"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      {workflows && workflows.length > 0 && (
+        <div className="grid grid-cols-3 gap-3 border-b border-border px-3 py-3 text-xs">
+          <div className="space-y-1">
+            <Label className="text-xs">Workflow</Label>
+            <Select value={selectedWorkflow} onValueChange={setSelectedWorkflow}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Select workflow" />
+              </SelectTrigger>
+              <SelectContent>
+                {workflows.map(workflow => (
+                  <SelectItem key={workflow.name} value={workflow.name}>
+                    {workflow.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">TD task</Label>
+            <Input
+              value={tdTaskId}
+              onChange={(event) => setTdTaskId(event.target.value)}
+              className="h-8 font-mono text-xs"
+              placeholder="td-a1b2c3 (optional)"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Worktree</Label>
+            <Select value={worktreePath} onValueChange={setWorktreePath}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PROJECT_ROOT}>Project root</SelectItem>
+                {worktrees.filter(worktree => !worktree.isMainWorktree).map(worktree => (
+                  <SelectItem key={worktree.path} value={worktree.path}>
+                    {worktree.branch || worktree.path}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {selected && (
+            <div className="col-span-3 space-y-1">
+              {selected.description && (
+                <div className="text-muted-foreground">{selected.description}</div>
+              )}
+              <div className="flex flex-wrap items-center gap-1">
+                {selected.steps.map((step, index) => (
+                  <span key={index} className="rounded border border-border/60 bg-card px-2 py-0.5 text-[10px]">
+                    <span className="text-muted-foreground">{formatAfter(step, index)} · </span>
+                    {step.name || `Step ${index + 1}`} ({agentName(step.agentId)})
+                    {step.branchTemplate && (
+                      <span className="ml-1 font-mono text-muted-foreground">{step.branchTemplate}</span>
+                    )}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="col-span-3 flex items-center justify-end gap-2">
+            {formError && (
+              <span className="flex items-center gap-1 text-destructive">
+                <AlertCircle className="h-3.5 w-3.5" />
+                {formError}
+              </span>
+            )}
+            <Button
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => void startRun()}
+              disabled={!selectedWorkflow || starting}
+            >
+              {starting ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <Play className="mr-1 h-3.5 w-3.5" />}
+              Run workflow
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="min-h-0 flex-1 overflow-y-auto px-3 py-2">
+        {error ? (
+          <div className="flex items-center gap-2 text-xs text-destructive">
+            <AlertCircle className="h-3.5 w-3.5" />
+            {error}
+          </div>
+        ) : !workflows && loading ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            Loading workflows...
+          </div>
+        ) : workflows && workflows.length === 0 ? (
+          <div className="text-xs text-muted-foreground">
+            No workflows configured. Add a <span className="font-mono">workflows</span> section to this project's{' '}
+            <span className="font-mono">.cacd.json</span> to chain agents, for example an implementer followed by a reviewer.
+          </div>
+        ) : runs.length === 0 ? (
+          <div className="text-xs text-muted-foreground">No workflow runs yet.</div>
+        ) : (
+          <div className="space-y-2">
+            {runs.map(run => {
+              const hasPending = run.steps.some(step => step.status === 'pending')
+              return (
+                <div key={run.id} className="rounded border border-border/60 bg-card px-3 py-2 text-xs">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex min-w-0 items-center gap-2">
+                      <span className="font-medium">{run.workflowName}</span>
+                      {run.tdTaskId && <span className="font-mono text-muted-foreground">{run.tdTaskId}</span>}
+                      <span
+                        className={cn(
+                          run.status === 'failed' && 'text-destructive',
+                          run.status === 'cancelled' && 'text-muted-foreground'
+                        )}
+                      >
+                        {run.status}
+                      </span>
+                      <span className="text-muted-foreground">{new Date(run.createdAt * 1000).toLocaleString()}</span>
+                    </div>
+                    {run.status === 'running' && (
+                      <div className="flex items-center gap-1">
+                        {hasPending && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-[10px]"
+                            onClick={() => void updateRun('advance', run.id)}
+                          >
+                            Start next step
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-[10px]"
+                          onClick={() => void updateRun('cancel', run.id)}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="mt-1.5 flex flex-wrap items-center gap-1">
+                    {run.steps.map((step, index) => {
+                      const session = step.sessionId ? sessions.find(s => s.id === step.sessionId) : undefined
+                      return (
+                        <button
+                          key={index}
+                          onClick={() => session && selectSession(session.id)}
+                          disabled={!session}
+                          className={cn(
+                            'rounded border px-2 py-0.5 text-[10px] transition-colors',
+                            stepStatusClass(step),
+                            session && 'hover:bg-accent'
+                          )}
+                          title={step.error ?? step.worktreePath ?? undefined}
+                        >
+                          {step.name} ({agentName(step.agentId)}) · {step.status}
+                          {step.status === 'running' && <Loader2 className="ml-1 inline h-3 w-3 animate-spin" />}
+                        </button>
+                      )
+                    })}
+                  </div>
+                  {run.error && (
+                    <div className="mt-1 flex items-center gap-1 text-destructive">
+                      <AlertCircle className="h-3 w-3" />
+                      {run.error}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,316 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAppStore } from '@/lib/store'
+import { Button } from '@/components/ui/button'
+import { ConfirmDialog } from '@/components/ConfirmDialog'
+import { cn } from '@/lib/utils'
+import type {
+  WorktreeCleanupCandidate,
+  WorktreeCleanupReason,
+  WorktreeCleanupResult,
+  WorktreeCleanupRisk,
+} from '@/lib/types'
+import { AlertCircle, Eraser, Loader2, RefreshCw, Trash2, X } from 'lucide-react'
+
+const STALE_OPTIONS = [7, 14, 30, 90]
+
+const REASON_LABELS: Record<WorktreeCleanupReason, string> = {
+  merged: 'Merged',
+  orphaned: 'Orphaned',
+  task_closed: 'Task closed',
+  stale: 'Stale',
+}
+
+const REASON_STYLES: Record<WorktreeCleanupReason, string> = {
+  merged: 'border-green-500/40 text-green-500',
+  orphaned: 'border-blue-500/40 text-blue-500',
+  task_closed: 'border-green-500/40 text-green-500',
+  stale: 'border-yellow-500/40 text-yellow-500',
+}
+
+const RISK_LABELS: Record<WorktreeCleanupRisk, string> = {
+  uncommitted_changes: 'Uncommitted changes',
+  unmerged_commits: 'Unmerged commits',
+}
+
+function formatLastActivity(timestamp: number | null): string {
+  if (timestamp === null) return '-'
+  const days = Math.floor((Date.now() / 1000 - timestamp) / (24 * 60 * 60))
+  if (days <= 0) return 'today'
+  return days === 1 ? '1 day ago' : `${days} days ago`
+}
+
+export function WorktreeCleanup() {
+  const { currentProject, cleanupWorktrees, closeWorktreeCleanup } = useAppStore()
+  const [staleDays, setStaleDays] = useState(14)
+  const [candidates, setCandidates] = useState<WorktreeCleanupCandidate[] | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [deleteBranches, setDeleteBranches] = useState(true)
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const [results, setResults] = useState<WorktreeCleanupResult[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchCandidates = useCallback(async () => {
+    if (!currentProject?.path) return
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({
+        projectPath: currentProject.path,
+        staleDays: String(staleDays),
+      })
+      const res = await fetch(`/api/worktrees/cleanup-candidates?${params.toString()}`, {
+        credentials: 'include',
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to analyze worktrees')
+      }
+      setCandidates(data.candidates)
+      // Preselect what can go without losing work
+      setSelected(new Set(
+        (data.candidates as WorktreeCleanupCandidate[])
+          .filter(candidate => candidate.recommended)
+          .map(candidate => candidate.path)
+      ))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to analyze worktrees')
+    } finally {
+      setLoading(false)
+    }
+  }, [currentProject?.path, staleDays])
+
+  useEffect(() => {
+    void fetchCandidates()
+  }, [fetchCandidates])
+
+  const toggle = (path: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(path)) {
+        next.delete(path)
+      } else {
+        next.add(path)
+      }
+      return next
+    })
+  }
+
+  const handleDelete = async () => {
+    if (!candidates) return
+    setDeleting(true)
+    const chosen = candidates.filter(candidate => selected.has(candidate.path))
+    const deleted = await cleanupWorktrees(
+      chosen.map(candidate => ({
+        path: candidate.path,
+        projectPath: candidate.projectPath,
+        // Only merged branches are safe to drop together with the worktree
+        deleteBranch: deleteBranches && candidate.reasons.includes('merged'),
+      }))
+    )
+    setDeleting(false)
+    if (deleted) {
+      setResults(deleted)
+      await fetchCandidates()
+    }
+  }
+
+  const list = candidates || []
+  const selectedRisky = list.filter(candidate => selected.has(candidate.path) && candidate.risks.length > 0)
+  const failed = results?.filter(result => !result.success) || []
+  const warnings = results?.flatMap(result => result.warnings || []) || []
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between gap-2 border-b border-border px-3 py-2">
+        <div className="flex items-center gap-2 text-sm">
+          <Eraser className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">Clean Up Worktrees</span>
+          <span className="text-xs text-muted-foreground">{currentProject?.name}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => void fetchCandidates()}
+            title="Refresh"
+          >
+            <RefreshCw className={cn('h-3.5 w-3.5', loading && 'animate-spin')} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={closeWorktreeCleanup}
+            title="Close"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 border-b border-border px-3 py-2 text-xs">
+        <div className="flex items-center gap-1">
+          <span className="text-muted-foreground">Stale after</span>
+          {STALE_OPTIONS.map(days => (
+            <button
+              key={days}
+              onClick={() => setStaleDays(days)}
+              className={cn(
+                'rounded border px-2 py-1 text-[10px] transition-colors',
+                staleDays === days
+                  ? 'border-border bg-accent text-foreground'
+                  : 'border-border/60 bg-card text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {days} days
+            </button>
+          ))}
+        </div>
+        <label className="flex cursor-pointer items-center gap-1.5 text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={deleteBranches}
+            onChange={(event) => setDeleteBranches(event.target.checked)}
+          />
+          Delete merged branches
+        </label>
+        <div className="ml-auto">
+          <Button
+            variant="destructive"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={selected.size === 0 || deleting}
+            onClick={() => setConfirmOpen(true)}
+          >
+            {deleting ? (
+              <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <Trash2 className="mr-1.5 h-3.5 w-3.5" />
+            )}
+            Delete {selected.size} selected
+          </Button>
+        </div>
+      </div>
+
+      {results && (
+        <div className="space-y-1 border-b border-border px-3 py-2 text-xs">
+          <div>
+            Deleted {results.length - failed.length} of {results.length} worktree{results.length === 1 ? '' : 's'}.
+          </div>
+          {failed.map(result => (
+            <div key={result.path} className="text-destructive">
+              {result.path}: {result.error}
+            </div>
+          ))}
+          {warnings.map((warning, index) => (
+            <div key={index} className="text-yellow-500">{warning}</div>
+          ))}
+        </div>
+      )}
+
+      <div className="min-h-0 flex-1 overflow-y-auto px-3 py-2">
+        {error ? (
+          <div className="flex items-center gap-2 text-xs text-destructive">
+            <AlertCircle className="h-3.5 w-3.5" />
+            {error}
+          </div>
+        ) : !candidates && loading ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            Analyzing worktrees...
+          </div>
+        ) : candidates && list.length === 0 ? (
+          <div className="text-xs text-muted-foreground">
+            No merged, orphaned or stale worktrees. Worktrees with running sessions are never listed.
+          </div>
+        ) : candidates ? (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[10px] uppercase text-muted-foreground">
+                <th className="w-6 py-1">
+                  <input
+                    type="checkbox"
+                    checked={selected.size === list.length}
+                    onChange={(event) =>
+                      setSelected(event.target.checked ? new Set(list.map(candidate => candidate.path)) : new Set())
+                    }
+                  />
+                </th>
+                <th className="py-1 pr-2 font-medium">Worktree</th>
+                <th className="py-1 pr-2 font-medium">Reasons</th>
+                <th className="py-1 pr-2 font-medium">Task</th>
+                <th className="py-1 pr-2 font-medium">Would lose</th>
+                <th className="py-1 pr-2 text-right font-medium">Last activity</th>
+              </tr>
+            </thead>
+            <tbody>
+              {list.map(candidate => (
+                <tr
+                  key={candidate.path}
+                  className="cursor-pointer border-t border-border/50 align-top hover:bg-accent/40"
+                  onClick={() => toggle(candidate.path)}
+                >
+                  <td className="py-1.5">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(candidate.path)}
+                      onChange={() => toggle(candidate.path)}
+                      onClick={(event) => event.stopPropagation()}
+                    />
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <div className="font-mono">{candidate.branch || candidate.path.split('/').pop()}</div>
+                    <div className="max-w-[24rem] truncate text-[10px] text-muted-foreground" title={candidate.path}>
+                      {candidate.path}
+                    </div>
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <div className="flex flex-wrap gap-1">
+                      {candidate.reasons.map(reason => (
+                        <span key={reason} className={cn('rounded border px-1.5 py-0.5 text-[10px]', REASON_STYLES[reason])}>
+                          {REASON_LABELS[reason]}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="max-w-[14rem] truncate py-1.5 pr-2" title={candidate.task?.title}>
+                    {candidate.task ? `${candidate.task.id} (${candidate.task.status})` : '-'}
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    {candidate.risks.length > 0 ? (
+                      <span className="text-destructive">
+                        {candidate.risks.map(risk => RISK_LABELS[risk]).join(', ')}
+                      </span>
+                    ) : (
+                      <span className="text-muted-foreground">Nothing</span>
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap py-1.5 pr-2 text-right text-muted-foreground">
+                    {formatLastActivity(candidate.lastActivityAt)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : null}
+      </div>
+
+      <ConfirmDialog
+        open={confirmOpen}
+        onOpenChange={setConfirmOpen}
+        title="Delete Worktrees"
+        description={
+          selectedRisky.length > 0
+            ? `Delete ${selected.size} worktrees? ${selectedRisky.length} of them have uncommitted or unmerged work that will be lost.`
+            : `Delete ${selected.size} worktrees? This removes their directories.`
+        }
+        confirmLabel="Delete"
+        variant="destructive"
+        onConfirm={() => void handleDelete()}
+      />
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
-import { GitBranch, Play, Trash2, GitMerge, AlertTriangle, ArrowRight, Square, ExternalLink, Terminal } from 'lucide-react';
+import { GitBranch, Play, Trash2, GitMerge, GitPullRequest, AlertTriangle, ArrowRight, Square, ExternalLink, Terminal, Bot, CheckCircle2 } from 'lucide-react';
 import { PresetSelector } from './PresetSelector';
+import type { WorktreePullRequest, PullRequestDraft, MergeConflictCheck, MergeConflictReport } from '@/lib/types';
 
 interface Worktree {
     path: string;
@@ -9,6 +10,13 @@ interface Worktree {
     hasSession: boolean;
 }
 
+const PR_STATE_STYLES: Record<WorktreePullRequest['state'], string> = {
+    open: 'text-green-400',
+    draft: 'text-gray-400',
+    merged: 'text-purple-400',
+    closed: 'text-red-400',
+};
+
 interface WorktreeDetailProps {
     worktree: Worktree;
     token: string;
@@ -28,7 +36,7 @@ export const WorktreeDetail = ({
     onStopSession,
     onDeleteSuccess 
 }: WorktreeDetailProps) => {
-    const [mode, setMode] = useState<'view' | 'merge' | 'delete'>('view');
+    const [mode, setMode] = useState<'view' | 'merge' | 'publish' | 'delete'>('view');
     const [branches, setBranches] = useState<string[]>([]);
     const [targetBranch, setTargetBranch] = useState('main');
     const [useRebase, setUseRebase] = useState(false);
@@ -36,14 +44,73 @@ export const WorktreeDetail = ({
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [successMsg, setSuccessMsg] = useState<string | null>(null);
+    const [pullRequest, setPullRequest] = useState<WorktreePullRequest | null>(null);
+    const [prDraft, setPrDraft] = useState<PullRequestDraft | null>(null);
+    const [prTitle, setPrTitle] = useState('');
+    const [prBody, setPrBody] = useState('');
+    const [prIsDraft, setPrIsDraft] = useState(false);
+    const [mergeCheck, setMergeCheck] = useState<MergeConflictCheck | null>(null);
+    const [conflicts, setConflicts] = useState<MergeConflictReport | null>(null);
+
+    useEffect(() => {
+        setPullRequest(null);
+        fetch(`/api/worktree/pull-request?path=${encodeURIComponent(worktree.path)}&refresh=1`, { headers: { 'x-access-token': token } })
+            .then(res => res.ok ? res.json() : null)
+            .then(data => setPullRequest(data?.pullRequest || null))
+            .catch(console.error);
+    }, [worktree.path, token]);
+
+    useEffect(() => {
+        setConflicts(null);
+        fetch(`/api/worktree/conflicts?path=${encodeURIComponent(worktree.path)}`, { headers: { 'x-access-token': token } })
+            .then(res => res.ok ? res.json() : null)
+            .then((data: MergeConflictReport | null) => {
+                if (data?.operation && data.files.length > 0) setConflicts(data);
+            })
+            .catch(console.error);
+    }, [worktree.path, token]);
+
+    // Dry-run the merge so conflicts show up before anything is touched
+    useEffect(() => {
+        setMergeCheck(null);
+        if (mode !== 'merge' || !worktree.branch || !targetBranch || targetBranch === worktree.branch) return;
+        fetch('/api/worktree/merge/check', {
+            method: 'POST',
+            headers: {
+                'x-access-token': token,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ sourceBranch: worktree.branch, targetBranch })
+        })
+            .then(res => res.ok ? res.json() : null)
+            .then(data => setMergeCheck(data))
+            .catch(console.error);
+    }, [mode, worktree.branch, targetBranch, token]);
+
+    useEffect(() => {
+        if (mode === 'publish') {
+            setPrDraft(null);
+            fetch(`/api/worktree/pull-request/draft?path=${encodeURIComponent(worktree.path)}`, { headers: { 'x-access-token': token } })
+                .then(res => res.json())
+                .then((data: PullRequestDraft) => {
+                    setPrDraft(data);
+                    setPrTitle(data.title);
+                    setPrBody(data.body);
+                    if (data.targetBranch) setTargetBranch(data.targetBranch);
+                })
+                .catch(console.error);
+        }
+    }, [mode, worktree.path, token]);
 
     useEffect(() => {
-        if (mode === 'merge') {
+        if (mode === 'merge' || mode === 'publish') {
             setLoading(true);
             fetch('/api/branches', { headers: { 'x-access-token': token } })
                 .then(res => res.json())
                 .then(data => {
                     setBranches(data);
+                    // The publish draft picks its own default target
+                    if (mode === 'publish') return;
                     if (data.includes('main')) setTargetBranch('main');
                     else if (data.includes('master')) setTargetBranch('master');
                 })
@@ -71,12 +138,106 @@ export const WorktreeDetail = ({
                 })
             });
             
+            const data = await res.json();
             if (!res.ok) {
-                const data = await res.json();
+                if (res.status === 409 && data.conflicts) {
+                    setConflicts(data.conflicts);
+                }
                 throw new Error(data.error);
             }
             
             setSuccessMsg(`Successfully merged ${worktree.branch} into ${targetBranch}`);
+            if (data.warnings?.length) {
+                // Stay on the merge view so the hook output can be read
+                setError(`Hook warnings: ${data.warnings.join('; ')}`);
+            } else {
+                setTimeout(() => setMode('view'), 2000);
+            }
+        } catch (e) {
+            setError((e as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleConflictAction = async (action: 'abort' | 'continue' | 'resolve', stageUnchecked = false) => {
+        if (!conflicts) return;
+        setLoading(true);
+        setError(null);
+        try {
+            const res = await fetch(`/api/worktree/conflicts/${action}`, {
+                method: 'POST',
+                headers: {
+                    'x-access-token': token,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ path: conflicts.worktreePath, stageUnchecked })
+            });
+
+            const data = await res.json();
+            if (!res.ok) {
+                const report = data.conflicts as MergeConflictReport | undefined;
+                if (report) setConflicts(report);
+                const onlyUnchecked = report?.files.some(file => file.unchecked) &&
+                    report.files.every(file => file.hunks.length === 0);
+                if (action === 'continue' && !stageUnchecked && onlyUnchecked &&
+                    confirm(`${data.error}.\n\nStage these files as they are in the worktree?`)) {
+                    await handleConflictAction('continue', true);
+                    return;
+                }
+                throw new Error(data.error);
+            }
+
+            if (action === 'resolve') {
+                onResumeSession(data.id);
+                return;
+            }
+
+            const finished = conflicts.operation;
+            setConflicts(null);
+            if (action === 'abort') {
+                setSuccessMsg(`Aborted the ${finished}`);
+            } else if (finished === 'rebase' && mode === 'merge') {
+                // The rebased branch still needs its fast-forward merge
+                await handleMerge();
+            } else {
+                setSuccessMsg(`Completed the ${finished}`);
+            }
+        } catch (e) {
+            setError((e as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handlePublish = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const res = await fetch('/api/worktree/pull-request', {
+                method: 'POST',
+                headers: {
+                    'x-access-token': token,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    path: worktree.path,
+                    title: prTitle,
+                    body: prBody,
+                    targetBranch,
+                    draft: prIsDraft
+                })
+            });
+
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.error);
+            }
+
+            setPullRequest(data.pullRequest);
+            setSuccessMsg(data.created
+                ? `Opened pull request #${data.pullRequest.number}`
+                : `Pushed ${worktree.branch} to pull request #${data.pullRequest.number}`);
             setTimeout(() => setMode('view'), 2000);
         } catch (e) {
             setError((e as Error).message);
@@ -149,6 +310,19 @@ export const WorktreeDetail = ({
                     <p className="text-gray-500 font-mono text-sm break-all">
                         {worktree.path}
                     </p>
+                    {pullRequest && (
+                        <a
+                            href={pullRequest.url}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="inline-flex items-center gap-2 mt-3 px-3 py-1 rounded-full bg-gray-800 border border-gray-700 text-sm text-gray-300 hover:text-white"
+                            title={pullRequest.title}
+                        >
+                            <GitPullRequest className="w-4 h-4" />
+                            #{pullRequest.number}
+                            <span className={PR_STATE_STYLES[pullRequest.state]}>{pullRequest.state}</span>
+                        </a>
+                    )}
                 </div>
 
                 {error && (
@@ -163,6 +337,68 @@ export const WorktreeDetail = ({
                     </div>
                 )}
 
+                {/* CONFLICTS: merge or rebase stopped mid-way */}
+                {conflicts && (
+                    <div className="mb-6 bg-yellow-900/10 rounded-lg p-6 border border-yellow-800/50">
+                        <h3 className="text-lg font-medium text-yellow-400 mb-2 flex items-center gap-2">
+                            <AlertTriangle className="w-5 h-5" /> {conflicts.operation === 'rebase' ? 'Rebase' : 'Merge'} stopped on conflicts
+                        </h3>
+                        <p className="text-xs text-gray-500 font-mono break-all mb-4">{conflicts.worktreePath}</p>
+
+                        <ul className="space-y-3 mb-6">
+                            {conflicts.files.map(file => (
+                                <li key={file.path} className="bg-gray-900/50 rounded p-3 border border-gray-700">
+                                    <div className="flex justify-between text-sm">
+                                        <span className="font-mono text-gray-200">{file.path}</span>
+                                        <span className="text-gray-500">
+                                            {file.unchecked
+                                                ? `${file.unchecked.replace('-', ' ')}, not checked`
+                                                : file.hunks.length === 0 ? 'resolved' : `${file.hunks.length} conflict${file.hunks.length === 1 ? '' : 's'}`}
+                                        </span>
+                                    </div>
+                                    {file.hunks.map(hunk => (
+                                        <div key={hunk.startLine} className="mt-2 grid grid-cols-2 gap-2 text-xs font-mono">
+                                            <pre className="bg-green-900/10 border border-green-900/30 rounded p-2 overflow-x-auto text-green-300" title={`Lines ${hunk.startLine}-${hunk.endLine}`}>
+                                                <span className="block text-gray-500 mb-1">{hunk.oursLabel || 'ours'}</span>
+                                                {hunk.ours.join('\n')}
+                                            </pre>
+                                            <pre className="bg-blue-900/10 border border-blue-900/30 rounded p-2 overflow-x-auto text-blue-300">
+                                                <span className="block text-gray-500 mb-1">{hunk.theirsLabel || 'theirs'}</span>
+                                                {hunk.theirs.join('\n')}
+                                            </pre>
+                                        </div>
+                                    ))}
+                                </li>
+                            ))}
+                        </ul>
+
+                        <div className="flex gap-3">
+                            <button
+                                onClick={() => handleConflictAction('resolve')}
+                                disabled={loading}
+                                className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded font-bold disabled:opacity-50"
+                            >
+                                <Bot className="w-4 h-4" /> Resolve with Agent
+                            </button>
+                            <button
+                                onClick={() => handleConflictAction('continue')}
+                                disabled={loading}
+                                className="px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white rounded disabled:opacity-50"
+                                title="Stage the resolved files and finish the merge"
+                            >
+                                Continue
+                            </button>
+                            <button
+                                onClick={() => handleConflictAction('abort')}
+                                disabled={loading}
+                                className="px-4 py-2 bg-red-900/30 hover:bg-red-900/50 border border-red-800 text-red-400 rounded disabled:opacity-50"
+                            >
+                                Abort
+                            </button>
+                        </div>
+                    </div>
+                )}
+
                 {/* VIEW MODE: Actions */}
                 {mode === 'view' && (
                     <div className="space-y-8">
@@ -211,6 +447,15 @@ export const WorktreeDetail = ({
                             >
                                 <GitMerge className="w-5 h-5" /> Merge Worktree
                             </button>
+
+                            {!worktree.isMainWorktree && worktree.branch && (
+                                <button
+                                    onClick={() => setMode('publish')}
+                                    className="flex items-center justify-center gap-2 px-4 py-3 bg-gray-800 hover:bg-gray-700 border border-gray-600 hover:border-gray-500 rounded-lg text-gray-300 hover:text-white transition-all"
+                                >
+                                    <GitPullRequest className="w-5 h-5" /> {pullRequest?.state === 'open' || pullRequest?.state === 'draft' ? 'Push to Pull Request' : 'Open Pull Request'}
+                                </button>
+                            )}
                             
                             {!worktree.isMainWorktree && (
                                 <button
@@ -266,6 +511,23 @@ export const WorktreeDetail = ({
                                 </div>
                             </div>
 
+                            {mergeCheck && (
+                                mergeCheck.clean ? (
+                                    <p className="text-sm text-green-400 flex items-center gap-2">
+                                        <CheckCircle2 className="w-4 h-4" /> No conflicts with {mergeCheck.targetBranch}
+                                    </p>
+                                ) : (
+                                    <div className="p-3 bg-yellow-900/20 border border-yellow-800 text-yellow-400 rounded text-sm">
+                                        <p className="mb-1">Merging will conflict in:</p>
+                                        <ul className="font-mono text-xs space-y-0.5">
+                                            {mergeCheck.files.map(file => (
+                                                <li key={file.path}>{file.path}{file.hunks.length > 0 && ` (${file.hunks.length})`}</li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )
+                            )}
+
                             <div className="flex gap-3 pt-2">
                                 <button
                                     onClick={handleMerge}
@@ -286,6 +548,99 @@ export const WorktreeDetail = ({
                     </div>
                 )}
 
+                {/* PUBLISH MODE */}
+                {mode === 'publish' && (
+                    <div className="bg-gray-900/50 rounded-lg p-6 border border-gray-700">
+                        <h3 className="text-lg font-medium text-white mb-6 flex items-center gap-2">
+                            <GitPullRequest className="w-5 h-5 text-green-400" /> Open Pull Request
+                        </h3>
+
+                        {!prDraft ? (
+                            <p className="text-gray-500 text-sm text-center">Preparing pull request...</p>
+                        ) : (
+                            <div className="space-y-6">
+                                {prDraft.forgeError ? (
+                                    <div className="p-3 bg-yellow-900/20 border border-yellow-800 text-yellow-400 rounded text-sm">
+                                        {prDraft.forgeError}
+                                    </div>
+                                ) : prDraft.forge && (
+                                    <p className="text-xs text-gray-500">
+                                        Pushes <span className="font-mono text-blue-400">{prDraft.sourceBranch}</span> and opens a pull request on {prDraft.forge.provider} ({prDraft.forge.repository}).
+                                        {prDraft.taskId && <> Prefilled from task <span className="font-mono">{prDraft.taskId}</span>.</>}
+                                    </p>
+                                )}
+
+                                <div>
+                                    <label className="block text-sm text-gray-400 mb-2">Target Branch</label>
+                                    <select
+                                        value={targetBranch}
+                                        onChange={(e) => setTargetBranch(e.target.value)}
+                                        className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-white"
+                                        disabled={loading}
+                                    >
+                                        {!branches.includes(targetBranch) && <option value={targetBranch}>{targetBranch}</option>}
+                                        {branches.map(b => (
+                                            <option key={b} value={b}>{b}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm text-gray-400 mb-2">Title</label>
+                                    <input
+                                        value={prTitle}
+                                        onChange={(e) => setPrTitle(e.target.value)}
+                                        className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-white"
+                                        disabled={loading}
+                                    />
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm text-gray-400 mb-2">Description</label>
+                                    <textarea
+                                        value={prBody}
+                                        onChange={(e) => setPrBody(e.target.value)}
+                                        rows={8}
+                                        className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-white font-mono text-sm"
+                                        disabled={loading}
+                                    />
+                                </div>
+
+                                <div className="flex items-center gap-3 bg-gray-800 p-3 rounded">
+                                    <input
+                                        type="checkbox"
+                                        id="prDraft"
+                                        checked={prIsDraft}
+                                        onChange={(e) => setPrIsDraft(e.target.checked)}
+                                        className="w-4 h-4 rounded bg-gray-700 border-gray-600 text-blue-600"
+                                    />
+                                    <div>
+                                        <label htmlFor="prDraft" className="text-gray-300 block">Draft</label>
+                                        <p className="text-xs text-gray-500">Open as a draft so it cannot be merged yet.</p>
+                                    </div>
+                                </div>
+
+                                <div className="flex gap-3 pt-2">
+                                    <button
+                                        onClick={handlePublish}
+                                        disabled={loading || !!prDraft.forgeError || !prTitle.trim()}
+                                        className="flex-1 px-4 py-2 bg-green-700 hover:bg-green-600 text-white rounded font-bold disabled:opacity-50"
+                                    >
+                                        {loading ? 'Publishing...' : 'Push & Open Pull Request'}
+                                    </button>
+                                    <button
+                                        onClick={() => setMode('view')}
+                                        disabled={loading}
+                                        className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded"
+                                    >
+                                        Cancel
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {/* DELETE MODE */}
                 {mode === 'delete' && (
                     <div className="bg-red-900/10 rounded-lg p-6 border border-red-900/30">
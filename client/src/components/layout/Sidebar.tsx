@@ -5,10 +5,11 @@ import { Input } from '@/components/ui/input'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { StatusIndicator } from '@/components/StatusIndicator'
 import { AgentIcon } from '@/components/AgentIcon'
-import { mapSessionState, type Project, type Worktree, type Session } from '@/lib/types'
+import { mapSessionStatus, type Project, type Worktree, type Session } from '@/lib/types'
 import { cn } from '@/lib/utils'
 import { Checkbox } from '@/components/ui/checkbox'
 import { ConfirmDialog } from '@/components/ConfirmDialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -25,9 +26,14 @@ import {
 } from '@/components/ui/context-menu'
 import {
   AlertTriangle,
+  ArrowRightLeft,
+  BarChart3,
+  CalendarClock,
   ChevronsRight,
   ChevronDown,
   ChevronRight,
+  Columns,
+  Eraser,
   FolderCog,
   FolderGit2,
   FolderPlus,
@@ -39,6 +45,8 @@ import {
   Pencil,
   Plus,
   RotateCcw,
+  ShieldCheck,
+  Workflow,
   X,
 } from 'lucide-react'
 import { useIsMobile } from '@/hooks/useIsMobile'
@@ -70,6 +78,12 @@ export function Sidebar() {
     openSettings,
     openTaskBoard,
     openConversationView,
+    openUsageDashboard,
+    openQueueView,
+    openWorkflowView,
+    openComparisonView,
+    openAutoApprovalLog,
+    openWorktreeCleanup,
     selectProject,
     updateProject,
     removeProject,
@@ -77,6 +91,7 @@ export function Sidebar() {
     deleteWorktree,
     stopSession,
     restartSession,
+    handoffSession,
   } = useAppStore()
 
   const isMobile = useIsMobile()
@@ -117,6 +132,13 @@ export function Sidebar() {
     session: Session | null
   }>({ open: false, session: null })
 
+  const [handoffSessionDialog, setHandoffSessionDialog] = useState<{
+    open: boolean
+    session: Session | null
+    agentId: string
+    stopSource: boolean
+  }>({ open: false, session: null, agentId: '', stopSource: false })
+
   // Rename project state
   const [renamingProject, setRenamingProject] = useState<string | null>(null)
   const [projectRenameValue, setProjectRenameValue] = useState('')
@@ -235,6 +257,19 @@ export function Sidebar() {
     setRestartSessionDialog({ open: true, session })
   }
 
+  const handoffAgents = agents.filter(agent =>
+    agent.kind === 'agent' &&
+    agent.enabled !== false &&
+    agent.id !== handoffSessionDialog.session?.agentId
+  )
+
+  const confirmHandoffSession = (session: Session) => {
+    const firstOther = agents.find(agent =>
+      agent.kind === 'agent' && agent.enabled !== false && agent.id !== session.agentId
+    )
+    setHandoffSessionDialog({ open: true, session, agentId: firstOther?.id || '', stopSource: false })
+  }
+
   // Tree expansion state - persisted to localStorage
   const [expandedProjects, setExpandedProjects] = useState<Set<string>>(() => {
     try {
@@ -622,6 +657,61 @@ export function Sidebar() {
                             <MessageSquare className="h-3.5 w-3.5 mr-2" />
                             Conversations
                           </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={async () => {
+                              const selected = await ensureProjectSelected(project.path)
+                              if (!selected) return
+                              openUsageDashboard()
+                            }}
+                            disabled={isInvalid}
+                          >
+                            <BarChart3 className="h-3.5 w-3.5 mr-2" />
+                            Usage
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={async () => {
+                              const selected = await ensureProjectSelected(project.path)
+                              if (!selected) return
+                              openQueueView()
+                            }}
+                            disabled={isInvalid}
+                          >
+                            <CalendarClock className="h-3.5 w-3.5 mr-2" />
+                            Queue
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={async () => {
+                              const selected = await ensureProjectSelected(project.path)
+                              if (!selected) return
+                              openWorkflowView()
+                            }}
+                            disabled={isInvalid}
+                          >
+                            <Workflow className="h-3.5 w-3.5 mr-2" />
+                            Workflows
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={async () => {
+                              const selected = await ensureProjectSelected(project.path)
+                              if (!selected) return
+                              openComparisonView()
+                            }}
+                            disabled={isInvalid}
+                          >
+                            <Columns className="h-3.5 w-3.5 mr-2" />
+                            Compare Agents
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={async () => {
+                              const selected = await ensureProjectSelected(project.path)
+                              if (!selected) return
+                              openAutoApprovalLog()
+                            }}
+                            disabled={isInvalid}
+                          >
+                            <ShieldCheck className="h-3.5 w-3.5 mr-2" />
+                            Auto-Approval Log
+                          </DropdownMenuItem>
                           <DropdownMenuItem
                             onClick={() => openAddWorktree(project.path)}
                             disabled={isInvalid}
@@ -629,6 +719,17 @@ export function Sidebar() {
                             <GitBranch className="h-3.5 w-3.5 mr-2" />
                             New Worktree
                           </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={async () => {
+                              const selected = await ensureProjectSelected(project.path)
+                              if (!selected) return
+                              openWorktreeCleanup()
+                            }}
+                            disabled={isInvalid}
+                          >
+                            <Eraser className="h-3.5 w-3.5 mr-2" />
+                            Clean Up Worktrees
+                          </DropdownMenuItem>
                           <DropdownMenuItem
                             onClick={() => openAddSession(undefined, project.path)}
                             disabled={isInvalid}
@@ -696,6 +797,61 @@ export function Sidebar() {
                       <MessageSquare className="h-3.5 w-3.5 mr-2" />
                       Conversations
                     </ContextMenuItem>
+                    <ContextMenuItem
+                      onClick={async () => {
+                        const selected = await ensureProjectSelected(project.path)
+                        if (!selected) return
+                        openUsageDashboard()
+                      }}
+                      disabled={isInvalid}
+                    >
+                      <BarChart3 className="h-3.5 w-3.5 mr-2" />
+                      Usage
+                    </ContextMenuItem>
+                    <ContextMenuItem
+                      onClick={async () => {
+                        const selected = await ensureProjectSelected(project.path)
+                        if (!selected) return
+                        openQueueView()
+                      }}
+                      disabled={isInvalid}
+                    >
+                      <CalendarClock className="h-3.5 w-3.5 mr-2" />
+                      Queue
+                    </ContextMenuItem>
+                    <ContextMenuItem
+                      onClick={async () => {
+                        const selected = await ensureProjectSelected(project.path)
+                        if (!selected) return
+                        openWorkflowView()
+                      }}
+                      disabled={isInvalid}
+                    >
+                      <Workflow className="h-3.5 w-3.5 mr-2" />
+                      Workflows
+                    </ContextMenuItem>
+                    <ContextMenuItem
+                      onClick={async () => {
+                        const selected = await ensureProjectSelected(project.path)
+                        if (!selected) return
+                        openComparisonView()
+                      }}
+                      disabled={isInvalid}
+                    >
+                      <Columns className="h-3.5 w-3.5 mr-2" />
+                      Compare Agents
+                    </ContextMenuItem>
+                    <ContextMenuItem
+                      onClick={async () => {
+                        const selected = await ensureProjectSelected(project.path)
+                        if (!selected) return
+                        openAutoApprovalLog()
+                      }}
+                      disabled={isInvalid}
+                    >
+                      <ShieldCheck className="h-3.5 w-3.5 mr-2" />
+                      Auto-Approval Log
+                    </ContextMenuItem>
                     <ContextMenuItem
                       onClick={() => openAddWorktree(project.path)}
                       disabled={isInvalid}
@@ -703,6 +859,17 @@ export function Sidebar() {
                       <GitBranch className="h-3.5 w-3.5 mr-2" />
                       New Worktree
                     </ContextMenuItem>
+                    <ContextMenuItem
+                      onClick={async () => {
+                        const selected = await ensureProjectSelected(project.path)
+                        if (!selected) return
+                        openWorktreeCleanup()
+                      }}
+                      disabled={isInvalid}
+                    >
+                      <Eraser className="h-3.5 w-3.5 mr-2" />
+                      Clean Up Worktrees
+                    </ContextMenuItem>
                     <ContextMenuItem
                       onClick={() => openAddSession(undefined, project.path)}
                       disabled={isInvalid}
@@ -846,7 +1013,11 @@ export function Sidebar() {
                                           }}
                                         >
                                           {/* Status indicator and agent icon */}
-                                          <StatusIndicator status={mapSessionState(session.state)} size="sm" />
+                                          <StatusIndicator
+                                            status={mapSessionStatus(session)}
+                                            size="sm"
+                                            title={session.budget?.message}
+                                          />
                                           <AgentIcon
                                             icon={agent?.icon}
                                             iconColor={agent?.iconColor}
@@ -899,6 +1070,12 @@ export function Sidebar() {
                                                 <RotateCcw className="h-3.5 w-3.5 mr-2" />
                                                 Restart Session
                                               </DropdownMenuItem>
+                                              <DropdownMenuItem
+                                                onClick={() => confirmHandoffSession(session)}
+                                              >
+                                                <ArrowRightLeft className="h-3.5 w-3.5 mr-2" />
+                                                Hand Off to Agent...
+                                              </DropdownMenuItem>
                                               <DropdownMenuSeparator />
                                               <DropdownMenuItem
                                                 className="text-destructive focus:text-destructive"
@@ -932,6 +1109,12 @@ export function Sidebar() {
                                           <RotateCcw className="h-3.5 w-3.5 mr-2" />
                                           Restart Session
                                         </ContextMenuItem>
+                                        <ContextMenuItem
+                                          onClick={() => confirmHandoffSession(session)}
+                                        >
+                                          <ArrowRightLeft className="h-3.5 w-3.5 mr-2" />
+                                          Hand Off to Agent...
+                                        </ContextMenuItem>
                                         <ContextMenuSeparator />
                                         <ContextMenuItem
                                           destructive
@@ -1041,6 +1224,56 @@ export function Sidebar() {
           }
         }}
       />
+
+      <ConfirmDialog
+        open={handoffSessionDialog.open}
+        onOpenChange={(open) => setHandoffSessionDialog(prev => ({ ...prev, open }))}
+        title="Hand Off Session"
+        description={`Start a new session in the same worktree that continues the work of "${handoffSessionDialog.session?.name || handoffSessionDialog.session?.path.split('/').pop()}". Its prompt contains the conversation, the worktree diff and the latest td handoff.`}
+        confirmLabel="Hand Off"
+        onConfirm={() => {
+          if (handoffSessionDialog.session && handoffSessionDialog.agentId) {
+            handoffSession(
+              handoffSessionDialog.session.id,
+              handoffSessionDialog.agentId,
+              handoffSessionDialog.stopSource
+            )
+          }
+        }}
+      >
+        <div className="space-y-3">
+          <Select
+            value={handoffSessionDialog.agentId}
+            onValueChange={(agentId) => setHandoffSessionDialog(prev => ({ ...prev, agentId }))}
+          >
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue placeholder="Select agent" />
+            </SelectTrigger>
+            <SelectContent>
+              {handoffAgents.map(agent => (
+                <SelectItem key={agent.id} value={agent.id}>
+                  {agent.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="handoff-stop-source"
+              checked={handoffSessionDialog.stopSource}
+              onCheckedChange={(checked) =>
+                setHandoffSessionDialog(prev => ({ ...prev, stopSource: checked === true }))
+              }
+            />
+            <label
+              htmlFor="handoff-stop-source"
+              className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+            >
+              Stop this session afterwards
+            </label>
+          </div>
+        </div>
+      </ConfirmDialog>
     </aside>
   )
 }
@@ -82,6 +82,26 @@ export function SettingsGeneral({ localConfig, setLocalConfig }: SettingsGeneral
         )}
       </div>
 
+      {/* Session Host */}
+      <div className="space-y-3 border-t border-border pt-4">
+        <h3 className="text-sm font-medium">Sessions</h3>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="persistent-sessions"
+            checked={localConfig.persistentSessions}
+            onCheckedChange={(checked) =>
+              setLocalConfig({ ...localConfig, persistentSessions: checked === true })
+            }
+          />
+          <label htmlFor="persistent-sessions" className="text-sm cursor-pointer">
+            Keep sessions running across daemon restarts
+          </label>
+        </div>
+        <p className="text-xs text-muted-foreground pl-6">
+          Runs new agent sessions inside tmux (must be installed) so <code className="bg-muted px-1 rounded">cacd restart</code> re-attaches instead of restarting them.
+        </p>
+      </div>
+
       {/* Worktree Defaults */}
       <div className="space-y-3 border-t border-border pt-4">
         <h3 className="text-sm font-medium">Worktree Defaults</h3>
@@ -0,0 +1,156 @@
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import type { AppConfig, NotificationSettings, NotifyState } from '@/lib/types'
+
+interface SettingsNotificationsProps {
+  localConfig: AppConfig
+  setLocalConfig: (config: AppConfig) => void
+}
+
+const STATE_OPTIONS: { state: NotifyState; label: string }[] = [
+  { state: 'waiting_input', label: 'Waiting for input' },
+  { state: 'idle', label: 'Finished (idle)' },
+  { state: 'pending_auto_approval', label: 'Pending auto-approval' },
+  { state: 'busy', label: 'Started working' },
+]
+
+export function SettingsNotifications({ localConfig, setLocalConfig }: SettingsNotificationsProps) {
+  const notifications = localConfig.notifications
+
+  const update = (patch: Partial<NotificationSettings>) =>
+    setLocalConfig({ ...localConfig, notifications: { ...notifications, ...patch } })
+
+  const toggleState = (state: NotifyState, checked: boolean) =>
+    update({
+      states: checked
+        ? [...notifications.states.filter(s => s !== state), state]
+        : notifications.states.filter(s => s !== state),
+    })
+
+  const enableBrowser = (checked: boolean) => {
+    update({ browser: checked })
+    if (checked && 'Notification' in window && Notification.permission === 'default') {
+      void Notification.requestPermission()
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-medium mb-1">Notifications</h3>
+        <p className="text-xs text-muted-foreground">
+          Get notified when sessions change state. Projects can opt out or pick their own states with a <code className="bg-muted px-1 rounded">notifications</code> block in <code className="bg-muted px-1 rounded">.cacd.json</code>. Test with <code className="bg-muted px-1 rounded">cacd notify "hello"</code>.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="notifications-enabled"
+          checked={notifications.enabled}
+          onCheckedChange={(checked) => update({ enabled: checked === true })}
+        />
+        <label htmlFor="notifications-enabled" className="text-sm cursor-pointer">
+          Enable notifications
+        </label>
+      </div>
+
+      {notifications.enabled && (
+        <>
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Notify when a session is</h3>
+            {STATE_OPTIONS.map(({ state, label }) => (
+              <div key={state} className="flex items-center gap-2 pl-1">
+                <Checkbox
+                  id={`notify-${state}`}
+                  checked={notifications.states.includes(state)}
+                  onCheckedChange={(checked) => toggleState(state, checked === true)}
+                />
+                <label htmlFor={`notify-${state}`} className="text-sm cursor-pointer">
+                  {label}
+                </label>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-4">
+            <h3 className="text-sm font-medium">Delivery</h3>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="notify-browser"
+                checked={notifications.browser}
+                onCheckedChange={(checked) => enableBrowser(checked === true)}
+              />
+              <label htmlFor="notify-browser" className="text-sm cursor-pointer">
+                Browser notifications in this web UI
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="notify-webhook" className="text-sm">
+                Webhook URL
+              </Label>
+              <Input
+                id="notify-webhook"
+                value={notifications.webhookUrl}
+                onChange={(e) => update({ webhookUrl: e.target.value })}
+                className="h-9 text-sm font-mono"
+                placeholder="http://localhost:8123/api/webhook/cacd"
+              />
+              <p className="text-xs text-muted-foreground">
+                Receives a JSON POST with title, message, sessionId and states
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="notify-command" className="text-sm">
+                Command
+              </Label>
+              <Input
+                id="notify-command"
+                value={notifications.command}
+                onChange={(e) => update({ command: e.target.value })}
+                className="h-9 text-sm font-mono"
+                placeholder={'notify-send "$CACD_NOTIFY_TITLE" "$CACD_NOTIFY_MESSAGE"'}
+              />
+              <p className="text-xs text-muted-foreground">
+                Env vars: <code className="bg-muted px-1 rounded">$CACD_NOTIFY_TITLE</code>, <code className="bg-muted px-1 rounded">$CACD_NOTIFY_MESSAGE</code>, <code className="bg-muted px-1 rounded">$CACD_SESSION_ID</code>, <code className="bg-muted px-1 rounded">$CACD_NEW_STATE</code>
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium">Quiet Hours</h3>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="notify-quiet"
+                checked={notifications.quietHoursEnabled}
+                onCheckedChange={(checked) => update({ quietHoursEnabled: checked === true })}
+              />
+              <label htmlFor="notify-quiet" className="text-sm cursor-pointer">
+                Suppress notifications during quiet hours
+              </label>
+            </div>
+            {notifications.quietHoursEnabled && (
+              <div className="flex items-center gap-2 pl-6">
+                <Input
+                  type="time"
+                  value={notifications.quietHoursStart}
+                  onChange={(e) => update({ quietHoursStart: e.target.value })}
+                  className="h-8 text-sm w-28"
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  value={notifications.quietHoursEnd}
+                  onChange={(e) => update({ quietHoursEnd: e.target.value })}
+                  className="h-8 text-sm w-28"
+                />
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -238,6 +238,7 @@ export function SettingsProject() {
 
   const tdEnabled = localConfig.td?.enabled !== false
   const tdAutoStart = localConfig.td?.autoStart !== false
+  const tdAutoReview = localConfig.quickStart?.review?.auto === true
   const projectBranchTemplate = localConfig.quickStart?.work?.branchTemplate || ''
   const globalBranchTemplate = config.quickStart?.work?.branchTemplate || ''
   const effectiveProjectBranchTemplate = projectBranchTemplate.trim()
@@ -269,6 +270,25 @@ export function SettingsProject() {
     })
   }
 
+  const setTdAutoReview = (enabled: boolean) => {
+    const quickStart = { ...(localConfig.quickStart || {}) }
+    const review = { ...(quickStart.review || {}) }
+
+    if (enabled) {
+      review.auto = true
+      quickStart.review = review
+    } else {
+      delete review.auto
+      if (Object.keys(review).length > 0) quickStart.review = review
+      else delete quickStart.review
+    }
+
+    updateConfig({
+      ...localConfig,
+      quickStart: Object.keys(quickStart).length > 0 ? quickStart : undefined,
+    })
+  }
+
   return (
     <div className="space-y-6">
       <div className="space-y-3">
@@ -333,6 +353,21 @@ export function SettingsProject() {
             <label htmlFor="project-td-autostart" className="cursor-pointer">Auto-start linked td task for new sessions</label>
           </div>
 
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="project-td-auto-review"
+              checked={tdAutoReview}
+              onCheckedChange={(checked) => setTdAutoReview(checked === true)}
+              className="mt-0.5"
+            />
+            <div>
+              <label htmlFor="project-td-auto-review" className="cursor-pointer">Automatically review tasks that enter review</label>
+              <p className="text-xs text-muted-foreground">
+                Starts the quick-start review agent in the implementer's worktree, then approves the task or requests changes from its verdict.
+              </p>
+            </div>
+          </div>
+
           {availability?.binaryAvailable && !projectState?.initialized && (
             <Button variant="outline" size="sm" onClick={handleInitTd}>
               <Play className="h-3.5 w-3.5 mr-1" />
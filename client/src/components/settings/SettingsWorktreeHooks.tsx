@@ -1,12 +1,63 @@
 import { Label } from '@/components/ui/label'
 import { Input } from '@/components/ui/input'
-import type { AppConfig } from '@/lib/types'
+import type { AppConfig, WorktreeHooks } from '@/lib/types'
 
 interface SettingsWorktreeHooksProps {
   localConfig: AppConfig
   setLocalConfig: (config: AppConfig) => void
 }
 
+const HOOK_FIELDS: { key: keyof WorktreeHooks; label: string; description: string; placeholder: string }[] = [
+  {
+    key: 'preCreation',
+    label: 'Pre Creation',
+    description: 'Runs in the repository root before a worktree is created. A non-zero exit cancels the creation.',
+    placeholder: 'git fetch origin',
+  },
+  {
+    key: 'postCreation',
+    label: 'Post Creation',
+    description: 'Runs after a worktree is created.',
+    placeholder: 'npm install && git pull',
+  },
+  {
+    key: 'preDelete',
+    label: 'Pre Delete',
+    description: 'Runs before a worktree is deleted. A non-zero exit keeps the worktree.',
+    placeholder: 'git diff --quiet',
+  },
+  {
+    key: 'postDelete',
+    label: 'Post Delete',
+    description: 'Runs in the repository root after a worktree is deleted.',
+    placeholder: 'docker compose -p "$CACD_WORKTREE_NAME" down',
+  },
+  {
+    key: 'preMerge',
+    label: 'Pre Merge',
+    description: 'Runs in the target worktree before merging. A non-zero exit cancels the merge.',
+    placeholder: 'npm test',
+  },
+  {
+    key: 'postMerge',
+    label: 'Post Merge',
+    description: 'Runs in the target worktree after a successful merge.',
+    placeholder: 'npm install',
+  },
+  {
+    key: 'sessionStart',
+    label: 'Session Start',
+    description: 'Runs when an agent session starts in the worktree.',
+    placeholder: 'echo "$CACD_SESSION_ID started" >> ~/sessions.log',
+  },
+  {
+    key: 'sessionEnd',
+    label: 'Session End',
+    description: 'Runs when an agent session in the worktree ends.',
+    placeholder: 'echo "$CACD_SESSION_ID ended" >> ~/sessions.log',
+  },
+]
+
 export function SettingsWorktreeHooks({ localConfig, setLocalConfig }: SettingsWorktreeHooksProps) {
   return (
     <div className="space-y-6">
@@ -15,29 +66,32 @@ export function SettingsWorktreeHooks({ localConfig, setLocalConfig }: SettingsW
         <p className="text-xs text-muted-foreground">
           Shell commands to run on worktree lifecycle events. Chain multiple commands with <code className="bg-muted px-1 rounded">&&</code> or <code className="bg-muted px-1 rounded">;</code>
         </p>
+        <p className="text-xs text-muted-foreground mt-1">
+          Environment variables: <code className="bg-muted px-1 rounded">$CACD_WORKTREE_PATH</code>, <code className="bg-muted px-1 rounded">$CACD_WORKTREE_BRANCH</code>, <code className="bg-muted px-1 rounded">$CACD_GIT_ROOT</code>, <code className="bg-muted px-1 rounded">$CACD_HOOK_EVENT</code>. Output written to stderr is shown as a warning.
+        </p>
       </div>
 
       <div className="space-y-4">
-        <div className="space-y-2">
-          <Label htmlFor="hook-post-creation" className="text-sm">
-            Post Creation
-          </Label>
-          <Input
-            id="hook-post-creation"
-            value={localConfig.worktreeHooks.postCreation}
-            onChange={(e) =>
-              setLocalConfig({
-                ...localConfig,
-                worktreeHooks: { ...localConfig.worktreeHooks, postCreation: e.target.value },
-              })
-            }
-            className="h-9 text-sm font-mono"
-            placeholder="npm install && git pull"
-          />
-          <p className="text-xs text-muted-foreground">
-            Runs after a worktree is created. Environment variables: <code className="bg-muted px-1 rounded">$CACD_WORKTREE_PATH</code>, <code className="bg-muted px-1 rounded">$CACD_WORKTREE_BRANCH</code>, <code className="bg-muted px-1 rounded">$CACD_GIT_ROOT</code>
-          </p>
-        </div>
+        {HOOK_FIELDS.map(({ key, label, description, placeholder }) => (
+          <div key={key} className="space-y-2">
+            <Label htmlFor={`hook-${key}`} className="text-sm">
+              {label}
+            </Label>
+            <Input
+              id={`hook-${key}`}
+              value={localConfig.worktreeHooks[key]}
+              onChange={(e) =>
+                setLocalConfig({
+                  ...localConfig,
+                  worktreeHooks: { ...localConfig.worktreeHooks, [key]: e.target.value },
+                })
+              }
+              className="h-9 text-sm font-mono"
+              placeholder={placeholder}
+            />
+            <p className="text-xs text-muted-foreground">{description}</p>
+          </div>
+        ))}
       </div>
     </div>
   )
@@ -1,6 +1,7 @@
 export { SettingsGeneral } from './SettingsGeneral'
 export { SettingsAgents } from './SettingsAgents'
 export { SettingsStatusHooks } from './SettingsStatusHooks'
+export { SettingsNotifications } from './SettingsNotifications'
 export { SettingsWorktreeHooks } from './SettingsWorktreeHooks'
 export { SettingsTd } from './SettingsTd'
 export { SettingsProject } from './SettingsProject'
@@ -1,4 +1,32 @@
-import type { AppConfig } from './types'
+import type { AppConfig, WorktreeHooks } from './types'
+
+type BackendWorktreeHookEvent =
+  | 'pre_creation'
+  | 'post_creation'
+  | 'pre_delete'
+  | 'post_delete'
+  | 'pre_merge'
+  | 'post_merge'
+  | 'session_start'
+  | 'session_end'
+
+interface BackendWorktreeHook {
+  command: string
+  enabled: boolean
+  blocking?: boolean
+  timeout?: number
+}
+
+const WORKTREE_HOOK_EVENTS: Record<keyof WorktreeHooks, BackendWorktreeHookEvent> = {
+  preCreation: 'pre_creation',
+  postCreation: 'post_creation',
+  preDelete: 'pre_delete',
+  postDelete: 'post_delete',
+  preMerge: 'pre_merge',
+  postMerge: 'post_merge',
+  sessionStart: 'session_start',
+  sessionEnd: 'session_end',
+}
 
 /**
  * Backend ConfigurationData structure (from src/types/index.ts)
@@ -15,9 +43,7 @@ export interface BackendConfig {
     waiting_input?: { command: string; enabled: boolean }
     pending_auto_approval?: { command: string; enabled: boolean }
   }
-  worktreeHooks?: {
-    post_creation?: { command: string; enabled: boolean }
-  }
+  worktreeHooks?: Partial<Record<BackendWorktreeHookEvent, BackendWorktreeHook>>
   worktree?: {
     autoDirectory: boolean
     autoDirectoryPattern?: string
@@ -28,6 +54,19 @@ export interface BackendConfig {
     enabled: boolean
     customCommand?: string
     timeout?: number
+    rules?: Array<Record<string, unknown>>
+    llmVerification?: boolean
+  }
+  notifications?: {
+    enabled: boolean
+    states?: string[]
+    browser?: { enabled: boolean }
+    webhook?: { url: string; enabled: boolean }
+    command?: { command: string; enabled: boolean }
+    quietHours?: { enabled: boolean; start: string; end: string }
+  }
+  sessionHost?: {
+    mode: 'pty' | 'tmux'
   }
   quickStart?: {
     work?: {
@@ -62,8 +101,26 @@ const DEFAULT_CONFIG: AppConfig = {
     onPendingAutoApproval: '',
   },
   worktreeHooks: {
+    preCreation: '',
     postCreation: '',
+    preDelete: '',
+    postDelete: '',
+    preMerge: '',
+    postMerge: '',
+    sessionStart: '',
+    sessionEnd: '',
   },
+  notifications: {
+    enabled: false,
+    states: ['waiting_input'],
+    browser: true,
+    webhookUrl: '',
+    command: '',
+    quietHoursEnabled: false,
+    quietHoursStart: '22:00',
+    quietHoursEnd: '07:00',
+  },
+  persistentSessions: false,
   quickStart: {},
 }
 
@@ -95,10 +152,28 @@ export function mapBackendToFrontend(backend: BackendConfig): AppConfig {
     },
 
     // Worktree hooks
-    worktreeHooks: {
-      postCreation: backend.worktreeHooks?.post_creation?.enabled ? backend.worktreeHooks.post_creation.command : '',
+    worktreeHooks: Object.fromEntries(
+      Object.entries(WORKTREE_HOOK_EVENTS).map(([key, event]) => {
+        const hook = backend.worktreeHooks?.[event]
+        return [key, hook?.enabled ? hook.command : '']
+      })
+    ) as WorktreeHooks,
+
+    // Notifications
+    notifications: {
+      enabled: backend.notifications?.enabled ?? DEFAULT_CONFIG.notifications.enabled,
+      states: (backend.notifications?.states ?? DEFAULT_CONFIG.notifications.states) as AppConfig['notifications']['states'],
+      browser: backend.notifications?.browser?.enabled ?? DEFAULT_CONFIG.notifications.browser,
+      webhookUrl: backend.notifications?.webhook?.enabled ? backend.notifications.webhook.url : '',
+      command: backend.notifications?.command?.enabled ? backend.notifications.command.command : '',
+      quietHoursEnabled: backend.notifications?.quietHours?.enabled ?? DEFAULT_CONFIG.notifications.quietHoursEnabled,
+      quietHoursStart: backend.notifications?.quietHours?.start ?? DEFAULT_CONFIG.notifications.quietHoursStart,
+      quietHoursEnd: backend.notifications?.quietHours?.end ?? DEFAULT_CONFIG.notifications.quietHoursEnd,
     },
 
+    // Session host
+    persistentSessions: backend.sessionHost ? backend.sessionHost.mode === 'tmux' : DEFAULT_CONFIG.persistentSessions,
+
     quickStart: (backend.quickStart && typeof backend.quickStart === 'object'
       ? backend.quickStart
       : DEFAULT_CONFIG.quickStart) as AppConfig['quickStart'],
@@ -115,8 +190,9 @@ export function mapBackendToFrontend(backend: BackendConfig): AppConfig {
  */
 export function mapFrontendToBackend(frontend: AppConfig): Partial<BackendConfig> {
   return {
-    // Auto approval
+    // Auto approval (keep policy rules and custom command, which are edited in the config file)
     autoApproval: {
+      ...(frontend.raw?.autoApproval as BackendConfig['autoApproval']),
       enabled: frontend.autoApprovalEnabled,
       timeout: frontend.autoApprovalTimeout,
     },
@@ -137,9 +213,31 @@ export function mapFrontendToBackend(frontend: AppConfig): Partial<BackendConfig
       pending_auto_approval: { command: frontend.statusHooks.onPendingAutoApproval, enabled: !!frontend.statusHooks.onPendingAutoApproval },
     },
 
-    // Worktree hooks
-    worktreeHooks: {
-      post_creation: { command: frontend.worktreeHooks.postCreation, enabled: !!frontend.worktreeHooks.postCreation },
+    // Worktree hooks (keep blocking/timeout, which are edited in the config file)
+    worktreeHooks: Object.fromEntries(
+      Object.entries(WORKTREE_HOOK_EVENTS).map(([key, event]) => {
+        const command = frontend.worktreeHooks[key as keyof WorktreeHooks]
+        const existing = (frontend.raw?.worktreeHooks as BackendConfig['worktreeHooks'])?.[event]
+        return [event, { ...existing, command, enabled: !!command }]
+      })
+    ),
+
+    // Notifications - sinks are enabled when they have a target
+    notifications: {
+      enabled: frontend.notifications.enabled,
+      states: frontend.notifications.states,
+      browser: { enabled: frontend.notifications.browser },
+      webhook: { url: frontend.notifications.webhookUrl, enabled: !!frontend.notifications.webhookUrl },
+      command: { command: frontend.notifications.command, enabled: !!frontend.notifications.command },
+      quietHours: {
+        enabled: frontend.notifications.quietHoursEnabled,
+        start: frontend.notifications.quietHoursStart,
+        end: frontend.notifications.quietHoursEnd,
+      },
+    },
+
+    sessionHost: {
+      mode: frontend.persistentSessions ? 'tmux' : 'pty',
     },
 
     quickStart: frontend.quickStart,
@@ -1,7 +1,8 @@
 import { createContext, useContext, useState, useCallback, useEffect, useMemo, ReactNode } from 'react'
 import { io, Socket } from 'socket.io-client'
-import type { Session, Worktree, Project, ThemeType, FontType, ConnectionStatus, AppConfig, ChangedFile, AgentConfig, AgentsConfig, TdStatus, TdIssue, ProjectConfig, TdPromptTemplate } from './types'
+import type { Session, Worktree, Project, ThemeType, FontType, ConnectionStatus, AppConfig, ChangedFile, AgentConfig, AgentsConfig, TdStatus, TdIssue, TdIssueChange, TdIssueInput, TdGraph, ProjectConfig, TdPromptTemplate, WorktreeCleanupResult, WorktreeStatusUpdate } from './types'
 import { mapBackendToFrontend, mapFrontendToBackend, getDefaultConfig } from './configMapper'
+import { applyTdBoardChange, applyTdIssueChange } from './tdIssueChanges'
 
 // Debounce utility
 function debounce<T extends (...args: Parameters<T>) => void>(
@@ -65,7 +66,7 @@ interface AppState {
 
   // Settings Screen State
   settingsOpen: boolean
-  settingsSection: 'general' | 'agents' | 'status-hooks' | 'worktree-hooks' | 'td' | 'project'
+  settingsSection: 'general' | 'agents' | 'status-hooks' | 'notifications' | 'worktree-hooks' | 'td' | 'project'
 
   // File Diff Viewing State
   viewingFileDiff: { sessionId: string; file: ChangedFile; worktreePath: string } | null
@@ -96,10 +97,18 @@ interface AppState {
   tdStatusLoading: boolean
   tdIssues: TdIssue[]
   tdBoardView: Record<string, TdIssue[]>
+  /** Latest td change pushed for the current project, for views that fetch their own task data */
+  lastTdIssueChange: TdIssueChange | null
   taskBoardOpen: boolean
   conversationViewOpen: boolean
   conversationInitialSessionId: string | null
   conversationTaskFilterId: string | null
+  usageDashboardOpen: boolean
+  queueViewOpen: boolean
+  workflowViewOpen: boolean
+  comparisonViewOpen: boolean
+  autoApprovalLogOpen: boolean
+  worktreeCleanupOpen: boolean
   tdReviewNotifications: Array<{id: string; title: string; priority: string}>
   projectConfig: ProjectConfig | null
   projectConfigPath: string | null
@@ -157,6 +166,7 @@ interface AppActions {
   renameSession: (sessionId: string, name: string) => Promise<boolean>
   stopSession: (sessionId: string) => Promise<void>
   restartSession: (sessionId: string) => Promise<void>
+  handoffSession: (sessionId: string, agentId: string, stopSource: boolean) => Promise<void>
 
   // Project management
   addProject: (path: string, name?: string) => Promise<boolean>
@@ -166,6 +176,7 @@ interface AppActions {
   // Worktree management
   createWorktree: (path: string, branch: string, baseBranch: string, copySessionData: boolean, copyClaudeDirectory: boolean, projectPath?: string) => Promise<boolean>
   deleteWorktree: (path: string, deleteBranch: boolean, projectPath?: string) => Promise<boolean>
+  cleanupWorktrees: (worktrees: Array<{ path: string; projectPath: string; deleteBranch: boolean }>) => Promise<WorktreeCleanupResult[] | null>
 
   // Inline View actions
   openAddProject: () => void
@@ -174,9 +185,9 @@ interface AppActions {
   closeAddWorktree: () => void
   openAddSession: (worktreePath?: string, projectPath?: string, tdTaskId?: string, context?: AddSessionContext) => void
   closeAddSession: () => void
-  openSettings: (section?: 'general' | 'agents' | 'status-hooks' | 'worktree-hooks' | 'td' | 'project') => void
+  openSettings: (section?: 'general' | 'agents' | 'status-hooks' | 'notifications' | 'worktree-hooks' | 'td' | 'project') => void
   closeSettings: () => void
-  navigateSettings: (section: 'general' | 'agents' | 'status-hooks' | 'worktree-hooks' | 'td' | 'project') => void
+  navigateSettings: (section: 'general' | 'agents' | 'status-hooks' | 'notifications' | 'worktree-hooks' | 'td' | 'project') => void
 
   // Config
   updateConfig: (config: AppConfig) => Promise<boolean>
@@ -200,10 +211,27 @@ interface AppActions {
   deleteTdPrompt: (name: string, scope?: 'project' | 'global') => Promise<boolean>
   fetchTdIssues: (options?: { status?: string; type?: string; parentId?: string }) => Promise<void>
   fetchTdBoard: () => Promise<void>
+  createTdIssue: (input: TdIssueInput & { title: string; status?: string }) => Promise<string | null>
+  updateTdIssue: (id: string, input: TdIssueInput) => Promise<boolean>
+  moveTdIssue: (id: string, status: string) => Promise<boolean>
+  fetchTdGraph: () => Promise<TdGraph | null>
+  startNextTdTask: (taskId?: string) => Promise<boolean>
   openTaskBoard: () => void
   closeTaskBoard: () => void
   openConversationView: (context?: { sessionId?: string; taskId?: string }) => void
   closeConversationView: () => void
+  openUsageDashboard: () => void
+  closeUsageDashboard: () => void
+  openQueueView: () => void
+  closeQueueView: () => void
+  openWorkflowView: () => void
+  closeWorkflowView: () => void
+  openComparisonView: () => void
+  closeComparisonView: () => void
+  openAutoApprovalLog: () => void
+  closeAutoApprovalLog: () => void
+  openWorktreeCleanup: () => void
+  closeWorktreeCleanup: () => void
   dismissTdReviewNotification: (issueId: string) => void
   dismissAllTdReviewNotifications: () => void
 
@@ -290,9 +318,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
   // Settings screen state - load section from localStorage
   const [settingsOpen, setSettingsOpen] = useState(false)
-  const [settingsSection, setSettingsSection] = useState<'general' | 'agents' | 'status-hooks' | 'worktree-hooks' | 'td' | 'project'>(() => {
+  const [settingsSection, setSettingsSection] = useState<'general' | 'agents' | 'status-hooks' | 'notifications' | 'worktree-hooks' | 'td' | 'project'>(() => {
     const saved = localStorage.getItem('cacd_settings_section')
-    if (saved === 'general' || saved === 'agents' || saved === 'status-hooks' || saved === 'worktree-hooks' || saved === 'td' || saved === 'project') {
+    if (saved === 'general' || saved === 'agents' || saved === 'status-hooks' || saved === 'notifications' || saved === 'worktree-hooks' || saved === 'td' || saved === 'project') {
       return saved
     }
     return 'general'
@@ -327,11 +355,18 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const [tdStatusLoading, setTdStatusLoading] = useState(true)
   const [tdIssues, setTdIssues] = useState<TdIssue[]>([])
   const [tdBoardView, setTdBoardView] = useState<Record<string, TdIssue[]>>({})
+  const [lastTdIssueChange, setLastTdIssueChange] = useState<TdIssueChange | null>(null)
   const [taskBoardOpen, setTaskBoardOpen] = useState(false)
   const [taskBoardReturnSessionId, setTaskBoardReturnSessionId] = useState<string | null>(null)
   const [conversationViewOpen, setConversationViewOpen] = useState(false)
   const [conversationInitialSessionId, setConversationInitialSessionId] = useState<string | null>(null)
   const [conversationTaskFilterId, setConversationTaskFilterId] = useState<string | null>(null)
+  const [usageDashboardOpen, setUsageDashboardOpen] = useState(false)
+  const [queueViewOpen, setQueueViewOpen] = useState(false)
+  const [workflowViewOpen, setWorkflowViewOpen] = useState(false)
+  const [comparisonViewOpen, setComparisonViewOpen] = useState(false)
+  const [autoApprovalLogOpen, setAutoApprovalLogOpen] = useState(false)
+  const [worktreeCleanupOpen, setWorktreeCleanupOpen] = useState(false)
   const [tdReviewNotifications, setTdReviewNotifications] = useState<Array<{id: string; title: string; priority: string}>>([])
   const [projectConfig, setProjectConfig] = useState<ProjectConfig | null>(null)
   const [projectConfigPath, setProjectConfigPath] = useState<string | null>(null)
@@ -645,12 +680,130 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   }, [])
 
+  const addTdReviewNotifications = useCallback((issues: Array<{id: string; title: string; priority: string}>) => {
+    setTdReviewNotifications(prev => {
+      const existingIds = new Set(prev.map(n => n.id))
+      const newOnes = issues.filter(i => !existingIds.has(i.id))
+      return newOnes.length > 0 ? [...prev, ...newOnes] : prev
+    })
+  }, [])
+
+  // Tasks already in review when we connect; later ones arrive as td_review_ready
+  const fetchTdReviewNotifications = useCallback(async () => {
+    try {
+      const res = await fetch('/api/td/in-review', { credentials: 'include' })
+      if (res.ok) {
+        const data = await res.json()
+        addTdReviewNotifications(
+          data.issues.map((i: TdIssue) => ({ id: i.id, title: i.title, priority: i.priority }))
+        )
+      }
+    } catch (err) {
+      console.error('Failed to fetch td reviews:', err)
+    }
+  }, [addTdReviewNotifications])
+
+  // Returns the new task id, or null when td refused the create
+  const createTdIssue = useCallback(async (input: TdIssueInput & { title: string; status?: string }): Promise<string | null> => {
+    try {
+      const res = await fetch('/api/td/issues', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.error || 'Failed to create task')
+        return null
+      }
+      await Promise.all([fetchTdBoard(), fetchTdIssues()])
+      return data.id || ''
+    } catch (err) {
+      console.error('Failed to create td issue:', err)
+      setError('Failed to create task. Check your connection.')
+      return null
+    }
+  }, [fetchTdBoard, fetchTdIssues])
+
+  const updateTdIssue = useCallback(async (id: string, input: TdIssueInput): Promise<boolean> => {
+    try {
+      const res = await fetch(`/api/td/issues/${encodeURIComponent(id)}`, {
+        method: 'PUT',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        setError(data.error || 'Failed to update task')
+        return false
+      }
+      await Promise.all([fetchTdBoard(), fetchTdIssues()])
+      return true
+    } catch (err) {
+      console.error('Failed to update td issue:', err)
+      setError('Failed to update task. Check your connection.')
+      return false
+    }
+  }, [fetchTdBoard, fetchTdIssues])
+
+  const moveTdIssue = useCallback(async (id: string, status: string): Promise<boolean> => {
+    // Move the card right away; the refetch below corrects it if td refused
+    setTdBoardView(prev => {
+      const issue = Object.values(prev).flat().find(i => i.id === id)
+      if (!issue || issue.status === status) return prev
+      const next: Record<string, TdIssue[]> = {}
+      for (const [key, issues] of Object.entries(prev)) {
+        next[key] = issues.filter(i => i.id !== id)
+      }
+      next[status] = [{ ...issue, status }, ...(next[status] || [])]
+      return next
+    })
+    try {
+      const res = await fetch(`/api/td/issues/${encodeURIComponent(id)}/status`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        setError(data.error || 'Failed to move task')
+      }
+      return res.ok
+    } catch (err) {
+      console.error('Failed to move td issue:', err)
+      setError('Failed to move task. Check your connection.')
+      return false
+    } finally {
+      await Promise.all([fetchTdBoard(), fetchTdIssues()])
+    }
+  }, [fetchTdBoard, fetchTdIssues])
+
+  const fetchTdGraph = useCallback(async (): Promise<TdGraph | null> => {
+    try {
+      const res = await fetch('/api/td/graph', { credentials: 'include' })
+      if (!res.ok) return null
+      return await res.json()
+    } catch (err) {
+      console.error('Failed to fetch td graph:', err)
+      return null
+    }
+  }, [])
+
   const openTaskBoard = useCallback(() => {
     // Remember the active session so closing the board can return to it.
     setTaskBoardReturnSessionId(focusedSessionId || selectedSessions[0] || null)
     setConversationViewOpen(false)
     setConversationInitialSessionId(null)
     setConversationTaskFilterId(null)
+    setUsageDashboardOpen(false)
+    setQueueViewOpen(false)
+    setWorkflowViewOpen(false)
+    setComparisonViewOpen(false)
+    setAutoApprovalLogOpen(false)
+    setWorktreeCleanupOpen(false)
     // Clear session selection to indicate task board view
     setSelectedSessions([])
     setFocusedSessionId(null)
@@ -678,6 +831,12 @@ export function AppProvider({ children }: { children: ReactNode }) {
     setTaskBoardReturnSessionId(null)
     setConversationInitialSessionId(context?.sessionId || null)
     setConversationTaskFilterId(context?.taskId || null)
+    setUsageDashboardOpen(false)
+    setQueueViewOpen(false)
+    setWorkflowViewOpen(false)
+    setComparisonViewOpen(false)
+    setAutoApprovalLogOpen(false)
+    setWorktreeCleanupOpen(false)
     setConversationViewOpen(true)
   }, [])
   const closeConversationView = useCallback(() => {
@@ -685,6 +844,102 @@ export function AppProvider({ children }: { children: ReactNode }) {
     setConversationInitialSessionId(null)
     setConversationTaskFilterId(null)
   }, [])
+  const openUsageDashboard = useCallback(() => {
+    setTaskBoardOpen(false)
+    setTaskBoardReturnSessionId(null)
+    setConversationViewOpen(false)
+    setConversationInitialSessionId(null)
+    setConversationTaskFilterId(null)
+    setQueueViewOpen(false)
+    setWorkflowViewOpen(false)
+    setComparisonViewOpen(false)
+    setAutoApprovalLogOpen(false)
+    setWorktreeCleanupOpen(false)
+    setUsageDashboardOpen(true)
+  }, [])
+  const closeUsageDashboard = useCallback(() => {
+    setUsageDashboardOpen(false)
+  }, [])
+  const openQueueView = useCallback(() => {
+    setTaskBoardOpen(false)
+    setTaskBoardReturnSessionId(null)
+    setConversationViewOpen(false)
+    setConversationInitialSessionId(null)
+    setConversationTaskFilterId(null)
+    setUsageDashboardOpen(false)
+    setAutoApprovalLogOpen(false)
+    setWorkflowViewOpen(false)
+    setComparisonViewOpen(false)
+    setWorktreeCleanupOpen(false)
+    setQueueViewOpen(true)
+  }, [])
+  const closeQueueView = useCallback(() => {
+    setQueueViewOpen(false)
+  }, [])
+  const openWorkflowView = useCallback(() => {
+    setTaskBoardOpen(false)
+    setTaskBoardReturnSessionId(null)
+    setConversationViewOpen(false)
+    setConversationInitialSessionId(null)
+    setConversationTaskFilterId(null)
+    setUsageDashboardOpen(false)
+    setQueueViewOpen(false)
+    setAutoApprovalLogOpen(false)
+    setWorktreeCleanupOpen(false)
+    setComparisonViewOpen(false)
+    setWorkflowViewOpen(true)
+  }, [])
+  const closeWorkflowView = useCallback(() => {
+    setWorkflowViewOpen(false)
+  }, [])
+  const openComparisonView = useCallback(() => {
+    setTaskBoardOpen(false)
+    setTaskBoardReturnSessionId(null)
+    setConversationViewOpen(false)
+    setConversationInitialSessionId(null)
+    setConversationTaskFilterId(null)
+    setUsageDashboardOpen(false)
+    setQueueViewOpen(false)
+    setWorkflowViewOpen(false)
+    setAutoApprovalLogOpen(false)
+    setWorktreeCleanupOpen(false)
+    setComparisonViewOpen(true)
+  }, [])
+  const closeComparisonView = useCallback(() => {
+    setComparisonViewOpen(false)
+  }, [])
+  const openAutoApprovalLog = useCallback(() => {
+    setTaskBoardOpen(false)
+    setTaskBoardReturnSessionId(null)
+    setConversationViewOpen(false)
+    setConversationInitialSessionId(null)
+    setConversationTaskFilterId(null)
+    setUsageDashboardOpen(false)
+    setQueueViewOpen(false)
+    setWorkflowViewOpen(false)
+    setComparisonViewOpen(false)
+    setWorktreeCleanupOpen(false)
+    setAutoApprovalLogOpen(true)
+  }, [])
+  const closeAutoApprovalLog = useCallback(() => {
+    setAutoApprovalLogOpen(false)
+  }, [])
+  const openWorktreeCleanup = useCallback(() => {
+    setTaskBoardOpen(false)
+    setTaskBoardReturnSessionId(null)
+    setConversationViewOpen(false)
+    setConversationInitialSessionId(null)
+    setConversationTaskFilterId(null)
+    setUsageDashboardOpen(false)
+    setQueueViewOpen(false)
+    setWorkflowViewOpen(false)
+    setComparisonViewOpen(false)
+    setAutoApprovalLogOpen(false)
+    setWorktreeCleanupOpen(true)
+  }, [])
+  const closeWorktreeCleanup = useCallback(() => {
+    setWorktreeCleanupOpen(false)
+  }, [])
   const dismissTdReviewNotification = useCallback((issueId: string) => {
     setTdReviewNotifications(prev => prev.filter(n => n.id !== issueId))
   }, [])
@@ -778,11 +1033,30 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   }
 
+  // Live td updates for the current project (agents running td in their terminals)
+  useEffect(() => {
+    const projectPath = currentProject?.path
+    const handleTdIssueChanged = (change: TdIssueChange) => {
+      if (change.projectPath !== projectPath) return
+      setLastTdIssueChange(change)
+      setTdIssues(prev => applyTdIssueChange(prev, change))
+      setTdBoardView(prev => applyTdBoardChange(prev, change))
+      if (change.previousStatus === 'in_review' && change.issue?.status !== 'in_review') {
+        setTdReviewNotifications(prev => prev.filter(n => n.id !== change.issueId))
+      }
+    }
+    socket.on('td_issue_changed', handleTdIssueChanged)
+    return () => {
+      socket.off('td_issue_changed', handleTdIssueChanged)
+    }
+  }, [currentProject?.path])
+
   // Socket.IO event handlers
   useEffect(() => {
     socket.on('connect', () => {
       setConnectionStatus('connected')
       fetchSessionData()
+      fetchTdReviewNotifications()
     })
     socket.on('disconnect', () => setConnectionStatus('disconnected'))
     socket.on('connect_error', () => setConnectionStatus('error'))
@@ -790,10 +1064,24 @@ export function AppProvider({ children }: { children: ReactNode }) {
     // Only fetches sessions/state (2 calls), not full data (5 calls)
     socket.on('session_update', debouncedFetchSessionData)
     socket.on('td_review_ready', (data: {issues: Array<{id: string; title: string; priority: string}>}) => {
-      setTdReviewNotifications(prev => {
-        const existingIds = new Set(prev.map(n => n.id))
-        const newOnes = data.issues.filter(i => !existingIds.has(i.id))
-        return newOnes.length > 0 ? [...prev, ...newOnes] : prev
+      addTdReviewNotifications(data.issues)
+    })
+
+    socket.on('worktree_status', (update: WorktreeStatusUpdate) => {
+      setWorktrees(prev =>
+        prev.map(wt =>
+          wt.path === update.worktreePath
+            ? { ...wt, gitStatus: update.gitStatus, gitStatusError: update.gitStatusError }
+            : wt
+        )
+      )
+    })
+
+    socket.on('notification', (data: {title: string; message: string; sessionId?: string}) => {
+      if (!('Notification' in window) || Notification.permission !== 'granted') return
+      new Notification(data.title, {
+        body: data.message,
+        tag: data.sessionId ? `cacd-session-${data.sessionId}` : undefined,
       })
     })
 
@@ -810,9 +1098,11 @@ export function AppProvider({ children }: { children: ReactNode }) {
       socket.off('connect_error')
       socket.off('session_update')
       socket.off('td_review_ready')
+      socket.off('worktree_status')
+      socket.off('notification')
       debouncedFetchSessionData.cancel()
     }
-  }, [fetchData, fetchAgents, fetchSessionData, debouncedFetchSessionData])
+  }, [fetchData, fetchAgents, fetchSessionData, debouncedFetchSessionData, fetchTdReviewNotifications, addTdReviewNotifications])
 
   // Keep project-specific td/config state in sync with selected project
   // Always fetch td status (availability is system-wide), only clear project-specific state
@@ -892,6 +1182,12 @@ export function AppProvider({ children }: { children: ReactNode }) {
     setConversationViewOpen(false)
     setConversationInitialSessionId(null)
     setConversationTaskFilterId(null)
+    setUsageDashboardOpen(false)
+    setQueueViewOpen(false)
+    setWorkflowViewOpen(false)
+    setComparisonViewOpen(false)
+    setAutoApprovalLogOpen(false)
+    setWorktreeCleanupOpen(false)
     setSelectedSessions([sessionId])
     setFocusedSessionId(sessionId)
     // Restore per-session sidebar preference
@@ -1153,6 +1449,55 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   }
 
+  const handoffSession = async (sessionId: string, agentId: string, stopSource: boolean) => {
+    try {
+      const res = await fetch('/api/session/handoff', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: sessionId, agentId, stopSource })
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.error || 'Failed to hand off session')
+        return
+      }
+      await fetchData()
+      if (typeof data.id === 'string') {
+        selectSession(data.id)
+      }
+    } catch (e) {
+      console.error(e)
+      setError('Failed to hand off session. Check your connection.')
+    }
+  }
+
+  // Quick-start work on the given task, or the next one whose dependencies are closed
+  const startNextTdTask = async (taskId?: string): Promise<boolean> => {
+    try {
+      const res = await fetch('/api/td/ready/start', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ taskId }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.error || 'Failed to start task')
+        return false
+      }
+      await fetchData()
+      if (typeof data.sessionId === 'string') {
+        selectSession(data.sessionId)
+      }
+      return true
+    } catch (e) {
+      console.error(e)
+      setError('Failed to start task. Check your connection.')
+      return false
+    }
+  }
+
   const clearError = () => setError(null)
 
   // Inline View actions
@@ -1182,7 +1527,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
     setAddSessionIntent(null)
     setAddSessionSessionName(null)
   }
-  const openSettings = (section?: 'general' | 'agents' | 'status-hooks' | 'worktree-hooks' | 'td' | 'project') => {
+  const openSettings = (section?: 'general' | 'agents' | 'status-hooks' | 'notifications' | 'worktree-hooks' | 'td' | 'project') => {
     const targetSection = section || (settingsSection === 'project' ? 'general' : settingsSection)
     if (settingsSection !== targetSection) {
       setSettingsSection(targetSection)
@@ -1191,7 +1536,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
     setSettingsOpen(true)
   }
   const closeSettings = () => setSettingsOpen(false)
-  const navigateSettings = (section: 'general' | 'agents' | 'status-hooks' | 'worktree-hooks' | 'td' | 'project') => {
+  const navigateSettings = (section: 'general' | 'agents' | 'status-hooks' | 'notifications' | 'worktree-hooks' | 'td' | 'project') => {
     setSettingsSection(section)
     localStorage.setItem('cacd_settings_section', section)
   }
@@ -1328,6 +1673,10 @@ export function AppProvider({ children }: { children: ReactNode }) {
         return false
       }
       if (data.success) {
+        // Hook failures and hook stderr output
+        if (data.warnings?.length) {
+          setError(`Worktree created with warnings: ${data.warnings.join('; ')}`)
+        }
         await fetchData()
         return true
       }
@@ -1353,6 +1702,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
         return false
       }
       if (data.success) {
+        if (data.warnings?.length) {
+          setError(`Worktree deleted with warnings: ${data.warnings.join('; ')}`)
+        }
         await fetchData()
         return true
       }
@@ -1364,6 +1716,30 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   }
 
+  const cleanupWorktrees = async (
+    worktrees: Array<{ path: string; projectPath: string; deleteBranch: boolean }>
+  ): Promise<WorktreeCleanupResult[] | null> => {
+    try {
+      const res = await fetch('/api/worktrees/cleanup', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ worktrees })
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'Failed to clean up worktrees')
+        return null
+      }
+      await fetchData()
+      return data.results
+    } catch (e) {
+      console.error(e)
+      setError('Failed to clean up worktrees. Check your connection.')
+      return null
+    }
+  }
+
   const store: AppStore = {
     // State
     projects,
@@ -1440,11 +1816,13 @@ export function AppProvider({ children }: { children: ReactNode }) {
     renameSession,
     stopSession,
     restartSession,
+    handoffSession,
     addProject,
     updateProject,
     removeProject,
     createWorktree,
     deleteWorktree,
+    cleanupWorktrees,
     clearError,
     saveAgent,
     deleteAgent: deleteAgentAction,
@@ -1454,10 +1832,17 @@ export function AppProvider({ children }: { children: ReactNode }) {
     tdStatusLoading,
     tdIssues,
     tdBoardView,
+    lastTdIssueChange,
     taskBoardOpen,
     conversationViewOpen,
     conversationInitialSessionId,
     conversationTaskFilterId,
+    usageDashboardOpen,
+    queueViewOpen,
+    workflowViewOpen,
+    comparisonViewOpen,
+    autoApprovalLogOpen,
+    worktreeCleanupOpen,
     projectConfig,
     projectConfigPath,
     fetchTdStatus,
@@ -1469,10 +1854,27 @@ export function AppProvider({ children }: { children: ReactNode }) {
     deleteTdPrompt,
     fetchTdIssues,
     fetchTdBoard,
+    createTdIssue,
+    updateTdIssue,
+    moveTdIssue,
+    fetchTdGraph,
+    startNextTdTask,
     openTaskBoard,
     closeTaskBoard,
     openConversationView,
     closeConversationView,
+    openUsageDashboard,
+    closeUsageDashboard,
+    openQueueView,
+    closeQueueView,
+    openWorkflowView,
+    closeWorkflowView,
+    openComparisonView,
+    closeComparisonView,
+    openAutoApprovalLog,
+    closeAutoApprovalLog,
+    openWorktreeCleanup,
+    closeWorktreeCleanup,
     tdReviewNotifications,
     dismissTdReviewNotification,
     dismissAllTdReviewNotifications,
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import type { TdIssue, TdIssueDependency } from './types'
+import { GRAPH_NODE_WIDTH, layoutTaskGraph } from './taskGraphLayout'
+
+function issue(id: string, extra: Partial<TdIssue> = {}): TdIssue {
+  return { id, title: id, status: 'open', type: 'task', parent_id: '', ...extra } as TdIssue
+}
+
+function dependsOn(issueId: string, dependsOnId: string): TdIssueDependency {
+  return { id: `${issueId}-${dependsOnId}`, issue_id: issueId, depends_on_id: dependsOnId, relation_type: 'depends_on' }
+}
+
+describe('layoutTaskGraph', () => {
+  it('puts each epic in its own lane and tasks right of what they wait for', () => {
+    const layout = layoutTaskGraph(
+      [
+        issue('td-epic', { type: 'epic', title: 'Auth' }),
+        issue('td-a', { parent_id: 'td-epic' }),
+        issue('td-b', { parent_id: 'td-epic' }),
+        issue('td-sub', { parent_id: 'td-b' }),
+        issue('td-loose'),
+      ],
+      [dependsOn('td-b', 'td-a'), dependsOn('td-sub', 'td-b'), dependsOn('td-loose', 'td-gone')],
+    )
+
+    expect(layout.lanes.map(lane => lane.title)).toEqual(['Auth', 'No epic'])
+    const x = (id: string) => layout.nodes.find(node => node.issue.id === id)!.x
+    const column = (id: string) => Math.round((x(id) - x('td-epic')) / (GRAPH_NODE_WIDTH + 56))
+    expect(['td-epic', 'td-a', 'td-b', 'td-sub', 'td-loose'].map(column)).toEqual([0, 1, 2, 3, 1])
+
+    const laneOf = (id: string) => {
+      const y = layout.nodes.find(node => node.issue.id === id)!.y
+      return layout.lanes.find(lane => y >= lane.y && y < lane.y + lane.height)?.epicId
+    }
+    expect(laneOf('td-sub')).toBe('td-epic')
+    expect(laneOf('td-loose')).toBeNull()
+
+    expect(layout.edges.map(edge => `${edge.kind}:${edge.from}>${edge.to}`).sort()).toEqual([
+      'dependency:td-a>td-b',
+      'dependency:td-b>td-sub',
+      'epic:td-b>td-sub',
+      'epic:td-epic>td-a',
+      'epic:td-epic>td-b',
+    ])
+  })
+
+  it('survives dependency cycles', () => {
+    const layout = layoutTaskGraph([issue('td-a'), issue('td-b')], [dependsOn('td-a', 'td-b'), dependsOn('td-b', 'td-a')])
+    expect(layout.nodes).toHaveLength(2)
+    expect(layout.edges).toHaveLength(2)
+  })
+})
@@ -0,0 +1,152 @@
+import type { TdIssue, TdIssueDependency } from './types'
+
+export const GRAPH_NODE_WIDTH = 180
+export const GRAPH_NODE_HEIGHT = 52
+const COLUMN_GAP = 56
+const ROW_GAP = 12
+const LANE_HEADER = 24
+const LANE_GAP = 16
+const PADDING = 16
+
+export interface GraphNode {
+  issue: TdIssue
+  x: number
+  y: number
+}
+
+export interface GraphEdge {
+  from: string
+  to: string
+  /** Dependencies are drawn solid, epic membership dashed */
+  kind: 'dependency' | 'epic'
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+}
+
+export interface GraphLane {
+  /** Epic id, or null for tasks outside any epic */
+  epicId: string | null
+  title: string
+  y: number
+  height: number
+}
+
+export interface TaskGraphLayout {
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+  lanes: GraphLane[]
+  width: number
+  height: number
+}
+
+/**
+ * Lay tasks out in one horizontal lane per epic (plus one for tasks without
+ * an epic). Within a lane a task's column is the length of its longest
+ * dependency chain, so everything a task waits for sits to its left; the
+ * epic itself leads its lane.
+ */
+export function layoutTaskGraph(issues: TdIssue[], dependencies: TdIssueDependency[]): TaskGraphLayout {
+  const byId = new Map(issues.map(issue => [issue.id, issue]))
+  const edges = dependencies.filter(d => byId.has(d.issue_id) && byId.has(d.depends_on_id) && d.issue_id !== d.depends_on_id)
+
+  const dependsOn = new Map<string, string[]>()
+  for (const edge of edges) {
+    dependsOn.set(edge.issue_id, [...(dependsOn.get(edge.issue_id) || []), edge.depends_on_id])
+  }
+
+  // Longest dependency chain; a cycle is cut where it is found
+  const depths = new Map<string, number>()
+  const visiting = new Set<string>()
+  const depthOf = (id: string): number => {
+    const known = depths.get(id)
+    if (known !== undefined) return known
+    if (visiting.has(id)) return 0
+    visiting.add(id)
+    const depth = Math.max(-1, ...(dependsOn.get(id) || []).map(depthOf)) + 1
+    visiting.delete(id)
+    depths.set(id, depth)
+    return depth
+  }
+
+  // Nearest epic up the parent chain
+  const epicOf = (issue: TdIssue): string | null => {
+    const seen = new Set<string>()
+    let parentId = issue.parent_id
+    while (parentId && !seen.has(parentId)) {
+      seen.add(parentId)
+      const parent = byId.get(parentId)
+      if (!parent) return null
+      if (parent.type === 'epic') return parent.id
+      parentId = parent.parent_id
+    }
+    return null
+  }
+
+  const epics = issues.filter(issue => issue.type === 'epic')
+  const laneKeys: Array<string | null> = [...epics.map(epic => epic.id), null]
+  const columnsByLane = new Map<string | null, Map<number, TdIssue[]>>(laneKeys.map(key => [key, new Map()]))
+  const place = (lane: string | null, column: number, issue: TdIssue) => {
+    const columns = columnsByLane.get(lane)!
+    columns.set(column, [...(columns.get(column) || []), issue])
+  }
+  for (const epic of epics) place(epic.id, 0, epic)
+  for (const issue of issues) {
+    if (issue.type === 'epic') continue
+    place(epicOf(issue), depthOf(issue.id) + 1, issue)
+  }
+
+  const nodes: GraphNode[] = []
+  const lanes: GraphLane[] = []
+  const positions = new Map<string, GraphNode>()
+  let y = PADDING
+  let maxColumn = 0
+  for (const key of laneKeys) {
+    const columns = columnsByLane.get(key)!
+    if (columns.size === 0) continue
+    const rows = Math.max(...[...columns.values()].map(column => column.length))
+    const height = LANE_HEADER + rows * (GRAPH_NODE_HEIGHT + ROW_GAP)
+    for (const [column, columnIssues] of columns) {
+      maxColumn = Math.max(maxColumn, column)
+      columnIssues.forEach((issue, row) => {
+        const node = {
+          issue,
+          x: PADDING + column * (GRAPH_NODE_WIDTH + COLUMN_GAP),
+          y: y + LANE_HEADER + row * (GRAPH_NODE_HEIGHT + ROW_GAP),
+        }
+        nodes.push(node)
+        positions.set(issue.id, node)
+      })
+    }
+    lanes.push({ epicId: key, title: key ? byId.get(key)!.title : 'No epic', y, height })
+    y += height + LANE_GAP
+  }
+
+  const connect = (from: GraphNode, to: GraphNode, kind: GraphEdge['kind']): GraphEdge => ({
+    from: from.issue.id,
+    to: to.issue.id,
+    kind,
+    x1: from.x + GRAPH_NODE_WIDTH,
+    y1: from.y + GRAPH_NODE_HEIGHT / 2,
+    x2: to.x,
+    y2: to.y + GRAPH_NODE_HEIGHT / 2,
+  })
+  const graphEdges: GraphEdge[] = []
+  for (const node of nodes) {
+    if (node.issue.type === 'epic' || !node.issue.parent_id) continue
+    const parent = positions.get(node.issue.parent_id)
+    if (parent) graphEdges.push(connect(parent, node, 'epic'))
+  }
+  for (const edge of edges) {
+    graphEdges.push(connect(positions.get(edge.depends_on_id)!, positions.get(edge.issue_id)!, 'dependency'))
+  }
+
+  return {
+    nodes,
+    edges: graphEdges,
+    lanes,
+    width: PADDING * 2 + (maxColumn + 1) * GRAPH_NODE_WIDTH + maxColumn * COLUMN_GAP,
+    height: Math.max(y - LANE_GAP + PADDING, PADDING * 2),
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import * as client from './tdBranchTemplate'
+import * as server from '../../../src/utils/tdBranchTemplate'
+
+// The server renders the same branch names when it starts tasks itself
+// (start next ready task), so both copies must agree
+const TASKS = [
+  { id: 'td-a1', title: 'Fix the logout redirect', type: 'bug' },
+  { id: 'td-b2', title: 'Add OAuth login', type: 'feature' },
+  { id: 'td-c3', title: '  Spaces   and ÜMLAUTS / slashes!  ', type: 'Spike Work' },
+  { id: 'td-d4', title: '', type: undefined },
+  { id: 'td-e5', title: 'chore: bump deps..', type: 'chore' },
+]
+
+const TEMPLATES = [
+  undefined,
+  '',
+  '{{task.type-prefix}}/{{task.id}}-{{task.title-slug}}',
+  '{{task.type_prefix}}/{{ task.title_slug }}!',
+  '{{task.title}}',
+  'feature/{{task.id}}--{{task.title-short-slug}}/',
+  '///',
+]
+
+describe('tdBranchTemplate', () => {
+  it('renders the same branch names as the server', () => {
+    expect(client.DEFAULT_TD_WORK_BRANCH_TEMPLATE).toBe(server.DEFAULT_TD_WORK_BRANCH_TEMPLATE)
+    for (const task of TASKS) {
+      for (const template of TEMPLATES) {
+        expect(client.renderTdBranchTemplate(template, task)).toBe(server.renderTdBranchTemplate(template, task))
+        if (template) {
+          expect(client.renderTdTemplate(template, task)).toBe(server.renderTdTemplate(template, task))
+        }
+      }
+    }
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import type { TdIssue, TdIssueChange } from './types'
+import { applyTdBoardChange, applyTdIssueChange } from './tdIssueChanges'
+
+function issue(id: string, status: string, extra: Partial<TdIssue> = {}): TdIssue {
+  return { id, title: id, status, defer_until: null, ...extra } as TdIssue
+}
+
+function change(issueId: string, next: TdIssue | null, previousStatus: string | null): TdIssueChange {
+  return {
+    projectPath: '/repo',
+    issueId,
+    change: next ? (previousStatus ? 'updated' : 'created') : 'deleted',
+    issue: next,
+    previousStatus,
+  }
+}
+
+describe('tdIssueChanges', () => {
+  it('moves a card to the column of its new status', () => {
+    const board = {
+      open: [issue('td-a', 'open'), issue('td-b', 'open')],
+      in_progress: [issue('td-c', 'in_progress')],
+    }
+    const next = applyTdBoardChange(board, change('td-a', issue('td-a', 'in_progress'), 'open'))
+    expect(next.open?.map(i => i.id)).toEqual(['td-b'])
+    expect(next.in_progress?.map(i => i.id)).toEqual(['td-a', 'td-c'])
+
+    const renamed = applyTdBoardChange(next, change('td-c', issue('td-c', 'in_progress', { title: 'C' }), 'in_progress'))
+    expect(renamed.in_progress?.map(i => i.title)).toEqual(['td-a', 'C'])
+  })
+
+  it('drops deleted and deferred issues from the board', () => {
+    const board = { open: [issue('td-a', 'open'), issue('td-b', 'open')] }
+    expect(applyTdBoardChange(board, change('td-a', null, 'open')).open?.map(i => i.id)).toEqual(['td-b'])
+
+    const deferred = issue('td-b', 'open', { defer_until: '2026-03-01 00:00:00' })
+    const nowMs = Date.parse('2026-02-01T00:00:00Z')
+    expect(applyTdBoardChange(board, change('td-b', deferred, 'open'), nowMs).open?.map(i => i.id)).toEqual(['td-a'])
+  })
+
+  it('adds, replaces and removes issues in a list', () => {
+    const issues = [issue('td-a', 'open')]
+    const added = applyTdIssueChange(issues, change('td-b', issue('td-b', 'open'), null))
+    expect(added.map(i => i.id)).toEqual(['td-b', 'td-a'])
+    expect(applyTdIssueChange(added, change('td-a', issue('td-a', 'closed'), 'open'))[1]?.status).toBe('closed')
+    expect(applyTdIssueChange(added, change('td-b', null, 'open')).map(i => i.id)).toEqual(['td-a'])
+  })
+})
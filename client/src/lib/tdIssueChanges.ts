@@ -0,0 +1,47 @@
+import type { TdIssue, TdIssueChange } from '@/lib/types'
+import { parseTdTimestamp } from './tdTimestamp'
+
+// The board hides deferred tasks, like the server's getBoard()
+function isDeferred(issue: TdIssue, nowMs: number): boolean {
+  const deferUntil = issue.defer_until ? parseTdTimestamp(issue.defer_until) : null
+  return deferUntil !== null && deferUntil.getTime() > nowMs
+}
+
+/** Apply a pushed td change to an issue list, keeping its order */
+export function applyTdIssueChange(issues: TdIssue[], change: TdIssueChange): TdIssue[] {
+  const index = issues.findIndex(issue => issue.id === change.issueId)
+  if (!change.issue) {
+    return index === -1 ? issues : issues.filter(issue => issue.id !== change.issueId)
+  }
+  if (index === -1) return [change.issue, ...issues]
+  const next = [...issues]
+  next[index] = change.issue
+  return next
+}
+
+/** Apply a pushed td change to the board, moving the card between columns */
+export function applyTdBoardChange(
+  board: Record<string, TdIssue[]>,
+  change: TdIssueChange,
+  nowMs: number = Date.now(),
+): Record<string, TdIssue[]> {
+  const next: Record<string, TdIssue[]> = {}
+  let position = -1
+  for (const [status, issues] of Object.entries(board)) {
+    const index = issues.findIndex(issue => issue.id === change.issueId)
+    if (index === -1) {
+      next[status] = issues
+      continue
+    }
+    if (change.issue?.status === status) position = index
+    next[status] = issues.filter(issue => issue.id !== change.issueId)
+  }
+
+  const issue = change.issue
+  if (!issue || isDeferred(issue, nowMs)) return next
+  const column = [...(next[issue.status] || [])]
+  // Updates stay in place; new and moved cards go to the top
+  column.splice(position === -1 ? 0 : position, 0, issue)
+  next[issue.status] = column
+  return next
+}
@@ -1,5 +1,5 @@
 // Session status represents the current state of a coding agent session
-export type SessionStatus = 'active' | 'idle' | 'error' | 'pending' | 'busy' | 'waiting_input'
+export type SessionStatus = 'active' | 'idle' | 'error' | 'pending' | 'busy' | 'waiting_input' | 'over_budget'
 
 // Agent types supported by the system
 export type AgentType = 'claude-code' | 'gemini-cli' | 'codex' | 'droid' | 'cursor' | 'custom'
@@ -18,6 +18,12 @@ export function mapSessionState(state: string): SessionStatus {
   }
 }
 
+// Display status of a session, taking an exceeded budget into account
+export function mapSessionStatus(session: Pick<Session, 'state' | 'budget'>): SessionStatus {
+  if (session.budget?.status === 'exceeded') return 'over_budget'
+  return mapSessionState(session.state)
+}
+
 // Theme types for terminal and UI color schemes
 export type ThemeType =
   | 'default'
@@ -42,6 +48,18 @@ export interface Session {
   state: string
   isActive: boolean
   agentId?: string
+  budget?: SessionBudget | null
+}
+
+// Budget state of a session that is close to or over one of its budgets
+export interface SessionBudget {
+  status: 'warning' | 'exceeded'
+  scope: 'session' | 'daily' | null
+  metric: 'minutes' | 'busyMinutes' | 'tokens' | 'costUsd' | null
+  limit: number | null
+  value: number | null
+  action: 'warn' | 'interrupt' | 'stop' | null
+  message: string
 }
 
 export interface ConversationSession {
@@ -67,6 +85,18 @@ export interface ConversationSession {
   missingSessionFile: boolean
 }
 
+export interface SessionReplayResponse {
+  id: string
+  isActive: boolean
+  header: { version: 2; width: number; height: number; timestamp: number }
+  /** [seconds since recording start, output chunk] */
+  events: [number, string][]
+  duration: number
+  truncated: boolean
+  /** Set while more of the recording is left; pass as ?cursor= for the next page */
+  nextCursor?: number
+}
+
 export interface ConversationListResponse {
   sessions: ConversationSession[]
   total: number
@@ -122,6 +152,291 @@ export interface ConversationMessagesResponse {
   error?: string
 }
 
+export interface MessageSearchHit {
+  sessionId: string
+  messageId: string
+  role: string
+  timestamp: number | null
+  snippet: string
+  sessionName: string | null
+  agentProfileName: string
+  agentType: string
+  branchName: string | null
+  worktreePath: string
+  projectPath: string | null
+  tdTaskId: string | null
+  createdAt: number
+}
+
+export interface MessageSearchResponse {
+  query: string
+  hits: MessageSearchHit[]
+  total: number
+  limit: number
+  offset: number
+}
+
+export type UsageGroupBy = 'project' | 'agent' | 'model' | 'task' | 'day'
+
+export interface UsageGroup {
+  key: string | null
+  sessions: number
+  totalTokens: number
+  estimatedCostUsd: number
+}
+
+export interface UsageResponse {
+  groupBy: UsageGroupBy
+  totals: {
+    sessions: number
+    totalTokens: number
+    estimatedCostUsd: number
+  }
+  groups: UsageGroup[]
+}
+
+export type QueueJobTrigger = 'at' | 'cron' | 'slot'
+export type QueueJobStatus = 'pending' | 'launched' | 'failed' | 'cancelled'
+
+export interface QueueJob {
+  id: string
+  projectPath: string
+  worktreePath: string | null
+  branchTemplate: string | null
+  agentId: string
+  agentOptions: Record<string, unknown>
+  promptTemplate: string | null
+  tdTaskId: string | null
+  sessionName: string | null
+  trigger: QueueJobTrigger
+  cronExpression: string | null
+  runAt: number // unix seconds
+  status: QueueJobStatus
+  sessionId: string | null
+  lastError: string | null
+  runCount: number
+  createdAt: number
+  updatedAt: number
+  lastRunAt: number | null
+}
+
+export interface QueueResponse {
+  jobs: QueueJob[]
+  maxConcurrentAgents: number | null
+}
+
+export type WorkflowStepTrigger = 'idle' | 'exit' | 'manual'
+
+export interface WorkflowStep {
+  name?: string
+  agentId: string
+  branchTemplate?: string
+  promptTemplate?: string
+  prompt?: string
+  intent?: 'work' | 'review' | 'manual'
+  after?: WorkflowStepTrigger
+}
+
+export interface WorkflowSummary {
+  name: string
+  description: string | null
+  steps: WorkflowStep[]
+}
+
+export type WorkflowRunStatus = 'running' | 'completed' | 'failed' | 'cancelled'
+export type WorkflowStepStatus = 'pending' | 'running' | 'idle' | 'exited' | 'failed'
+
+export interface WorkflowStepRun {
+  name: string
+  agentId: string
+  status: WorkflowStepStatus
+  sessionId: string | null
+  worktreePath: string | null
+  error: string | null
+  startedAt: number | null
+  finishedAt: number | null
+}
+
+export interface WorkflowRun {
+  id: string
+  workflowName: string
+  projectPath: string
+  worktreePath: string | null
+  tdTaskId: string | null
+  status: WorkflowRunStatus
+  definition: { description?: string; steps: WorkflowStep[] }
+  steps: WorkflowStepRun[]
+  error: string | null
+  createdAt: number // unix seconds
+  updatedAt: number
+}
+
+export type ComparisonRunStatus = 'running' | 'kept' | 'discarded' | 'failed'
+export type ComparisonAttemptStatus = 'pending' | 'running' | 'exited' | 'failed' | 'kept' | 'discarded'
+
+export interface ComparisonAttempt {
+  agentId: string
+  branch: string
+  status: ComparisonAttemptStatus
+  sessionId: string | null
+  worktreePath: string | null
+  error: string | null
+  startedAt: number | null
+  test: { passed: boolean; output: string; durationMs: number; finishedAt: number } | null
+}
+
+export interface ComparisonRun {
+  id: string
+  projectPath: string
+  baseBranch: string
+  tdTaskId: string | null
+  prompt: string | null
+  promptTemplate: string | null
+  status: ComparisonRunStatus
+  attempts: ComparisonAttempt[]
+  keptBranch: string | null
+  error: string | null
+  createdAt: number // unix seconds
+  updatedAt: number
+}
+
+export interface ComparisonAttemptReport extends ComparisonAttempt {
+  agentName: string
+  changes: {
+    files: Array<{ path: string; additions: number | null; deletions: number | null; untracked: boolean }>
+    additions: number
+    deletions: number
+  } | null
+  totalTokens: number | null
+  estimatedCostUsd: number | null
+  durationSeconds: number | null
+  busySeconds: number | null
+}
+
+export interface ComparisonReport {
+  run: ComparisonRun
+  attempts: ComparisonAttemptReport[]
+}
+
+export type AutoApprovalVerdict = 'approved' | 'needs_permission' | 'error'
+
+export interface AutoApprovalDecision {
+  id: number
+  sessionId: string
+  agentId: string | null
+  projectPath: string | null
+  worktreePath: string | null
+  verdict: AutoApprovalVerdict
+  decidedBy: 'rule' | 'verifier' | 'no-match' | null
+  rule: string | null
+  reason: string | null
+  terminalExcerpt: string
+  latencyMs: number
+  userOverride: boolean
+  overriddenAt: number | null
+  createdAt: number // unix seconds
+}
+
+export interface AutoApprovalLogResponse {
+  decisions: AutoApprovalDecision[]
+  total: number
+  limit: number
+  offset: number
+}
+
+export type WorktreeCleanupReason = 'merged' | 'orphaned' | 'task_closed' | 'stale'
+
+export type WorktreeCleanupRisk = 'uncommitted_changes' | 'unmerged_commits'
+
+export interface WorktreeCleanupCandidate {
+  path: string
+  branch: string | null
+  projectPath: string
+  reasons: WorktreeCleanupReason[]
+  risks: WorktreeCleanupRisk[]
+  recommended: boolean
+  lastActivityAt: number | null // unix seconds
+  gitStatus: GitStatus | null
+  task: { id: string; title: string; status: string } | null
+}
+
+export interface WorktreeCleanupResult {
+  path: string
+  success: boolean
+  error?: string
+  warnings?: string[]
+}
+
+export interface ReviewComment {
+  id: string
+  worktreePath: string
+  commitSha: string | null
+  filePath: string
+  line: number
+  side: 'old' | 'new'
+  snippet: string
+  body: string
+  createdAt: number
+  updatedAt: number
+  sentAt: number | null
+}
+
+// Pull/merge request opened from a worktree branch
+export interface WorktreePullRequest {
+  worktreePath: string
+  provider: 'github' | 'gitlab' | 'gitea'
+  repository: string
+  number: number
+  url: string
+  title: string
+  state: 'open' | 'draft' | 'merged' | 'closed'
+  sourceBranch: string
+  targetBranch: string
+  createdAt: number
+  updatedAt: number
+}
+
+export interface PullRequestDraft {
+  title: string
+  body: string
+  sourceBranch: string
+  targetBranch: string
+  taskId: string | null
+  forge: { provider: WorktreePullRequest['provider']; repository: string } | null
+  forgeError: string | null
+}
+
+// Merge conflicts, either predicted by a dry run or left by a stopped merge/rebase
+export interface ConflictHunk {
+  startLine: number
+  endLine: number
+  oursLabel: string
+  theirsLabel: string
+  ours: string[]
+  base?: string[]
+  theirs: string[]
+}
+
+export interface ConflictFile {
+  path: string
+  hunks: ConflictHunk[]
+  // Could not be checked for markers; only staged after confirmation
+  unchecked?: 'deleted' | 'binary' | 'too-large' | 'unreadable'
+}
+
+export interface MergeConflictCheck {
+  sourceBranch: string
+  targetBranch: string
+  clean: boolean
+  files: ConflictFile[]
+}
+
+export interface MergeConflictReport {
+  worktreePath: string
+  operation: 'merge' | 'rebase' | null
+  files: ConflictFile[]
+}
+
 // Git status for a worktree
 export interface GitStatus {
   filesAdded: number
@@ -157,6 +472,13 @@ export interface Worktree {
   gitStatusError?: string
 }
 
+// Pushed over socket.io whenever a watched worktree's git status changes
+export interface WorktreeStatusUpdate {
+  worktreePath: string
+  gitStatus?: GitStatus
+  gitStatusError?: string
+}
+
 /**
  * Project-specific metadata stored alongside the project.
  */
@@ -220,9 +542,16 @@ export interface StatusHooks {
   onPendingAutoApproval: string
 }
 
-// Worktree hooks configuration
+// Worktree lifecycle hooks configuration
 export interface WorktreeHooks {
+  preCreation: string
   postCreation: string
+  preDelete: string
+  postDelete: string
+  preMerge: string
+  postMerge: string
+  sessionStart: string
+  sessionEnd: string
 }
 
 // --- TD Integration Types ---
@@ -281,6 +610,42 @@ export interface TdIssue {
   defer_count: number
 }
 
+/** An issue created, updated or deleted in a project's td database */
+export interface TdIssueChange {
+  projectPath: string
+  issueId: string
+  change: 'created' | 'updated' | 'deleted'
+  issue: TdIssue | null
+  previousStatus: string | null
+}
+
+/** A td dependency edge: issue_id waits for depends_on_id */
+export interface TdIssueDependency {
+  id: string
+  issue_id: string
+  depends_on_id: string
+  relation_type: string
+}
+
+/** Tasks, dependencies and currently startable task ids for the graph view */
+export interface TdGraph {
+  issues: TdIssue[]
+  dependencies: TdIssueDependency[]
+  readyIds: string[]
+}
+
+/** Editable task fields sent to the td write endpoints */
+export interface TdIssueInput {
+  title?: string
+  type?: string
+  priority?: string
+  description?: string
+  acceptance?: string
+  labels?: string[]
+  /** Epic id; an empty string detaches the task from its epic */
+  parentId?: string
+}
+
 export interface TdHandoffParsed {
   id: string
   issueId: string
@@ -329,6 +694,8 @@ export interface QuickStartFlowConfig {
   promptTemplate?: string
   agentId?: string
   sessionNameTemplate?: string
+  /** Review flow only: start it when a task enters in_review and record the verdict */
+  auto?: boolean
   [key: string]: unknown
 }
 
@@ -356,6 +723,19 @@ export interface ProjectConfig {
   [key: string]: unknown
 }
 
+export type NotifyState = 'idle' | 'busy' | 'waiting_input' | 'pending_auto_approval'
+
+export interface NotificationSettings {
+  enabled: boolean
+  states: NotifyState[]
+  browser: boolean
+  webhookUrl: string
+  command: string
+  quietHoursEnabled: boolean
+  quietHoursStart: string
+  quietHoursEnd: string
+}
+
 // Application configuration
 export interface AppConfig {
   // Auto approval
@@ -374,6 +754,9 @@ export interface AppConfig {
   // Hooks
   statusHooks: StatusHooks
   worktreeHooks: WorktreeHooks
+  notifications: NotificationSettings
+  // Run agent sessions in tmux so they survive daemon restarts
+  persistentSessions: boolean
   quickStart?: QuickStartConfig
   raw?: Record<string, unknown>
 }
@@ -4,10 +4,15 @@ import type {
 	StateDetectionStrategy,
 	Terminal,
 } from '../types/index.js';
-import {detectStateForStrategy} from './stateDetection.js';
+import {
+	detectStateForStrategy,
+	extractPermissionPrompt,
+	resolveApprovalInputForStrategy,
+} from './stateDetection.js';
 import type {
 	AgentAdapter,
 	ConversationMessage,
+	PermissionApproval,
 	SessionFileMetadata,
 	SessionFormat,
 } from './types.js';
@@ -65,6 +70,18 @@ export abstract class BaseAgentAdapter implements AgentAdapter {
 		);
 	}
 
+	getPermissionApproval(terminal: Terminal): PermissionApproval | null {
+		if (!this.detectionStrategy) {
+			return null;
+		}
+
+		const prompt = extractPermissionPrompt(terminal);
+		return {
+			prompt,
+			input: resolveApprovalInputForStrategy(this.detectionStrategy, prompt),
+		};
+	}
+
 	async findSessionFile(
 		_worktreePath: string,
 		_afterTimestamp?: Date,
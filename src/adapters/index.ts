@@ -1,6 +1,7 @@
 export type {
 	AgentAdapter,
 	ConversationMessage,
+	PermissionApproval,
 	SessionFileMetadata,
 	SessionFormat,
 	ToolCallData,
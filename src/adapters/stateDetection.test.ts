@@ -1,5 +1,9 @@
 import {describe, expect, it} from 'vitest';
-import {detectStateForStrategy} from './stateDetection.js';
+import {
+	detectStateForStrategy,
+	extractPermissionPrompt,
+	resolveApprovalInputForStrategy,
+} from './stateDetection.js';
 import type {
 	Terminal,
 	SessionState,
@@ -79,3 +83,45 @@ describe('detectStateForStrategy', () => {
 		).toBe('busy');
 	});
 });
+
+describe('extractPermissionPrompt', () => {
+	it('returns the question and choices without box-drawing characters', () => {
+		const prompt = extractPermissionPrompt(
+			terminalFromLines([
+				'● Bash(npm test)',
+				'╭──────────────────────────────╮',
+				'│ Do you want to proceed?      │',
+				'│ ❯ 1. Yes                     │',
+				'│   2. No                      │',
+				'╰──────────────────────────────╯',
+			]),
+		);
+
+		expect(prompt).toBe('Do you want to proceed?\n❯ 1. Yes\n2. No');
+	});
+
+	it('falls back to the last lines when no question is recognised', () => {
+		const lines = Array.from({length: 20}, (_, i) => `line ${i}`);
+		expect(extractPermissionPrompt(terminalFromLines(lines))).toBe(
+			lines.slice(-8).join('\n'),
+		);
+	});
+});
+
+describe('resolveApprovalInputForStrategy', () => {
+	it('presses Enter for menu-style prompts', () => {
+		expect(
+			resolveApprovalInputForStrategy('claude', 'Do you want to proceed?'),
+		).toBe('\r');
+	});
+
+	it('answers y for Codex yes/no prompts', () => {
+		expect(
+			resolveApprovalInputForStrategy('codex', 'Allow command? Yes (y) No (n)'),
+		).toBe('y');
+	});
+
+	it('answers y and submits for Pi [y/n] prompts', () => {
+		expect(resolveApprovalInputForStrategy('pi', 'Proceed? [y/N]')).toBe('y\r');
+	});
+});
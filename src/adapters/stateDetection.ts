@@ -232,3 +232,67 @@ export function detectStateForStrategy(
 			return currentState;
 	}
 }
+
+const PERMISSION_PROMPT_PATTERN =
+	/(do you want|would you like|allow (command|execution|this)|apply this change|let .+ use this tool|proceed\?|confirm|\[y\/n\]|permission)/i;
+const BOX_DRAWING_PATTERN = /[│┃║╭╮╰╯─━═┌┐└┘]/g;
+const MAX_PERMISSION_PROMPT_LINES = 12;
+
+/**
+ * Extract the visible permission prompt (question + choices) from the
+ * bottom of the terminal, with box-drawing characters stripped.
+ */
+export function extractPermissionPrompt(terminal: Terminal): string {
+	const lines = getTerminalLines(terminal);
+	let startIndex = -1;
+	for (let i = lines.length - 1; i >= 0; i--) {
+		if (PERMISSION_PROMPT_PATTERN.test(lines[i] || '')) {
+			startIndex = i;
+			// Keep walking up while the question spans several lines
+			while (
+				startIndex > 0 &&
+				PERMISSION_PROMPT_PATTERN.test(lines[startIndex - 1] || '')
+			) {
+				startIndex--;
+			}
+			break;
+		}
+	}
+
+	const promptLines = (
+		startIndex >= 0 ? lines.slice(startIndex) : lines.slice(-8)
+	)
+		.map(line => line.replace(BOX_DRAWING_PATTERN, '').trim())
+		.filter(line => line.length > 0);
+
+	return promptLines.slice(0, MAX_PERMISSION_PROMPT_LINES).join('\n');
+}
+
+/**
+ * Keystrokes that answer "yes" to the permission prompt currently shown.
+ * Most agents render a menu with "Yes" preselected, so Enter approves;
+ * plain y/n prompts need an explicit answer.
+ */
+export function resolveApprovalInputForStrategy(
+	strategy: StateDetectionStrategy,
+	promptText: string,
+): string {
+	const lowerPrompt = promptText.toLowerCase();
+
+	switch (strategy) {
+		case 'cursor':
+			return lowerPrompt.includes('(y)') ? 'y' : '\r';
+		case 'codex':
+			return lowerPrompt.includes('yes (y)') || lowerPrompt.includes('[y/n]')
+				? 'y'
+				: '\r';
+		case 'pi':
+			return lowerPrompt.includes('[y/n]') ? 'y\r' : '\r';
+		case 'claude':
+		case 'gemini':
+		case 'github-copilot':
+		case 'cline':
+		default:
+			return '\r';
+	}
+}
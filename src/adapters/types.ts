@@ -42,6 +42,11 @@ export interface SessionFileMetadata {
 	options?: Record<string, unknown>;
 }
 
+export interface PermissionApproval {
+	prompt: string;
+	input: string;
+}
+
 export interface AgentAdapter {
 	readonly id: string;
 	readonly name: string;
@@ -58,6 +63,11 @@ export interface AgentAdapter {
 	readonly sessionFormat: SessionFormat;
 
 	detectState(terminal: Terminal, currentState: SessionState): SessionState;
+	/**
+	 * Describe the permission prompt currently shown and the keystrokes that
+	 * approve it. Returns null when the adapter cannot answer prompts.
+	 */
+	getPermissionApproval(terminal: Terminal): PermissionApproval | null;
 	findSessionFile(
 		worktreePath: string,
 		afterTimestamp?: Date,
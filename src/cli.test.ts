@@ -1349,6 +1349,183 @@ describe('CLI', () => {
 			}
 		});
 
+		it('supports `cacd send <name> <msg> --enter --json`', async () => {
+			process.argv = [
+				'node',
+				'/tmp/unified-entry.tsx',
+				'send',
+				'Reviewer',
+				'run',
+				'the tests',
+				'--enter',
+				'--json',
+			];
+			setupCommonMocks();
+
+			vi.doMock('./utils/daemonLifecycle.js', () => ({
+				prepareDaemonPidFile: vi.fn(),
+				cleanupDaemonPidFile: vi.fn(),
+				getDaemonPidFilePath: vi.fn(() => '/tmp/cacd-test/daemon.pid'),
+				readDaemonPidFile: vi.fn(),
+				isProcessRunning: vi.fn(),
+			}));
+			vi.doMock('./utils/daemonControl.js', () => ({
+				buildDaemonWebConfig: vi.fn(),
+				ensureDaemonForTui: vi.fn(),
+				spawnDetachedDaemon: vi.fn(),
+				waitForDaemonPid: vi.fn(),
+				waitForDaemonApiReady: vi.fn(),
+			}));
+
+			const fetchMock = vi.fn(
+				async (input: string | URL | Request, init?: RequestInit) => {
+					const url = String(input);
+					if (url.endsWith('/api/sessions')) {
+						return new Response(
+							JSON.stringify([
+								{
+									id: 'session-7',
+									name: 'Reviewer',
+									path: '/repo/.worktrees/feat-a',
+									state: 'idle',
+									isActive: true,
+									agentId: 'codex',
+									pid: 77,
+								},
+							]),
+							{status: 200},
+						);
+					}
+
+					if (url.endsWith('/api/session/input')) {
+						const payload = JSON.parse(String(init?.body || '{}')) as {
+							id: string;
+							text: string;
+							enter: boolean;
+						};
+						expect(payload).toEqual({
+							id: 'session-7',
+							text: 'run the tests',
+							enter: true,
+						});
+						return new Response(
+							JSON.stringify({
+								success: true,
+								id: 'session-7',
+								written: 14,
+								state: 'idle',
+							}),
+							{status: 200},
+						);
+					}
+
+					return new Response('{}', {status: 404});
+				},
+			);
+			vi.stubGlobal('fetch', fetchMock);
+
+			const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(((
+				code?: number,
+			) => {
+				throw new Error(`exit:${code ?? 0}`);
+			}) as never);
+			const consoleLogSpy = vi
+				.spyOn(console, 'log')
+				.mockImplementation(() => {});
+
+			try {
+				await expect(import('./cli.js')).rejects.toThrow('exit:0');
+				const output = consoleLogSpy.mock.calls
+					.map(call => String(call[0]))
+					.join('\n');
+				expect(output).toContain('"sessionId": "session-7"');
+				expect(output).toContain('"written": 14');
+				expect(output).toContain('"submitted": true');
+			} finally {
+				processExitSpy.mockRestore();
+				consoleLogSpy.mockRestore();
+			}
+		});
+
+		it('supports `cacd approve --all --project <path> --json`', async () => {
+			process.argv = [
+				'node',
+				'/tmp/unified-entry.tsx',
+				'approve',
+				'--all',
+				'--project',
+				'/repo',
+				'--json',
+			];
+			setupCommonMocks();
+
+			vi.doMock('./utils/daemonLifecycle.js', () => ({
+				prepareDaemonPidFile: vi.fn(),
+				cleanupDaemonPidFile: vi.fn(),
+				getDaemonPidFilePath: vi.fn(() => '/tmp/cacd-test/daemon.pid'),
+				readDaemonPidFile: vi.fn(),
+				isProcessRunning: vi.fn(),
+			}));
+			vi.doMock('./utils/daemonControl.js', () => ({
+				buildDaemonWebConfig: vi.fn(),
+				ensureDaemonForTui: vi.fn(),
+				spawnDetachedDaemon: vi.fn(),
+				waitForDaemonPid: vi.fn(),
+				waitForDaemonApiReady: vi.fn(),
+			}));
+
+			const fetchMock = vi.fn(
+				async (input: string | URL | Request, init?: RequestInit) => {
+					const url = String(input);
+					if (url.endsWith('/api/session/approve')) {
+						const payload = JSON.parse(String(init?.body || '{}')) as {
+							all: boolean;
+							projectPath: string;
+						};
+						expect(payload).toEqual({all: true, projectPath: '/repo'});
+						return new Response(
+							JSON.stringify({
+								success: true,
+								results: [
+									{
+										id: 'session-3',
+										name: 'Builder',
+										approved: true,
+										prompt: 'Do you want to proceed?',
+									},
+								],
+							}),
+							{status: 200},
+						);
+					}
+
+					return new Response('{}', {status: 404});
+				},
+			);
+			vi.stubGlobal('fetch', fetchMock);
+
+			const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(((
+				code?: number,
+			) => {
+				throw new Error(`exit:${code ?? 0}`);
+			}) as never);
+			const consoleLogSpy = vi
+				.spyOn(console, 'log')
+				.mockImplementation(() => {});
+
+			try {
+				await expect(import('./cli.js')).rejects.toThrow('exit:0');
+				const output = consoleLogSpy.mock.calls
+					.map(call => String(call[0]))
+					.join('\n');
+				expect(output).toContain('"approved": 1');
+				expect(output).toContain('"prompt": "Do you want to proceed?"');
+			} finally {
+				processExitSpy.mockRestore();
+				consoleLogSpy.mockRestore();
+			}
+		});
+
 		it('supports `cacd agents list --json`', async () => {
 			process.argv = [
 				'node',
@@ -1433,6 +1610,372 @@ describe('CLI', () => {
 			}
 		});
 
+		it('supports `cacd usage --group-by model --since 7d --json`', async () => {
+			process.argv = [
+				'node',
+				'/tmp/unified-entry.tsx',
+				'usage',
+				'--group-by',
+				'model',
+				'--since',
+				'7d',
+				'--json',
+			];
+			setupCommonMocks();
+
+			vi.doMock('./utils/daemonLifecycle.js', () => ({
+				prepareDaemonPidFile: vi.fn(),
+				cleanupDaemonPidFile: vi.fn(),
+				getDaemonPidFilePath: vi.fn(() => '/tmp/cacd-test/daemon.pid'),
+				readDaemonPidFile: vi.fn(),
+				isProcessRunning: vi.fn(),
+			}));
+			vi.doMock('./utils/daemonControl.js', () => ({
+				buildDaemonWebConfig: vi.fn(),
+				ensureDaemonForTui: vi.fn(),
+				spawnDetachedDaemon: vi.fn(),
+				waitForDaemonPid: vi.fn(),
+				waitForDaemonApiReady: vi.fn(),
+			}));
+
+			const fetchMock = vi.fn(async (input: string | URL | Request) => {
+				const url = String(input);
+				if (url.includes('/api/analytics/usage?')) {
+					return new Response(
+						JSON.stringify({
+							groupBy: 'model',
+							filters: {},
+							totals: {sessions: 3, totalTokens: 4200, estimatedCostUsd: 1.5},
+							groups: [
+								{
+									key: 'claude-sonnet-4',
+									sessions: 2,
+									totalTokens: 3000,
+									estimatedCostUsd: 1.2,
+								},
+							],
+						}),
+						{status: 200},
+					);
+				}
+
+				return new Response('{}', {status: 404});
+			});
+			vi.stubGlobal('fetch', fetchMock);
+
+			const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(((
+				code?: number,
+			) => {
+				throw new Error(`exit:${code ?? 0}`);
+			}) as never);
+			const consoleLogSpy = vi
+				.spyOn(console, 'log')
+				.mockImplementation(() => {});
+
+			try {
+				await expect(import('./cli.js')).rejects.toThrow('exit:0');
+				const requestUrl = new URL(String(fetchMock.mock.calls[0]?.[0]));
+				expect(requestUrl.searchParams.get('groupBy')).toBe('model');
+				expect(requestUrl.searchParams.get('refresh')).toBe('1');
+				expect(Number(requestUrl.searchParams.get('dateFrom'))).toBeLessThan(
+					Date.now() / 1000 - 6 * 24 * 60 * 60,
+				);
+				const output = consoleLogSpy.mock.calls
+					.map(call => String(call[0]))
+					.join('\n');
+				expect(output).toContain('"command": "usage"');
+				expect(output).toContain('"key": "claude-sonnet-4"');
+			} finally {
+				processExitSpy.mockRestore();
+				consoleLogSpy.mockRestore();
+			}
+		});
+
+		it('supports `cacd queue add --agent <id> --branch <template> --cron <expr> --json`', async () => {
+			process.argv = [
+				'node',
+				'/tmp/unified-entry.tsx',
+				'queue',
+				'add',
+				'--agent',
+				'claude',
+				'--project',
+				'/repo',
+				'--branch',
+				'nightly/{{date}}',
+				'--cron',
+				'0 3 * * *',
+				'--option',
+				'yolo',
+				'--json',
+			];
+			setupCommonMocks();
+
+			vi.doMock('./utils/daemonLifecycle.js', () => ({
+				prepareDaemonPidFile: vi.fn(),
+				cleanupDaemonPidFile: vi.fn(),
+				getDaemonPidFilePath: vi.fn(() => '/tmp/cacd-test/daemon.pid'),
+				readDaemonPidFile: vi.fn(),
+				isProcessRunning: vi.fn(),
+			}));
+			vi.doMock('./utils/daemonControl.js', () => ({
+				buildDaemonWebConfig: vi.fn(),
+				ensureDaemonForTui: vi.fn(),
+				spawnDetachedDaemon: vi.fn(),
+				waitForDaemonPid: vi.fn(),
+				waitForDaemonApiReady: vi.fn(),
+			}));
+
+			const fetchMock = vi.fn(
+				async (input: string | URL | Request, _init?: RequestInit) => {
+					const url = String(input);
+					if (url.endsWith('/api/queue')) {
+						return new Response(
+							JSON.stringify({
+								success: true,
+								job: {
+									id: 'job-1',
+									projectPath: '/repo',
+									worktreePath: null,
+									branchTemplate: 'nightly/{{date}}',
+									agentId: 'claude',
+									tdTaskId: null,
+									trigger: 'cron',
+									cronExpression: '0 3 * * *',
+									runAt: 1_900_000_000,
+									status: 'pending',
+									sessionId: null,
+									lastError: null,
+									runCount: 0,
+								},
+							}),
+							{status: 200},
+						);
+					}
+
+					return new Response('{}', {status: 404});
+				},
+			);
+			vi.stubGlobal('fetch', fetchMock);
+
+			const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(((
+				code?: number,
+			) => {
+				throw new Error(`exit:${code ?? 0}`);
+			}) as never);
+			const consoleLogSpy = vi
+				.spyOn(console, 'log')
+				.mockImplementation(() => {});
+
+			try {
+				await expect(import('./cli.js')).rejects.toThrow('exit:0');
+				const body = JSON.parse(
+					String(fetchMock.mock.calls[0]?.[1]?.body ?? '{}'),
+				);
+				expect(body).toEqual({
+					projectPath: '/repo',
+					branchTemplate: 'nightly/{{date}}',
+					agentId: 'claude',
+					agentOptions: {yolo: true},
+					cron: '0 3 * * *',
+				});
+				const output = consoleLogSpy.mock.calls
+					.map(call => String(call[0]))
+					.join('\n');
+				expect(output).toContain('"command": "queue add"');
+				expect(output).toContain('"id": "job-1"');
+			} finally {
+				processExitSpy.mockRestore();
+				consoleLogSpy.mockRestore();
+			}
+		});
+
+		it('supports `cacd run <workflow> --task <id> --json`', async () => {
+			process.argv = [
+				'node',
+				'/tmp/unified-entry.tsx',
+				'run',
+				'implement-and-review',
+				'--project',
+				'/repo',
+				'--task',
+				'td-a1b2c3',
+				'--json',
+			];
+			setupCommonMocks();
+
+			vi.doMock('./utils/daemonLifecycle.js', () => ({
+				prepareDaemonPidFile: vi.fn(),
+				cleanupDaemonPidFile: vi.fn(),
+				getDaemonPidFilePath: vi.fn(() => '/tmp/cacd-test/daemon.pid'),
+				readDaemonPidFile: vi.fn(),
+				isProcessRunning: vi.fn(),
+			}));
+			vi.doMock('./utils/daemonControl.js', () => ({
+				buildDaemonWebConfig: vi.fn(),
+				ensureDaemonForTui: vi.fn(),
+				spawnDetachedDaemon: vi.fn(),
+				waitForDaemonPid: vi.fn(),
+				waitForDaemonApiReady: vi.fn(),
+			}));
+
+			const fetchMock = vi.fn(
+				async (input: string | URL | Request, _init?: RequestInit) => {
+					const url = String(input);
+					if (url.endsWith('/api/workflows/run')) {
+						return new Response(
+							JSON.stringify({
+								success: true,
+								run: {
+									id: 'run-1',
+									workflowName: 'implement-and-review',
+									projectPath: '/repo',
+									worktreePath: '/repo',
+									tdTaskId: 'td-a1b2c3',
+									status: 'running',
+									steps: [
+										{
+											name: 'Implement',
+											agentId: 'claude',
+											status: 'running',
+											sessionId: 'session-1',
+											error: null,
+										},
+										{
+											name: 'Review',
+											agentId: 'codex',
+											status: 'pending',
+											sessionId: null,
+											error: null,
+										},
+									],
+									error: null,
+								},
+							}),
+							{status: 200},
+						);
+					}
+
+					return new Response('{}', {status: 404});
+				},
+			);
+			vi.stubGlobal('fetch', fetchMock);
+
+			const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(((
+				code?: number,
+			) => {
+				throw new Error(`exit:${code ?? 0}`);
+			}) as never);
+			const consoleLogSpy = vi
+				.spyOn(console, 'log')
+				.mockImplementation(() => {});
+
+			try {
+				await expect(import('./cli.js')).rejects.toThrow('exit:0');
+				const body = JSON.parse(
+					String(fetchMock.mock.calls[0]?.[1]?.body ?? '{}'),
+				);
+				expect(body).toEqual({
+					projectPath: '/repo',
+					workflow: 'implement-and-review',
+					tdTaskId: 'td-a1b2c3',
+				});
+				const output = consoleLogSpy.mock.calls
+					.map(call => String(call[0]))
+					.join('\n');
+				expect(output).toContain('"command": "run"');
+				expect(output).toContain('"id": "run-1"');
+			} finally {
+				processExitSpy.mockRestore();
+				consoleLogSpy.mockRestore();
+			}
+		});
+
+		it('supports `cacd sessions search <query> --project <path> --json`', async () => {
+			process.argv = [
+				'node',
+				'/tmp/unified-entry.tsx',
+				'sessions',
+				'search',
+				'auth',
+				'migration',
+				'--project',
+				'/repo',
+				'--json',
+			];
+			setupCommonMocks();
+
+			vi.doMock('./utils/daemonLifecycle.js', () => ({
+				prepareDaemonPidFile: vi.fn(),
+				cleanupDaemonPidFile: vi.fn(),
+				getDaemonPidFilePath: vi.fn(() => '/tmp/cacd-test/daemon.pid'),
+				readDaemonPidFile: vi.fn(),
+				isProcessRunning: vi.fn(),
+			}));
+			vi.doMock('./utils/daemonControl.js', () => ({
+				buildDaemonWebConfig: vi.fn(),
+				ensureDaemonForTui: vi.fn(),
+				spawnDetachedDaemon: vi.fn(),
+				waitForDaemonPid: vi.fn(),
+				waitForDaemonApiReady: vi.fn(),
+			}));
+
+			const fetchMock = vi.fn(async (input: string | URL | Request) => {
+				const url = String(input);
+				if (url.includes('/api/conversations/search?')) {
+					return new Response(
+						JSON.stringify({
+							query: 'auth migration',
+							hits: [
+								{
+									sessionId: 'session-9',
+									messageId: 'm1',
+									role: 'user',
+									timestamp: 1700000000,
+									snippet: 'fix the [[auth]] [[migration]]',
+									sessionName: null,
+									agentProfileName: 'Claude',
+									branchName: 'feat/auth',
+									createdAt: 1699990000,
+								},
+							],
+							total: 1,
+							limit: 20,
+							offset: 0,
+						}),
+						{status: 200},
+					);
+				}
+
+				return new Response('{}', {status: 404});
+			});
+			vi.stubGlobal('fetch', fetchMock);
+
+			const processExitSpy = vi.spyOn(process, 'exit').mockImplementation(((
+				code?: number,
+			) => {
+				throw new Error(`exit:${code ?? 0}`);
+			}) as never);
+			const consoleLogSpy = vi
+				.spyOn(console, 'log')
+				.mockImplementation(() => {});
+
+			try {
+				await expect(import('./cli.js')).rejects.toThrow('exit:0');
+				const requestUrl = new URL(String(fetchMock.mock.calls[0]?.[0]));
+				expect(requestUrl.searchParams.get('q')).toBe('auth migration');
+				expect(requestUrl.searchParams.get('projectPath')).toBe('/repo');
+				const output = consoleLogSpy.mock.calls
+					.map(call => String(call[0]))
+					.join('\n');
+				expect(output).toContain('"command": "sessions search"');
+				expect(output).toContain('"sessionId": "session-9"');
+			} finally {
+				processExitSpy.mockRestore();
+				consoleLogSpy.mockRestore();
+			}
+		});
+
 		it('gracefully handles daemon not running for query commands', async () => {
 			process.argv = ['node', '/tmp/unified-entry.tsx', 'sessions', 'list'];
 			setupCommonMocks();
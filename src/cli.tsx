@@ -60,19 +60,23 @@ const cli = meow(
     $ cacd status --sessions    Show daemon status and active sessions
     $ cacd sessions list        List active sessions (legacy)
     $ cacd sessions show <id>   Show one active session (legacy)
+    $ cacd sessions search <q>  Search messages across all agent conversations
     $ cacd session create --agent <id> [--worktree <path>] [--model <name>]
     $ cacd session list         List active sessions
     $ cacd session status <id>  Show one active session
     $ cacd session stop <id>    Stop a running session
     $ cacd agents list          List agents and their active sessions
+    $ cacd usage                Show token and cost usage per project
+    $ cacd queue <command>      Schedule or queue agent runs
+    $ cacd run [workflow]       Start a workflow from .cacd.json (lists workflows without a name)
     $ cacd ui focus <id>        Set active/focused session in WebUI state
-    $ cacd ui send <id> <msg>   UI hook stub (not yet supported by daemon API)
-    $ cacd ui approve <id>      UI hook stub (not yet supported by daemon API)
-    $ cacd ui notify <msg>      UI hook stub (not yet supported by daemon API)
+    $ cacd ui send <id> <msg>   Type text into a running session
+    $ cacd ui approve <id>      Approve the permission prompt a session is waiting on
+    $ cacd ui notify <msg>      Send a notification through the configured sinks
     $ cacd focus <id>           Alias for cacd ui focus <id>
-    $ cacd send <id> <msg>      Alias for cacd ui send ... (stub)
-    $ cacd approve <id>         Alias for cacd ui approve ... (stub)
-    $ cacd notify <msg>         Alias for cacd ui notify ... (stub)
+    $ cacd send <id> <msg>      Alias for cacd ui send ...
+    $ cacd approve <id>         Alias for cacd ui approve ...
+    $ cacd notify <msg>         Alias for cacd ui notify ...
     $ cacd restart [--force]    Restart daemon (preserve sessions by default)
     $ cacd tui                  Launch TUI (daemon must already be running)
     $ cacd daemon               Run daemon in foreground (for service managers)
@@ -92,11 +96,17 @@ const cli = meow(
     $ cacd auth reset-passcode    Reset your passcode
     $ cacd auth regenerate-token  Generate new access token (careful!)
 
+  Queue Commands
+    $ cacd queue add --agent <id> [--branch <template>] [--at <time> | --cron <expr>]
+    $ cacd queue list [--project <path>] [--all]
+    $ cacd queue cancel <job-id>
+
   Worktree Commands
     $ cacd worktree create [--branch <name>] [--project <path>] [--task <td-task-id>]
     $ cacd worktree list [--project <path>]
     $ cacd worktree delete <path>
     $ cacd worktree merge <path> [--target <branch>]
+    $ cacd worktree prune [--project <path>] [--dry-run] [--stale-days <n>] [--force]
 
   Options
     --help                  Show help
@@ -113,6 +123,11 @@ const cli = meow(
     --name <name>           Project name (for 'cacd project configure')
     --description <desc>    Project description (for 'cacd project configure')
 
+  Prune Options (for 'cacd worktree prune')
+    --dry-run               List cleanup candidates without deleting anything
+    --stale-days <n>        Days without activity before a worktree counts as stale (default: 14)
+    --force                 Also delete worktrees with uncommitted or unmerged work
+
   Session Create Options (for 'cacd session create')
     --agent <id>            Agent profile ID (required)
     --worktree <path>       Worktree path (defaults to current directory)
@@ -124,11 +139,43 @@ const cli = meow(
     --intent <intent>       Session intent: work | review | manual
     --option <key[=value]>  Agent option (repeatable, e.g. --option yolo --option model=gpt-5)
 
+  Send Options (for 'cacd send')
+    --enter                 Press Enter after typing the message
+    --stdin                 Read the message from stdin
+    --wait-idle             Wait until the session is idle before sending
+    --timeout <seconds>     Max time to wait with --wait-idle (default: 600)
+
+  Approve Options (for 'cacd approve')
+    --all                   Approve every session waiting on a permission prompt
+    --project <path>        With --all, only approve sessions in this project
+
+  Queue Options (for 'cacd queue add')
+    --agent <id>            Agent profile ID (required)
+    --project <path>        Project to run in (defaults to the selected project)
+    --worktree <path>       Existing worktree to run in (defaults to the project root)
+    --branch <template>     Create a fresh worktree per run, e.g. nightly/{{date}}
+    --task <td-task-id>     Link runs to a TD task
+    --prompt-template <name> Prompt template typed into the agent
+    --at <time>             Run once at a date/time (ISO 8601)
+    --cron <expr>           Run on a cron schedule ("0 3 * * 1-5")
+    --option <key[=value]>  Agent option (repeatable)
+    Without --at or --cron the job runs as soon as a concurrency slot is free.
+
+  Run Options (for 'cacd run')
+    --project <path>        Project whose .cacd.json defines the workflow (defaults to the selected project)
+    --task <td-task-id>     Link every step's session to this TD task
+    --worktree <path>       Worktree for steps without a branch template (defaults to the project root)
+
+  Usage & Search Options (for 'cacd usage' and 'cacd sessions search')
+    --group-by <key>        Group usage by project | agent | model | task | day (default: project)
+    --project <path>        Only include sessions in this project
+    --since <when>          Only include sessions started since a day count (7d) or date (2026-01-31)
+
   Setup Options (for 'cacd setup')
     --no-web               Disable web interface
     --project <path>       Add specified path as first project
     --skip-project         Don't add any project
-    --force                Setup: overwrite config. Daemon stop/restart: destructive session shutdown.
+    --force                Setup: overwrite config. Daemon stop/restart: destructive session shutdown. Notify: ignore quiet hours.
 
   Environment Variables
     CACD_CONFIG_DIR        Custom config directory (highest priority, overrides CACD_DEV)
@@ -142,13 +189,23 @@ const cli = meow(
     $ cacd status --sessions      # Show daemon + active sessions
     $ cacd sessions list          # List active sessions (legacy)
     $ cacd sessions show session-123
+    $ cacd sessions search "auth migration" --since 7d
     $ cacd session create --agent codex --worktree . --model gpt-5
     $ cacd session list
     $ cacd session status session-123
     $ cacd session stop session-123
     $ cacd agents list --json
+    $ cacd usage --group-by model --since 7d
+    $ cacd queue add --agent claude --branch nightly/{{date}} --prompt-template "Triage" --cron "0 3 * * *"
+    $ cacd queue add --agent codex --task td-a1b2c3
+    $ cacd run implement-and-review --task td-a1b2c3
     $ cacd ui focus session-123   # Set focused session in UI/daemon state
     $ cacd focus session-123      # Alias for ui focus
+    $ cacd send session-123 "run the tests" --enter --wait-idle
+    $ git diff | cacd send my-session --stdin --enter
+    $ cacd approve my-session     # Answer "yes" to a pending permission prompt
+    $ cacd approve --all --project .
+    $ cacd notify "deploy finished" --force
     $ cacd stop                   # Stop daemon and preserve sessions for recovery
     $ cacd stop --force           # Stop daemon and terminate active sessions
     $ cacd tui                    # Launch TUI (requires running daemon)
@@ -161,6 +218,7 @@ const cli = meow(
     $ cacd project configure /path/to/project --name "My Project"
     $ cacd worktree list          # List registered worktrees
     $ cacd worktree merge /path/to/worktree --target main
+    $ cacd worktree prune --dry-run   # Show merged, orphaned and stale worktrees
     $ cacd auth show              # Show WebUI access URL
 	`,
 	{
@@ -219,6 +277,48 @@ const cli = meow(
 			description: {
 				type: 'string',
 			},
+			// Send flags
+			enter: {
+				type: 'boolean',
+				default: false,
+			},
+			stdin: {
+				type: 'boolean',
+				default: false,
+			},
+			waitIdle: {
+				type: 'boolean',
+				default: false,
+			},
+			timeout: {
+				type: 'number',
+			},
+			all: {
+				type: 'boolean',
+				default: false,
+			},
+			// Usage flags
+			groupBy: {
+				type: 'string',
+			},
+			since: {
+				type: 'string',
+			},
+			// Worktree prune flags
+			dryRun: {
+				type: 'boolean',
+				default: false,
+			},
+			staleDays: {
+				type: 'number',
+			},
+			// Queue flags
+			at: {
+				type: 'string',
+			},
+			cron: {
+				type: 'string',
+			},
 			// Setup flags
 			noWeb: {
 				type: 'boolean',
@@ -341,15 +441,18 @@ if (subcommand && !knownCommands.has(subcommand)) {
 			'  cacd start         Start daemon in background',
 			'  cacd stop          Stop daemon',
 			'  cacd status        Show daemon status',
-			'  cacd sessions      Query active sessions (legacy)',
+			'  cacd sessions      Query or search sessions (list/show/search)',
 			'  cacd session       Manage sessions (create/list/status/stop)',
 			'  cacd agents        Query configured agents',
+			'  cacd usage         Show token and cost usage',
+			'  cacd queue         Schedule or queue agent runs (add/list/cancel)',
+			'  cacd run           Start a workflow from .cacd.json',
 			'  cacd ui            Trigger UI workflow hooks (focus/send/approve/notify)',
 			'  cacd trigger       Alias for `cacd ui`',
 			'  cacd focus         Alias for `cacd ui focus`',
-			'  cacd send          Alias for `cacd ui send` (stub)',
-			'  cacd approve       Alias for `cacd ui approve` (stub)',
-			'  cacd notify        Alias for `cacd ui notify` (stub)',
+			'  cacd send          Alias for `cacd ui send`',
+			'  cacd approve       Alias for `cacd ui approve`',
+			'  cacd notify        Alias for `cacd ui notify`',
 			'  cacd restart       Restart daemon',
 			'  cacd setup         Run first-time setup',
 			'  cacd add [path]    Add a project',
@@ -374,6 +477,9 @@ if (subcommand && !knownCommands.has(subcommand)) {
 					'sessions',
 					'session',
 					'agents',
+					'usage',
+					'queue',
+					'run',
 					'ui',
 					'trigger',
 					'focus',
@@ -477,18 +583,20 @@ function getLocalHostname(
 async function withNetworkLinks(
 	baseConfig: DaemonWebConfig,
 	token: string | undefined,
+	secure: boolean,
 ): Promise<DaemonWebConfig> {
 	const externalIP = await getExternalIP();
 	const hostname = await getLocalHostname(externalIP);
 	const tokenPath = token ? `/${token}` : '';
+	const scheme = secure ? 'https' : 'http';
 
 	return {
 		...baseConfig,
 		externalUrl: externalIP
-			? `http://${externalIP}:${baseConfig.port}${tokenPath}`
+			? `${scheme}://${externalIP}:${baseConfig.port}${tokenPath}`
 			: undefined,
 		hostname: hostname
-			? `http://${hostname}:${baseConfig.port}${tokenPath}`
+			? `${scheme}://${hostname}:${baseConfig.port}${tokenPath}`
 			: undefined,
 	};
 }
@@ -497,6 +605,8 @@ async function withNetworkLinks(
 const customConfigDir = isCustomConfigDir();
 const devModeActive = isDevModeConfig();
 const accessToken = configurationManager.getConfiguration().accessToken;
+const httpsEnabled =
+	configurationManager.getConfiguration().https?.enabled === true;
 const daemonPidFilePath = getDaemonPidFilePath(configDir);
 const daemonLogPath = join(configDir, 'daemon.log');
 
@@ -585,6 +695,7 @@ if (isDaemonMode) {
 				isDevMode: devModeActive,
 			},
 			accessToken,
+			httpsEnabled,
 		);
 	} catch (error) {
 		const message = error instanceof Error ? error.message : String(error);
@@ -610,7 +721,11 @@ if (isDaemonMode) {
 			isDevMode: devModeActive,
 			autoStart: !isTuiOnlyMode,
 		});
-		webConfig = await withNetworkLinks(daemonConnection.webConfig, accessToken);
+		webConfig = await withNetworkLinks(
+			daemonConnection.webConfig,
+			accessToken,
+			httpsEnabled,
+		);
 	} catch (error) {
 		const message = error instanceof Error ? error.message : String(error);
 		const prefix = isTuiOnlyMode
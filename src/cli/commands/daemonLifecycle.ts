@@ -71,22 +71,31 @@ function getLocalHostname(
 async function withNetworkLinks(
 	baseConfig: DaemonWebConfig,
 	token: string | undefined,
+	secure: boolean,
 ): Promise<DaemonWebConfig> {
 	const externalIP = await getExternalIP();
 	const hostname = await getLocalHostname(externalIP);
 	const tokenPath = token ? `/${token}` : '';
+	const scheme = secure ? 'https' : 'http';
 
 	return {
 		...baseConfig,
 		externalUrl: externalIP
-			? `http://${externalIP}:${baseConfig.port}${tokenPath}`
+			? `${scheme}://${externalIP}:${baseConfig.port}${tokenPath}`
 			: undefined,
 		hostname: hostname
-			? `http://${hostname}:${baseConfig.port}${tokenPath}`
+			? `${scheme}://${hostname}:${baseConfig.port}${tokenPath}`
 			: undefined,
 	};
 }
 
+function isHttpsEnabled(context: CliCommandContext): boolean {
+	return (
+		context.services.configurationManager.getConfiguration().https?.enabled ===
+		true
+	);
+}
+
 function normalizeApiError(error: unknown): Error {
 	if (error instanceof ApiClientError) {
 		return new Error(error.message);
@@ -168,7 +177,11 @@ async function startDaemonInBackground(context: CliCommandContext): Promise<{
 		return {
 			pid: existingPid,
 			started: false,
-			webConfig: await withNetworkLinks(baseConfig, context.accessToken),
+			webConfig: await withNetworkLinks(
+				baseConfig,
+				context.accessToken,
+				isHttpsEnabled(context),
+			),
 		};
 	}
 
@@ -211,7 +224,11 @@ async function startDaemonInBackground(context: CliCommandContext): Promise<{
 	return {
 		pid: daemonPid,
 		started: true,
-		webConfig: await withNetworkLinks(baseConfig, context.accessToken),
+		webConfig: await withNetworkLinks(
+			baseConfig,
+			context.accessToken,
+			isHttpsEnabled(context),
+		),
 	};
 }
 
@@ -424,7 +441,11 @@ export async function runDaemonLifecycleCommand(
 				statusOutput = {
 					running: true,
 					pid,
-					webConfig: await withNetworkLinks(baseConfig, context.accessToken),
+					webConfig: await withNetworkLinks(
+						baseConfig,
+						context.accessToken,
+						isHttpsEnabled(context),
+					),
 					uptime: getProcessUptime(pid),
 				};
 			}
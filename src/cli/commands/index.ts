@@ -14,6 +14,9 @@ const registry = new Map<string, CliCommandHandler>([
 	['sessions', runQueryCommand],
 	['session', runQueryCommand],
 	['agents', runQueryCommand],
+	['usage', runQueryCommand],
+	['queue', runQueryCommand],
+	['run', runQueryCommand],
 	['add', runProjectCommand],
 	['remove', runProjectCommand],
 	['list', runProjectCommand],
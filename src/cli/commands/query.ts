@@ -2,6 +2,8 @@ import {spawnSync} from 'child_process';
 import dgram from 'dgram';
 import dns from 'dns';
 import os from 'os';
+import path from 'path';
+import {URLSearchParams} from 'url';
 import type {DaemonWebConfig} from '../../utils/daemonControl.js';
 import {ApiClientError, createApiClient} from '../apiClient.js';
 import type {CliCommandContext} from '../types.js';
@@ -68,6 +70,106 @@ interface ApiAgentsConfigResponse {
 	schemaVersion: number;
 }
 
+interface ApiUsageGroup {
+	key: string | null;
+	sessions: number;
+	totalTokens: number;
+	estimatedCostUsd: number;
+}
+
+interface ApiUsageResponse {
+	groupBy: string;
+	totals: {
+		sessions: number;
+		totalTokens: number;
+		estimatedCostUsd: number;
+	};
+	groups: ApiUsageGroup[];
+}
+
+const USAGE_GROUP_BY_VALUES = ['project', 'agent', 'model', 'task', 'day'];
+
+interface ApiMessageSearchHit {
+	sessionId: string;
+	messageId: string;
+	role: string;
+	timestamp: number | null;
+	snippet: string;
+	sessionName: string | null;
+	agentProfileName: string;
+	branchName: string | null;
+	createdAt: number;
+}
+
+interface ApiMessageSearchResponse {
+	query: string;
+	hits: ApiMessageSearchHit[];
+	total: number;
+}
+
+const SESSION_SEARCH_LIMIT = 20;
+
+interface ApiQueueJob {
+	id: string;
+	projectPath: string;
+	worktreePath: string | null;
+	branchTemplate: string | null;
+	agentId: string;
+	tdTaskId: string | null;
+	trigger: 'at' | 'cron' | 'slot';
+	cronExpression: string | null;
+	runAt: number;
+	status: 'pending' | 'launched' | 'failed' | 'cancelled';
+	sessionId: string | null;
+	lastError: string | null;
+	runCount: number;
+}
+
+interface ApiQueueListResponse {
+	jobs: ApiQueueJob[];
+	maxConcurrentAgents: number | null;
+}
+
+interface ApiQueueAddResponse {
+	success: boolean;
+	job: ApiQueueJob;
+}
+
+const QUEUE_ADD_USAGE =
+	'cacd queue add --agent <agent-id> [--project <path>] [--worktree <path> | --branch <template>] [--task <td-task-id>] [--prompt-template <name>] [--at <time> | --cron <expr>]';
+
+interface ApiWorkflowStep {
+	name?: string;
+	agentId: string;
+	after?: 'idle' | 'exit' | 'manual';
+}
+
+interface ApiWorkflowSummary {
+	name: string;
+	description: string | null;
+	steps: ApiWorkflowStep[];
+}
+
+interface ApiWorkflowRun {
+	id: string;
+	workflowName: string;
+	projectPath: string;
+	worktreePath: string | null;
+	tdTaskId: string | null;
+	status: 'running' | 'completed' | 'failed' | 'cancelled';
+	steps: Array<{
+		name: string;
+		agentId: string;
+		status: string;
+		sessionId: string | null;
+		error: string | null;
+	}>;
+	error: string | null;
+}
+
+const RUN_USAGE =
+	'cacd run <workflow> [--project <path>] [--task <td-task-id>] [--worktree <path>]';
+
 interface SessionSummary {
 	id: string;
 	agent: string;
@@ -137,22 +239,31 @@ function getLocalHostname(
 async function withNetworkLinks(
 	baseConfig: DaemonWebConfig,
 	token: string | undefined,
+	secure: boolean,
 ): Promise<DaemonWebConfig> {
 	const externalIP = await getExternalIP();
 	const hostname = await getLocalHostname(externalIP);
 	const tokenPath = token ? `/${token}` : '';
+	const scheme = secure ? 'https' : 'http';
 
 	return {
 		...baseConfig,
 		externalUrl: externalIP
-			? `http://${externalIP}:${baseConfig.port}${tokenPath}`
+			? `${scheme}://${externalIP}:${baseConfig.port}${tokenPath}`
 			: undefined,
 		hostname: hostname
-			? `http://${hostname}:${baseConfig.port}${tokenPath}`
+			? `${scheme}://${hostname}:${baseConfig.port}${tokenPath}`
 			: undefined,
 	};
 }
 
+function isHttpsEnabled(context: CliCommandContext): boolean {
+	return (
+		context.services.configurationManager.getConfiguration().https?.enabled ===
+		true
+	);
+}
+
 function normalizeApiError(error: unknown): Error {
 	if (error instanceof ApiClientError) {
 		if (error.status === 401 || error.status === 403) {
@@ -355,7 +466,11 @@ async function getDaemonStatusOutput(
 	return {
 		running: true,
 		pid,
-		webConfig: await withNetworkLinks(baseConfig, context.accessToken),
+		webConfig: await withNetworkLinks(
+			baseConfig,
+			context.accessToken,
+			isHttpsEnabled(context),
+		),
 		uptime: getProcessUptime(pid),
 	};
 }
@@ -819,6 +934,140 @@ async function runSessionStopCommand(
 	return 0;
 }
 
+function parseSinceFlag(since: string): number | null {
+	const relative = /^(\d+)d$/.exec(since);
+	if (relative) {
+		const days = Number(relative[1]);
+		return Math.floor(Date.now() / 1000) - days * 24 * 60 * 60;
+	}
+
+	if (/^\d{4}-\d{2}-\d{2}$/.test(since)) {
+		// Interpret dates in local time to match the daemon's day buckets
+		const timestamp = new Date(`${since}T00:00:00`).getTime();
+		return Number.isNaN(timestamp) ? null : Math.floor(timestamp / 1000);
+	}
+
+	return null;
+}
+
+function formatSearchSnippet(snippet: string): string {
+	return snippet.replace(/\s+/g, ' ').trim();
+}
+
+async function runSessionsSearchCommand(
+	context: CliCommandContext,
+): Promise<number> {
+	const query = context.parsedArgs.input.slice(2).join(' ').trim();
+	if (!query) {
+		context.formatter.writeError({
+			text: [
+				'Error: Missing search query',
+				'Usage: cacd sessions search <query> [--project <path>] [--since <7d|YYYY-MM-DD>]',
+			],
+			data: {
+				ok: false,
+				command: 'sessions search',
+				error: {
+					message: 'Missing search query',
+					usage:
+						'cacd sessions search <query> [--project <path>] [--since <7d|YYYY-MM-DD>]',
+				},
+			},
+		});
+		return 1;
+	}
+
+	const params = new URLSearchParams({
+		q: query,
+		limit: String(SESSION_SEARCH_LIMIT),
+		refresh: '1',
+	});
+	const projectFlag = context.parsedArgs.flags.project;
+	if (projectFlag) {
+		params.set('projectPath', path.resolve(projectFlag));
+	}
+	const since = context.parsedArgs.flags.since;
+	if (since) {
+		const dateFrom = parseSinceFlag(since);
+		if (dateFrom === null) {
+			const message = `Invalid --since value: ${since}`;
+			context.formatter.writeError({
+				text: [
+					`Error: ${message}`,
+					'Use a day count (7d) or a date (2026-01-31)',
+				],
+				data: {
+					ok: false,
+					command: 'sessions search',
+					error: {
+						message,
+					},
+				},
+			});
+			return 1;
+		}
+		params.set('dateFrom', String(dateFrom));
+	}
+
+	let result: ApiMessageSearchResponse;
+	try {
+		result = await fetchDaemonApi<ApiMessageSearchResponse>(
+			context,
+			`/api/conversations/search?${params.toString()}`,
+		);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		context.formatter.writeError({
+			text: [`Failed to search sessions: ${message}`],
+			data: {
+				ok: false,
+				command: 'sessions search',
+				error: {
+					message,
+				},
+			},
+		});
+		return 1;
+	}
+
+	if (result.hits.length === 0) {
+		context.formatter.write({
+			text: [`No messages match "${query}"`],
+			data: {
+				ok: true,
+				command: 'sessions search',
+				...result,
+			},
+		});
+		return 0;
+	}
+
+	const lines: string[] = [];
+	for (const hit of result.hits) {
+		const when = new Date(
+			(hit.timestamp ?? hit.createdAt) * 1000,
+		).toLocaleString();
+		const label = [hit.sessionName, hit.agentProfileName, hit.branchName]
+			.filter(Boolean)
+			.join(' · ');
+		lines.push(`${hit.sessionId}  ${label}  (${hit.role}, ${when})`);
+		lines.push(`  ${formatSearchSnippet(hit.snippet)}`);
+	}
+	if (result.total > result.hits.length) {
+		lines.push('', `Showing ${result.hits.length} of ${result.total} matches`);
+	}
+
+	context.formatter.write({
+		text: lines,
+		data: {
+			ok: true,
+			command: 'sessions search',
+			...result,
+		},
+	});
+	return 0;
+}
+
 async function runSessionsCommand(context: CliCommandContext): Promise<number> {
 	const action = context.parsedArgs.input[1] ?? 'list';
 
@@ -846,19 +1095,24 @@ async function runSessionsCommand(context: CliCommandContext): Promise<number> {
 		return outputSessionStatus(context, sessionId, 'sessions', 'show');
 	}
 
+	if (action === 'search') {
+		return runSessionsSearchCommand(context);
+	}
+
 	context.formatter.writeError({
 		text: [
 			`Unknown sessions command: ${action}`,
 			'Available sessions commands:',
 			'  cacd sessions list',
 			'  cacd sessions show <id>',
+			'  cacd sessions search <query>',
 		],
 		data: {
 			ok: false,
 			command: 'sessions',
 			error: {
 				message: `Unknown sessions command: ${action}`,
-				available: ['list', 'show'],
+				available: ['list', 'show', 'search'],
 			},
 		},
 	});
@@ -1049,6 +1303,565 @@ async function runAgentsCommand(context: CliCommandContext): Promise<number> {
 	return 0;
 }
 
+function formatUsageCost(cost: number): string {
+	return `$${cost.toFixed(2)}`;
+}
+
+async function runUsageCommand(context: CliCommandContext): Promise<number> {
+	const groupBy = context.parsedArgs.flags.groupBy ?? 'project';
+	if (!USAGE_GROUP_BY_VALUES.includes(groupBy)) {
+		const message = `Invalid --group-by value: ${groupBy}`;
+		context.formatter.writeError({
+			text: [
+				`Error: ${message}`,
+				`Expected one of: ${USAGE_GROUP_BY_VALUES.join(', ')}`,
+			],
+			data: {
+				ok: false,
+				command: 'usage',
+				error: {
+					message,
+					available: USAGE_GROUP_BY_VALUES,
+				},
+			},
+		});
+		return 1;
+	}
+
+	const params = new URLSearchParams({groupBy, refresh: '1'});
+	const projectFlag = context.parsedArgs.flags.project;
+	if (projectFlag) {
+		params.set('projectPath', path.resolve(projectFlag));
+	}
+
+	const since = context.parsedArgs.flags.since;
+	if (since) {
+		const dateFrom = parseSinceFlag(since);
+		if (dateFrom === null) {
+			const message = `Invalid --since value: ${since}`;
+			context.formatter.writeError({
+				text: [
+					`Error: ${message}`,
+					'Use a day count (7d) or a date (2026-01-31)',
+				],
+				data: {
+					ok: false,
+					command: 'usage',
+					error: {
+						message,
+					},
+				},
+			});
+			return 1;
+		}
+		params.set('dateFrom', String(dateFrom));
+	}
+
+	let usage: ApiUsageResponse;
+	try {
+		usage = await fetchDaemonApi<ApiUsageResponse>(
+			context,
+			`/api/analytics/usage?${params.toString()}`,
+		);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		context.formatter.writeError({
+			text: [`Failed to query usage: ${message}`],
+			data: {
+				ok: false,
+				command: 'usage',
+				error: {
+					message,
+				},
+			},
+		});
+		return 1;
+	}
+
+	if (usage.groups.length === 0) {
+		context.formatter.write({
+			text: ['No usage recorded'],
+			data: {
+				ok: true,
+				command: 'usage',
+				...usage,
+			},
+		});
+		return 0;
+	}
+
+	context.formatter.write({
+		text: [
+			...buildTableLines(
+				[groupBy, 'sessions', 'tokens', 'cost'],
+				usage.groups.map(group => [
+					group.key ?? '(none)',
+					String(group.sessions),
+					group.totalTokens.toLocaleString('en-US'),
+					formatUsageCost(group.estimatedCostUsd),
+				]),
+			),
+			'',
+			`Total: ${usage.totals.sessions} session(s), ${usage.totals.totalTokens.toLocaleString('en-US')} tokens, ${formatUsageCost(usage.totals.estimatedCostUsd)}`,
+		],
+		data: {
+			ok: true,
+			command: 'usage',
+			...usage,
+		},
+	});
+	return 0;
+}
+
+async function resolveQueueProjectPath(
+	context: CliCommandContext,
+): Promise<string | undefined> {
+	const projectFlag = context.parsedArgs.flags.project?.trim();
+	if (projectFlag) {
+		return path.resolve(projectFlag);
+	}
+
+	const state = await fetchDaemonApi<{
+		selectedProject?: {path: string} | null;
+	}>(context, '/api/state');
+	return state.selectedProject?.path ?? undefined;
+}
+
+function formatQueueTrigger(job: ApiQueueJob): string {
+	if (job.trigger === 'cron') return `cron ${job.cronExpression ?? ''}`.trim();
+	if (job.trigger === 'at') return 'at';
+	return 'when free';
+}
+
+function formatQueueRunAt(job: ApiQueueJob): string {
+	if (job.status !== 'pending') return '-';
+	if (job.trigger === 'slot') return 'next free slot';
+	return new Date(job.runAt * 1000).toLocaleString();
+}
+
+async function runQueueAddCommand(context: CliCommandContext): Promise<number> {
+	const flags = context.parsedArgs.flags;
+	const agentId = flags.agent?.trim();
+	if (!agentId) {
+		context.formatter.writeError({
+			text: [
+				'Error: Missing required --agent flag',
+				`Usage: ${QUEUE_ADD_USAGE}`,
+			],
+			data: {
+				ok: false,
+				command: 'queue add',
+				error: {
+					message: 'Missing required --agent flag',
+					usage: QUEUE_ADD_USAGE,
+				},
+			},
+		});
+		return 1;
+	}
+
+	const parsedOptions = parseSessionOptions(flags.option);
+	if (parsedOptions.error) {
+		context.formatter.writeError({
+			text: [parsedOptions.error],
+			data: {
+				ok: false,
+				command: 'queue add',
+				error: {
+					message: parsedOptions.error,
+				},
+			},
+		});
+		return 1;
+	}
+	const model = flags.model?.trim();
+	if (model) {
+		parsedOptions.options['model'] = model;
+	}
+
+	let response: ApiQueueAddResponse;
+	try {
+		const projectPath = await resolveQueueProjectPath(context);
+		if (!projectPath) {
+			throw new Error(
+				'No project selected. Use --project <path> or select a project in the daemon first.',
+			);
+		}
+
+		const worktree = flags.worktree?.trim();
+		response = await postDaemonApi<ApiQueueAddResponse>(context, '/api/queue', {
+			projectPath,
+			worktreePath: worktree ? path.resolve(worktree) : undefined,
+			branchTemplate: flags.branch?.trim() || undefined,
+			agentId,
+			agentOptions:
+				Object.keys(parsedOptions.options).length > 0
+					? parsedOptions.options
+					: undefined,
+			promptTemplate: flags.promptTemplate?.trim() || undefined,
+			tdTaskId: flags.task?.trim() || undefined,
+			sessionName: flags.name?.trim() || undefined,
+			at: flags.at?.trim() || undefined,
+			cron: flags.cron?.trim() || undefined,
+		});
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		context.formatter.writeError({
+			text: [`Failed to queue job: ${message}`],
+			data: {
+				ok: false,
+				command: 'queue add',
+				error: {
+					message,
+				},
+			},
+		});
+		return 1;
+	}
+
+	const {job} = response;
+	context.formatter.write({
+		text: [
+			`Queued job: ${job.id}`,
+			`Agent:    ${job.agentId}`,
+			`Trigger:  ${formatQueueTrigger(job)}`,
+			`Next run: ${formatQueueRunAt(job)}`,
+		],
+		data: {
+			ok: true,
+			command: 'queue add',
+			job,
+		},
+	});
+	return 0;
+}
+
+async function runQueueListCommand(
+	context: CliCommandContext,
+): Promise<number> {
+	const params = new URLSearchParams();
+	const projectFlag = context.parsedArgs.flags.project;
+	if (projectFlag) {
+		params.set('projectPath', path.resolve(projectFlag));
+	}
+	if (!context.parsedArgs.flags.all) {
+		params.set('status', 'pending');
+	}
+
+	let response: ApiQueueListResponse;
+	try {
+		const query = params.toString();
+		response = await fetchDaemonApi<ApiQueueListResponse>(
+			context,
+			`/api/queue${query ? `?${query}` : ''}`,
+		);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		context.formatter.writeError({
+			text: [`Failed to list queue: ${message}`],
+			data: {
+				ok: false,
+				command: 'queue list',
+				error: {
+					message,
+				},
+			},
+		});
+		return 1;
+	}
+
+	if (response.jobs.length === 0) {
+		context.formatter.write({
+			text: ['No queued jobs'],
+			data: {
+				ok: true,
+				command: 'queue list',
+				...response,
+			},
+		});
+		return 0;
+	}
+
+	context.formatter.write({
+		text: buildTableLines(
+			['id', 'status', 'trigger', 'next run', 'agent', 'target', 'runs'],
+			response.jobs.map(job => [
+				job.id,
+				job.status,
+				formatQueueTrigger(job),
+				formatQueueRunAt(job),
+				job.agentId,
+				job.branchTemplate ?? job.worktreePath ?? job.projectPath,
+				String(job.runCount),
+			]),
+		),
+		data: {
+			ok: true,
+			command: 'queue list',
+			...response,
+		},
+	});
+	return 0;
+}
+
+async function runQueueCancelCommand(
+	context: CliCommandContext,
+): Promise<number> {
+	const jobId = context.parsedArgs.input[2]?.trim();
+	if (!jobId) {
+		context.formatter.writeError({
+			text: ['Error: Missing job id', 'Usage: cacd queue cancel <job-id>'],
+			data: {
+				ok: false,
+				command: 'queue cancel',
+				error: {
+					message: 'Missing job id',
+					usage: 'cacd queue cancel <job-id>',
+				},
+			},
+		});
+		return 1;
+	}
+
+	try {
+		await postDaemonApi<{success: boolean}>(context, '/api/queue/cancel', {
+			id: jobId,
+		});
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		context.formatter.writeError({
+			text: [`Failed to cancel job: ${message}`],
+			data: {
+				ok: false,
+				command: 'queue cancel',
+				error: {
+					message,
+				},
+			},
+		});
+		return 1;
+	}
+
+	context.formatter.write({
+		text: [`Cancelled job: ${jobId}`],
+		data: {
+			ok: true,
+			command: 'queue cancel',
+			id: jobId,
+		},
+	});
+	return 0;
+}
+
+async function runQueueCommand(context: CliCommandContext): Promise<number> {
+	const action = context.parsedArgs.input[1] ?? 'list';
+
+	if (action === 'add') {
+		return runQueueAddCommand(context);
+	}
+
+	if (action === 'list') {
+		return runQueueListCommand(context);
+	}
+
+	if (action === 'cancel') {
+		return runQueueCancelCommand(context);
+	}
+
+	context.formatter.writeError({
+		text: [
+			`Unknown queue command: ${action}`,
+			'Available queue commands:',
+			`  ${QUEUE_ADD_USAGE}`,
+			'  cacd queue list [--project <path>] [--all]',
+			'  cacd queue cancel <job-id>',
+		],
+		data: {
+			ok: false,
+			command: 'queue',
+			error: {
+				message: `Unknown queue command: ${action}`,
+				available: ['add', 'list', 'cancel'],
+			},
+		},
+	});
+	return 1;
+}
+
+async function runWorkflowListCommand(
+	context: CliCommandContext,
+	projectPath: string,
+): Promise<number> {
+	const params = new URLSearchParams({projectPath});
+	let workflows: ApiWorkflowSummary[];
+	try {
+		workflows = (
+			await fetchDaemonApi<{workflows: ApiWorkflowSummary[]}>(
+				context,
+				`/api/workflows?${params.toString()}`,
+			)
+		).workflows;
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		context.formatter.writeError({
+			text: [`Failed to list workflows: ${message}`],
+			data: {
+				ok: false,
+				command: 'run',
+				error: {
+					message,
+				},
+			},
+		});
+		return 1;
+	}
+
+	if (workflows.length === 0) {
+		context.formatter.write({
+			text: [
+				`No workflows configured for ${projectPath}`,
+				'Add them under "workflows" in .cacd.json',
+			],
+			data: {
+				ok: true,
+				command: 'run',
+				workflows,
+			},
+		});
+		return 0;
+	}
+
+	context.formatter.write({
+		text: buildTableLines(
+			['workflow', 'steps', 'description'],
+			workflows.map(workflow => [
+				workflow.name,
+				workflow.steps
+					.map(
+						(step, index) =>
+							`${step.name || `Step ${index + 1}`} (${step.agentId})`,
+					)
+					.join(' -> '),
+				workflow.description ?? '',
+			]),
+		),
+		data: {
+			ok: true,
+			command: 'run',
+			workflows,
+		},
+	});
+	return 0;
+}
+
+async function runWorkflowCommand(context: CliCommandContext): Promise<number> {
+	const flags = context.parsedArgs.flags;
+	const workflow = context.parsedArgs.input[1]?.trim();
+
+	let projectPath: string | undefined;
+	try {
+		projectPath = await resolveQueueProjectPath(context);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		context.formatter.writeError({
+			text: [`Failed to resolve project: ${message}`],
+			data: {
+				ok: false,
+				command: 'run',
+				error: {
+					message,
+				},
+			},
+		});
+		return 1;
+	}
+	if (!projectPath) {
+		const message =
+			'No project selected. Use --project <path> or select a project in the daemon first.';
+		context.formatter.writeError({
+			text: [`Error: ${message}`, `Usage: ${RUN_USAGE}`],
+			data: {
+				ok: false,
+				command: 'run',
+				error: {
+					message,
+					usage: RUN_USAGE,
+				},
+			},
+		});
+		return 1;
+	}
+
+	if (!workflow) {
+		return runWorkflowListCommand(context, projectPath);
+	}
+
+	let run: ApiWorkflowRun;
+	try {
+		const worktree = flags.worktree?.trim();
+		run = (
+			await postDaemonApi<{success: boolean; run: ApiWorkflowRun}>(
+				context,
+				'/api/workflows/run',
+				{
+					projectPath,
+					workflow,
+					tdTaskId: flags.task?.trim() || undefined,
+					worktreePath: worktree ? path.resolve(worktree) : undefined,
+				},
+			)
+		).run;
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		context.formatter.writeError({
+			text: [`Failed to start workflow: ${message}`],
+			data: {
+				ok: false,
+				command: 'run',
+				error: {
+					message,
+				},
+			},
+		});
+		return 1;
+	}
+
+	const lines = [
+		`Workflow: ${run.workflowName}`,
+		`Run:      ${run.id}`,
+		`Status:   ${run.status}`,
+		...(run.tdTaskId ? [`Task:     ${run.tdTaskId}`] : []),
+		...run.steps.map(
+			(step, index) =>
+				`  ${index + 1}. ${step.name} (${step.agentId}): ${step.status}${step.sessionId ? ` [${step.sessionId}]` : ''}${step.error ? ` - ${step.error}` : ''}`,
+		),
+	];
+	if (run.status === 'failed') {
+		context.formatter.writeError({
+			text: lines,
+			data: {
+				ok: false,
+				command: 'run',
+				run,
+				error: {
+					message: run.error ?? 'Workflow failed',
+				},
+			},
+		});
+		return 1;
+	}
+
+	context.formatter.write({
+		text: lines,
+		data: {
+			ok: true,
+			command: 'run',
+			run,
+		},
+	});
+	return 0;
+}
+
 export async function runQueryCommand(
 	context: CliCommandContext,
 ): Promise<number> {
@@ -1071,6 +1884,18 @@ export async function runQueryCommand(
 		return runAgentsCommand(context);
 	}
 
+	if (context.subcommand === 'usage') {
+		return runUsageCommand(context);
+	}
+
+	if (context.subcommand === 'queue') {
+		return runQueueCommand(context);
+	}
+
+	if (context.subcommand === 'run') {
+		return runWorkflowCommand(context);
+	}
+
 	context.formatter.writeError({
 		text: [`Unsupported query command: ${context.subcommand}`],
 		data: {
@@ -1,3 +1,4 @@
+import path from 'path';
 import {ApiClientError, createApiClient} from '../apiClient.js';
 import type {CliCommandContext} from '../types.js';
 
@@ -5,6 +6,46 @@ interface ApiMutationResponse {
 	success: boolean;
 }
 
+interface ApiSessionPayload {
+	id: string;
+	name?: string;
+	path: string;
+	state: string;
+	isActive: boolean;
+	agentId?: string;
+}
+
+interface ApiSessionInputResponse {
+	success: boolean;
+	id: string;
+	written: number;
+	state?: string;
+}
+
+interface ApiSessionApproveResponse {
+	success: boolean;
+	id: string;
+	prompt: string;
+}
+
+interface ApiSessionApproveAllResponse {
+	success: boolean;
+	results: Array<{
+		id: string;
+		name?: string;
+		approved: boolean;
+		prompt?: string;
+		error?: string;
+	}>;
+}
+
+interface ApiNotifyResponse {
+	success: boolean;
+	delivered: string[];
+	errors: Array<{sink: string; message: string}>;
+	skipped?: string;
+}
+
 interface UiActionContext {
 	action: string | undefined;
 	actionArgs: string[];
@@ -35,6 +76,15 @@ function normalizeApiError(error: unknown): Error {
 	return new Error(String(error));
 }
 
+const DEFAULT_WAIT_IDLE_TIMEOUT_SECONDS = 600;
+const WAIT_IDLE_POLL_INTERVAL_MS = 1000;
+
+function sleep(ms: number): Promise<void> {
+	return new Promise(resolve => {
+		setTimeout(resolve, ms);
+	});
+}
+
 function createDaemonApiClient(context: CliCommandContext) {
 	return createApiClient({
 		host: '127.0.0.1',
@@ -43,6 +93,18 @@ function createDaemonApiClient(context: CliCommandContext) {
 	});
 }
 
+async function fetchDaemonApi<T>(
+	context: CliCommandContext,
+	path: string,
+): Promise<T> {
+	try {
+		const client = createDaemonApiClient(context);
+		return await client.get<T>(path);
+	} catch (error) {
+		throw normalizeApiError(error);
+	}
+}
+
 async function postDaemonApi<T>(
 	context: CliCommandContext,
 	path: string,
@@ -95,31 +157,6 @@ function writeUsageError(
 	return 1;
 }
 
-function writeNotYetSupported(
-	context: CliCommandContext,
-	commandLabel: string,
-	detail: string,
-): number {
-	const message = `${commandLabel} is not yet supported by daemon API`;
-	context.formatter.writeError({
-		text: [
-			`Error: ${message}`,
-			`Detail: ${detail}`,
-			'No client-side orchestration was attempted.',
-		],
-		data: {
-			ok: false,
-			command: commandLabel,
-			error: {
-				message,
-				detail,
-				notSupportedByDaemonApi: true,
-			},
-		},
-	});
-	return 1;
-}
-
 async function runFocusCommand(
 	context: CliCommandContext,
 	commandLabel: string,
@@ -169,71 +206,367 @@ async function runFocusCommand(
 	}
 }
 
-function runUnsupportedSendCommand(
+/**
+ * Resolve a session reference (ID or session name) against the daemon's
+ * active sessions. Names must be unambiguous.
+ */
+async function resolveActiveSession(
+	context: CliCommandContext,
+	reference: string,
+): Promise<ApiSessionPayload> {
+	const sessions = await fetchDaemonApi<ApiSessionPayload[]>(
+		context,
+		'/api/sessions',
+	);
+
+	const byId = sessions.find(session => session.id === reference);
+	if (byId) {
+		return byId;
+	}
+
+	const byName = sessions.filter(session => session.name === reference);
+	const candidates =
+		byName.length > 0
+			? byName
+			: sessions.filter(
+					session => session.name?.toLowerCase() === reference.toLowerCase(),
+				);
+
+	if (candidates.length === 1) {
+		return candidates[0]!;
+	}
+
+	if (candidates.length > 1) {
+		throw new Error(
+			`Session name "${reference}" is ambiguous: ${candidates.map(session => session.id).join(', ')}`,
+		);
+	}
+
+	throw new Error(`No active session matches "${reference}"`);
+}
+
+async function readStdinText(): Promise<string> {
+	const chunks: Buffer[] = [];
+	for await (const chunk of process.stdin) {
+		chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk)));
+	}
+	// Drop the single trailing newline most producers (echo, heredocs) append.
+	return Buffer.concat(chunks)
+		.toString('utf8')
+		.replace(/\r?\n$/, '');
+}
+
+async function waitForSessionIdle(
+	context: CliCommandContext,
+	sessionId: string,
+	timeoutSeconds: number,
+): Promise<void> {
+	const deadline = Date.now() + timeoutSeconds * 1000;
+
+	while (true) {
+		const sessions = await fetchDaemonApi<ApiSessionPayload[]>(
+			context,
+			'/api/sessions',
+		);
+		const session = sessions.find(candidate => candidate.id === sessionId);
+		if (!session) {
+			throw new Error(`Session ${sessionId} ended while waiting for idle`);
+		}
+		if (session.state === 'idle') {
+			return;
+		}
+		if (Date.now() >= deadline) {
+			throw new Error(
+				`Timed out after ${timeoutSeconds}s waiting for session ${sessionId} to become idle (state: ${session.state})`,
+			);
+		}
+		await sleep(WAIT_IDLE_POLL_INTERVAL_MS);
+	}
+}
+
+async function runSendCommand(
 	context: CliCommandContext,
 	commandLabel: string,
 	actionArgs: string[],
-): number {
-	const sessionId = actionArgs[0];
-	const message = actionArgs.slice(1).join(' ').trim();
-	if (!sessionId || !message) {
+): Promise<number> {
+	const usage =
+		'cacd send <session-id|name> [message] [--enter] [--stdin] [--wait-idle] [--timeout <seconds>]';
+	const {flags} = context.parsedArgs;
+	const sessionRef = actionArgs[0];
+	if (!sessionRef) {
+		return writeUsageError(context, commandLabel, usage, 'Missing session id');
+	}
+
+	const argMessage = actionArgs.slice(1).join(' ');
+	if (flags.stdin && argMessage.length > 0) {
 		return writeUsageError(
 			context,
 			commandLabel,
-			'cacd send <session-id> <message>',
-			'Missing session id or message',
+			usage,
+			'Pass the message either as an argument or via --stdin, not both',
 		);
 	}
 
-	return writeNotYetSupported(
-		context,
-		commandLabel,
-		'No REST endpoint exists for sending terminal/session input (WebUI uses Socket.IO input events).',
-	);
+	const timeoutSeconds = flags.timeout ?? DEFAULT_WAIT_IDLE_TIMEOUT_SECONDS;
+	if (!Number.isFinite(timeoutSeconds) || timeoutSeconds <= 0) {
+		return writeUsageError(
+			context,
+			commandLabel,
+			usage,
+			'--timeout must be a positive number of seconds',
+		);
+	}
+
+	try {
+		const message = flags.stdin ? await readStdinText() : argMessage;
+		if (message.length === 0 && !flags.enter) {
+			return writeUsageError(
+				context,
+				commandLabel,
+				usage,
+				'Missing message (use --enter to send a bare Enter key)',
+			);
+		}
+
+		const session = await resolveActiveSession(context, sessionRef);
+		if (flags.waitIdle) {
+			await waitForSessionIdle(context, session.id, timeoutSeconds);
+		}
+
+		const response = await postDaemonApi<ApiSessionInputResponse>(
+			context,
+			'/api/session/input',
+			{id: session.id, text: message, enter: flags.enter},
+		);
+
+		context.formatter.write({
+			text: [
+				`Sent ${response.written} chars to session ${session.id}${flags.enter ? ' (submitted)' : ''}`,
+			],
+			data: {
+				ok: true,
+				command: commandLabel,
+				sessionId: session.id,
+				written: response.written,
+				submitted: flags.enter,
+				state: response.state,
+			},
+		});
+		return 0;
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		context.formatter.writeError({
+			text: [`Failed to send input to session ${sessionRef}: ${message}`],
+			data: {
+				ok: false,
+				command: commandLabel,
+				error: {
+					message,
+					sessionId: sessionRef,
+				},
+			},
+		});
+		return 1;
+	}
+}
+
+function formatApprovedPrompt(prompt: string | undefined): string[] {
+	if (!prompt) {
+		return [];
+	}
+	return prompt.split('\n').map(line => `  > ${line}`);
 }
 
-function runUnsupportedApproveCommand(
+async function runApproveAllCommand(
 	context: CliCommandContext,
 	commandLabel: string,
-	actionArgs: string[],
-): number {
-	const sessionId = actionArgs[0];
-	if (!sessionId) {
-		return writeUsageError(
+): Promise<number> {
+	const projectFlag = context.parsedArgs.flags.project?.trim();
+	const projectPath = projectFlag ? path.resolve(projectFlag) : undefined;
+
+	try {
+		const response = await postDaemonApi<ApiSessionApproveAllResponse>(
 			context,
-			commandLabel,
-			'cacd approve <session-id>',
-			'Missing session id',
+			'/api/session/approve',
+			{all: true, projectPath},
 		);
+		const approved = response.results.filter(result => result.approved);
+		const failed = response.results.filter(result => !result.approved);
+
+		const text: string[] =
+			response.results.length === 0
+				? [
+						`No sessions waiting for approval${projectPath ? ` in ${projectPath}` : ''}`,
+					]
+				: [];
+		for (const result of approved) {
+			text.push(`Approved ${result.name || result.id}:`);
+			text.push(...formatApprovedPrompt(result.prompt));
+		}
+		for (const result of failed) {
+			text.push(
+				`Skipped ${result.name || result.id}: ${result.error || 'not approved'}`,
+			);
+		}
+
+		context.formatter.write({
+			text,
+			data: {
+				ok: failed.length === 0,
+				command: commandLabel,
+				projectPath,
+				approved: approved.length,
+				results: response.results,
+			},
+		});
+		return failed.length === 0 ? 0 : 1;
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		context.formatter.writeError({
+			text: [`Failed to approve waiting sessions: ${message}`],
+			data: {
+				ok: false,
+				command: commandLabel,
+				error: {
+					message,
+					projectPath,
+				},
+			},
+		});
+		return 1;
 	}
+}
 
-	return writeNotYetSupported(
-		context,
-		commandLabel,
-		'No session-level approve endpoint exists in daemon API.',
-	);
+async function runApproveCommand(
+	context: CliCommandContext,
+	commandLabel: string,
+	actionArgs: string[],
+): Promise<number> {
+	const usage =
+		'cacd approve <session-id|name> | cacd approve --all [--project <path>]';
+	const {flags} = context.parsedArgs;
+	const sessionRef = actionArgs[0];
+
+	if (flags.all) {
+		if (sessionRef) {
+			return writeUsageError(
+				context,
+				commandLabel,
+				usage,
+				'Pass either a session or --all, not both',
+			);
+		}
+		return runApproveAllCommand(context, commandLabel);
+	}
+
+	if (!sessionRef) {
+		return writeUsageError(context, commandLabel, usage, 'Missing session id');
+	}
+
+	try {
+		const session = await resolveActiveSession(context, sessionRef);
+		if (
+			session.state !== 'waiting_input' &&
+			session.state !== 'pending_auto_approval'
+		) {
+			throw new Error(
+				`Session is not waiting for approval (state: ${session.state})`,
+			);
+		}
+
+		const response = await postDaemonApi<ApiSessionApproveResponse>(
+			context,
+			'/api/session/approve',
+			{id: session.id},
+		);
+
+		context.formatter.write({
+			text: [
+				`Approved session ${session.name || session.id}:`,
+				...formatApprovedPrompt(response.prompt),
+			],
+			data: {
+				ok: true,
+				command: commandLabel,
+				sessionId: session.id,
+				prompt: response.prompt,
+			},
+		});
+		return 0;
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		context.formatter.writeError({
+			text: [`Failed to approve session ${sessionRef}: ${message}`],
+			data: {
+				ok: false,
+				command: commandLabel,
+				error: {
+					message,
+					sessionId: sessionRef,
+				},
+			},
+		});
+		return 1;
+	}
 }
 
-function runUnsupportedNotifyCommand(
+async function runNotifyCommand(
 	context: CliCommandContext,
 	commandLabel: string,
 	actionArgs: string[],
-): number {
+): Promise<number> {
+	const usage = 'cacd notify <message> [--force]';
 	const message = actionArgs.join(' ').trim();
 	if (!message) {
 		return writeUsageError(
 			context,
 			commandLabel,
-			'cacd notify <message>',
+			usage,
 			'Missing notification message',
 		);
 	}
 
-	return writeNotYetSupported(
-		context,
-		commandLabel,
-		'No daemon API endpoint exists for posting arbitrary UI notifications.',
-	);
+	try {
+		const response = await postDaemonApi<ApiNotifyResponse>(
+			context,
+			'/api/notify',
+			{message, force: context.parsedArgs.flags.force},
+		);
+
+		const text = response.skipped
+			? [`Notification not sent: ${response.skipped}`]
+			: [`Notification sent via ${response.delivered.join(', ')}`];
+		for (const error of response.errors) {
+			text.push(`  ${error.sink} failed: ${error.message}`);
+		}
+
+		const ok = response.delivered.length > 0 && response.errors.length === 0;
+		context.formatter.write({
+			text,
+			data: {
+				ok,
+				command: commandLabel,
+				message,
+				delivered: response.delivered,
+				errors: response.errors,
+				skipped: response.skipped,
+			},
+		});
+		return ok ? 0 : 1;
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		context.formatter.writeError({
+			text: [`Failed to send notification: ${errorMessage}`],
+			data: {
+				ok: false,
+				command: commandLabel,
+				error: {
+					message: errorMessage,
+				},
+			},
+		});
+		return 1;
+	}
 }
 
 function writeUiCommandHelp(context: CliCommandContext): number {
@@ -241,10 +574,10 @@ function writeUiCommandHelp(context: CliCommandContext): number {
 		text: [
 			'Missing or unsupported UI action.',
 			'Available commands:',
-			'  cacd ui send <session-id> <message>     (stub: not yet supported)',
-			'  cacd ui approve <session-id>            (stub: not yet supported)',
+			'  cacd ui send <session-id|name> <message> [--enter] [--stdin] [--wait-idle]',
+			'  cacd ui approve <session-id|name>       (or --all [--project <path>])',
 			'  cacd ui focus <session-id>              (supported)',
-			'  cacd ui notify <message>                (stub: not yet supported)',
+			'  cacd ui notify <message> [--force]      (send through notification sinks)',
 			'',
 			'Aliases:',
 			'  cacd send ... | cacd approve ... | cacd focus ... | cacd notify ...',
@@ -275,15 +608,15 @@ export async function runUiCommand(
 	}
 
 	if (action === 'send') {
-		return runUnsupportedSendCommand(context, commandLabel, actionArgs);
+		return runSendCommand(context, commandLabel, actionArgs);
 	}
 
 	if (action === 'approve') {
-		return runUnsupportedApproveCommand(context, commandLabel, actionArgs);
+		return runApproveCommand(context, commandLabel, actionArgs);
 	}
 
 	if (action === 'notify') {
-		return runUnsupportedNotifyCommand(context, commandLabel, actionArgs);
+		return runNotifyCommand(context, commandLabel, actionArgs);
 	}
 
 	return writeUiCommandHelp(context);
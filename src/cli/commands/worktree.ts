@@ -1,4 +1,5 @@
 import type {ConfigurationData} from '../../types/index.js';
+import {URLSearchParams} from 'url';
 import {generateWorktreeDirectory} from '../../utils/worktreeUtils.js';
 import {ApiClientError, createApiClient} from '../apiClient.js';
 import type {CliCommandContext} from '../types.js';
@@ -35,6 +36,23 @@ interface ApiCreateWorktreeResponse {
 	};
 }
 
+interface ApiCleanupCandidate {
+	path: string;
+	branch: string | null;
+	projectPath: string;
+	reasons: string[];
+	risks: string[];
+	recommended: boolean;
+	lastActivityAt: number | null;
+}
+
+interface ApiCleanupResult {
+	path: string;
+	success: boolean;
+	error?: string;
+	warnings?: string[];
+}
+
 const WORKTREE_API_NOT_SUPPORTED_MESSAGE =
 	'Worktree command not yet supported by this daemon version — requires running daemon with worktree API support.';
 
@@ -122,6 +140,18 @@ function normalizeBranchName(branch: string | undefined): string {
 	return branch.replace(/^refs\/heads\//, '');
 }
 
+function withWarnings(lines: string[], warnings: string[]): string[] {
+	if (warnings.length === 0) {
+		return lines;
+	}
+	return [
+		...lines,
+		'',
+		'Warnings:',
+		...warnings.map(warning => `  - ${warning}`),
+	];
+}
+
 function buildTableLines(headers: string[], rows: string[][]): string[] {
 	const widths = headers.map((header, index) => {
 		const rowWidths = rows.map(row => row[index]?.length ?? 0);
@@ -295,20 +325,16 @@ async function runWorktreeCreateCommand(
 
 	const createdPath = result.worktree?.path || worktreePath;
 	const warnings = result.warnings ?? result.worktree?.warnings ?? [];
-	const lines = [
-		`Created worktree: ${createdPath}`,
-		`Branch: ${normalizeBranchName(result.worktree?.branch || branch)}`,
-		`Base branch: ${baseBranch}`,
-	];
-	if (warnings.length > 0) {
-		lines.push('', 'Warnings:');
-		for (const warning of warnings) {
-			lines.push(`  - ${warning}`);
-		}
-	}
 
 	context.formatter.write({
-		text: lines,
+		text: withWarnings(
+			[
+				`Created worktree: ${createdPath}`,
+				`Branch: ${normalizeBranchName(result.worktree?.branch || branch)}`,
+				`Base branch: ${baseBranch}`,
+			],
+			warnings,
+		),
 		data: {
 			ok: true,
 			command: 'worktree create',
@@ -447,12 +473,18 @@ async function runWorktreeDeleteCommand(
 
 	const projectPath = context.parsedArgs.flags.project?.trim();
 
+	let warnings: string[] = [];
 	try {
-		await postDaemonApi<{success: boolean}>(context, '/api/worktree/delete', {
-			path: worktreePath,
-			deleteBranch: false,
-			projectPath,
-		});
+		const result = await postDaemonApi<{success: boolean; warnings?: string[]}>(
+			context,
+			'/api/worktree/delete',
+			{
+				path: worktreePath,
+				deleteBranch: false,
+				projectPath,
+			},
+		);
+		warnings = result.warnings ?? [];
 	} catch (error) {
 		const message = error instanceof Error ? error.message : String(error);
 		context.formatter.writeError({
@@ -467,11 +499,12 @@ async function runWorktreeDeleteCommand(
 	}
 
 	context.formatter.write({
-		text: [`Deleted worktree: ${worktreePath}`],
+		text: withWarnings([`Deleted worktree: ${worktreePath}`], warnings),
 		data: {
 			ok: true,
 			command: 'worktree delete',
 			path: worktreePath,
+			warnings,
 		},
 	});
 	return 0;
@@ -564,12 +597,18 @@ async function runWorktreeMergeCommand(
 		}
 	}
 
+	let warnings: string[] = [];
 	try {
-		await postDaemonApi<{success: boolean}>(context, '/api/worktree/merge', {
-			sourceBranch,
-			targetBranch,
-			useRebase: false,
-		});
+		const result = await postDaemonApi<{success: boolean; warnings?: string[]}>(
+			context,
+			'/api/worktree/merge',
+			{
+				sourceBranch,
+				targetBranch,
+				useRebase: false,
+			},
+		);
+		warnings = result.warnings ?? [];
 	} catch (error) {
 		const message = error instanceof Error ? error.message : String(error);
 		context.formatter.writeError({
@@ -584,21 +623,168 @@ async function runWorktreeMergeCommand(
 	}
 
 	context.formatter.write({
-		text: [
-			`Merged ${sourceBranch} into ${targetBranch}`,
-			`Worktree: ${worktreePath}`,
-		],
+		text: withWarnings(
+			[
+				`Merged ${sourceBranch} into ${targetBranch}`,
+				`Worktree: ${worktreePath}`,
+			],
+			warnings,
+		),
 		data: {
 			ok: true,
 			command: 'worktree merge',
 			path: worktreePath,
 			sourceBranch,
 			targetBranch,
+			warnings,
 		},
 	});
 	return 0;
 }
 
+function formatLastActivity(timestamp: number | null): string {
+	if (timestamp === null) {
+		return '-';
+	}
+
+	const days = Math.floor((Date.now() / 1000 - timestamp) / (24 * 60 * 60));
+	return days <= 0 ? 'today' : `${days}d ago`;
+}
+
+async function runWorktreePruneCommand(
+	context: CliCommandContext,
+): Promise<number> {
+	const projectPath = context.parsedArgs.flags.project?.trim();
+	const dryRun = context.parsedArgs.flags.dryRun;
+	const includeRisky = context.parsedArgs.flags.force;
+	const staleDays = context.parsedArgs.flags.staleDays;
+
+	const query = new URLSearchParams();
+	if (projectPath) {
+		query.set('projectPath', projectPath);
+	}
+	if (staleDays !== undefined) {
+		query.set('staleDays', String(staleDays));
+	}
+
+	let candidates: ApiCleanupCandidate[];
+	try {
+		const response = await fetchDaemonApi<{candidates: ApiCleanupCandidate[]}>(
+			context,
+			`/api/worktrees/cleanup-candidates${query.toString() ? `?${query.toString()}` : ''}`,
+		);
+		candidates = response.candidates;
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		context.formatter.writeError({
+			text: [`Failed to analyze worktrees: ${message}`],
+			data: {
+				ok: false,
+				command: 'worktree prune',
+				error: {message},
+			},
+		});
+		return 1;
+	}
+
+	const selected = candidates.filter(
+		candidate => includeRisky || candidate.recommended,
+	);
+	const table = buildTableLines(
+		['path', 'branch', 'reasons', 'risks', 'last activity'],
+		candidates.map(candidate => [
+			candidate.path,
+			normalizeBranchName(candidate.branch ?? undefined),
+			candidate.reasons.join(','),
+			candidate.risks.join(',') || '-',
+			formatLastActivity(candidate.lastActivityAt),
+		]),
+	);
+
+	if (candidates.length === 0 || dryRun) {
+		const skipped = candidates.length - selected.length;
+		context.formatter.write({
+			text:
+				candidates.length === 0
+					? ['No worktrees to clean up']
+					: [
+							...table,
+							'',
+							`${selected.length} worktree(s) would be deleted.`,
+							...(skipped > 0
+								? [
+										`${skipped} worktree(s) with uncommitted or unmerged work are kept; use --force to include them.`,
+									]
+								: []),
+						],
+			data: {
+				ok: true,
+				command: 'worktree prune',
+				dryRun,
+				projectPath: projectPath || null,
+				candidates,
+				selected: selected.map(candidate => candidate.path),
+			},
+		});
+		return 0;
+	}
+
+	let results: ApiCleanupResult[] = [];
+	if (selected.length > 0) {
+		try {
+			const response = await postDaemonApi<{results: ApiCleanupResult[]}>(
+				context,
+				'/api/worktrees/cleanup',
+				{
+					worktrees: selected.map(candidate => ({
+						path: candidate.path,
+						projectPath: candidate.projectPath,
+						// Merged branches have nothing left to keep
+						deleteBranch: candidate.reasons.includes('merged'),
+					})),
+				},
+			);
+			results = response.results;
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			context.formatter.writeError({
+				text: [`Failed to delete worktrees: ${message}`],
+				data: {
+					ok: false,
+					command: 'worktree prune',
+					error: {message},
+				},
+			});
+			return 1;
+		}
+	}
+
+	const failed = results.filter(result => !result.success);
+	const warnings = results.flatMap(result => result.warnings ?? []);
+	context.formatter.write({
+		text: withWarnings(
+			[
+				`Deleted ${results.length - failed.length} of ${candidates.length} candidate worktree(s)`,
+				...results.map(result =>
+					result.success
+						? `  deleted  ${result.path}`
+						: `  failed   ${result.path}: ${result.error}`,
+				),
+			],
+			warnings,
+		),
+		data: {
+			ok: failed.length === 0,
+			command: 'worktree prune',
+			dryRun: false,
+			projectPath: projectPath || null,
+			candidates,
+			results,
+		},
+	});
+	return failed.length === 0 ? 0 : 1;
+}
+
 export async function runWorktreeCommand(
 	context: CliCommandContext,
 ): Promise<number> {
@@ -620,6 +806,10 @@ export async function runWorktreeCommand(
 		return runWorktreeMergeCommand(context);
 	}
 
+	if (action === 'prune') {
+		return runWorktreePruneCommand(context);
+	}
+
 	context.formatter.writeError({
 		text: [
 			`Unknown worktree command: ${action}`,
@@ -628,13 +818,14 @@ export async function runWorktreeCommand(
 			'  cacd worktree list [--project <path>]',
 			'  cacd worktree delete <path>',
 			'  cacd worktree merge <path> [--target <branch>]',
+			'  cacd worktree prune [--project <path>] [--dry-run] [--stale-days <n>] [--force]',
 		],
 		data: {
 			ok: false,
 			command: 'worktree',
 			error: {
 				message: `Unknown worktree command: ${action}`,
-				available: ['create', 'list', 'delete', 'merge'],
+				available: ['create', 'list', 'delete', 'merge', 'prune'],
 			},
 		},
 	});
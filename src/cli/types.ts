@@ -25,6 +25,17 @@ export interface CliFlags {
 	intent?: string;
 	option?: string | string[];
 	description?: string;
+	enter: boolean;
+	stdin: boolean;
+	waitIdle: boolean;
+	timeout?: number;
+	all: boolean;
+	groupBy?: string;
+	since?: string;
+	at?: string;
+	cron?: string;
+	dryRun: boolean;
+	staleDays?: number;
 }
 
 export interface ParsedCliArgs {
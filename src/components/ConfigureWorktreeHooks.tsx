@@ -3,7 +3,11 @@ import {Box, Text, useInput} from 'ink';
 import TextInputWrapper from './TextInputWrapper.js';
 import SelectInput from 'ink-select-input';
 import {configurationManager} from '../services/configurationManager.js';
-import {WorktreeHookConfig} from '../types/index.js';
+import {
+	WORKTREE_HOOK_EVENTS,
+	WorktreeHookConfig,
+	WorktreeHookEvent,
+} from '../types/index.js';
 
 interface ConfigureWorktreeHooksProps {
 	onComplete: () => void;
@@ -11,6 +15,31 @@ interface ConfigureWorktreeHooksProps {
 
 type View = 'menu' | 'edit';
 
+const HOOK_LABELS: Record<WorktreeHookEvent, string> = {
+	pre_creation: 'Pre Creation',
+	post_creation: 'Post Creation',
+	pre_delete: 'Pre Delete',
+	post_delete: 'Post Delete',
+	pre_merge: 'Pre Merge',
+	post_merge: 'Post Merge',
+	session_start: 'Session Start',
+	session_end: 'Session End',
+};
+
+const HOOK_DESCRIPTIONS: Record<WorktreeHookEvent, string> = {
+	pre_creation:
+		'Command to execute before creating a worktree (non-zero exit cancels):',
+	post_creation: 'Command to execute after creating a new worktree:',
+	pre_delete:
+		'Command to execute before deleting a worktree (non-zero exit cancels):',
+	post_delete: 'Command to execute after deleting a worktree:',
+	pre_merge:
+		'Command to execute before merging a worktree (non-zero exit cancels):',
+	post_merge: 'Command to execute after merging a worktree:',
+	session_start: 'Command to execute when an agent session starts:',
+	session_end: 'Command to execute when an agent session ends:',
+};
+
 interface MenuItem {
 	label: string;
 	value: string;
@@ -23,6 +52,8 @@ const ConfigureWorktreeHooks: React.FC<ConfigureWorktreeHooksProps> = ({
 	const [worktreeHooks, setWorktreeHooks] = useState<WorktreeHookConfig>(
 		configurationManager.getWorktreeHooks(),
 	);
+	const [currentEvent, setCurrentEvent] =
+		useState<WorktreeHookEvent>('post_creation');
 	const [currentCommand, setCurrentCommand] = useState('');
 	const [currentEnabled, setCurrentEnabled] = useState(false);
 	const [showSaveMessage, setShowSaveMessage] = useState(false);
@@ -43,13 +74,15 @@ const ConfigureWorktreeHooks: React.FC<ConfigureWorktreeHooksProps> = ({
 		const items: MenuItem[] = [];
 
 		// Add worktree hook items
-		const postCreationHook = worktreeHooks.post_creation;
-		const postCreationEnabled = postCreationHook?.enabled ? '✓' : '✗';
-		const postCreationCommand = postCreationHook?.command || '(not set)';
-		items.push({
-			label: `Post Creation: ${postCreationEnabled} ${postCreationCommand}`,
-			value: 'worktree:post_creation',
-		});
+		for (const event of WORKTREE_HOOK_EVENTS) {
+			const hook = worktreeHooks[event];
+			const enabled = hook?.enabled ? '✓' : '✗';
+			const command = hook?.command || '(not set)';
+			items.push({
+				label: `${HOOK_LABELS[event]}: ${enabled} ${command}`,
+				value: `worktree:${event}`,
+			});
+		}
 
 		items.push({
 			label: '',
@@ -78,11 +111,10 @@ const ConfigureWorktreeHooks: React.FC<ConfigureWorktreeHooksProps> = ({
 			}, 1000);
 		} else if (item.value === 'cancel') {
 			onComplete();
-		} else if (
-			!item.value.includes('separator') &&
-			item.value === 'worktree:post_creation'
-		) {
-			const hook = worktreeHooks.post_creation;
+		} else if (item.value.startsWith('worktree:')) {
+			const event = item.value.slice('worktree:'.length) as WorktreeHookEvent;
+			const hook = worktreeHooks[event];
+			setCurrentEvent(event);
 			setCurrentCommand(hook?.command || '');
 			setCurrentEnabled(hook?.enabled ?? true);
 			setView('edit');
@@ -92,7 +124,8 @@ const ConfigureWorktreeHooks: React.FC<ConfigureWorktreeHooksProps> = ({
 	const handleCommandSubmit = (value: string) => {
 		setWorktreeHooks(prev => ({
 			...prev,
-			post_creation: {
+			[currentEvent]: {
+				...prev[currentEvent],
 				command: value,
 				enabled: currentEnabled,
 			},
@@ -117,12 +150,12 @@ const ConfigureWorktreeHooks: React.FC<ConfigureWorktreeHooksProps> = ({
 			<Box flexDirection="column">
 				<Box marginBottom={1}>
 					<Text bold color="green">
-						Configure Post Worktree Creation Hook
+						Configure {HOOK_LABELS[currentEvent]} Hook
 					</Text>
 				</Box>
 
 				<Box marginBottom={1}>
-					<Text>Command to execute after creating a new worktree:</Text>
+					<Text>{HOOK_DESCRIPTIONS[currentEvent]}</Text>
 				</Box>
 
 				<Box marginBottom={1}>
@@ -147,7 +180,7 @@ const ConfigureWorktreeHooks: React.FC<ConfigureWorktreeHooksProps> = ({
 					</Text>
 				</Box>
 				<Box>
-					<Text dimColor>CACD_BASE_BRANCH, CACD_GIT_ROOT</Text>
+					<Text dimColor>CACD_GIT_ROOT, CACD_HOOK_EVENT</Text>
 				</Box>
 
 				<Box marginTop={1}>
@@ -175,7 +208,7 @@ const ConfigureWorktreeHooks: React.FC<ConfigureWorktreeHooksProps> = ({
 				items={getMenuItems()}
 				onSelect={handleMenuSelect}
 				isFocused={true}
-				limit={10}
+				limit={12}
 			/>
 
 			<Box marginTop={1}>
@@ -120,7 +120,7 @@ const Menu: React.FC<MenuProps> = ({
 	const [baseWorktrees, setBaseWorktrees] = useState<Worktree[]>([]);
 	const [defaultBranch, setDefaultBranch] = useState<string | null>(null);
 	const [loadError, setLoadError] = useState<string | null>(null);
-	const worktrees = useGitStatus(baseWorktrees, defaultBranch);
+	const worktrees = useGitStatus(baseWorktrees);
 	const [sessions, setSessions] = useState<ApiSession[]>([]);
 	const [items, setItems] = useState<MenuItem[]>([]);
 	const [otherProjects, setOtherProjects] = useState<Project[]>([]);
@@ -118,7 +118,7 @@ describe('MergeWorktree - Effect Integration', () => {
 		];
 
 		const mockGetEffect = Effect.succeed(mockWorktrees);
-		const mockMergeEffect = Effect.succeed(undefined);
+		const mockMergeEffect = Effect.succeed({success: true});
 
 		const mockGetWorktreesEffect = vi.fn(() => mockGetEffect);
 		const mockMergeWorktreeEffect = vi.fn(() => mockMergeEffect);
@@ -260,8 +260,8 @@ describe('MergeWorktree - Effect Integration', () => {
 		];
 
 		const mockGetEffect = Effect.succeed(mockWorktrees);
-		const mockMergeEffect = Effect.succeed(undefined);
-		const mockDeleteEffect = Effect.succeed(undefined);
+		const mockMergeEffect = Effect.succeed({success: true});
+		const mockDeleteEffect = Effect.succeed({success: true});
 
 		const mockGetWorktreesEffect = vi.fn(() => mockGetEffect);
 		const mockMergeWorktreeEffect = vi.fn(() => mockMergeEffect);
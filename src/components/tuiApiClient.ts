@@ -1,6 +1,7 @@
 /* global URL, RequestInit, Headers, fetch */
 import {EventEmitter} from 'events';
 import {io, Socket} from 'socket.io-client';
+import type {GitStatus} from '../utils/gitStatus.js';
 import {
 	AgentConfig,
 	GitProject,
@@ -56,6 +57,12 @@ export interface SessionUpdatePayload {
 	autoApprovalReason?: string;
 }
 
+export interface WorktreeStatusPayload {
+	worktreePath: string;
+	gitStatus?: GitStatus;
+	gitStatusError?: string;
+}
+
 export interface TerminalDataPayload {
 	sessionId: string;
 	data: string;
@@ -162,6 +169,9 @@ class TuiApiClient extends EventEmitter {
 			this.socket.on('terminal_data', (payload: TerminalDataPayload) => {
 				this.emit('terminal_data', payload);
 			});
+			this.socket.on('worktree_status', (payload: WorktreeStatusPayload) => {
+				this.emit('worktree_status', payload);
+			});
 		}
 
 		if (!this.socket.connected) {
@@ -1,26 +1,24 @@
-import {describe, it, expect, vi, beforeEach, afterEach} from 'vitest';
+import {describe, it, expect, vi, afterEach} from 'vitest';
 import React from 'react';
 import {render, cleanup} from 'ink-testing-library';
 import {Text} from 'ink';
-import {Effect, Exit} from 'effect';
 import {useGitStatus} from './useGitStatus.js';
+import {tuiApiClient as mockClient} from '../components/tuiApiClient.js';
 import type {Worktree} from '../types/index.js';
-import {getGitStatusLimited, type GitStatus} from '../utils/gitStatus.js';
-import {GitError} from '../types/errors.js';
+import type {GitStatus} from '../utils/gitStatus.js';
 
-// Mock the gitStatus module
-vi.mock('../utils/gitStatus.js', () => ({
-	getGitStatusLimited: vi.fn(),
-}));
+vi.mock('../components/tuiApiClient.js', async () => {
+	const {EventEmitter} = await import('events');
+	return {tuiApiClient: new EventEmitter()};
+});
 
 describe('useGitStatus', () => {
-	const mockGetGitStatus = getGitStatusLimited as ReturnType<typeof vi.fn>;
-
-	const createWorktree = (path: string): Worktree => ({
+	const createWorktree = (path: string, gitStatus?: GitStatus): Worktree => ({
 		path,
 		branch: 'main',
 		isMainWorktree: false,
 		hasSession: false,
+		gitStatus,
 	});
 
 	const createGitStatus = (added = 1, deleted = 0): GitStatus => ({
@@ -31,220 +29,160 @@ describe('useGitStatus', () => {
 		parentBranch: 'main',
 	});
 
-	beforeEach(() => {
-		vi.useFakeTimers();
-		mockGetGitStatus.mockClear();
-	});
+	// Effects run after the first render, so wait for the subscription
+	const waitForSubscription = () =>
+		vi.waitFor(() => {
+			expect(mockClient.listenerCount('worktree_status')).toBe(1);
+		});
 
 	afterEach(() => {
-		vi.useRealTimers();
 		cleanup();
 	});
 
-	// Main behavioral test
-	it('should fetch and update git status for worktrees', async () => {
-		const worktrees = [createWorktree('/path1'), createWorktree('/path2')];
-		const gitStatus1 = createGitStatus(5, 3);
-		const gitStatus2 = createGitStatus(2, 1);
+	it('should apply pushed status updates to the listed worktrees', async () => {
+		const worktrees = [
+			createWorktree('/path1', createGitStatus(0, 0)),
+			createWorktree('/path2', createGitStatus(2, 1)),
+		];
 		let hookResult: Worktree[] = [];
 
-		mockGetGitStatus.mockImplementation(path => {
-			if (path === '/path1') {
-				return Effect.succeed(gitStatus1);
-			}
-			return Effect.succeed(gitStatus2);
-		});
-
 		const TestComponent = () => {
-			hookResult = useGitStatus(worktrees, 'main', 100);
+			hookResult = useGitStatus(worktrees);
 			return React.createElement(Text, null, 'test');
 		};
 
 		render(React.createElement(TestComponent));
+		await waitForSubscription();
 
-		// Should return worktrees immediately
+		// Should return worktrees with their listed status immediately
 		expect(hookResult).toEqual(worktrees);
 
-		// Wait for status updates
-		await vi.waitFor(() => {
-			expect(hookResult[0]?.gitStatus).toBeDefined();
-			expect(hookResult[1]?.gitStatus).toBeDefined();
+		mockClient.emit('worktree_status', {
+			worktreePath: '/path1',
+			gitStatus: createGitStatus(5, 3),
 		});
 
-		// Should have correct status for each worktree
-		expect(hookResult[0]?.gitStatus).toEqual(gitStatus1);
-		expect(hookResult[1]?.gitStatus).toEqual(gitStatus2);
-	});
-
-	it('should handle empty worktree array', () => {
-		let hookResult: Worktree[] = [];
-
-		const TestComponent = () => {
-			hookResult = useGitStatus([], 'main');
-			return React.createElement(Text, null, 'test');
-		};
-
-		render(React.createElement(TestComponent));
-
-		expect(hookResult).toEqual([]);
-		expect(mockGetGitStatus).not.toHaveBeenCalled();
+		await vi.waitFor(() => {
+			expect(hookResult[0]?.gitStatus).toEqual(createGitStatus(5, 3));
+		});
+		expect(hookResult[1]?.gitStatus).toEqual(createGitStatus(2, 1));
 	});
 
-	it('should not fetch when defaultBranch is null', async () => {
-		const worktrees = [createWorktree('/path1'), createWorktree('/path2')];
+	it('should replace the status with the error of a failed update', async () => {
+		const worktrees = [createWorktree('/path1', createGitStatus(1, 0))];
 		let hookResult: Worktree[] = [];
 
 		const TestComponent = () => {
-			hookResult = useGitStatus(worktrees, null);
+			hookResult = useGitStatus(worktrees);
 			return React.createElement(Text, null, 'test');
 		};
 
 		render(React.createElement(TestComponent));
+		await waitForSubscription();
 
-		// Should return worktrees immediately without modification
-		expect(hookResult).toEqual(worktrees);
-
-		// Wait to ensure no fetches occur
-		await vi.advanceTimersByTimeAsync(1000);
-		expect(mockGetGitStatus).not.toHaveBeenCalled();
-	});
-
-	it('should continue polling after errors', async () => {
-		const worktrees = [createWorktree('/path1')];
-
-		const gitError = new GitError({
-			command: 'git status',
-			exitCode: 128,
-			stderr: 'Git error',
+		mockClient.emit('worktree_status', {
+			worktreePath: '/path1',
+			gitStatusError: 'git command "git diff" failed (exit code 128)',
 		});
 
-		mockGetGitStatus.mockReturnValue(Effect.fail(gitError));
-
-		const TestComponent = () => {
-			useGitStatus(worktrees, 'main', 100);
-			return React.createElement(Text, null, 'test');
-		};
-
-		render(React.createElement(TestComponent));
-
-		// Wait for initial fetch
 		await vi.waitFor(() => {
-			expect(mockGetGitStatus).toHaveBeenCalledTimes(1);
+			expect(hookResult[0]?.gitStatusError).toBe(
+				'git command "git diff" failed (exit code 128)',
+			);
 		});
-
-		// Clear to track subsequent calls
-		mockGetGitStatus.mockClear();
-
-		// Advance time and verify polling continues despite errors
-		await vi.advanceTimersByTimeAsync(100);
-		expect(mockGetGitStatus).toHaveBeenCalledTimes(1);
-
-		await vi.advanceTimersByTimeAsync(100);
-		expect(mockGetGitStatus).toHaveBeenCalledTimes(2);
-
-		// All calls should have been made despite continuous errors
-		expect(mockGetGitStatus).toHaveBeenCalledWith('/path1');
+		expect(hookResult[0]?.gitStatus).toBeUndefined();
 	});
 
-	it('should handle slow git operations that exceed update interval', async () => {
+	it('should ignore updates for worktrees that are not listed', async () => {
 		const worktrees = [createWorktree('/path1')];
-		let fetchCount = 0;
-		let resolveEffect: ((exit: Exit.Exit<GitStatus, GitError>) => void) | null =
-			null;
-
-		mockGetGitStatus.mockImplementation(() => {
-			fetchCount++;
-			// Create an Effect that we can resolve manually
-			return Effect.async<GitStatus, GitError>(resume => {
-				resolveEffect = resume;
-			});
-		});
+		let hookResult: Worktree[] = [];
 
 		const TestComponent = () => {
-			useGitStatus(worktrees, 'main', 100);
+			hookResult = useGitStatus(worktrees);
 			return React.createElement(Text, null, 'test');
 		};
 
 		render(React.createElement(TestComponent));
+		await waitForSubscription();
+		const before = hookResult;
 
-		// Wait for initial fetch to start
-		await vi.waitFor(() => {
-			expect(mockGetGitStatus).toHaveBeenCalledTimes(1);
+		mockClient.emit('worktree_status', {
+			worktreePath: '/other',
+			gitStatus: createGitStatus(),
 		});
 
-		// Advance time past the update interval while fetch is still pending
-		await vi.advanceTimersByTimeAsync(250);
+		expect(hookResult).toBe(before);
+	});
 
-		// Should not have started a second fetch yet
-		expect(mockGetGitStatus).toHaveBeenCalledTimes(1);
+	it('should keep pushed status when the worktrees are listed again', async () => {
+		const TestComponent: React.FC<{worktrees: Worktree[]}> = ({worktrees}) => {
+			const result = useGitStatus(worktrees);
+			return React.createElement(
+				Text,
+				null,
+				result.map(wt => `${wt.path}:${wt.gitStatus?.filesAdded}`).join(','),
+			);
+		};
 
-		// Complete the first fetch
-		resolveEffect!(Exit.succeed(createGitStatus(1, 0)));
+		const {rerender, lastFrame} = render(
+			React.createElement(TestComponent, {
+				worktrees: [createWorktree('/path1', createGitStatus(1, 0))],
+			}),
+		);
+		await waitForSubscription();
 
-		// Wait for the promise to resolve
+		mockClient.emit('worktree_status', {
+			worktreePath: '/path1',
+			gitStatus: createGitStatus(4, 0),
+		});
 		await vi.waitFor(() => {
-			expect(fetchCount).toBe(1);
+			expect(lastFrame()).toBe('/path1:4');
 		});
 
-		// Now advance time by the update interval
-		await vi.advanceTimersByTimeAsync(100);
-
-		// Should have started the second fetch
+		// Rebuilt with the stale listed status, e.g. after a session update
+		rerender(
+			React.createElement(TestComponent, {
+				worktrees: [
+					createWorktree('/path1', createGitStatus(1, 0)),
+					createWorktree('/path2', createGitStatus(2, 0)),
+				],
+			}),
+		);
 		await vi.waitFor(() => {
-			expect(mockGetGitStatus).toHaveBeenCalledTimes(2);
+			expect(lastFrame()).toBe('/path1:4,/path2:2');
 		});
 	});
 
-	it('should properly cleanup resources when worktrees change', async () => {
-		let activeRequests = 0;
-		const interruptedPaths: string[] = [];
-
-		mockGetGitStatus.mockImplementation(path => {
-			activeRequests++;
-
-			// Create an Effect that never completes but handles interruption
-			return Effect.async<GitStatus, GitError>(_resume => {
-				return Effect.sync(() => {
-					activeRequests--;
-					interruptedPaths.push(path);
-				});
-			});
-		});
-
+	it('should unsubscribe on unmount and reset when worktrees change', async () => {
 		const TestComponent: React.FC<{worktrees: Worktree[]}> = ({worktrees}) => {
-			useGitStatus(worktrees, 'main', 100);
-			return React.createElement(Text, null, 'test');
+			const result = useGitStatus(worktrees);
+			return React.createElement(
+				Text,
+				null,
+				result.map(wt => wt.path).join(','),
+			);
 		};
 
-		// Start with 3 worktrees
-		const initialWorktrees = [
-			createWorktree('/path1'),
-			createWorktree('/path2'),
-			createWorktree('/path3'),
-		];
-
-		const {rerender} = render(
-			React.createElement(TestComponent, {worktrees: initialWorktrees}),
+		const {rerender, lastFrame, unmount} = render(
+			React.createElement(TestComponent, {
+				worktrees: [createWorktree('/path1'), createWorktree('/path2')],
+			}),
 		);
+		await waitForSubscription();
 
-		// Should have 3 active requests
+		rerender(
+			React.createElement(TestComponent, {
+				worktrees: [createWorktree('/path3')],
+			}),
+		);
 		await vi.waitFor(() => {
-			expect(activeRequests).toBe(3);
+			expect(lastFrame()).toBe('/path3');
 		});
+		expect(mockClient.listenerCount('worktree_status')).toBe(1);
 
-		// Change to 2 different worktrees
-		const newWorktrees = [createWorktree('/path4'), createWorktree('/path5')];
-		rerender(React.createElement(TestComponent, {worktrees: newWorktrees}));
-
-		// Wait for cleanup and new requests
+		unmount();
 		await vi.waitFor(() => {
-			expect(interruptedPaths).toHaveLength(3);
-			expect(activeRequests).toBe(2);
+			expect(mockClient.listenerCount('worktree_status')).toBe(0);
 		});
-
-		// Verify all old paths were interrupted
-		expect(interruptedPaths).toContain('/path1');
-		expect(interruptedPaths).toContain('/path2');
-		expect(interruptedPaths).toContain('/path3');
 	});
 });
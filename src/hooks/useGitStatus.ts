@@ -1,148 +1,61 @@
-import {useEffect, useState, type Dispatch, type SetStateAction} from 'react';
-import {Effect, Exit, Cause, Option} from 'effect';
+import {useEffect, useRef, useState} from 'react';
 import {Worktree} from '../types/index.js';
-import {getGitStatusLimited, type GitStatus} from '../utils/gitStatus.js';
-import type {GitError} from '../types/errors.js';
+import {
+	tuiApiClient,
+	type WorktreeStatusPayload,
+} from '../components/tuiApiClient.js';
+
+function applyStatus(
+	worktree: Worktree,
+	payload: WorktreeStatusPayload,
+): Worktree {
+	return {
+		...worktree,
+		gitStatus: payload.gitStatus,
+		gitStatusError: payload.gitStatusError,
+	};
+}
 
 /**
- * Custom hook for polling git status of worktrees with Effect-based execution
+ * Custom hook keeping the git status of worktrees current
  *
- * Fetches git status for each worktree at regular intervals using Effect.runPromiseExit
- * and updates worktree state with results. Handles cancellation via AbortController.
+ * The daemon watches every worktree and pushes `worktree_status` events when
+ * its status changes, so the status listed with the worktrees only needs
+ * these deltas applied instead of re-running git on an interval. Deltas are
+ * kept per path and laid over every new worktree list, since callers rebuild
+ * the list for unrelated changes and a delta is never older than the list.
  *
- * @param worktrees - Array of worktrees to monitor
- * @param defaultBranch - Default branch for comparisons (null disables polling)
- * @param updateInterval - Polling interval in milliseconds (default: 5000)
+ * @param worktrees - Worktrees as listed by the daemon, including their status
  * @returns Array of worktrees with updated gitStatus and gitStatusError fields
  */
-export function useGitStatus(
-	worktrees: Worktree[],
-	defaultBranch: string | null,
-	updateInterval = 5000,
-): Worktree[] {
+export function useGitStatus(worktrees: Worktree[]): Worktree[] {
 	const [worktreesWithStatus, setWorktreesWithStatus] = useState(worktrees);
+	const pushedStatus = useRef(new Map<string, WorktreeStatusPayload>());
 
 	useEffect(() => {
-		if (!defaultBranch) {
-			return;
-		}
-
-		const timeouts = new Map<string, NodeJS.Timeout>();
-		const activeRequests = new Map<string, AbortController>();
-		let isCleanedUp = false;
+		setWorktreesWithStatus(
+			worktrees.map(wt => {
+				const pushed = pushedStatus.current.get(wt.path);
+				return pushed ? applyStatus(wt, pushed) : wt;
+			}),
+		);
 
-		const fetchStatus = async (
-			worktree: Worktree,
-			abortController: AbortController,
-		) => {
-			// Execute the Effect to get git status with cancellation support
-			const exit = await Effect.runPromiseExit(
-				getGitStatusLimited(worktree.path),
-				{
-					signal: abortController.signal,
-				},
+		const handleStatus = (payload: WorktreeStatusPayload) => {
+			pushedStatus.current.set(payload.worktreePath, payload);
+			setWorktreesWithStatus(prev =>
+				prev.some(wt => wt.path === payload.worktreePath)
+					? prev.map(wt =>
+							wt.path === payload.worktreePath ? applyStatus(wt, payload) : wt,
+						)
+					: prev,
 			);
-
-			// Update worktree state based on exit result
-			handleStatusExit(exit, worktree.path, setWorktreesWithStatus);
 		};
 
-		const scheduleUpdate = (worktree: Worktree) => {
-			const abortController = new AbortController();
-			activeRequests.set(worktree.path, abortController);
-
-			fetchStatus(worktree, abortController)
-				.catch(() => {
-					// Ignore errors - the fetch failed or was aborted
-				})
-				.finally(() => {
-					const isActive = () =>
-						!isCleanedUp && !abortController.signal.aborted;
-					if (isActive()) {
-						const timeout = setTimeout(() => {
-							if (isActive()) {
-								scheduleUpdate(worktree);
-							}
-						}, updateInterval);
-
-						timeouts.set(worktree.path, timeout);
-					}
-				});
-		};
-
-		setWorktreesWithStatus(worktrees);
-
-		// Start fetching for each worktree
-		worktrees.forEach(worktree => {
-			scheduleUpdate(worktree);
-		});
-
+		tuiApiClient.on('worktree_status', handleStatus);
 		return () => {
-			isCleanedUp = true;
-			timeouts.forEach(timeout => clearTimeout(timeout));
-			activeRequests.forEach(controller => controller.abort());
+			tuiApiClient.off('worktree_status', handleStatus);
 		};
-	}, [worktrees, defaultBranch, updateInterval]);
+	}, [worktrees]);
 
 	return worktreesWithStatus;
 }
-
-/**
- * Handle the Exit result from Effect.runPromiseExit and update worktree state
- *
- * Uses pattern matching on Exit to distinguish between success, failure, and interruption.
- * Success updates gitStatus, failure updates gitStatusError, interruption is ignored.
- *
- * @param exit - Exit result from Effect execution
- * @param worktreePath - Path of the worktree being updated
- * @param setWorktreesWithStatus - State setter function
- */
-function handleStatusExit(
-	exit: Exit.Exit<GitStatus, GitError>,
-	worktreePath: string,
-	setWorktreesWithStatus: Dispatch<SetStateAction<Worktree[]>>,
-): void {
-	if (Exit.isSuccess(exit)) {
-		// Success: update gitStatus and clear error
-		const gitStatus = exit.value;
-		setWorktreesWithStatus(prev =>
-			prev.map(wt =>
-				wt.path === worktreePath
-					? {...wt, gitStatus, gitStatusError: undefined}
-					: wt,
-			),
-		);
-	} else if (Exit.isFailure(exit)) {
-		// Failure: extract error and update gitStatusError
-		const failure = Cause.failureOption(exit.cause);
-		if (Option.isSome(failure)) {
-			const gitError = failure.value as GitError;
-			const errorMessage = formatGitError(gitError);
-			setWorktreesWithStatus(prev =>
-				prev.map(wt =>
-					wt.path === worktreePath
-						? {...wt, gitStatus: undefined, gitStatusError: errorMessage}
-						: wt,
-				),
-			);
-		}
-	}
-	// Interruption: no state update - the request was cancelled
-}
-
-/**
- * Format GitError into a user-friendly error message
- *
- * @param error - GitError from failed git operation
- * @returns Formatted error message string
- */
-function formatGitError(error: GitError): string {
-	const exitCode = Number.isFinite(error.exitCode) ? error.exitCode : -1;
-	const details = [error.stderr, error.stdout]
-		.filter(part => typeof part === 'string' && part.trim().length > 0)
-		.map(part => part!.trim());
-	const detail = details[0] ?? '';
-	return detail
-		? `git command "${error.command}" failed (exit code ${exitCode}): ${detail}`
-		: `git command "${error.command}" failed (exit code ${exitCode})`;
-}
@@ -15,6 +15,8 @@ const mockGetAllActiveSessions = vi.fn<() => unknown[]>(() => []);
 const mockExecFileSync = vi.fn();
 const mockLoadPromptTemplatesByScope = vi.fn();
 const mockTdReaderGetIssueWithDetails = vi.fn();
+const mockTdReaderGetIssue = vi.fn();
+const mockTdReaderListIssues = vi.fn<() => unknown[]>(() => []);
 const mockCreateWorktreeEffect = vi.fn();
 const mockSessionStoreQuerySessions = vi.fn<() => unknown[]>(() => []);
 const mockSessionStoreGetSessionById = vi.fn<() => unknown | null>(() => null);
@@ -26,6 +28,22 @@ const mockSessionStoreMarkSessionResumed = vi.fn();
 const mockSessionStoreHydratePreview = vi.fn(async () => {});
 const mockSessionStoreGetLatestByTdSessionId = vi.fn(() => null);
 const mockSessionStoreCountSessions = vi.fn(() => 0);
+const mockSessionStoreQueryUsage = vi.fn<() => unknown[]>(() => []);
+const mockUsageTrackerCollect = vi.fn(async () => 0);
+const mockSessionStoreSearchMessages = vi.fn<
+	() => {hits: unknown[]; total: number}
+>(() => ({hits: [], total: 0}));
+const mockConversationIndexerIndexAll = vi.fn(async () => 0);
+const mockSessionStoreListAutoApprovalDecisions = vi.fn<() => unknown[]>(
+	() => [],
+);
+const mockSessionStoreCountAutoApprovalDecisions = vi.fn(() => 0);
+const mockJobQueueList = vi.fn<() => unknown[]>(() => []);
+const mockJobQueueEnqueue = vi.fn();
+const mockJobQueueCancel = vi.fn();
+const mockScrollbackReadReplay = vi.fn<
+	(path: string, cursor?: number) => unknown | null
+>(() => null);
 
 vi.mock('child_process', async importOriginal => {
 	const actual = await importOriginal<typeof import('child_process')>();
@@ -35,7 +53,17 @@ vi.mock('child_process', async importOriginal => {
 	};
 });
 
-vi.mock('../utils/projectConfig.js', () => ({
+vi.mock('./scrollbackStore.js', () => ({
+	scrollbackStore: {
+		getPath: (sessionId: string) => `/tmp/scrollback/${sessionId}.cast`,
+		readReplay: mockScrollbackReadReplay,
+	},
+}));
+
+vi.mock('../utils/projectConfig.js', async importOriginal => ({
+	findPromptTemplateByName: (
+		await importOriginal<typeof import('../utils/projectConfig.js')>()
+	).findPromptTemplateByName,
 	loadProjectConfig: vi.fn(() => ({td: {enabled: true, autoStart: true}})),
 	getProjectConfigPath: vi.fn(() => '/repo/.cacd/config.json'),
 	saveProjectConfig: vi.fn(() => '/repo/.cacd/config.json'),
@@ -53,6 +81,8 @@ vi.mock('./configurationManager.js', () => ({
 			injectTdUsage: true,
 		})),
 		getAccessToken: vi.fn(() => ''),
+		getHttpsConfig: vi.fn(() => ({enabled: false})),
+		getTrustedProxyConfig: vi.fn(() => ({enabled: false})),
 		setTdConfig: vi.fn(),
 		getConfiguration: vi.fn(() => ({accessToken: '', passcodeHash: 'hash'})),
 		getAgentById: vi.fn(() => ({
@@ -63,6 +93,7 @@ vi.mock('./configurationManager.js', () => ({
 			options: [],
 			enabled: true,
 		})),
+		getDefaultAgent: vi.fn(() => ({id: 'codex'})),
 		validateAgentOptions: vi.fn(() => []),
 		buildAgentArgs: vi.fn(() => []),
 	},
@@ -120,6 +151,8 @@ vi.mock('./coreService.js', () => ({
 			getSession: vi.fn(),
 			destroySession: vi.fn(),
 			renameSession: vi.fn(),
+			writeInput: vi.fn(),
+			approvePermissionPrompt: vi.fn(),
 			getAllSessions: vi.fn(() => []),
 			createSessionWithAgentEffect: vi.fn(),
 			setSessionActive: vi.fn(),
@@ -149,7 +182,9 @@ vi.mock('./tdService.js', () => ({
 vi.mock('./tdReader.js', () => ({
 	TdReader: vi.fn().mockImplementation(() => ({
 		getIssueWithDetails: mockTdReaderGetIssueWithDetails,
-		listIssues: vi.fn(() => []),
+		getIssue: mockTdReaderGetIssue,
+		listIssues: mockTdReaderListIssues,
+		listDependencies: vi.fn(() => []),
 		close: vi.fn(),
 	})),
 }));
@@ -183,9 +218,39 @@ vi.mock('./sessionStore.js', () => ({
 		hydrateSessionContentPreview: mockSessionStoreHydratePreview,
 		getLatestByTdSessionId: mockSessionStoreGetLatestByTdSessionId,
 		countSessions: mockSessionStoreCountSessions,
+		queryUsage: mockSessionStoreQueryUsage,
+		searchMessages: mockSessionStoreSearchMessages,
+		listAutoApprovalDecisions: mockSessionStoreListAutoApprovalDecisions,
+		countAutoApprovalDecisions: mockSessionStoreCountAutoApprovalDecisions,
+	},
+}));
+
+vi.mock('./usageTracker.js', () => ({
+	usageTracker: {
+		start: vi.fn(),
+		collect: mockUsageTrackerCollect,
+	},
+}));
+
+vi.mock('./conversationIndexer.js', () => ({
+	conversationIndexer: {
+		start: vi.fn(),
+		indexAll: mockConversationIndexerIndexAll,
 	},
 }));
 
+vi.mock('./jobQueue.js', () => ({
+	jobQueue: {
+		start: vi.fn(),
+		tick: vi.fn(async () => 0),
+		list: mockJobQueueList,
+		enqueue: mockJobQueueEnqueue,
+		cancel: mockJobQueueCancel,
+	},
+	renderJobBranchTemplate: vi.fn((template: string) => template),
+	resolveMaxConcurrentAgents: vi.fn(() => 2),
+}));
+
 describe('APIServer td create-with-agent validation ordering', () => {
 	interface InjectRequest {
 		method: string;
@@ -242,6 +307,9 @@ describe('APIServer td create-with-agent validation ordering', () => {
 		mockGetAllActiveSessions.mockReset();
 		mockGetAllActiveSessions.mockReturnValue([]);
 		mockTdReaderGetIssueWithDetails.mockReset();
+		mockTdReaderGetIssue.mockReset();
+		mockTdReaderListIssues.mockReset();
+		mockTdReaderListIssues.mockReturnValue([]);
 		mockCreateWorktreeEffect.mockReset();
 		mockSessionStoreQuerySessions.mockReset();
 		mockSessionStoreGetSessionById.mockReset();
@@ -253,6 +321,22 @@ describe('APIServer td create-with-agent validation ordering', () => {
 		mockSessionStoreHydratePreview.mockReset();
 		mockSessionStoreGetLatestByTdSessionId.mockReset();
 		mockSessionStoreCountSessions.mockReset();
+		mockScrollbackReadReplay.mockReset();
+		mockSessionStoreQueryUsage.mockReset();
+		mockSessionStoreQueryUsage.mockReturnValue([]);
+		mockUsageTrackerCollect.mockClear();
+		mockSessionStoreSearchMessages.mockReset();
+		mockJobQueueList.mockReset();
+		mockJobQueueList.mockReturnValue([]);
+		mockJobQueueEnqueue.mockReset();
+		mockJobQueueCancel.mockReset();
+		mockSessionStoreSearchMessages.mockReturnValue({hits: [], total: 0});
+		mockSessionStoreListAutoApprovalDecisions.mockReset();
+		mockSessionStoreListAutoApprovalDecisions.mockReturnValue([]);
+		mockSessionStoreCountAutoApprovalDecisions.mockReset();
+		mockSessionStoreCountAutoApprovalDecisions.mockReturnValue(0);
+		mockConversationIndexerIndexAll.mockClear();
+		mockScrollbackReadReplay.mockReturnValue(null);
 		mockSessionStoreQuerySessions.mockReturnValue([]);
 		mockSessionStoreGetSessionById.mockReturnValue(null);
 		mockSessionStoreCountSessions.mockReturnValue(0);
@@ -389,6 +473,364 @@ describe('APIServer td create-with-agent validation ordering', () => {
 		);
 	});
 
+	it('writes input into the session via /api/session/input', async () => {
+		const mockedSessionManager = (
+			coreService as unknown as {
+				sessionManager: {
+					getSession: ReturnType<typeof vi.fn>;
+					writeInput: ReturnType<typeof vi.fn>;
+				};
+			}
+		).sessionManager;
+		mockedSessionManager.getSession.mockReturnValue({
+			id: 'session-input-1',
+			stateMutex: {getSnapshot: () => ({state: 'idle'})},
+		});
+		mockedSessionManager.writeInput.mockReturnValue(6);
+
+		const response = await apiServer.app.inject({
+			method: 'POST',
+			url: '/api/session/input',
+			headers: {cookie: 'cacd_session=test'},
+			payload: {id: 'session-input-1', text: 'hello', enter: true},
+		});
+
+		expect(response.statusCode).toBe(200);
+		expect(mockedSessionManager.writeInput).toHaveBeenCalledWith(
+			'session-input-1',
+			'hello',
+			true,
+		);
+		expect(JSON.parse(response.body)).toEqual(
+			expect.objectContaining({success: true, written: 6, state: 'idle'}),
+		);
+	});
+
+	it('rejects /api/session/input without text or enter', async () => {
+		const response = await apiServer.app.inject({
+			method: 'POST',
+			url: '/api/session/input',
+			headers: {cookie: 'cacd_session=test'},
+			payload: {id: 'session-input-1'},
+		});
+
+		expect(response.statusCode).toBe(400);
+	});
+
+	it('approves a waiting session via /api/session/approve', async () => {
+		const mockedSessionManager = (
+			coreService as unknown as {
+				sessionManager: {
+					getSession: ReturnType<typeof vi.fn>;
+					approvePermissionPrompt: ReturnType<typeof vi.fn>;
+				};
+			}
+		).sessionManager;
+		mockedSessionManager.getSession.mockReturnValue({
+			id: 'session-approve-1',
+			stateMutex: {getSnapshot: () => ({state: 'waiting_input'})},
+		});
+		mockedSessionManager.approvePermissionPrompt.mockResolvedValue({
+			approved: true,
+			state: 'busy',
+			prompt: 'Do you want to proceed?',
+		});
+
+		const response = await apiServer.app.inject({
+			method: 'POST',
+			url: '/api/session/approve',
+			headers: {cookie: 'cacd_session=test'},
+			payload: {id: 'session-approve-1'},
+		});
+
+		expect(response.statusCode).toBe(200);
+		expect(JSON.parse(response.body)).toEqual({
+			success: true,
+			id: 'session-approve-1',
+			prompt: 'Do you want to proceed?',
+		});
+	});
+
+	it('refuses /api/session/approve when the session is not waiting', async () => {
+		const mockedSessionManager = (
+			coreService as unknown as {
+				sessionManager: {
+					getSession: ReturnType<typeof vi.fn>;
+					approvePermissionPrompt: ReturnType<typeof vi.fn>;
+				};
+			}
+		).sessionManager;
+		mockedSessionManager.getSession.mockReturnValue({
+			id: 'session-approve-2',
+			stateMutex: {getSnapshot: () => ({state: 'busy'})},
+		});
+		mockedSessionManager.approvePermissionPrompt.mockResolvedValue({
+			approved: false,
+			state: 'busy',
+			reason: 'Session is not waiting on a permission prompt (state: busy)',
+		});
+
+		const response = await apiServer.app.inject({
+			method: 'POST',
+			url: '/api/session/approve',
+			headers: {cookie: 'cacd_session=test'},
+			payload: {id: 'session-approve-2'},
+		});
+
+		expect(response.statusCode).toBe(409);
+		expect(JSON.parse(response.body)).toEqual(
+			expect.objectContaining({state: 'busy'}),
+		);
+	});
+
+	it('aggregates usage via /api/analytics/usage', async () => {
+		mockSessionStoreQueryUsage.mockReturnValue([
+			{key: 'claude', sessions: 2, totalTokens: 1200, estimatedCostUsd: 0.5},
+			{key: 'codex', sessions: 1, totalTokens: 300, estimatedCostUsd: 0.25},
+		]);
+
+		const response = await apiServer.app.inject({
+			method: 'GET',
+			url: '/api/analytics/usage?groupBy=agent&projectPath=/repo&dateFrom=100&refresh=1',
+			headers: {cookie: 'cacd_session=test'},
+		});
+
+		expect(response.statusCode).toBe(200);
+		expect(mockUsageTrackerCollect).toHaveBeenCalled();
+		expect(mockSessionStoreQueryUsage).toHaveBeenCalledWith(
+			'agent',
+			expect.objectContaining({projectPath: '/repo', dateFrom: 100}),
+		);
+		expect(JSON.parse(response.body).totals).toEqual({
+			sessions: 3,
+			totalTokens: 1500,
+			estimatedCostUsd: 0.75,
+		});
+	});
+
+	it('rejects unknown usage groupings', async () => {
+		const response = await apiServer.app.inject({
+			method: 'GET',
+			url: '/api/analytics/usage?groupBy=branch',
+			headers: {cookie: 'cacd_session=test'},
+		});
+
+		expect(response.statusCode).toBe(400);
+		expect(mockSessionStoreQueryUsage).not.toHaveBeenCalled();
+	});
+
+	it('searches indexed messages via /api/conversations/search', async () => {
+		mockSessionStoreSearchMessages.mockReturnValue({
+			hits: [
+				{
+					sessionId: 'session-old',
+					messageId: 'm1',
+					role: 'user',
+					timestamp: 1700000000,
+					snippet: 'fix the [[auth]] migration',
+				},
+			],
+			total: 1,
+		});
+
+		const response = await apiServer.app.inject({
+			method: 'GET',
+			url: '/api/conversations/search?q=auth%20migration&projectPath=/repo&limit=10&refresh=1',
+			headers: {cookie: 'cacd_session=test'},
+		});
+
+		expect(response.statusCode).toBe(200);
+		expect(mockConversationIndexerIndexAll).toHaveBeenCalled();
+		expect(mockSessionStoreSearchMessages).toHaveBeenCalledWith(
+			'auth migration',
+			expect.objectContaining({projectPath: '/repo', limit: 10, offset: 0}),
+		);
+		expect(JSON.parse(response.body)).toEqual(
+			expect.objectContaining({
+				query: 'auth migration',
+				total: 1,
+				hits: [expect.objectContaining({sessionId: 'session-old'})],
+			}),
+		);
+	});
+
+	it('lists auto-approval decisions with filters', async () => {
+		mockSessionStoreListAutoApprovalDecisions.mockReturnValue([
+			{id: 7, sessionId: 'session-1', verdict: 'needs_permission'},
+		]);
+		mockSessionStoreCountAutoApprovalDecisions.mockReturnValue(1);
+
+		const response = await apiServer.app.inject({
+			method: 'GET',
+			url: '/api/auto-approval/log?projectPath=/repo&verdict=needs_permission&overridden=true&since=1700000000&limit=20',
+			headers: {cookie: 'cacd_session=test'},
+		});
+
+		expect(response.statusCode).toBe(200);
+		expect(mockSessionStoreListAutoApprovalDecisions).toHaveBeenCalledWith(
+			expect.objectContaining({
+				projectPath: '/repo',
+				verdict: 'needs_permission',
+				userOverride: true,
+				since: 1700000000,
+				limit: 20,
+				offset: 0,
+			}),
+		);
+		expect(JSON.parse(response.body)).toEqual(
+			expect.objectContaining({
+				total: 1,
+				decisions: [expect.objectContaining({id: 7})],
+			}),
+		);
+
+		const invalid = await apiServer.app.inject({
+			method: 'GET',
+			url: '/api/auto-approval/log?verdict=maybe',
+			headers: {cookie: 'cacd_session=test'},
+		});
+		expect(invalid.statusCode).toBe(400);
+	});
+
+	it('requires a query for conversation search', async () => {
+		const response = await apiServer.app.inject({
+			method: 'GET',
+			url: '/api/conversations/search?q=%20',
+			headers: {cookie: 'cacd_session=test'},
+		});
+
+		expect(response.statusCode).toBe(400);
+		expect(mockSessionStoreSearchMessages).not.toHaveBeenCalled();
+	});
+
+	it('lists queued jobs with the project concurrency limit', async () => {
+		mockJobQueueList.mockReturnValue([{id: 'job-1', status: 'pending'}]);
+
+		const response = await apiServer.app.inject({
+			method: 'GET',
+			url: '/api/queue?projectPath=/repo',
+			headers: {cookie: 'cacd_session=test'},
+		});
+
+		expect(response.statusCode).toBe(200);
+		expect(mockJobQueueList).toHaveBeenCalledWith({
+			projectPath: '/repo',
+			status: undefined,
+		});
+		expect(JSON.parse(response.body)).toEqual({
+			jobs: [{id: 'job-1', status: 'pending'}],
+			maxConcurrentAgents: 2,
+		});
+	});
+
+	it('enqueues jobs and surfaces validation errors', async () => {
+		mockJobQueueEnqueue.mockReturnValueOnce({
+			ok: true,
+			job: {id: 'job-1', trigger: 'cron'},
+		});
+		const created = await apiServer.app.inject({
+			method: 'POST',
+			url: '/api/queue',
+			headers: {cookie: 'cacd_session=test'},
+			payload: {projectPath: '/repo', agentId: 'claude', cron: '0 3 * * *'},
+		});
+		expect(created.statusCode).toBe(200);
+		expect(mockJobQueueEnqueue).toHaveBeenCalledWith(
+			expect.objectContaining({agentId: 'claude', cron: '0 3 * * *'}),
+		);
+		expect(JSON.parse(created.body)).toEqual({
+			success: true,
+			job: {id: 'job-1', trigger: 'cron'},
+		});
+
+		mockJobQueueEnqueue.mockReturnValueOnce({
+			ok: false,
+			error: 'Agent not found: nope',
+		});
+		const rejected = await apiServer.app.inject({
+			method: 'POST',
+			url: '/api/queue',
+			headers: {cookie: 'cacd_session=test'},
+			payload: {projectPath: '/repo', agentId: 'nope'},
+		});
+		expect(rejected.statusCode).toBe(400);
+		expect(JSON.parse(rejected.body)).toEqual({error: 'Agent not found: nope'});
+	});
+
+	it('maps queue cancel failures to status codes', async () => {
+		mockJobQueueCancel.mockReturnValueOnce({
+			ok: false,
+			statusCode: 409,
+			error: 'Job is already launched',
+		});
+
+		const response = await apiServer.app.inject({
+			method: 'POST',
+			url: '/api/queue/cancel',
+			headers: {cookie: 'cacd_session=test'},
+			payload: {id: 'job-1'},
+		});
+
+		expect(response.statusCode).toBe(409);
+		expect(mockJobQueueCancel).toHaveBeenCalledWith('job-1');
+	});
+
+	it('serves recorded terminal output via /api/sessions/:id/replay', async () => {
+		mockSessionStoreGetSessionById.mockReturnValue({
+			id: 'session-old',
+			scrollbackPath: '/data/scrollback/session-old.cast',
+		});
+		mockScrollbackReadReplay.mockReturnValue({
+			header: {version: 2, width: 80, height: 24, timestamp: 1700000000},
+			events: [[0.5, 'hello']],
+			duration: 0.5,
+			truncated: false,
+		});
+
+		const response = await apiServer.app.inject({
+			method: 'GET',
+			url: '/api/sessions/session-old/replay',
+			headers: {cookie: 'cacd_session=test'},
+		});
+
+		expect(response.statusCode).toBe(200);
+		expect(mockScrollbackReadReplay).toHaveBeenCalledWith(
+			'/data/scrollback/session-old.cast',
+			0,
+		);
+		expect(JSON.parse(response.body)).toEqual(
+			expect.objectContaining({
+				id: 'session-old',
+				isActive: false,
+				events: [[0.5, 'hello']],
+			}),
+		);
+
+		await apiServer.app.inject({
+			method: 'GET',
+			url: '/api/sessions/session-old/replay?cursor=4096',
+			headers: {cookie: 'cacd_session=test'},
+		});
+		expect(mockScrollbackReadReplay).toHaveBeenLastCalledWith(
+			'/data/scrollback/session-old.cast',
+			4096,
+		);
+	});
+
+	it('returns 404 from /api/sessions/:id/replay when nothing was recorded', async () => {
+		const response = await apiServer.app.inject({
+			method: 'GET',
+			url: '/api/sessions/session-none/replay',
+			headers: {cookie: 'cacd_session=test'},
+		});
+
+		expect(response.statusCode).toBe(404);
+		expect(mockScrollbackReadReplay).toHaveBeenCalledWith(
+			'/tmp/scrollback/session-none.cast',
+			0,
+		);
+	});
+
 	it('does not auto-start td task when prompt validation fails with 400', async () => {
 		const response = await apiServer.app.inject({
 			method: 'POST',
@@ -435,6 +877,168 @@ describe('APIServer td create-with-agent validation ordering', () => {
 		);
 	});
 
+	it('creates td tasks and moves them between board columns', async () => {
+		vi.mocked(coreService.getSelectedProject).mockReturnValue({
+			path: '/repo',
+			name: 'Repo',
+		} as never);
+		mockExecFileSync.mockReturnValue('CREATED td-new1\n');
+
+		const created = await apiServer.app.inject({
+			method: 'POST',
+			url: '/api/td/issues',
+			headers: {cookie: 'cacd_session=test'},
+			payload: {title: 'Add login', priority: 'P1', status: 'in_progress'},
+		});
+		expect(created.statusCode).toBe(200);
+		expect(JSON.parse(created.body)).toEqual({success: true, id: 'td-new1'});
+		expect(mockExecFileSync.mock.calls.map(call => call[1])).toEqual([
+			['create', '--priority', 'P1', '--', 'Add login'],
+			['start', 'td-new1'],
+		]);
+
+		mockExecFileSync.mockClear();
+		mockTdReaderGetIssue.mockReturnValue({id: 'td-a1', status: 'in_review'});
+		const moved = await apiServer.app.inject({
+			method: 'POST',
+			url: '/api/td/issues/td-a1/status',
+			headers: {cookie: 'cacd_session=test'},
+			payload: {status: 'closed'},
+		});
+		expect(moved.statusCode).toBe(200);
+		expect(mockExecFileSync).toHaveBeenCalledWith(
+			'td',
+			['approve', 'td-a1'],
+			expect.objectContaining({cwd: '/repo'}),
+		);
+
+		const invalid = await apiServer.app.inject({
+			method: 'PUT',
+			url: '/api/td/issues/td-a1',
+			headers: {cookie: 'cacd_session=test'},
+			payload: {parentId: 'td-a1'},
+		});
+		expect(invalid.statusCode).toBe(400);
+		vi.mocked(coreService.getSelectedProject).mockReturnValue(null as never);
+	});
+
+	it('rejects td task ids that look like flags and non-string fields', async () => {
+		vi.mocked(coreService.getSelectedProject).mockReturnValue({
+			path: '/repo',
+			name: 'Repo',
+		} as never);
+
+		const flagId = await apiServer.app.inject({
+			method: 'POST',
+			url: '/api/td/issues/--all/status',
+			headers: {cookie: 'cacd_session=test'},
+			payload: {status: 'closed'},
+		});
+		expect(flagId.statusCode).toBe(400);
+		expect(JSON.parse(flagId.body)).toEqual({error: 'Invalid task id: --all'});
+
+		const numberTitle = await apiServer.app.inject({
+			method: 'PUT',
+			url: '/api/td/issues/td-a1',
+			headers: {cookie: 'cacd_session=test'},
+			payload: {title: 42, description: 'Details'},
+		});
+		expect(numberTitle.statusCode).toBe(400);
+		expect(JSON.parse(numberTitle.body)).toEqual({
+			error: 'title must be a string',
+		});
+		expect(mockExecFileSync).not.toHaveBeenCalled();
+		vi.mocked(coreService.getSelectedProject).mockReturnValue(null as never);
+	});
+
+	it('refuses to start work when no td task is ready', async () => {
+		vi.mocked(coreService.getSelectedProject).mockReturnValue({
+			path: '/repo',
+			name: 'Repo',
+		} as never);
+
+		const ready = await apiServer.app.inject({
+			method: 'GET',
+			url: '/api/td/ready',
+			headers: {cookie: 'cacd_session=test'},
+		});
+		expect(JSON.parse(ready.body)).toEqual({issues: []});
+
+		const next = await apiServer.app.inject({
+			method: 'POST',
+			url: '/api/td/ready/start',
+			headers: {cookie: 'cacd_session=test'},
+			payload: {},
+		});
+		expect(next.statusCode).toBe(404);
+
+		const specific = await apiServer.app.inject({
+			method: 'POST',
+			url: '/api/td/ready/start',
+			headers: {cookie: 'cacd_session=test'},
+			payload: {taskId: 'td-a1'},
+		});
+		expect(specific.statusCode).toBe(409);
+		expect(mockCreateWorktreeEffect).not.toHaveBeenCalled();
+		vi.mocked(coreService.getSelectedProject).mockReturnValue(null as never);
+	});
+
+	it('does not start ready tasks that are already being worked on', async () => {
+		vi.mocked(coreService.getSelectedProject).mockReturnValue({
+			path: '/repo',
+			name: 'Repo',
+		} as never);
+		const readyTask = (id: string, priority: string) => ({
+			id,
+			title: `Task ${id}`,
+			type: 'task',
+			status: 'open',
+			priority,
+			created_at: '2026-01-01T00:00:00Z',
+			due_date: null,
+			defer_until: null,
+			deleted_at: null,
+		});
+		mockTdReaderListIssues.mockReturnValue([
+			readyTask('td-a1', 'P1'),
+			readyTask('td-a2', 'P2'),
+		]);
+		// td-a1 has a live session, td-a2 a branch from an earlier start
+		mockGetAllActiveSessions.mockReturnValue([{id: 'session-1'}]);
+		mockSessionStoreGetSessionById.mockReturnValue({tdTaskId: 'td-a1'});
+		mockExecFileSync.mockImplementation((command: string, args: string[]) => {
+			if (
+				command === 'git' &&
+				args[0] === 'show-ref' &&
+				!args.includes('refs/heads/task/td-a2-task-td-a2')
+			) {
+				throw new Error('not a ref');
+			}
+			return '';
+		});
+
+		const next = await apiServer.app.inject({
+			method: 'POST',
+			url: '/api/td/ready/start',
+			headers: {cookie: 'cacd_session=test'},
+			payload: {},
+		});
+		expect(next.statusCode).toBe(404);
+
+		const specific = await apiServer.app.inject({
+			method: 'POST',
+			url: '/api/td/ready/start',
+			headers: {cookie: 'cacd_session=test'},
+			payload: {taskId: 'td-a1'},
+		});
+		expect(specific.statusCode).toBe(409);
+		expect(JSON.parse(specific.body).error).toBe(
+			'Task td-a1 is already being worked on',
+		);
+		expect(mockCreateWorktreeEffect).not.toHaveBeenCalled();
+		vi.mocked(coreService.getSelectedProject).mockReturnValue(null as never);
+	});
+
 	it('preserves worktree hook warnings at top-level and nested response fields', async () => {
 		mockCreateWorktreeEffect.mockReturnValue(
 			Effect.succeed({
@@ -1,4 +1,4 @@
-import Fastify, {FastifyInstance} from 'fastify';
+import Fastify, {FastifyInstance, type FastifyServerFactory} from 'fastify';
 import fastifyStatic from '@fastify/static';
 import fastifyCookie from '@fastify/cookie';
 import cors from '@fastify/cors';
@@ -13,11 +13,7 @@ import {ValidationError} from '../types/errors.js';
 import {Effect} from 'effect';
 import path from 'path';
 import {fileURLToPath, URL} from 'url';
-import {
-	getGitStatusLimited,
-	getChangedFilesLimited,
-	getFileDiff,
-} from '../utils/gitStatus.js';
+import {getChangedFilesLimited, getFileDiff} from '../utils/gitStatus.js';
 import {randomUUID, randomBytes} from 'crypto';
 import {execFileSync} from 'child_process';
 import {existsSync} from 'fs';
@@ -32,13 +28,31 @@ import {
 } from '../utils/pathValidation.js';
 import {getDefaultShell} from '../utils/platform.js';
 import {tdService} from './tdService.js';
-import {TdReader, type TdIssueWithChildren} from './tdReader.js';
+import {TdReader, type TdIssue, type TdIssueWithChildren} from './tdReader.js';
+import {
+	buildTdApproveCommands,
+	buildTdCreateArgs,
+	buildTdRequestChangesCommands,
+	buildTdUpdateArgs,
+	getTdStatusTransition,
+	isTdIssueId,
+	isTdStatus,
+	parseCreatedTdIssueId,
+	validateTdIssueFields,
+	type TdIssueFields,
+} from '../utils/tdCommands.js';
+import {
+	renderTdBranchTemplate,
+	renderTdTemplate,
+} from '../utils/tdBranchTemplate.js';
+import {getReadyTdTasks} from '../utils/tdReadyTasks.js';
 import {
 	loadProjectConfig,
 	getProjectConfigPath,
 	saveProjectConfig,
 	loadPromptTemplatesByScope,
 	loadPromptTemplateByScope,
+	findPromptTemplateByName,
 	savePromptTemplateByScope,
 	deletePromptTemplateByScope,
 	type PromptScope,
@@ -46,7 +60,58 @@ import {
 	type ProjectConfig,
 } from '../utils/projectConfig.js';
 import {sessionStore, SessionIntent} from './sessionStore.js';
-import type {SessionRecord} from './sessionStore.js';
+import {notificationService} from './notificationService.js';
+import {scrollbackStore} from './scrollbackStore.js';
+import {tmuxSessionHost} from './sessionHost.js';
+import type {NotificationEvent} from './notificationService.js';
+import type {SessionRecord, UsageGroupBy} from './sessionStore.js';
+import {usageTracker} from './usageTracker.js';
+import {conversationIndexer} from './conversationIndexer.js';
+import {resolveAdapterForSession} from './sessionAdapter.js';
+import {
+	jobQueue,
+	renderJobBranchTemplate,
+	resolveMaxConcurrentAgents,
+} from './jobQueue.js';
+import type {EnqueueJobInput} from './jobQueue.js';
+import type {QueueJobRecord, QueueJobStatus} from './sessionStore.js';
+import {workflowRunner} from './workflowRunner.js';
+import {budgetMonitor} from './budgetMonitor.js';
+import {comparisonRunner} from './comparisonRunner.js';
+import type {
+	ComparisonAttemptLaunch,
+	StartComparisonInput,
+} from './comparisonRunner.js';
+import type {BudgetSession} from './budgetMonitor.js';
+import type {StartWorkflowInput, WorkflowStepLaunch} from './workflowRunner.js';
+import type {ComparisonRunStatus, WorkflowRunStatus} from './sessionStore.js';
+import type {AutoApprovalVerdict} from './sessionStore.js';
+import {reviewComments} from './reviewComments.js';
+import {pullRequestService} from './pullRequestService.js';
+import {sessionHandoffService} from './sessionHandoffService.js';
+import {
+	formatConflictPrompt,
+	mergeConflictService,
+} from './mergeConflictService.js';
+import {worktreeCleanupService} from './worktreeCleanupService.js';
+import {gitStatusWatcher} from './gitStatusWatcher.js';
+import {getConfigDir} from '../utils/configDir.js';
+import {
+	createDualProtocolServer,
+	HSTS_HEADER_VALUE,
+	isPlainRemoteConnection,
+	resolveTlsCredentials,
+} from '../utils/tls.js';
+import type {Server as HttpsServer} from 'https';
+import {tdWatcher} from './tdWatcher.js';
+import {autoReviewer, REVIEW_VERDICT_INSTRUCTIONS} from './autoReviewer.js';
+import type {TdIssueChange, TdWatchedProject} from './tdWatcher.js';
+import type {WorktreeStatusUpdate} from './gitStatusWatcher.js';
+import type {WorktreeCleanupCandidate} from './worktreeCleanupService.js';
+import type {AddReviewCommentInput} from './reviewComments.js';
+import type {PublishPullRequestInput} from './pullRequestService.js';
+import type {AutoApprovalDecisionEvent} from './sessionManager.js';
+import {generateWorktreeDirectory} from '../utils/worktreeUtils.js';
 import {adapterRegistry} from '../adapters/index.js';
 import {globalSessionOrchestrator} from './globalSessionOrchestrator.js';
 import type {SessionManager} from './sessionManager.js';
@@ -101,8 +166,16 @@ async function cleanupTempImages() {
 cleanupTempImages();
 setInterval(cleanupTempImages, 60 * 60 * 1000);
 
-// Check if hostname is allowed (localhost, private network IP, or local hostname)
-function isAllowedHost(hostname: string): boolean {
+// Check if hostname is allowed (localhost, private network IP, local hostname,
+// or a public hostname served through a trusted reverse proxy)
+function isAllowedHost(
+	hostname: string,
+	proxyHosts: readonly string[] = [],
+): boolean {
+	if (proxyHosts.includes(hostname.toLowerCase())) {
+		return true;
+	}
+
 	// Localhost variants
 	if (['localhost', '127.0.0.1', '::1'].includes(hostname)) {
 		return true;
@@ -145,6 +218,25 @@ interface EffectiveTdStartupConfig {
 	injectTdUsage: boolean;
 }
 
+interface CreateSessionWithAgentInput {
+	path: string;
+	agentId: string;
+	options?: Record<string, boolean | string>;
+	sessionName?: string;
+	taskListName?: string;
+	tdTaskId?: string;
+	promptTemplate?: string;
+	intent?: 'work' | 'review' | 'manual';
+	/** Prompt typed into the agent once it is ready; replaces the TD prompt template of task-linked sessions */
+	initialPrompt?: string;
+	/** Appended to the startup prompt, e.g. how an automatic reviewer reports back */
+	promptSuffix?: string;
+}
+
+type CreateSessionWithAgentResult =
+	| {ok: true; id: string; name?: string; agentId?: string}
+	| {ok: false; statusCode: number; error: string};
+
 interface PendingTdPromptInjection {
 	prompt: string;
 	taskId?: string;
@@ -160,6 +252,20 @@ interface SessionRecoveryOutcome {
 	error?: string;
 }
 
+const USAGE_GROUP_BY_VALUES: UsageGroupBy[] = [
+	'project',
+	'agent',
+	'model',
+	'task',
+	'day',
+];
+
+const AUTO_APPROVAL_VERDICTS: AutoApprovalVerdict[] = [
+	'approved',
+	'needs_permission',
+	'error',
+];
+
 const TD_FALLBACK_DEFAULT_PROMPT_NAME = 'Begin Work on Task';
 const TD_FALLBACK_DEFAULT_PROMPT_CONTENT = [
 	'You are working on {{task.id}} - {{task.title}}.',
@@ -176,20 +282,6 @@ const TD_FALLBACK_DEFAULT_PROMPT_CONTENT = [
 	'Start by understanding scope, then implement minimal, correct changes.',
 ].join('\n');
 
-function findPromptTemplateByName(
-	templates: PromptTemplate[],
-	templateName: string,
-): PromptTemplate | null {
-	const normalized = templateName.trim();
-	if (!normalized) return null;
-
-	const exactMatch = templates.find(t => t.name === normalized);
-	if (exactMatch) return exactMatch;
-
-	const lowered = normalized.toLowerCase();
-	return templates.find(t => t.name.toLowerCase() === lowered) ?? null;
-}
-
 function ensureGlobalTdDefaultPromptConfigured(): void {
 	try {
 		const tdConfig = configurationManager.getTdConfig();
@@ -271,6 +363,19 @@ function buildTdStartupPrompt(params: {
 	return parts.join('\n\n');
 }
 
+// Run td write commands in order inside the project, returning the last output
+function runTdCommands(projectPath: string, commands: string[][]): string {
+	let output = '';
+	for (const args of commands) {
+		output = execFileSync('td', args, {
+			encoding: 'utf-8',
+			timeout: 5000,
+			cwd: projectPath,
+		});
+	}
+	return output;
+}
+
 function resolveEffectiveTdStartupConfig(
 	projectConfig: ProjectConfig | null,
 	globalTdConfig: TdConfig,
@@ -369,9 +474,35 @@ export class APIServer {
 	>();
 	private pendingFallbackSessionEndTimes = new Map<string, number>();
 	private hasRehydratedSessions = false;
+	private readonly httpsConfig = configurationManager.getHttpsConfig();
+	// Terminates TLS when HTTPS is enabled; certificates are loaded in start()
+	private secureServer: HttpsServer | undefined;
+	private readonly proxyHosts: string[];
+	// "Start next task" requests run one after another so two never pick the same task
+	private tdTaskStartQueue: Promise<unknown> = Promise.resolve();
 
 	constructor() {
-		this.app = Fastify({logger: false});
+		const trustedProxy = configurationManager.getTrustedProxyConfig();
+		this.proxyHosts = trustedProxy.enabled
+			? (trustedProxy.hosts ?? []).map(host => host.toLowerCase())
+			: [];
+		let serverFactory: FastifyServerFactory | undefined;
+		if (this.httpsConfig.enabled) {
+			serverFactory = handler => {
+				const dual = createDualProtocolServer(handler);
+				this.secureServer = dual.secureServer;
+				return dual.server;
+			};
+		}
+		this.app = Fastify({
+			logger: false,
+			trustProxy: trustedProxy.enabled
+				? trustedProxy.addresses?.length
+					? trustedProxy.addresses
+					: 'loopback'
+				: false,
+			serverFactory,
+		});
 		this.token = randomUUID();
 		this.setupPromise = this.setup();
 	}
@@ -611,6 +742,7 @@ export class APIServer {
 					'--show-toplevel',
 				]),
 				sessionName: session.name,
+				scrollbackPath: scrollbackStore.getPath(session.id) ?? undefined,
 				intent: 'manual',
 				createdAt,
 			});
@@ -750,11 +882,48 @@ export class APIServer {
 		}
 	}
 
+	/**
+	 * Re-attach to a session whose process survived the restart in the session
+	 * host. Unlike recoverSessionFromRecord this keeps the running agent as-is.
+	 */
+	private async adoptHostedSession(record: SessionRecord): Promise<boolean> {
+		const agent = this.resolveRecoveryAgent(record);
+		const manager = coreService.sessionManager;
+		const result = await Effect.runPromise(
+			Effect.either(
+				manager.adoptHostedSessionEffect(record.id, record.worktreePath, {
+					detectionStrategy: agent.detectionStrategy,
+					sessionName: record.sessionName || undefined,
+					agentId: agent.id,
+				}),
+			),
+		);
+		if (result._tag === 'Left') {
+			logger.warn(
+				`API: Failed to re-attach hosted session ${record.id}: ${result.left.message}`,
+			);
+			return false;
+		}
+
+		manager.setSessionActive(record.id, true);
+		return true;
+	}
+
 	private async rehydratePersistedSessions(): Promise<void> {
 		const recoverableSessions = sessionStore
 			.querySessions({limit: 5000, offset: 0})
 			.filter(record => record.endedAt === null)
 			.sort((a, b) => a.createdAt - b.createdAt);
+		const hostedSessionIds = new Set(await tmuxSessionHost.listSessionIds());
+
+		// Hosted processes without a live record would otherwise run forever
+		const recoverableIds = new Set(recoverableSessions.map(r => r.id));
+		for (const hostedId of hostedSessionIds) {
+			if (!recoverableIds.has(hostedId)) {
+				logger.info(`API: Stopping orphaned hosted session ${hostedId}`);
+				await tmuxSessionHost.terminate(hostedId);
+			}
+		}
 
 		if (recoverableSessions.length === 0) {
 			logger.info('API: No persisted live sessions found for recovery');
@@ -762,10 +931,20 @@ export class APIServer {
 		}
 
 		let restoredCount = 0;
+		let reattachedCount = 0;
 		for (const record of recoverableSessions) {
 			if (coreService.sessionManager.getSession(record.id)) {
 				continue;
 			}
+			if (hostedSessionIds.has(record.id)) {
+				if (await this.adoptHostedSession(record)) {
+					restoredCount += 1;
+					reattachedCount += 1;
+					continue;
+				}
+				// Avoid running two copies of the agent when falling back to a respawn
+				await tmuxSessionHost.terminate(record.id);
+			}
 			const outcome = await this.recoverSessionFromRecord(record, {
 				injectFallbackPrompt: false,
 				markEndedOnFailure: true,
@@ -780,196 +959,978 @@ export class APIServer {
 		}
 
 		logger.info(
-			`API: Session recovery complete (${restoredCount}/${recoverableSessions.length} restored)`,
+			`API: Session recovery complete (${restoredCount}/${recoverableSessions.length} restored, ${reattachedCount} re-attached)`,
 		);
 	}
 
-	private async setup(): Promise<void> {
-		// Register cookie plugin for session management
-		await this.app.register(fastifyCookie, {
-			secret: randomUUID(), // Used for signing cookies
-		});
+	/**
+	 * Spawn an agent session and persist its metadata. Shared by the
+	 * create-with-agent route and queued runs; failures carry the HTTP status
+	 * the route responds with.
+	 */
+	private async createSessionWithAgent(
+		input: CreateSessionWithAgentInput,
+	): Promise<CreateSessionWithAgentResult> {
+		const {
+			path: worktreePath,
+			agentId,
+			options = {},
+			sessionName,
+			taskListName,
+			tdTaskId,
+			promptTemplate,
+			intent,
+			initialPrompt,
+			promptSuffix,
+		} = input;
+		const normalizedTdTaskId = tdTaskId?.trim();
+		const resolvedIntent = resolveSessionIntent(intent);
+		if (normalizedTdTaskId && !isValidTdTaskId(normalizedTdTaskId)) {
+			return {ok: false, statusCode: 400, error: 'Invalid tdTaskId format'};
+		}
+		logger.info(
+			`API: Creating session "${sessionName || 'unnamed'}" for ${worktreePath} with agent: ${agentId}`,
+		);
 
-		// Register CORS - allow localhost and private network origins
-		await this.app.register(cors, {
-			origin: (origin, cb) => {
-				// Allow requests with no origin (like curl, mobile apps)
-				if (!origin) {
-					cb(null, true);
-					return;
-				}
-				// Allow localhost and private network origins
-				try {
-					const url = new URL(origin);
-					const allowed = isAllowedHost(url.hostname);
-					if (isDevMode()) {
-						logger.info(
-							`CORS check: origin=${origin} hostname=${url.hostname} allowed=${allowed}`,
-						);
-					}
-					if (allowed) {
-						cb(null, true);
-					} else {
-						logger.warn(`CORS rejected origin: ${origin}`);
-						cb(new Error('Not allowed by CORS'), false);
-					}
-				} catch (_e) {
-					logger.warn(`CORS invalid origin: ${origin}`);
-					cb(new Error('Invalid origin'), false);
-				}
-			},
-			credentials: true, // Allow cookies
-		});
+		const agent = configurationManager.getAgentById(agentId);
+		if (!agent) {
+			logger.error(`API: Agent not found: ${agentId}`);
+			return {ok: false, statusCode: 404, error: 'Agent not found'};
+		}
+		if (agent.enabled === false) {
+			return {
+				ok: false,
+				statusCode: 400,
+				error: `Agent "${agent.name}" is disabled`,
+			};
+		}
 
-		// Host header validation middleware (DNS rebinding protection)
-		this.app.addHook('preHandler', async (request, reply) => {
-			const host = request.headers.host?.split(':')[0];
-			if (host && !isAllowedHost(host)) {
-				logger.warn(`Blocked request with invalid Host header: ${host}`);
-				return reply.status(403).send({error: 'Invalid host'});
-			}
-		});
+		logger.info(
+			`API: Found agent "${agent.name}" (id=${agent.id}, command=${agent.command})`,
+		);
+		const normalizedPromptArg = agent.promptArg?.trim();
 
-		// Register Static Files (Serve the React App)
-		const clientDistPath = path.resolve(__dirname, '../../client/dist');
+		// Validate options
+		const validationErrors = configurationManager.validateAgentOptions(
+			agent,
+			options,
+		);
+		if (validationErrors.length > 0) {
+			return {ok: false, statusCode: 400, error: validationErrors.join('; ')};
+		}
 
-		try {
-			await this.app.register(fastifyStatic, {
-				root: clientDistPath,
-				prefix: '/',
-			});
-			logger.info(`Serving static files from ${clientDistPath}`);
+		// Build args
+		const args = configurationManager.buildAgentArgs(agent, options);
+		logger.info(`API: Built args for ${agent.id}: [${args.join(', ')}]`);
 
-			// SPA fallback: serve index.html for non-API routes (React handles routing)
-			this.app.setNotFoundHandler(async (request, reply) => {
-				// Don't intercept API routes - let them 404 normally
-				if (request.url.startsWith('/api/')) {
-					return reply.status(404).send({error: 'Not Found', statusCode: 404});
-				}
-				// Serve index.html for all other routes (SPA client-side routing)
-				return reply.sendFile('index.html');
-			});
-		} catch (_e) {
-			logger.warn(
-				`Failed to register static files from ${clientDistPath}. Client might not be built.`,
-			);
+		// Resolve command ($SHELL for terminal)
+		let command = agent.command;
+		if (command === '$SHELL') {
+			command = getDefaultShell();
 		}
+		logger.info(`API: Spawning command: ${command} ${args.join(' ')}`);
+
+		// Build extra env for Claude task list and td integration
+		const extraEnv: Record<string, string> = {};
+		const isClaudeAgent =
+			agentId === 'claude' ||
+			agent.command === 'claude' ||
+			agent.detectionStrategy === 'claude';
+		const projects = projectManager.getProjects();
+		const matchedProject = projects.find(
+			(p: {path: string}) =>
+				worktreePath.startsWith(p.path) ||
+				worktreePath.includes(`/.worktrees/${p.path.split('/').pop()}/`),
+		);
+		const projConfig = matchedProject
+			? loadProjectConfig(matchedProject.path)
+			: null;
+		const globalTdConfig = configurationManager.getTdConfig();
+		const effectiveTdConfig = resolveEffectiveTdStartupConfig(
+			projConfig,
+			globalTdConfig,
+		);
+		let startupPromptToInject: string | null = initialPrompt?.trim() || null;
+		let linkedTdSessionId: string | undefined;
 
-		ensureGlobalTdDefaultPromptConfigured();
-		this.setupRoutes();
-		this.setupSocketHandlers();
-		this.setupCoreListeners();
-	}
+		if (taskListName && isClaudeAgent) {
+			extraEnv['CLAUDE_TASK_LIST'] = taskListName;
+			logger.info(`API: Setting CLAUDE_TASK_LIST=${taskListName}`);
+		}
 
-	private setupRoutes() {
-		const resolveSelectedProjectTdContext = () => {
-			const project = coreService.getSelectedProject();
-			if (!project) {
-				return {
-					project: null,
-					projectConfig: null as ProjectConfig | null,
-					projectState: null as ReturnType<
-						typeof tdService.resolveProjectState
-					> | null,
-				};
+		// TD startup context and prompt injection for task-linked sessions
+		if (normalizedTdTaskId && effectiveTdConfig.enabled) {
+			let shouldAutoStartTdTask = false;
+			// An explicit prompt takes the place of the TD prompt template
+			let renderedPromptTemplate: string | null = initialPrompt?.trim() || null;
+			if (tdService.isAvailable()) {
+				const tdSessionId = `ses_${randomUUID().slice(0, 6)}`;
+				linkedTdSessionId = tdSessionId;
+				extraEnv['TD_SESSION_ID'] = tdSessionId;
+				extraEnv['TD_TASK_ID'] = normalizedTdTaskId;
+				logger.info(
+					`API: Setting TD_SESSION_ID=${tdSessionId}, TD_TASK_ID=${normalizedTdTaskId}`,
+				);
+				// Starting a task that is in review would pull it out of review
+				shouldAutoStartTdTask =
+					effectiveTdConfig.autoStart && resolvedIntent !== 'review';
 			}
 
-			const projectConfig = loadProjectConfig(project.path);
-			const globalTdConfig = configurationManager.getTdConfig();
-			const tdEnabled =
-				projectConfig?.td?.enabled ?? globalTdConfig.enabled ?? true;
-			const rawProjectState = tdService.resolveProjectState(project.path);
-			const projectState = !tdEnabled
-				? {
-						...rawProjectState,
-						enabled: false,
-					}
-				: rawProjectState;
-
-			return {project, projectConfig, projectState};
-		};
+			if (effectiveTdConfig.injectTaskContext && !renderedPromptTemplate) {
+				try {
+					const promptTemplates = loadPromptTemplatesByScope(
+						matchedProject?.path || '',
+						matchedProject ? 'effective' : 'global',
+					);
+					const explicitPromptTemplate = promptTemplate?.trim();
+					let selectedTemplate: PromptTemplate | null = null;
 
-		// --- Authentication Routes (public) ---
+					if (explicitPromptTemplate) {
+						selectedTemplate = findPromptTemplateByName(
+							promptTemplates,
+							explicitPromptTemplate,
+						);
+						if (!selectedTemplate) {
+							return {
+								ok: false,
+								statusCode: 400,
+								error: `Prompt template "${explicitPromptTemplate}" not found`,
+							};
+						}
+					} else {
+						const projectDefaultPrompt = projConfig?.td?.defaultPrompt?.trim();
+						const globalDefaultPrompt = globalTdConfig.defaultPrompt?.trim();
+						selectedTemplate =
+							(projectDefaultPrompt &&
+								findPromptTemplateByName(
+									promptTemplates,
+									projectDefaultPrompt,
+								)) ||
+							(globalDefaultPrompt &&
+								findPromptTemplateByName(
+									promptTemplates,
+									globalDefaultPrompt,
+								)) ||
+							null;
+						if (!selectedTemplate) {
+							if (promptTemplates.length > 0) {
+								selectedTemplate = promptTemplates[0]!;
+							} else {
+								return {
+									ok: false,
+									statusCode: 400,
+									error:
+										'No default TD prompt is configured. Set one in Settings > TD Integration.',
+								};
+							}
+						}
+					}
 
-		// Check auth status - returns whether user has valid session
-		this.app.get('/api/auth/status', async request => {
-			const sessionId = request.cookies['cacd_session'];
-			if (!sessionId) {
-				return {authenticated: false};
-			}
+					if (!selectedTemplate.content?.trim()) {
+						return {
+							ok: false,
+							statusCode: 400,
+							error: `Prompt template "${selectedTemplate.name}" has empty content`,
+						};
+					}
 
-			const session = authService.validateSession(sessionId);
-			return {
-				authenticated: !!session,
-				expiresAt: session?.expiresAt,
-			};
-		});
+					const tdState = tdService.resolveProjectState(worktreePath);
+					if (!tdState.initialized || !tdState.dbPath) {
+						return {
+							ok: false,
+							statusCode: 400,
+							error:
+								'TD project state is not initialized. Initialize td before linking sessions to tasks.',
+						};
+					}
 
-		// Verify passcode and create session
-		this.app.post<{Body: {passcode: string}}>(
-			'/api/auth/passcode',
-			async (request, reply) => {
-				const ip = request.ip || 'unknown';
+					const reader = new TdReader(tdState.dbPath);
+					try {
+						const taskDetail = reader.getIssueWithDetails(normalizedTdTaskId);
+						if (!taskDetail) {
+							return {
+								ok: false,
+								statusCode: 404,
+								error: `TD task ${normalizedTdTaskId} not found`,
+							};
+						}
 
-				// Check rate limiting
-				const rateLimit = authService.checkRateLimit(ip);
-				if (!rateLimit.allowed) {
-					reply.status(429);
+						renderedPromptTemplate = renderTaskPromptTemplate(
+							selectedTemplate.content,
+							taskDetail,
+						);
+					} finally {
+						reader.close();
+					}
+				} catch (err) {
+					logger.warn(`API: Failed to prepare TD startup prompt: ${err}`);
 					return {
-						success: false,
-						error: 'Too many attempts',
-						retryAfter: rateLimit.retryAfter,
+						ok: false,
+						statusCode: 500,
+						error: 'Failed to prepare TD startup prompt',
 					};
 				}
+			} else if (!effectiveTdConfig.injectTaskContext) {
+				logger.info('API: TD task-context injection disabled by config');
+			}
 
-				const {passcode} = request.body;
-				if (!passcode) {
-					reply.status(400);
-					return {success: false, error: 'Passcode required'};
-				}
-
-				// Get stored passcode hash from config
-				const config = configurationManager.getConfiguration();
-				const passcodeHash = config.passcodeHash;
-
-				if (!passcodeHash) {
-					// No passcode set - this shouldn't happen if onboarding completed
-					reply.status(500);
-					return {success: false, error: 'Authentication not configured'};
-				}
-
-				// Verify passcode
-				const valid = await authService.verifyPasscode(passcode, passcodeHash);
-				authService.recordAttempt(ip, valid);
+			if (
+				effectiveTdConfig.injectTdUsage ||
+				effectiveTdConfig.injectTaskContext
+			) {
+				startupPromptToInject = buildTdStartupPrompt({
+					taskId: normalizedTdTaskId,
+					renderedPromptTemplate,
+					injectTdUsage: effectiveTdConfig.injectTdUsage,
+				});
+			}
 
-				if (!valid) {
-					const updatedRateLimit = authService.checkRateLimit(ip);
-					reply.status(401);
-					return {
-						success: false,
-						error: 'Invalid passcode',
-						attemptsRemaining: updatedRateLimit.attemptsRemaining,
-					};
+			// Auto-start only after all TD prompt/task validations succeeded.
+			if (shouldAutoStartTdTask && linkedTdSessionId) {
+				try {
+					execFileSync(
+						'td',
+						[
+							'start',
+							normalizedTdTaskId,
+							'--session',
+							linkedTdSessionId,
+							'-w',
+							worktreePath,
+						],
+						{
+							encoding: 'utf-8',
+							timeout: 5000,
+						},
+					);
+					logger.info(`API: Auto-started td task ${normalizedTdTaskId}`);
+				} catch (startErr) {
+					// Non-fatal: task might already be in_progress
+					logger.warn(
+						`API: td start failed (may already be started): ${startErr}`,
+					);
 				}
+			} else if (effectiveTdConfig.autoStart) {
+				logger.info('API: td auto-start skipped (td unavailable)');
+			} else {
+				logger.info('API: td auto-start disabled by config');
+			}
+		}
 
-				// Create session and set cookie
-				const session = authService.createSession();
-				reply.setCookie('cacd_session', session.id, {
-					path: '/',
-					httpOnly: true,
-					sameSite: 'strict',
-					maxAge: 7 * 24 * 60 * 60, // 7 days
-				});
+		if (promptSuffix?.trim()) {
+			startupPromptToInject = [startupPromptToInject, promptSuffix.trim()]
+				.filter(Boolean)
+				.join('\n\n');
+		}
 
-				logger.info('User authenticated successfully');
-				return {success: true};
+		// Create session with resolved command and args
+		const effect = coreService.sessionManager.createSessionWithAgentEffect(
+			worktreePath,
+			command,
+			args,
+			agent.detectionStrategy,
+			sessionName,
+			agentId,
+			Object.keys(extraEnv).length > 0 ? extraEnv : undefined,
+			agent.kind,
+			{
+				initialPrompt:
+					startupPromptToInject && normalizedPromptArg?.toLowerCase() !== 'none'
+						? startupPromptToInject
+						: undefined,
+				promptArg: normalizedPromptArg,
 			},
 		);
+		const result = await Effect.runPromise(Effect.either(effect));
 
-		// Logout - invalidate session
-		this.app.post('/api/auth/logout', async (request, reply) => {
-			const sessionId = request.cookies['cacd_session'];
-			if (sessionId) {
+		if (result._tag === 'Left') {
+			return {ok: false, statusCode: 500, error: result.left.message};
+		}
+
+		// Session created successfully - store task list name to project metadata
+		if (taskListName && isClaudeAgent) {
+			// Find the project that contains this worktree path
+			const projects = projectManager.getProjects();
+			for (const project of projects) {
+				if (worktreePath.startsWith(project.path)) {
+					projectManager.instance.addTaskListName(project.path, taskListName);
+					logger.info(
+						`API: Stored task list name "${taskListName}" for project ${project.name}`,
+					);
+					break;
+				}
+			}
+		}
+
+		const session = result.right;
+		coreService.sessionManager.setSessionActive(session.id, true);
+
+		const createdAt = Math.floor(Date.now() / 1000);
+		const branchName = resolveGitField(worktreePath, [
+			'branch',
+			'--show-current',
+		]);
+		const projectPath =
+			matchedProject?.path ||
+			resolveGitField(worktreePath, ['rev-parse', '--show-toplevel']);
+		const adapterForAgent =
+			adapterRegistry.getById(agent.id) ||
+			adapterRegistry.getByAgentType(inferAgentType(agent));
+		const agentType = adapterForAgent?.id || inferAgentType(agent);
+
+		try {
+			sessionStore.createSessionRecord({
+				id: session.id,
+				agentProfileId: agent.id,
+				agentProfileName: agent.name,
+				agentType,
+				agentOptions: options,
+				worktreePath,
+				branchName,
+				projectPath,
+				tdTaskId: normalizedTdTaskId,
+				tdSessionId: linkedTdSessionId,
+				sessionName: session.name,
+				scrollbackPath: scrollbackStore.getPath(session.id) ?? undefined,
+				intent: resolvedIntent,
+				createdAt,
+			});
+
+			sessionStore.scheduleAgentSessionDiscovery({
+				sessionId: session.id,
+				agentType,
+				worktreePath,
+				createdAt,
+			});
+		} catch (error) {
+			logger.warn(
+				`API: Failed to persist session metadata for ${session.id}: ${String(error)}`,
+			);
+		}
+
+		if (startupPromptToInject && agent.kind !== 'terminal') {
+			this.queueTdPromptInjection(
+				session.id,
+				startupPromptToInject,
+				normalizedTdTaskId,
+			);
+			this.injectPendingTdPromptIfReady(session);
+		}
+
+		return {
+			ok: true,
+			id: session.id,
+			name: session.name,
+			agentId: session.agentId,
+		};
+	}
+
+	/**
+	 * Create a worktree for a new branch off baseBranch (default: the
+	 * project's default branch), at the configured auto-directory location.
+	 * @returns path of the new worktree
+	 */
+	private async createBranchWorktree(
+		projectPath: string,
+		branch: string,
+		baseBranch?: string,
+	): Promise<string> {
+		const worktreeService =
+			projectManager.instance.getWorktreeService(projectPath);
+		const base = baseBranch || (await this.getDefaultBranch(projectPath));
+
+		const worktreeConfig = configurationManager.getWorktreeConfig();
+		const worktreePath = generateWorktreeDirectory(
+			projectPath,
+			branch,
+			worktreeConfig.autoDirectoryPattern,
+		);
+		const created = await Effect.runPromise(
+			Effect.either(
+				worktreeService.createWorktreeEffect(
+					worktreePath,
+					branch,
+					base,
+					worktreeConfig.copySessionData ?? true,
+					true,
+				),
+			),
+		);
+		if (created._tag === 'Left') {
+			throw new Error(
+				`Failed to create worktree ${branch}: ${created.left.message}`,
+			);
+		}
+		await coreService.refreshWorktrees();
+		return worktreePath;
+	}
+
+	private async getDefaultBranch(projectPath: string): Promise<string> {
+		const defaultBranch = await Effect.runPromise(
+			Effect.either(
+				projectManager.instance
+					.getWorktreeService(projectPath)
+					.getDefaultBranchEffect(),
+			),
+		);
+		if (defaultBranch._tag === 'Left') {
+			throw new Error(
+				`Failed to resolve default branch: ${defaultBranch.left.message}`,
+			);
+		}
+		return defaultBranch.right;
+	}
+
+	/**
+	 * Settings of a quick-start flow: each field from the project's
+	 * quickStart config, then the global one. The agent falls back to the
+	 * project's default agent, then the global default.
+	 */
+	private resolveQuickStartFlow(
+		flow: 'work' | 'review',
+		projectConfig: ProjectConfig | null,
+	) {
+		const globalFlow =
+			configurationManager.getConfiguration().quickStart?.[flow];
+		const projectFlow = projectConfig?.quickStart?.[flow];
+		return {
+			branchTemplate: projectFlow?.branchTemplate || globalFlow?.branchTemplate,
+			promptTemplate: projectFlow?.promptTemplate || globalFlow?.promptTemplate,
+			sessionNameTemplate:
+				projectFlow?.sessionNameTemplate || globalFlow?.sessionNameTemplate,
+			agentId:
+				projectFlow?.agentId ||
+				projectConfig?.agentDefaults?.agentId ||
+				globalFlow?.agentId ||
+				configurationManager.getDefaultAgent().id,
+		};
+	}
+
+	/**
+	 * Whether a live session is linked to the task or the branch its work
+	 * worktree would get already exists.
+	 */
+	private isTdTaskStarted(
+		projectPath: string,
+		projectConfig: ProjectConfig | null,
+		issue: TdIssue,
+	): boolean {
+		const linked = globalSessionOrchestrator
+			.getAllActiveSessions()
+			.some(
+				session =>
+					sessionStore.getSessionById(session.id)?.tdTaskId === issue.id,
+			);
+		if (linked) return true;
+
+		const branch = renderTdBranchTemplate(
+			this.resolveQuickStartFlow('work', projectConfig).branchTemplate,
+			issue,
+		);
+		try {
+			execFileSync(
+				'git',
+				['show-ref', '--verify', '--quiet', `refs/heads/${branch}`],
+				{cwd: projectPath, stdio: 'ignore'},
+			);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Quick-start "work" on a td task: create a worktree from the configured
+	 * branch template and launch the work agent linked to the task.
+	 */
+	private async startTdTaskWork(
+		projectPath: string,
+		projectConfig: ProjectConfig | null,
+		issue: TdIssue,
+	): Promise<
+		| {ok: true; sessionId: string; worktreePath: string}
+		| {ok: false; statusCode: number; error: string}
+	> {
+		const work = this.resolveQuickStartFlow('work', projectConfig);
+		const branch = renderTdBranchTemplate(work.branchTemplate, issue);
+
+		let worktreePath: string;
+		try {
+			worktreePath = await this.createBranchWorktree(projectPath, branch);
+		} catch (error) {
+			return {
+				ok: false,
+				statusCode: 500,
+				error: error instanceof Error ? error.message : String(error),
+			};
+		}
+
+		const result = await this.createSessionWithAgent({
+			path: worktreePath,
+			agentId: work.agentId,
+			sessionName: issue.id,
+			tdTaskId: issue.id,
+			// Unset falls back to td.defaultPrompt
+			promptTemplate: work.promptTemplate,
+			intent: 'work',
+		});
+		if (!result.ok) return result;
+		return {ok: true, sessionId: result.id, worktreePath};
+	}
+
+	/** Last assistant message in a session's agent conversation log. */
+	private async readFinalAssistantMessage(
+		sessionId: string,
+	): Promise<string | undefined> {
+		const session = sessionStore.getSessionById(sessionId);
+		if (!session?.agentSessionPath) return undefined;
+		const adapter = resolveAdapterForSession(session);
+		if (!adapter) return undefined;
+
+		const messages = await adapter.parseMessages(session.agentSessionPath);
+		return [...messages]
+			.reverse()
+			.find(message => message.role === 'assistant' && message.content.trim())
+			?.content;
+	}
+
+	/**
+	 * Automatic review of a task that entered in_review: run the quick-start
+	 * review flow in the worktree the implementer worked in.
+	 * @returns id of the started review session
+	 */
+	private async launchAutoReview(
+		projectPath: string,
+		issue: TdIssue,
+	): Promise<string> {
+		const worktreePath = await this.findImplementerWorktree(projectPath, issue);
+		if (!worktreePath) {
+			throw new Error(`No worktree found for ${issue.id}`);
+		}
+
+		const review = this.resolveQuickStartFlow(
+			'review',
+			loadProjectConfig(projectPath),
+		);
+		// The work prompt td.defaultPrompt falls back to is no review prompt
+		const promptTemplate =
+			review.promptTemplate ||
+			findPromptTemplateByName(
+				loadPromptTemplatesByScope(projectPath, 'effective'),
+				'Code Review',
+			)?.name;
+		const result = await this.createSessionWithAgent({
+			path: worktreePath,
+			agentId: review.agentId,
+			sessionName: renderTdTemplate(
+				review.sessionNameTemplate || 'Review: {{task.id}}',
+				issue,
+			),
+			tdTaskId: issue.id,
+			promptTemplate,
+			intent: 'review',
+			promptSuffix: REVIEW_VERDICT_INSTRUCTIONS,
+		});
+		if (!result.ok) throw new Error(result.error);
+		return result.id;
+	}
+
+	/**
+	 * The worktree of the session that implemented a task, or else the one
+	 * checked out on the branch the task was created on.
+	 */
+	private async findImplementerWorktree(
+		projectPath: string,
+		issue: TdIssue,
+	): Promise<string | undefined> {
+		const implementer = issue.implementer_session
+			? sessionStore.getLatestByTdSessionId({
+					tdSessionId: issue.implementer_session,
+					tdTaskId: issue.id,
+					projectPath,
+				})
+			: null;
+		if (implementer?.worktreePath && existsSync(implementer.worktreePath)) {
+			return implementer.worktreePath;
+		}
+
+		const branch = issue.created_branch?.replace(/^refs\/heads\//, '');
+		if (!branch) return undefined;
+		const worktrees = await Effect.runPromise(
+			Effect.either(
+				projectManager.instance
+					.getWorktreeService(projectPath)
+					.getWorktreesEffect(),
+			),
+		);
+		if (worktrees._tag === 'Left') return undefined;
+		return worktrees.right.find(
+			worktree =>
+				!worktree.isMainWorktree &&
+				worktree.branch?.replace(/^refs\/heads\//, '') === branch,
+		)?.path;
+	}
+
+	/**
+	 * Start a session for a queued job. Jobs with a branch template get a fresh
+	 * worktree per run; a prompt template without a TD task is typed in as the
+	 * initial prompt.
+	 * @returns id of the started session
+	 */
+	private async launchQueueJob(job: QueueJobRecord): Promise<string> {
+		let worktreePath = job.worktreePath || job.projectPath;
+
+		if (job.branchTemplate) {
+			worktreePath = await this.createBranchWorktree(
+				job.projectPath,
+				renderJobBranchTemplate(job.branchTemplate, job),
+			);
+		}
+
+		let initialPrompt: string | undefined;
+		if (job.promptTemplate && !job.tdTaskId) {
+			const template = findPromptTemplateByName(
+				loadPromptTemplatesByScope(job.projectPath, 'effective'),
+				job.promptTemplate,
+			);
+			if (!template) {
+				throw new Error(`Prompt template "${job.promptTemplate}" not found`);
+			}
+			initialPrompt = template.content;
+		}
+
+		const result = await this.createSessionWithAgent({
+			path: worktreePath,
+			agentId: job.agentId,
+			options: job.agentOptions as Record<string, boolean | string>,
+			sessionName: job.sessionName ?? undefined,
+			tdTaskId: job.tdTaskId ?? undefined,
+			promptTemplate: job.tdTaskId
+				? (job.promptTemplate ?? undefined)
+				: undefined,
+			intent: job.tdTaskId ? 'work' : 'manual',
+			initialPrompt,
+		});
+		if (!result.ok) {
+			throw new Error(result.error);
+		}
+		return result.id;
+	}
+
+	/**
+	 * Start the session of a workflow step. Steps of a TD-linked run that name
+	 * a prompt template get it rendered with the task like any linked session.
+	 * @returns id of the started session
+	 */
+	private async launchWorkflowStep(
+		launch: WorkflowStepLaunch,
+	): Promise<string> {
+		const {run, step, stepIndex, worktreePath, initialPrompt} = launch;
+		const result = await this.createSessionWithAgent({
+			path: worktreePath,
+			agentId: step.agentId,
+			options: step.agentOptions,
+			sessionName:
+				step.sessionName ||
+				`${run.workflowName}: ${run.steps[stepIndex]!.name}`,
+			tdTaskId: run.tdTaskId ?? undefined,
+			promptTemplate:
+				run.tdTaskId && !initialPrompt ? step.promptTemplate : undefined,
+			intent: step.intent ?? (run.tdTaskId ? 'work' : 'manual'),
+			initialPrompt,
+		});
+		if (!result.ok) {
+			throw new Error(result.error);
+		}
+		return result.id;
+	}
+
+	/**
+	 * Start the session of one A/B run attempt. TD-linked runs without a prompt
+	 * get the task rendered into their prompt template like any linked session.
+	 * @returns id of the started session
+	 */
+	private async launchComparisonAttempt(
+		launch: ComparisonAttemptLaunch,
+	): Promise<string> {
+		const {run, attempt, attemptIndex, worktreePath, initialPrompt} = launch;
+		const agentName =
+			configurationManager.getAgentById(attempt.agentId)?.name ??
+			attempt.agentId;
+		const result = await this.createSessionWithAgent({
+			path: worktreePath,
+			agentId: attempt.agentId,
+			sessionName: `A/B ${attemptIndex + 1}: ${agentName}`,
+			tdTaskId: run.tdTaskId ?? undefined,
+			promptTemplate:
+				run.tdTaskId && !initialPrompt
+					? (run.promptTemplate ?? undefined)
+					: undefined,
+			intent: run.tdTaskId ? 'work' : 'manual',
+			initialPrompt,
+		});
+		if (!result.ok) {
+			throw new Error(result.error);
+		}
+		return result.id;
+	}
+
+	/** td databases of every project with td enabled, for live board updates */
+	private listTdWatchedProjects(): TdWatchedProject[] {
+		const globalTdEnabled = configurationManager.getTdConfig().enabled ?? true;
+		const projects: TdWatchedProject[] = [];
+		for (const project of projectManager.getProjects()) {
+			const tdEnabled =
+				loadProjectConfig(project.path)?.td?.enabled ?? globalTdEnabled;
+			if (!tdEnabled) continue;
+			const state = tdService.resolveProjectState(project.path);
+			if (state.enabled && state.dbPath) {
+				projects.push({projectPath: project.path, dbPath: state.dbPath});
+			}
+		}
+		return projects;
+	}
+
+	/** Running agent sessions with the details the budget monitor needs */
+	private listBudgetSessions(): BudgetSession[] {
+		return globalSessionOrchestrator
+			.getAllActiveSessions()
+			.filter(session => {
+				const agent = session.agentId
+					? configurationManager.getAgentById(session.agentId)
+					: undefined;
+				return agent?.kind !== 'terminal';
+			})
+			.map(session => {
+				const record = sessionStore.getSessionById(session.id);
+				return {
+					id: session.id,
+					name: session.name,
+					agentId: session.agentId,
+					worktreePath: session.worktreePath,
+					projectPath: record?.projectPath ?? null,
+					createdAt: record?.createdAt ?? resolveSessionCreatedAt(session),
+					state: session.stateMutex.getSnapshot().state,
+				};
+			});
+	}
+
+	/** Running agent (non-terminal) sessions recorded for a project. */
+	private countActiveProjectAgents(projectPath: string): number {
+		return globalSessionOrchestrator.getAllActiveSessions().filter(session => {
+			const agent = session.agentId
+				? configurationManager.getAgentById(session.agentId)
+				: undefined;
+			if (agent?.kind === 'terminal') return false;
+			return (
+				sessionStore.getSessionById(session.id)?.projectPath === projectPath
+			);
+		}).length;
+	}
+
+	private async setup(): Promise<void> {
+		// Register cookie plugin for session management
+		await this.app.register(fastifyCookie, {
+			secret: randomUUID(), // Used for signing cookies
+		});
+
+		// Register CORS - allow localhost and private network origins
+		await this.app.register(cors, {
+			origin: (origin, cb) => {
+				// Allow requests with no origin (like curl, mobile apps)
+				if (!origin) {
+					cb(null, true);
+					return;
+				}
+				// Allow localhost and private network origins
+				try {
+					const url = new URL(origin);
+					const allowed = isAllowedHost(url.hostname, this.proxyHosts);
+					if (isDevMode()) {
+						logger.info(
+							`CORS check: origin=${origin} hostname=${url.hostname} allowed=${allowed}`,
+						);
+					}
+					if (allowed) {
+						cb(null, true);
+					} else {
+						logger.warn(`CORS rejected origin: ${origin}`);
+						cb(new Error('Not allowed by CORS'), false);
+					}
+				} catch (_e) {
+					logger.warn(`CORS invalid origin: ${origin}`);
+					cb(new Error('Invalid origin'), false);
+				}
+			},
+			credentials: true, // Allow cookies
+		});
+
+		// Host header validation middleware (DNS rebinding protection).
+		// Behind a trusted proxy, hostname comes from X-Forwarded-Host
+		this.app.addHook('preHandler', async (request, reply) => {
+			const host = request.hostname;
+			if (host && !isAllowedHost(host, this.proxyHosts)) {
+				logger.warn(`Blocked request with invalid Host header: ${host}`);
+				return reply.status(403).send({error: 'Invalid host'});
+			}
+		});
+
+		if (this.httpsConfig.enabled) {
+			// Send LAN browsers to TLS before the token or passcode is sent
+			this.app.addHook('preHandler', async (request, reply) => {
+				if (isPlainRemoteConnection(request.raw.socket)) {
+					return reply.redirect(`https://${request.host}${request.url}`, 308);
+				}
+			});
+		}
+
+		this.app.addHook('onSend', async (request, reply) => {
+			if (request.protocol === 'https' && this.httpsConfig.hsts !== false) {
+				reply.header('Strict-Transport-Security', HSTS_HEADER_VALUE);
+			}
+		});
+
+		// Register Static Files (Serve the React App)
+		const clientDistPath = path.resolve(__dirname, '../../client/dist');
+
+		try {
+			await this.app.register(fastifyStatic, {
+				root: clientDistPath,
+				prefix: '/',
+			});
+			logger.info(`Serving static files from ${clientDistPath}`);
+
+			// SPA fallback: serve index.html for non-API routes (React handles routing)
+			this.app.setNotFoundHandler(async (request, reply) => {
+				// Don't intercept API routes - let them 404 normally
+				if (request.url.startsWith('/api/')) {
+					return reply.status(404).send({error: 'Not Found', statusCode: 404});
+				}
+				// Serve index.html for all other routes (SPA client-side routing)
+				return reply.sendFile('index.html');
+			});
+		} catch (_e) {
+			logger.warn(
+				`Failed to register static files from ${clientDistPath}. Client might not be built.`,
+			);
+		}
+
+		ensureGlobalTdDefaultPromptConfigured();
+		this.setupRoutes();
+		this.setupSocketHandlers();
+		this.setupCoreListeners();
+	}
+
+	private setupRoutes() {
+		const resolveSelectedProjectTdContext = () => {
+			const project = coreService.getSelectedProject();
+			if (!project) {
+				return {
+					project: null,
+					projectConfig: null as ProjectConfig | null,
+					projectState: null as ReturnType<
+						typeof tdService.resolveProjectState
+					> | null,
+				};
+			}
+
+			const projectConfig = loadProjectConfig(project.path);
+			const globalTdConfig = configurationManager.getTdConfig();
+			const tdEnabled =
+				projectConfig?.td?.enabled ?? globalTdConfig.enabled ?? true;
+			const rawProjectState = tdService.resolveProjectState(project.path);
+			const projectState = !tdEnabled
+				? {
+						...rawProjectState,
+						enabled: false,
+					}
+				: rawProjectState;
+
+			return {project, projectConfig, projectState};
+		};
+
+		// --- Authentication Routes (public) ---
+
+		// Check auth status - returns whether user has valid session
+		this.app.get('/api/auth/status', async request => {
+			const sessionId = request.cookies['cacd_session'];
+			if (!sessionId) {
+				return {authenticated: false};
+			}
+
+			const session = authService.validateSession(sessionId);
+			return {
+				authenticated: !!session,
+				expiresAt: session?.expiresAt,
+			};
+		});
+
+		// Verify passcode and create session
+		this.app.post<{Body: {passcode: string}}>(
+			'/api/auth/passcode',
+			async (request, reply) => {
+				const ip = request.ip || 'unknown';
+
+				// Check rate limiting
+				const rateLimit = authService.checkRateLimit(ip);
+				if (!rateLimit.allowed) {
+					reply.status(429);
+					return {
+						success: false,
+						error: 'Too many attempts',
+						retryAfter: rateLimit.retryAfter,
+					};
+				}
+
+				const {passcode} = request.body;
+				if (!passcode) {
+					reply.status(400);
+					return {success: false, error: 'Passcode required'};
+				}
+
+				// Get stored passcode hash from config
+				const config = configurationManager.getConfiguration();
+				const passcodeHash = config.passcodeHash;
+
+				if (!passcodeHash) {
+					// No passcode set - this shouldn't happen if onboarding completed
+					reply.status(500);
+					return {success: false, error: 'Authentication not configured'};
+				}
+
+				// Verify passcode
+				const valid = await authService.verifyPasscode(passcode, passcodeHash);
+				authService.recordAttempt(ip, valid);
+
+				if (!valid) {
+					const updatedRateLimit = authService.checkRateLimit(ip);
+					reply.status(401);
+					return {
+						success: false,
+						error: 'Invalid passcode',
+						attemptsRemaining: updatedRateLimit.attemptsRemaining,
+					};
+				}
+
+				// Create session and set cookie
+				const session = authService.createSession();
+				reply.setCookie('cacd_session', session.id, {
+					path: '/',
+					httpOnly: true,
+					sameSite: 'strict',
+					secure: request.protocol === 'https',
+					maxAge: 7 * 24 * 60 * 60, // 7 days
+				});
+
+				logger.info('User authenticated successfully');
+				return {success: true};
+			},
+		);
+
+		// Logout - invalidate session
+		this.app.post('/api/auth/logout', async (request, reply) => {
+			const sessionId = request.cookies['cacd_session'];
+			if (sessionId) {
 				authService.invalidateSession(sessionId);
 			}
 
@@ -1274,26 +2235,7 @@ export class APIServer {
 						Effect.either(worktreeService.getWorktreesEffect()),
 					);
 					if (result._tag === 'Right') {
-						// Fetch git status for each worktree in parallel
-						const worktreesWithStatus = await Promise.all(
-							result.right.map(async wt => {
-								const gitResult = await Effect.runPromise(
-									Effect.either(getGitStatusLimited(wt.path)),
-								);
-								return {
-									...wt,
-									gitStatus:
-										gitResult._tag === 'Right' ? gitResult.right : undefined,
-									gitStatusError:
-										gitResult._tag === 'Left'
-											? gitResult.left.message
-											: undefined,
-								};
-							}),
-						);
-						for (const wt of worktreesWithStatus) {
-							allWorktrees.push(wt);
-						}
+						allWorktrees.push(...result.right);
 					}
 				} catch (error) {
 					logger.warn(
@@ -1301,15 +2243,175 @@ export class APIServer {
 						error,
 					);
 				}
-			}
+			}
+
+			// Watched worktrees answer from cache and push later changes as
+			// worktree_status events
+			await gitStatusWatcher.sync(allWorktrees.map(wt => wt.path));
+			await Promise.all(
+				allWorktrees.map(async wt => {
+					const {gitStatus, gitStatusError} = await gitStatusWatcher.getStatus(
+						wt.path,
+					);
+					wt.gitStatus = gitStatus;
+					wt.gitStatusError = gitStatusError;
+				}),
+			);
+
+			// Update hasSession using all active sessions across all managers
+			const allSessions = globalSessionOrchestrator.getAllActiveSessions();
+			for (const wt of allWorktrees) {
+				wt.hasSession = allSessions.some(s => s.worktreePath === wt.path);
+			}
+
+			return allWorktrees;
+		});
+
+		// Merged, orphaned, task-closed and stale worktrees across all projects
+		this.app.get<{
+			Querystring: {projectPath?: string; staleDays?: string};
+		}>('/api/worktrees/cleanup-candidates', async (request, reply) => {
+			const staleAfterDays = request.query.staleDays
+				? Number.parseInt(request.query.staleDays, 10)
+				: undefined;
+			if (
+				staleAfterDays !== undefined &&
+				(!Number.isFinite(staleAfterDays) || staleAfterDays < 0)
+			) {
+				return reply.code(400).send({error: 'Invalid staleDays'});
+			}
+
+			const activeWorktreePaths = globalSessionOrchestrator
+				.getAllActiveSessions()
+				.map(session => session.worktreePath);
+			const projects = projectManager
+				.getProjects()
+				.filter(
+					project =>
+						project.isValid &&
+						(!request.query.projectPath ||
+							project.path === request.query.projectPath),
+				);
+
+			const candidates: WorktreeCleanupCandidate[] = [];
+			for (const project of projects) {
+				try {
+					candidates.push(
+						...(await worktreeCleanupService.analyze(
+							projectManager.instance.getWorktreeService(project.path),
+							{
+								projectPath: project.path,
+								activeWorktreePaths,
+								staleAfterDays,
+							},
+						)),
+					);
+				} catch (error) {
+					logger.warn(
+						`Failed to analyze worktrees for project ${project.path}:`,
+						error,
+					);
+				}
+			}
+
+			return {candidates};
+		});
+
+		// Delete several worktrees; each one still runs its delete hooks
+		this.app.post<{
+			Body: {
+				worktrees: Array<{
+					path: string;
+					projectPath: string;
+					deleteBranch?: boolean;
+				}>;
+			};
+		}>('/api/worktrees/cleanup', async (request, reply) => {
+			const {worktrees} = request.body || {};
+			if (!Array.isArray(worktrees) || worktrees.length === 0) {
+				return reply
+					.code(400)
+					.send({error: 'worktrees must be a non-empty array'});
+			}
+
+			const activeWorktreePaths = new Set(
+				globalSessionOrchestrator
+					.getAllActiveSessions()
+					.map(session => session.worktreePath),
+			);
+			const results: Array<{
+				path: string;
+				success: boolean;
+				error?: string;
+				warnings?: string[];
+			}> = [];
+
+			for (const item of worktrees) {
+				if (!item?.path || !item.projectPath) {
+					results.push({
+						path: item?.path || '',
+						success: false,
+						error: 'path and projectPath are required',
+					});
+					continue;
+				}
+				if (activeWorktreePaths.has(item.path)) {
+					results.push({
+						path: item.path,
+						success: false,
+						error: 'Worktree has an active session',
+					});
+					continue;
+				}
 
-			// Update hasSession using all active sessions across all managers
-			const allSessions = globalSessionOrchestrator.getAllActiveSessions();
-			for (const wt of allWorktrees) {
-				wt.hasSession = allSessions.some(s => s.worktreePath === wt.path);
+				const worktreeService = projectManager.instance.getWorktreeService(
+					item.projectPath,
+				);
+				const listed = await Effect.runPromise(
+					Effect.either(worktreeService.getWorktreesEffect()),
+				);
+				const worktree =
+					listed._tag === 'Right'
+						? listed.right.find(wt => wt.path === item.path)
+						: undefined;
+				if (!worktree || worktree.isMainWorktree) {
+					results.push({
+						path: item.path,
+						success: false,
+						error: worktree
+							? 'The main worktree cannot be deleted'
+							: 'Worktree not found in project',
+					});
+					continue;
+				}
+
+				const result = await Effect.runPromise(
+					Effect.either(
+						worktreeService.deleteWorktreeEffect(item.path, {
+							deleteBranch: item.deleteBranch ?? false,
+						}),
+					),
+				);
+				if (result._tag === 'Left') {
+					results.push({
+						path: item.path,
+						success: false,
+						error: result.left.message,
+					});
+				} else {
+					results.push({
+						path: item.path,
+						success: true,
+						warnings: result.right.warnings,
+					});
+				}
 			}
 
-			return allWorktrees;
+			logger.info(
+				`API: Cleaned up ${results.filter(result => result.success).length}/${results.length} worktrees`,
+			);
+			await coreService.refreshWorktrees();
+			return {results};
 		});
 
 		// --- Git Status Endpoints ---
@@ -1385,6 +2487,150 @@ export class APIServer {
 			return {diff: result.right};
 		});
 
+		// --- Review comments on worktree diffs ---
+
+		this.app.get<{
+			Querystring: {path: string; file?: string; all?: string};
+		}>('/api/worktree/review-comments', async (request, reply) => {
+			const {path: worktreePath, file: filePath, all} = request.query;
+			if (!worktreePath) {
+				return reply.code(400).send({error: 'path query parameter required'});
+			}
+
+			let validatedWorktreePath: string;
+			try {
+				validatedWorktreePath = validateWorktreePath(worktreePath);
+			} catch (_error) {
+				logger.warn(`Invalid worktree path requested: ${worktreePath}`);
+				return reply.code(400).send({error: 'Invalid worktree path'});
+			}
+
+			return reviewComments.list(validatedWorktreePath, {
+				filePath,
+				allCommits: all === 'true' || all === '1',
+			});
+		});
+
+		this.app.post<{
+			Body: Omit<AddReviewCommentInput, 'worktreePath' | 'filePath'> & {
+				path: string;
+				file: string;
+			};
+		}>('/api/worktree/review-comments', async (request, reply) => {
+			const {
+				path: worktreePath,
+				file: filePath,
+				...rest
+			} = request.body || ({} as {path: string; file: string});
+			if (!worktreePath || !filePath) {
+				return reply.code(400).send({error: 'path and file are required'});
+			}
+
+			let validatedWorktreePath: string;
+			try {
+				validatedWorktreePath = validateWorktreePath(worktreePath);
+				validatePathWithinBase(validatedWorktreePath, filePath);
+			} catch (_error) {
+				logger.warn(
+					`Invalid review comment location: ${filePath} in ${worktreePath}`,
+				);
+				return reply.code(400).send({error: 'Invalid worktree or file path'});
+			}
+
+			const result = reviewComments.add({
+				...rest,
+				worktreePath: validatedWorktreePath,
+				filePath,
+			});
+			if (!result.ok) {
+				return reply.code(result.statusCode).send({error: result.error});
+			}
+			return {success: true, comment: result.comment};
+		});
+
+		this.app.put<{Params: {id: string}; Body: {body: string}}>(
+			'/api/worktree/review-comments/:id',
+			async (request, reply) => {
+				const result = reviewComments.update(
+					request.params.id,
+					request.body?.body,
+				);
+				if (!result.ok) {
+					return reply.code(result.statusCode).send({error: result.error});
+				}
+				return {success: true, comment: result.comment};
+			},
+		);
+
+		this.app.delete<{Params: {id: string}}>(
+			'/api/worktree/review-comments/:id',
+			async (request, reply) => {
+				if (!reviewComments.remove(request.params.id)) {
+					return reply.code(404).send({error: 'Comment not found'});
+				}
+				return {success: true};
+			},
+		);
+
+		// Deliver the review as a prompt to the agent running in the worktree
+		this.app.post<{
+			Body: {path: string; sessionId?: string; includeSent?: boolean};
+		}>('/api/worktree/review/send', async (request, reply) => {
+			const {path: worktreePath, sessionId, includeSent} = request.body || {};
+			if (!worktreePath) {
+				return reply.code(400).send({error: 'path is required'});
+			}
+
+			let validatedWorktreePath: string;
+			try {
+				validatedWorktreePath = validateWorktreePath(worktreePath);
+			} catch (_error) {
+				logger.warn(`Invalid worktree path requested: ${worktreePath}`);
+				return reply.code(400).send({error: 'Invalid worktree path'});
+			}
+
+			const inWorktree = (candidate: Session) =>
+				candidate.worktreePath === worktreePath ||
+				candidate.worktreePath === validatedWorktreePath;
+			const hit = sessionId
+				? globalSessionOrchestrator.findSession(sessionId)
+				: undefined;
+			const session =
+				hit?.session ||
+				globalSessionOrchestrator.getAllActiveSessions().find(inWorktree);
+			if (!session || !inWorktree(session)) {
+				return reply
+					.code(404)
+					.send({error: 'No running session in this worktree'});
+			}
+
+			const review = reviewComments.buildReview(validatedWorktreePath, {
+				includeSent: includeSent === true,
+			});
+			if (!review) {
+				return reply.code(400).send({error: 'No review comments to send'});
+			}
+
+			const manager =
+				hit?.manager ||
+				globalSessionOrchestrator.findSession(session.id)?.manager;
+			const written = manager?.writeInput(session.id, review.prompt, true);
+			if (written === undefined) {
+				return reply.code(404).send({error: 'Session not found'});
+			}
+
+			reviewComments.markSent(review.comments);
+			logger.info(
+				`API: Sent ${review.comments.length} review comments to session ${session.id}`,
+			);
+			return {
+				success: true,
+				sessionId: session.id,
+				count: review.comments.length,
+				prompt: review.prompt,
+			};
+		});
+
 		// Get directory listing for file browser
 		this.app.get<{
 			Querystring: {path: string; dir?: string};
@@ -1667,72 +2913,411 @@ export class APIServer {
 			);
 			const result = await Effect.runPromise(Effect.either(effect));
 
-			if (result._tag === 'Left') {
-				return reply.code(500).send({error: result.left.message});
-			}
+			if (result._tag === 'Left') {
+				// A blocking pre_creation hook vetoed the worktree
+				const statusCode = result.left._tag === 'ProcessError' ? 409 : 500;
+				return reply.code(statusCode).send({error: result.left.message});
+			}
+
+			// Refresh worktrees
+			await coreService.refreshWorktrees();
+			return {
+				success: true,
+				warnings: result.right.warnings,
+				worktree: result.right,
+			};
+		});
+
+		this.app.post<{
+			Body: {path: string; deleteBranch: boolean; projectPath?: string};
+		}>('/api/worktree/delete', async (request, reply) => {
+			const {path, deleteBranch, projectPath} = request.body;
+			logger.info(
+				`API: Deleting worktree ${path} (deleteBranch: ${deleteBranch}) in project ${projectPath || 'default'}`,
+			);
+
+			// Get worktree service for the specified project, or fall back to default
+			const worktreeService = projectPath
+				? projectManager.instance.getWorktreeService(projectPath)
+				: coreService.worktreeService;
+
+			const effect = worktreeService.deleteWorktreeEffect(path, {
+				deleteBranch,
+			});
+			const result = await Effect.runPromise(Effect.either(effect));
+
+			if (result._tag === 'Left') {
+				// A blocking pre_delete hook vetoed the deletion
+				const statusCode = result.left._tag === 'ProcessError' ? 409 : 500;
+				return reply.code(statusCode).send({error: result.left.message});
+			}
+
+			await coreService.refreshWorktrees();
+			return {success: true, warnings: result.right.warnings};
+		});
+
+		this.app.post<{
+			Body: {sourceBranch: string; targetBranch: string; useRebase: boolean};
+		}>('/api/worktree/merge', async (request, reply) => {
+			const {sourceBranch, targetBranch, useRebase} = request.body;
+			logger.info(
+				`API: Merging ${sourceBranch} into ${targetBranch} (rebase: ${useRebase})`,
+			);
+
+			const effect = coreService.worktreeService.mergeWorktreeEffect(
+				sourceBranch,
+				targetBranch,
+				useRebase,
+			);
+			const result = await Effect.runPromise(Effect.either(effect));
+
+			if (result._tag === 'Left') {
+				// A blocking pre_merge hook vetoed the merge
+				if (result.left._tag === 'ProcessError') {
+					return reply.code(409).send({error: result.left.message});
+				}
+
+				// A conflicting merge/rebase stays in progress for abort, continue
+				// or agent-assisted resolution
+				const worktrees = await Effect.runPromise(
+					Effect.either(coreService.worktreeService.getWorktreesEffect()),
+				);
+				const conflictBranch = useRebase ? sourceBranch : targetBranch;
+				const conflictWorktree =
+					worktrees._tag === 'Right'
+						? worktrees.right.find(
+								wt => wt.branch?.replace('refs/heads/', '') === conflictBranch,
+							)
+						: undefined;
+				if (conflictWorktree) {
+					const report = await mergeConflictService
+						.getReport(conflictWorktree.path)
+						.catch(() => null);
+					if (report?.operation && report.files.length > 0) {
+						return reply.code(409).send({
+							error: `Merge conflicts in ${report.files.map(file => file.path).join(', ')}`,
+							conflicts: report,
+						});
+					}
+				}
+				return reply.code(500).send({error: result.left.message});
+			}
+
+			await coreService.refreshWorktrees();
+			return {success: true, warnings: result.right.warnings};
+		});
+
+		this.app.post<{
+			Body: {sourceBranch?: string; targetBranch?: string};
+		}>('/api/worktree/merge/check', async (request, reply) => {
+			const {sourceBranch, targetBranch} = request.body || {};
+			if (!sourceBranch || !targetBranch) {
+				return reply
+					.code(400)
+					.send({error: 'sourceBranch and targetBranch are required'});
+			}
+
+			try {
+				return await mergeConflictService.check(
+					coreService.worktreeService.getGitRootPath(),
+					sourceBranch,
+					targetBranch,
+				);
+			} catch (error) {
+				logger.warn(
+					`API: Merge check of ${sourceBranch} into ${targetBranch} failed: ${error}`,
+				);
+				return reply.code(500).send({
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+		});
+
+		// --- Merge conflicts ---
+		this.app.get<{Querystring: {path?: string}}>(
+			'/api/worktree/conflicts',
+			async (request, reply) => {
+				const {path: worktreePath} = request.query;
+				if (!worktreePath) {
+					return reply.code(400).send({error: 'path query parameter required'});
+				}
+
+				let validatedWorktreePath: string;
+				try {
+					validatedWorktreePath = validateWorktreePath(worktreePath);
+				} catch (_error) {
+					logger.warn(`Invalid worktree path requested: ${worktreePath}`);
+					return reply.code(400).send({error: 'Invalid worktree path'});
+				}
+
+				return mergeConflictService.getReport(validatedWorktreePath);
+			},
+		);
+
+		this.app.post<{Body: {path?: string}}>(
+			'/api/worktree/conflicts/abort',
+			async (request, reply) => {
+				const {path: worktreePath} = request.body || {};
+				if (!worktreePath) {
+					return reply.code(400).send({error: 'path is required'});
+				}
+
+				let validatedWorktreePath: string;
+				try {
+					validatedWorktreePath = validateWorktreePath(worktreePath);
+				} catch (_error) {
+					logger.warn(`Invalid worktree path requested: ${worktreePath}`);
+					return reply.code(400).send({error: 'Invalid worktree path'});
+				}
+
+				const result = await mergeConflictService.abort(validatedWorktreePath);
+				if (!result.ok) {
+					return reply
+						.code(result.statusCode)
+						.send({error: result.error, conflicts: result.report});
+				}
+
+				await coreService.refreshWorktrees();
+				return {success: true, conflicts: result.report};
+			},
+		);
+
+		this.app.post<{Body: {path?: string; stageUnchecked?: boolean}}>(
+			'/api/worktree/conflicts/continue',
+			async (request, reply) => {
+				const {path: worktreePath, stageUnchecked} = request.body || {};
+				if (!worktreePath) {
+					return reply.code(400).send({error: 'path is required'});
+				}
+
+				let validatedWorktreePath: string;
+				try {
+					validatedWorktreePath = validateWorktreePath(worktreePath);
+				} catch (_error) {
+					logger.warn(`Invalid worktree path requested: ${worktreePath}`);
+					return reply.code(400).send({error: 'Invalid worktree path'});
+				}
+
+				const result = await mergeConflictService.continue(
+					validatedWorktreePath,
+					{stageUnchecked: stageUnchecked === true},
+				);
+				if (!result.ok) {
+					return reply
+						.code(result.statusCode)
+						.send({error: result.error, conflicts: result.report});
+				}
+
+				await coreService.refreshWorktrees();
+				return {success: true, conflicts: result.report};
+			},
+		);
+
+		this.app.post<{Body: {path?: string; agentId?: string}}>(
+			'/api/worktree/conflicts/resolve',
+			async (request, reply) => {
+				const {path: worktreePath, agentId} = request.body || {};
+				if (!worktreePath) {
+					return reply.code(400).send({error: 'path is required'});
+				}
+
+				let validatedWorktreePath: string;
+				try {
+					validatedWorktreePath = validateWorktreePath(worktreePath);
+				} catch (_error) {
+					logger.warn(`Invalid worktree path requested: ${worktreePath}`);
+					return reply.code(400).send({error: 'Invalid worktree path'});
+				}
+
+				const report = await mergeConflictService.getReport(
+					validatedWorktreePath,
+				);
+				if (!report.operation || report.files.length === 0) {
+					return reply
+						.code(400)
+						.send({error: 'No merge conflicts in this worktree'});
+				}
+
+				const result = await this.createSessionWithAgent({
+					path: validatedWorktreePath,
+					agentId: agentId || configurationManager.getDefaultAgent().id,
+					sessionName: 'Resolve merge conflicts',
+					intent: 'manual',
+					initialPrompt: formatConflictPrompt(report),
+				});
+				if (!result.ok) {
+					return reply.code(result.statusCode).send({error: result.error});
+				}
+
+				logger.info(
+					`API: Started session ${result.id} to resolve ${report.files.length} conflicted file(s) in ${validatedWorktreePath}`,
+				);
+				return {success: true, id: result.id, name: result.name};
+			},
+		);
+
+		// --- Pull requests ---
+		this.app.get<{Querystring: {path?: string; refresh?: string}}>(
+			'/api/worktree/pull-request',
+			async (request, reply) => {
+				const {path: worktreePath, refresh} = request.query;
+				if (!worktreePath) {
+					return reply.code(400).send({error: 'path query parameter required'});
+				}
+
+				let validatedWorktreePath: string;
+				try {
+					validatedWorktreePath = validateWorktreePath(worktreePath);
+				} catch (_error) {
+					logger.warn(`Invalid worktree path requested: ${worktreePath}`);
+					return reply.code(400).send({error: 'Invalid worktree path'});
+				}
+
+				const stored = pullRequestService.get(validatedWorktreePath);
+				if (!stored || (refresh !== 'true' && refresh !== '1')) {
+					return {pullRequest: stored};
+				}
+
+				// Keep showing the stored status when the forge is unreachable
+				const result = await pullRequestService.refresh(validatedWorktreePath);
+				return result.ok
+					? {pullRequest: result.pullRequest}
+					: {pullRequest: stored, refreshError: result.error};
+			},
+		);
+
+		this.app.get<{Querystring: {path?: string}}>(
+			'/api/worktree/pull-request/draft',
+			async (request, reply) => {
+				const worktreePath = request.query.path;
+				if (!worktreePath) {
+					return reply.code(400).send({error: 'path query parameter required'});
+				}
 
-			// Refresh worktrees
-			await coreService.refreshWorktrees();
-			return {
-				success: true,
-				warnings: result.right.warnings,
-				worktree: result.right,
-			};
-		});
+				let validatedWorktreePath: string;
+				try {
+					validatedWorktreePath = validateWorktreePath(worktreePath);
+				} catch (_error) {
+					logger.warn(`Invalid worktree path requested: ${worktreePath}`);
+					return reply.code(400).send({error: 'Invalid worktree path'});
+				}
+
+				return pullRequestService.draft(validatedWorktreePath);
+			},
+		);
 
 		this.app.post<{
-			Body: {path: string; deleteBranch: boolean; projectPath?: string};
-		}>('/api/worktree/delete', async (request, reply) => {
-			const {path, deleteBranch, projectPath} = request.body;
-			logger.info(
-				`API: Deleting worktree ${path} (deleteBranch: ${deleteBranch}) in project ${projectPath || 'default'}`,
-			);
+			Body: Omit<PublishPullRequestInput, 'worktreePath'> & {path: string};
+		}>('/api/worktree/pull-request', async (request, reply) => {
+			const {path: worktreePath, ...rest} =
+				request.body || ({} as {path: string});
+			if (!worktreePath) {
+				return reply.code(400).send({error: 'path is required'});
+			}
 
-			// Get worktree service for the specified project, or fall back to default
-			const worktreeService = projectPath
-				? projectManager.instance.getWorktreeService(projectPath)
-				: coreService.worktreeService;
+			let validatedWorktreePath: string;
+			try {
+				validatedWorktreePath = validateWorktreePath(worktreePath);
+			} catch (_error) {
+				logger.warn(`Invalid worktree path requested: ${worktreePath}`);
+				return reply.code(400).send({error: 'Invalid worktree path'});
+			}
 
-			const effect = worktreeService.deleteWorktreeEffect(path, {
-				deleteBranch,
+			logger.info(`API: Publishing pull request for ${validatedWorktreePath}`);
+			const result = await pullRequestService.publish({
+				worktreePath: validatedWorktreePath,
+				title: rest.title,
+				body: rest.body,
+				targetBranch: rest.targetBranch,
+				draft: rest.draft === true,
 			});
-			const result = await Effect.runPromise(Effect.either(effect));
-
-			if (result._tag === 'Left') {
-				return reply.code(500).send({error: result.left.message});
+			if (!result.ok) {
+				return reply.code(result.statusCode).send({error: result.error});
 			}
+			return {pullRequest: result.pullRequest, created: result.created};
+		});
 
-			await coreService.refreshWorktrees();
-			return {success: true};
+		// --- Sessions ---
+		this.app.get('/api/sessions', async () => {
+			const sessions = globalSessionOrchestrator.getAllActiveSessions();
+			return sessions.map(session => ({
+				...toApiSessionPayload(session),
+				budget: budgetMonitor.getStatus(session.id),
+			}));
 		});
 
-		this.app.post<{
-			Body: {sourceBranch: string; targetBranch: string; useRebase: boolean};
-		}>('/api/worktree/merge', async (request, reply) => {
-			const {sourceBranch, targetBranch, useRebase} = request.body;
-			logger.info(
-				`API: Merging ${sourceBranch} into ${targetBranch} (rebase: ${useRebase})`,
-			);
+		// Paged: clients follow nextCursor until it is unset
+		this.app.get<{Params: {id: string}; Querystring: {cursor?: string}}>(
+			'/api/sessions/:id/replay',
+			async (request, reply) => {
+				const {id} = request.params;
+				const cursor = Math.max(
+					0,
+					Number.parseInt(request.query.cursor || '0', 10) || 0,
+				);
+				const recordedPath = sessionStore.getSessionById(id)?.scrollbackPath;
+				const scrollbackPath = recordedPath || scrollbackStore.getPath(id);
+				const replay = scrollbackPath
+					? await scrollbackStore.readReplay(scrollbackPath, cursor)
+					: null;
+				if (!replay) {
+					return reply
+						.code(404)
+						.send({error: 'No recorded output for this session'});
+				}
 
-			const effect = coreService.worktreeService.mergeWorktreeEffect(
-				sourceBranch,
-				targetBranch,
-				useRebase,
-			);
-			const result = await Effect.runPromise(Effect.either(effect));
+				return {
+					id,
+					isActive: !!globalSessionOrchestrator.findSession(id),
+					...replay,
+				};
+			},
+		);
 
-			if (result._tag === 'Left') {
-				return reply.code(500).send({error: result.left.message});
+		this.app.get<{
+			Querystring: {
+				groupBy?: string;
+				projectPath?: string;
+				taskId?: string;
+				agentType?: string;
+				dateFrom?: string;
+				dateTo?: string;
+				refresh?: string;
+			};
+		}>('/api/analytics/usage', async (request, reply) => {
+			const groupBy = (request.query.groupBy || 'project') as UsageGroupBy;
+			if (!USAGE_GROUP_BY_VALUES.includes(groupBy)) {
+				return reply.code(400).send({
+					error: `Invalid groupBy: ${groupBy}. Expected one of: ${USAGE_GROUP_BY_VALUES.join(', ')}`,
+				});
 			}
 
-			await coreService.refreshWorktrees();
-			return {success: true};
-		});
+			// Let callers (e.g. `cacd usage`) see up-to-date numbers on demand
+			if (request.query.refresh === 'true' || request.query.refresh === '1') {
+				await usageTracker.collect();
+			}
 
-		// --- Sessions ---
-		this.app.get('/api/sessions', async () => {
-			const sessions = globalSessionOrchestrator.getAllActiveSessions();
-			return sessions.map(toApiSessionPayload);
+			const parsedDateFrom = Number.parseInt(request.query.dateFrom || '', 10);
+			const parsedDateTo = Number.parseInt(request.query.dateTo || '', 10);
+			const filters = {
+				projectPath: request.query.projectPath,
+				tdTaskId: request.query.taskId,
+				agentType: request.query.agentType,
+				dateFrom: Number.isFinite(parsedDateFrom) ? parsedDateFrom : undefined,
+				dateTo: Number.isFinite(parsedDateTo) ? parsedDateTo : undefined,
+			};
+
+			const groups = sessionStore.queryUsage(groupBy, filters);
+			const totals = groups.reduce(
+				(acc, group) => ({
+					sessions: acc.sessions + group.sessions,
+					totalTokens: acc.totalTokens + group.totalTokens,
+					estimatedCostUsd: acc.estimatedCostUsd + group.estimatedCostUsd,
+				}),
+				{sessions: 0, totalTokens: 0, estimatedCostUsd: 0},
+			);
+
+			return {groupBy, filters, totals, groups};
 		});
 
 		this.app.get<{
@@ -1817,47 +3402,347 @@ export class APIServer {
 						Promise.resolve(sessionStore.countSessions(filters)),
 					]);
 				}
-			}
+			}
+
+			const missingPreviews = storedSessions.filter(
+				session =>
+					!session.contentPreview &&
+					!!session.agentSessionPath &&
+					existsSync(session.agentSessionPath),
+			);
+			if (missingPreviews.length > 0) {
+				await Promise.all(
+					missingPreviews.map(session =>
+						sessionStore.hydrateSessionContentPreview(session.id),
+					),
+				);
+				storedSessions = sessionStore.querySessions(filters);
+			}
+
+			const activeSessions = new Map(
+				coreService.sessionManager
+					.getAllSessions()
+					.map(session => [session.id, session] as const),
+			);
+
+			const sessions = storedSessions.map(session => {
+				const liveSession = activeSessions.get(session.id);
+				const missingSessionFile =
+					!!session.agentSessionPath && !existsSync(session.agentSessionPath);
+				return {
+					...session,
+					isActive: !!liveSession,
+					state: liveSession?.stateMutex.getSnapshot().state || 'idle',
+					missingSessionFile,
+				};
+			});
+
+			return {
+				sessions,
+				total,
+				limit,
+				offset,
+			};
+		});
+
+		this.app.get<{
+			Querystring: {
+				q?: string;
+				projectPath?: string;
+				taskId?: string;
+				agentType?: string;
+				dateFrom?: string;
+				dateTo?: string;
+				limit?: string;
+				offset?: string;
+				refresh?: string;
+			};
+		}>('/api/conversations/search', async (request, reply) => {
+			const query = request.query.q?.trim();
+			if (!query) {
+				return reply.code(400).send({error: 'q is required'});
+			}
+
+			const limit = Math.max(
+				1,
+				Math.min(200, Number.parseInt(request.query.limit || '50', 10) || 50),
+			);
+			const offset = Math.max(
+				0,
+				Number.parseInt(request.query.offset || '0', 10) || 0,
+			);
+			const parsedDateFrom = Number.parseInt(request.query.dateFrom || '', 10);
+			const parsedDateTo = Number.parseInt(request.query.dateTo || '', 10);
+
+			// Pick up transcripts written since the last background pass
+			if (request.query.refresh === 'true' || request.query.refresh === '1') {
+				await conversationIndexer.indexAll();
+			}
+
+			const {hits, total} = sessionStore.searchMessages(query, {
+				projectPath: request.query.projectPath,
+				tdTaskId: request.query.taskId,
+				agentType: request.query.agentType,
+				dateFrom: Number.isFinite(parsedDateFrom) ? parsedDateFrom : undefined,
+				dateTo: Number.isFinite(parsedDateTo) ? parsedDateTo : undefined,
+				limit,
+				offset,
+			});
+
+			return {query, hits, total, limit, offset};
+		});
+
+		// --- Job queue ---
+
+		this.app.get<{
+			Querystring: {projectPath?: string; status?: QueueJobStatus};
+		}>('/api/queue', async request => {
+			const jobs = jobQueue.list({
+				projectPath: request.query.projectPath,
+				status: request.query.status,
+			});
+			const maxConcurrentAgents = request.query.projectPath
+				? (resolveMaxConcurrentAgents(request.query.projectPath) ?? null)
+				: null;
+			return {jobs, maxConcurrentAgents};
+		});
+
+		this.app.post<{Body: EnqueueJobInput}>(
+			'/api/queue',
+			async (request, reply) => {
+				const result = jobQueue.enqueue(
+					request.body || ({} as EnqueueJobInput),
+				);
+				if (!result.ok) {
+					return reply.code(400).send({error: result.error});
+				}
+				return {success: true, job: result.job};
+			},
+		);
+
+		this.app.post<{Body: {id: string}}>(
+			'/api/queue/cancel',
+			async (request, reply) => {
+				const id = request.body?.id?.trim();
+				if (!id) {
+					return reply.code(400).send({error: 'id is required'});
+				}
+				const result = jobQueue.cancel(id);
+				if (!result.ok) {
+					return reply.code(result.statusCode).send({error: result.error});
+				}
+				return {success: true};
+			},
+		);
+
+		// --- Workflows ---
+
+		this.app.get<{Querystring: {projectPath?: string}}>(
+			'/api/workflows',
+			async (request, reply) => {
+				const projectPath = request.query.projectPath?.trim();
+				if (!projectPath) {
+					return reply.code(400).send({error: 'projectPath is required'});
+				}
+				return {workflows: workflowRunner.listWorkflows(projectPath)};
+			},
+		);
+
+		this.app.get<{
+			Querystring: {projectPath?: string; status?: WorkflowRunStatus};
+		}>('/api/workflows/runs', async request => {
+			const runs = workflowRunner.listRuns({
+				projectPath: request.query.projectPath,
+				status: request.query.status,
+			});
+			return {runs};
+		});
+
+		this.app.post<{Body: StartWorkflowInput}>(
+			'/api/workflows/run',
+			async (request, reply) => {
+				const result = await workflowRunner.startRun(
+					request.body || ({} as StartWorkflowInput),
+				);
+				if (!result.ok) {
+					return reply.code(result.statusCode).send({error: result.error});
+				}
+				return {success: true, run: result.run};
+			},
+		);
+
+		this.app.post<{Body: {id: string}}>(
+			'/api/workflows/advance',
+			async (request, reply) => {
+				const id = request.body?.id?.trim();
+				if (!id) {
+					return reply.code(400).send({error: 'id is required'});
+				}
+				const result = await workflowRunner.advance(id);
+				if (!result.ok) {
+					return reply.code(result.statusCode).send({error: result.error});
+				}
+				return {success: true, run: result.run};
+			},
+		);
+
+		this.app.post<{Body: {id: string}}>(
+			'/api/workflows/cancel',
+			async (request, reply) => {
+				const id = request.body?.id?.trim();
+				if (!id) {
+					return reply.code(400).send({error: 'id is required'});
+				}
+				const result = workflowRunner.cancel(id);
+				if (!result.ok) {
+					return reply.code(result.statusCode).send({error: result.error});
+				}
+				return {success: true, run: result.run};
+			},
+		);
+
+		// --- A/B runs ---
+
+		this.app.get<{
+			Querystring: {projectPath?: string; status?: ComparisonRunStatus};
+		}>('/api/comparisons', async request => {
+			const runs = comparisonRunner.listRuns({
+				projectPath: request.query.projectPath,
+				status: request.query.status,
+			});
+			return {runs};
+		});
+
+		this.app.get<{Params: {id: string}}>(
+			'/api/comparisons/:id',
+			async (request, reply) => {
+				const report = await comparisonRunner.getReport(request.params.id);
+				if (!report) {
+					return reply.code(404).send({error: 'A/B run not found'});
+				}
+				return report;
+			},
+		);
+
+		this.app.post<{Body: StartComparisonInput}>(
+			'/api/comparisons/run',
+			async (request, reply) => {
+				const result = await comparisonRunner.startRun(
+					request.body || ({} as StartComparisonInput),
+				);
+				if (!result.ok) {
+					return reply.code(result.statusCode).send({error: result.error});
+				}
+				return {success: true, run: result.run};
+			},
+		);
+
+		this.app.post<{Body: {id: string}}>(
+			'/api/comparisons/test',
+			async (request, reply) => {
+				const id = request.body?.id?.trim();
+				if (!id) {
+					return reply.code(400).send({error: 'id is required'});
+				}
+				const result = await comparisonRunner.runTests(id);
+				if (!result.ok) {
+					return reply.code(result.statusCode).send({error: result.error});
+				}
+				return {success: true, run: result.run};
+			},
+		);
+
+		this.app.post<{Body: {id: string; attemptIndex: number}}>(
+			'/api/comparisons/keep',
+			async (request, reply) => {
+				const id = request.body?.id?.trim();
+				const attemptIndex = request.body?.attemptIndex;
+				if (!id || typeof attemptIndex !== 'number') {
+					return reply
+						.code(400)
+						.send({error: 'id and attemptIndex are required'});
+				}
+				const result = await comparisonRunner.keep(id, attemptIndex);
+				if (!result.ok) {
+					return reply
+						.code(result.statusCode)
+						.send({error: result.error, conflicts: result.conflicts});
+				}
+				return {success: true, run: result.run, warnings: result.warnings};
+			},
+		);
+
+		this.app.post<{Body: {id: string}}>(
+			'/api/comparisons/discard',
+			async (request, reply) => {
+				const id = request.body?.id?.trim();
+				if (!id) {
+					return reply.code(400).send({error: 'id is required'});
+				}
+				const result = await comparisonRunner.discard(id);
+				if (!result.ok) {
+					return reply.code(result.statusCode).send({error: result.error});
+				}
+				return {success: true, run: result.run, warnings: result.warnings};
+			},
+		);
 
-			const missingPreviews = storedSessions.filter(
-				session =>
-					!session.contentPreview &&
-					!!session.agentSessionPath &&
-					existsSync(session.agentSessionPath),
-			);
-			if (missingPreviews.length > 0) {
-				await Promise.all(
-					missingPreviews.map(session =>
-						sessionStore.hydrateSessionContentPreview(session.id),
-					),
-				);
-				storedSessions = sessionStore.querySessions(filters);
-			}
+		// --- Auto-approval audit log ---
 
-			const activeSessions = new Map(
-				coreService.sessionManager
-					.getAllSessions()
-					.map(session => [session.id, session] as const),
-			);
+		this.app.get<{
+			Querystring: {
+				sessionId?: string;
+				projectPath?: string;
+				agentId?: string;
+				verdict?: string;
+				decidedBy?: string;
+				overridden?: string;
+				since?: string;
+				limit?: string;
+				offset?: string;
+			};
+		}>('/api/auto-approval/log', async (request, reply) => {
+			const {verdict, overridden} = request.query;
+			if (
+				verdict &&
+				!AUTO_APPROVAL_VERDICTS.includes(verdict as AutoApprovalVerdict)
+			) {
+				return reply.code(400).send({
+					error: `Invalid verdict: ${verdict}. Expected one of: ${AUTO_APPROVAL_VERDICTS.join(', ')}`,
+				});
+			}
 
-			const sessions = storedSessions.map(session => {
-				const liveSession = activeSessions.get(session.id);
-				const missingSessionFile =
-					!!session.agentSessionPath && !existsSync(session.agentSessionPath);
-				return {
-					...session,
-					isActive: !!liveSession,
-					state: liveSession?.stateMutex.getSnapshot().state || 'idle',
-					missingSessionFile,
-				};
-			});
+			const parsedSince = Number.parseInt(request.query.since || '', 10);
+			const parsedLimit = Number.parseInt(request.query.limit || '', 10);
+			const parsedOffset = Number.parseInt(request.query.offset || '', 10);
+			const limit =
+				Number.isFinite(parsedLimit) && parsedLimit > 0
+					? Math.min(parsedLimit, 500)
+					: 100;
+			const offset =
+				Number.isFinite(parsedOffset) && parsedOffset > 0 ? parsedOffset : 0;
+			const filters = {
+				sessionId: request.query.sessionId,
+				projectPath: request.query.projectPath,
+				agentId: request.query.agentId,
+				verdict: verdict as AutoApprovalVerdict | undefined,
+				decidedBy: request.query.decidedBy,
+				userOverride:
+					overridden === 'true'
+						? true
+						: overridden === 'false'
+							? false
+							: undefined,
+				since: Number.isFinite(parsedSince) ? parsedSince : undefined,
+			};
 
-			return {
-				sessions,
-				total,
+			const decisions = sessionStore.listAutoApprovalDecisions({
+				...filters,
 				limit,
 				offset,
-			};
+			});
+			const total = sessionStore.countAutoApprovalDecisions(filters);
+			return {decisions, total, limit, offset};
 		});
 
 		this.app.get<{
@@ -2001,16 +3886,7 @@ export class APIServer {
 				};
 			}
 
-			const adapter =
-				adapterRegistry.getByAgentType(storedSession.agentType) ||
-				(() => {
-					const configuredAgent = configurationManager.getAgentById(
-						storedSession.agentProfileId,
-					);
-					return configuredAgent
-						? adapterRegistry.createGeneric(configuredAgent)
-						: null;
-				})();
+			const adapter = resolveAdapterForSession(storedSession);
 			if (!adapter) {
 				return {
 					sessionId: storedSession.id,
@@ -2124,6 +4000,53 @@ export class APIServer {
 			},
 		);
 
+		this.app.post<{
+			Body: {
+				id?: string;
+				agentId?: string;
+				options?: Record<string, boolean | string>;
+				stopSource?: boolean;
+			};
+		}>('/api/session/handoff', async (request, reply) => {
+			const {id, agentId, options, stopSource} = request.body || {};
+			if (!id || !agentId) {
+				return reply.code(400).send({error: 'id and agentId are required'});
+			}
+
+			const liveHit = globalSessionOrchestrator.findSession(id);
+			if (liveHit) {
+				this.persistSessionMetadataIfMissing(liveHit.session);
+			}
+			const source = sessionStore.getSessionById(id);
+			if (!source) {
+				return reply.code(404).send({error: 'Session not found'});
+			}
+			if (!existsSync(source.worktreePath)) {
+				return reply
+					.code(409)
+					.send({error: 'The session worktree no longer exists'});
+			}
+
+			const result = await this.createSessionWithAgent({
+				path: source.worktreePath,
+				agentId,
+				options,
+				sessionName: `Handoff: ${source.sessionName || source.agentProfileName}`,
+				tdTaskId: source.tdTaskId ?? undefined,
+				intent: source.intent,
+				initialPrompt: await sessionHandoffService.buildPrompt(source),
+			});
+			if (!result.ok) {
+				return reply.code(result.statusCode).send({error: result.error});
+			}
+
+			logger.info(`API: Handed off session ${id} to ${result.id} (${agentId})`);
+			if (stopSource && liveHit) {
+				liveHit.manager.destroySession(id);
+			}
+			return {success: true, id: result.id, name: result.name, agentId};
+		});
+
 		this.app.post<{Body: {id: string; isActive: boolean}}>(
 			'/api/session/set-active',
 			async (request, reply) => {
@@ -2152,6 +4075,121 @@ export class APIServer {
 			},
 		);
 
+		// Type text into a running session's terminal (used by `cacd send`)
+		this.app.post<{Body: {id: string; text?: string; enter?: boolean}}>(
+			'/api/session/input',
+			async (request, reply) => {
+				const {id, text, enter} = request.body || {};
+				if (!id) {
+					return reply.code(400).send({error: 'id is required'});
+				}
+				if (text !== undefined && typeof text !== 'string') {
+					return reply.code(400).send({error: 'text must be a string'});
+				}
+				if (!text && !enter) {
+					return reply
+						.code(400)
+						.send({error: 'text is required unless enter is set'});
+				}
+
+				const hit = globalSessionOrchestrator.findSession(id);
+				if (!hit) {
+					return reply.code(404).send({error: 'Session not found'});
+				}
+
+				const written = hit.manager.writeInput(id, text || '', enter === true);
+				if (written === undefined) {
+					return reply.code(404).send({error: 'Session not found'});
+				}
+
+				logger.info(
+					`API: Sent ${written} chars of input to session ${id}${enter ? ' (with enter)' : ''}`,
+				);
+				return {
+					success: true,
+					id,
+					written,
+					state: hit.session.stateMutex.getSnapshot().state,
+				};
+			},
+		);
+
+		this.app.post<{Body: {id?: string; all?: boolean; projectPath?: string}}>(
+			'/api/session/approve',
+			async (request, reply) => {
+				const {id, all, projectPath} = request.body || {};
+
+				if (id) {
+					const hit = globalSessionOrchestrator.findSession(id);
+					if (!hit) {
+						return reply.code(404).send({error: 'Session not found'});
+					}
+
+					const result = await hit.manager.approvePermissionPrompt(id);
+					if (!result) {
+						return reply.code(404).send({error: 'Session not found'});
+					}
+					if (!result.approved) {
+						return reply.code(409).send({
+							error: result.reason || 'Session is not waiting for approval',
+							state: result.state,
+						});
+					}
+
+					logger.info(`API: Approved permission prompt for session ${id}`);
+					return {success: true, id, prompt: result.prompt || ''};
+				}
+
+				if (all !== true) {
+					return reply.code(400).send({error: 'id or all is required'});
+				}
+
+				const belongsToProject = (session: Session): boolean => {
+					if (!projectPath) return true;
+					const recordedProject = sessionStore.getSessionById(
+						session.id,
+					)?.projectPath;
+					if (recordedProject) return recordedProject === projectPath;
+					return (
+						session.worktreePath === projectPath ||
+						session.worktreePath.startsWith(`${projectPath}${path.sep}`)
+					);
+				};
+
+				const candidates = globalSessionOrchestrator
+					.getAllActiveSessions()
+					.filter(
+						session =>
+							session.stateMutex.getSnapshot().state === 'waiting_input' &&
+							belongsToProject(session),
+					);
+
+				const results: Array<{
+					id: string;
+					name: string | undefined;
+					approved: boolean;
+					prompt?: string;
+					error?: string;
+				}> = [];
+				for (const session of candidates) {
+					const hit = globalSessionOrchestrator.findSession(session.id);
+					const result = await hit?.manager.approvePermissionPrompt(session.id);
+					results.push({
+						id: session.id,
+						name: session.name,
+						approved: result?.approved === true,
+						prompt: result?.prompt,
+						error: result?.approved ? undefined : result?.reason,
+					});
+				}
+
+				logger.info(
+					`API: Approved ${results.filter(r => r.approved).length}/${results.length} waiting sessions${projectPath ? ` in ${projectPath}` : ''}`,
+				);
+				return {success: true, results};
+			},
+		);
+
 		this.app.post<{Body: {id: string; name?: string}}>(
 			'/api/session/rename',
 			async (request, reply) => {
@@ -2175,6 +4213,30 @@ export class APIServer {
 			},
 		);
 
+		// --- Notifications ---
+		this.app.post<{Body: {message?: string; title?: string; force?: boolean}}>(
+			'/api/notify',
+			async (request, reply) => {
+				const {message, title, force} = request.body || {};
+				if (typeof message !== 'string' || !message.trim()) {
+					return reply.code(400).send({error: 'message is required'});
+				}
+
+				const result = await notificationService.send(
+					{
+						title: title?.trim() || 'CA⚡CD',
+						message: message.trim(),
+						timestamp: Date.now(),
+					},
+					{ignoreQuietHours: force === true},
+				);
+				logger.info(
+					`API: Ad-hoc notification delivered to [${result.delivered.join(', ')}]${result.skipped ? ` (skipped: ${result.skipped})` : ''}`,
+				);
+				return {success: true, ...result};
+			},
+		);
+
 		// --- Configuration ---
 		// Legacy /api/presets endpoint removed - use /api/agents instead
 
@@ -2343,344 +4405,18 @@ export class APIServer {
 
 		// Create session with agent (new endpoint)
 		this.app.post<{
-			Body: {
-				path: string;
-				agentId: string;
-				options?: Record<string, boolean | string>;
-				sessionName?: string;
-				taskListName?: string;
-				tdTaskId?: string;
-				promptTemplate?: string;
-				intent?: 'work' | 'review' | 'manual';
-			};
+			Body: CreateSessionWithAgentInput;
 		}>('/api/session/create-with-agent', async (request, reply) => {
-			const {
-				path: worktreePath,
-				agentId,
-				options = {},
-				sessionName,
-				taskListName,
-				tdTaskId,
-				promptTemplate,
-				intent,
-			} = request.body;
-			const normalizedTdTaskId = tdTaskId?.trim();
-			const resolvedIntent = resolveSessionIntent(intent);
-			if (normalizedTdTaskId && !isValidTdTaskId(normalizedTdTaskId)) {
-				return reply.code(400).send({error: 'Invalid tdTaskId format'});
-			}
-			logger.info(
-				`API: Creating session "${sessionName || 'unnamed'}" for ${worktreePath} with agent: ${agentId}`,
-			);
-
-			const agent = configurationManager.getAgentById(agentId);
-			if (!agent) {
-				logger.error(`API: Agent not found: ${agentId}`);
-				return reply.code(404).send({error: 'Agent not found'});
-			}
-			if (agent.enabled === false) {
-				return reply
-					.code(400)
-					.send({error: `Agent "${agent.name}" is disabled`});
-			}
-
-			logger.info(
-				`API: Found agent "${agent.name}" (id=${agent.id}, command=${agent.command})`,
-			);
-			const normalizedPromptArg = agent.promptArg?.trim();
-
-			// Validate options
-			const validationErrors = configurationManager.validateAgentOptions(
-				agent,
-				options,
-			);
-			if (validationErrors.length > 0) {
-				return reply.code(400).send({error: validationErrors.join('; ')});
-			}
-
-			// Build args
-			const args = configurationManager.buildAgentArgs(agent, options);
-			logger.info(`API: Built args for ${agent.id}: [${args.join(', ')}]`);
-
-			// Resolve command ($SHELL for terminal)
-			let command = agent.command;
-			if (command === '$SHELL') {
-				command = getDefaultShell();
-			}
-			logger.info(`API: Spawning command: ${command} ${args.join(' ')}`);
-
-			// Build extra env for Claude task list and td integration
-			const extraEnv: Record<string, string> = {};
-			const isClaudeAgent =
-				agentId === 'claude' ||
-				agent.command === 'claude' ||
-				agent.detectionStrategy === 'claude';
-			const projects = projectManager.getProjects();
-			const matchedProject = projects.find(
-				(p: {path: string}) =>
-					worktreePath.startsWith(p.path) ||
-					worktreePath.includes(`/.worktrees/${p.path.split('/').pop()}/`),
-			);
-			const projConfig = matchedProject
-				? loadProjectConfig(matchedProject.path)
-				: null;
-			const globalTdConfig = configurationManager.getTdConfig();
-			const effectiveTdConfig = resolveEffectiveTdStartupConfig(
-				projConfig,
-				globalTdConfig,
-			);
-			let startupPromptToInject: string | null = null;
-			let linkedTdSessionId: string | undefined;
-
-			if (taskListName && isClaudeAgent) {
-				extraEnv['CLAUDE_TASK_LIST'] = taskListName;
-				logger.info(`API: Setting CLAUDE_TASK_LIST=${taskListName}`);
-			}
-
-			// TD startup context and prompt injection for task-linked sessions
-			if (normalizedTdTaskId && effectiveTdConfig.enabled) {
-				let shouldAutoStartTdTask = false;
-				let renderedPromptTemplate: string | null = null;
-				if (tdService.isAvailable()) {
-					const tdSessionId = `ses_${randomUUID().slice(0, 6)}`;
-					linkedTdSessionId = tdSessionId;
-					extraEnv['TD_SESSION_ID'] = tdSessionId;
-					extraEnv['TD_TASK_ID'] = normalizedTdTaskId;
-					logger.info(
-						`API: Setting TD_SESSION_ID=${tdSessionId}, TD_TASK_ID=${normalizedTdTaskId}`,
-					);
-					shouldAutoStartTdTask = effectiveTdConfig.autoStart;
-				}
-
-				if (effectiveTdConfig.injectTaskContext) {
-					try {
-						const promptTemplates = loadPromptTemplatesByScope(
-							matchedProject?.path || '',
-							matchedProject ? 'effective' : 'global',
-						);
-						const explicitPromptTemplate = promptTemplate?.trim();
-						let selectedTemplate: PromptTemplate | null = null;
-
-						if (explicitPromptTemplate) {
-							selectedTemplate = findPromptTemplateByName(
-								promptTemplates,
-								explicitPromptTemplate,
-							);
-							if (!selectedTemplate) {
-								return reply.code(400).send({
-									error: `Prompt template "${explicitPromptTemplate}" not found`,
-								});
-							}
-						} else {
-							const projectDefaultPrompt =
-								projConfig?.td?.defaultPrompt?.trim();
-							const globalDefaultPrompt = globalTdConfig.defaultPrompt?.trim();
-							selectedTemplate =
-								(projectDefaultPrompt &&
-									findPromptTemplateByName(
-										promptTemplates,
-										projectDefaultPrompt,
-									)) ||
-								(globalDefaultPrompt &&
-									findPromptTemplateByName(
-										promptTemplates,
-										globalDefaultPrompt,
-									)) ||
-								null;
-							if (!selectedTemplate) {
-								if (promptTemplates.length > 0) {
-									selectedTemplate = promptTemplates[0]!;
-								} else {
-									return reply.code(400).send({
-										error:
-											'No default TD prompt is configured. Set one in Settings > TD Integration.',
-									});
-								}
-							}
-						}
-
-						if (!selectedTemplate.content?.trim()) {
-							return reply.code(400).send({
-								error: `Prompt template "${selectedTemplate.name}" has empty content`,
-							});
-						}
-
-						const tdState = tdService.resolveProjectState(worktreePath);
-						if (!tdState.initialized || !tdState.dbPath) {
-							return reply.code(400).send({
-								error:
-									'TD project state is not initialized. Initialize td before linking sessions to tasks.',
-							});
-						}
-
-						const reader = new TdReader(tdState.dbPath);
-						try {
-							const taskDetail = reader.getIssueWithDetails(normalizedTdTaskId);
-							if (!taskDetail) {
-								return reply.code(404).send({
-									error: `TD task ${normalizedTdTaskId} not found`,
-								});
-							}
-
-							renderedPromptTemplate = renderTaskPromptTemplate(
-								selectedTemplate.content,
-								taskDetail,
-							);
-						} finally {
-							reader.close();
-						}
-					} catch (err) {
-						logger.warn(`API: Failed to prepare TD startup prompt: ${err}`);
-						return reply
-							.code(500)
-							.send({error: 'Failed to prepare TD startup prompt'});
-					}
-				} else {
-					logger.info('API: TD task-context injection disabled by config');
-				}
-
-				if (
-					effectiveTdConfig.injectTdUsage ||
-					effectiveTdConfig.injectTaskContext
-				) {
-					startupPromptToInject = buildTdStartupPrompt({
-						taskId: normalizedTdTaskId,
-						renderedPromptTemplate,
-						injectTdUsage: effectiveTdConfig.injectTdUsage,
-					});
-				}
-
-				// Auto-start only after all TD prompt/task validations succeeded.
-				if (shouldAutoStartTdTask && linkedTdSessionId) {
-					try {
-						execFileSync(
-							'td',
-							[
-								'start',
-								normalizedTdTaskId,
-								'--session',
-								linkedTdSessionId,
-								'-w',
-								worktreePath,
-							],
-							{
-								encoding: 'utf-8',
-								timeout: 5000,
-							},
-						);
-						logger.info(`API: Auto-started td task ${normalizedTdTaskId}`);
-					} catch (startErr) {
-						// Non-fatal: task might already be in_progress
-						logger.warn(
-							`API: td start failed (may already be started): ${startErr}`,
-						);
-					}
-				} else if (effectiveTdConfig.autoStart) {
-					logger.info('API: td auto-start skipped (td unavailable)');
-				} else {
-					logger.info('API: td auto-start disabled by config');
-				}
-			}
-
-			// Create session with resolved command and args
-			const effect = coreService.sessionManager.createSessionWithAgentEffect(
-				worktreePath,
-				command,
-				args,
-				agent.detectionStrategy,
-				sessionName,
-				agentId,
-				Object.keys(extraEnv).length > 0 ? extraEnv : undefined,
-				agent.kind,
-				{
-					initialPrompt:
-						startupPromptToInject &&
-						normalizedPromptArg?.toLowerCase() !== 'none'
-							? startupPromptToInject
-							: undefined,
-					promptArg: normalizedPromptArg,
-				},
-			);
-			const result = await Effect.runPromise(Effect.either(effect));
-
-			if (result._tag === 'Left') {
-				return reply.code(500).send({error: result.left.message});
-			}
-
-			// Session created successfully - store task list name to project metadata
-			if (taskListName && isClaudeAgent) {
-				// Find the project that contains this worktree path
-				const projects = projectManager.getProjects();
-				for (const project of projects) {
-					if (worktreePath.startsWith(project.path)) {
-						projectManager.instance.addTaskListName(project.path, taskListName);
-						logger.info(
-							`API: Stored task list name "${taskListName}" for project ${project.name}`,
-						);
-						break;
-					}
-				}
-			}
-
-			const session = result.right;
-			coreService.sessionManager.setSessionActive(session.id, true);
-
-			const createdAt = Math.floor(Date.now() / 1000);
-			const branchName = resolveGitField(worktreePath, [
-				'branch',
-				'--show-current',
-			]);
-			const projectPath =
-				matchedProject?.path ||
-				resolveGitField(worktreePath, ['rev-parse', '--show-toplevel']);
-			const adapterForAgent =
-				adapterRegistry.getById(agent.id) ||
-				adapterRegistry.getByAgentType(inferAgentType(agent));
-			const agentType = adapterForAgent?.id || inferAgentType(agent);
-
-			try {
-				sessionStore.createSessionRecord({
-					id: session.id,
-					agentProfileId: agent.id,
-					agentProfileName: agent.name,
-					agentType,
-					agentOptions: options,
-					worktreePath,
-					branchName,
-					projectPath,
-					tdTaskId: normalizedTdTaskId,
-					tdSessionId: linkedTdSessionId,
-					sessionName: session.name,
-					intent: resolvedIntent,
-					createdAt,
-				});
-
-				sessionStore.scheduleAgentSessionDiscovery({
-					sessionId: session.id,
-					agentType,
-					worktreePath,
-					createdAt,
-				});
-			} catch (error) {
-				logger.warn(
-					`API: Failed to persist session metadata for ${session.id}: ${String(error)}`,
-				);
-			}
-
-			if (startupPromptToInject && agent.kind !== 'terminal') {
-				this.queueTdPromptInjection(
-					session.id,
-					startupPromptToInject,
-					normalizedTdTaskId,
-				);
-				this.injectPendingTdPromptIfReady(session);
+			const result = await this.createSessionWithAgent(request.body);
+			if (!result.ok) {
+				return reply.code(result.statusCode).send({error: result.error});
 			}
 
 			return {
 				success: true,
-				id: session.id,
-				name: session.name,
-				agentId: session.agentId,
+				id: result.id,
+				name: result.name,
+				agentId: result.agentId,
 			};
 		});
 
@@ -2732,6 +4468,7 @@ export class APIServer {
 					.send({error: `Failed to initialize td: ${error}`});
 			}
 
+			tdWatcher.syncProjects();
 			const refreshedRawState = tdService.resolveProjectState(project.path);
 			const refreshedState =
 				projectConfig?.td?.enabled === false
@@ -3019,6 +4756,9 @@ export class APIServer {
 				if (!tdService.isAvailable()) {
 					return reply.code(400).send({error: 'TD not available'});
 				}
+				if (!isTdIssueId(id)) {
+					return reply.code(400).send({error: `Invalid task id: ${id}`});
+				}
 
 				try {
 					execFileSync('td', ['review', id], {
@@ -3048,13 +4788,12 @@ export class APIServer {
 				if (!tdService.isAvailable()) {
 					return reply.code(400).send({error: 'TD not available'});
 				}
+				if (!isTdIssueId(id)) {
+					return reply.code(400).send({error: `Invalid task id: ${id}`});
+				}
 
 				try {
-					execFileSync('td', ['approve', id], {
-						encoding: 'utf-8',
-						timeout: 5000,
-						cwd: project.path,
-					});
+					runTdCommands(project.path, buildTdApproveCommands(id));
 					return {success: true, message: `Task ${id} approved and closed`};
 				} catch (err) {
 					logger.warn(`API: td approve failed for ${id}: ${err}`);
@@ -3075,26 +4814,15 @@ export class APIServer {
 				if (!tdService.isAvailable()) {
 					return reply.code(400).send({error: 'TD not available'});
 				}
+				if (!isTdIssueId(id)) {
+					return reply.code(400).send({error: `Invalid task id: ${id}`});
+				}
 
 				try {
-					// Add comment first if provided
-					const comment = (request.body as {comment?: string})?.comment;
-					if (comment?.trim()) {
-						execFileSync('td', ['comment', id, comment.trim()], {
-							encoding: 'utf-8',
-							timeout: 5000,
-							cwd: project.path,
-						});
-					}
 					// Reject the task (moves from in_review back to in_progress)
-					execFileSync(
-						'td',
-						['reject', id, '--reason', 'Changes requested via CACD'],
-						{
-							encoding: 'utf-8',
-							timeout: 5000,
-							cwd: project.path,
-						},
+					runTdCommands(
+						project.path,
+						buildTdRequestChangesCommands(id, request.body?.comment),
 					);
 					return {success: true, message: `Task ${id} sent back for changes`};
 				} catch (err) {
@@ -3106,7 +4834,273 @@ export class APIServer {
 			},
 		);
 
-		// In-review tasks (for notification polling)
+		// Create a task from the web task board
+		this.app.post<{Body: TdIssueFields & {status?: string}}>(
+			'/api/td/issues',
+			async (request, reply) => {
+				const {status, ...fields} = request.body || {};
+				const {project} = resolveSelectedProjectTdContext();
+				if (!project) {
+					return reply.code(400).send({error: 'No project selected'});
+				}
+				if (!tdService.isAvailable()) {
+					return reply.code(400).send({error: 'TD not available'});
+				}
+				if (typeof fields.title !== 'string' || !fields.title.trim()) {
+					return reply.code(400).send({error: 'Title is required'});
+				}
+				if (status !== undefined && !isTdStatus(status)) {
+					return reply.code(400).send({error: `Invalid status: ${status}`});
+				}
+				const validationError = validateTdIssueFields(fields);
+				if (validationError) {
+					return reply.code(400).send({error: validationError});
+				}
+
+				try {
+					const output = runTdCommands(project.path, [
+						buildTdCreateArgs({...fields, title: fields.title}),
+					]);
+					const id = parseCreatedTdIssueId(output);
+					if (id && status) {
+						runTdCommands(
+							project.path,
+							getTdStatusTransition(id, 'open', status),
+						);
+					}
+					return {success: true, id};
+				} catch (err) {
+					logger.warn(`API: td create failed: ${err}`);
+					return reply.code(500).send({error: `Failed to create task: ${err}`});
+				}
+			},
+		);
+
+		// Edit title, description, acceptance criteria, priority, labels or parent
+		this.app.put<{Params: {id: string}; Body: TdIssueFields}>(
+			'/api/td/issues/:id',
+			async (request, reply) => {
+				const {id} = request.params;
+				const fields = request.body || {};
+				const {project} = resolveSelectedProjectTdContext();
+				if (!project) {
+					return reply.code(400).send({error: 'No project selected'});
+				}
+				if (!tdService.isAvailable()) {
+					return reply.code(400).send({error: 'TD not available'});
+				}
+				if (!isTdIssueId(id)) {
+					return reply.code(400).send({error: `Invalid task id: ${id}`});
+				}
+				if (fields.parentId === id) {
+					return reply
+						.code(400)
+						.send({error: 'A task cannot be its own parent'});
+				}
+				const validationError = validateTdIssueFields(fields);
+				if (validationError) {
+					return reply.code(400).send({error: validationError});
+				}
+				const args = buildTdUpdateArgs(id, fields);
+				if (!args) {
+					return reply.code(400).send({error: 'Nothing to update'});
+				}
+
+				try {
+					runTdCommands(project.path, [args]);
+					return {success: true, message: `Task ${id} updated`};
+				} catch (err) {
+					logger.warn(`API: td update failed for ${id}: ${err}`);
+					return reply.code(500).send({error: `Failed to update task: ${err}`});
+				}
+			},
+		);
+
+		// Move a task to another board column
+		this.app.post<{Params: {id: string}; Body: {status?: string}}>(
+			'/api/td/issues/:id/status',
+			async (request, reply) => {
+				const {id} = request.params;
+				const status = request.body?.status;
+				const {project, projectState} = resolveSelectedProjectTdContext();
+				if (!project || !projectState) {
+					return reply.code(400).send({error: 'No project selected'});
+				}
+				if (!tdService.isAvailable()) {
+					return reply.code(400).send({error: 'TD not available'});
+				}
+				if (!isTdIssueId(id)) {
+					return reply.code(400).send({error: `Invalid task id: ${id}`});
+				}
+				if (!isTdStatus(status)) {
+					return reply.code(400).send({error: `Invalid status: ${status}`});
+				}
+				if (!projectState.enabled || !projectState.dbPath) {
+					return reply
+						.code(404)
+						.send({error: 'TD not available for this project'});
+				}
+
+				const reader = new TdReader(projectState.dbPath);
+				let currentStatus: string;
+				try {
+					const issue = reader.getIssue(id);
+					if (!issue) {
+						return reply.code(404).send({error: 'Issue not found'});
+					}
+					currentStatus = issue.status;
+				} finally {
+					reader.close();
+				}
+
+				try {
+					runTdCommands(
+						project.path,
+						getTdStatusTransition(id, currentStatus, status),
+					);
+					return {success: true, status};
+				} catch (err) {
+					logger.warn(`API: td status change failed for ${id}: ${err}`);
+					return reply
+						.code(500)
+						.send({error: `Failed to move task to ${status}: ${err}`});
+				}
+			},
+		);
+
+		// Tasks and dependency edges for the dependency graph view
+		this.app.get('/api/td/graph', async (_request, reply) => {
+			const {project, projectState} = resolveSelectedProjectTdContext();
+			if (!project || !projectState) {
+				return reply.code(400).send({error: 'No project selected'});
+			}
+			if (!projectState.enabled || !projectState.dbPath) {
+				return reply
+					.code(404)
+					.send({error: 'TD not available for this project'});
+			}
+
+			const reader = new TdReader(projectState.dbPath);
+			try {
+				const issues = reader.listIssues();
+				const ids = new Set(issues.map(issue => issue.id));
+				// Edges to deleted issues would dangle in the graph
+				const dependencies = reader
+					.listDependencies()
+					.filter(
+						dependency =>
+							ids.has(dependency.issue_id) && ids.has(dependency.depends_on_id),
+					);
+				return {
+					issues,
+					dependencies,
+					readyIds: getReadyTdTasks(issues, dependencies).map(
+						issue => issue.id,
+					),
+				};
+			} finally {
+				reader.close();
+			}
+		});
+
+		// Open tasks whose dependencies are all closed, best first
+		this.app.get('/api/td/ready', async (_request, reply) => {
+			const {project, projectState} = resolveSelectedProjectTdContext();
+			if (!project || !projectState) {
+				return reply.code(400).send({error: 'No project selected'});
+			}
+			if (!projectState.enabled || !projectState.dbPath) {
+				return reply
+					.code(404)
+					.send({error: 'TD not available for this project'});
+			}
+
+			const reader = new TdReader(projectState.dbPath);
+			try {
+				return {
+					issues: getReadyTdTasks(
+						reader.listIssues(),
+						reader.listDependencies(),
+					),
+				};
+			} finally {
+				reader.close();
+			}
+		});
+
+		// Start work on the next ready task (or a given one) in a new worktree
+		this.app.post<{Body: {taskId?: string}}>(
+			'/api/td/ready/start',
+			async (request, reply) => {
+				const taskId = request.body?.taskId?.trim();
+				const {project, projectConfig, projectState} =
+					resolveSelectedProjectTdContext();
+				if (!project || !projectState) {
+					return reply.code(400).send({error: 'No project selected'});
+				}
+				if (!projectState.enabled || !projectState.dbPath) {
+					return reply
+						.code(404)
+						.send({error: 'TD not available for this project'});
+				}
+
+				const dbPath = projectState.dbPath;
+				const start = this.tdTaskStartQueue.then(async () => {
+					const reader = new TdReader(dbPath);
+					let ready: TdIssue[];
+					try {
+						ready = getReadyTdTasks(
+							reader.listIssues(),
+							reader.listDependencies(),
+						);
+					} finally {
+						reader.close();
+					}
+
+					// Ready tasks stay open while td autoStart is off; skip the ones
+					// already being worked on
+					const notStarted = ready.filter(
+						candidate =>
+							!this.isTdTaskStarted(project.path, projectConfig, candidate),
+					);
+					const issue = taskId
+						? notStarted.find(candidate => candidate.id === taskId)
+						: notStarted[0];
+					if (!issue) {
+						return {
+							ok: false as const,
+							statusCode: taskId ? 409 : 404,
+							error: !taskId
+								? 'No ready tasks'
+								: ready.some(candidate => candidate.id === taskId)
+									? `Task ${taskId} is already being worked on`
+									: `Task ${taskId} is not ready to start`,
+						};
+					}
+
+					const result = await this.startTdTaskWork(
+						project.path,
+						projectConfig,
+						issue,
+					);
+					return result.ok ? {...result, taskId: issue.id} : result;
+				});
+				this.tdTaskStartQueue = start.catch(() => undefined);
+
+				const result = await start;
+				if (!result.ok) {
+					return reply.code(result.statusCode).send({error: result.error});
+				}
+				return {
+					success: true,
+					taskId: result.taskId,
+					sessionId: result.sessionId,
+					worktreePath: result.worktreePath,
+				};
+			},
+		);
+
+		// In-review tasks, fetched by clients on connect for the review banner
 		this.app.get('/api/td/in-review', async (_request, _reply) => {
 			const {project, projectState} = resolveSelectedProjectTdContext();
 			if (!project || !projectState) {
@@ -3183,7 +5177,7 @@ export class APIServer {
 						// Allow localhost and private network origins
 						try {
 							const url = new URL(origin);
-							if (isAllowedHost(url.hostname)) {
+							if (isAllowedHost(url.hostname, this.proxyHosts)) {
 								cb(null, true);
 							} else {
 								cb(new Error('Not allowed by CORS'));
@@ -3195,6 +5189,12 @@ export class APIServer {
 					methods: ['GET', 'POST'],
 					credentials: true, // Allow cookies
 				},
+				// Upgrades skip Fastify's HTTPS redirect
+				allowRequest: (req, cb) =>
+					cb(
+						null,
+						!this.httpsConfig.enabled || !isPlainRemoteConnection(req.socket),
+					),
 			});
 
 			// Socket.IO authentication middleware
@@ -3436,6 +5436,19 @@ export class APIServer {
 		coreService.on('sessionStateChanged', session => {
 			this.injectPendingTdPromptIfReady(session);
 			notifyUpdate(session);
+			void this.notifySessionStateChange(session);
+			workflowRunner.handleSessionState(
+				session.id,
+				session.stateMutex.getSnapshot().state,
+			);
+			budgetMonitor.handleSessionState(
+				session.id,
+				session.stateMutex.getSnapshot().state,
+			);
+			void autoReviewer.handleSessionState(
+				session.id,
+				session.stateMutex.getSnapshot().state,
+			);
 		});
 		coreService.on('sessionUpdated', notifyUpdate);
 		coreService.on('sessionCreated', session => {
@@ -3447,6 +5460,7 @@ export class APIServer {
 		});
 		coreService.on('sessionDestroyed', session => {
 			this.clearPendingTdPromptInjection(session.id);
+			notificationService.forgetSession(session.id);
 			sessionStore.cancelAgentSessionDiscovery(session.id);
 			const endedAt = Math.floor(Date.now() / 1000);
 			try {
@@ -3463,57 +5477,98 @@ export class APIServer {
 				this.pendingFallbackSessionEndTimes.set(session.id, endedAt);
 			}
 			notifyUpdate(session);
+			// A freed slot may let a queued job start without waiting for the poll
+			void jobQueue.tick().catch(error => {
+				logger.warn(`API: Queue tick failed: ${String(error)}`);
+			});
+			workflowRunner.handleSessionExit(session.id);
+			budgetMonitor.handleSessionExit(session.id);
+			comparisonRunner.handleSessionExit(session.id);
+			autoReviewer.handleSessionExit(session.id);
 		});
 
-		// TD review polling — detect tasks entering in_review and notify frontend
-		const knownReviewIds = new Set<string>();
-		const pollTdReviews = () => {
-			try {
-				const project = coreService.getSelectedProject();
-				if (!project) return;
-				const rawState = tdService.resolveProjectState(project.path);
-				const projectConfig = loadProjectConfig(project.path);
-				const state =
-					projectConfig?.td?.enabled === false
-						? {...rawState, enabled: false}
-						: rawState;
-				if (!state.enabled || !state.dbPath) return;
-
-				const reader = new TdReader(state.dbPath);
+		coreService.on(
+			'autoApprovalDecision',
+			(session: Session, decision: AutoApprovalDecisionEvent) => {
 				try {
-					const reviewIssues = reader.listIssues({status: 'in_review'});
-					const newReviews = reviewIssues.filter(
-						i => !knownReviewIds.has(i.id),
+					const record = sessionStore.recordAutoApprovalDecision({
+						sessionId: session.id,
+						agentId: session.agentId,
+						projectPath:
+							sessionStore.getSessionById(session.id)?.projectPath ?? undefined,
+						worktreePath: session.worktreePath,
+						...decision,
+					});
+					this.io?.emit('auto_approval_decision', record);
+				} catch (error) {
+					logger.warn(
+						`API: Failed to record auto-approval decision for ${session.id}: ${String(error)}`,
 					);
-					if (newReviews.length > 0) {
-						newReviews.forEach(i => knownReviewIds.add(i.id));
-						this.io?.emit('td_review_ready', {
-							issues: newReviews.map(i => ({
-								id: i.id,
-								title: i.title,
-								priority: i.priority,
-							})),
-						});
-						logger.info(
-							`API: ${newReviews.length} new task(s) ready for review`,
-						);
-					}
-					// Clean up IDs no longer in review
-					for (const id of knownReviewIds) {
-						if (!reviewIssues.some(i => i.id === id)) {
-							knownReviewIds.delete(id);
-						}
-					}
-				} finally {
-					reader.close();
 				}
-			} catch {
-				// Silent — td polling is best-effort
+			},
+		);
+		coreService.on('autoApprovalOverridden', (session: Session) => {
+			try {
+				const record = sessionStore.markAutoApprovalOverridden(session.id);
+				if (record) {
+					this.io?.emit('auto_approval_decision', record);
+				}
+			} catch (error) {
+				logger.warn(
+					`API: Failed to record auto-approval override for ${session.id}: ${String(error)}`,
+				);
 			}
-		};
-		// Poll every 30 seconds, start after 5s
-		setTimeout(pollTdReviews, 5000);
-		setInterval(pollTdReviews, 30000);
+		});
+
+		notificationService.on('notification', (event: NotificationEvent) => {
+			this.io?.emit('notification', event);
+		});
+
+		gitStatusWatcher.on('status', (update: WorktreeStatusUpdate) => {
+			this.io?.emit('worktree_status', update);
+		});
+
+		// td changes made by agents in their terminals; tasks entering review
+		// in the selected project also raise the review banner, and projects
+		// with automatic reviews get a reviewer session
+		tdWatcher.on('issue', (change: TdIssueChange) => {
+			this.io?.emit('td_issue_changed', change);
+			void autoReviewer.handleIssueChange(change);
+			if (
+				change.issue?.status === 'in_review' &&
+				change.previousStatus !== 'in_review' &&
+				change.projectPath === coreService.getSelectedProject()?.path
+			) {
+				this.io?.emit('td_review_ready', {
+					issues: [
+						{
+							id: change.issue.id,
+							title: change.issue.title,
+							priority: change.issue.priority,
+						},
+					],
+				});
+				logger.info(`API: Task ${change.issueId} is ready for review`);
+			}
+		});
+	}
+
+	private async notifySessionStateChange(session: Session): Promise<void> {
+		let projectPath: string | undefined;
+		try {
+			projectPath =
+				sessionStore.getSessionById(session.id)?.projectPath ?? undefined;
+		} catch {
+			projectPath = undefined;
+		}
+
+		try {
+			await notificationService.handleSessionStateChange(session, projectPath);
+		} catch (error) {
+			logger.warn(
+				`API: Failed to send notification for session ${session.id}: ${String(error)}`,
+			);
+		}
 	}
 
 	/**
@@ -3547,6 +5602,17 @@ export class APIServer {
 		// Wait for setup to complete before starting
 		await this.setupPromise;
 
+		if (this.secureServer) {
+			const credentials = resolveTlsCredentials(
+				this.httpsConfig,
+				getConfigDir(),
+			);
+			this.secureServer.setSecureContext(credentials);
+			logger.info(
+				`HTTPS enabled with ${credentials.selfSigned ? 'self-signed ' : ''}certificate ${credentials.certPath}`,
+			);
+		}
+
 		const maxRetries = devMode ? 10 : 1;
 		let currentPort = port;
 
@@ -3557,7 +5623,8 @@ export class APIServer {
 
 				// Display access URL with auth token if configured
 				const accessToken = configurationManager.getAccessToken();
-				const baseUrl = `http://${host === '0.0.0.0' ? 'localhost' : host}:${currentPort}`;
+				const scheme = this.httpsConfig.enabled ? 'https' : 'http';
+				const baseUrl = `${scheme}://${host === '0.0.0.0' ? 'localhost' : host}:${currentPort}`;
 				if (accessToken) {
 					logger.info(`WebUI: ${baseUrl}/${accessToken}`);
 					if (devMode) {
@@ -3577,6 +5644,130 @@ export class APIServer {
 						);
 					}
 				}
+				usageTracker.start();
+				conversationIndexer.start();
+				jobQueue.start(
+					{
+						launch: job => this.launchQueueJob(job),
+						countActiveAgents: projectPath =>
+							this.countActiveProjectAgents(projectPath),
+					},
+					{onChange: () => this.io?.emit('queue_updated')},
+				);
+				workflowRunner.start(
+					{
+						createWorktree: (projectPath, branch) =>
+							this.createBranchWorktree(projectPath, branch),
+						launchSession: launch => this.launchWorkflowStep(launch),
+						getSessionState: sessionId =>
+							globalSessionOrchestrator
+								.findSession(sessionId)
+								?.session.stateMutex.getSnapshot().state,
+					},
+					{onChange: () => this.io?.emit('workflow_updated')},
+				);
+				comparisonRunner.start(
+					{
+						getDefaultBranch: projectPath => this.getDefaultBranch(projectPath),
+						createWorktree: (projectPath, branch, baseBranch) =>
+							this.createBranchWorktree(projectPath, branch, baseBranch),
+						launchSession: launch => this.launchComparisonAttempt(launch),
+						stopSession: sessionId => {
+							globalSessionOrchestrator
+								.findSession(sessionId)
+								?.manager.destroySession(sessionId);
+						},
+						mergeBranch: async (projectPath, sourceBranch, targetBranch) => {
+							const result = await Effect.runPromise(
+								Effect.either(
+									projectManager.instance
+										.getWorktreeService(projectPath)
+										.mergeWorktreeEffect(sourceBranch, targetBranch, false),
+								),
+							);
+							await coreService.refreshWorktrees();
+							if (result._tag === 'Left') {
+								throw new Error(result.left.message);
+							}
+						},
+						deleteWorktree: async (projectPath, worktreePath) => {
+							const result = await Effect.runPromise(
+								Effect.either(
+									projectManager.instance
+										.getWorktreeService(projectPath)
+										.deleteWorktreeEffect(worktreePath, {deleteBranch: true}),
+								),
+							);
+							await coreService.refreshWorktrees();
+							if (result._tag === 'Left') {
+								throw new Error(result.left.message);
+							}
+						},
+						refreshUsage: async sessionIds => {
+							await usageTracker.collect(sessionIds);
+						},
+					},
+					{onChange: () => this.io?.emit('comparison_updated')},
+				);
+				autoReviewer.start({
+					isEnabled: projectPath =>
+						loadProjectConfig(projectPath)?.quickStart?.review?.auto === true,
+					launchReview: (projectPath, issue) =>
+						this.launchAutoReview(projectPath, issue),
+					readFinalMessage: sessionId =>
+						this.readFinalAssistantMessage(sessionId),
+					recordVerdict: (projectPath, issueId, verdict) => {
+						runTdCommands(
+							projectPath,
+							verdict.outcome === 'approve'
+								? buildTdApproveCommands(issueId)
+								: buildTdRequestChangesCommands(issueId, verdict.comment),
+						);
+					},
+				});
+				tdWatcher.start(() => this.listTdWatchedProjects());
+				budgetMonitor.start(
+					{
+						listSessions: () => this.listBudgetSessions(),
+						refreshUsage: async sessionIds => {
+							await usageTracker.collect(sessionIds);
+						},
+						interrupt: sessionId => {
+							globalSessionOrchestrator
+								.findSession(sessionId)
+								?.manager.writeInput(sessionId, '\x03', false);
+						},
+						stop: sessionId => {
+							globalSessionOrchestrator
+								.findSession(sessionId)
+								?.manager.destroySession(sessionId);
+						},
+						notify: (session, message) => {
+							void notificationService
+								.sendSessionNotice(
+									session,
+									message,
+									session.projectPath ?? undefined,
+								)
+								.catch(error => {
+									logger.warn(
+										`API: Failed to send budget notification for ${session.id}: ${String(error)}`,
+									);
+								});
+						},
+					},
+					{
+						onChange: sessionId => {
+							const hit = globalSessionOrchestrator.findSession(sessionId);
+							if (hit) {
+								this.io?.emit(
+									'session_update',
+									toSessionUpdatePayload(hit.session),
+								);
+							}
+						},
+					},
+				);
 				return {address, port: currentPort};
 			} catch (err: unknown) {
 				const isAddressInUse =
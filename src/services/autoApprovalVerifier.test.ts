@@ -200,4 +200,50 @@ describe('AutoApprovalVerifier', () => {
 		);
 		expect(write).toHaveBeenCalledWith(expect.stringContaining(terminalOutput));
 	});
+
+	it('applies policy rules before calling the model', async () => {
+		const {configurationManager} = await import('./configurationManager.js');
+		const getConfig = vi.mocked(configurationManager.getAutoApprovalConfig);
+		const rules = [
+			{action: 'allow' as const, command: '^npm test$'},
+			{action: 'deny' as const, command: 'git push', description: 'no pushes'},
+		];
+		getConfig.mockReturnValueOnce({enabled: true, rules});
+
+		const {autoApprovalVerifier} = await import('./autoApprovalVerifier.js');
+		const allowed = await Effect.runPromise(
+			autoApprovalVerifier.verifyNeedsPermission('● Bash(npm test)'),
+		);
+		expect(allowed).toEqual({
+			needsPermission: false,
+			decidedBy: 'rule',
+			rule: 'allow command=/^npm test$/',
+		});
+
+		getConfig.mockReturnValueOnce({enabled: true, rules});
+		const denied = await Effect.runPromise(
+			autoApprovalVerifier.verifyNeedsPermission(
+				'● Bash(git push origin main)',
+			),
+		);
+		expect(denied).toMatchObject({
+			needsPermission: true,
+			decidedBy: 'rule',
+			rule: 'no pushes',
+		});
+
+		getConfig.mockReturnValueOnce({
+			enabled: true,
+			rules,
+			llmVerification: false,
+		});
+		const unmatched = await Effect.runPromise(
+			autoApprovalVerifier.verifyNeedsPermission('● Bash(rm -rf dist)'),
+		);
+		expect(unmatched).toMatchObject({
+			needsPermission: true,
+			decidedBy: 'no-match',
+		});
+		expect(execFileMock).not.toHaveBeenCalled();
+	});
 });
@@ -2,6 +2,10 @@ import {Effect} from 'effect';
 import {ProcessError} from '../types/errors.js';
 import {AutoApprovalResponse} from '../types/index.js';
 import {configurationManager} from './configurationManager.js';
+import {
+	describeAutoApprovalRule,
+	evaluateAutoApprovalPolicy,
+} from './autoApprovalPolicy.js';
 import {logger} from '../utils/logger.js';
 import {
 	execFile,
@@ -54,8 +58,9 @@ const buildPrompt = (terminalOutput: string): string =>
 
 /**
  * Service to verify if auto-approval should be granted for pending states
- * Uses Claude Haiku model to analyze terminal output and determine if
- * user permission is required before proceeding
+ * Declarative policy rules are evaluated first; when none matches, the
+ * Claude Haiku model (or a custom command) analyzes the terminal output to
+ * determine if user permission is required before proceeding
  */
 export class AutoApprovalVerifier {
 	private readonly model = 'haiku';
@@ -278,14 +283,48 @@ export class AutoApprovalVerifier {
 	 * before proceeding with auto-approval
 	 *
 	 * @param terminalOutput - Current terminal output to analyze
+	 * @param options.worktreePath - Session worktree, used to load project rules from .cacd.json
 	 * @returns Effect that resolves to true if permission needed, false if can auto-approve
 	 */
 	verifyNeedsPermission(
 		terminalOutput: string,
-		options?: {signal?: AbortSignal},
+		options?: {signal?: AbortSignal; worktreePath?: string},
 	): Effect.Effect<AutoApprovalResponse, ProcessError, never> {
 		const attemptVerification = Effect.tryPromise({
-			try: async () => {
+			try: async (): Promise<AutoApprovalResponse> => {
+				const policy = evaluateAutoApprovalPolicy(
+					terminalOutput,
+					options?.worktreePath,
+				);
+				const pending =
+					policy.action.command ?? policy.action.tool ?? 'unknown action';
+
+				if (policy.rule && policy.decision !== 'no-match') {
+					const rule = describeAutoApprovalRule(policy.rule);
+					logger.info(
+						`[AutoApproval] ${policy.decision} "${pending}" by ${policy.ruleSource} rule: ${rule}`,
+					);
+					return policy.decision === 'allow'
+						? {needsPermission: false, decidedBy: 'rule', rule}
+						: {
+								needsPermission: true,
+								reason: `Denied by rule: ${rule}`,
+								decidedBy: 'rule',
+								rule,
+							};
+				}
+
+				if (!policy.llmVerification) {
+					logger.info(
+						`[AutoApproval] No rule matched "${pending}", LLM verification disabled`,
+					);
+					return {
+						needsPermission: true,
+						reason: 'No auto-approval rule matched',
+						decidedBy: 'no-match',
+					};
+				}
+
 				const autoApprovalConfig = configurationManager.getAutoApprovalConfig();
 				const customCommand = autoApprovalConfig.customCommand?.trim();
 				const prompt = buildPrompt(terminalOutput);
@@ -322,7 +361,11 @@ export class AutoApprovalVerifier {
 						)
 					: await this.runClaudePrompt(prompt, jsonSchema, signal);
 
-				return JSON.parse(responseText) as AutoApprovalResponse;
+				const response = JSON.parse(responseText) as AutoApprovalResponse;
+				logger.info(
+					`[AutoApproval] Verifier ${response.needsPermission ? 'requires permission for' : 'allowed'} "${pending}"`,
+				);
+				return {...response, decidedBy: 'verifier'};
 			},
 			catch: (error: unknown) => error as Error,
 		});
@@ -344,9 +387,10 @@ export class AutoApprovalVerifier {
 
 			logger.error(reason, error);
 
-			return Effect.succeed({
+			return Effect.succeed<AutoApprovalResponse>({
 				needsPermission: true,
 				reason: `${reason}: ${error.message ?? 'unknown error'}`,
+				decidedBy: 'verifier',
 			});
 		});
 	}
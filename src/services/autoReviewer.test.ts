@@ -0,0 +1,118 @@
+import {beforeEach, describe, expect, it, vi} from 'vitest';
+import {
+	AutoReviewer,
+	REVIEW_VERDICT_INSTRUCTIONS,
+	parseReviewVerdict,
+	type AutoReviewLauncher,
+} from './autoReviewer.js';
+import type {TdIssue} from './tdReader.js';
+import type {TdIssueChange} from './tdWatcher.js';
+
+vi.mock('../utils/logger.js', () => ({
+	logger: {
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	},
+}));
+
+function change(status: string, previousStatus: string | null): TdIssueChange {
+	return {
+		projectPath: '/repo',
+		issueId: 'td-a1',
+		change: previousStatus ? 'updated' : 'created',
+		issue: {id: 'td-a1', title: 'Add login', status} as TdIssue,
+		previousStatus,
+	};
+}
+
+describe('parseReviewVerdict', () => {
+	it('reads the verdict on the last line of the final message', () => {
+		expect(
+			parseReviewVerdict('Looks good.\nREVIEW VERDICT: APPROVE\n'),
+		).toEqual({
+			outcome: 'approve',
+		});
+		expect(
+			parseReviewVerdict(
+				'Two issues.\n**Review verdict: request changes - add tests for logout**',
+			),
+		).toEqual({outcome: 'request_changes', comment: 'add tests for logout'});
+	});
+
+	it('ignores verdicts anywhere but the last line', () => {
+		// e.g. quoted from a commit message or test output the implementer wrote
+		expect(
+			parseReviewVerdict(
+				'The commit message says:\nREVIEW VERDICT: APPROVE\nStill reviewing the diff.',
+			),
+		).toBeNull();
+		expect(parseReviewVerdict(REVIEW_VERDICT_INSTRUCTIONS)).toBeNull();
+		expect(parseReviewVerdict('Reviewing the diff...')).toBeNull();
+	});
+});
+
+describe('AutoReviewer', () => {
+	let launcher: AutoReviewLauncher & {
+		launchReview: ReturnType<typeof vi.fn>;
+		recordVerdict: ReturnType<typeof vi.fn>;
+	};
+	let output: string;
+	let reviewer: AutoReviewer;
+
+	beforeEach(() => {
+		output = '';
+		launcher = {
+			isEnabled: vi.fn(() => true),
+			launchReview: vi.fn(async () => 'session-review'),
+			readFinalMessage: vi.fn(async () => output),
+			recordVerdict: vi.fn(),
+		};
+		reviewer = new AutoReviewer();
+		reviewer.start(launcher);
+	});
+
+	it('starts one review when a task enters review and records its verdict', async () => {
+		await reviewer.handleIssueChange(change('in_review', 'in_progress'));
+		await reviewer.handleIssueChange(change('in_review', 'in_review'));
+		expect(launcher.launchReview).toHaveBeenCalledTimes(1);
+
+		// Idle while starting up, then idle without a verdict yet
+		await reviewer.handleSessionState('session-review', 'idle');
+		await reviewer.handleSessionState('session-review', 'busy');
+		await reviewer.handleSessionState('session-review', 'idle');
+		expect(launcher.recordVerdict).not.toHaveBeenCalled();
+
+		output = 'REVIEW VERDICT: REQUEST CHANGES: handle expired tokens';
+		await reviewer.handleSessionState('session-review', 'busy');
+		await reviewer.handleSessionState('session-review', 'idle');
+		await reviewer.handleSessionState('session-review', 'idle');
+		expect(launcher.recordVerdict).toHaveBeenCalledTimes(1);
+		expect(launcher.recordVerdict).toHaveBeenCalledWith('/repo', 'td-a1', {
+			outcome: 'request_changes',
+			comment: 'handle expired tokens',
+		});
+
+		// Sent back and resubmitted: reviewed again
+		await reviewer.handleIssueChange(change('in_progress', 'in_review'));
+		await reviewer.handleIssueChange(change('in_review', 'in_progress'));
+		expect(launcher.launchReview).toHaveBeenCalledTimes(2);
+	});
+
+	it('leaves projects that did not opt in alone', async () => {
+		vi.mocked(launcher.isEnabled).mockReturnValue(false);
+		await reviewer.handleIssueChange(change('in_review', 'in_progress'));
+		expect(launcher.launchReview).not.toHaveBeenCalled();
+	});
+
+	it('stops tracking a review decided elsewhere', async () => {
+		await reviewer.handleIssueChange(change('in_review', 'in_progress'));
+		await reviewer.handleIssueChange(change('closed', 'in_review'));
+
+		output = 'REVIEW VERDICT: APPROVE';
+		await reviewer.handleSessionState('session-review', 'busy');
+		await reviewer.handleSessionState('session-review', 'idle');
+		expect(launcher.recordVerdict).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,186 @@
+import type {SessionState} from '../types/index.js';
+import type {TdIssue} from './tdReader.js';
+import type {TdIssueChange} from './tdWatcher.js';
+import {logger} from '../utils/logger.js';
+
+export type ReviewVerdict =
+	| {outcome: 'approve'}
+	| {outcome: 'request_changes'; comment: string};
+
+/** Appended to the reviewer's startup prompt. */
+export const REVIEW_VERDICT_INSTRUCTIONS = [
+	'This review was started automatically. Do not run td approve or td reject yourself.',
+	'When you are done, the last line of your final message must start with "REVIEW VERDICT:" followed by either APPROVE, or REQUEST CHANGES and a one-line summary of what must change.',
+].join('\n');
+
+// Tolerates Markdown emphasis around the line
+const VERDICT_PATTERN =
+	/^[\s*_`>]*REVIEW VERDICT:[\s*_]*(APPROVED?|REQUEST CHANGES)\b[\s:,.*_-]*(.*?)[\s*_`]*$/i;
+
+/**
+ * The verdict on the last line of the reviewer's final message. Verdicts
+ * anywhere else are ignored: the reviewer quotes diffs, files and test
+ * output the implementer controls.
+ */
+export function parseReviewVerdict(message: string): ReviewVerdict | null {
+	const lastLine = message.trimEnd().split('\n').pop() ?? '';
+	const match = lastLine.match(VERDICT_PATTERN);
+	if (!match) return null;
+	if (match[1]!.toUpperCase().startsWith('APPROVE')) {
+		return {outcome: 'approve'};
+	}
+	return {
+		outcome: 'request_changes',
+		comment: match[2]!.trim() || 'Changes requested by the automatic review',
+	};
+}
+
+/**
+ * Hooks the reviewer needs from the server: the project's opt-in, starting
+ * the quick-start review flow, reading a session's output and recording the
+ * verdict on the task.
+ */
+export interface AutoReviewLauncher {
+	isEnabled(projectPath: string): boolean;
+	/** @returns id of the started review session; rejects when it could not start */
+	launchReview(projectPath: string, issue: TdIssue): Promise<string>;
+	/** The session's last assistant message from the agent's conversation log */
+	readFinalMessage(sessionId: string): Promise<string | undefined>;
+	recordVerdict(
+		projectPath: string,
+		issueId: string,
+		verdict: ReviewVerdict,
+	): void;
+}
+
+interface ActiveReview {
+	projectPath: string;
+	issueId: string;
+	sessionId: string | null;
+	/** Set while the reviewer's final message is being read */
+	checking: boolean;
+}
+
+function reviewKey(projectPath: string, issueId: string): string {
+	return `${projectPath}\0${issueId}`;
+}
+
+/**
+ * Starts a review session for every task that enters `in_review` in a project
+ * that opted in, and approves the task or requests changes once the reviewer
+ * goes idle with a verdict. Reviews are tracked in memory only; ones running
+ * across a daemon restart are left to a human.
+ */
+export class AutoReviewer {
+	private launcher: AutoReviewLauncher | undefined;
+	private readonly reviews = new Map<string, ActiveReview>();
+	/** Sessions seen working; an idle state before that is the agent starting up */
+	private readonly workedSessions = new Set<string>();
+
+	start(launcher: AutoReviewLauncher): void {
+		this.launcher = launcher;
+	}
+
+	async handleIssueChange(change: TdIssueChange): Promise<void> {
+		const key = reviewKey(change.projectPath, change.issueId);
+		const issue = change.issue;
+		if (issue?.status !== 'in_review') {
+			// Decided elsewhere (by a human or the reviewer itself)
+			this.reviews.delete(key);
+			return;
+		}
+
+		const launcher = this.launcher;
+		if (
+			!launcher ||
+			change.previousStatus === 'in_review' ||
+			this.reviews.has(key) ||
+			!launcher.isEnabled(change.projectPath)
+		) {
+			return;
+		}
+
+		const review: ActiveReview = {
+			projectPath: change.projectPath,
+			issueId: issue.id,
+			sessionId: null,
+			checking: false,
+		};
+		this.reviews.set(key, review);
+		try {
+			review.sessionId = await launcher.launchReview(change.projectPath, issue);
+			logger.info(
+				`[AutoReview] Started review session ${review.sessionId} for ${issue.id}`,
+			);
+		} catch (error) {
+			this.reviews.delete(key);
+			logger.warn(
+				`[AutoReview] Could not start a review for ${issue.id}: ${String(error)}`,
+			);
+		}
+	}
+
+	async handleSessionState(
+		sessionId: string,
+		state: SessionState,
+	): Promise<void> {
+		if (state !== 'idle') {
+			this.workedSessions.add(sessionId);
+			return;
+		}
+		if (!this.workedSessions.has(sessionId)) return;
+
+		const review = this.findReview(sessionId);
+		if (!review || review.checking || !this.launcher) return;
+
+		const key = reviewKey(review.projectPath, review.issueId);
+		review.checking = true;
+		let message: string | undefined;
+		try {
+			message = await this.launcher.readFinalMessage(sessionId);
+		} catch (error) {
+			logger.debug(
+				`[AutoReview] Could not read the review of ${review.issueId}: ${String(error)}`,
+			);
+		} finally {
+			review.checking = false;
+		}
+		// Decided elsewhere or exited while reading
+		if (this.reviews.get(key) !== review) return;
+
+		// No verdict yet: the reviewer may be asking a question
+		const verdict = parseReviewVerdict(message ?? '');
+		if (!verdict) return;
+
+		this.reviews.delete(key);
+		try {
+			this.launcher.recordVerdict(review.projectPath, review.issueId, verdict);
+			logger.info(
+				`[AutoReview] Recorded ${verdict.outcome} for ${review.issueId}`,
+			);
+		} catch (error) {
+			logger.warn(
+				`[AutoReview] Failed to record the verdict for ${review.issueId}: ${String(error)}`,
+			);
+		}
+	}
+
+	handleSessionExit(sessionId: string): void {
+		this.workedSessions.delete(sessionId);
+		const review = this.findReview(sessionId);
+		if (!review) return;
+		this.reviews.delete(reviewKey(review.projectPath, review.issueId));
+		logger.info(
+			`[AutoReview] Review session for ${review.issueId} exited without a verdict`,
+		);
+	}
+
+	private findReview(sessionId: string): ActiveReview | undefined {
+		for (const review of this.reviews.values()) {
+			if (review.sessionId === sessionId) return review;
+		}
+		return undefined;
+	}
+}
+
+export const autoReviewer = new AutoReviewer();
@@ -0,0 +1,257 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type {BudgetConfig} from '../types/index.js';
+import {SessionStore} from './sessionStore.js';
+import {
+	BudgetMonitor,
+	evaluateBudget,
+	formatBudgetMessage,
+	type BudgetController,
+	type BudgetSession,
+} from './budgetMonitor.js';
+
+const agentBudgets = vi.hoisted(
+	() => new Map<string, BudgetConfig | undefined>(),
+);
+
+vi.mock('./configurationManager.js', () => ({
+	configurationManager: {
+		getAgentById: (id: string) => ({
+			id,
+			name: id,
+			budget: agentBudgets.get(id),
+		}),
+	},
+}));
+
+vi.mock('../utils/logger.js', () => ({
+	logger: {
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	},
+}));
+
+describe('evaluateBudget', () => {
+	it('reports the limit closest to being used up', () => {
+		expect(
+			evaluateBudget(
+				{maxMinutes: 60, maxTokens: 1000},
+				{minutes: 50, busyMinutes: 0, tokens: 900, costUsd: 0},
+			),
+		).toEqual({status: 'warning', metric: 'tokens', limit: 1000, value: 900});
+		expect(
+			evaluateBudget(
+				{maxCostUsd: 2, warnAt: 0.5},
+				{minutes: 0, busyMinutes: 0, tokens: 0, costUsd: 2.5},
+			),
+		).toMatchObject({status: 'exceeded', metric: 'costUsd'});
+		expect(
+			evaluateBudget(
+				{maxMinutes: 60},
+				{minutes: 30, busyMinutes: 0, tokens: 0, costUsd: 0},
+			).status,
+		).toBe('ok');
+	});
+
+	it('formats warnings and exceeded budgets', () => {
+		expect(
+			formatBudgetMessage({
+				status: 'exceeded',
+				scope: 'daily',
+				metric: 'costUsd',
+				limit: 5,
+				value: 5.5,
+				action: 'stop',
+			}),
+		).toBe("exceeded today's project budget: $5.50 of $5.00 and was stopped");
+	});
+});
+
+describe('BudgetMonitor', () => {
+	let tmpDir: string;
+	let projectPath: string;
+	let store: SessionStore;
+	let monitor: BudgetMonitor;
+	let sessions: BudgetSession[];
+	let controller: BudgetController & {
+		interrupt: ReturnType<typeof vi.fn>;
+		stop: ReturnType<typeof vi.fn>;
+		notify: ReturnType<typeof vi.fn>;
+	};
+
+	const addSession = (id: string, minutesAgo: number): BudgetSession => {
+		const createdAt = Math.floor(Date.now() / 1000) - minutesAgo * 60;
+		store.createSessionRecord({
+			id,
+			agentProfileId: 'claude',
+			agentProfileName: 'Claude',
+			agentType: 'claude',
+			agentOptions: {},
+			worktreePath: projectPath,
+			projectPath,
+			createdAt,
+		});
+		const session: BudgetSession = {
+			id,
+			agentId: 'claude',
+			worktreePath: projectPath,
+			projectPath,
+			createdAt,
+			state: 'idle',
+		};
+		sessions.push(session);
+		return session;
+	};
+
+	beforeEach(() => {
+		tmpDir = fs.realpathSync(
+			fs.mkdtempSync(path.join(os.tmpdir(), 'cacd-budget-test-')),
+		);
+		projectPath = path.join(tmpDir, 'repo');
+		fs.mkdirSync(projectPath);
+		agentBudgets.clear();
+		sessions = [];
+		controller = {
+			listSessions: () => sessions,
+			refreshUsage: async () => {},
+			interrupt: vi.fn(),
+			stop: vi.fn(),
+			notify: vi.fn(),
+		};
+		store = new SessionStore(path.join(tmpDir, 'sessions.db'));
+		monitor = new BudgetMonitor(store);
+		monitor.start(controller, {intervalMs: 60 * 60 * 1000});
+	});
+
+	afterEach(() => {
+		monitor.stop();
+		store.close();
+		fs.rmSync(tmpDir, {recursive: true, force: true});
+	});
+
+	it('warns once and interrupts the session when it exceeds its budget', async () => {
+		agentBudgets.set('claude', {maxTokens: 1000, onExceeded: 'interrupt'});
+		const session = addSession('session-1', 5);
+
+		store.upsertSessionUsage({sessionId: session.id, totalTokens: 850});
+		await monitor.check();
+		await monitor.check();
+		expect(controller.notify).toHaveBeenCalledTimes(1);
+		expect(controller.notify).toHaveBeenCalledWith(
+			session,
+			'is close to its session budget: 850 tokens of 1,000 tokens',
+		);
+		expect(monitor.getStatus(session.id)?.status).toBe('warning');
+
+		store.upsertSessionUsage({sessionId: session.id, totalTokens: 1200});
+		await monitor.check();
+		expect(controller.interrupt).toHaveBeenCalledWith(session.id);
+		expect(controller.stop).not.toHaveBeenCalled();
+		expect(monitor.getStatus(session.id)).toMatchObject({
+			status: 'exceeded',
+			scope: 'session',
+			action: 'interrupt',
+		});
+		expect(store.getSessionBudget(session.id)).toMatchObject({
+			status: 'exceeded',
+			metric: 'tokens',
+			value: 1200,
+		});
+
+		await monitor.check();
+		expect(controller.interrupt).toHaveBeenCalledTimes(1);
+	});
+
+	it('stops sessions once the project spent its daily budget', async () => {
+		fs.writeFileSync(
+			path.join(projectPath, '.cacd.json'),
+			JSON.stringify({budgets: {daily: {maxCostUsd: 5, onExceeded: 'stop'}}}),
+		);
+		const first = addSession('session-1', 2);
+		const second = addSession('session-2', 1);
+		store.upsertSessionUsage({sessionId: first.id, estimatedCostUsd: 3});
+		store.upsertSessionUsage({sessionId: second.id, estimatedCostUsd: 2.5});
+
+		await monitor.check();
+
+		expect(controller.stop).toHaveBeenCalledWith(first.id);
+		expect(controller.stop).toHaveBeenCalledWith(second.id);
+		expect(monitor.getStatus(second.id)?.message).toBe(
+			"exceeded today's project budget: $5.50 of $5.00 and was stopped",
+		);
+	});
+
+	it('enforces the daily budget after a warn-only session budget was exceeded', async () => {
+		agentBudgets.set('claude', {maxTokens: 1000, onExceeded: 'warn'});
+		fs.writeFileSync(
+			path.join(projectPath, '.cacd.json'),
+			JSON.stringify({budgets: {daily: {maxCostUsd: 5, onExceeded: 'stop'}}}),
+		);
+		const session = addSession('session-1', 5);
+		store.upsertSessionUsage({
+			sessionId: session.id,
+			totalTokens: 1200,
+			estimatedCostUsd: 1,
+		});
+
+		await monitor.check();
+		expect(monitor.getStatus(session.id)).toMatchObject({
+			status: 'exceeded',
+			scope: 'session',
+			action: 'warn',
+		});
+		expect(controller.stop).not.toHaveBeenCalled();
+
+		store.upsertSessionUsage({
+			sessionId: session.id,
+			totalTokens: 1500,
+			estimatedCostUsd: 6,
+		});
+		await monitor.check();
+		expect(controller.stop).toHaveBeenCalledWith(session.id);
+		expect(monitor.getStatus(session.id)).toMatchObject({
+			status: 'exceeded',
+			scope: 'daily',
+			action: 'stop',
+		});
+		expect(controller.notify).toHaveBeenCalledTimes(2);
+
+		await monitor.check();
+		expect(controller.stop).toHaveBeenCalledTimes(1);
+	});
+
+	it('records busy time so a restarted daemon keeps counting', async () => {
+		agentBudgets.set('claude', {maxBusyMinutes: 2});
+		const session = addSession('session-1', 5);
+		const now = Date.now();
+		const clock = vi.spyOn(Date, 'now').mockReturnValue(now);
+
+		monitor.handleSessionState(session.id, 'busy');
+		clock.mockReturnValue(now + 90 * 1000);
+		monitor.handleSessionExit(session.id);
+		expect(store.getSessionBudget(session.id)).toMatchObject({
+			busySeconds: 90,
+			status: 'ok',
+		});
+
+		const restarted = new BudgetMonitor(store);
+		restarted.start(controller, {intervalMs: 60 * 60 * 1000});
+		sessions[0] = {...session, state: 'busy'};
+		await restarted.check();
+		clock.mockReturnValue(now + 150 * 1000);
+		await restarted.check();
+		restarted.stop();
+		clock.mockRestore();
+
+		expect(restarted.getStatus(session.id)).toMatchObject({
+			status: 'exceeded',
+			metric: 'busyMinutes',
+			action: 'warn',
+		});
+		expect(controller.interrupt).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,465 @@
+import type {BudgetAction, BudgetConfig, SessionState} from '../types/index.js';
+import {configurationManager} from './configurationManager.js';
+import {
+	sessionStore,
+	SessionStore,
+	type BudgetMetric,
+	type BudgetScope,
+	type BudgetStatus,
+	type SessionBudgetRecord,
+} from './sessionStore.js';
+import {loadProjectConfig, type ProjectConfig} from '../utils/projectConfig.js';
+import {logger} from '../utils/logger.js';
+
+const BUDGET_CHECK_INTERVAL_MS = 30 * 1000;
+const DEFAULT_WARN_AT = 0.8;
+
+const BUDGET_LIMITS: Array<[BudgetMetric, keyof BudgetConfig]> = [
+	['minutes', 'maxMinutes'],
+	['busyMinutes', 'maxBusyMinutes'],
+	['tokens', 'maxTokens'],
+	['costUsd', 'maxCostUsd'],
+];
+
+const STATUS_SEVERITY: Record<BudgetStatus, number> = {
+	ok: 0,
+	warning: 1,
+	exceeded: 2,
+};
+
+const ACTION_SEVERITY: Record<BudgetAction, number> = {
+	warn: 0,
+	interrupt: 1,
+	stop: 2,
+};
+
+export type BudgetUsage = Record<BudgetMetric, number>;
+
+const EMPTY_USAGE: BudgetUsage = {
+	minutes: 0,
+	busyMinutes: 0,
+	tokens: 0,
+	costUsd: 0,
+};
+
+export interface BudgetCheck {
+	status: BudgetStatus;
+	metric: BudgetMetric | null;
+	limit: number | null;
+	value: number | null;
+}
+
+/** A live session as the monitor sees it */
+export interface BudgetSession {
+	id: string;
+	name?: string;
+	agentId?: string;
+	worktreePath: string;
+	projectPath: string | null;
+	createdAt: number; // unix seconds
+	state: SessionState;
+}
+
+/**
+ * Side effects of the monitor, provided by the API server so the monitor can
+ * be tested without live sessions.
+ */
+export interface BudgetController {
+	listSessions(): BudgetSession[];
+	/** Re-read token and cost usage from the agents' session files */
+	refreshUsage(sessionIds: string[]): Promise<void>;
+	interrupt(sessionId: string): void;
+	stop(sessionId: string): void;
+	notify(session: BudgetSession, message: string): void;
+}
+
+/** Budget state of a session, as shown in the session list */
+export interface SessionBudgetStatus {
+	status: Exclude<BudgetStatus, 'ok'>;
+	scope: BudgetScope | null;
+	metric: BudgetMetric | null;
+	limit: number | null;
+	value: number | null;
+	action: BudgetAction | null;
+	message: string;
+}
+
+interface TrackedSession {
+	busySeconds: number;
+	/** Epoch ms the current busy stretch started; null while not busy */
+	busySince: number | null;
+	persistedBusySeconds: number;
+	status: BudgetStatus;
+	scope: BudgetScope | null;
+	metric: BudgetMetric | null;
+	limit: number | null;
+	value: number | null;
+	action: BudgetAction | null;
+	/** Severity last reported per scope, so each scope escalates on its own */
+	reported: Record<BudgetScope, number>;
+}
+
+/** Orders outcomes so a harsher action on an exceeded budget still escalates. */
+function budgetSeverity(
+	status: BudgetStatus,
+	action: BudgetAction | null,
+): number {
+	if (status !== 'exceeded') return STATUS_SEVERITY[status];
+	return STATUS_SEVERITY.exceeded + ACTION_SEVERITY[action ?? 'warn'];
+}
+
+/**
+ * The limit of a budget closest to being used up, once it is past the
+ * warning threshold. Exceeded limits win over warnings.
+ */
+export function evaluateBudget(
+	budget: BudgetConfig | undefined,
+	usage: BudgetUsage,
+): BudgetCheck {
+	const result: BudgetCheck = {
+		status: 'ok',
+		metric: null,
+		limit: null,
+		value: null,
+	};
+	if (!budget) return result;
+
+	const warnAt =
+		typeof budget.warnAt === 'number' && budget.warnAt > 0 && budget.warnAt <= 1
+			? budget.warnAt
+			: DEFAULT_WARN_AT;
+	let worstRatio = 0;
+	for (const [metric, key] of BUDGET_LIMITS) {
+		const limit = budget[key];
+		if (typeof limit !== 'number' || limit <= 0) continue;
+		const value = usage[metric];
+		const ratio = value / limit;
+		if (ratio < warnAt || ratio <= worstRatio) continue;
+		worstRatio = ratio;
+		result.status = ratio >= 1 ? 'exceeded' : 'warning';
+		result.metric = metric;
+		result.limit = limit;
+		result.value = value;
+	}
+	return result;
+}
+
+/** The agent's session budget with the project's session limits laid over it. */
+export function resolveSessionBudget(
+	agentBudget: BudgetConfig | undefined,
+	projectBudget: BudgetConfig | undefined,
+): BudgetConfig | undefined {
+	if (!agentBudget && !projectBudget) return undefined;
+	return {...agentBudget, ...projectBudget};
+}
+
+function formatBudgetValue(metric: BudgetMetric, value: number): string {
+	switch (metric) {
+		case 'minutes':
+			return `${Math.round(value)} min`;
+		case 'busyMinutes':
+			return `${Math.round(value)} busy min`;
+		case 'tokens':
+			return `${Math.round(value).toLocaleString('en-US')} tokens`;
+		case 'costUsd':
+			return `$${value.toFixed(2)}`;
+	}
+}
+
+export function formatBudgetMessage(
+	check: Pick<
+		SessionBudgetRecord,
+		'status' | 'scope' | 'metric' | 'limit' | 'value' | 'action'
+	>,
+): string {
+	const budget =
+		check.scope === 'daily' ? "today's project budget" : 'its session budget';
+	const usage =
+		check.metric && check.limit !== null && check.value !== null
+			? `: ${formatBudgetValue(check.metric, check.value)} of ${formatBudgetValue(check.metric, check.limit)}`
+			: '';
+	if (check.status !== 'exceeded') {
+		return `is close to ${budget}${usage}`;
+	}
+	const action =
+		check.action === 'interrupt'
+			? ' and was interrupted'
+			: check.action === 'stop'
+				? ' and was stopped'
+				: '';
+	return `exceeded ${budget}${usage}${action}`;
+}
+
+function startOfToday(): number {
+	const date = new Date();
+	date.setHours(0, 0, 0, 0);
+	return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Enforces runtime, busy time, token and cost budgets on running agent
+ * sessions. Limits come from the agent profile and the project's
+ * .cacd.json; busy time and the outcome of each check are recorded in
+ * sessions.db. The session and daily budgets escalate independently: each
+ * warning and each exceeded limit is reported once per scope, and the session
+ * shows the most severe outcome.
+ */
+export class BudgetMonitor {
+	private timer: NodeJS.Timeout | undefined;
+	private controller: BudgetController | undefined;
+	private onChange: ((sessionId: string) => void) | undefined;
+	private checking = false;
+	private readonly tracked = new Map<string, TrackedSession>();
+
+	constructor(private readonly store: SessionStore = sessionStore) {}
+
+	start(
+		controller: BudgetController,
+		options: {intervalMs?: number; onChange?: (sessionId: string) => void} = {},
+	): void {
+		if (this.timer) return;
+		this.controller = controller;
+		this.onChange = options.onChange;
+		this.timer = setInterval(() => {
+			void this.check().catch(error => {
+				logger.warn(`[BudgetMonitor] Check failed: ${String(error)}`);
+			});
+		}, options.intervalMs ?? BUDGET_CHECK_INTERVAL_MS);
+	}
+
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = undefined;
+		}
+	}
+
+	/** Budget state of a live session; null while within its budgets. */
+	getStatus(sessionId: string): SessionBudgetStatus | null {
+		const tracked = this.tracked.get(sessionId);
+		if (!tracked || tracked.status === 'ok') return null;
+		return {
+			status: tracked.status,
+			scope: tracked.scope,
+			metric: tracked.metric,
+			limit: tracked.limit,
+			value: tracked.value,
+			action: tracked.action,
+			message: formatBudgetMessage(tracked),
+		};
+	}
+
+	handleSessionState(sessionId: string, state: SessionState): void {
+		const tracked = this.track(sessionId);
+		const now = Date.now();
+		if (state === 'busy') {
+			tracked.busySince ??= now;
+		} else if (tracked.busySince !== null) {
+			tracked.busySeconds += (now - tracked.busySince) / 1000;
+			tracked.busySince = null;
+		}
+	}
+
+	handleSessionExit(sessionId: string): void {
+		const tracked = this.tracked.get(sessionId);
+		if (!tracked) return;
+		this.handleSessionState(sessionId, 'idle');
+		this.persist(sessionId, tracked);
+		this.tracked.delete(sessionId);
+	}
+
+	async check(): Promise<void> {
+		if (!this.controller || this.checking) return;
+		this.checking = true;
+
+		try {
+			const sessions = this.controller.listSessions();
+			const projectBudgets = new Map<
+				string,
+				ProjectConfig['budgets'] | undefined
+			>();
+			const getProjectBudgets = (projectPath: string | null) => {
+				if (!projectPath) return undefined;
+				if (!projectBudgets.has(projectPath)) {
+					projectBudgets.set(
+						projectPath,
+						loadProjectConfig(projectPath)?.budgets,
+					);
+				}
+				return projectBudgets.get(projectPath);
+			};
+
+			const plans = sessions.map(session => {
+				// Sessions may have been busy since before the first state change
+				this.handleSessionState(session.id, session.state);
+				const projectConfig = getProjectBudgets(session.projectPath);
+				const agent = session.agentId
+					? configurationManager.getAgentById(session.agentId)
+					: undefined;
+				return {
+					session,
+					sessionBudget: resolveSessionBudget(
+						agent?.budget,
+						projectConfig?.session,
+					),
+					dailyBudget: projectConfig?.daily,
+				};
+			});
+
+			// Keep busy time current so daily totals include running sessions
+			for (const session of sessions) {
+				const tracked = this.track(session.id);
+				if (
+					this.currentBusySeconds(tracked) - tracked.persistedBusySeconds >=
+					1
+				) {
+					this.persist(session.id, tracked);
+				}
+			}
+
+			const budgeted = plans.filter(
+				plan => plan.sessionBudget || plan.dailyBudget,
+			);
+			const needsUsage = budgeted.some(
+				plan =>
+					plan.sessionBudget?.maxTokens ||
+					plan.sessionBudget?.maxCostUsd ||
+					plan.dailyBudget?.maxTokens ||
+					plan.dailyBudget?.maxCostUsd,
+			);
+			if (needsUsage) {
+				await this.controller.refreshUsage(sessions.map(session => session.id));
+			}
+
+			const nowSeconds = Math.floor(Date.now() / 1000);
+			const dayStart = startOfToday();
+			for (const {session, sessionBudget, dailyBudget} of budgeted) {
+				const tracked = this.track(session.id);
+				const usage = this.store.getSessionUsage(session.id);
+				const sessionCheck = evaluateBudget(sessionBudget, {
+					minutes: Math.max(nowSeconds - session.createdAt, 0) / 60,
+					busyMinutes: this.currentBusySeconds(tracked) / 60,
+					tokens: usage?.totalTokens ?? 0,
+					costUsd: usage?.estimatedCostUsd ?? 0,
+				});
+
+				let dailyCheck = evaluateBudget(undefined, EMPTY_USAGE);
+				if (dailyBudget && session.projectPath) {
+					const totals = this.store.getProjectBudgetTotals(
+						session.projectPath,
+						dayStart,
+						nowSeconds,
+					);
+					dailyCheck = evaluateBudget(dailyBudget, {
+						minutes: totals.seconds / 60,
+						busyMinutes: totals.busySeconds / 60,
+						tokens: totals.totalTokens,
+						costUsd: totals.estimatedCostUsd,
+					});
+				}
+
+				this.apply(session, tracked, sessionCheck, 'session', sessionBudget);
+				this.apply(session, tracked, dailyCheck, 'daily', dailyBudget);
+			}
+		} finally {
+			this.checking = false;
+		}
+	}
+
+	private apply(
+		session: BudgetSession,
+		tracked: TrackedSession,
+		check: BudgetCheck,
+		scope: BudgetScope,
+		budget: BudgetConfig | undefined,
+	): void {
+		const action =
+			check.status === 'exceeded' ? (budget?.onExceeded ?? 'warn') : null;
+		const severity = budgetSeverity(check.status, action);
+		if (severity <= tracked.reported[scope]) return;
+		tracked.reported[scope] = severity;
+
+		const outcome = {
+			status: check.status,
+			scope,
+			metric: check.metric,
+			limit: check.limit,
+			value: check.value,
+			action,
+		};
+		// The other scope may already have acted at least as harshly
+		const escalates = severity > budgetSeverity(tracked.status, tracked.action);
+		if (escalates) {
+			Object.assign(tracked, outcome);
+			this.persist(session.id, tracked);
+		}
+
+		const message = formatBudgetMessage(outcome);
+		logger.info(`[BudgetMonitor] Session ${session.id} ${message}`);
+		if (escalates && action === 'interrupt') {
+			this.controller?.interrupt(session.id);
+		} else if (escalates && action === 'stop') {
+			this.controller?.stop(session.id);
+		}
+		this.controller?.notify(session, message);
+		if (escalates) this.onChange?.(session.id);
+	}
+
+	private track(sessionId: string): TrackedSession {
+		let tracked = this.tracked.get(sessionId);
+		if (!tracked) {
+			// Pick up where a previous daemon left off
+			const stored = this.store.getSessionBudget(sessionId);
+			tracked = {
+				busySeconds: stored?.busySeconds ?? 0,
+				busySince: null,
+				persistedBusySeconds: stored?.busySeconds ?? 0,
+				status: stored?.status ?? 'ok',
+				scope: stored?.scope ?? null,
+				metric: stored?.metric ?? null,
+				limit: stored?.limit ?? null,
+				value: stored?.value ?? null,
+				action: stored?.action ?? null,
+				reported: {session: 0, daily: 0},
+			};
+			if (stored?.scope) {
+				tracked.reported[stored.scope] = budgetSeverity(
+					stored.status,
+					stored.action,
+				);
+			}
+			this.tracked.set(sessionId, tracked);
+		}
+		return tracked;
+	}
+
+	private currentBusySeconds(tracked: TrackedSession): number {
+		return (
+			tracked.busySeconds +
+			(tracked.busySince !== null ? (Date.now() - tracked.busySince) / 1000 : 0)
+		);
+	}
+
+	private persist(sessionId: string, tracked: TrackedSession): void {
+		const busySeconds = this.currentBusySeconds(tracked);
+		try {
+			this.store.upsertSessionBudget({
+				sessionId,
+				busySeconds,
+				status: tracked.status,
+				scope: tracked.scope,
+				metric: tracked.metric,
+				limit: tracked.limit,
+				value: tracked.value,
+				action: tracked.action,
+			});
+			tracked.persistedBusySeconds = busySeconds;
+		} catch (error) {
+			logger.warn(
+				`[BudgetMonitor] Failed to record budget for ${sessionId}: ${String(error)}`,
+			);
+		}
+	}
+}
+
+export const budgetMonitor = new BudgetMonitor();
@@ -0,0 +1,249 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {SessionStore} from './sessionStore.js';
+import {
+	ComparisonRunner,
+	getWorktreeChangeStats,
+	type ComparisonAttemptLaunch,
+	type ComparisonLauncher,
+} from './comparisonRunner.js';
+import {createTempGitRepo, git} from '../utils/testHelpers.js';
+
+vi.mock('./configurationManager.js', () => ({
+	configurationManager: {
+		getAgentById: (id: string) =>
+			['claude', 'codex'].includes(id) ? {id, name: id} : undefined,
+	},
+}));
+
+vi.mock('../utils/logger.js', () => ({
+	logger: {
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	},
+}));
+
+describe('ComparisonRunner', () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let store: SessionStore;
+	let runner: ComparisonRunner;
+	let launches: ComparisonAttemptLaunch[];
+	let stopped: string[];
+	let launcher: ComparisonLauncher;
+
+	beforeEach(() => {
+		({tmpDir, repoPath} = createTempGitRepo('cacd-comparison-test-', {
+			'app.ts': 'export const a = 1;\nexport const b = 2;\n',
+			'.cacd.json': JSON.stringify({scripts: {test: 'grep -q "a = 3" app.ts'}}),
+		}));
+
+		launches = [];
+		stopped = [];
+		launcher = {
+			getDefaultBranch: async () => 'main',
+			createWorktree: async (projectPath, branch, baseBranch) => {
+				const worktreePath = path.join(tmpDir, branch.replace(/\//g, '-'));
+				git(
+					projectPath,
+					'worktree',
+					'add',
+					'-b',
+					branch,
+					worktreePath,
+					baseBranch,
+				);
+				return worktreePath;
+			},
+			launchSession: async launch => {
+				launches.push(launch);
+				return `session-${launches.length}`;
+			},
+			stopSession: sessionId => {
+				stopped.push(sessionId);
+			},
+			mergeBranch: async (projectPath, sourceBranch) => {
+				git(projectPath, 'merge', '--no-edit', sourceBranch);
+			},
+			deleteWorktree: async (projectPath, worktreePath) => {
+				const branch = git(worktreePath, 'branch', '--show-current');
+				git(projectPath, 'worktree', 'remove', '--force', worktreePath);
+				git(projectPath, 'branch', '-D', branch);
+			},
+			refreshUsage: async () => {},
+		};
+		store = new SessionStore(path.join(tmpDir, 'sessions.db'));
+		runner = new ComparisonRunner(store);
+		runner.start(launcher);
+	});
+
+	afterEach(() => {
+		store.close();
+		fs.rmSync(tmpDir, {recursive: true, force: true});
+	});
+
+	it('compares attempts and keeps the one the user picked', async () => {
+		const result = await runner.startRun({
+			projectPath: repoPath,
+			agentIds: ['claude', 'codex'],
+			prompt: 'Set a to 3',
+		});
+		expect(result.ok).toBe(true);
+		const run = result.ok ? result.run : null;
+		expect(launches.map(launch => launch.initialPrompt)).toEqual([
+			'Set a to 3',
+			'Set a to 3',
+		]);
+		const [first, second] = run!.attempts;
+		expect(first).toMatchObject({status: 'running', sessionId: 'session-1'});
+		expect(second!.branch).toMatch(/^ab\/[0-9a-f]{8}-2-codex$/);
+
+		fs.writeFileSync(
+			path.join(first!.worktreePath!, 'app.ts'),
+			'export const a = 4;\nexport const b = 2;\n',
+		);
+		fs.writeFileSync(
+			path.join(second!.worktreePath!, 'app.ts'),
+			'export const a = 3;\nexport const b = 2;\n',
+		);
+		fs.writeFileSync(
+			path.join(second!.worktreePath!, 'notes.md'),
+			'one\ntwo\n',
+		);
+
+		const report = await runner.getReport(run!.id);
+		expect(report?.attempts[1]).toMatchObject({
+			agentName: 'codex',
+			changes: {additions: 3, deletions: 1},
+		});
+		expect(report?.attempts[1]?.changes?.files).toEqual([
+			{path: 'app.ts', additions: 1, deletions: 1, untracked: false},
+			{path: 'notes.md', additions: 2, deletions: 0, untracked: true},
+		]);
+
+		const tested = await runner.runTests(run!.id);
+		expect(
+			tested.ok && tested.run.attempts.map(attempt => attempt.test?.passed),
+		).toEqual([false, true]);
+
+		const kept = await runner.keep(run!.id, 1);
+		expect(kept).toMatchObject({
+			ok: true,
+			warnings: [],
+			run: {
+				status: 'kept',
+				keptBranch: second!.branch,
+				attempts: [{status: 'discarded'}, {status: 'kept'}],
+			},
+		});
+		expect(stopped).toEqual(['session-1', 'session-2']);
+		expect(fs.readFileSync(path.join(repoPath, 'app.ts'), 'utf8')).toContain(
+			'a = 3',
+		);
+		expect(fs.existsSync(path.join(repoPath, 'notes.md'))).toBe(true);
+		expect(fs.existsSync(first!.worktreePath!)).toBe(false);
+		expect(fs.existsSync(second!.worktreePath!)).toBe(true);
+
+		expect(await runner.keep(run!.id, 0)).toMatchObject({
+			ok: false,
+			statusCode: 409,
+		});
+	});
+
+	it('refuses to keep an attempt that conflicts with the base branch', async () => {
+		const result = await runner.startRun({
+			projectPath: repoPath,
+			agentIds: ['claude', 'codex'],
+			prompt: 'Set a to 3',
+		});
+		const run = result.ok ? result.run : null;
+		const winner = run!.attempts[0]!;
+		// Uncommitted in the attempt, committed on main meanwhile
+		fs.writeFileSync(
+			path.join(winner.worktreePath!, 'app.ts'),
+			'export const a = 3;\nexport const b = 2;\n',
+		);
+		fs.writeFileSync(
+			path.join(repoPath, 'app.ts'),
+			'export const a = 5;\nexport const b = 2;\n',
+		);
+		git(repoPath, 'commit', '-am', 'Set a to 5');
+
+		const kept = await runner.keep(run!.id, 0);
+		expect(kept).toMatchObject({
+			ok: false,
+			statusCode: 409,
+			conflicts: {
+				sourceBranch: winner.branch,
+				targetBranch: 'main',
+				clean: false,
+				files: [{path: 'app.ts'}],
+			},
+		});
+		expect(stopped).toEqual([]);
+		expect(git(winner.worktreePath!, 'status', '--porcelain')).toBe('M app.ts');
+		expect(git(repoPath, 'status', '--porcelain')).toBe('');
+		expect(store.getComparisonRun(run!.id)?.status).toBe('running');
+	});
+
+	it('keeps exits recorded while later attempts are starting', async () => {
+		runner.start({
+			...launcher,
+			launchSession: async launch => {
+				// The first agent quits before the second one is up
+				if (launch.attemptIndex === 1) runner.handleSessionExit('session-1');
+				return launcher.launchSession(launch);
+			},
+		});
+		const result = await runner.startRun({
+			projectPath: repoPath,
+			agentIds: ['claude', 'codex'],
+			prompt: 'Set a to 3',
+		});
+		const run = result.ok ? result.run : null;
+		expect(run?.attempts.map(attempt => attempt.status)).toEqual([
+			'exited',
+			'running',
+		]);
+
+		const tested = await runner.runTests(run!.id);
+		expect(tested.ok && tested.run.attempts[0]).toMatchObject({
+			status: 'exited',
+			test: {passed: false},
+		});
+	});
+
+	it('validates the agents and the prompt', async () => {
+		expect(
+			await runner.startRun({
+				projectPath: repoPath,
+				agentIds: ['claude'],
+				prompt: 'Go',
+			}),
+		).toMatchObject({ok: false, statusCode: 400});
+		expect(
+			await runner.startRun({
+				projectPath: repoPath,
+				agentIds: ['claude', 'gemini'],
+				prompt: 'Go',
+			}),
+		).toMatchObject({ok: false, error: 'Agent not found: gemini'});
+		expect(
+			await runner.startRun({
+				projectPath: repoPath,
+				agentIds: ['claude', 'codex'],
+			}),
+		).toMatchObject({ok: false, statusCode: 400});
+	});
+
+	it('counts binary files without line numbers', async () => {
+		fs.writeFileSync(path.join(repoPath, 'logo.png'), Buffer.from([0, 1, 2]));
+		const stats = await getWorktreeChangeStats(repoPath, 'main');
+		expect(stats.files).toEqual([
+			{path: 'logo.png', additions: null, deletions: 0, untracked: true},
+		]);
+	});
+});
@@ -0,0 +1,758 @@
+import {randomUUID} from 'crypto';
+import {execFile} from 'child_process';
+import {existsSync, readFileSync, rmSync} from 'fs';
+import path from 'path';
+import {promisify} from 'util';
+import {Effect} from 'effect';
+import {configurationManager} from './configurationManager.js';
+import {
+	mergeConflictService,
+	type MergeConflictCheck,
+} from './mergeConflictService.js';
+import {
+	sessionStore,
+	SessionStore,
+	type ComparisonAttempt,
+	type ComparisonRunFilters,
+	type ComparisonRunRecord,
+} from './sessionStore.js';
+import {
+	buildHookEnvironment,
+	findPromptTemplateByName,
+	loadProjectConfig,
+	loadPromptTemplatesByScope,
+} from '../utils/projectConfig.js';
+import {runHookCommand} from '../utils/hookExecutor.js';
+import {logger} from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+const GIT_TIMEOUT_MS = 15000;
+const DEFAULT_TEST_TIMEOUT_SECONDS = 600;
+const MAX_TEST_OUTPUT_LENGTH = 4000;
+// Untracked files larger than this are counted as changed without line counts
+const MAX_UNTRACKED_FILE_BYTES = 1024 * 1024;
+
+export interface StartComparisonInput {
+	projectPath: string;
+	/** One attempt per agent profile; the same profile may appear twice */
+	agentIds: string[];
+	prompt?: string;
+	promptTemplate?: string;
+	tdTaskId?: string;
+	/** Branch the attempts start from (default: the project's default branch) */
+	baseBranch?: string;
+}
+
+export type ComparisonRunResult =
+	| {ok: true; run: ComparisonRunRecord; warnings?: string[]}
+	| {
+			ok: false;
+			statusCode: 400 | 404 | 409 | 503;
+			error: string;
+			/** Set when keeping an attempt would conflict with the base branch */
+			conflicts?: MergeConflictCheck;
+	  };
+
+export interface ComparisonAttemptLaunch {
+	run: ComparisonRunRecord;
+	attempt: ComparisonAttempt;
+	attemptIndex: number;
+	worktreePath: string;
+	/** Rendered prompt; unset when a TD prompt template renders it at launch */
+	initialPrompt?: string;
+}
+
+/**
+ * Hooks the runner needs from the server: worktrees, sessions, merging and
+ * reading token usage.
+ */
+export interface ComparisonLauncher {
+	getDefaultBranch(projectPath: string): Promise<string>;
+	/** @returns path of the new worktree, branched off baseBranch */
+	createWorktree(
+		projectPath: string,
+		branch: string,
+		baseBranch: string,
+	): Promise<string>;
+	/** @returns id of the started session; rejects when the launch failed */
+	launchSession(launch: ComparisonAttemptLaunch): Promise<string>;
+	stopSession(sessionId: string): void;
+	mergeBranch(
+		projectPath: string,
+		sourceBranch: string,
+		targetBranch: string,
+	): Promise<void>;
+	/** Removes the worktree together with its branch */
+	deleteWorktree(projectPath: string, worktreePath: string): Promise<void>;
+	/** Re-read token and cost usage from the agents' session files */
+	refreshUsage(sessionIds: string[]): Promise<void>;
+}
+
+export interface ChangedFileStats {
+	path: string;
+	/** null for binary files */
+	additions: number | null;
+	deletions: number | null;
+	untracked: boolean;
+}
+
+export interface WorktreeChangeStats {
+	files: ChangedFileStats[];
+	additions: number;
+	deletions: number;
+}
+
+export interface ComparisonAttemptReport extends ComparisonAttempt {
+	agentName: string;
+	changes: WorktreeChangeStats | null;
+	totalTokens: number | null;
+	estimatedCostUsd: number | null;
+	/** Seconds from the session start until it ended, or until now */
+	durationSeconds: number | null;
+	busySeconds: number | null;
+}
+
+export interface ComparisonReport {
+	run: ComparisonRunRecord;
+	attempts: ComparisonAttemptReport[];
+}
+
+function toUnixSeconds(timestampMs = Date.now()): number {
+	return Math.floor(timestampMs / 1000);
+}
+
+function slugify(value: string): string {
+	return (
+		value
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, '-')
+			.replace(/^-+|-+$/g, '') || 'agent'
+	);
+}
+
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+function tail(output: string): string {
+	const trimmed = output.trim();
+	return trimmed.length > MAX_TEST_OUTPUT_LENGTH
+		? `…${trimmed.slice(-MAX_TEST_OUTPUT_LENGTH)}`
+		: trimmed;
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+	const {stdout} = await execFileAsync('git', args, {
+		cwd,
+		encoding: 'utf8',
+		timeout: GIT_TIMEOUT_MS,
+		maxBuffer: 64 * 1024 * 1024,
+	});
+	return stdout;
+}
+
+/**
+ * A commit of everything in the worktree, including uncommitted and untracked
+ * files, made through a scratch index so neither the branch nor the
+ * worktree's index changes. The branch head itself when nothing is pending.
+ */
+async function snapshotWorktree(
+	worktreePath: string,
+	branch: string,
+): Promise<string> {
+	if (!(await git(worktreePath, ['status', '--porcelain'])).trim()) {
+		return branch;
+	}
+	const indexPath = path.resolve(
+		worktreePath,
+		(
+			await git(worktreePath, ['rev-parse', '--git-path', 'cacd-ab-index'])
+		).trim(),
+	);
+	const options = {
+		cwd: worktreePath,
+		encoding: 'utf8' as const,
+		timeout: GIT_TIMEOUT_MS,
+		env: {...process.env, GIT_INDEX_FILE: indexPath},
+	};
+	try {
+		await execFileAsync('git', ['read-tree', 'HEAD'], options);
+		await execFileAsync('git', ['add', '-A'], options);
+		const {stdout: tree} = await execFileAsync('git', ['write-tree'], options);
+		const {stdout: commit} = await execFileAsync(
+			'git',
+			['commit-tree', tree.trim(), '-p', 'HEAD', '-m', 'A/B snapshot'],
+			options,
+		);
+		return commit.trim();
+	} finally {
+		rmSync(indexPath, {force: true});
+	}
+}
+
+/**
+ * Per-file line counts of everything a worktree changed since it branched off
+ * baseBranch: commits, uncommitted edits and untracked files.
+ */
+export async function getWorktreeChangeStats(
+	worktreePath: string,
+	baseBranch: string,
+): Promise<WorktreeChangeStats> {
+	const base = (
+		await git(worktreePath, ['merge-base', baseBranch, 'HEAD']).catch(
+			() => 'HEAD',
+		)
+	).trim();
+
+	const files: ChangedFileStats[] = [];
+	const numstat = await git(worktreePath, ['diff', '--numstat', base]);
+	for (const line of numstat.split('\n')) {
+		const [added, deleted, ...rest] = line.split('\t');
+		if (!added || !deleted || rest.length === 0) continue;
+		files.push({
+			path: rest.join('\t'),
+			additions: added === '-' ? null : Number(added),
+			deletions: deleted === '-' ? null : Number(deleted),
+			untracked: false,
+		});
+	}
+
+	const untracked = (
+		await git(worktreePath, ['ls-files', '--others', '--exclude-standard'])
+	)
+		.split('\n')
+		.filter(Boolean);
+	for (const file of untracked) {
+		let additions: number | null = null;
+		try {
+			const content = readFileSync(path.join(worktreePath, file));
+			if (content.length <= MAX_UNTRACKED_FILE_BYTES && !content.includes(0)) {
+				const text = content.toString('utf8');
+				additions = text.split('\n').length - (text.endsWith('\n') ? 1 : 0);
+			}
+		} catch {
+			// Deleted while we looked; still report it as changed
+		}
+		files.push({path: file, additions, deletions: 0, untracked: true});
+	}
+
+	return {
+		files,
+		additions: files.reduce((sum, file) => sum + (file.additions ?? 0), 0),
+		deletions: files.reduce((sum, file) => sum + (file.deletions ?? 0), 0),
+	};
+}
+
+/**
+ * A/B runs: the same task handed to several agents, each in its own worktree
+ * off the same base branch. The runner reports changes, test results, usage
+ * and time per attempt, and keeps the winner by merging its branch into the
+ * base branch and deleting the other worktrees. Runs are stored in
+ * sessions.db.
+ */
+export class ComparisonRunner {
+	private launcher: ComparisonLauncher | undefined;
+	private onChange: (() => void) | undefined;
+	/** Runs with an operation in flight (tests, keep, discard) */
+	private readonly busy = new Set<string>();
+
+	constructor(private readonly store: SessionStore = sessionStore) {}
+
+	start(launcher: ComparisonLauncher, options: {onChange?: () => void} = {}) {
+		this.launcher = launcher;
+		this.onChange = options.onChange;
+	}
+
+	listRuns(filters: ComparisonRunFilters = {}): ComparisonRunRecord[] {
+		return this.store.listComparisonRuns(filters);
+	}
+
+	async startRun(input: StartComparisonInput): Promise<ComparisonRunResult> {
+		const projectPath = input.projectPath?.trim();
+		const agentIds = Array.isArray(input.agentIds)
+			? input.agentIds.map(id => id?.trim()).filter(Boolean)
+			: [];
+		const prompt = input.prompt?.trim() || undefined;
+		const promptTemplate = input.promptTemplate?.trim() || undefined;
+		const tdTaskId = input.tdTaskId?.trim() || undefined;
+		if (!projectPath) {
+			return {ok: false, statusCode: 400, error: 'projectPath is required'};
+		}
+		if (agentIds.length < 2) {
+			return {
+				ok: false,
+				statusCode: 400,
+				error: 'Pick at least two agents to compare',
+			};
+		}
+		if (!prompt && !promptTemplate && !tdTaskId) {
+			return {
+				ok: false,
+				statusCode: 400,
+				error: 'A prompt, prompt template or TD task is required',
+			};
+		}
+		const missing = agentIds.find(id => !configurationManager.getAgentById(id));
+		if (missing) {
+			return {
+				ok: false,
+				statusCode: 400,
+				error: `Agent not found: ${missing}`,
+			};
+		}
+		const launcher = this.launcher;
+		if (!launcher) {
+			return {
+				ok: false,
+				statusCode: 503,
+				error: 'Comparison runner is not started',
+			};
+		}
+
+		let initialPrompt = prompt;
+		if (!initialPrompt && promptTemplate && !tdTaskId) {
+			const found = findPromptTemplateByName(
+				loadPromptTemplatesByScope(projectPath, 'effective'),
+				promptTemplate,
+			);
+			if (!found) {
+				return {
+					ok: false,
+					statusCode: 404,
+					error: `Prompt template "${promptTemplate}" not found`,
+				};
+			}
+			initialPrompt = found.content.trim();
+		}
+
+		let baseBranch = input.baseBranch?.trim();
+		if (!baseBranch) {
+			try {
+				baseBranch = await launcher.getDefaultBranch(projectPath);
+			} catch (error) {
+				return {ok: false, statusCode: 400, error: errorMessage(error)};
+			}
+		}
+
+		const id = randomUUID();
+		let run = this.store.createComparisonRun({
+			id,
+			projectPath,
+			baseBranch,
+			tdTaskId,
+			prompt,
+			promptTemplate,
+			attempts: agentIds.map((agentId, index) => ({
+				agentId,
+				branch: `ab/${id.slice(0, 8)}-${index + 1}-${slugify(agentId)}`,
+				status: 'pending',
+				sessionId: null,
+				worktreePath: null,
+				error: null,
+				startedAt: null,
+				test: null,
+			})),
+		});
+		logger.info(
+			`[Comparison] Started run ${run.id} with ${agentIds.join(', ')} off ${baseBranch}`,
+		);
+		this.onChange?.();
+
+		for (const [index, attempt] of run.attempts.entries()) {
+			let patch: Partial<ComparisonAttempt>;
+			try {
+				const worktreePath = await launcher.createWorktree(
+					projectPath,
+					attempt.branch,
+					baseBranch,
+				);
+				try {
+					const sessionId = await launcher.launchSession({
+						run,
+						attempt,
+						attemptIndex: index,
+						worktreePath,
+						initialPrompt,
+					});
+					patch = {
+						status: 'running',
+						sessionId,
+						worktreePath,
+						startedAt: toUnixSeconds(),
+					};
+				} catch (error) {
+					patch = {status: 'failed', worktreePath, error: errorMessage(error)};
+				}
+			} catch (error) {
+				patch = {status: 'failed', error: errorMessage(error)};
+			}
+			if (patch.error) {
+				logger.warn(
+					`[Comparison] Run ${run.id} attempt ${index + 1} failed: ${patch.error}`,
+				);
+			}
+			run = this.updateAttempt(run.id, index, patch) ?? run;
+		}
+
+		if (run.attempts.every(attempt => attempt.status === 'failed')) {
+			run =
+				this.store.updateComparisonRun(run.id, {
+					status: 'failed',
+					error: 'No attempt could be started',
+				}) ?? run;
+			this.onChange?.();
+		}
+		return {ok: true, run};
+	}
+
+	/** Changes, usage and time of each attempt, read fresh from the worktrees. */
+	async getReport(id: string): Promise<ComparisonReport | null> {
+		const run = this.store.getComparisonRun(id);
+		if (!run) return null;
+
+		const sessionIds = run.attempts
+			.map(attempt => attempt.sessionId)
+			.filter((sessionId): sessionId is string => !!sessionId);
+		if (sessionIds.length > 0) {
+			await this.launcher?.refreshUsage(sessionIds).catch(error => {
+				logger.warn(
+					`[Comparison] Failed to refresh usage for ${id}: ${String(error)}`,
+				);
+			});
+		}
+
+		const now = toUnixSeconds();
+		const attempts = await Promise.all(
+			run.attempts.map(async attempt => {
+				let changes: WorktreeChangeStats | null = null;
+				if (attempt.worktreePath && existsSync(attempt.worktreePath)) {
+					changes = await getWorktreeChangeStats(
+						attempt.worktreePath,
+						run.baseBranch,
+					).catch(() => null);
+				}
+				const session = attempt.sessionId
+					? this.store.getSessionById(attempt.sessionId)
+					: null;
+				const usage = attempt.sessionId
+					? this.store.getSessionUsage(attempt.sessionId)
+					: null;
+				const budget = attempt.sessionId
+					? this.store.getSessionBudget(attempt.sessionId)
+					: null;
+				return {
+					...attempt,
+					agentName:
+						configurationManager.getAgentById(attempt.agentId)?.name ??
+						attempt.agentId,
+					changes,
+					totalTokens: usage?.totalTokens ?? null,
+					estimatedCostUsd: usage?.estimatedCostUsd ?? null,
+					durationSeconds: session
+						? Math.max((session.endedAt ?? now) - session.createdAt, 0)
+						: null,
+					busySeconds: budget ? Math.round(budget.busySeconds) : null,
+				};
+			}),
+		);
+		return {run, attempts};
+	}
+
+	/**
+	 * Run the project's `scripts.test` command in every attempt's worktree, one
+	 * after another, and record whether it passed.
+	 */
+	async runTests(id: string): Promise<ComparisonRunResult> {
+		const guard = this.guard(id);
+		if (!guard.ok) return guard;
+		let run = guard.run;
+
+		const scripts = loadProjectConfig(run.projectPath)?.scripts;
+		const command = scripts?.test?.trim();
+		if (!command) {
+			return {
+				ok: false,
+				statusCode: 400,
+				error: 'No test command configured (scripts.test in .cacd.json)',
+			};
+		}
+		const timeoutMs =
+			(scripts?.testTimeout && scripts.testTimeout > 0
+				? scripts.testTimeout
+				: DEFAULT_TEST_TIMEOUT_SECONDS) * 1000;
+
+		this.busy.add(id);
+		try {
+			for (const [index, attempt] of run.attempts.entries()) {
+				if (!attempt.worktreePath || !existsSync(attempt.worktreePath)) {
+					continue;
+				}
+				const started = Date.now();
+				const result = await Effect.runPromise(
+					Effect.either(
+						runHookCommand(
+							command,
+							attempt.worktreePath,
+							{
+								...buildHookEnvironment({
+									rootPath: run.projectPath,
+									worktreePath: attempt.worktreePath,
+									worktreeName: path.basename(attempt.worktreePath),
+									branch: attempt.branch,
+								}),
+								CACD_WORKTREE_PATH: attempt.worktreePath,
+								CACD_WORKTREE_BRANCH: attempt.branch,
+								CACD_GIT_ROOT: run.projectPath,
+								CACD_BASE_BRANCH: run.baseBranch,
+							},
+							timeoutMs,
+						),
+					),
+				);
+				const output =
+					result._tag === 'Right'
+						? `${result.right.stdout}\n${result.right.stderr}`
+						: result.left.message;
+				run =
+					this.updateAttempt(run.id, index, {
+						test: {
+							passed: result._tag === 'Right',
+							output: tail(output),
+							durationMs: Date.now() - started,
+							finishedAt: toUnixSeconds(),
+						},
+					}) ?? run;
+			}
+		} finally {
+			this.busy.delete(id);
+		}
+		return {ok: true, run};
+	}
+
+	/**
+	 * Keep one attempt: stop every attempt's session, commit the winner's
+	 * uncommitted changes, merge its branch into the base branch and delete
+	 * the other attempts' worktrees and branches. The winner's worktree stays.
+	 */
+	async keep(id: string, attemptIndex: number): Promise<ComparisonRunResult> {
+		const guard = this.guard(id);
+		if (!guard.ok) return guard;
+		const {run, launcher} = guard;
+		const winner = run.attempts[attemptIndex];
+		if (!winner) {
+			return {ok: false, statusCode: 400, error: 'Attempt not found'};
+		}
+		if (!winner.worktreePath || !existsSync(winner.worktreePath)) {
+			return {
+				ok: false,
+				statusCode: 409,
+				error: 'This attempt has no worktree to keep',
+			};
+		}
+
+		this.busy.add(id);
+		try {
+			// A conflicting merge would be left in progress in the base branch's
+			// worktree with every agent already stopped, so check it first
+			let conflicts: MergeConflictCheck;
+			try {
+				conflicts = await mergeConflictService.check(
+					run.projectPath,
+					await snapshotWorktree(winner.worktreePath, winner.branch),
+					run.baseBranch,
+				);
+			} catch (error) {
+				return {
+					ok: false,
+					statusCode: 409,
+					error: `Could not check ${winner.branch} for merge conflicts: ${errorMessage(error)}`,
+				};
+			}
+			if (!conflicts.clean) {
+				return {
+					ok: false,
+					statusCode: 409,
+					error: `Merging ${winner.branch} into ${run.baseBranch} conflicts in ${conflicts.files.map(file => file.path).join(', ')}`,
+					conflicts: {...conflicts, sourceBranch: winner.branch},
+				};
+			}
+
+			this.stopSessions(run);
+
+			const agentName =
+				configurationManager.getAgentById(winner.agentId)?.name ??
+				winner.agentId;
+			try {
+				const status = await git(winner.worktreePath, [
+					'status',
+					'--porcelain',
+				]);
+				if (status.trim()) {
+					await git(winner.worktreePath, ['add', '-A']);
+					await git(winner.worktreePath, [
+						'commit',
+						'-m',
+						`${run.tdTaskId ? `${run.tdTaskId}: ` : ''}Changes by ${agentName} (A/B run ${run.id.slice(0, 8)})`,
+					]);
+				}
+				await launcher.mergeBranch(
+					run.projectPath,
+					winner.branch,
+					run.baseBranch,
+				);
+			} catch (error) {
+				const message = errorMessage(error);
+				logger.warn(`[Comparison] Failed to keep ${winner.branch}: ${message}`);
+				return {
+					ok: false,
+					statusCode: 409,
+					error: `Failed to merge ${winner.branch} into ${run.baseBranch}: ${message}`,
+				};
+			}
+
+			const warnings = await this.deleteAttempts(launcher, run, attemptIndex);
+			const kept = this.store.updateComparisonRun(id, {
+				status: 'kept',
+				keptBranch: winner.branch,
+				attempts: run.attempts.map((attempt, index) => ({
+					...attempt,
+					status: index === attemptIndex ? 'kept' : 'discarded',
+				})),
+			});
+			logger.info(
+				`[Comparison] Run ${id}: kept ${winner.branch}, merged into ${run.baseBranch}`,
+			);
+			this.onChange?.();
+			return {ok: true, run: kept ?? run, warnings};
+		} finally {
+			this.busy.delete(id);
+		}
+	}
+
+	/** Stop every attempt and delete all of their worktrees and branches. */
+	async discard(id: string): Promise<ComparisonRunResult> {
+		const guard = this.guard(id);
+		if (!guard.ok) return guard;
+		const run = guard.run;
+
+		this.busy.add(id);
+		try {
+			this.stopSessions(run);
+			const warnings = await this.deleteAttempts(guard.launcher, run, null);
+			const discarded = this.store.updateComparisonRun(id, {
+				status: 'discarded',
+				attempts: run.attempts.map(attempt => ({
+					...attempt,
+					status: 'discarded',
+				})),
+			});
+			this.onChange?.();
+			return {ok: true, run: discarded ?? run, warnings};
+		} finally {
+			this.busy.delete(id);
+		}
+	}
+
+	handleSessionExit(sessionId: string): void {
+		for (const run of this.store.listComparisonRuns({status: 'running'})) {
+			const index = run.attempts.findIndex(
+				attempt =>
+					attempt.sessionId === sessionId && attempt.status === 'running',
+			);
+			if (index !== -1) {
+				this.updateAttempt(run.id, index, {status: 'exited'});
+				return;
+			}
+		}
+	}
+
+	/** The run, when it is still open and nothing else is working on it. */
+	private guard(
+		id: string,
+	):
+		| {ok: true; run: ComparisonRunRecord; launcher: ComparisonLauncher}
+		| Extract<ComparisonRunResult, {ok: false}> {
+		const launcher = this.launcher;
+		if (!launcher) {
+			return {
+				ok: false,
+				statusCode: 503,
+				error: 'Comparison runner is not started',
+			};
+		}
+		const run = this.store.getComparisonRun(id);
+		if (!run) {
+			return {ok: false, statusCode: 404, error: 'A/B run not found'};
+		}
+		if (run.status !== 'running') {
+			return {
+				ok: false,
+				statusCode: 409,
+				error: `A/B run is already ${run.status}`,
+			};
+		}
+		if (this.busy.has(id)) {
+			return {
+				ok: false,
+				statusCode: 409,
+				error: 'Another operation on this A/B run is in progress',
+			};
+		}
+		return {ok: true, run, launcher};
+	}
+
+	private stopSessions(run: ComparisonRunRecord): void {
+		for (const attempt of run.attempts) {
+			if (attempt.sessionId) {
+				this.launcher?.stopSession(attempt.sessionId);
+			}
+		}
+	}
+
+	/** @returns warnings for worktrees that could not be deleted */
+	private async deleteAttempts(
+		launcher: ComparisonLauncher,
+		run: ComparisonRunRecord,
+		keepIndex: number | null,
+	): Promise<string[]> {
+		const warnings: string[] = [];
+		for (const [index, attempt] of run.attempts.entries()) {
+			if (index === keepIndex || !attempt.worktreePath) continue;
+			if (!existsSync(attempt.worktreePath)) continue;
+			try {
+				await launcher.deleteWorktree(run.projectPath, attempt.worktreePath);
+			} catch (error) {
+				warnings.push(
+					`Failed to delete ${attempt.branch}: ${errorMessage(error)}`,
+				);
+			}
+		}
+		for (const warning of warnings) {
+			logger.warn(`[Comparison] ${warning}`);
+		}
+		return warnings;
+	}
+
+	/**
+	 * Patch one attempt of the stored run. Other attempts may have changed
+	 * while a caller awaited, e.g. a session exited, so never write back a
+	 * snapshot.
+	 */
+	private updateAttempt(
+		id: string,
+		index: number,
+		patch: Partial<ComparisonAttempt>,
+	): ComparisonRunRecord | null {
+		const run = this.store.getComparisonRun(id);
+		if (!run) return null;
+		const attempts = run.attempts.map((attempt, attemptIndex) =>
+			attemptIndex === index ? {...attempt, ...patch} : attempt,
+		);
+		const updated = this.store.updateComparisonRun(id, {attempts});
+		this.onChange?.();
+		return updated;
+	}
+}
+
+export const comparisonRunner = new ComparisonRunner();
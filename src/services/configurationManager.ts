@@ -13,6 +13,12 @@ import {
 	AgentConfig,
 	AgentsConfig,
 	DEFAULT_SHORTCUTS,
+	NotificationsConfig,
+	SessionHostConfig,
+	QueueConfig,
+	ForgeConfig,
+	HttpsConfig,
+	TrustedProxyConfig,
 	TdConfig,
 } from '../types/index.js';
 import {
@@ -299,6 +305,37 @@ export class ConfigurationManager {
 		this.setAutoApprovalConfig({...currentConfig, timeout});
 	}
 
+	getNotificationsConfig(): NotificationsConfig {
+		return this.config.notifications || {enabled: false};
+	}
+
+	setNotificationsConfig(notifications: NotificationsConfig): void {
+		this.config.notifications = notifications;
+		this.saveConfig();
+	}
+
+	getSessionHostConfig(): SessionHostConfig {
+		return this.config.sessionHost || {mode: 'pty'};
+	}
+
+	setSessionHostConfig(sessionHost: SessionHostConfig): void {
+		this.config.sessionHost = sessionHost;
+		this.saveConfig();
+	}
+
+	getQueueConfig(): QueueConfig {
+		return this.config.queue || {};
+	}
+
+	setQueueConfig(queue: QueueConfig): void {
+		this.config.queue = queue;
+		this.saveConfig();
+	}
+
+	getForgeConfig(): ForgeConfig {
+		return this.config.forge || {};
+	}
+
 	getTdConfig(): TdConfig {
 		return {
 			...DEFAULT_TD_CONFIG,
@@ -1246,6 +1283,14 @@ export class ConfigurationManager {
 		return this.config.port;
 	}
 
+	getHttpsConfig(): HttpsConfig {
+		return this.config.https || {enabled: false};
+	}
+
+	getTrustedProxyConfig(): TrustedProxyConfig {
+		return this.config.trustedProxy || {enabled: false};
+	}
+
 	/**
 	 * Set the port for the web interface.
 	 * Used to persist a randomly generated port on first run.
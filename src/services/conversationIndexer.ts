@@ -0,0 +1,93 @@
+import type {AgentAdapter} from '../adapters/index.js';
+import type {ConversationMessage} from '../adapters/types.js';
+import {
+	sessionStore,
+	SessionStore,
+	IndexedMessageInput,
+	MessageIndexCandidate,
+} from './sessionStore.js';
+import {SessionFilePoller} from './sessionFilePoller.js';
+import {logger} from '../utils/logger.js';
+
+const INDEX_POLL_INTERVAL_MS = 5 * 60 * 1000;
+const INDEX_INITIAL_DELAY_MS = 15 * 1000;
+
+function toIndexedMessage(message: ConversationMessage): IndexedMessageInput {
+	// Tool inputs carry file paths and commands, which are often what people
+	// search for ("which session touched the auth migration").
+	const toolText = (message.toolCalls || [])
+		.map(toolCall => [toolCall.name, toolCall.input].filter(Boolean).join(' '))
+		.join('\n');
+	return {
+		id: message.id,
+		role: message.role,
+		timestamp: message.timestamp,
+		content: [message.content, toolText].filter(Boolean).join('\n'),
+	};
+}
+
+/**
+ * Keeps the full-text message index in sessions.db in sync with agent session
+ * files. Transcripts are parsed with each agent's adapter and only re-indexed
+ * when the file's mtime changed since the last pass.
+ */
+export class ConversationIndexer extends SessionFilePoller<MessageIndexCandidate> {
+	private indexing: Promise<number> | undefined;
+
+	constructor(private readonly store: SessionStore = sessionStore) {
+		super({
+			name: 'ConversationIndexer',
+			initialDelayMs: INDEX_INITIAL_DELAY_MS,
+			intervalMs: INDEX_POLL_INTERVAL_MS,
+		});
+	}
+
+	protected poll(): Promise<number> {
+		return this.indexAll();
+	}
+
+	/**
+	 * Re-index every session whose agent file changed. Concurrent callers share
+	 * the pass already in flight so searches never see a half-built index.
+	 * @returns number of sessions that were re-indexed
+	 */
+	indexAll(): Promise<number> {
+		if (!this.indexing) {
+			this.indexing = this.runIndexPass().finally(() => {
+				this.indexing = undefined;
+			});
+		}
+		return this.indexing;
+	}
+
+	private async runIndexPass(): Promise<number> {
+		const indexed = await this.readChangedFiles(
+			this.store.listMessageIndexCandidates(),
+		);
+		if (indexed > 0) {
+			logger.info(
+				`[ConversationIndexer] Indexed messages for ${indexed} session(s)`,
+			);
+		}
+		return indexed;
+	}
+
+	protected getReadMtime(candidate: MessageIndexCandidate): number | null {
+		return candidate.indexedMtime;
+	}
+
+	protected async readFile(
+		candidate: MessageIndexCandidate,
+		adapter: AgentAdapter,
+		mtimeMs: number,
+	): Promise<void> {
+		const messages = await adapter.parseMessages(candidate.agentSessionPath);
+		this.store.replaceIndexedMessages(
+			candidate.sessionId,
+			messages.map(toIndexedMessage),
+			mtimeMs,
+		);
+	}
+}
+
+export const conversationIndexer = new ConversationIndexer();
@@ -101,6 +101,12 @@ export class CoreService extends EventEmitter {
 		this.sessionManager.on('sessionDestroyed', session =>
 			this.emit('sessionDestroyed', session),
 		);
+		this.sessionManager.on('autoApprovalDecision', (session, decision) =>
+			this.emit('autoApprovalDecision', session, decision),
+		);
+		this.sessionManager.on('autoApprovalOverridden', session =>
+			this.emit('autoApprovalOverridden', session),
+		);
 	}
 
 	private handleSessionExit(session: Session) {
@@ -0,0 +1,250 @@
+import {afterAll, beforeAll, beforeEach, describe, expect, it} from 'vitest';
+import {createServer, IncomingMessage, Server} from 'http';
+import type {AddressInfo} from 'net';
+import {
+	createForgeProvider,
+	ForgeRequestError,
+	parseRemoteUrl,
+	resolveForgeRepository,
+} from './forgeProvider.js';
+
+interface RecordedRequest {
+	method: string;
+	url: string;
+	headers: IncomingMessage['headers'];
+	body: unknown;
+}
+
+type StubRoute = (request: RecordedRequest) => {status: number; body: unknown};
+
+describe('parseRemoteUrl', () => {
+	it('parses scp, ssh and https remotes', () => {
+		expect(parseRemoteUrl('git@github.com:acme/app.git')).toEqual({
+			host: 'github.com',
+			path: 'acme/app',
+		});
+		expect(
+			parseRemoteUrl('ssh://git@gitlab.example.com:2222/group/sub/app.git'),
+		).toEqual({host: 'gitlab.example.com', path: 'group/sub/app'});
+		expect(parseRemoteUrl('https://codeberg.org/acme/app')).toEqual({
+			host: 'codeberg.org',
+			path: 'acme/app',
+		});
+		expect(parseRemoteUrl('/srv/git/app.git')).toBeNull();
+	});
+
+	it('detects the forge and honours overrides', () => {
+		expect(resolveForgeRepository('git@github.com:acme/app.git')).toEqual({
+			kind: 'github',
+			host: 'github.com',
+			path: 'acme/app',
+			apiUrl: 'https://api.github.com',
+		});
+		expect(resolveForgeRepository('https://git.example.com/acme/app')).toBe(
+			null,
+		);
+		expect(
+			resolveForgeRepository('https://git.example.com/acme/app', {
+				provider: 'gitea',
+				apiUrl: 'https://git.example.com/api/v1/',
+			}),
+		).toMatchObject({kind: 'gitea', apiUrl: 'https://git.example.com/api/v1'});
+	});
+});
+
+describe('forge providers against a stub server', () => {
+	let server: Server;
+	let apiUrl: string;
+	let routes: Record<string, StubRoute>;
+	let requests: RecordedRequest[];
+
+	beforeAll(async () => {
+		server = createServer((req, res) => {
+			let raw = '';
+			req.on('data', chunk => {
+				raw += chunk;
+			});
+			req.on('end', () => {
+				const recorded: RecordedRequest = {
+					method: req.method || 'GET',
+					url: req.url || '',
+					headers: req.headers,
+					body: raw ? JSON.parse(raw) : undefined,
+				};
+				requests.push(recorded);
+				const route = routes[`${recorded.method} ${recorded.url}`];
+				const {status, body} = route
+					? route(recorded)
+					: {status: 404, body: {message: 'Not Found'}};
+				res.writeHead(status, {'Content-Type': 'application/json'});
+				res.end(JSON.stringify(body));
+			});
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	afterAll(async () => {
+		await new Promise<void>(resolve => server.close(() => resolve()));
+	});
+
+	beforeEach(() => {
+		routes = {};
+		requests = [];
+	});
+
+	it('opens and reads GitHub pull requests', async () => {
+		routes['POST /repos/acme/app/pulls'] = () => ({
+			status: 201,
+			body: {
+				number: 42,
+				html_url: 'https://github.com/acme/app/pull/42',
+				title: 'Add login',
+				state: 'open',
+				draft: true,
+			},
+		});
+		routes['GET /repos/acme/app/pulls/42'] = () => ({
+			status: 200,
+			body: {
+				number: 42,
+				html_url: 'https://github.com/acme/app/pull/42',
+				title: 'Add login',
+				state: 'closed',
+				merged_at: '2026-01-01T00:00:00Z',
+			},
+		});
+		const provider = createForgeProvider(
+			{kind: 'github', host: 'github.com', path: 'acme/app', apiUrl},
+			'gh-token',
+		);
+
+		await expect(
+			provider.createPullRequest({
+				title: 'Add login',
+				body: 'Body',
+				sourceBranch: 'feature/login',
+				targetBranch: 'main',
+				draft: true,
+			}),
+		).resolves.toEqual({
+			number: 42,
+			url: 'https://github.com/acme/app/pull/42',
+			title: 'Add login',
+			state: 'draft',
+		});
+		expect(requests[0]?.headers['authorization']).toBe('Bearer gh-token');
+		expect(requests[0]?.body).toEqual({
+			title: 'Add login',
+			body: 'Body',
+			head: 'feature/login',
+			base: 'main',
+			draft: true,
+		});
+
+		await expect(provider.getPullRequest(42)).resolves.toMatchObject({
+			state: 'merged',
+		});
+	});
+
+	it('opens GitLab merge requests with the project path encoded', async () => {
+		routes['POST /projects/group%2Fsub%2Fapp/merge_requests'] = () => ({
+			status: 201,
+			body: {
+				iid: 7,
+				web_url: 'https://gitlab.example.com/group/sub/app/-/merge_requests/7',
+				title: 'Draft: Fix bug',
+				state: 'opened',
+				draft: true,
+			},
+		});
+		routes[
+			'GET /projects/group%2Fsub%2Fapp/merge_requests?state=opened&source_branch=fix%2Fbug'
+		] = () => ({status: 200, body: []});
+		const provider = createForgeProvider(
+			{
+				kind: 'gitlab',
+				host: 'gitlab.example.com',
+				path: 'group/sub/app',
+				apiUrl,
+			},
+			'gl-token',
+		);
+
+		await expect(provider.findOpenPullRequest('fix/bug')).resolves.toBeNull();
+		await expect(
+			provider.createPullRequest({
+				title: 'Fix bug',
+				body: 'Details',
+				sourceBranch: 'fix/bug',
+				targetBranch: 'main',
+				draft: true,
+			}),
+		).resolves.toMatchObject({number: 7, state: 'draft'});
+		expect(requests[1]?.headers['private-token']).toBe('gl-token');
+		expect(requests[1]?.body).toMatchObject({
+			title: 'Draft: Fix bug',
+			description: 'Details',
+			source_branch: 'fix/bug',
+		});
+	});
+
+	it('finds open Gitea pull requests by head branch', async () => {
+		routes['GET /repos/acme/app/pulls?state=open&limit=50'] = () => ({
+			status: 200,
+			body: [
+				{
+					number: 3,
+					html_url: 'https://git.example.com/acme/app/pulls/3',
+					title: 'Other',
+					state: 'open',
+					head: {ref: 'other'},
+				},
+				{
+					number: 4,
+					html_url: 'https://git.example.com/acme/app/pulls/4',
+					title: 'Mine',
+					state: 'open',
+					head: {ref: 'feature/mine'},
+				},
+			],
+		});
+		const provider = createForgeProvider(
+			{kind: 'gitea', host: 'git.example.com', path: 'acme/app', apiUrl},
+			'gt-token',
+		);
+
+		await expect(
+			provider.findOpenPullRequest('feature/mine'),
+		).resolves.toMatchObject({number: 4, title: 'Mine', state: 'open'});
+		expect(requests[0]?.headers['authorization']).toBe('token gt-token');
+	});
+
+	it('surfaces forge error messages', async () => {
+		routes['POST /repos/acme/app/pulls'] = () => ({
+			status: 422,
+			body: {
+				message: 'Validation Failed',
+				errors: [{message: 'No commits between main and feature/empty'}],
+			},
+		});
+		const provider = createForgeProvider(
+			{kind: 'github', host: 'github.com', path: 'acme/app', apiUrl},
+			'gh-token',
+		);
+
+		const error = await provider
+			.createPullRequest({
+				title: 'Empty',
+				body: '',
+				sourceBranch: 'feature/empty',
+				targetBranch: 'main',
+			})
+			.catch(caught => caught);
+		expect(error).toBeInstanceOf(ForgeRequestError);
+		expect(error.status).toBe(422);
+		expect(error.message).toContain(
+			'Validation Failed; No commits between main and feature/empty',
+		);
+	});
+});
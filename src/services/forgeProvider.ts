@@ -0,0 +1,476 @@
+import {URL} from 'url';
+import type {ForgeKind} from '../types/index.js';
+import type {PullRequestState} from './sessionStore.js';
+
+const REQUEST_TIMEOUT_MS = 15000;
+const TOKEN_ENV_VARS: Record<ForgeKind, string[]> = {
+	github: ['GITHUB_TOKEN', 'GH_TOKEN'],
+	gitlab: ['GITLAB_TOKEN'],
+	gitea: ['GITEA_TOKEN'],
+};
+
+/** A repository on a forge, resolved from a git remote. */
+export interface ForgeRepository {
+	kind: ForgeKind;
+	host: string;
+	/** owner/repo, or the full namespace path on GitLab */
+	path: string;
+	apiUrl: string;
+}
+
+export interface CreatePullRequestInput {
+	title: string;
+	body: string;
+	sourceBranch: string;
+	targetBranch: string;
+	draft?: boolean;
+}
+
+export interface PullRequestInfo {
+	number: number;
+	url: string;
+	title: string;
+	state: PullRequestState;
+}
+
+/**
+ * The operations cacd needs from a forge. GitLab calls them merge requests;
+ * `number` is the project-scoped id (iid) there.
+ */
+export interface ForgeProvider {
+	readonly kind: ForgeKind;
+	readonly repository: ForgeRepository;
+	createPullRequest(input: CreatePullRequestInput): Promise<PullRequestInfo>;
+	getPullRequest(number: number): Promise<PullRequestInfo>;
+	/** Open pull request from the given branch, if one already exists */
+	findOpenPullRequest(sourceBranch: string): Promise<PullRequestInfo | null>;
+}
+
+export class ForgeRequestError extends Error {
+	status: number;
+
+	constructor(message: string, status: number) {
+		super(message);
+		this.name = 'ForgeRequestError';
+		this.status = status;
+	}
+}
+
+/**
+ * Split a git remote URL into host and repository path. Handles scp-style
+ * (`git@host:owner/repo.git`), ssh:// and http(s):// remotes.
+ */
+export function parseRemoteUrl(
+	remoteUrl: string,
+): {host: string; path: string} | null {
+	const trimmed = remoteUrl.trim();
+	const scpStyle = trimmed.match(/^(?:[^@/\s]+@)?([^:/\s]+):(?!\/)(.+)$/);
+	let host: string;
+	let repoPath: string;
+
+	if (/^[a-z+]+:\/\//i.test(trimmed)) {
+		try {
+			const url = new URL(trimmed);
+			host = url.hostname;
+			repoPath = url.pathname;
+		} catch {
+			return null;
+		}
+	} else if (scpStyle) {
+		host = scpStyle[1] as string;
+		repoPath = scpStyle[2] as string;
+	} else {
+		return null;
+	}
+
+	repoPath = repoPath.replace(/^\/+|\/+$/g, '').replace(/\.git$/, '');
+	if (!host || !repoPath.includes('/')) {
+		return null;
+	}
+	return {host, path: repoPath};
+}
+
+/** Guess the forge from well-known hostnames. */
+export function detectForgeKind(host: string): ForgeKind | null {
+	const lower = host.toLowerCase();
+	if (lower === 'github.com' || lower.startsWith('github.')) return 'github';
+	if (lower.includes('gitlab')) return 'gitlab';
+	if (lower.includes('gitea') || lower === 'codeberg.org') return 'gitea';
+	return null;
+}
+
+export function defaultForgeApiUrl(kind: ForgeKind, host: string): string {
+	switch (kind) {
+		case 'github':
+			// GitHub Enterprise serves the REST API under /api/v3
+			return host === 'github.com'
+				? 'https://api.github.com'
+				: `https://${host}/api/v3`;
+		case 'gitlab':
+			return `https://${host}/api/v4`;
+		case 'gitea':
+			return `https://${host}/api/v1`;
+	}
+}
+
+/**
+ * Resolve the forge repository behind a remote URL. `provider` and `apiUrl`
+ * override detection for self-hosted instances.
+ * @returns null when the remote cannot be parsed or the forge is unknown
+ */
+export function resolveForgeRepository(
+	remoteUrl: string,
+	options: {provider?: ForgeKind; apiUrl?: string} = {},
+): ForgeRepository | null {
+	const remote = parseRemoteUrl(remoteUrl);
+	if (!remote) return null;
+	const kind = options.provider || detectForgeKind(remote.host);
+	if (!kind) return null;
+	return {
+		kind,
+		host: remote.host,
+		path: remote.path,
+		apiUrl: (options.apiUrl || defaultForgeApiUrl(kind, remote.host)).replace(
+			/\/+$/,
+			'',
+		),
+	};
+}
+
+/**
+ * Whether the API is served by the remote's own forge: its default API URL
+ * or any URL on the remote's host.
+ */
+export function isApiUrlOnRemoteHost(repository: ForgeRepository): boolean {
+	if (
+		repository.apiUrl === defaultForgeApiUrl(repository.kind, repository.host)
+	) {
+		return true;
+	}
+	try {
+		return (
+			new URL(repository.apiUrl).hostname.toLowerCase() ===
+			repository.host.toLowerCase()
+		);
+	} catch {
+		return false;
+	}
+}
+
+export function forgeTokenFromEnv(kind: ForgeKind): string | undefined {
+	for (const name of TOKEN_ENV_VARS[kind]) {
+		const value = process.env[name]?.trim();
+		if (value) return value;
+	}
+	return undefined;
+}
+
+abstract class RestForgeProvider implements ForgeProvider {
+	abstract readonly kind: ForgeKind;
+
+	constructor(
+		readonly repository: ForgeRepository,
+		protected readonly token: string,
+	) {}
+
+	abstract createPullRequest(
+		input: CreatePullRequestInput,
+	): Promise<PullRequestInfo>;
+	abstract getPullRequest(number: number): Promise<PullRequestInfo>;
+	abstract findOpenPullRequest(
+		sourceBranch: string,
+	): Promise<PullRequestInfo | null>;
+
+	protected abstract authHeaders(): Record<string, string>;
+
+	protected async request<T>(
+		method: 'GET' | 'POST',
+		apiPath: string,
+		body?: unknown,
+	): Promise<T> {
+		const response = await globalThis.fetch(
+			`${this.repository.apiUrl}${apiPath}`,
+			{
+				method,
+				headers: {
+					Accept: 'application/json',
+					'User-Agent': 'cacd',
+					...(body === undefined ? {} : {'Content-Type': 'application/json'}),
+					...this.authHeaders(),
+				},
+				body: body === undefined ? undefined : JSON.stringify(body),
+				signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+			},
+		);
+		const text = await response.text();
+		let data: unknown = null;
+		try {
+			data = text ? JSON.parse(text) : null;
+		} catch {
+			// Non-JSON error pages fall through to the status message
+		}
+		if (!response.ok) {
+			throw new ForgeRequestError(
+				`${this.kind} API ${method} ${apiPath} failed (${response.status}): ${describeErrorBody(data, text)}`,
+				response.status,
+			);
+		}
+		return data as T;
+	}
+}
+
+function describeErrorBody(data: unknown, text: string): string {
+	if (data && typeof data === 'object') {
+		const record = data as Record<string, unknown>;
+		const message = record['message'] ?? record['error'];
+		const details = Array.isArray(record['errors'])
+			? record['errors']
+					.map(entry =>
+						entry && typeof entry === 'object'
+							? String((entry as Record<string, unknown>)['message'] ?? '')
+							: String(entry),
+					)
+					.filter(Boolean)
+			: [];
+		const parts = [
+			typeof message === 'string' ? message : JSON.stringify(message ?? ''),
+			...details,
+		].filter(part => part && part !== '""');
+		if (parts.length > 0) return parts.join('; ');
+	}
+	return text.slice(0, 200) || 'no response body';
+}
+
+interface GitHubPull {
+	number: number;
+	html_url: string;
+	title: string;
+	state: 'open' | 'closed';
+	draft?: boolean;
+	merged_at?: string | null;
+	merged?: boolean;
+}
+
+function githubState(pull: GitHubPull): PullRequestState {
+	if (pull.merged || pull.merged_at) return 'merged';
+	if (pull.state === 'closed') return 'closed';
+	return pull.draft ? 'draft' : 'open';
+}
+
+export class GitHubProvider extends RestForgeProvider {
+	readonly kind = 'github' as const;
+
+	protected authHeaders(): Record<string, string> {
+		return {
+			Authorization: `Bearer ${this.token}`,
+			Accept: 'application/vnd.github+json',
+		};
+	}
+
+	private get repoPath(): string {
+		return `/repos/${this.repository.path}`;
+	}
+
+	private toInfo(pull: GitHubPull): PullRequestInfo {
+		return {
+			number: pull.number,
+			url: pull.html_url,
+			title: pull.title,
+			state: githubState(pull),
+		};
+	}
+
+	async createPullRequest(
+		input: CreatePullRequestInput,
+	): Promise<PullRequestInfo> {
+		const pull = await this.request<GitHubPull>(
+			'POST',
+			`${this.repoPath}/pulls`,
+			{
+				title: input.title,
+				body: input.body,
+				head: input.sourceBranch,
+				base: input.targetBranch,
+				draft: input.draft ?? false,
+			},
+		);
+		return this.toInfo(pull);
+	}
+
+	async getPullRequest(number: number): Promise<PullRequestInfo> {
+		return this.toInfo(
+			await this.request<GitHubPull>('GET', `${this.repoPath}/pulls/${number}`),
+		);
+	}
+
+	async findOpenPullRequest(
+		sourceBranch: string,
+	): Promise<PullRequestInfo | null> {
+		const owner = this.repository.path.split('/')[0];
+		const pulls = await this.request<GitHubPull[]>(
+			'GET',
+			`${this.repoPath}/pulls?state=open&head=${encodeURIComponent(`${owner}:${sourceBranch}`)}`,
+		);
+		return pulls[0] ? this.toInfo(pulls[0]) : null;
+	}
+}
+
+interface GitLabMergeRequest {
+	iid: number;
+	web_url: string;
+	title: string;
+	state: 'opened' | 'closed' | 'merged' | 'locked';
+	draft?: boolean;
+	work_in_progress?: boolean;
+}
+
+export class GitLabProvider extends RestForgeProvider {
+	readonly kind = 'gitlab' as const;
+
+	protected authHeaders(): Record<string, string> {
+		return {'PRIVATE-TOKEN': this.token};
+	}
+
+	private get projectPath(): string {
+		return `/projects/${encodeURIComponent(this.repository.path)}`;
+	}
+
+	private toInfo(mergeRequest: GitLabMergeRequest): PullRequestInfo {
+		const state: PullRequestState =
+			mergeRequest.state === 'merged'
+				? 'merged'
+				: mergeRequest.state === 'opened'
+					? mergeRequest.draft || mergeRequest.work_in_progress
+						? 'draft'
+						: 'open'
+					: 'closed';
+		return {
+			number: mergeRequest.iid,
+			url: mergeRequest.web_url,
+			title: mergeRequest.title,
+			state,
+		};
+	}
+
+	async createPullRequest(
+		input: CreatePullRequestInput,
+	): Promise<PullRequestInfo> {
+		const mergeRequest = await this.request<GitLabMergeRequest>(
+			'POST',
+			`${this.projectPath}/merge_requests`,
+			{
+				// GitLab marks merge requests as drafts by title prefix
+				title: input.draft ? `Draft: ${input.title}` : input.title,
+				description: input.body,
+				source_branch: input.sourceBranch,
+				target_branch: input.targetBranch,
+			},
+		);
+		return this.toInfo(mergeRequest);
+	}
+
+	async getPullRequest(number: number): Promise<PullRequestInfo> {
+		return this.toInfo(
+			await this.request<GitLabMergeRequest>(
+				'GET',
+				`${this.projectPath}/merge_requests/${number}`,
+			),
+		);
+	}
+
+	async findOpenPullRequest(
+		sourceBranch: string,
+	): Promise<PullRequestInfo | null> {
+		const mergeRequests = await this.request<GitLabMergeRequest[]>(
+			'GET',
+			`${this.projectPath}/merge_requests?state=opened&source_branch=${encodeURIComponent(sourceBranch)}`,
+		);
+		return mergeRequests[0] ? this.toInfo(mergeRequests[0]) : null;
+	}
+}
+
+interface GiteaPull {
+	number: number;
+	html_url: string;
+	title: string;
+	state: 'open' | 'closed';
+	merged?: boolean;
+	draft?: boolean;
+	head?: {ref?: string};
+}
+
+export class GiteaProvider extends RestForgeProvider {
+	readonly kind = 'gitea' as const;
+
+	protected authHeaders(): Record<string, string> {
+		return {Authorization: `token ${this.token}`};
+	}
+
+	private get repoPath(): string {
+		return `/repos/${this.repository.path}`;
+	}
+
+	private toInfo(pull: GiteaPull): PullRequestInfo {
+		return {
+			number: pull.number,
+			url: pull.html_url,
+			title: pull.title,
+			state: pull.merged
+				? 'merged'
+				: pull.state === 'closed'
+					? 'closed'
+					: pull.draft
+						? 'draft'
+						: 'open',
+		};
+	}
+
+	async createPullRequest(
+		input: CreatePullRequestInput,
+	): Promise<PullRequestInfo> {
+		const pull = await this.request<GiteaPull>(
+			'POST',
+			`${this.repoPath}/pulls`,
+			{
+				// Gitea marks pull requests as work in progress by title prefix
+				title: input.draft ? `WIP: ${input.title}` : input.title,
+				body: input.body,
+				head: input.sourceBranch,
+				base: input.targetBranch,
+			},
+		);
+		return this.toInfo(pull);
+	}
+
+	async getPullRequest(number: number): Promise<PullRequestInfo> {
+		return this.toInfo(
+			await this.request<GiteaPull>('GET', `${this.repoPath}/pulls/${number}`),
+		);
+	}
+
+	async findOpenPullRequest(
+		sourceBranch: string,
+	): Promise<PullRequestInfo | null> {
+		// Gitea cannot filter the list by head branch
+		const pulls = await this.request<GiteaPull[]>(
+			'GET',
+			`${this.repoPath}/pulls?state=open&limit=50`,
+		);
+		const match = pulls.find(pull => pull.head?.ref === sourceBranch);
+		return match ? this.toInfo(match) : null;
+	}
+}
+
+export function createForgeProvider(
+	repository: ForgeRepository,
+	token: string,
+): ForgeProvider {
+	switch (repository.kind) {
+		case 'github':
+			return new GitHubProvider(repository, token);
+		case 'gitlab':
+			return new GitLabProvider(repository, token);
+		case 'gitea':
+			return new GiteaProvider(repository, token);
+	}
+}
@@ -0,0 +1,103 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {Effect} from 'effect';
+import {
+	GitStatusWatcher,
+	type WorktreeStatusUpdate,
+} from './gitStatusWatcher.js';
+import {createTempGitRepo, git} from '../utils/testHelpers.js';
+import {logger} from '../utils/logger.js';
+
+const {mockWatch} = vi.hoisted(() => ({mockWatch: vi.fn()}));
+
+vi.mock('fs', async importOriginal => {
+	const actual = await importOriginal<typeof import('fs')>();
+	return {...actual, watch: mockWatch};
+});
+
+vi.mock('../utils/worktreeConfig.js', () => ({
+	getWorktreeParentBranch: () => Effect.succeed(null),
+}));
+
+vi.mock('../utils/logger.js', () => ({
+	logger: {
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	},
+}));
+
+describe('GitStatusWatcher', () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let watcher: GitStatusWatcher;
+	let updates: WorktreeStatusUpdate[];
+
+	beforeEach(async () => {
+		const actualFs = await vi.importActual<typeof import('fs')>('fs');
+		mockWatch.mockReset().mockImplementation(actualFs.watch);
+		vi.mocked(logger.warn).mockClear();
+		({tmpDir, repoPath} = createTempGitRepo('cacd-status-watch-test-', {
+			'src/app.ts': 'one\n',
+		}));
+
+		watcher = new GitStatusWatcher({debounceMs: 20});
+		updates = [];
+		watcher.on('status', update => updates.push(update));
+	});
+
+	afterEach(() => {
+		watcher.stop();
+		fs.rmSync(tmpDir, {recursive: true, force: true});
+	});
+
+	it('pushes status changes from working tree edits and commits', async () => {
+		await watcher.sync([repoPath]);
+		expect((await watcher.getStatus(repoPath)).gitStatus).toMatchObject({
+			filesAdded: 0,
+			filesDeleted: 0,
+		});
+
+		fs.writeFileSync(path.join(repoPath, 'src', 'app.ts'), 'one\ntwo\n');
+		await vi.waitFor(() => expect(updates).toHaveLength(1), {timeout: 5000});
+		expect(updates[0]).toMatchObject({
+			worktreePath: repoPath,
+			gitStatus: {filesAdded: 1, filesDeleted: 0},
+		});
+		expect((await watcher.getStatus(repoPath)).gitStatus?.filesAdded).toBe(1);
+
+		git(repoPath, 'commit', '-am', 'Add two');
+		await vi.waitFor(() => expect(updates).toHaveLength(2), {timeout: 5000});
+		expect(updates[1]!.gitStatus).toMatchObject({filesAdded: 0});
+	});
+
+	it('stops watching worktrees dropped from the list', async () => {
+		await watcher.sync([repoPath]);
+		expect(watcher.isWatching(repoPath)).toBe(true);
+
+		await watcher.sync([]);
+		expect(watcher.isWatching(repoPath)).toBe(false);
+
+		fs.writeFileSync(path.join(repoPath, 'src', 'app.ts'), 'changed\n');
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(updates).toEqual([]);
+	});
+
+	it('warns once per worktree when directories cannot be watched', async () => {
+		mockWatch.mockImplementation(() => {
+			throw Object.assign(
+				new Error('ENOSPC: System limit for number of file watchers reached'),
+				{code: 'ENOSPC'},
+			);
+		});
+
+		await watcher.sync([repoPath]);
+		await watcher.refresh(repoPath);
+
+		expect(watcher.isWatching(repoPath)).toBe(true);
+		expect(logger.warn).toHaveBeenCalledTimes(1);
+		expect(vi.mocked(logger.warn).mock.calls[0]?.[0]).toContain('ENOSPC');
+	});
+});
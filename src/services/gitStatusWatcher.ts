@@ -0,0 +1,342 @@
+import {EventEmitter} from 'events';
+import {execFile} from 'child_process';
+import {promisify} from 'util';
+import {existsSync, watch, type FSWatcher} from 'fs';
+import {readdir} from 'fs/promises';
+import path from 'path';
+import {Effect} from 'effect';
+import type {GitError} from '../types/errors.js';
+import {getGitStatusLimited, type GitStatus} from '../utils/gitStatus.js';
+import {logger} from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+const GIT_TIMEOUT_MS = 10000;
+const DEBOUNCE_MS = 300;
+const RESYNC_INTERVAL_MS = 60 * 1000;
+const MAX_WATCHED_DIRECTORIES = 1000;
+
+export interface WorktreeStatusUpdate {
+	worktreePath: string;
+	gitStatus?: GitStatus;
+	gitStatusError?: string;
+}
+
+export interface GitStatusWatcherOptions {
+	debounceMs?: number;
+	/** Full recompute of every watched worktree, in case an event was missed */
+	resyncIntervalMs?: number;
+	maxDirectories?: number;
+}
+
+interface WatchedWorktree {
+	watchers: Map<string, FSWatcher>;
+	timer: NodeJS.Timeout | undefined;
+	/** Undefined until the first computation finished */
+	update: WorktreeStatusUpdate | undefined;
+	computing: Promise<WorktreeStatusUpdate> | undefined;
+	/** A change arrived while computing; compute again afterwards */
+	stale: boolean;
+	/** The index or refs changed, so tracked directories may have too */
+	rescan: boolean;
+	/** A watch failure was already logged for this worktree */
+	watchFailureLogged: boolean;
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+	const {stdout} = await execFileAsync('git', args, {
+		cwd,
+		encoding: 'utf8',
+		timeout: GIT_TIMEOUT_MS,
+		maxBuffer: 64 * 1024 * 1024,
+	});
+	return stdout;
+}
+
+async function listDirectoriesRecursive(root: string): Promise<string[]> {
+	const directories = [root];
+	for (let index = 0; index < directories.length; index++) {
+		const entries = await readdir(directories[index]!, {
+			withFileTypes: true,
+		}).catch(() => []);
+		for (const entry of entries) {
+			if (entry.isDirectory()) {
+				directories.push(path.join(directories[index]!, entry.name));
+			}
+		}
+	}
+	return directories;
+}
+
+function sameUpdate(a: WorktreeStatusUpdate, b: WorktreeStatusUpdate): boolean {
+	return (
+		a.gitStatusError === b.gitStatusError &&
+		JSON.stringify(a.gitStatus) === JSON.stringify(b.gitStatus)
+	);
+}
+
+/**
+ * Keeps git status of worktrees current without polling. Watches the
+ * directories holding tracked files plus the worktree's git dir and the
+ * branch refs, recomputes status when any of them change and emits a
+ * `status` event with the new status only when it actually differs.
+ */
+export class GitStatusWatcher extends EventEmitter {
+	private readonly worktrees = new Map<string, WatchedWorktree>();
+	private resyncTimer: NodeJS.Timeout | undefined;
+	private readonly debounceMs: number;
+	private readonly resyncIntervalMs: number;
+	private readonly maxDirectories: number;
+
+	constructor(
+		options: GitStatusWatcherOptions = {},
+		private readonly computeStatus: (
+			worktreePath: string,
+		) => Effect.Effect<GitStatus, GitError> = getGitStatusLimited,
+	) {
+		super();
+		this.debounceMs = options.debounceMs ?? DEBOUNCE_MS;
+		this.resyncIntervalMs = options.resyncIntervalMs ?? RESYNC_INTERVAL_MS;
+		this.maxDirectories = options.maxDirectories ?? MAX_WATCHED_DIRECTORIES;
+	}
+
+	/** Watches exactly these worktrees, closing watchers of all others. */
+	async sync(worktreePaths: string[]): Promise<void> {
+		const wanted = new Set(worktreePaths);
+		for (const worktreePath of this.worktrees.keys()) {
+			if (!wanted.has(worktreePath)) this.unwatch(worktreePath);
+		}
+		for (const worktreePath of wanted) {
+			if (!this.worktrees.has(worktreePath)) await this.watch(worktreePath);
+		}
+
+		if (this.worktrees.size > 0 && !this.resyncTimer) {
+			this.resyncTimer = setInterval(() => {
+				for (const worktreePath of this.worktrees.keys()) {
+					void this.refresh(worktreePath).catch(() => undefined);
+				}
+			}, this.resyncIntervalMs);
+			this.resyncTimer.unref();
+		}
+	}
+
+	async watch(worktreePath: string): Promise<void> {
+		if (this.worktrees.has(worktreePath) || !existsSync(worktreePath)) return;
+
+		this.worktrees.set(worktreePath, {
+			watchers: new Map(),
+			timer: undefined,
+			update: undefined,
+			computing: undefined,
+			stale: false,
+			rescan: false,
+			watchFailureLogged: false,
+		});
+		await this.updateWatchers(worktreePath);
+	}
+
+	unwatch(worktreePath: string): void {
+		const entry = this.worktrees.get(worktreePath);
+		if (!entry) return;
+
+		clearTimeout(entry.timer);
+		for (const watcher of entry.watchers.values()) watcher.close();
+		this.worktrees.delete(worktreePath);
+
+		if (this.worktrees.size === 0 && this.resyncTimer) {
+			clearInterval(this.resyncTimer);
+			this.resyncTimer = undefined;
+		}
+	}
+
+	isWatching(worktreePath: string): boolean {
+		return this.worktrees.has(worktreePath);
+	}
+
+	/** Cached status of a watched worktree, computed on first use. */
+	async getStatus(worktreePath: string): Promise<WorktreeStatusUpdate> {
+		const entry = this.worktrees.get(worktreePath);
+		if (!entry) return this.compute(worktreePath);
+		if (entry.computing) return entry.computing;
+		return entry.update ?? this.refresh(worktreePath);
+	}
+
+	stop(): void {
+		for (const worktreePath of [...this.worktrees.keys()]) {
+			this.unwatch(worktreePath);
+		}
+	}
+
+	/** Recomputes status and emits it when it changed. */
+	async refresh(worktreePath: string): Promise<WorktreeStatusUpdate> {
+		const entry = this.worktrees.get(worktreePath);
+		if (!entry) return this.compute(worktreePath);
+		if (entry.computing) {
+			entry.stale = true;
+			return entry.computing;
+		}
+
+		entry.computing = (async () => {
+			let update: WorktreeStatusUpdate;
+			do {
+				entry.stale = false;
+				if (entry.rescan) {
+					entry.rescan = false;
+					await this.updateWatchers(worktreePath);
+				}
+				update = await this.compute(worktreePath);
+			} while (entry.stale && this.worktrees.get(worktreePath) === entry);
+			return update;
+		})();
+
+		try {
+			const update = await entry.computing;
+			if (this.worktrees.get(worktreePath) !== entry) return update;
+			if (!existsSync(worktreePath)) {
+				// Deleted worktree; the next listing drops it for good
+				this.unwatch(worktreePath);
+				return update;
+			}
+
+			const previous = entry.update;
+			entry.update = update;
+			if (previous && !sameUpdate(previous, update)) {
+				this.emit('status', update);
+			}
+			return update;
+		} finally {
+			entry.computing = undefined;
+		}
+	}
+
+	private async compute(worktreePath: string): Promise<WorktreeStatusUpdate> {
+		const result = await Effect.runPromise(
+			Effect.either(this.computeStatus(worktreePath)),
+		);
+		return result._tag === 'Right'
+			? {worktreePath, gitStatus: result.right}
+			: {worktreePath, gitStatusError: result.left.message};
+	}
+
+	private schedule(worktreePath: string, rescan: boolean): void {
+		const entry = this.worktrees.get(worktreePath);
+		if (!entry) return;
+		if (rescan) entry.rescan = true;
+
+		clearTimeout(entry.timer);
+		entry.timer = setTimeout(() => {
+			entry.timer = undefined;
+			void this.refresh(worktreePath).catch(error => {
+				logger.debug(
+					`[GitStatusWatcher] Refresh failed for ${worktreePath}: ${String(error)}`,
+				);
+			});
+		}, this.debounceMs);
+	}
+
+	/**
+	 * Watches the directories holding tracked files (status ignores untracked
+	 * ones), the worktree's git dir for HEAD/index changes and the branch refs
+	 * that ahead/behind counts depend on.
+	 */
+	private async updateWatchers(worktreePath: string): Promise<void> {
+		const entry = this.worktrees.get(worktreePath);
+		if (!entry) return;
+
+		const directories = new Map<string, boolean>();
+		try {
+			const [gitDir, commonDir] = (
+				await git(worktreePath, [
+					'rev-parse',
+					'--absolute-git-dir',
+					'--git-common-dir',
+				])
+			)
+				.trim()
+				.split('\n')
+				.map(dir => path.resolve(worktreePath, dir));
+			for (const dir of [gitDir, commonDir]) {
+				if (dir) directories.set(dir, true);
+			}
+			if (commonDir) {
+				for (const dir of await listDirectoriesRecursive(
+					path.join(commonDir, 'refs', 'heads'),
+				)) {
+					directories.set(dir, true);
+				}
+			}
+
+			const trackedDirectories = new Set([worktreePath]);
+			for (const file of (await git(worktreePath, ['ls-files', '-z'])).split(
+				'\0',
+			)) {
+				if (file)
+					trackedDirectories.add(path.join(worktreePath, path.dirname(file)));
+			}
+			if (trackedDirectories.size > this.maxDirectories) {
+				logger.debug(
+					`[GitStatusWatcher] ${worktreePath} has ${trackedDirectories.size} tracked directories; watching only the top level`,
+				);
+				trackedDirectories.clear();
+				trackedDirectories.add(worktreePath);
+			}
+			for (const dir of trackedDirectories) {
+				if (!directories.has(dir)) directories.set(dir, false);
+			}
+		} catch (error) {
+			logger.debug(
+				`[GitStatusWatcher] Could not list ${worktreePath}: ${String(error)}`,
+			);
+			directories.set(worktreePath, false);
+		}
+
+		for (const [dir, watcher] of entry.watchers) {
+			if (!directories.has(dir)) {
+				watcher.close();
+				entry.watchers.delete(dir);
+			}
+		}
+		for (const [dir, isGitDir] of directories) {
+			if (entry.watchers.has(dir)) continue;
+			try {
+				const watcher = watch(dir, (_event, filename) => {
+					const name = filename?.toString() ?? '';
+					if (name.endsWith('.lock')) return;
+					// Nested git dirs of the main worktree are watched separately
+					if (!isGitDir && name === '.git') return;
+					this.schedule(worktreePath, isGitDir);
+				});
+				watcher.on('error', error => {
+					watcher.close();
+					entry.watchers.delete(dir);
+					this.warnWatchFailure(worktreePath, entry, error);
+					this.schedule(worktreePath, true);
+				});
+				entry.watchers.set(dir, watcher);
+			} catch (error) {
+				// A directory that vanished between listing and watching is fine
+				if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+					this.warnWatchFailure(worktreePath, entry, error);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Out of inotify watches (ENOSPC) or file descriptors (EMFILE) leaves
+	 * changes unnoticed until the next resync; say so once per worktree.
+	 */
+	private warnWatchFailure(
+		worktreePath: string,
+		entry: WatchedWorktree,
+		error: unknown,
+	): void {
+		if (entry.watchFailureLogged) return;
+		entry.watchFailureLogged = true;
+		logger.warn(
+			`[GitStatusWatcher] Cannot watch ${worktreePath} for changes (${error instanceof Error ? error.message : String(error)}); its status only updates on the periodic resync`,
+		);
+	}
+}
+
+export const gitStatusWatcher = new GitStatusWatcher();
@@ -0,0 +1,215 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {existsSync, unlinkSync} from 'fs';
+import path from 'path';
+import {tmpdir} from 'os';
+import {SessionStore} from './sessionStore.js';
+import {JobQueue, renderJobBranchTemplate} from './jobQueue.js';
+
+const {mockGetAgentById, mockGetQueueConfig, mockLoadProjectConfig} =
+	vi.hoisted(() => ({
+		mockGetAgentById: vi.fn(),
+		mockGetQueueConfig: vi.fn(),
+		mockLoadProjectConfig: vi.fn(),
+	}));
+
+vi.mock('./configurationManager.js', () => ({
+	configurationManager: {
+		getAgentById: mockGetAgentById,
+		getQueueConfig: mockGetQueueConfig,
+	},
+}));
+
+vi.mock('../utils/projectConfig.js', () => ({
+	loadProjectConfig: mockLoadProjectConfig,
+}));
+
+vi.mock('../utils/logger.js', () => ({
+	logger: {
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	},
+}));
+
+describe('JobQueue', () => {
+	const dbPath = path.join(
+		tmpdir(),
+		`cacd-job-queue-test-${process.pid}-${Date.now()}.db`,
+	);
+	let store: SessionStore;
+	let queue: JobQueue;
+
+	beforeEach(() => {
+		store = new SessionStore(dbPath);
+		queue = new JobQueue(store);
+		mockGetAgentById.mockReset().mockReturnValue({id: 'claude'});
+		mockGetQueueConfig.mockReset().mockReturnValue({});
+		mockLoadProjectConfig.mockReset().mockReturnValue(null);
+	});
+
+	afterEach(() => {
+		queue.stop();
+		store.close();
+		for (const suffix of ['', '-shm', '-wal']) {
+			const filePath = `${dbPath}${suffix}`;
+			if (existsSync(filePath)) {
+				unlinkSync(filePath);
+			}
+		}
+	});
+
+	it('validates jobs and derives the trigger', () => {
+		expect(queue.enqueue({projectPath: '/p', agentId: ''})).toEqual({
+			ok: false,
+			error: 'agentId is required',
+		});
+		expect(
+			queue.enqueue({projectPath: '/p', agentId: 'claude', cron: 'nope'}),
+		).toMatchObject({ok: false});
+		expect(
+			queue.enqueue({projectPath: '/p', agentId: 'claude', at: 'not a date'}),
+		).toMatchObject({ok: false, error: 'Invalid run time: not a date'});
+
+		const cronJob = queue.enqueue({
+			projectPath: '/p',
+			agentId: 'claude',
+			cron: '0 3 * * *',
+		});
+		expect(cronJob).toMatchObject({
+			ok: true,
+			job: {trigger: 'cron', cronExpression: '0 3 * * *'},
+		});
+		expect(
+			queue.enqueue({
+				projectPath: '/p',
+				agentId: 'claude',
+				at: '2030-01-01T09:00:00Z',
+			}),
+		).toMatchObject({
+			ok: true,
+			job: {trigger: 'at', runAt: Date.parse('2030-01-01T09:00:00Z') / 1000},
+		});
+		expect(queue.enqueue({projectPath: '/p', agentId: 'claude'})).toMatchObject(
+			{ok: true, job: {trigger: 'slot'}},
+		);
+	});
+
+	it('launches due jobs within the project concurrency limit', async () => {
+		mockLoadProjectConfig.mockReturnValue({queue: {maxConcurrentAgents: 2}});
+		const launch = vi.fn().mockResolvedValue('session-new');
+		const countActiveAgents = vi.fn().mockReturnValue(1);
+		queue.start({launch, countActiveAgents}, {intervalMs: 60_000});
+
+		for (let i = 0; i < 3; i++) {
+			store.createQueueJob({
+				id: `job-${i}`,
+				projectPath: '/p',
+				agentId: 'claude',
+				trigger: 'slot',
+				runAt: 1_000 + i,
+			});
+		}
+
+		expect(await queue.tick()).toBe(1);
+		expect(launch).toHaveBeenCalledTimes(1);
+		expect(launch.mock.calls[0]?.[0]).toMatchObject({id: 'job-0'});
+		expect(store.getQueueJob('job-0')?.status).toBe('launched');
+		expect(store.getQueueJob('job-1')?.status).toBe('pending');
+
+		// A slot frees up
+		countActiveAgents.mockReturnValue(0);
+		expect(await queue.tick()).toBe(2);
+		expect(store.listQueueJobs({status: 'pending'})).toEqual([]);
+	});
+
+	it('keeps cron jobs pending and records failures', async () => {
+		const launch = vi.fn().mockRejectedValue(new Error('Agent not found'));
+		queue.start({launch, countActiveAgents: () => 0}, {intervalMs: 60_000});
+		store.createQueueJob({
+			id: 'job-cron',
+			projectPath: '/p',
+			agentId: 'claude',
+			trigger: 'cron',
+			cronExpression: '*/5 * * * *',
+			runAt: 1_000,
+		});
+		store.createQueueJob({
+			id: 'job-once',
+			projectPath: '/p',
+			agentId: 'claude',
+			trigger: 'at',
+			runAt: 1_000,
+		});
+
+		expect(await queue.tick()).toBe(0);
+		const cronJob = store.getQueueJob('job-cron');
+		expect(cronJob).toMatchObject({
+			status: 'pending',
+			lastError: 'Agent not found',
+		});
+		expect(cronJob!.runAt).toBeGreaterThan(Date.now() / 1000);
+		expect(store.getQueueJob('job-once')).toMatchObject({
+			status: 'failed',
+			lastError: 'Agent not found',
+		});
+	});
+
+	it('does not launch or revive jobs cancelled during a pass', async () => {
+		const launch = vi.fn(async (job: {id: string}) => {
+			// Both jobs are cancelled while the cron job is launching
+			queue.cancel('job-cron');
+			queue.cancel('job-later');
+			return `session-${job.id}`;
+		});
+		queue.start({launch, countActiveAgents: () => 0}, {intervalMs: 60_000});
+		store.createQueueJob({
+			id: 'job-cron',
+			projectPath: '/p',
+			agentId: 'claude',
+			trigger: 'cron',
+			cronExpression: '*/5 * * * *',
+			runAt: 1_000,
+		});
+		store.createQueueJob({
+			id: 'job-later',
+			projectPath: '/p',
+			agentId: 'claude',
+			trigger: 'slot',
+			runAt: 1_001,
+		});
+
+		expect(await queue.tick()).toBe(1);
+		expect(launch).toHaveBeenCalledTimes(1);
+		expect(store.getQueueJob('job-cron')?.status).toBe('cancelled');
+		expect(store.getQueueJob('job-later')?.status).toBe('cancelled');
+	});
+
+	it('cancels only pending jobs', () => {
+		const result = queue.enqueue({
+			projectPath: '/p',
+			agentId: 'claude',
+			at: '2030-01-01T09:00:00Z',
+		});
+		const id = result.ok ? result.job.id : '';
+
+		expect(queue.cancel(id)).toEqual({ok: true});
+		expect(queue.cancel(id)).toMatchObject({ok: false, statusCode: 409});
+		expect(queue.cancel('missing')).toMatchObject({
+			ok: false,
+			statusCode: 404,
+		});
+	});
+});
+
+describe('renderJobBranchTemplate', () => {
+	it('fills in date, time, run and ids', () => {
+		expect(
+			renderJobBranchTemplate(
+				'nightly/{{task.id}}-{{date}}-{{time}}-{{run}}-{{job.id}}',
+				{id: 'abcdef123456', tdTaskId: 'td-42', runCount: 2},
+				new Date(2026, 2, 4, 7, 5),
+			),
+		).toBe('nightly/td-42-20260304-0705-3-abcdef12');
+	});
+});
@@ -0,0 +1,304 @@
+import {randomUUID} from 'crypto';
+import {configurationManager} from './configurationManager.js';
+import {
+	sessionStore,
+	SessionStore,
+	QueueJobFilters,
+	QueueJobRecord,
+	QueueJobTrigger,
+} from './sessionStore.js';
+import {loadProjectConfig} from '../utils/projectConfig.js';
+import {getNextCronRun} from '../utils/cron.js';
+import {logger} from '../utils/logger.js';
+
+const QUEUE_POLL_INTERVAL_MS = 15 * 1000;
+
+export interface EnqueueJobInput {
+	projectPath: string;
+	worktreePath?: string;
+	branchTemplate?: string;
+	agentId: string;
+	agentOptions?: Record<string, unknown>;
+	promptTemplate?: string;
+	tdTaskId?: string;
+	sessionName?: string;
+	/** Unix seconds or an ISO date string; the job runs once at that time */
+	at?: number | string;
+	/** Five-field cron expression; the job runs repeatedly */
+	cron?: string;
+}
+
+export type EnqueueJobResult =
+	| {ok: true; job: QueueJobRecord}
+	| {ok: false; error: string};
+
+export type CancelJobResult =
+	| {ok: true}
+	| {ok: false; statusCode: 404 | 409; error: string};
+
+/**
+ * Hooks the queue needs from the server: starting a session for a job and
+ * counting agent sessions currently running in a project.
+ */
+export interface QueueJobLauncher {
+	/** @returns id of the started session; rejects when the launch failed */
+	launch(job: QueueJobRecord): Promise<string>;
+	countActiveAgents(projectPath: string): number;
+}
+
+function toUnixSeconds(timestampMs = Date.now()): number {
+	return Math.floor(timestampMs / 1000);
+}
+
+function parseRunAt(value: number | string): number | null {
+	if (typeof value === 'number') {
+		return Number.isFinite(value) && value > 0 ? Math.floor(value) : null;
+	}
+	const trimmed = value.trim();
+	if (/^\d+$/.test(trimmed)) {
+		return Number(trimmed);
+	}
+	const parsed = Date.parse(trimmed);
+	return Number.isNaN(parsed) ? null : toUnixSeconds(parsed);
+}
+
+/**
+ * Render a job's branch template. Each run gets its own worktree, so the
+ * template should contain something unique per run ({{date}}/{{time}}/{{run}}).
+ */
+export function renderJobBranchTemplate(
+	template: string,
+	job: Pick<QueueJobRecord, 'id' | 'tdTaskId' | 'runCount'>,
+	now = new Date(),
+): string {
+	const pad = (value: number) => String(value).padStart(2, '0');
+	const values: Record<string, string> = {
+		date: `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`,
+		time: `${pad(now.getHours())}${pad(now.getMinutes())}`,
+		run: String(job.runCount + 1),
+		'job.id': job.id.slice(0, 8),
+		'task.id': job.tdTaskId || '',
+	};
+	return template
+		.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key: string) =>
+			key in values ? values[key]! : match,
+		)
+		.replace(/\/{2,}/g, '/')
+		.replace(/[-/]+$/, '');
+}
+
+/**
+ * Max running agent sessions for queued jobs in a project: the project's
+ * .cacd.json wins over the global setting. Undefined means unlimited.
+ */
+export function resolveMaxConcurrentAgents(
+	projectPath: string,
+): number | undefined {
+	const projectLimit =
+		loadProjectConfig(projectPath)?.queue?.maxConcurrentAgents;
+	const limit =
+		typeof projectLimit === 'number'
+			? projectLimit
+			: configurationManager.getQueueConfig().maxConcurrentAgents;
+	return typeof limit === 'number' && limit > 0 ? Math.floor(limit) : undefined;
+}
+
+/**
+ * Persistent queue of agent runs. Jobs are stored in sessions.db and launched
+ * when due (a fixed time, a cron schedule, or as soon as possible) and the
+ * project has a free concurrency slot.
+ */
+export class JobQueue {
+	private timer: NodeJS.Timeout | undefined;
+	private launcher: QueueJobLauncher | undefined;
+	private ticking: Promise<number> | undefined;
+	private onChange: (() => void) | undefined;
+
+	constructor(private readonly store: SessionStore = sessionStore) {}
+
+	start(
+		launcher: QueueJobLauncher,
+		options: {intervalMs?: number; onChange?: () => void} = {},
+	): void {
+		if (this.timer) return;
+		this.launcher = launcher;
+		this.onChange = options.onChange;
+		this.timer = setInterval(() => {
+			void this.tick().catch(error => {
+				logger.warn(`[JobQueue] Tick failed: ${String(error)}`);
+			});
+		}, options.intervalMs ?? QUEUE_POLL_INTERVAL_MS);
+	}
+
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = undefined;
+		}
+	}
+
+	list(filters: QueueJobFilters = {}): QueueJobRecord[] {
+		return this.store.listQueueJobs(filters);
+	}
+
+	enqueue(input: EnqueueJobInput): EnqueueJobResult {
+		if (!input.projectPath?.trim()) {
+			return {ok: false, error: 'projectPath is required'};
+		}
+		if (!input.agentId?.trim()) {
+			return {ok: false, error: 'agentId is required'};
+		}
+		if (!configurationManager.getAgentById(input.agentId)) {
+			return {ok: false, error: `Agent not found: ${input.agentId}`};
+		}
+		if (input.worktreePath?.trim() && input.branchTemplate?.trim()) {
+			return {
+				ok: false,
+				error: 'Use either worktreePath or branchTemplate, not both',
+			};
+		}
+		if (input.at !== undefined && input.cron?.trim()) {
+			return {ok: false, error: 'Use either at or cron, not both'};
+		}
+
+		let trigger: QueueJobTrigger = 'slot';
+		let runAt = toUnixSeconds();
+		if (input.cron?.trim()) {
+			trigger = 'cron';
+			try {
+				runAt = toUnixSeconds(
+					getNextCronRun(input.cron.trim(), new Date()).getTime(),
+				);
+			} catch (error) {
+				return {
+					ok: false,
+					error: error instanceof Error ? error.message : String(error),
+				};
+			}
+		} else if (input.at !== undefined) {
+			const parsed = parseRunAt(input.at);
+			if (parsed === null) {
+				return {ok: false, error: `Invalid run time: ${String(input.at)}`};
+			}
+			trigger = 'at';
+			runAt = parsed;
+		}
+
+		const job = this.store.createQueueJob({
+			id: randomUUID(),
+			projectPath: input.projectPath.trim(),
+			worktreePath: input.worktreePath,
+			branchTemplate: input.branchTemplate,
+			agentId: input.agentId.trim(),
+			agentOptions: input.agentOptions,
+			promptTemplate: input.promptTemplate,
+			tdTaskId: input.tdTaskId,
+			sessionName: input.sessionName,
+			trigger,
+			cronExpression: input.cron?.trim(),
+			runAt,
+		});
+		this.onChange?.();
+		// Slot jobs may be able to run right away
+		if (this.launcher) {
+			void this.tick().catch(error => {
+				logger.warn(`[JobQueue] Tick failed: ${String(error)}`);
+			});
+		}
+		return {ok: true, job};
+	}
+
+	cancel(id: string): CancelJobResult {
+		const job = this.store.getQueueJob(id);
+		if (!job) {
+			return {ok: false, statusCode: 404, error: 'Job not found'};
+		}
+		if (!this.store.cancelQueueJob(id)) {
+			return {
+				ok: false,
+				statusCode: 409,
+				error: `Job is already ${job.status}`,
+			};
+		}
+		this.onChange?.();
+		return {ok: true};
+	}
+
+	/**
+	 * Launch every due job whose project has a free slot. Concurrent callers
+	 * share the pass in flight so a job is never launched twice.
+	 * @returns number of jobs launched
+	 */
+	tick(): Promise<number> {
+		if (!this.ticking) {
+			this.ticking = this.runDueJobs().finally(() => {
+				this.ticking = undefined;
+			});
+		}
+		return this.ticking;
+	}
+
+	private async runDueJobs(): Promise<number> {
+		const launcher = this.launcher;
+		if (!launcher) return 0;
+
+		const dueJobs = this.store.listDueQueueJobs(toUnixSeconds());
+		if (dueJobs.length === 0) return 0;
+
+		// Sessions started in this pass are not always visible to the launcher's
+		// count yet, so track them per project.
+		const launchedPerProject = new Map<string, number>();
+		let launched = 0;
+		let changed = false;
+
+		for (const job of dueJobs) {
+			const limit = resolveMaxConcurrentAgents(job.projectPath);
+			if (limit !== undefined) {
+				const active =
+					launcher.countActiveAgents(job.projectPath) +
+					(launchedPerProject.get(job.projectPath) || 0);
+				if (active >= limit) continue;
+			}
+
+			const nextRunAt =
+				job.trigger === 'cron' && job.cronExpression
+					? this.computeNextCronRun(job.cronExpression)
+					: undefined;
+
+			// Earlier launches in this pass may have given time to cancel it
+			if (this.store.getQueueJob(job.id)?.status !== 'pending') continue;
+
+			changed = true;
+			try {
+				const sessionId = await launcher.launch(job);
+				this.store.markQueueJobLaunched(job.id, sessionId, nextRunAt);
+				launchedPerProject.set(
+					job.projectPath,
+					(launchedPerProject.get(job.projectPath) || 0) + 1,
+				);
+				launched += 1;
+				logger.info(`[JobQueue] Launched job ${job.id} as ${sessionId}`);
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				this.store.markQueueJobFailed(job.id, message, nextRunAt);
+				logger.warn(`[JobQueue] Job ${job.id} failed: ${message}`);
+			}
+		}
+
+		if (changed) {
+			this.onChange?.();
+		}
+		return launched;
+	}
+
+	private computeNextCronRun(expression: string): number | undefined {
+		try {
+			return toUnixSeconds(getNextCronRun(expression, new Date()).getTime());
+		} catch {
+			// Expression was validated on enqueue; treat a failure as one-shot
+			return undefined;
+		}
+	}
+}
+
+export const jobQueue = new JobQueue();
@@ -0,0 +1,200 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {
+	formatConflictPrompt,
+	MergeConflictService,
+	parseConflictHunks,
+} from './mergeConflictService.js';
+import {createTempGitRepo, git} from '../utils/testHelpers.js';
+
+vi.mock('../utils/logger.js', () => ({
+	logger: {
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	},
+}));
+
+function commitFile(repoPath: string, content: string, message: string) {
+	fs.writeFileSync(path.join(repoPath, 'app.ts'), content);
+	git(repoPath, 'add', '.');
+	git(repoPath, 'commit', '-m', message);
+}
+
+describe('parseConflictHunks', () => {
+	it('parses default and diff3 conflict markers', () => {
+		const hunks = parseConflictHunks(
+			[
+				'const a = 1;',
+				'<<<<<<< HEAD',
+				'const b = 2;',
+				'=======',
+				'const b = 3;',
+				'>>>>>>> feature/login',
+				'const c = 4;',
+				'<<<<<<< HEAD',
+				'ours',
+				'||||||| base',
+				'original',
+				'=======',
+				'theirs',
+				'>>>>>>> feature/login',
+			].join('\n'),
+		);
+
+		expect(hunks).toEqual([
+			{
+				startLine: 2,
+				endLine: 6,
+				oursLabel: 'HEAD',
+				theirsLabel: 'feature/login',
+				ours: ['const b = 2;'],
+				theirs: ['const b = 3;'],
+			},
+			{
+				startLine: 8,
+				endLine: 14,
+				oursLabel: 'HEAD',
+				theirsLabel: 'feature/login',
+				ours: ['ours'],
+				base: ['original'],
+				theirs: ['theirs'],
+			},
+		]);
+	});
+});
+
+describe('MergeConflictService', () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let service: MergeConflictService;
+
+	beforeEach(() => {
+		({tmpDir, repoPath} = createTempGitRepo('cacd-conflict-test-', {
+			'app.ts': 'export const greeting = "hello";\n',
+		}));
+		git(repoPath, 'config', 'merge.conflictStyle', 'merge');
+		git(repoPath, 'checkout', '-b', 'feature/greeting');
+		commitFile(repoPath, 'export const greeting = "hi";\n', 'Say hi');
+		git(repoPath, 'checkout', 'main');
+		commitFile(repoPath, 'export const greeting = "hey";\n', 'Say hey');
+		service = new MergeConflictService();
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, {recursive: true, force: true});
+	});
+
+	it('predicts conflicts without touching the worktree', async () => {
+		const check = await service.check(repoPath, 'feature/greeting', 'main');
+
+		expect(check.clean).toBe(false);
+		expect(check.files).toHaveLength(1);
+		expect(check.files[0]).toMatchObject({
+			path: 'app.ts',
+			hunks: [
+				{
+					ours: ['export const greeting = "hey";'],
+					theirs: ['export const greeting = "hi";'],
+				},
+			],
+		});
+		expect(git(repoPath, 'status', '--porcelain')).toBe('');
+
+		git(repoPath, 'branch', 'feature/clean', 'main');
+		expect(await service.check(repoPath, 'feature/clean', 'main')).toEqual({
+			sourceBranch: 'feature/clean',
+			targetBranch: 'main',
+			clean: true,
+			files: [],
+		});
+	});
+
+	it('reports, refuses to continue and aborts a stopped merge', async () => {
+		expect(() =>
+			git(repoPath, 'merge', '--no-ff', 'feature/greeting'),
+		).toThrow();
+
+		const report = await service.getReport(repoPath);
+		expect(report.operation).toBe('merge');
+		expect(report.files.map(file => file.path)).toEqual(['app.ts']);
+		expect(report.files[0]!.hunks[0]).toMatchObject({
+			oursLabel: 'HEAD',
+			theirsLabel: 'feature/greeting',
+		});
+		expect(formatConflictPrompt(report)).toContain(
+			'- app.ts: 1 conflict at lines 1-5',
+		);
+
+		const blocked = await service.continue(repoPath);
+		expect(blocked).toMatchObject({ok: false, statusCode: 409});
+
+		const aborted = await service.abort(repoPath);
+		expect(aborted).toMatchObject({
+			ok: true,
+			report: {operation: null, files: []},
+		});
+		expect(git(repoPath, 'log', '-1', '--format=%s')).toBe('Say hey');
+	});
+
+	it('stages deleted and oversized files only once confirmed', async () => {
+		git(repoPath, 'checkout', '-b', 'feature/cleanup', 'main~1');
+		git(repoPath, 'rm', '-q', 'app.ts');
+		fs.writeFileSync(path.join(repoPath, 'data.txt'), 'base\n');
+		git(repoPath, 'add', '.');
+		git(repoPath, 'commit', '-m', 'Remove app, add data');
+		git(repoPath, 'checkout', 'main');
+		fs.writeFileSync(
+			path.join(repoPath, 'data.txt'),
+			'x'.repeat(600 * 1024) + '\n',
+		);
+		git(repoPath, 'add', '.');
+		git(repoPath, 'commit', '-m', 'Add large data');
+		expect(() =>
+			git(repoPath, 'merge', '--no-ff', 'feature/cleanup'),
+		).toThrow();
+
+		const report = await service.getReport(repoPath);
+		expect(
+			report.files.map(({path, hunks, unchecked}) => ({
+				path,
+				hunks: hunks.length,
+				unchecked,
+			})),
+		).toEqual([
+			{path: 'app.ts', hunks: 0, unchecked: 'deleted'},
+			{path: 'data.txt', hunks: 0, unchecked: 'too-large'},
+		]);
+
+		const blocked = await service.continue(repoPath);
+		expect(blocked).toMatchObject({ok: false, statusCode: 409});
+		expect(blocked.ok ? '' : blocked.error).toContain('confirm');
+		expect(git(repoPath, 'diff', '--name-only', '--diff-filter=U')).not.toBe(
+			'',
+		);
+
+		const result = await service.continue(repoPath, {stageUnchecked: true});
+		expect(result).toMatchObject({ok: true, report: {operation: null}});
+	});
+
+	it('stages resolved files and continues the merge', async () => {
+		expect(() =>
+			git(repoPath, 'merge', '--no-ff', 'feature/greeting'),
+		).toThrow();
+		fs.writeFileSync(
+			path.join(repoPath, 'app.ts'),
+			'export const greeting = "hey there";\n',
+		);
+
+		const result = await service.continue(repoPath);
+		expect(result).toMatchObject({
+			ok: true,
+			report: {operation: null, files: []},
+		});
+		expect(git(repoPath, 'log', '-1', '--format=%P').split(' ')).toHaveLength(
+			2,
+		);
+	});
+});
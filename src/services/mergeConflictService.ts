@@ -0,0 +1,424 @@
+import {execFile} from 'child_process';
+import {promisify} from 'util';
+import {existsSync, promises as fs} from 'fs';
+import path from 'path';
+import {logger} from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+const GIT_TIMEOUT_MS = 10000;
+const MAX_CONFLICT_FILE_BYTES = 512 * 1024;
+
+export type MergeOperation = 'merge' | 'rebase';
+
+export interface ConflictHunk {
+	/** 1-based line of the `<<<<<<<` marker */
+	startLine: number;
+	/** 1-based line of the `>>>>>>>` marker */
+	endLine: number;
+	oursLabel: string;
+	theirsLabel: string;
+	ours: string[];
+	/** Common ancestor lines, only present with the diff3/zdiff3 conflict style */
+	base?: string[];
+	theirs: string[];
+}
+
+/** Why a conflicted file could not be checked for conflict markers */
+export type UncheckedConflictReason =
+	| 'deleted'
+	| 'binary'
+	| 'too-large'
+	| 'unreadable';
+
+export interface ConflictFile {
+	path: string;
+	hunks: ConflictHunk[];
+	/** Set when the working file could not be checked; only staged once confirmed */
+	unchecked?: UncheckedConflictReason;
+}
+
+export interface MergeConflictCheck {
+	sourceBranch: string;
+	targetBranch: string;
+	clean: boolean;
+	files: ConflictFile[];
+}
+
+export interface MergeConflictReport {
+	worktreePath: string;
+	/** Merge or rebase left in progress in the worktree, null when there is none */
+	operation: MergeOperation | null;
+	files: ConflictFile[];
+}
+
+export type MergeConflictResult =
+	| {ok: true; report: MergeConflictReport}
+	| {
+			ok: false;
+			statusCode: 400 | 409 | 500;
+			error: string;
+			report?: MergeConflictReport;
+	  };
+
+export interface ContinueMergeOptions {
+	/** Stage files that could not be checked for markers as they are */
+	stageUnchecked?: boolean;
+}
+
+const UNCHECKED_DESCRIPTIONS: Record<UncheckedConflictReason, string> = {
+	deleted: 'deleted on one side',
+	binary: 'binary file',
+	'too-large': 'too large to check for conflict markers',
+	unreadable: 'could not be read',
+};
+
+interface GitOutput {
+	stdout: string;
+	exitCode: number;
+}
+
+async function git(
+	cwd: string,
+	args: string[],
+	env?: NodeJS.ProcessEnv,
+): Promise<string> {
+	const {stdout} = await execFileAsync('git', args, {
+		cwd,
+		encoding: 'utf8',
+		timeout: GIT_TIMEOUT_MS,
+		env: env ? {...process.env, ...env} : undefined,
+	});
+	return stdout;
+}
+
+/** Like git(), but hands back the output of commands that exit non-zero. */
+async function gitWithStatus(cwd: string, args: string[]): Promise<GitOutput> {
+	try {
+		return {stdout: await git(cwd, args), exitCode: 0};
+	} catch (error) {
+		const execError = error as {code?: unknown; stdout?: string};
+		if (typeof execError.code === 'number' && execError.stdout !== undefined) {
+			return {stdout: execError.stdout, exitCode: execError.code};
+		}
+		throw error;
+	}
+}
+
+function errorMessage(error: unknown): string {
+	if (error && typeof error === 'object' && 'stderr' in error) {
+		const stderr = String((error as {stderr: unknown}).stderr).trim();
+		if (stderr) return stderr;
+	}
+	return error instanceof Error ? error.message : String(error);
+}
+
+function splitLines(output: string): string[] {
+	return output
+		.split('\n')
+		.map(line => line.trim())
+		.filter(Boolean);
+}
+
+function markerLabel(line: string): string {
+	return line.slice(7).trim();
+}
+
+/**
+ * Parses conflict markers out of a file's content. Supports the default
+ * merge style as well as diff3/zdiff3, which add a `|||||||` base section.
+ */
+export function parseConflictHunks(content: string): ConflictHunk[] {
+	const hunks: ConflictHunk[] = [];
+	const lines = content.split('\n');
+	let current: ConflictHunk | null = null;
+	let section: 'ours' | 'base' | 'theirs' = 'ours';
+
+	for (const [index, line] of lines.entries()) {
+		if (line.startsWith('<<<<<<<') && !current) {
+			current = {
+				startLine: index + 1,
+				endLine: index + 1,
+				oursLabel: markerLabel(line),
+				theirsLabel: '',
+				ours: [],
+				theirs: [],
+			};
+			section = 'ours';
+			continue;
+		}
+		if (!current) continue;
+
+		if (line.startsWith('|||||||') && section === 'ours') {
+			current.base = [];
+			section = 'base';
+		} else if (line.startsWith('=======') && section !== 'theirs') {
+			section = 'theirs';
+		} else if (line.startsWith('>>>>>>>') && section === 'theirs') {
+			current.endLine = index + 1;
+			current.theirsLabel = markerLabel(line);
+			hunks.push(current);
+			current = null;
+		} else if (section === 'base') {
+			current.base?.push(line);
+		} else {
+			current[section].push(line);
+		}
+	}
+
+	return hunks;
+}
+
+/** Prompt handed to an agent session asked to resolve the conflicts. */
+export function formatConflictPrompt(report: MergeConflictReport): string {
+	const operation =
+		report.operation === 'rebase' ? 'A git rebase' : 'A git merge';
+	const lines = [
+		`${operation} stopped with conflicts in this worktree. Resolve them:`,
+		'',
+	];
+	for (const file of report.files) {
+		if (file.unchecked) {
+			lines.push(
+				`- ${file.path} (${UNCHECKED_DESCRIPTIONS[file.unchecked]}; keep or remove it with \`git add\` or \`git rm\`)`,
+			);
+			continue;
+		}
+		if (file.hunks.length === 0) {
+			lines.push(`- ${file.path} (no conflict markers left)`);
+			continue;
+		}
+		const ranges = file.hunks
+			.map(hunk => `lines ${hunk.startLine}-${hunk.endLine}`)
+			.join(', ');
+		const {oursLabel, theirsLabel} = file.hunks[0]!;
+		lines.push(
+			`- ${file.path}: ${file.hunks.length} conflict${file.hunks.length === 1 ? '' : 's'} at ${ranges} (ours: ${oursLabel || 'HEAD'}, theirs: ${theirsLabel || 'incoming'})`,
+		);
+	}
+	lines.push(
+		'',
+		'Keep the intent of both sides, remove every conflict marker and stage each resolved file with `git add`.',
+		`Do not commit and do not run \`git ${report.operation ?? 'merge'} --continue\` or \`--abort\`; the merge is continued from CACD once you are done.`,
+	);
+	return lines.join('\n');
+}
+
+/**
+ * Conflict assistance for the worktree merge flow: dry-run checks with
+ * `git merge-tree`, reports for merges/rebases stopped on conflicts and
+ * the abort/continue steps that finish them.
+ */
+export class MergeConflictService {
+	/**
+	 * Predicts whether merging sourceBranch into targetBranch conflicts,
+	 * without touching any worktree. Rebases replay commits one by one, so
+	 * for them the result is an approximation of the final merge.
+	 */
+	async check(
+		gitRoot: string,
+		sourceBranch: string,
+		targetBranch: string,
+	): Promise<MergeConflictCheck> {
+		const {stdout, exitCode} = await gitWithStatus(gitRoot, [
+			'merge-tree',
+			'--write-tree',
+			'--name-only',
+			'--no-messages',
+			targetBranch,
+			sourceBranch,
+		]);
+		if (exitCode > 1) {
+			throw new Error(`git merge-tree exited with code ${exitCode}`);
+		}
+
+		const [tree, ...conflicted] = splitLines(stdout);
+		const files: ConflictFile[] = [];
+		if (exitCode === 1 && tree) {
+			for (const filePath of conflicted) {
+				const content = await git(gitRoot, [
+					'cat-file',
+					'-p',
+					`${tree}:${filePath}`,
+				]).catch(() => '');
+				files.push({path: filePath, hunks: parseConflictHunks(content)});
+			}
+		}
+
+		return {
+			sourceBranch,
+			targetBranch,
+			clean: exitCode === 0,
+			files,
+		};
+	}
+
+	/** Merge or rebase in progress in the worktree and its unmerged files. */
+	async getReport(worktreePath: string): Promise<MergeConflictReport> {
+		const operation = await this.getOperation(worktreePath);
+		const unmerged = splitLines(
+			await git(worktreePath, ['diff', '--name-only', '--diff-filter=U']),
+		);
+
+		// Stage 2 is ours and 3 theirs; a side missing means it deleted the file
+		const stages = new Map<string, Set<string>>();
+		for (const line of splitLines(
+			await git(worktreePath, ['ls-files', '--unmerged']),
+		)) {
+			const match = line.match(/^\S+ \S+ (\d)\t(.+)$/);
+			if (!match) continue;
+			const fileStages = stages.get(match[2]!) ?? new Set<string>();
+			fileStages.add(match[1]!);
+			stages.set(match[2]!, fileStages);
+		}
+
+		const files: ConflictFile[] = [];
+		for (const filePath of unmerged) {
+			const fileStages = stages.get(filePath);
+			if (fileStages && !(fileStages.has('2') && fileStages.has('3'))) {
+				files.push({path: filePath, hunks: [], unchecked: 'deleted'});
+				continue;
+			}
+			const working = await this.readWorkingFile(worktreePath, filePath);
+			files.push(
+				'unchecked' in working
+					? {path: filePath, hunks: [], unchecked: working.unchecked}
+					: {path: filePath, hunks: parseConflictHunks(working.content)},
+			);
+		}
+
+		return {worktreePath, operation, files};
+	}
+
+	async abort(worktreePath: string): Promise<MergeConflictResult> {
+		const operation = await this.getOperation(worktreePath);
+		if (!operation) {
+			return {
+				ok: false,
+				statusCode: 400,
+				error: 'No merge or rebase in progress',
+			};
+		}
+
+		try {
+			await git(worktreePath, [operation, '--abort']);
+		} catch (error) {
+			return {ok: false, statusCode: 500, error: errorMessage(error)};
+		}
+
+		logger.info(`Aborted ${operation} in ${worktreePath}`);
+		return {ok: true, report: await this.getReport(worktreePath)};
+	}
+
+	/**
+	 * Stages files whose conflict markers are gone and continues the merge
+	 * or rebase. Refuses while any file still contains conflict markers, and
+	 * while files that could not be checked remain unless confirmed.
+	 */
+	async continue(
+		worktreePath: string,
+		options: ContinueMergeOptions = {},
+	): Promise<MergeConflictResult> {
+		const before = await this.getReport(worktreePath);
+		if (!before.operation) {
+			return {
+				ok: false,
+				statusCode: 400,
+				error: 'No merge or rebase in progress',
+			};
+		}
+
+		const unresolved = before.files.filter(file => file.hunks.length > 0);
+		if (unresolved.length > 0) {
+			return {
+				ok: false,
+				statusCode: 409,
+				error: `Unresolved conflicts in ${unresolved.map(file => file.path).join(', ')}`,
+				report: before,
+			};
+		}
+
+		const unchecked = before.files.filter(file => file.unchecked);
+		if (unchecked.length > 0 && !options.stageUnchecked) {
+			return {
+				ok: false,
+				statusCode: 409,
+				error: `Cannot check ${unchecked.map(file => `${file.path} (${UNCHECKED_DESCRIPTIONS[file.unchecked!]})`).join(', ')} for conflicts; confirm to stage them as they are`,
+				report: before,
+			};
+		}
+
+		try {
+			if (before.files.length > 0) {
+				await git(worktreePath, [
+					'add',
+					'-A',
+					'--',
+					...before.files.map(file => file.path),
+				]);
+			}
+			// Accept the prepared commit messages instead of opening an editor
+			await git(worktreePath, [before.operation, '--continue'], {
+				GIT_EDITOR: 'true',
+			});
+		} catch (error) {
+			// A rebase can stop again on the next commit
+			const report = await this.getReport(worktreePath);
+			if (report.operation && report.files.length > 0) {
+				return {
+					ok: false,
+					statusCode: 409,
+					error: errorMessage(error),
+					report,
+				};
+			}
+			return {ok: false, statusCode: 500, error: errorMessage(error)};
+		}
+
+		logger.info(`Continued ${before.operation} in ${worktreePath}`);
+		return {ok: true, report: await this.getReport(worktreePath)};
+	}
+
+	private async getOperation(
+		worktreePath: string,
+	): Promise<MergeOperation | null> {
+		const gitPath = async (name: string) =>
+			path.resolve(
+				worktreePath,
+				(await git(worktreePath, ['rev-parse', '--git-path', name])).trim(),
+			);
+
+		if (
+			existsSync(await gitPath('rebase-merge')) ||
+			existsSync(await gitPath('rebase-apply'))
+		) {
+			return 'rebase';
+		}
+		if (existsSync(await gitPath('MERGE_HEAD'))) {
+			return 'merge';
+		}
+		return null;
+	}
+
+	private async readWorkingFile(
+		worktreePath: string,
+		filePath: string,
+	): Promise<{content: string} | {unchecked: UncheckedConflictReason}> {
+		const absolutePath = path.join(worktreePath, filePath);
+		try {
+			const stats = await fs.stat(absolutePath);
+			if (!stats.isFile()) return {unchecked: 'unreadable'};
+			if (stats.size > MAX_CONFLICT_FILE_BYTES) {
+				return {unchecked: 'too-large'};
+			}
+			const content = await fs.readFile(absolutePath, 'utf8');
+			// Git leaves binary conflicts without markers
+			return content.includes('\0') ? {unchecked: 'binary'} : {content};
+		} catch (error) {
+			const code = (error as NodeJS.ErrnoException).code;
+			return {unchecked: code === 'ENOENT' ? 'deleted' : 'unreadable'};
+		}
+	}
+}
+
+export const mergeConflictService = new MergeConflictService();
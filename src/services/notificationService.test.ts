@@ -0,0 +1,169 @@
+import {describe, it, expect, vi, beforeEach, afterEach} from 'vitest';
+import type {NotificationsConfig, Session} from '../types/index.js';
+
+const getNotificationsConfigMock = vi.fn<() => NotificationsConfig>();
+const loadProjectConfigMock = vi.fn<(projectPath: string) => unknown>();
+
+vi.mock('./configurationManager.js', () => ({
+	configurationManager: {
+		getNotificationsConfig: () => getNotificationsConfigMock(),
+	},
+}));
+
+vi.mock('../utils/projectConfig.js', () => ({
+	loadProjectConfig: (projectPath: string) =>
+		loadProjectConfigMock(projectPath),
+}));
+
+import {
+	NotificationService,
+	isWithinQuietHours,
+} from './notificationService.js';
+
+function createSession(state: string): Session {
+	return {
+		id: 'session-1',
+		name: 'Builder',
+		worktreePath: '/repo/.worktrees/feat',
+		stateMutex: {getSnapshot: () => ({state})},
+	} as unknown as Session;
+}
+
+describe('isWithinQuietHours', () => {
+	it('handles windows that wrap past midnight', () => {
+		const quietHours = {enabled: true, start: '22:00', end: '07:00'};
+		expect(isWithinQuietHours(quietHours, new Date(2026, 0, 1, 23, 30))).toBe(
+			true,
+		);
+		expect(isWithinQuietHours(quietHours, new Date(2026, 0, 1, 6, 59))).toBe(
+			true,
+		);
+		expect(isWithinQuietHours(quietHours, new Date(2026, 0, 1, 12, 0))).toBe(
+			false,
+		);
+	});
+
+	it('ignores disabled or malformed windows', () => {
+		const now = new Date(2026, 0, 1, 23, 30);
+		expect(
+			isWithinQuietHours({enabled: false, start: '22:00', end: '07:00'}, now),
+		).toBe(false);
+		expect(
+			isWithinQuietHours({enabled: true, start: 'late', end: '07:00'}, now),
+		).toBe(false);
+	});
+});
+
+describe('NotificationService', () => {
+	beforeEach(() => {
+		loadProjectConfigMock.mockReturnValue(null);
+	});
+
+	afterEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('pushes to the browser sink when a session starts waiting for input', async () => {
+		getNotificationsConfigMock.mockReturnValue({enabled: true});
+		const service = new NotificationService();
+		const listener = vi.fn();
+		service.on('notification', listener);
+
+		const result = await service.handleSessionStateChange(
+			createSession('waiting_input'),
+		);
+
+		expect(result?.delivered).toEqual(['browser']);
+		expect(listener).toHaveBeenCalledWith(
+			expect.objectContaining({
+				sessionId: 'session-1',
+				oldState: 'busy',
+				newState: 'waiting_input',
+				message: 'Builder is waiting for your input',
+			}),
+		);
+	});
+
+	it('respects per-project opt-out in .cacd.json', async () => {
+		getNotificationsConfigMock.mockReturnValue({enabled: true});
+		loadProjectConfigMock.mockReturnValue({notifications: {enabled: false}});
+		const service = new NotificationService();
+		const listener = vi.fn();
+		service.on('notification', listener);
+
+		const result = await service.handleSessionStateChange(
+			createSession('waiting_input'),
+			'/repo',
+		);
+
+		expect(result).toBeNull();
+		expect(loadProjectConfigMock).toHaveBeenCalledWith('/repo');
+		expect(listener).not.toHaveBeenCalled();
+	});
+
+	it('skips states that are not configured', async () => {
+		getNotificationsConfigMock.mockReturnValue({
+			enabled: true,
+			states: ['waiting_input'],
+		});
+		const service = new NotificationService();
+
+		await expect(
+			service.handleSessionStateChange(createSession('idle')),
+		).resolves.toBeNull();
+	});
+
+	it('reports webhook failures without blocking other sinks', async () => {
+		getNotificationsConfigMock.mockReturnValue({
+			enabled: true,
+			webhook: {enabled: true, url: 'http://127.0.0.1:9/hook'},
+		});
+		const fetchMock = vi.fn(
+			async () => new globalThis.Response('', {status: 500}),
+		);
+		vi.stubGlobal('fetch', fetchMock);
+
+		try {
+			const service = new NotificationService();
+			const result = await service.send({
+				title: 'CA⚡CD',
+				message: 'hello',
+				timestamp: 1,
+			});
+
+			expect(result.delivered).toEqual(['browser']);
+			expect(result.errors).toEqual([
+				{sink: 'webhook', message: 'Webhook returned 500'},
+			]);
+			expect(fetchMock).toHaveBeenCalledWith(
+				'http://127.0.0.1:9/hook',
+				expect.objectContaining({method: 'POST'}),
+			);
+		} finally {
+			vi.unstubAllGlobals();
+		}
+	});
+
+	it('suppresses delivery during quiet hours unless forced', async () => {
+		getNotificationsConfigMock.mockReturnValue({
+			enabled: true,
+			quietHours: {enabled: true, start: '00:00', end: '23:59'},
+		});
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date(2026, 0, 1, 12, 0));
+
+		try {
+			const service = new NotificationService();
+			const event = {title: 'CA⚡CD', message: 'hello', timestamp: 1};
+
+			await expect(service.send(event)).resolves.toEqual(
+				expect.objectContaining({skipped: 'Quiet hours are active'}),
+			);
+			await expect(
+				service.send(event, {ignoreQuietHours: true}),
+			).resolves.toEqual(expect.objectContaining({delivered: ['browser']}));
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+});
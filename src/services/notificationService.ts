@@ -0,0 +1,249 @@
+import {EventEmitter} from 'events';
+import {Effect} from 'effect';
+import {NotificationsConfig, Session, SessionState} from '../types/index.js';
+import {configurationManager} from './configurationManager.js';
+import {executeHook} from '../utils/hookExecutor.js';
+import {loadProjectConfig} from '../utils/projectConfig.js';
+import {logger} from '../utils/logger.js';
+
+const DEFAULT_NOTIFY_STATES: SessionState[] = ['waiting_input'];
+const WEBHOOK_TIMEOUT_MS = 5000;
+const DEFAULT_TITLE = 'CA⚡CD';
+
+export interface NotificationEvent {
+	title: string;
+	message: string;
+	timestamp: number;
+	sessionId?: string;
+	sessionName?: string;
+	worktreePath?: string;
+	projectPath?: string;
+	oldState?: SessionState;
+	newState?: SessionState;
+}
+
+export interface NotificationResult {
+	delivered: string[];
+	errors: Array<{sink: string; message: string}>;
+	skipped?: string;
+}
+
+/**
+ * A delivery target for notifications. Sinks are built from configuration
+ * on every send so config edits apply without a daemon restart.
+ */
+export interface NotificationSink {
+	name: string;
+	deliver(event: NotificationEvent): Promise<void>;
+}
+
+const STATE_MESSAGES: Record<SessionState, string> = {
+	idle: 'finished and is idle',
+	busy: 'started working',
+	waiting_input: 'is waiting for your input',
+	pending_auto_approval: 'is waiting for auto-approval',
+};
+
+function parseClockMinutes(value: string): number | null {
+	const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+	if (!match) return null;
+	const hours = Number(match[1]);
+	const minutes = Number(match[2]);
+	if (hours > 23 || minutes > 59) return null;
+	return hours * 60 + minutes;
+}
+
+/**
+ * Whether `now` falls inside the configured quiet hours window.
+ * Windows where start > end wrap past midnight (e.g. 22:00–07:00).
+ */
+export function isWithinQuietHours(
+	quietHours: NotificationsConfig['quietHours'],
+	now: Date = new Date(),
+): boolean {
+	if (!quietHours?.enabled) return false;
+	const start = parseClockMinutes(quietHours.start);
+	const end = parseClockMinutes(quietHours.end);
+	if (start === null || end === null || start === end) return false;
+
+	const current = now.getHours() * 60 + now.getMinutes();
+	return start < end
+		? current >= start && current < end
+		: current >= start || current < end;
+}
+
+export class NotificationService extends EventEmitter {
+	private lastStates: Map<string, SessionState> = new Map();
+
+	/**
+	 * Notify about a session state transition if the new state is one the
+	 * user (or the session's project) asked to be told about.
+	 */
+	async handleSessionStateChange(
+		session: Session,
+		projectPath?: string,
+	): Promise<NotificationResult | null> {
+		const newState = session.stateMutex.getSnapshot().state;
+		// Sessions start busy, so an unseen session is treated as coming from busy
+		const oldState = this.lastStates.get(session.id) ?? 'busy';
+		this.lastStates.set(session.id, newState);
+		if (oldState === newState) {
+			return null;
+		}
+
+		const config = configurationManager.getNotificationsConfig();
+		if (!config.enabled) {
+			return null;
+		}
+
+		const projectOverrides = projectPath
+			? loadProjectConfig(projectPath)?.notifications
+			: undefined;
+		if (projectOverrides?.enabled === false) {
+			return null;
+		}
+
+		const states =
+			(projectOverrides?.states as SessionState[] | undefined) ??
+			config.states ??
+			DEFAULT_NOTIFY_STATES;
+		if (!states.includes(newState)) {
+			return null;
+		}
+
+		const label = session.name || session.id;
+		return this.send({
+			title: DEFAULT_TITLE,
+			message: `${label} ${STATE_MESSAGES[newState]}`,
+			timestamp: Date.now(),
+			sessionId: session.id,
+			sessionName: session.name,
+			worktreePath: session.worktreePath,
+			projectPath,
+			oldState,
+			newState,
+		});
+	}
+
+	/** Notify about something that happened to a session, such as a budget. */
+	async sendSessionNotice(
+		session: Pick<Session, 'id' | 'name' | 'worktreePath'>,
+		message: string,
+		projectPath?: string,
+	): Promise<NotificationResult> {
+		const label = session.name || session.id;
+		return this.send({
+			title: DEFAULT_TITLE,
+			message: `${label} ${message}`,
+			timestamp: Date.now(),
+			sessionId: session.id,
+			sessionName: session.name,
+			worktreePath: session.worktreePath,
+			projectPath,
+		});
+	}
+
+	forgetSession(sessionId: string): void {
+		this.lastStates.delete(sessionId);
+	}
+
+	/**
+	 * Deliver a notification to every enabled sink. Sink failures are
+	 * collected rather than thrown so one broken sink does not block others.
+	 */
+	async send(
+		event: NotificationEvent,
+		options: {ignoreQuietHours?: boolean} = {},
+	): Promise<NotificationResult> {
+		const config = configurationManager.getNotificationsConfig();
+		if (!config.enabled) {
+			return {delivered: [], errors: [], skipped: 'Notifications are disabled'};
+		}
+		if (!options.ignoreQuietHours && isWithinQuietHours(config.quietHours)) {
+			logger.info(
+				`[Notifications] Suppressed during quiet hours: ${event.message}`,
+			);
+			return {delivered: [], errors: [], skipped: 'Quiet hours are active'};
+		}
+
+		const sinks = this.createSinks(config);
+		if (sinks.length === 0) {
+			return {
+				delivered: [],
+				errors: [],
+				skipped: 'No notification sinks are enabled',
+			};
+		}
+
+		const result: NotificationResult = {delivered: [], errors: []};
+		await Promise.all(
+			sinks.map(async sink => {
+				try {
+					await sink.deliver(event);
+					result.delivered.push(sink.name);
+				} catch (error) {
+					const message =
+						error instanceof Error ? error.message : String(error);
+					logger.warn(`[Notifications] ${sink.name} sink failed: ${message}`);
+					result.errors.push({sink: sink.name, message});
+				}
+			}),
+		);
+		return result;
+	}
+
+	private createSinks(config: NotificationsConfig): NotificationSink[] {
+		const sinks: NotificationSink[] = [];
+
+		if (config.browser?.enabled ?? true) {
+			sinks.push({
+				name: 'browser',
+				deliver: async event => {
+					this.emit('notification', event);
+				},
+			});
+		}
+
+		const webhookUrl = config.webhook?.url;
+		if (config.webhook?.enabled && webhookUrl) {
+			sinks.push({
+				name: 'webhook',
+				deliver: async event => {
+					const response = await globalThis.fetch(webhookUrl, {
+						method: 'POST',
+						headers: {'Content-Type': 'application/json'},
+						body: JSON.stringify(event),
+						signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+					});
+					if (!response.ok) {
+						throw new Error(`Webhook returned ${response.status}`);
+					}
+				},
+			});
+		}
+
+		const command = config.command?.command;
+		if (config.command?.enabled && command) {
+			sinks.push({
+				name: 'command',
+				deliver: event =>
+					Effect.runPromise(
+						executeHook(command, event.worktreePath || process.cwd(), {
+							CACD_WORKTREE_PATH: event.worktreePath || '',
+							CACD_WORKTREE_BRANCH: '',
+							CACD_GIT_ROOT: event.projectPath || '',
+							CACD_NOTIFY_TITLE: event.title,
+							CACD_NOTIFY_MESSAGE: event.message,
+							CACD_SESSION_ID: event.sessionId,
+							CACD_OLD_STATE: event.oldState,
+							CACD_NEW_STATE: event.newState,
+						}),
+					),
+			});
+		}
+
+		return sinks;
+	}
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,204 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {Effect} from 'effect';
+import {SessionStore} from './sessionStore.js';
+import {PullRequestService} from './pullRequestService.js';
+import type {ForgeProvider, ForgeRepository} from './forgeProvider.js';
+import {createTempGitRepo, git} from '../utils/testHelpers.js';
+
+const {mockGetForgeConfig} = vi.hoisted(() => ({
+	mockGetForgeConfig: vi.fn(),
+}));
+
+vi.mock('./configurationManager.js', () => ({
+	configurationManager: {
+		getForgeConfig: mockGetForgeConfig,
+		getAgentById: vi.fn(),
+	},
+}));
+
+vi.mock('./tdService.js', () => ({
+	tdService: {
+		resolveProjectState: () => ({enabled: false, dbPath: null}),
+	},
+}));
+
+vi.mock('../utils/worktreeConfig.js', () => ({
+	getWorktreeParentBranch: () => Effect.succeed(null),
+}));
+
+vi.mock('../utils/logger.js', () => ({
+	logger: {
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	},
+}));
+
+describe('PullRequestService', () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let barePath: string;
+	let store: SessionStore;
+	let provider: ForgeProvider & {
+		createPullRequest: ReturnType<typeof vi.fn>;
+		findOpenPullRequest: ReturnType<typeof vi.fn>;
+		getPullRequest: ReturnType<typeof vi.fn>;
+	};
+	let resolvedRepository: ForgeRepository | undefined;
+	let service: PullRequestService;
+
+	beforeEach(() => {
+		({tmpDir, repoPath} = createTempGitRepo('cacd-pr-test-'));
+		barePath = path.join(tmpDir, 'remote.git');
+		git(tmpDir, 'init', '--bare', barePath);
+		// Fetch URL names the forge, pushes land in the local bare repository
+		git(repoPath, 'remote', 'add', 'origin', 'git@github.com:acme/app.git');
+		git(repoPath, 'remote', 'set-url', '--push', 'origin', barePath);
+		git(repoPath, 'checkout', '-b', 'feature/login');
+		fs.writeFileSync(path.join(repoPath, 'login.ts'), 'export {};\n');
+		git(repoPath, 'add', '.');
+		git(repoPath, 'commit', '-m', 'Add login form');
+
+		mockGetForgeConfig.mockReturnValue({token: 'secret'});
+		store = new SessionStore(path.join(tmpDir, 'sessions.db'));
+		provider = {
+			kind: 'github',
+			repository: {
+				kind: 'github',
+				host: 'github.com',
+				path: 'acme/app',
+				apiUrl: 'https://api.github.com',
+			},
+			createPullRequest: vi.fn(async input => ({
+				number: 12,
+				url: 'https://github.com/acme/app/pull/12',
+				title: input.title,
+				state: 'open' as const,
+			})),
+			findOpenPullRequest: vi.fn(async () => null),
+			getPullRequest: vi.fn(async () => ({
+				number: 12,
+				url: 'https://github.com/acme/app/pull/12',
+				title: 'Add login form',
+				state: 'merged' as const,
+			})),
+		};
+		resolvedRepository = undefined;
+		service = new PullRequestService(store, repository => {
+			resolvedRepository = repository;
+			return provider;
+		});
+	});
+
+	afterEach(() => {
+		store.close();
+		fs.rmSync(tmpDir, {recursive: true, force: true});
+	});
+
+	it('pushes the branch, opens a pull request and records it', async () => {
+		const result = await service.publish({
+			worktreePath: repoPath,
+			targetBranch: 'main',
+		});
+
+		expect(result).toMatchObject({
+			ok: true,
+			created: true,
+			pullRequest: {
+				provider: 'github',
+				repository: 'acme/app',
+				number: 12,
+				state: 'open',
+				title: 'Add login form',
+				sourceBranch: 'feature/login',
+				targetBranch: 'main',
+			},
+		});
+		expect(resolvedRepository?.path).toBe('acme/app');
+		expect(provider.createPullRequest).toHaveBeenCalledWith(
+			expect.objectContaining({
+				sourceBranch: 'feature/login',
+				targetBranch: 'main',
+			}),
+		);
+		expect(git(barePath, 'rev-parse', 'feature/login')).toBe(
+			git(repoPath, 'rev-parse', 'HEAD'),
+		);
+		expect(service.get(repoPath)?.number).toBe(12);
+	});
+
+	it('reuses an open pull request and refreshes its status', async () => {
+		provider.findOpenPullRequest.mockResolvedValue({
+			number: 9,
+			url: 'https://github.com/acme/app/pull/9',
+			title: 'Existing',
+			state: 'open',
+		});
+
+		const published = await service.publish({
+			worktreePath: repoPath,
+			targetBranch: 'main',
+		});
+		expect(published).toMatchObject({ok: true, created: false});
+		expect(provider.createPullRequest).not.toHaveBeenCalled();
+
+		provider.getPullRequest.mockResolvedValue({
+			number: 9,
+			url: 'https://github.com/acme/app/pull/9',
+			title: 'Existing',
+			state: 'merged',
+		});
+		const refreshed = await service.refresh(repoPath);
+		expect(provider.getPullRequest).toHaveBeenCalledWith(9);
+		expect(refreshed).toMatchObject({
+			ok: true,
+			pullRequest: {number: 9, state: 'merged'},
+		});
+	});
+
+	it('does not send the token to an API host chosen by the project config', async () => {
+		fs.writeFileSync(
+			path.join(repoPath, '.cacd.json'),
+			JSON.stringify({forge: {apiUrl: 'https://collector.example.com/api'}}),
+		);
+
+		const result = await service.publish({
+			worktreePath: repoPath,
+			targetBranch: 'main',
+		});
+
+		expect(result).toMatchObject({ok: false, statusCode: 400});
+		expect(result.ok ? '' : result.error).toContain('not on the remote');
+		expect(resolvedRepository).toBeUndefined();
+		expect(git(barePath, 'branch', '--list', 'feature/login')).toBe('');
+	});
+
+	it('explains why a worktree cannot be published', async () => {
+		mockGetForgeConfig.mockReturnValue({});
+		const previousTokens = [
+			process.env['GITHUB_TOKEN'],
+			process.env['GH_TOKEN'],
+		];
+		delete process.env['GITHUB_TOKEN'];
+		delete process.env['GH_TOKEN'];
+		try {
+			const result = await service.publish({worktreePath: repoPath});
+			expect(result).toMatchObject({ok: false, statusCode: 400});
+			expect(result.ok ? '' : result.error).toContain('No API token');
+
+			const draft = await service.draft(repoPath);
+			expect(draft).toMatchObject({
+				title: 'Add login form',
+				sourceBranch: 'feature/login',
+				forge: null,
+			});
+			expect(draft.forgeError).toContain('No API token');
+		} finally {
+			if (previousTokens[0]) process.env['GITHUB_TOKEN'] = previousTokens[0];
+			if (previousTokens[1]) process.env['GH_TOKEN'] = previousTokens[1];
+		}
+	});
+});
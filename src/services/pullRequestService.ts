@@ -0,0 +1,407 @@
+import {execFile} from 'child_process';
+import {promisify} from 'util';
+import {Effect} from 'effect';
+import type {ForgeKind} from '../types/index.js';
+import {configurationManager} from './configurationManager.js';
+import {resolveAdapterForSession} from './sessionAdapter.js';
+import {
+	sessionStore,
+	SessionStore,
+	SessionRecord,
+	WorktreePullRequestRecord,
+} from './sessionStore.js';
+import {
+	createForgeProvider,
+	forgeTokenFromEnv,
+	isApiUrlOnRemoteHost,
+	ForgeProvider,
+	ForgeRepository,
+	resolveForgeRepository,
+} from './forgeProvider.js';
+import {tdService} from './tdService.js';
+import {TdReader, TdIssue} from './tdReader.js';
+import {
+	loadProjectConfig,
+	resolveProjectConfigRoot,
+} from '../utils/projectConfig.js';
+import {getWorktreeParentBranch} from '../utils/worktreeConfig.js';
+import {logger} from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+const GIT_TIMEOUT_MS = 10000;
+const PUSH_TIMEOUT_MS = 120000;
+const MAX_SUMMARY_LENGTH = 2000;
+
+export interface PullRequestDraft {
+	title: string;
+	body: string;
+	sourceBranch: string;
+	targetBranch: string;
+	taskId: string | null;
+	forge: {provider: ForgeKind; repository: string} | null;
+	/** Why the worktree cannot be published, if it cannot */
+	forgeError: string | null;
+}
+
+export interface PublishPullRequestInput {
+	worktreePath: string;
+	title?: string;
+	body?: string;
+	targetBranch?: string;
+	draft?: boolean;
+}
+
+export type PullRequestResult =
+	| {ok: true; pullRequest: WorktreePullRequestRecord; created: boolean}
+	| {ok: false; statusCode: 400 | 404 | 500 | 502; error: string};
+
+interface ForgeContext {
+	remote: string;
+	repository: ForgeRepository;
+	token: string;
+}
+
+async function git(
+	worktreePath: string,
+	args: string[],
+	timeout = GIT_TIMEOUT_MS,
+): Promise<string> {
+	const {stdout} = await execFileAsync('git', args, {
+		cwd: worktreePath,
+		encoding: 'utf8',
+		timeout,
+	});
+	return stdout.trim();
+}
+
+function errorMessage(error: unknown): string {
+	if (error && typeof error === 'object' && 'stderr' in error) {
+		const stderr = String((error as {stderr: unknown}).stderr).trim();
+		if (stderr) return stderr;
+	}
+	return error instanceof Error ? error.message : String(error);
+}
+
+function truncate(text: string, maxLength: number): string {
+	return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Publishes worktree branches as pull/merge requests: pushes the branch,
+ * opens the request on the forge behind the remote and remembers it in
+ * sessions.db so the worktree view can show its number and status.
+ */
+export class PullRequestService {
+	constructor(
+		private readonly store: SessionStore = sessionStore,
+		private readonly providerFactory: (
+			repository: ForgeRepository,
+			token: string,
+		) => ForgeProvider = createForgeProvider,
+	) {}
+
+	get(worktreePath: string): WorktreePullRequestRecord | null {
+		return this.store.getWorktreePullRequest(worktreePath);
+	}
+
+	/** Title and body prefilled from the linked td task and the last agent reply. */
+	async draft(worktreePath: string): Promise<PullRequestDraft> {
+		const sourceBranch = await this.currentBranch(worktreePath);
+		const session = this.store.queryByWorktree(worktreePath, 1)[0] || null;
+		const task = this.findTask(worktreePath, session, sourceBranch);
+		const summary = await this.summarizeConversation(session);
+		const lastCommit = await git(worktreePath, [
+			'log',
+			'-1',
+			'--format=%s',
+		]).catch(() => '');
+
+		const sections: string[] = [];
+		if (task) {
+			sections.push([`## Task`, '', `${task.id}: ${task.title}`].join('\n'));
+			if (task.description?.trim()) {
+				sections.push(task.description.trim());
+			}
+		}
+		if (summary) {
+			sections.push(['## Agent summary', '', summary].join('\n'));
+		}
+
+		let forge: PullRequestDraft['forge'] = null;
+		let forgeError: string | null = null;
+		try {
+			const context = await this.resolveForgeContext(worktreePath);
+			forge = {
+				provider: context.repository.kind,
+				repository: context.repository.path,
+			};
+		} catch (error) {
+			forgeError = errorMessage(error);
+		}
+
+		return {
+			title: task?.title || lastCommit || sourceBranch || '',
+			body: sections.join('\n\n'),
+			sourceBranch: sourceBranch || '',
+			targetBranch: await this.defaultTargetBranch(worktreePath),
+			taskId: task?.id || null,
+			forge,
+			forgeError,
+		};
+	}
+
+	/**
+	 * Push the worktree branch and open a pull request for it. An open pull
+	 * request from the same branch is reused instead of creating a duplicate.
+	 */
+	async publish(input: PublishPullRequestInput): Promise<PullRequestResult> {
+		const sourceBranch = await this.currentBranch(input.worktreePath);
+		if (!sourceBranch) {
+			return {
+				ok: false,
+				statusCode: 400,
+				error: 'Worktree is not on a branch',
+			};
+		}
+
+		let context: ForgeContext;
+		try {
+			context = await this.resolveForgeContext(input.worktreePath);
+		} catch (error) {
+			return {ok: false, statusCode: 400, error: errorMessage(error)};
+		}
+
+		const targetBranch =
+			input.targetBranch?.trim() ||
+			(await this.defaultTargetBranch(input.worktreePath));
+		if (targetBranch === sourceBranch) {
+			return {
+				ok: false,
+				statusCode: 400,
+				error: `Cannot open a pull request from ${sourceBranch} into itself`,
+			};
+		}
+
+		try {
+			await git(
+				input.worktreePath,
+				['push', '--set-upstream', context.remote, sourceBranch],
+				PUSH_TIMEOUT_MS,
+			);
+		} catch (error) {
+			return {
+				ok: false,
+				statusCode: 500,
+				error: `git push failed: ${errorMessage(error)}`,
+			};
+		}
+
+		const provider = this.providerFactory(context.repository, context.token);
+		try {
+			const existing = await provider.findOpenPullRequest(sourceBranch);
+			let created = false;
+			let pullRequest = existing;
+			if (!pullRequest) {
+				const draft = await this.draft(input.worktreePath);
+				const title = input.title?.trim() || draft.title;
+				if (!title) {
+					return {ok: false, statusCode: 400, error: 'title is required'};
+				}
+				pullRequest = await provider.createPullRequest({
+					title,
+					body: input.body ?? draft.body,
+					sourceBranch,
+					targetBranch,
+					draft: input.draft,
+				});
+				created = true;
+			}
+
+			logger.info(
+				`[PullRequests] ${created ? 'Opened' : 'Found open'} ${context.repository.kind} pull request #${pullRequest.number} for ${sourceBranch}`,
+			);
+			return {
+				ok: true,
+				created,
+				pullRequest: this.store.upsertWorktreePullRequest({
+					worktreePath: input.worktreePath,
+					provider: context.repository.kind,
+					repository: context.repository.path,
+					number: pullRequest.number,
+					url: pullRequest.url,
+					title: pullRequest.title,
+					state: pullRequest.state,
+					sourceBranch,
+					targetBranch,
+				}),
+			};
+		} catch (error) {
+			return {ok: false, statusCode: 502, error: errorMessage(error)};
+		}
+	}
+
+	/** Fetch the current state of the worktree's pull request from the forge. */
+	async refresh(worktreePath: string): Promise<PullRequestResult> {
+		const record = this.store.getWorktreePullRequest(worktreePath);
+		if (!record) {
+			return {
+				ok: false,
+				statusCode: 404,
+				error: 'No pull request for this worktree',
+			};
+		}
+
+		try {
+			const context = await this.resolveForgeContext(worktreePath);
+			const provider = this.providerFactory(context.repository, context.token);
+			const pullRequest = await provider.getPullRequest(record.number);
+			return {
+				ok: true,
+				created: false,
+				pullRequest: this.store.upsertWorktreePullRequest({
+					...record,
+					url: pullRequest.url,
+					title: pullRequest.title,
+					state: pullRequest.state,
+				}),
+			};
+		} catch (error) {
+			return {ok: false, statusCode: 502, error: errorMessage(error)};
+		}
+	}
+
+	private async currentBranch(worktreePath: string): Promise<string | null> {
+		const branch = await git(worktreePath, [
+			'rev-parse',
+			'--abbrev-ref',
+			'HEAD',
+		]).catch(() => '');
+		return branch && branch !== 'HEAD' ? branch : null;
+	}
+
+	private forgeSettings(worktreePath: string) {
+		const globalForge = configurationManager.getForgeConfig();
+		const projectForge =
+			loadProjectConfig(resolveProjectConfigRoot(worktreePath))?.forge || {};
+		return {
+			provider: projectForge.provider ?? globalForge.provider,
+			apiUrl: projectForge.apiUrl ?? globalForge.apiUrl,
+			remote: projectForge.remote ?? globalForge.remote ?? 'origin',
+			targetBranch: projectForge.targetBranch,
+			token: globalForge.token,
+			// .cacd.json is committed with the repository, so it is not
+			// trusted to choose where the user's token is sent
+			apiUrlFromProject: projectForge.apiUrl !== undefined,
+		};
+	}
+
+	private async resolveForgeContext(
+		worktreePath: string,
+	): Promise<ForgeContext> {
+		const settings = this.forgeSettings(worktreePath);
+		const remoteUrl = await git(worktreePath, [
+			'remote',
+			'get-url',
+			settings.remote,
+		]).catch(() => {
+			throw new Error(`Git remote "${settings.remote}" is not configured`);
+		});
+		const repository = resolveForgeRepository(remoteUrl, settings);
+		if (!repository) {
+			throw new Error(
+				`Cannot tell which forge hosts ${remoteUrl}; set forge.provider and forge.apiUrl`,
+			);
+		}
+		if (settings.apiUrlFromProject && !isApiUrlOnRemoteHost(repository)) {
+			throw new Error(
+				`forge.apiUrl ${repository.apiUrl} in the project config is not on the remote's host ${repository.host}; set it in the cacd config to use it`,
+			);
+		}
+		const token = settings.token || forgeTokenFromEnv(repository.kind);
+		if (!token) {
+			throw new Error(
+				`No API token for ${repository.kind}; set forge.token in the cacd config or ${repository.kind.toUpperCase()}_TOKEN`,
+			);
+		}
+		return {remote: settings.remote, repository, token};
+	}
+
+	private async defaultTargetBranch(worktreePath: string): Promise<string> {
+		const settings = this.forgeSettings(worktreePath);
+		if (settings.targetBranch) return settings.targetBranch;
+
+		const parentBranch = await Effect.runPromise(
+			getWorktreeParentBranch(worktreePath),
+		);
+		if (parentBranch) return parentBranch;
+
+		const remoteHead = await git(worktreePath, [
+			'symbolic-ref',
+			'--short',
+			`refs/remotes/${settings.remote}/HEAD`,
+		]).catch(() => '');
+		return remoteHead ? remoteHead.slice(settings.remote.length + 1) : 'main';
+	}
+
+	private findTask(
+		worktreePath: string,
+		session: SessionRecord | null,
+		branch: string | null,
+	): TdIssue | null {
+		const projectState = tdService.resolveProjectState(worktreePath);
+		if (!projectState.enabled || !projectState.dbPath) return null;
+
+		const reader = new TdReader(projectState.dbPath);
+		try {
+			if (session?.tdTaskId) {
+				const task = reader.getIssue(session.tdTaskId);
+				if (task) return task;
+			}
+			// Same matching as the task card: created branch or id in the folder name
+			const folderName = worktreePath.split('/').pop() || '';
+			return (
+				reader
+					.listIssues()
+					.find(
+						issue =>
+							(branch && issue.created_branch === branch) ||
+							folderName.includes(issue.id),
+					) || null
+			);
+		} catch (error) {
+			logger.debug(`[PullRequests] td lookup failed: ${String(error)}`);
+			return null;
+		} finally {
+			reader.close();
+		}
+	}
+
+	/** The agent's last reply, which usually sums up the work it did. */
+	private async summarizeConversation(
+		session: SessionRecord | null,
+	): Promise<string | null> {
+		if (!session?.agentSessionPath) return null;
+		const adapter = resolveAdapterForSession(session);
+		if (!adapter) return null;
+
+		try {
+			const messages = await adapter.parseMessages(session.agentSessionPath);
+			const lastReply = [...messages]
+				.reverse()
+				.find(
+					message => message.role === 'assistant' && message.content.trim(),
+				);
+			return lastReply
+				? truncate(lastReply.content.trim(), MAX_SUMMARY_LENGTH)
+				: null;
+		} catch (error) {
+			logger.debug(
+				`[PullRequests] Failed to read conversation ${session.id}: ${String(error)}`,
+			);
+			return null;
+		}
+	}
+}
+
+export const pullRequestService = new PullRequestService();
@@ -0,0 +1,143 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {existsSync, unlinkSync} from 'fs';
+import path from 'path';
+import {tmpdir} from 'os';
+import {SessionStore} from './sessionStore.js';
+import {ReviewComments, formatReviewPrompt} from './reviewComments.js';
+
+const {mockExecFileSync} = vi.hoisted(() => ({
+	mockExecFileSync: vi.fn(),
+}));
+
+vi.mock('child_process', async importOriginal => ({
+	...(await importOriginal<typeof import('child_process')>()),
+	execFileSync: mockExecFileSync,
+}));
+
+describe('formatReviewPrompt', () => {
+	it('lists each comment with location, snippet and note', () => {
+		expect(
+			formatReviewPrompt(
+				[
+					{
+						filePath: 'src/a.ts',
+						line: 12,
+						side: 'new',
+						snippet: '  const x = 1;',
+						body: 'Use a named constant.\nAnd add a test.',
+					},
+					{
+						filePath: 'src/b.ts',
+						line: 3,
+						side: 'old',
+						snippet: '',
+						body: 'Why was this removed?',
+					},
+				],
+				'abcdef1234567',
+			),
+		).toBe(
+			[
+				'Please address these review comments on your changes (reviewed at abcdef1):',
+				'',
+				'1. src/a.ts:12',
+				'   > const x = 1;',
+				'   Use a named constant.',
+				'   And add a test.',
+				'',
+				'2. src/b.ts:3 (removed line)',
+				'   Why was this removed?',
+				'',
+				'When you are done, summarize what you changed for each comment.',
+			].join('\n'),
+		);
+	});
+});
+
+describe('ReviewComments', () => {
+	const dbPath = path.join(
+		tmpdir(),
+		`cacd-review-comments-test-${process.pid}-${Date.now()}.db`,
+	);
+	let store: SessionStore;
+	let review: ReviewComments;
+
+	beforeEach(() => {
+		store = new SessionStore(dbPath);
+		review = new ReviewComments(store);
+		mockExecFileSync.mockReset().mockReturnValue('commit-1\n');
+	});
+
+	afterEach(() => {
+		store.close();
+		for (const suffix of ['', '-shm', '-wal']) {
+			const filePath = `${dbPath}${suffix}`;
+			if (existsSync(filePath)) {
+				unlinkSync(filePath);
+			}
+		}
+	});
+
+	it('validates and stores comments against the current commit', () => {
+		expect(
+			review.add({worktreePath: '/wt', filePath: 'a.ts', line: 0, body: 'x'}),
+		).toMatchObject({ok: false, statusCode: 400});
+		expect(
+			review.add({worktreePath: '/wt', filePath: 'a.ts', line: 1, body: ' '}),
+		).toMatchObject({ok: false, error: 'body is required'});
+
+		const added = review.add({
+			worktreePath: '/wt',
+			filePath: 'a.ts',
+			line: 4,
+			snippet: 'return null',
+			body: ' Handle the error ',
+		});
+		expect(added).toMatchObject({
+			ok: true,
+			comment: {
+				commitSha: 'commit-1',
+				side: 'new',
+				body: 'Handle the error',
+				sentAt: null,
+			},
+		});
+
+		const id = added.ok ? added.comment.id : '';
+		expect(review.update(id, 'Throw instead')).toMatchObject({
+			ok: true,
+			comment: {body: 'Throw instead'},
+		});
+		expect(review.update('missing', 'x')).toMatchObject({statusCode: 404});
+
+		// A new commit starts a fresh review
+		mockExecFileSync.mockReturnValue('commit-2\n');
+		expect(review.list('/wt')).toEqual({commitSha: 'commit-2', comments: []});
+		expect(review.list('/wt', {allCommits: true}).comments).toHaveLength(1);
+
+		expect(review.remove(id)).toBe(true);
+		expect(review.remove(id)).toBe(false);
+	});
+
+	it('builds the review from unsent comments only', () => {
+		review.add({worktreePath: '/wt', filePath: 'b.ts', line: 9, body: 'two'});
+		review.add({worktreePath: '/wt', filePath: 'a.ts', line: 2, body: 'one'});
+		review.add({worktreePath: '/other', filePath: 'a.ts', line: 1, body: 'x'});
+
+		const built = review.buildReview('/wt');
+		expect(built?.comments.map(comment => comment.body)).toEqual([
+			'one',
+			'two',
+		]);
+		expect(built?.prompt).toContain('1. a.ts:2');
+
+		review.markSent(built!.comments);
+		expect(review.buildReview('/wt')).toBeNull();
+		expect(
+			review.buildReview('/wt', {includeSent: true})?.comments,
+		).toHaveLength(2);
+		expect(
+			review.list('/wt').comments.every(comment => comment.sentAt !== null),
+		).toBe(true);
+	});
+});
@@ -0,0 +1,163 @@
+import {randomUUID} from 'crypto';
+import {execFileSync} from 'child_process';
+import {
+	sessionStore,
+	SessionStore,
+	ReviewCommentRecord,
+	ReviewCommentSide,
+} from './sessionStore.js';
+
+const MAX_SNIPPET_LENGTH = 500;
+
+export interface AddReviewCommentInput {
+	worktreePath: string;
+	filePath: string;
+	line: number;
+	side?: ReviewCommentSide;
+	snippet?: string;
+	body: string;
+}
+
+export type ReviewCommentResult =
+	| {ok: true; comment: ReviewCommentRecord}
+	| {ok: false; statusCode: 400 | 404; error: string};
+
+/** HEAD of a worktree, or null when it has no commits yet. */
+export function resolveHeadCommit(worktreePath: string): string | null {
+	try {
+		const output = execFileSync(
+			'git',
+			['-C', worktreePath, 'rev-parse', '--verify', '--quiet', 'HEAD'],
+			{encoding: 'utf-8', timeout: 3000, stdio: ['ignore', 'pipe', 'ignore']},
+		).trim();
+		return output.length > 0 ? output : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Turn review comments into a prompt for the agent working in the worktree:
+ * one numbered item per comment with its location, the line it refers to
+ * and the note.
+ */
+export function formatReviewPrompt(
+	comments: Array<
+		Pick<ReviewCommentRecord, 'filePath' | 'line' | 'side' | 'snippet' | 'body'>
+	>,
+	commitSha?: string | null,
+): string {
+	const revision = commitSha ? ` (reviewed at ${commitSha.slice(0, 7)})` : '';
+	const lines = [
+		`Please address these review comments on your changes${revision}:`,
+	];
+
+	comments.forEach((comment, index) => {
+		const location = `${comment.filePath}:${comment.line}${comment.side === 'old' ? ' (removed line)' : ''}`;
+		lines.push('', `${index + 1}. ${location}`);
+		if (comment.snippet.trim()) {
+			lines.push(`   > ${comment.snippet.trim()}`);
+		}
+		for (const noteLine of comment.body.trim().split('\n')) {
+			lines.push(`   ${noteLine}`);
+		}
+	});
+
+	lines.push(
+		'',
+		'When you are done, summarize what you changed for each comment.',
+	);
+	return lines.join('\n');
+}
+
+/**
+ * Line-anchored review comments on worktree diffs. Comments belong to the
+ * worktree's HEAD at the time they were written, so a new commit starts a
+ * fresh review while older comments stay in sessions.db.
+ */
+export class ReviewComments {
+	constructor(private readonly store: SessionStore = sessionStore) {}
+
+	list(
+		worktreePath: string,
+		options: {filePath?: string; allCommits?: boolean} = {},
+	): {commitSha: string | null; comments: ReviewCommentRecord[]} {
+		const commitSha = resolveHeadCommit(worktreePath);
+		const comments = this.store.listReviewComments({
+			worktreePath,
+			commitSha: options.allCommits ? undefined : commitSha,
+			filePath: options.filePath,
+		});
+		return {commitSha, comments};
+	}
+
+	add(input: AddReviewCommentInput): ReviewCommentResult {
+		const body = input.body?.trim();
+		if (!body) {
+			return {ok: false, statusCode: 400, error: 'body is required'};
+		}
+		if (!input.filePath?.trim()) {
+			return {ok: false, statusCode: 400, error: 'file is required'};
+		}
+		if (!Number.isInteger(input.line) || input.line < 1) {
+			return {
+				ok: false,
+				statusCode: 400,
+				error: 'line must be a positive integer',
+			};
+		}
+
+		const comment = this.store.createReviewComment({
+			id: randomUUID(),
+			worktreePath: input.worktreePath,
+			commitSha: resolveHeadCommit(input.worktreePath),
+			filePath: input.filePath.trim(),
+			line: input.line,
+			side: input.side === 'old' ? 'old' : 'new',
+			snippet: (input.snippet || '').slice(0, MAX_SNIPPET_LENGTH),
+			body,
+		});
+		return {ok: true, comment};
+	}
+
+	update(id: string, body: string): ReviewCommentResult {
+		if (!body?.trim()) {
+			return {ok: false, statusCode: 400, error: 'body is required'};
+		}
+		const comment = this.store.updateReviewComment(id, body.trim());
+		if (!comment) {
+			return {ok: false, statusCode: 404, error: 'Comment not found'};
+		}
+		return {ok: true, comment};
+	}
+
+	remove(id: string): boolean {
+		return this.store.deleteReviewComment(id);
+	}
+
+	/**
+	 * Build the review prompt from the current commit's comments.
+	 * @returns null when there is nothing to send
+	 */
+	buildReview(
+		worktreePath: string,
+		options: {includeSent?: boolean} = {},
+	): {prompt: string; comments: ReviewCommentRecord[]} | null {
+		const commitSha = resolveHeadCommit(worktreePath);
+		const comments = this.store.listReviewComments({
+			worktreePath,
+			commitSha,
+			unsentOnly: !options.includeSent,
+		});
+		if (comments.length === 0) {
+			return null;
+		}
+		return {prompt: formatReviewPrompt(comments, commitSha), comments};
+	}
+
+	markSent(comments: ReviewCommentRecord[]): void {
+		this.store.markReviewCommentsSent(comments.map(comment => comment.id));
+	}
+}
+
+export const reviewComments = new ReviewComments();
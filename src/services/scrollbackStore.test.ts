@@ -0,0 +1,143 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {
+	appendFileSync,
+	existsSync,
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+	utimesSync,
+} from 'fs';
+import {tmpdir} from 'os';
+import path from 'path';
+import {ScrollbackStore} from './scrollbackStore.js';
+
+async function flush(store: ScrollbackStore, sessionId: string) {
+	// stop() ends the stream; wait a tick for the write to land on disk
+	store.stop(sessionId);
+	await new Promise(resolve => setTimeout(resolve, 20));
+}
+
+describe('ScrollbackStore', () => {
+	let baseDir: string;
+	let store: ScrollbackStore;
+
+	beforeEach(() => {
+		baseDir = mkdtempSync(path.join(tmpdir(), 'cacd-scrollback-'));
+		store = new ScrollbackStore(baseDir);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		rmSync(baseDir, {recursive: true, force: true});
+	});
+
+	it('records output as an asciicast file that can be replayed', async () => {
+		store.start('session-1', {cols: 120, rows: 40});
+		store.append('session-1', 'hello ');
+		store.append('session-1', '\x1b[32mworld\x1b[0m');
+		await flush(store, 'session-1');
+
+		const filePath = store.getPath('session-1')!;
+		const [headerLine] = readFileSync(filePath, 'utf8').split('\n');
+		expect(JSON.parse(headerLine!)).toEqual(
+			expect.objectContaining({version: 2, width: 120, height: 40}),
+		);
+
+		const replay = await store.readReplay(filePath);
+		expect(replay?.events.map(([, data]) => data)).toEqual([
+			'hello ',
+			'\x1b[32mworld\x1b[0m',
+		]);
+		expect(replay?.truncated).toBe(false);
+	});
+
+	it('resumes an existing recording with offsets from the original start', async () => {
+		vi.useFakeTimers({toFake: ['Date']});
+		vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+		store.start('session-2', {cols: 80, rows: 24});
+		store.append('session-2', 'before restart');
+		await flush(store, 'session-2');
+
+		vi.setSystemTime(new Date('2026-01-01T00:01:00Z'));
+		const restarted = new ScrollbackStore(baseDir);
+		restarted.start('session-2', {cols: 80, rows: 24});
+		restarted.append('session-2', 'after restart');
+		await flush(restarted, 'session-2');
+
+		const replay = await restarted.readReplay(restarted.getPath('session-2')!);
+		expect(replay?.events).toEqual([
+			[0, 'before restart'],
+			[60, 'after restart'],
+		]);
+		expect(replay?.duration).toBe(60);
+	});
+
+	it('skips partially written lines', async () => {
+		store.start('session-3', {cols: 80, rows: 24});
+		store.append('session-3', 'ok');
+		await flush(store, 'session-3');
+
+		const filePath = store.getPath('session-3')!;
+		appendFileSync(filePath, '[1.5, "o", "cut of');
+
+		expect((await store.readReplay(filePath))?.events).toHaveLength(1);
+	});
+
+	it('returns null for sessions without a recording', async () => {
+		expect(
+			await store.readReplay(path.join(baseDir, 'missing.cast')),
+		).toBeNull();
+	});
+
+	it('reads long recordings in pages', async () => {
+		const chunk = 'x'.repeat(200 * 1024);
+		store.start('session-4', {cols: 80, rows: 24});
+		for (let i = 0; i < 8; i++) {
+			store.append('session-4', chunk);
+		}
+		await flush(store, 'session-4');
+
+		const filePath = store.getPath('session-4')!;
+		const first = await store.readReplay(filePath);
+		expect(first?.events.length).toBeGreaterThan(0);
+		expect(first?.events.length).toBeLessThan(8);
+		expect(first?.nextCursor).toBeDefined();
+
+		const second = await store.readReplay(filePath, first!.nextCursor);
+		expect(second?.header).toEqual(first?.header);
+		expect(second?.nextCursor).toBeUndefined();
+		expect(first!.events.length + second!.events.length).toBe(8);
+	});
+
+	it('deletes old recordings and the oldest ones over the size cap', async () => {
+		const now = Date.now();
+		const ages = {
+			old: 40 * 24 * 60 * 60 * 1000,
+			'older-recent': 2 * 60 * 60 * 1000,
+			newest: 60 * 60 * 1000,
+		};
+		for (const sessionId of Object.keys(ages)) {
+			store.start(sessionId, {cols: 80, rows: 24});
+			store.append(sessionId, 'x'.repeat(1000));
+			await flush(store, sessionId);
+		}
+		for (const [sessionId, ageMs] of Object.entries(ages)) {
+			const time = new Date(now - ageMs);
+			utimesSync(store.getPath(sessionId)!, time, time);
+		}
+		store.start('live', {cols: 80, rows: 24});
+		store.append('live', 'x'.repeat(5000));
+
+		expect(
+			await store.prune({
+				maxAgeMs: 30 * 24 * 60 * 60 * 1000,
+				maxTotalBytes: 1500,
+			}),
+		).toBe(2);
+		expect(existsSync(store.getPath('old')!)).toBe(false);
+		expect(existsSync(store.getPath('older-recent')!)).toBe(false);
+		expect(existsSync(store.getPath('newest')!)).toBe(true);
+		expect(existsSync(store.getPath('live')!)).toBe(true);
+		store.stop('live');
+	});
+});
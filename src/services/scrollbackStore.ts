@@ -0,0 +1,347 @@
+import {
+	closeSync,
+	createWriteStream,
+	existsSync,
+	mkdirSync,
+	openSync,
+	readSync,
+	statSync,
+	type WriteStream,
+} from 'fs';
+import {open, readdir, stat, unlink} from 'fs/promises';
+import path from 'path';
+import {getConfigDir} from '../utils/configDir.js';
+import {logger} from '../utils/logger.js';
+
+const SCROLLBACK_DIRNAME = 'scrollback';
+const SCROLLBACK_EXTENSION = '.cast';
+const MAX_SCROLLBACK_BYTES = 50 * 1024 * 1024; // 50MB per session
+const MAX_TOTAL_SCROLLBACK_BYTES = 1024 * 1024 * 1024; // 1GB for all sessions
+const MAX_SCROLLBACK_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const REPLAY_PAGE_BYTES = 1024 * 1024;
+const HEADER_PROBE_BYTES = 4096;
+const TRUNCATION_MARKER = 'scrollback limit reached';
+
+/**
+ * Header line of a scrollback file (asciicast v2 compatible, so recordings
+ * can also be played with `asciinema play`).
+ */
+export interface ScrollbackHeader {
+	version: 2;
+	width: number;
+	height: number;
+	timestamp: number; // Unix seconds when recording started
+	sessionId?: string;
+}
+
+/** [seconds since recording start, output chunk] */
+export type ScrollbackEvent = [number, string];
+
+/**
+ * One page of a recording. `duration` is the time of the last event in the
+ * page; `nextCursor` is set while more of the file is left to read.
+ */
+export interface ScrollbackReplay {
+	header: ScrollbackHeader;
+	events: ScrollbackEvent[];
+	duration: number;
+	truncated: boolean;
+	nextCursor?: number;
+}
+
+export interface ScrollbackPruneOptions {
+	maxAgeMs?: number;
+	maxTotalBytes?: number;
+}
+
+interface ScrollbackRecorder {
+	stream: WriteStream;
+	startedAtMs: number;
+	bytes: number;
+	truncated: boolean;
+}
+
+/** Header and its length in bytes (including the newline) */
+function parseHeaderProbe(
+	buffer: Buffer,
+	bytesRead: number,
+): {header: ScrollbackHeader; bytes: number} | null {
+	const newline = buffer.subarray(0, bytesRead).indexOf(0x0a);
+	const end = newline === -1 ? bytesRead : newline;
+	if (end === 0) return null;
+	try {
+		return {
+			header: JSON.parse(buffer.toString('utf8', 0, end)) as ScrollbackHeader,
+			bytes: end + 1,
+		};
+	} catch {
+		return null;
+	}
+}
+
+function readHeaderLine(filePath: string): ScrollbackHeader | null {
+	let fd: number | undefined;
+	try {
+		fd = openSync(filePath, 'r');
+		const buffer = Buffer.alloc(HEADER_PROBE_BYTES);
+		const bytesRead = readSync(fd, buffer, 0, HEADER_PROBE_BYTES, 0);
+		return parseHeaderProbe(buffer, bytesRead)?.header ?? null;
+	} catch {
+		return null;
+	} finally {
+		if (fd !== undefined) closeSync(fd);
+	}
+}
+
+/**
+ * Streams session terminal output to disk so transcripts survive daemon
+ * restarts. One append-only file per session, keyed by session ID.
+ */
+export class ScrollbackStore {
+	private readonly recorders = new Map<string, ScrollbackRecorder>();
+
+	constructor(private readonly baseDir?: string) {}
+
+	private getDirectory(): string | null {
+		if (this.baseDir) return this.baseDir;
+		try {
+			return path.join(getConfigDir(), SCROLLBACK_DIRNAME);
+		} catch {
+			return null;
+		}
+	}
+
+	getPath(sessionId: string): string | null {
+		const directory = this.getDirectory();
+		if (!directory) return null;
+		const safeId = sessionId.replace(/[^A-Za-z0-9._-]/g, '_');
+		return path.join(directory, `${safeId}${SCROLLBACK_EXTENSION}`);
+	}
+
+	isRecording(sessionId: string): boolean {
+		return this.recorders.has(sessionId);
+	}
+
+	/**
+	 * Begin (or resume) recording for a session. Resuming keeps the original
+	 * start time so event offsets stay monotonic across process restarts.
+	 */
+	start(sessionId: string, size: {cols: number; rows: number}): void {
+		if (this.recorders.has(sessionId)) return;
+
+		const filePath = this.getPath(sessionId);
+		if (!filePath) return;
+
+		try {
+			mkdirSync(path.dirname(filePath), {recursive: true});
+
+			const existingHeader = existsSync(filePath)
+				? readHeaderLine(filePath)
+				: null;
+			const stream = createWriteStream(filePath, {flags: 'a'});
+			stream.on('error', error => {
+				logger.warn(
+					`[ScrollbackStore] Write failed for ${sessionId}: ${error.message}`,
+				);
+				this.recorders.delete(sessionId);
+			});
+
+			let startedAtMs = Date.now();
+			let bytes = 0;
+			if (existingHeader) {
+				startedAtMs = existingHeader.timestamp * 1000;
+				bytes = statSync(filePath).size;
+			} else {
+				const header: ScrollbackHeader = {
+					version: 2,
+					width: size.cols,
+					height: size.rows,
+					timestamp: Math.floor(startedAtMs / 1000),
+					sessionId,
+				};
+				const headerLine = `${JSON.stringify(header)}\n`;
+				stream.write(headerLine);
+				bytes = Buffer.byteLength(headerLine);
+			}
+
+			this.recorders.set(sessionId, {
+				stream,
+				startedAtMs,
+				bytes,
+				truncated: bytes >= MAX_SCROLLBACK_BYTES,
+			});
+		} catch (error) {
+			logger.warn(
+				`[ScrollbackStore] Failed to start recording for ${sessionId}: ${String(error)}`,
+			);
+		}
+	}
+
+	append(sessionId: string, data: string): void {
+		const recorder = this.recorders.get(sessionId);
+		if (!recorder || recorder.truncated) return;
+
+		const elapsed = Number(
+			Math.max(0, (Date.now() - recorder.startedAtMs) / 1000).toFixed(3),
+		);
+		const line = `${JSON.stringify([elapsed, 'o', data])}\n`;
+		const lineBytes = Buffer.byteLength(line);
+		if (recorder.bytes + lineBytes > MAX_SCROLLBACK_BYTES) {
+			recorder.truncated = true;
+			// asciicast marker event, so readers can tell the recording was cut off
+			recorder.stream.write(
+				`${JSON.stringify([elapsed, 'm', TRUNCATION_MARKER])}\n`,
+			);
+			logger.warn(
+				`[ScrollbackStore] Scrollback for ${sessionId} reached ${MAX_SCROLLBACK_BYTES} bytes; recording stopped`,
+			);
+			return;
+		}
+
+		recorder.bytes += lineBytes;
+		recorder.stream.write(line);
+	}
+
+	stop(sessionId: string): void {
+		const recorder = this.recorders.get(sessionId);
+		if (!recorder) return;
+		this.recorders.delete(sessionId);
+		recorder.stream.end();
+		void this.prune().catch(error => {
+			logger.warn(`[ScrollbackStore] Pruning failed: ${String(error)}`);
+		});
+	}
+
+	/**
+	 * Delete recordings older than `maxAgeMs`, then the oldest ones until all
+	 * of them fit in `maxTotalBytes`. Recordings in progress are kept.
+	 * @returns number of deleted recordings
+	 */
+	async prune({
+		maxAgeMs = MAX_SCROLLBACK_AGE_MS,
+		maxTotalBytes = MAX_TOTAL_SCROLLBACK_BYTES,
+	}: ScrollbackPruneOptions = {}): Promise<number> {
+		const directory = this.getDirectory();
+		if (!directory || !existsSync(directory)) return 0;
+
+		const recording = new Set(
+			[...this.recorders.keys()].map(sessionId => this.getPath(sessionId)),
+		);
+		const files: {filePath: string; size: number; mtimeMs: number}[] = [];
+		for (const name of await readdir(directory)) {
+			const filePath = path.join(directory, name);
+			if (!name.endsWith(SCROLLBACK_EXTENSION) || recording.has(filePath)) {
+				continue;
+			}
+			try {
+				const {size, mtimeMs} = await stat(filePath);
+				files.push({filePath, size, mtimeMs});
+			} catch {
+				// Deleted in the meantime
+			}
+		}
+
+		// Newest first, so the oldest recordings are the ones over the cap
+		files.sort((a, b) => b.mtimeMs - a.mtimeMs);
+		const cutoff = Date.now() - maxAgeMs;
+		let totalBytes = 0;
+		let removed = 0;
+		for (const file of files) {
+			totalBytes += file.size;
+			if (file.mtimeMs >= cutoff && totalBytes <= maxTotalBytes) continue;
+			try {
+				await unlink(file.filePath);
+				removed++;
+			} catch (error) {
+				logger.warn(
+					`[ScrollbackStore] Failed to delete ${file.filePath}: ${String(error)}`,
+				);
+			}
+		}
+		if (removed > 0) {
+			logger.info(`[ScrollbackStore] Deleted ${removed} old recording(s)`);
+		}
+		return removed;
+	}
+
+	/**
+	 * Load a page of a recording for replay, starting at byte offset `cursor`
+	 * (a previous page's `nextCursor`). Malformed lines (e.g. a partial write
+	 * at crash time) are skipped rather than failing the whole replay.
+	 */
+	async readReplay(
+		filePath: string,
+		cursor = 0,
+	): Promise<ScrollbackReplay | null> {
+		let handle;
+		try {
+			handle = await open(filePath, 'r');
+		} catch {
+			return null;
+		}
+
+		try {
+			const probe = Buffer.alloc(HEADER_PROBE_BYTES);
+			const {bytesRead: probeBytes} = await handle.read(
+				probe,
+				0,
+				HEADER_PROBE_BYTES,
+				0,
+			);
+			const parsedHeader = parseHeaderProbe(probe, probeBytes);
+			if (!parsedHeader) return null;
+
+			// Read whole lines only; a line longer than a page grows the page
+			const {size} = await handle.stat();
+			const start = Math.max(cursor, parsedHeader.bytes);
+			let pageBytes = REPLAY_PAGE_BYTES;
+			let text = '';
+			let end = start;
+			while (end < size) {
+				const buffer = Buffer.alloc(Math.min(pageBytes, size - start));
+				const {bytesRead} = await handle.read(buffer, 0, buffer.length, start);
+				const lastNewline = buffer.subarray(0, bytesRead).lastIndexOf(0x0a);
+				if (lastNewline === -1 && start + bytesRead < size) {
+					pageBytes *= 2;
+					continue;
+				}
+				const used = lastNewline === -1 ? bytesRead : lastNewline + 1;
+				text = buffer.toString('utf8', 0, used);
+				end = start + used;
+				break;
+			}
+
+			const events: ScrollbackEvent[] = [];
+			let truncated = false;
+			for (const line of text.split('\n')) {
+				if (!line) continue;
+				try {
+					const [time, type, data] = JSON.parse(line) as [
+						number,
+						string,
+						string,
+					];
+					if (type === 'o' && typeof time === 'number') {
+						events.push([time, data]);
+					} else if (type === 'm' && data === TRUNCATION_MARKER) {
+						truncated = true;
+					}
+				} catch {
+					// Skip partial lines
+				}
+			}
+
+			return {
+				header: parsedHeader.header,
+				events,
+				duration: events.length > 0 ? events[events.length - 1]![0] : 0,
+				truncated,
+				nextCursor: end < size ? end : undefined,
+			};
+		} finally {
+			await handle.close();
+		}
+	}
+}
+
+export const scrollbackStore = new ScrollbackStore();
@@ -0,0 +1,21 @@
+import {adapterRegistry, type AgentAdapter} from '../adapters/index.js';
+import {configurationManager} from './configurationManager.js';
+import type {SessionRecord} from './sessionStore.js';
+
+/**
+ * Adapter that reads a recorded session's agent files: the built-in adapter
+ * for its agent type, or a generic one for custom agent profiles.
+ */
+export function resolveAdapterForSession(
+	session: Pick<SessionRecord, 'agentType' | 'agentProfileId'>,
+): AgentAdapter | null {
+	const adapter = adapterRegistry.getByAgentType(session.agentType);
+	if (adapter) return adapter;
+
+	const configuredAgent = configurationManager.getAgentById(
+		session.agentProfileId,
+	);
+	return configuredAgent
+		? adapterRegistry.createGeneric(configuredAgent)
+		: null;
+}
@@ -0,0 +1,156 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {mkdtempSync, rmSync, statSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import path from 'path';
+import type {AgentAdapter} from '../adapters/index.js';
+import {
+	SessionFilePoller,
+	type SessionFileCandidate,
+} from './sessionFilePoller.js';
+
+const {mockResolveAdapterForSession} = vi.hoisted(() => ({
+	mockResolveAdapterForSession: vi.fn(),
+}));
+
+vi.mock('./sessionAdapter.js', () => ({
+	resolveAdapterForSession: mockResolveAdapterForSession,
+}));
+
+vi.mock('../utils/logger.js', () => ({
+	logger: {
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	},
+}));
+
+interface TestCandidate extends SessionFileCandidate {
+	readMtime: number | null;
+}
+
+class TestPoller extends SessionFilePoller<TestCandidate> {
+	candidates: TestCandidate[] = [];
+	readonly readFileMock = vi.fn(
+		async (
+			_candidate: TestCandidate,
+			_adapter: AgentAdapter,
+			_mtimeMs: number,
+		) => {},
+	);
+
+	constructor() {
+		super({name: 'TestPoller', initialDelayMs: 1000, intervalMs: 5000});
+	}
+
+	poll(): Promise<number> {
+		return this.readChangedFiles(this.candidates);
+	}
+
+	protected getReadMtime(candidate: TestCandidate): number | null {
+		return candidate.readMtime;
+	}
+
+	protected readFile(
+		candidate: TestCandidate,
+		adapter: AgentAdapter,
+		mtimeMs: number,
+	): Promise<void> {
+		return this.readFileMock(candidate, adapter, mtimeMs);
+	}
+}
+
+describe('SessionFilePoller', () => {
+	const adapter = {id: 'claude'} as AgentAdapter;
+	let tmpDir: string;
+	let poller: TestPoller;
+
+	const addCandidate = (
+		sessionId: string,
+		options: {exists?: boolean; readMtime?: 'current' | null} = {},
+	): TestCandidate => {
+		const agentSessionPath = path.join(tmpDir, `${sessionId}.jsonl`);
+		if (options.exists !== false) {
+			writeFileSync(agentSessionPath, '{}\n');
+		}
+		const candidate: TestCandidate = {
+			sessionId,
+			agentType: 'claude',
+			agentProfileId: 'claude',
+			agentSessionPath,
+			readMtime:
+				options.readMtime === 'current'
+					? Math.round(statSync(agentSessionPath).mtimeMs)
+					: null,
+		};
+		poller.candidates.push(candidate);
+		return candidate;
+	};
+
+	beforeEach(() => {
+		tmpDir = mkdtempSync(path.join(tmpdir(), 'cacd-session-file-poller-'));
+		poller = new TestPoller();
+		mockResolveAdapterForSession.mockReset().mockReturnValue(adapter);
+	});
+
+	afterEach(() => {
+		poller.stop();
+		vi.useRealTimers();
+		rmSync(tmpDir, {recursive: true, force: true});
+	});
+
+	it('reads changed files with their mtime', async () => {
+		const changed = addCandidate('changed');
+
+		expect(await poller.poll()).toBe(1);
+		expect(poller.readFileMock).toHaveBeenCalledWith(
+			changed,
+			adapter,
+			Math.round(statSync(changed.agentSessionPath).mtimeMs),
+		);
+	});
+
+	it('skips files that did not change since they were last read', async () => {
+		addCandidate('unchanged', {readMtime: 'current'});
+
+		expect(await poller.poll()).toBe(0);
+		expect(poller.readFileMock).not.toHaveBeenCalled();
+	});
+
+	it('skips removed files and sessions without an adapter', async () => {
+		addCandidate('removed', {exists: false});
+		const unknown = addCandidate('unknown-agent');
+		mockResolveAdapterForSession.mockImplementation(candidate =>
+			candidate === unknown ? null : adapter,
+		);
+
+		expect(await poller.poll()).toBe(0);
+		expect(poller.readFileMock).not.toHaveBeenCalled();
+	});
+
+	it('keeps reading other files when one fails', async () => {
+		addCandidate('broken');
+		addCandidate('fine');
+		poller.readFileMock.mockRejectedValueOnce(new Error('parse error'));
+
+		expect(await poller.poll()).toBe(1);
+		expect(poller.readFileMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('polls after the initial delay and then on the interval', async () => {
+		vi.useFakeTimers();
+		const poll = vi.spyOn(poller, 'poll').mockResolvedValue(0);
+
+		poller.start();
+		await vi.advanceTimersByTimeAsync(999);
+		expect(poll).not.toHaveBeenCalled();
+		await vi.advanceTimersByTimeAsync(1);
+		expect(poll).toHaveBeenCalledTimes(1);
+		await vi.advanceTimersByTimeAsync(10_000);
+		expect(poll).toHaveBeenCalledTimes(3);
+
+		poller.stop();
+		await vi.advanceTimersByTimeAsync(10_000);
+		expect(poll).toHaveBeenCalledTimes(3);
+	});
+});
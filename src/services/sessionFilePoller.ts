@@ -0,0 +1,108 @@
+import {statSync} from 'fs';
+import type {AgentAdapter} from '../adapters/index.js';
+import {resolveAdapterForSession} from './sessionAdapter.js';
+import {logger} from '../utils/logger.js';
+
+/** A session whose agent file is polled for changes */
+export interface SessionFileCandidate {
+	sessionId: string;
+	agentType: string;
+	agentProfileId: string;
+	agentSessionPath: string;
+}
+
+export interface SessionFilePollerOptions {
+	/** Log prefix */
+	name: string;
+	initialDelayMs: number;
+	intervalMs: number;
+}
+
+/**
+ * Base for services that periodically derive data from agent session files
+ * and persist it to sessions.db. Files are only re-read when their mtime
+ * changed since they were last read.
+ */
+export abstract class SessionFilePoller<
+	Candidate extends SessionFileCandidate,
+> {
+	private timer: NodeJS.Timeout | undefined;
+
+	constructor(private readonly options: SessionFilePollerOptions) {}
+
+	start(intervalMs = this.options.intervalMs): void {
+		if (this.timer) return;
+		const run = () => {
+			void this.poll().catch(error => {
+				logger.warn(`[${this.options.name}] Polling failed: ${String(error)}`);
+			});
+		};
+		this.timer = setTimeout(() => {
+			run();
+			this.timer = setInterval(run, intervalMs);
+		}, this.options.initialDelayMs);
+	}
+
+	stop(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			clearInterval(this.timer);
+			this.timer = undefined;
+		}
+	}
+
+	/** One periodic pass */
+	protected abstract poll(): Promise<unknown>;
+
+	/** mtime of the candidate's file when it was last read, if ever */
+	protected abstract getReadMtime(candidate: Candidate): number | null;
+
+	/** Read a changed file and persist what was derived from it */
+	protected abstract readFile(
+		candidate: Candidate,
+		adapter: AgentAdapter,
+		mtimeMs: number,
+	): Promise<void>;
+
+	/**
+	 * Read every candidate whose file changed since it was last read.
+	 * @returns number of files that were read
+	 */
+	protected async readChangedFiles(candidates: Candidate[]): Promise<number> {
+		let read = 0;
+		for (const candidate of candidates) {
+			if (await this.readIfChanged(candidate)) {
+				read += 1;
+			}
+		}
+		return read;
+	}
+
+	private async readIfChanged(candidate: Candidate): Promise<boolean> {
+		let mtimeMs: number;
+		try {
+			mtimeMs = Math.round(statSync(candidate.agentSessionPath).mtimeMs);
+		} catch {
+			// Session file was removed; keep whatever was stored before
+			return false;
+		}
+		if (this.getReadMtime(candidate) === mtimeMs) {
+			return false;
+		}
+
+		const adapter = resolveAdapterForSession(candidate);
+		if (!adapter) {
+			return false;
+		}
+
+		try {
+			await this.readFile(candidate, adapter, mtimeMs);
+			return true;
+		} catch (error) {
+			logger.debug(
+				`[${this.options.name}] Failed to read ${candidate.sessionId}: ${String(error)}`,
+			);
+			return false;
+		}
+	}
+}
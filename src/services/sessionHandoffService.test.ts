@@ -0,0 +1,141 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {Effect} from 'effect';
+import type {ConversationMessage} from '../adapters/types.js';
+import type {SessionRecord} from './sessionStore.js';
+import type {TdHandoffParsed, TdIssue} from './tdReader.js';
+import {
+	formatHandoffPrompt,
+	SessionHandoffService,
+} from './sessionHandoffService.js';
+import {createTempGitRepo} from '../utils/testHelpers.js';
+
+vi.mock('../utils/worktreeConfig.js', () => ({
+	getWorktreeParentBranch: () => Effect.succeed(null),
+}));
+
+vi.mock('../utils/logger.js', () => ({
+	logger: {
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	},
+}));
+
+const createSession = (overrides: Partial<SessionRecord> = {}) =>
+	({
+		id: 'session-1',
+		agentProfileId: 'claude',
+		agentProfileName: 'Claude',
+		agentType: 'claude',
+		agentOptions: {},
+		agentSessionId: null,
+		agentSessionPath: null,
+		worktreePath: '/repo',
+		branchName: 'feature',
+		projectPath: '/repo',
+		tdTaskId: null,
+		tdSessionId: null,
+		sessionName: null,
+		contentPreview: null,
+		scrollbackPath: null,
+		intent: 'work',
+		createdAt: 1_720_000_000,
+		endedAt: null,
+		...overrides,
+	}) as SessionRecord;
+
+const createMessage = (
+	role: ConversationMessage['role'],
+	content: string,
+): ConversationMessage => ({
+	id: `${role}-${content.length}`,
+	role,
+	timestamp: null,
+	content,
+	preview: content.slice(0, 80),
+});
+
+describe('formatHandoffPrompt', () => {
+	it('includes the task, td handoff, conversation and diff', () => {
+		const prompt = formatHandoffPrompt({
+			session: createSession({tdTaskId: 'td-abc123'}),
+			messages: [
+				createMessage('user', 'Add a login form'),
+				createMessage('tool', 'ls output'),
+				createMessage('assistant', 'Added the form, tests are missing'),
+			],
+			diff: '+export const login = true;',
+			task: {
+				id: 'td-abc123',
+				title: 'Login form',
+				description: 'Users sign in with email',
+			} as TdIssue,
+			handoff: {
+				done: ['Form markup'],
+				remaining: ['Tests'],
+				decisions: [],
+				uncertain: ['Error copy'],
+			} as unknown as TdHandoffParsed,
+		});
+
+		expect(prompt).toContain('another coding agent (Claude)');
+		expect(prompt).toContain('Task: td-abc123 - Login form');
+		expect(prompt).toContain('Remaining:\n- Tests');
+		expect(prompt).not.toContain('Decisions:');
+		expect(prompt).toContain(
+			'Previous conversation:\n[user] Add a login form\n\n[assistant] Added the form, tests are missing',
+		);
+		expect(prompt).not.toContain('ls output');
+		expect(prompt).toContain('```diff\n+export const login = true;\n```');
+	});
+
+	it('keeps the newest messages when the conversation is long', () => {
+		const messages = Array.from({length: 20}, (_, index) =>
+			createMessage('assistant', `${index}:${'x'.repeat(3000)}`),
+		);
+
+		const prompt = formatHandoffPrompt({
+			session: createSession(),
+			messages,
+			diff: '',
+			task: null,
+			handoff: null,
+		});
+
+		expect(prompt).toMatch(/Previous conversation \(last \d+ of 20 messages\)/);
+		expect(prompt).toContain('[assistant] 19:');
+		expect(prompt).not.toContain('[assistant] 0:');
+		expect(prompt).toContain('There are no changes in the worktree yet.');
+	});
+});
+
+describe('SessionHandoffService', () => {
+	let tmpDir: string;
+	let repoPath: string;
+
+	beforeEach(() => {
+		({tmpDir, repoPath} = createTempGitRepo('cacd-handoff-test-', {
+			'app.ts': 'export const a = 1;\n',
+		}));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, {recursive: true, force: true});
+	});
+
+	it('builds a prompt from the worktree without a conversation file', async () => {
+		fs.writeFileSync(path.join(repoPath, 'app.ts'), 'export const a = 2;\n');
+		fs.writeFileSync(path.join(repoPath, 'notes.md'), 'todo\n');
+
+		const prompt = await new SessionHandoffService().buildPrompt(
+			createSession({worktreePath: repoPath}),
+		);
+
+		expect(prompt).toContain('The previous conversation is not available.');
+		expect(prompt).toContain('+export const a = 2;');
+		expect(prompt).toContain('Untracked files:\n  notes.md');
+	});
+});
@@ -0,0 +1,156 @@
+import type {ConversationMessage} from '../adapters/types.js';
+import {resolveAdapterForSession} from './sessionAdapter.js';
+import type {SessionRecord} from './sessionStore.js';
+import {tdService} from './tdService.js';
+import {TdReader, type TdHandoffParsed, type TdIssue} from './tdReader.js';
+import {getWorktreeDiff} from '../utils/gitStatus.js';
+import {logger} from '../utils/logger.js';
+
+// Newest messages are kept first; older ones are dropped beyond this
+const MAX_TRANSCRIPT_LENGTH = 30000;
+const MAX_MESSAGE_LENGTH = 4000;
+
+export interface HandoffContext {
+	session: SessionRecord;
+	messages: ConversationMessage[];
+	diff: string;
+	task: TdIssue | null;
+	handoff: TdHandoffParsed | null;
+}
+
+function truncate(text: string, maxLength: number): string {
+	return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function formatHandoffList(title: string, items: string[]): string[] {
+	return items.length > 0
+		? [`${title}:`, ...items.map(item => `- ${item}`)]
+		: [];
+}
+
+/**
+ * Continuation prompt for the agent taking over: what the previous agent was
+ * asked and answered, the td handoff it left and the worktree's changes.
+ */
+export function formatHandoffPrompt(context: HandoffContext): string {
+	const {session, messages, diff, task, handoff} = context;
+	const lines = [
+		`You are taking over from another coding agent (${session.agentProfileName}) that worked in this worktree. Continue its work where it stopped.`,
+	];
+
+	if (task) {
+		lines.push('', `Task: ${task.id} - ${task.title}`);
+		if (task.description?.trim()) {
+			lines.push(task.description.trim());
+		}
+	}
+
+	if (handoff) {
+		lines.push(
+			'',
+			'Latest td handoff:',
+			...formatHandoffList('Done', handoff.done),
+			...formatHandoffList('Remaining', handoff.remaining),
+			...formatHandoffList('Decisions', handoff.decisions),
+			...formatHandoffList('Uncertain', handoff.uncertain),
+		);
+	}
+
+	const conversation = messages.filter(
+		message =>
+			(message.role === 'user' || message.role === 'assistant') &&
+			message.content.trim(),
+	);
+	const transcript: string[] = [];
+	let length = 0;
+	for (const message of [...conversation].reverse()) {
+		const entry = `[${message.role}] ${truncate(message.content.trim(), MAX_MESSAGE_LENGTH)}`;
+		if (length + entry.length > MAX_TRANSCRIPT_LENGTH) break;
+		transcript.unshift(entry);
+		length += entry.length;
+	}
+	if (transcript.length > 0) {
+		lines.push(
+			'',
+			transcript.length < conversation.length
+				? `Previous conversation (last ${transcript.length} of ${conversation.length} messages):`
+				: 'Previous conversation:',
+			...transcript.flatMap(entry => [entry, '']),
+		);
+	} else {
+		lines.push('', 'The previous conversation is not available.', '');
+	}
+
+	lines.push(
+		diff
+			? `Changes in the worktree so far:\n\`\`\`diff\n${diff}\n\`\`\``
+			: 'There are no changes in the worktree yet.',
+		'',
+		'Review the state of the worktree, then carry on with what is left.',
+	);
+	return lines.join('\n');
+}
+
+/**
+ * Hands a session's work over to another agent: collects the session's
+ * conversation, the worktree diff and the linked td task's latest handoff
+ * and turns them into the first prompt of the next session.
+ */
+export class SessionHandoffService {
+	async buildPrompt(session: SessionRecord): Promise<string> {
+		const [messages, diff] = await Promise.all([
+			this.readConversation(session),
+			getWorktreeDiff(session.worktreePath).catch(error => {
+				logger.debug(
+					`[Handoff] Failed to diff ${session.worktreePath}: ${String(error)}`,
+				);
+				return '';
+			}),
+		]);
+		const {task, handoff} = this.readTdContext(session);
+		return formatHandoffPrompt({session, messages, diff, task, handoff});
+	}
+
+	private async readConversation(
+		session: SessionRecord,
+	): Promise<ConversationMessage[]> {
+		if (!session.agentSessionPath) return [];
+		const adapter = resolveAdapterForSession(session);
+		if (!adapter) return [];
+
+		try {
+			return await adapter.parseMessages(session.agentSessionPath);
+		} catch (error) {
+			logger.debug(
+				`[Handoff] Failed to read conversation ${session.id}: ${String(error)}`,
+			);
+			return [];
+		}
+	}
+
+	private readTdContext(session: SessionRecord): {
+		task: TdIssue | null;
+		handoff: TdHandoffParsed | null;
+	} {
+		if (!session.tdTaskId) return {task: null, handoff: null};
+		const projectState = tdService.resolveProjectState(session.worktreePath);
+		if (!projectState.enabled || !projectState.dbPath) {
+			return {task: null, handoff: null};
+		}
+
+		const reader = new TdReader(projectState.dbPath);
+		try {
+			return {
+				task: reader.getIssue(session.tdTaskId),
+				handoff: reader.getLatestHandoff(session.tdTaskId),
+			};
+		} catch (error) {
+			logger.debug(`[Handoff] td lookup failed: ${String(error)}`);
+			return {task: null, handoff: null};
+		} finally {
+			reader.close();
+		}
+	}
+}
+
+export const sessionHandoffService = new SessionHandoffService();
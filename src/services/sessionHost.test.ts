@@ -0,0 +1,120 @@
+import {describe, it, expect, vi, beforeEach} from 'vitest';
+import {execFile} from 'child_process';
+import {spawn} from 'node-pty';
+
+vi.mock('node-pty', () => ({
+	spawn: vi.fn(() => ({pid: 4242})),
+}));
+
+vi.mock('child_process', () => ({
+	execFile: vi.fn(),
+}));
+
+import {TmuxSessionHost, resolveSessionHostMode} from './sessionHost.js';
+
+type ExecFileCallback = (
+	error: Error | null,
+	result?: {stdout: string; stderr: string},
+) => void;
+
+function mockTmux(handler: (args: string[]) => string | Error) {
+	vi.mocked(execFile).mockImplementation(((
+		_file: string,
+		args: string[],
+		callback: ExecFileCallback,
+	) => {
+		const result = handler(args);
+		if (result instanceof Error) {
+			callback(result);
+		} else {
+			callback(null, {stdout: result, stderr: ''});
+		}
+		return {};
+	}) as unknown as typeof execFile);
+}
+
+describe('TmuxSessionHost', () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it('starts the command in a detached session tagged with the session ID', async () => {
+		mockTmux(() => '');
+		const host = new TmuxSessionHost('/tmp/cacd-test.sock');
+
+		await host.create('session-1.x', '/bin/zsh', [], {
+			cwd: '/repo',
+			cols: 100,
+			rows: 30,
+			env: {TD_TASK_ID: 'td-1'},
+		});
+
+		const args = vi.mocked(execFile).mock.calls[0]![1] as string[];
+		expect(args.slice(0, 4)).toEqual([
+			'-S',
+			'/tmp/cacd-test.sock',
+			'-f',
+			'/dev/null',
+		]);
+		expect(args).toEqual(
+			expect.arrayContaining([
+				'new-session',
+				'cacd-session-1_x',
+				'TD_TASK_ID=td-1',
+				'/bin/zsh',
+				'@cacd_session_id',
+				'session-1.x',
+			]),
+		);
+		expect(spawn).toHaveBeenCalledWith(
+			'tmux',
+			[
+				'-S',
+				'/tmp/cacd-test.sock',
+				'-f',
+				'/dev/null',
+				'attach-session',
+				'-t',
+				'=cacd-session-1_x',
+			],
+			expect.objectContaining({cols: 100, rows: 30, cwd: '/repo'}),
+		);
+	});
+
+	it('lists only sessions created by cacd', async () => {
+		mockTmux(args =>
+			args.includes('list-sessions')
+				? 'cacd-session-1\tsession-1\nscratch\t\ncacd-session-2\tsession-2\n'
+				: '',
+		);
+		const host = new TmuxSessionHost('/tmp/cacd-test.sock');
+
+		await expect(host.listSessionIds()).resolves.toEqual([
+			'session-1',
+			'session-2',
+		]);
+	});
+
+	it('treats a missing tmux server as no hosted sessions', async () => {
+		mockTmux(args =>
+			args.includes('list-sessions') ? new Error('no server running') : '',
+		);
+		const host = new TmuxSessionHost('/tmp/cacd-test.sock');
+
+		await expect(host.listSessionIds()).resolves.toEqual([]);
+	});
+});
+
+describe('resolveSessionHostMode', () => {
+	it('falls back to plain PTYs when tmux is not installed', async () => {
+		mockTmux(() => new Error('spawn tmux ENOENT'));
+		const host = new TmuxSessionHost('/tmp/cacd-test.sock');
+
+		await expect(resolveSessionHostMode({mode: 'tmux'}, host)).resolves.toBe(
+			'pty',
+		);
+		await expect(resolveSessionHostMode({mode: 'pty'}, host)).resolves.toBe(
+			'pty',
+		);
+	});
+});
@@ -0,0 +1,194 @@
+import {spawn, IPty} from 'node-pty';
+import {execFile} from 'child_process';
+import {promisify} from 'util';
+import path from 'path';
+import {SessionHostConfig, SessionHostMode} from '../types/index.js';
+import {getConfigDir} from '../utils/configDir.js';
+import {getPtyEnv} from '../utils/platform.js';
+import {logger} from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+const TMUX_SOCKET_FILENAME = 'tmux.sock';
+const TMUX_SESSION_PREFIX = 'cacd-';
+const SESSION_ID_OPTION = '@cacd_session_id';
+
+// Applied to the dedicated cacd tmux server. The prefix key is disabled so
+// every keystroke reaches the agent, and smcup/rmcup are stripped so output
+// lands in the normal scrollback instead of tmux's alternate screen.
+const TMUX_SERVER_OPTIONS: string[][] = [
+	['set-option', '-g', 'status', 'off'],
+	['set-option', '-g', 'prefix', 'None'],
+	['set-option', '-g', 'prefix2', 'None'],
+	['set-option', '-g', 'escape-time', '0'],
+	['set-option', '-g', 'mouse', 'off'],
+	['set-option', '-ga', 'terminal-overrides', ',xterm*:Tc:smcup@:rmcup@'],
+];
+
+export interface HostedProcessOptions {
+	cwd: string;
+	cols: number;
+	rows: number;
+	env?: Record<string, string>;
+}
+
+/**
+ * Runs session processes inside a private tmux server so they outlive the
+ * daemon. The daemon only holds a tmux client PTY per session; on restart it
+ * re-attaches and tmux redraws the screen into the fresh headless terminal.
+ */
+export class TmuxSessionHost {
+	private available: Promise<boolean> | undefined;
+
+	constructor(private readonly socketPath?: string) {}
+
+	private getSocketPath(): string {
+		return this.socketPath ?? path.join(getConfigDir(), TMUX_SOCKET_FILENAME);
+	}
+
+	private baseArgs(): string[] {
+		// -f /dev/null keeps the user's ~/.tmux.conf (key bindings, status bar) out
+		return ['-S', this.getSocketPath(), '-f', '/dev/null'];
+	}
+
+	private async tmux(args: string[]): Promise<string> {
+		const {stdout} = await execFileAsync('tmux', [...this.baseArgs(), ...args]);
+		return stdout;
+	}
+
+	getTmuxSessionName(sessionId: string): string {
+		// tmux reserves '.' and ':' in target names
+		return `${TMUX_SESSION_PREFIX}${sessionId.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+	}
+
+	isAvailable(): Promise<boolean> {
+		if (!this.available) {
+			this.available = execFileAsync('tmux', ['-V'])
+				.then(() => true)
+				.catch(() => false);
+		}
+		return this.available;
+	}
+
+	/**
+	 * Start `command` in a new detached tmux session and return a PTY attached
+	 * to it. Writes, resizes and exit events flow through the attached client.
+	 */
+	async create(
+		sessionId: string,
+		command: string,
+		args: string[],
+		options: HostedProcessOptions,
+	): Promise<IPty> {
+		const name = this.getTmuxSessionName(sessionId);
+		// The tmux server keeps the environment it was first started with, so
+		// per-session variables are passed explicitly through env(1).
+		const envArgs = Object.entries({
+			COLORTERM: 'truecolor',
+			...options.env,
+		}).map(([key, value]) => `${key}=${value}`);
+		const commandArgs = [
+			'new-session',
+			'-d',
+			'-s',
+			name,
+			'-x',
+			String(options.cols),
+			'-y',
+			String(options.rows),
+			'-c',
+			options.cwd,
+			'env',
+			...envArgs,
+			command,
+			...args,
+			';',
+			'set-option',
+			'-t',
+			name,
+			SESSION_ID_OPTION,
+			sessionId,
+		];
+		for (const option of TMUX_SERVER_OPTIONS) {
+			commandArgs.push(';', ...option);
+		}
+
+		await this.tmux(commandArgs);
+		logger.info(`[SessionHost] Started tmux session ${name} for ${sessionId}`);
+		return this.attach(sessionId, options);
+	}
+
+	attach(sessionId: string, options: HostedProcessOptions): IPty {
+		const name = this.getTmuxSessionName(sessionId);
+		return spawn(
+			'tmux',
+			[...this.baseArgs(), 'attach-session', '-t', `=${name}`],
+			{
+				name: 'xterm-256color',
+				cols: options.cols,
+				rows: options.rows,
+				cwd: options.cwd,
+				env: getPtyEnv(),
+			},
+		);
+	}
+
+	/** Session IDs of all processes still running in the tmux server. */
+	async listSessionIds(): Promise<string[]> {
+		if (!(await this.isAvailable())) {
+			return [];
+		}
+		try {
+			const output = await this.tmux([
+				'list-sessions',
+				'-F',
+				`#{session_name}\t#{${SESSION_ID_OPTION}}`,
+			]);
+			return output
+				.split('\n')
+				.map(line => line.split('\t'))
+				.filter(
+					([name, sessionId]) =>
+						name?.startsWith(TMUX_SESSION_PREFIX) && !!sessionId,
+				)
+				.map(([, sessionId]) => sessionId!);
+		} catch {
+			// No server running means no hosted sessions
+			return [];
+		}
+	}
+
+	async terminate(sessionId: string): Promise<void> {
+		try {
+			await this.tmux([
+				'kill-session',
+				'-t',
+				`=${this.getTmuxSessionName(sessionId)}`,
+			]);
+		} catch {
+			// Session already gone
+		}
+	}
+}
+
+export const tmuxSessionHost = new TmuxSessionHost();
+
+/**
+ * Resolve which host new sessions should use. Falls back to plain PTYs when
+ * tmux is requested but not installed.
+ */
+export async function resolveSessionHostMode(
+	config: SessionHostConfig,
+	host: TmuxSessionHost = tmuxSessionHost,
+): Promise<SessionHostMode> {
+	if (config.mode !== 'tmux') {
+		return 'pty';
+	}
+	if (await host.isAvailable()) {
+		return 'tmux';
+	}
+	logger.warn(
+		'[SessionHost] sessionHost.mode is "tmux" but tmux was not found; using plain PTY sessions',
+	);
+	return 'pty';
+}
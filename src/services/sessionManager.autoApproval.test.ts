@@ -31,6 +31,15 @@ vi.mock('../adapters/index.js', () => ({
 	},
 }));
 
+// Keep terminal recordings out of the real config dir
+vi.mock('./scrollbackStore.js', () => ({
+	scrollbackStore: {
+		start: vi.fn(),
+		append: vi.fn(),
+		stop: vi.fn(),
+	},
+}));
+
 vi.mock('./configurationManager.js', () => ({
 	configurationManager: {
 		getConfig: vi.fn().mockReturnValue({
@@ -269,7 +278,9 @@ describe('SessionManager - Auto Approval Recovery', () => {
 		expect(mockPty).toBeDefined();
 
 		const handler = vi.fn();
+		const decisionHandler = vi.fn();
 		sessionManager.on('sessionStateChanged', handler);
+		sessionManager.on('autoApprovalDecision', decisionHandler);
 
 		// Advance to pending_auto_approval state - need enough time for state persistence
 		// Add extra interval time for the async mutex update and handleAutoApproval trigger
@@ -301,6 +312,17 @@ describe('SessionManager - Auto Approval Recovery', () => {
 		expect(lastCall).toBeDefined();
 		expect(lastCall![0].stateMutex.getSnapshot().state).toBe('busy');
 
+		// The decision is reported for the audit log
+		expect(decisionHandler).toHaveBeenCalledWith(
+			session,
+			expect.objectContaining({
+				verdict: 'approved',
+				latencyMs: expect.any(Number),
+				terminalExcerpt: expect.any(String),
+			}),
+		);
+
 		sessionManager.off('sessionStateChanged', handler);
+		sessionManager.off('autoApprovalDecision', decisionHandler);
 	});
 });
@@ -16,6 +16,15 @@ vi.mock('child_process', () => ({
 	execFile: vi.fn(),
 }));
 
+// Keep terminal recordings out of the real config dir
+vi.mock('./scrollbackStore.js', () => ({
+	scrollbackStore: {
+		start: vi.fn(),
+		append: vi.fn(),
+		stop: vi.fn(),
+	},
+}));
+
 // Mock configuration manager
 vi.mock('./configurationManager.js', () => ({
 	configurationManager: {
@@ -10,6 +10,15 @@ import {
 vi.mock('node-pty', () => ({
 	spawn: vi.fn(),
 }));
+// Keep terminal recordings out of the real config dir
+vi.mock('./scrollbackStore.js', () => ({
+	scrollbackStore: {
+		start: vi.fn(),
+		append: vi.fn(),
+		stop: vi.fn(),
+	},
+}));
+
 vi.mock('./configurationManager.js', () => ({
 	configurationManager: {
 		getConfig: vi.fn().mockReturnValue({
@@ -17,6 +17,25 @@ vi.mock('child_process', () => ({
 	execFile: vi.fn(),
 }));
 
+// Keep terminal recordings out of the real config dir
+vi.mock('./scrollbackStore.js', () => ({
+	scrollbackStore: {
+		start: vi.fn(),
+		append: vi.fn(),
+		stop: vi.fn(),
+	},
+}));
+
+// Keep hosted sessions out of the real tmux server
+vi.mock('./sessionHost.js', () => ({
+	resolveSessionHostMode: vi.fn(async () => 'pty'),
+	tmuxSessionHost: {
+		create: vi.fn(),
+		attach: vi.fn(),
+		terminate: vi.fn(async () => {}),
+	},
+}));
+
 // Mock configuration manager
 vi.mock('./configurationManager.js', () => ({
 	configurationManager: {
@@ -29,6 +48,7 @@ vi.mock('./configurationManager.js', () => ({
 		getWorktreeLastOpened: vi.fn(() => ({})),
 		isAutoApprovalEnabled: vi.fn(() => false),
 		setAutoApprovalEnabled: vi.fn(),
+		getSessionHostConfig: vi.fn(() => ({mode: 'pty'})),
 	},
 }));
 
@@ -780,6 +800,74 @@ describe('SessionManager', () => {
 		});
 	});
 
+	describe('session host', () => {
+		it('should start agent shells in tmux and stop them on destroy', async () => {
+			const {resolveSessionHostMode, tmuxSessionHost} = await import(
+				'./sessionHost.js'
+			);
+			vi.mocked(resolveSessionHostMode).mockResolvedValueOnce('tmux');
+			vi.mocked(tmuxSessionHost.create).mockResolvedValue(
+				mockPty as unknown as IPty,
+			);
+
+			const session = await Effect.runPromise(
+				sessionManager.createSessionWithAgentEffect(
+					'/test/worktree',
+					'claude',
+					[],
+					'claude',
+					undefined,
+					'claude',
+					{TD_TASK_ID: 'td-1'},
+					'agent',
+					{sessionIdOverride: 'session-hosted-1'},
+				),
+			);
+
+			expect(spawn).not.toHaveBeenCalled();
+			expect(tmuxSessionHost.create).toHaveBeenCalledWith(
+				'session-hosted-1',
+				getDefaultShell(),
+				[],
+				expect.objectContaining({
+					cwd: '/test/worktree',
+					env: {TD_TASK_ID: 'td-1'},
+				}),
+			);
+			expect(session.hostMode).toBe('tmux');
+
+			sessionManager.destroySession(session.id);
+			expect(tmuxSessionHost.terminate).toHaveBeenCalledWith(
+				'session-hosted-1',
+			);
+		});
+
+		it('should re-adopt a hosted session under its original ID', async () => {
+			const {tmuxSessionHost} = await import('./sessionHost.js');
+			vi.mocked(tmuxSessionHost.attach).mockReturnValue(
+				mockPty as unknown as IPty,
+			);
+
+			const session = await Effect.runPromise(
+				sessionManager.adoptHostedSessionEffect(
+					'session-hosted-2',
+					'/test/worktree',
+					{sessionName: 'Survivor', agentId: 'claude'},
+				),
+			);
+
+			expect(tmuxSessionHost.attach).toHaveBeenCalledWith(
+				'session-hosted-2',
+				expect.objectContaining({cwd: '/test/worktree'}),
+			);
+			expect(session.name).toBe('Survivor');
+			expect(session.hostMode).toBe('tmux');
+			expect(sessionManager.getSession('session-hosted-2')).toBe(session);
+			// Nothing is bootstrapped into an adopted shell
+			expect(mockPty.write).not.toHaveBeenCalled();
+		});
+	});
+
 	describe('session lifecycle', () => {
 		it('should destroy session and clean up resources', async () => {
 			// Setup
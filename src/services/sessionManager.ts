@@ -4,6 +4,7 @@ import {
 	SessionManager as ISessionManager,
 	SessionState,
 	DevcontainerConfig,
+	SessionHostMode,
 	StateDetectionStrategy,
 } from '../types/index.js';
 import {EventEmitter} from 'events';
@@ -13,7 +14,10 @@ import {promisify} from 'util';
 import {writeFile} from 'fs/promises';
 import {join} from 'path';
 import {configurationManager} from './configurationManager.js';
-import {executeStatusHook} from '../utils/hookExecutor.js';
+import {
+	executeSessionLifecycleHook,
+	executeStatusHook,
+} from '../utils/hookExecutor.js';
 import {
 	STATE_PERSISTENCE_DURATION_MS,
 	STATE_CHECK_INTERVAL_MS,
@@ -25,10 +29,13 @@ import {logger} from '../utils/logger.js';
 import {Mutex, createInitialSessionStateData} from '../utils/mutex.js';
 import {getDefaultShell, getPtyEnv} from '../utils/platform.js';
 import {adapterRegistry} from '../adapters/index.js';
+import {scrollbackStore} from './scrollbackStore.js';
+import {resolveSessionHostMode, tmuxSessionHost} from './sessionHost.js';
 const {Terminal} = pkg;
 const execAsync = promisify(exec);
 const execFileAsync = promisify(execFile);
 const TERMINAL_CONTENT_MAX_LINES = 300;
+const AUTO_APPROVAL_EXCERPT_MAX_LINES = 40;
 
 export interface SessionCounts {
 	idle: number;
@@ -38,6 +45,23 @@ export interface SessionCounts {
 	total: number;
 }
 
+export interface PermissionApprovalResult {
+	approved: boolean;
+	state: SessionState;
+	prompt?: string;
+	reason?: string;
+}
+
+/** Emitted as `autoApprovalDecision` after each completed verification. */
+export interface AutoApprovalDecisionEvent {
+	verdict: 'approved' | 'needs_permission' | 'error';
+	decidedBy?: string;
+	rule?: string;
+	reason?: string;
+	terminalExcerpt: string;
+	latencyMs: number;
+}
+
 interface AgentBootstrapOptions {
 	initialPrompt?: string;
 	promptArg?: string;
@@ -49,6 +73,9 @@ export class SessionManager extends EventEmitter implements ISessionManager {
 	private waitingWithBottomBorder: Map<string, boolean> = new Map();
 	private busyTimers: Map<string, NodeJS.Timeout> = new Map();
 	private promptLauncherDisabledKeys: Set<string> = new Set();
+	// Sessions whose current prompt was held back by auto-approval; a later
+	// approval by the user is reported as an override
+	private heldBackAutoApprovals: Set<string> = new Set();
 
 	// Track all active state check intervals for cleanup (especially hot reload)
 	private activeIntervals: Map<string, NodeJS.Timeout> = new Map();
@@ -115,6 +142,26 @@ export class SessionManager extends EventEmitter implements ISessionManager {
 		return pty;
 	}
 
+	private async spawnHosted(
+		sessionId: string,
+		command: string,
+		args: string[],
+		worktreePath: string,
+		extraEnv?: Record<string, string>,
+	): Promise<IPty> {
+		logger.info(
+			`[SessionManager] Spawning in session host: ${command} ${args.join(' ')} in ${worktreePath}`,
+		);
+		const pty = await tmuxSessionHost.create(sessionId, command, args, {
+			cwd: worktreePath,
+			cols: process.stdout.columns || 80,
+			rows: process.stdout.rows || 24,
+			env: extraEnv,
+		});
+		logger.info(`[SessionManager] Attached to hosted session, PID: ${pty.pid}`);
+		return pty;
+	}
+
 	private isPowerShell(shellCommand: string): boolean {
 		const normalized = shellCommand.toLowerCase();
 		return (
@@ -368,11 +415,32 @@ ${commandTokens.join(' ')}
 
 		// Get terminal content for verification
 		const terminalContent = this.getTerminalContent(session);
+		const startedAt = Date.now();
+		this.heldBackAutoApprovals.delete(session.id);
+		const emitDecision = (
+			decision: Omit<
+				AutoApprovalDecisionEvent,
+				'terminalExcerpt' | 'latencyMs'
+			>,
+		) => {
+			if (decision.verdict !== 'approved') {
+				this.heldBackAutoApprovals.add(session.id);
+			}
+			this.emit('autoApprovalDecision', session, {
+				...decision,
+				terminalExcerpt: terminalContent
+					.split('\n')
+					.slice(-AUTO_APPROVAL_EXCERPT_MAX_LINES)
+					.join('\n'),
+				latencyMs: Date.now() - startedAt,
+			} satisfies AutoApprovalDecisionEvent);
+		};
 
 		// Verify if permission is needed
 		void Effect.runPromise(
 			autoApprovalVerifier.verifyNeedsPermission(terminalContent, {
 				signal: abortController.signal,
+				worktreePath: session.worktreePath,
 			}),
 		)
 			.then(async autoApprovalResult => {
@@ -392,6 +460,15 @@ ${commandTokens.join(' ')}
 					return;
 				}
 
+				emitDecision({
+					verdict: autoApprovalResult.needsPermission
+						? 'needs_permission'
+						: 'approved',
+					decidedBy: autoApprovalResult.decidedBy,
+					rule: autoApprovalResult.rule,
+					reason: autoApprovalResult.reason,
+				});
+
 				if (autoApprovalResult.needsPermission) {
 					// Change state to waiting_input to ask for user permission
 					logger.info(
@@ -427,6 +504,12 @@ ${commandTokens.join(' ')}
 					`[${session.id}] Auto-approval verification failed, requiring user permission`,
 					error,
 				);
+				emitDecision({
+					verdict: 'error',
+					reason:
+						(error as Error | undefined)?.message ??
+						'Auto-approval verification failed',
+				});
 
 				const currentState = session.stateMutex.getSnapshot().state;
 				if (currentState === 'pending_auto_approval') {
@@ -450,6 +533,18 @@ ${commandTokens.join(' ')}
 			});
 	}
 
+	private resolveHeldBackAutoApproval(
+		session: Session,
+		approvedByUser: boolean,
+	): void {
+		if (!this.heldBackAutoApprovals.delete(session.id)) {
+			return;
+		}
+		if (approvedByUser) {
+			this.emit('autoApprovalOverridden', session);
+		}
+	}
+
 	private cancelAutoApprovalVerification(
 		session: Session,
 		reason: string,
@@ -539,6 +634,7 @@ ${commandTokens.join(' ')}
 			sessionName?: string;
 			agentId?: string;
 			sessionId?: string;
+			hostMode?: SessionHostMode;
 		} = {},
 	): Promise<Session> {
 		const resolvedSessionId = options.sessionId?.trim();
@@ -564,6 +660,7 @@ ${commandTokens.join(' ')}
 			commandConfig,
 			detectionStrategy: options.detectionStrategy ?? 'claude',
 			devcontainerConfig: options.devcontainerConfig ?? undefined,
+			hostMode: options.hostMode,
 			stateMutex: new Mutex(createInitialSessionStateData()),
 		};
 
@@ -581,6 +678,9 @@ ${commandTokens.join(' ')}
 		);
 
 		this.emit('sessionCreated', session);
+		void Effect.runPromise(
+			executeSessionLifecycleHook('session_start', session),
+		);
 
 		return session;
 	}
@@ -705,14 +805,28 @@ ${commandTokens.join(' ')}
 					await this.ensureAgentCommandAvailable(resolvedCommand.command);
 				}
 
+				// Resolve the ID up front: hosted sessions are named after it
+				const sessionId =
+					bootstrapOptions?.sessionIdOverride?.trim() || this.createSessionId();
+				if (this.sessions.has(sessionId)) {
+					throw new Error(`Session with ID ${sessionId} already exists`);
+				}
+				const hostMode = await resolveSessionHostMode(
+					configurationManager.getSessionHostConfig(),
+				);
+
 				// Spawn a persistent shell first; agent command runs inside it.
 				const shellCommand = getDefaultShell();
-				const shellProcess = await this.spawn(
-					shellCommand,
-					[],
-					worktreePath,
-					extraEnv,
-				);
+				const shellProcess =
+					hostMode === 'tmux'
+						? await this.spawnHosted(
+								sessionId,
+								shellCommand,
+								[],
+								worktreePath,
+								extraEnv,
+							)
+						: await this.spawn(shellCommand, [], worktreePath, extraEnv);
 
 				// Create session without fallback config (agent sessions don't use fallback)
 				const session = this.createSessionInternal(
@@ -724,7 +838,8 @@ ${commandTokens.join(' ')}
 						detectionStrategy: detectionStrategy,
 						sessionName: sessionName,
 						agentId: agentId,
-						sessionId: bootstrapOptions?.sessionIdOverride,
+						sessionId,
+						hostMode,
 					},
 				);
 
@@ -801,11 +916,65 @@ ${commandTokens.join(' ')}
 		});
 	}
 
+	/**
+	 * Re-adopt a session whose process is still running in the session host,
+	 * e.g. after a daemon restart. The attached tmux client redraws the current
+	 * screen, which rebuilds the headless terminal; state detection then
+	 * re-derives the session state from it.
+	 */
+	adoptHostedSessionEffect(
+		sessionId: string,
+		worktreePath: string,
+		options: {
+			detectionStrategy?: StateDetectionStrategy;
+			sessionName?: string;
+			agentId?: string;
+		} = {},
+	): Effect.Effect<Session, ProcessError, never> {
+		return Effect.tryPromise({
+			try: async () => {
+				const ptyProcess = tmuxSessionHost.attach(sessionId, {
+					cwd: worktreePath,
+					cols: process.stdout.columns || 80,
+					rows: process.stdout.rows || 24,
+				});
+				logger.info(
+					`[SessionManager] Re-attached hosted session ${sessionId}, PID: ${ptyProcess.pid}`,
+				);
+
+				return this.createSessionInternal(worktreePath, ptyProcess, undefined, {
+					isPrimaryCommand: true,
+					detectionStrategy: options.detectionStrategy,
+					sessionName: options.sessionName,
+					agentId: options.agentId,
+					sessionId,
+					hostMode: 'tmux',
+				});
+			},
+			catch: (error: unknown) => {
+				return new ProcessError({
+					command: `adoptHostedSession (${sessionId})`,
+					message:
+						error instanceof Error
+							? error.message
+							: 'Failed to re-attach hosted session',
+				});
+			},
+		});
+	}
+
 	private setupDataHandler(session: Session): void {
+		// Persist output to disk so transcripts survive daemon restarts
+		scrollbackStore.start(session.id, {
+			cols: session.terminal.cols,
+			rows: session.terminal.rows,
+		});
+
 		// This handler always runs for all data
 		session.process.onData((data: string) => {
 			// Write data to virtual terminal
 			session.terminal.write(data);
+			scrollbackStore.append(session.id, data);
 
 			// Store in output history as Buffer
 			const buffer = Buffer.from(data, 'utf8');
@@ -982,6 +1151,12 @@ ${commandTokens.join(' ')}
 						) {
 							additionalUpdates.autoApprovalFailed = false;
 							additionalUpdates.autoApprovalReason = undefined;
+							// The agent only gets busy again when the held-back prompt
+							// was answered with yes in the terminal
+							this.resolveHeldBackAutoApproval(
+								session,
+								detectedState === 'busy',
+							);
 						}
 
 						// Confirm the state change with hook execution
@@ -1083,6 +1258,87 @@ ${commandTokens.join(' ')}
 		}
 	}
 
+	/**
+	 * Write raw input into a session's PTY, as if typed by the user.
+	 *
+	 * @param sessionId - Session to write to
+	 * @param text - Text to type into the terminal
+	 * @param submit - Whether to press Enter after the text
+	 * @returns Number of characters written, or undefined if the session does not exist
+	 */
+	writeInput(
+		sessionId: string,
+		text: string,
+		submit = false,
+	): number | undefined {
+		const session = this.sessions.get(sessionId);
+		if (!session) {
+			return undefined;
+		}
+
+		const data = submit ? `${text}\r` : text;
+		if (data.length === 0) {
+			return 0;
+		}
+
+		session.process.write(data);
+		session.lastActivity = new Date();
+		logger.info(
+			`[SessionManager] Wrote ${data.length} chars of input to ${sessionId}${submit ? ' (submitted)' : ''}`,
+		);
+		return data.length;
+	}
+
+	/**
+	 * Answer "yes" to the permission prompt a session is waiting on, using the
+	 * adapter's knowledge of which keystrokes approve it.
+	 *
+	 * @returns Result describing the approved prompt, or undefined if the session does not exist
+	 */
+	async approvePermissionPrompt(
+		sessionId: string,
+	): Promise<PermissionApprovalResult | undefined> {
+		const session = this.sessions.get(sessionId);
+		if (!session) {
+			return undefined;
+		}
+
+		const state = session.stateMutex.getSnapshot().state;
+		if (state !== 'waiting_input' && state !== 'pending_auto_approval') {
+			return {
+				approved: false,
+				state,
+				reason: `Session is not waiting on a permission prompt (state: ${state})`,
+			};
+		}
+
+		const adapter = session.detectionStrategy
+			? adapterRegistry.getByStrategy(session.detectionStrategy)
+			: null;
+		const approval = adapter?.getPermissionApproval(session.terminal);
+		if (!approval) {
+			return {
+				approved: false,
+				state,
+				reason: 'No approval keystrokes known for this session type',
+			};
+		}
+
+		this.cancelAutoApprovalVerification(session, 'Approved manually');
+		session.process.write(approval.input);
+		this.resolveHeldBackAutoApproval(session, true);
+		logger.info(
+			`[${session.id}] Permission prompt approved manually: ${approval.prompt.split('\n')[0] ?? ''}`,
+		);
+		// Same as auto-approval: force busy so the stale prompt is not approved twice
+		await this.updateSessionState(session, 'busy', {
+			autoApprovalFailed: false,
+			autoApprovalReason: undefined,
+		});
+
+		return {approved: true, state: 'busy', prompt: approval.prompt};
+	}
+
 	renameSession(sessionId: string, name?: string): boolean {
 		const session = this.sessions.get(sessionId);
 		if (!session) {
@@ -1137,6 +1393,7 @@ ${commandTokens.join(' ')}
 			if (stateData.autoApprovalAbortController) {
 				this.cancelAutoApprovalVerification(session, 'Session destroyed');
 			}
+			this.heldBackAutoApprovals.delete(sessionId);
 
 			// Clear the state check interval
 			if (session.stateCheckInterval) {
@@ -1153,9 +1410,17 @@ ${commandTokens.join(' ')}
 				clearTimeout(timer);
 				this.busyTimers.delete(session.worktreePath);
 			}
+			// Killing the tmux client only detaches; stop the hosted process too
+			if (session.hostMode === 'tmux') {
+				void tmuxSessionHost.terminate(sessionId);
+			}
+			scrollbackStore.stop(sessionId);
 			this.sessions.delete(sessionId);
 			this.waitingWithBottomBorder.delete(sessionId);
 			this.emit('sessionDestroyed', session);
+			void Effect.runPromise(
+				executeSessionLifecycleHook('session_end', session),
+			);
 		}
 	}
 
@@ -1200,6 +1465,9 @@ ${commandTokens.join(' ')}
 				} catch (_error) {
 					// Process might already be dead, this is acceptable
 				}
+				if (session.hostMode === 'tmux') {
+					void tmuxSessionHost.terminate(sessionId);
+				}
 
 				// Clean up any pending timer
 				const timer = this.busyTimers.get(session.worktreePath);
@@ -2,7 +2,7 @@ import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
 import {existsSync, unlinkSync} from 'fs';
 import path from 'path';
 import {tmpdir} from 'os';
-import {SessionStore} from './sessionStore.js';
+import {SessionStore, buildFtsQuery} from './sessionStore.js';
 
 vi.mock('../utils/logger.js', () => ({
 	logger: {
@@ -202,4 +202,415 @@ describe('SessionStore', () => {
 			store.getLatestByTdSessionId({tdSessionId: 'ses_missing'}),
 		).toBeNull();
 	});
+
+	it('aggregates recorded usage by grouping and filters', () => {
+		const base = {
+			agentOptions: {},
+			worktreePath: '/tmp/worktree-u',
+		};
+		store.createSessionRecord({
+			...base,
+			id: 'usage-1',
+			agentProfileId: 'claude',
+			agentProfileName: 'Claude',
+			agentType: 'claude',
+			projectPath: '/tmp/project-u',
+			tdTaskId: 'td-1',
+			createdAt: 1_720_000_000,
+		});
+		store.createSessionRecord({
+			...base,
+			id: 'usage-2',
+			agentProfileId: 'claude',
+			agentProfileName: 'Claude',
+			agentType: 'claude',
+			projectPath: '/tmp/project-u',
+			createdAt: 1_720_100_000,
+		});
+		store.createSessionRecord({
+			...base,
+			id: 'usage-3',
+			agentProfileId: 'codex',
+			agentProfileName: 'Codex',
+			agentType: 'codex',
+			projectPath: '/tmp/project-other',
+			tdTaskId: 'td-1',
+			createdAt: 1_720_200_000,
+		});
+
+		store.upsertSessionUsage({
+			sessionId: 'usage-1',
+			totalTokens: 1000,
+			estimatedCostUsd: 0.4,
+			model: 'sonnet',
+		});
+		store.upsertSessionUsage({
+			sessionId: 'usage-2',
+			totalTokens: 500,
+			estimatedCostUsd: 0.1,
+			model: 'opus',
+		});
+		store.upsertSessionUsage({
+			sessionId: 'usage-3',
+			totalTokens: 2000,
+			model: 'gpt-5',
+			sourceMtime: 123,
+		});
+		// Later extraction replaces the earlier numbers
+		store.upsertSessionUsage({
+			sessionId: 'usage-2',
+			totalTokens: 800,
+			estimatedCostUsd: 0.2,
+			model: 'opus',
+		});
+
+		const byAgent = store.queryUsage('agent');
+		expect(byAgent.map(g => [g.key, g.sessions, g.totalTokens])).toEqual([
+			['Claude', 2, 1800],
+			['Codex', 1, 2000],
+		]);
+		expect(byAgent[0]?.estimatedCostUsd).toBeCloseTo(0.6);
+		expect(store.queryUsage('task', {projectPath: '/tmp/project-u'})).toEqual(
+			expect.arrayContaining([
+				expect.objectContaining({key: 'td-1', totalTokens: 1000}),
+				expect.objectContaining({key: null, totalTokens: 800}),
+			]),
+		);
+		expect(
+			store.queryUsage('model', {dateFrom: 1_720_050_000}).map(g => g.key),
+		).toEqual(['opus', 'gpt-5']);
+		expect(store.getSessionUsage('usage-3')?.sourceMtime).toBe(123);
+
+		store.updateAgentSessionLink('usage-3', '/tmp/sessions/codex.jsonl');
+		expect(store.listUsageCandidates()).toEqual([
+			expect.objectContaining({
+				sessionId: 'usage-3',
+				agentSessionPath: '/tmp/sessions/codex.jsonl',
+				sourceMtime: 123,
+			}),
+		]);
+	});
+
+	it('indexes messages for full-text search with session filters', () => {
+		const base = {
+			agentOptions: {},
+			worktreePath: '/tmp/worktree-s',
+			agentProfileId: 'claude',
+			agentProfileName: 'Claude',
+			agentType: 'claude',
+		};
+		store.createSessionRecord({
+			...base,
+			id: 'search-1',
+			projectPath: '/tmp/project-s',
+			branchName: 'feature/auth',
+			createdAt: 1_720_000_000,
+		});
+		store.createSessionRecord({
+			...base,
+			id: 'search-2',
+			projectPath: '/tmp/project-other',
+			createdAt: 1_720_100_000,
+		});
+
+		store.replaceIndexedMessages(
+			'search-1',
+			[
+				{
+					id: 'm1',
+					role: 'user',
+					timestamp: 1_720_000_010,
+					content: 'Please fix the auth migration for user tokens',
+				},
+				{id: 'm2', role: 'assistant', timestamp: null, content: '   '},
+			],
+			111,
+		);
+		store.replaceIndexedMessages('search-2', [
+			{
+				id: 'm1',
+				role: 'assistant',
+				timestamp: 1_720_100_010,
+				content: 'Edited db/migrations/0042_auth.sql',
+			},
+		]);
+
+		const all = store.searchMessages('auth');
+		expect(all.total).toBe(2);
+		expect(all.hits.map(hit => hit.sessionId).sort()).toEqual([
+			'search-1',
+			'search-2',
+		]);
+
+		const scoped = store.searchMessages('migrations', {
+			projectPath: '/tmp/project-s',
+		});
+		// porter stemming matches "migration" for "migrations"
+		expect(scoped.hits).toEqual([
+			expect.objectContaining({
+				sessionId: 'search-1',
+				messageId: 'm1',
+				role: 'user',
+				timestamp: 1_720_000_010,
+				branchName: 'feature/auth',
+			}),
+		]);
+		expect(scoped.hits[0]?.snippet).toContain('[[migration]]');
+
+		expect(store.searchMessages('0042_auth.sql').hits).toHaveLength(1);
+		expect(store.searchMessages('"unbalanced (quote').total).toBe(0);
+
+		// Re-indexing replaces the previous messages of that session
+		store.replaceIndexedMessages('search-1', [
+			{id: 'm3', role: 'user', timestamp: null, content: 'rename the column'},
+		]);
+		expect(store.searchMessages('auth').hits.map(hit => hit.sessionId)).toEqual(
+			['search-2'],
+		);
+
+		store.updateAgentSessionLink('search-1', '/tmp/sessions/claude.jsonl');
+		expect(store.listMessageIndexCandidates()).toEqual([
+			expect.objectContaining({sessionId: 'search-1', indexedMtime: null}),
+		]);
+	});
+
+	it('builds literal FTS queries from user input', () => {
+		expect(buildFtsQuery('auth migration')).toBe('"auth" "migration"');
+		expect(buildFtsQuery('src/auth.ts mig*')).toBe('"src/auth.ts" "mig"*');
+		expect(buildFtsQuery(' "" * ')).toBeNull();
+	});
+
+	it('persists queue jobs and tracks their runs', () => {
+		store.createQueueJob({
+			id: 'job-once',
+			projectPath: '/tmp/project-a',
+			branchTemplate: 'queue/{{date}}',
+			agentId: 'claude',
+			agentOptions: {model: 'sonnet'},
+			trigger: 'at',
+			runAt: 1_720_000_000,
+		});
+		store.createQueueJob({
+			id: 'job-cron',
+			projectPath: '/tmp/project-a',
+			agentId: 'codex',
+			trigger: 'cron',
+			cronExpression: '0 3 * * *',
+			runAt: 1_720_000_500,
+		});
+		store.createQueueJob({
+			id: 'job-later',
+			projectPath: '/tmp/project-b',
+			agentId: 'claude',
+			trigger: 'at',
+			runAt: 1_800_000_000,
+		});
+
+		expect(store.getQueueJob('job-once')).toMatchObject({
+			branchTemplate: 'queue/{{date}}',
+			worktreePath: null,
+			agentOptions: {model: 'sonnet'},
+			status: 'pending',
+			runCount: 0,
+		});
+		expect(store.listDueQueueJobs(1_720_001_000).map(job => job.id)).toEqual([
+			'job-once',
+			'job-cron',
+		]);
+
+		store.markQueueJobLaunched('job-once', 'session-1');
+		store.markQueueJobLaunched('job-cron', 'session-2', 1_720_090_000);
+		expect(store.getQueueJob('job-once')).toMatchObject({
+			status: 'launched',
+			sessionId: 'session-1',
+			runCount: 1,
+		});
+		expect(store.getQueueJob('job-cron')).toMatchObject({
+			status: 'pending',
+			runAt: 1_720_090_000,
+			runCount: 1,
+		});
+
+		store.markQueueJobFailed('job-cron', 'boom', 1_720_180_000);
+		expect(store.getQueueJob('job-cron')).toMatchObject({
+			status: 'pending',
+			lastError: 'boom',
+		});
+
+		expect(store.cancelQueueJob('job-later')).toBe(true);
+		expect(store.cancelQueueJob('job-once')).toBe(false);
+		expect(
+			store.listQueueJobs({projectPath: '/tmp/project-a'}).map(job => job.id),
+		).toEqual(['job-cron', 'job-once']);
+		expect(
+			store.listQueueJobs({status: 'cancelled'}).map(job => job.id),
+		).toEqual(['job-later']);
+	});
+
+	it('counts only the part of each session that ran since the start of the day', () => {
+		const dayStart = 1_720_000_000;
+		const now = dayStart + 3600;
+		const addSession = (
+			id: string,
+			createdAt: number,
+			endedAt?: number,
+			projectPath = '/tmp/project-budget',
+		) => {
+			store.createSessionRecord({
+				id,
+				agentProfileId: 'claude',
+				agentProfileName: 'Claude',
+				agentType: 'claude',
+				agentOptions: {},
+				worktreePath: projectPath,
+				projectPath,
+				createdAt,
+			});
+			if (endedAt !== undefined) store.markSessionEnded(id, endedAt);
+		};
+
+		// Running since an hour before midnight: half of it falls in the day
+		addSession('overnight', dayStart - 3600);
+		store.upsertSessionUsage({
+			sessionId: 'overnight',
+			totalTokens: 1000,
+			estimatedCostUsd: 2,
+		});
+		store.upsertSessionBudget({
+			sessionId: 'overnight',
+			busySeconds: 1200,
+			status: 'ok',
+		});
+		addSession('today', dayStart + 600, dayStart + 1200);
+		store.upsertSessionUsage({sessionId: 'today', totalTokens: 100});
+		addSession('yesterday', dayStart - 7200, dayStart - 3600);
+		store.upsertSessionUsage({sessionId: 'yesterday', totalTokens: 10_000});
+		addSession('other-project', dayStart + 60, undefined, '/tmp/other');
+
+		expect(
+			store.getProjectBudgetTotals('/tmp/project-budget', dayStart, now),
+		).toEqual({
+			seconds: 4200,
+			busySeconds: 600,
+			totalTokens: 600,
+			estimatedCostUsd: 1,
+		});
+	});
+
+	it('records auto-approval decisions and user overrides', () => {
+		store.recordAutoApprovalDecision({
+			sessionId: 'session-1',
+			agentId: 'claude',
+			projectPath: '/tmp/project-a',
+			verdict: 'approved',
+			decidedBy: 'rule',
+			rule: 'allow command=/^npm test$/',
+			terminalExcerpt: 'Bash(npm test)',
+			latencyMs: 2.4,
+		});
+		const heldBack = store.recordAutoApprovalDecision({
+			sessionId: 'session-1',
+			agentId: 'claude',
+			projectPath: '/tmp/project-a',
+			verdict: 'needs_permission',
+			decidedBy: 'verifier',
+			reason: 'Pushes to remote',
+			terminalExcerpt: 'Bash(git push)',
+			latencyMs: 1800,
+		});
+		store.recordAutoApprovalDecision({
+			sessionId: 'session-2',
+			projectPath: '/tmp/project-b',
+			verdict: 'error',
+			reason: 'timed out',
+			terminalExcerpt: '',
+			latencyMs: 30000,
+		});
+
+		expect(heldBack).toMatchObject({
+			verdict: 'needs_permission',
+			reason: 'Pushes to remote',
+			userOverride: false,
+			overriddenAt: null,
+		});
+		expect(store.markAutoApprovalOverridden('session-1')).toMatchObject({
+			id: heldBack.id,
+			userOverride: true,
+		});
+		// Already overridden
+		expect(store.markAutoApprovalOverridden('session-1')).toBeNull();
+		expect(store.markAutoApprovalOverridden('session-missing')).toBeNull();
+
+		expect(
+			store
+				.listAutoApprovalDecisions({projectPath: '/tmp/project-a'})
+				.map(decision => decision.verdict),
+		).toEqual(['needs_permission', 'approved']);
+		expect(
+			store.listAutoApprovalDecisions({userOverride: true}).map(d => d.id),
+		).toEqual([heldBack.id]);
+		expect(store.countAutoApprovalDecisions({verdict: 'error'})).toBe(1);
+		expect(store.countAutoApprovalDecisions()).toBe(3);
+	});
+
+	it('stores review comments per worktree commit and marks them sent', () => {
+		const base = {
+			worktreePath: '/tmp/wt-a',
+			side: 'new' as const,
+			snippet: 'const a = 1;',
+		};
+		store.createReviewComment({
+			...base,
+			id: 'rc-2',
+			commitSha: 'abc',
+			filePath: 'src/b.ts',
+			line: 3,
+			body: 'Rename this',
+		});
+		store.createReviewComment({
+			...base,
+			id: 'rc-1',
+			commitSha: 'abc',
+			filePath: 'src/a.ts',
+			line: 10,
+			body: 'Handle null',
+		});
+		store.createReviewComment({
+			...base,
+			id: 'rc-old',
+			commitSha: 'old',
+			filePath: 'src/a.ts',
+			line: 1,
+			body: 'Stale',
+		});
+
+		expect(
+			store
+				.listReviewComments({worktreePath: '/tmp/wt-a', commitSha: 'abc'})
+				.map(comment => comment.id),
+		).toEqual(['rc-1', 'rc-2']);
+		expect(store.listReviewComments({worktreePath: '/tmp/wt-a'})).toHaveLength(
+			3,
+		);
+
+		expect(store.updateReviewComment('rc-1', 'Handle undefined')?.body).toBe(
+			'Handle undefined',
+		);
+		expect(store.updateReviewComment('rc-missing', 'x')).toBeNull();
+
+		store.markReviewCommentsSent(['rc-1']);
+		expect(store.getReviewComment('rc-1')?.sentAt).not.toBeNull();
+		expect(
+			store
+				.listReviewComments({
+					worktreePath: '/tmp/wt-a',
+					commitSha: 'abc',
+					unsentOnly: true,
+				})
+				.map(comment => comment.id),
+		).toEqual(['rc-2']);
+
+		expect(store.deleteReviewComment('rc-2')).toBe(true);
+		expect(store.deleteReviewComment('rc-2')).toBe(false);
+	});
 });
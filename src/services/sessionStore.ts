@@ -17,11 +17,14 @@ import {
 import {Either} from 'effect';
 import {logger} from '../utils/logger.js';
 import {adapterRegistry} from '../adapters/index.js';
+import type {BudgetAction, WorkflowConfig} from '../types/index.js';
 
 const DB_FILENAME = 'sessions.db';
-const SCHEMA_VERSION = 2;
+const SCHEMA_VERSION = 12;
 const DISCOVERY_RETRY_LIMIT = 8;
 const DISCOVERY_RETRY_DELAY_MS = 1500;
+// Cap indexed text per message so huge tool outputs don't bloat sessions.db
+const MAX_INDEXED_MESSAGE_LENGTH = 20000;
 
 type SqlPrimitive = string | number | null;
 
@@ -42,6 +45,7 @@ export interface SessionRecord {
 	tdSessionId: string | null;
 	sessionName: string | null;
 	contentPreview: string | null;
+	scrollbackPath: string | null;
 	intent: SessionIntent;
 	createdAt: number;
 	endedAt: number | null;
@@ -60,6 +64,7 @@ export interface CreateSessionRecordInput {
 	tdSessionId?: string;
 	sessionName?: string;
 	contentPreview?: string;
+	scrollbackPath?: string;
 	intent?: SessionIntent;
 	createdAt?: number;
 }
@@ -76,6 +81,398 @@ export interface SessionQueryFilters {
 	search?: string;
 }
 
+export type UsageGroupBy = 'project' | 'agent' | 'model' | 'task' | 'day';
+
+export interface SessionUsageRecord {
+	sessionId: string;
+	totalTokens: number;
+	estimatedCostUsd: number | null;
+	model: string | null;
+	messageCount: number | null;
+	sourceMtime: number | null; // mtime (ms) of the agent session file when extracted
+	updatedAt: number;
+}
+
+export interface UpsertSessionUsageInput {
+	sessionId: string;
+	totalTokens?: number;
+	estimatedCostUsd?: number;
+	model?: string;
+	messageCount?: number;
+	sourceMtime?: number;
+}
+
+export interface UsageGroup {
+	key: string | null;
+	sessions: number;
+	totalTokens: number;
+	estimatedCostUsd: number;
+}
+
+export interface UsageCandidate {
+	sessionId: string;
+	agentType: string;
+	agentProfileId: string;
+	agentSessionPath: string;
+	sourceMtime: number | null;
+}
+
+export interface MessageIndexCandidate {
+	sessionId: string;
+	agentType: string;
+	agentProfileId: string;
+	agentSessionPath: string;
+	indexedMtime: number | null;
+}
+
+export interface IndexedMessageInput {
+	id: string;
+	role: string;
+	timestamp: number | null;
+	content: string;
+}
+
+export interface MessageSearchHit {
+	sessionId: string;
+	messageId: string;
+	role: string;
+	timestamp: number | null;
+	/** Matching excerpt; matched terms are wrapped in [[ ]] */
+	snippet: string;
+	sessionName: string | null;
+	agentProfileName: string;
+	agentType: string;
+	branchName: string | null;
+	worktreePath: string;
+	projectPath: string | null;
+	tdTaskId: string | null;
+	createdAt: number;
+}
+
+export type QueueJobTrigger = 'at' | 'cron' | 'slot';
+export type QueueJobStatus = 'pending' | 'launched' | 'failed' | 'cancelled';
+
+export interface QueueJobRecord {
+	id: string;
+	projectPath: string;
+	/** Existing worktree to run in; null when a branch template is used */
+	worktreePath: string | null;
+	/** Branch name template for a fresh worktree per run */
+	branchTemplate: string | null;
+	agentId: string;
+	agentOptions: Record<string, unknown>;
+	promptTemplate: string | null;
+	tdTaskId: string | null;
+	sessionName: string | null;
+	trigger: QueueJobTrigger;
+	cronExpression: string | null;
+	/** Unix seconds when the job becomes due */
+	runAt: number;
+	status: QueueJobStatus;
+	/** Session started by the most recent run */
+	sessionId: string | null;
+	lastError: string | null;
+	runCount: number;
+	createdAt: number;
+	updatedAt: number;
+	lastRunAt: number | null;
+}
+
+export interface CreateQueueJobInput {
+	id: string;
+	projectPath: string;
+	worktreePath?: string;
+	branchTemplate?: string;
+	agentId: string;
+	agentOptions?: Record<string, unknown>;
+	promptTemplate?: string;
+	tdTaskId?: string;
+	sessionName?: string;
+	trigger: QueueJobTrigger;
+	cronExpression?: string;
+	runAt: number;
+}
+
+export interface QueueJobFilters {
+	projectPath?: string;
+	status?: QueueJobStatus;
+	limit?: number;
+}
+
+export type WorkflowRunStatus =
+	| 'running'
+	| 'completed'
+	| 'failed'
+	| 'cancelled';
+export type WorkflowStepStatus =
+	| 'pending'
+	| 'running'
+	| 'idle'
+	| 'exited'
+	| 'failed';
+
+export interface WorkflowStepRun {
+	name: string;
+	agentId: string;
+	status: WorkflowStepStatus;
+	sessionId: string | null;
+	worktreePath: string | null;
+	error: string | null;
+	startedAt: number | null;
+	finishedAt: number | null;
+}
+
+export interface WorkflowRunRecord {
+	id: string;
+	workflowName: string;
+	projectPath: string;
+	/** Worktree the next step reuses; null until a step started */
+	worktreePath: string | null;
+	tdTaskId: string | null;
+	status: WorkflowRunStatus;
+	/** Workflow definition as it was when the run started */
+	definition: WorkflowConfig;
+	steps: WorkflowStepRun[];
+	error: string | null;
+	createdAt: number;
+	updatedAt: number;
+}
+
+export interface CreateWorkflowRunInput {
+	id: string;
+	workflowName: string;
+	projectPath: string;
+	worktreePath?: string;
+	tdTaskId?: string;
+	definition: WorkflowConfig;
+	steps: WorkflowStepRun[];
+}
+
+export interface UpdateWorkflowRunInput {
+	status?: WorkflowRunStatus;
+	worktreePath?: string;
+	steps?: WorkflowStepRun[];
+	error?: string | null;
+}
+
+export interface WorkflowRunFilters {
+	projectPath?: string;
+	status?: WorkflowRunStatus;
+	limit?: number;
+}
+
+export type ComparisonRunStatus = 'running' | 'kept' | 'discarded' | 'failed';
+export type ComparisonAttemptStatus =
+	| 'pending'
+	| 'running'
+	| 'exited'
+	| 'failed'
+	| 'kept'
+	| 'discarded';
+
+export interface ComparisonTestResult {
+	passed: boolean;
+	/** Tail of the test command's output */
+	output: string;
+	durationMs: number;
+	finishedAt: number;
+}
+
+export interface ComparisonAttempt {
+	agentId: string;
+	branch: string;
+	status: ComparisonAttemptStatus;
+	sessionId: string | null;
+	worktreePath: string | null;
+	error: string | null;
+	startedAt: number | null;
+	test: ComparisonTestResult | null;
+}
+
+export interface ComparisonRunRecord {
+	id: string;
+	projectPath: string;
+	/** Branch every attempt starts from and the winner is merged into */
+	baseBranch: string;
+	tdTaskId: string | null;
+	prompt: string | null;
+	promptTemplate: string | null;
+	status: ComparisonRunStatus;
+	attempts: ComparisonAttempt[];
+	keptBranch: string | null;
+	error: string | null;
+	createdAt: number;
+	updatedAt: number;
+}
+
+export interface CreateComparisonRunInput {
+	id: string;
+	projectPath: string;
+	baseBranch: string;
+	tdTaskId?: string;
+	prompt?: string;
+	promptTemplate?: string;
+	attempts: ComparisonAttempt[];
+}
+
+export interface UpdateComparisonRunInput {
+	status?: ComparisonRunStatus;
+	attempts?: ComparisonAttempt[];
+	keptBranch?: string;
+	error?: string | null;
+}
+
+export interface ComparisonRunFilters {
+	projectPath?: string;
+	status?: ComparisonRunStatus;
+	limit?: number;
+}
+
+export type BudgetStatus = 'ok' | 'warning' | 'exceeded';
+export type BudgetMetric = 'minutes' | 'busyMinutes' | 'tokens' | 'costUsd';
+export type BudgetScope = 'session' | 'daily';
+
+export interface SessionBudgetRecord {
+	sessionId: string;
+	busySeconds: number;
+	status: BudgetStatus;
+	/** The limit behind a warning or exceeded status */
+	scope: BudgetScope | null;
+	metric: BudgetMetric | null;
+	limit: number | null;
+	value: number | null;
+	/** What was done when the budget was exceeded */
+	action: BudgetAction | null;
+	updatedAt: number;
+}
+
+export interface UpsertSessionBudgetInput {
+	sessionId: string;
+	busySeconds: number;
+	status: BudgetStatus;
+	scope?: BudgetScope | null;
+	metric?: BudgetMetric | null;
+	limit?: number | null;
+	value?: number | null;
+	action?: BudgetAction | null;
+}
+
+export interface BudgetTotals {
+	seconds: number;
+	busySeconds: number;
+	totalTokens: number;
+	estimatedCostUsd: number;
+}
+
+export type AutoApprovalVerdict = 'approved' | 'needs_permission' | 'error';
+
+export interface AutoApprovalDecisionRecord {
+	id: number;
+	sessionId: string;
+	agentId: string | null;
+	projectPath: string | null;
+	worktreePath: string | null;
+	verdict: AutoApprovalVerdict;
+	/** 'rule', 'verifier' or 'no-match' (see AutoApprovalResponse) */
+	decidedBy: string | null;
+	rule: string | null;
+	reason: string | null;
+	/** Tail of the terminal the decision was based on */
+	terminalExcerpt: string;
+	latencyMs: number;
+	/** The user approved a prompt the gate held back */
+	userOverride: boolean;
+	overriddenAt: number | null;
+	createdAt: number;
+}
+
+export interface CreateAutoApprovalDecisionInput {
+	sessionId: string;
+	agentId?: string;
+	projectPath?: string;
+	worktreePath?: string;
+	verdict: AutoApprovalVerdict;
+	decidedBy?: string;
+	rule?: string;
+	reason?: string;
+	terminalExcerpt: string;
+	latencyMs: number;
+}
+
+export interface AutoApprovalDecisionFilters {
+	sessionId?: string;
+	projectPath?: string;
+	agentId?: string;
+	verdict?: AutoApprovalVerdict;
+	decidedBy?: string;
+	userOverride?: boolean;
+	/** Unix seconds, inclusive */
+	since?: number;
+	limit?: number;
+	offset?: number;
+}
+
+export type ReviewCommentSide = 'old' | 'new';
+
+export interface ReviewCommentRecord {
+	id: string;
+	worktreePath: string;
+	/** HEAD when the comment was written; null before the first commit */
+	commitSha: string | null;
+	filePath: string;
+	line: number;
+	/** 'new' anchors to the changed file, 'old' to a deleted line */
+	side: ReviewCommentSide;
+	snippet: string;
+	body: string;
+	createdAt: number;
+	updatedAt: number;
+	/** When the comment was last sent to the worktree's agent */
+	sentAt: number | null;
+}
+
+export interface CreateReviewCommentInput {
+	id: string;
+	worktreePath: string;
+	commitSha: string | null;
+	filePath: string;
+	line: number;
+	side: ReviewCommentSide;
+	snippet: string;
+	body: string;
+}
+
+export interface ReviewCommentFilters {
+	worktreePath: string;
+	/** Restrict to one commit; omit to list comments from every commit */
+	commitSha?: string | null;
+	filePath?: string;
+	unsentOnly?: boolean;
+}
+
+export type PullRequestState = 'open' | 'draft' | 'merged' | 'closed';
+
+export interface WorktreePullRequestRecord {
+	worktreePath: string;
+	/** Forge kind, e.g. 'github' */
+	provider: string;
+	/** owner/repo (or the full namespace path on GitLab) */
+	repository: string;
+	number: number;
+	url: string;
+	title: string;
+	state: PullRequestState;
+	sourceBranch: string;
+	targetBranch: string;
+	createdAt: number;
+	updatedAt: number;
+}
+
+export type UpsertWorktreePullRequestInput = Omit<
+	WorktreePullRequestRecord,
+	'createdAt' | 'updatedAt'
+>;
+
 interface SessionFileDiscoveryResult {
 	path: string;
 	agentSessionId: string | null;
@@ -96,17 +493,163 @@ interface SessionRow {
 	td_session_id: string | null;
 	session_name: string | null;
 	content_preview: string | null;
+	scrollback_path: string | null;
 	intent: string;
 	created_at: number;
 	ended_at: number | null;
 }
 
+interface QueueJobRow {
+	id: string;
+	project_path: string;
+	worktree_path: string | null;
+	branch_template: string | null;
+	agent_id: string;
+	agent_options: string;
+	prompt_template: string | null;
+	td_task_id: string | null;
+	session_name: string | null;
+	trigger: string;
+	cron_expression: string | null;
+	run_at: number;
+	status: string;
+	session_id: string | null;
+	last_error: string | null;
+	run_count: number;
+	created_at: number;
+	updated_at: number;
+	last_run_at: number | null;
+}
+
+interface WorkflowRunRow {
+	id: string;
+	workflow_name: string;
+	project_path: string;
+	worktree_path: string | null;
+	td_task_id: string | null;
+	status: string;
+	definition: string;
+	steps: string;
+	error: string | null;
+	created_at: number;
+	updated_at: number;
+}
+
+interface AutoApprovalDecisionRow {
+	id: number;
+	session_id: string;
+	agent_id: string | null;
+	project_path: string | null;
+	worktree_path: string | null;
+	verdict: string;
+	decided_by: string | null;
+	rule: string | null;
+	reason: string | null;
+	terminal_excerpt: string;
+	latency_ms: number;
+	user_override: number;
+	overridden_at: number | null;
+	created_at: number;
+}
+
+interface ReviewCommentRow {
+	id: string;
+	worktree_path: string;
+	commit_sha: string | null;
+	file_path: string;
+	line: number;
+	side: string;
+	snippet: string;
+	body: string;
+	created_at: number;
+	updated_at: number;
+	sent_at: number | null;
+}
+
+interface WorktreePullRequestRow {
+	worktree_path: string;
+	provider: string;
+	repository: string;
+	number: number;
+	url: string;
+	title: string;
+	state: string;
+	source_branch: string;
+	target_branch: string;
+	created_at: number;
+	updated_at: number;
+}
+
+interface ComparisonRunRow {
+	id: string;
+	project_path: string;
+	base_branch: string;
+	td_task_id: string | null;
+	prompt: string | null;
+	prompt_template: string | null;
+	status: string;
+	attempts: string;
+	kept_branch: string | null;
+	error: string | null;
+	created_at: number;
+	updated_at: number;
+}
+
+interface SessionBudgetRow {
+	session_id: string;
+	busy_seconds: number;
+	status: string;
+	scope: string | null;
+	metric: string | null;
+	limit_value: number | null;
+	value: number | null;
+	action: string | null;
+	updated_at: number;
+}
+
+interface SessionUsageRow {
+	session_id: string;
+	total_tokens: number;
+	estimated_cost_usd: number | null;
+	model: string | null;
+	message_count: number | null;
+	source_mtime: number | null;
+	updated_at: number;
+}
+
+// Whitelisted GROUP BY expressions for usage analytics
+const USAGE_GROUP_EXPRESSIONS: Record<UsageGroupBy, string> = {
+	project: 'COALESCE(s.project_path, s.worktree_path)',
+	agent: 's.agent_profile_name',
+	model: 'u.model',
+	task: 's.td_task_id',
+	day: "date(s.created_at, 'unixepoch', 'localtime')",
+};
+
 function normalizeOptionalString(value: string | undefined): string | null {
 	if (!value) return null;
 	const normalized = value.trim();
 	return normalized.length > 0 ? normalized : null;
 }
 
+/**
+ * Turn free-form user input into an FTS5 query. Every term is quoted so
+ * punctuation (paths, flags, `foo-bar`) is matched literally; a trailing `*`
+ * keeps prefix matching. Terms are implicitly AND-ed.
+ */
+export function buildFtsQuery(input: string): string | null {
+	const terms = input
+		.split(/\s+/)
+		.map(term => {
+			const prefix = term.endsWith('*');
+			const text = term.replace(/"/g, '').replace(/\*+$/, '');
+			if (!text) return null;
+			return prefix ? `"${text}"*` : `"${text}"`;
+		})
+		.filter((term): term is string => !!term);
+	return terms.length > 0 ? terms.join(' ') : null;
+}
+
 function toUnixSeconds(timestampMs = Date.now()): number {
 	return Math.floor(timestampMs / 1000);
 }
@@ -278,6 +821,195 @@ export class SessionStore {
 			}
 		}
 
+		if (currentVersion < 3) {
+			try {
+				db.exec('ALTER TABLE sessions ADD COLUMN scrollback_path TEXT');
+			} catch {
+				// Column already exists in some migrated databases.
+			}
+		}
+
+		if (currentVersion < 4) {
+			db.exec(`
+				CREATE TABLE IF NOT EXISTS session_usage (
+					session_id TEXT PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+					total_tokens INTEGER NOT NULL DEFAULT 0,
+					estimated_cost_usd REAL,
+					model TEXT,
+					message_count INTEGER,
+					source_mtime INTEGER,
+					updated_at INTEGER NOT NULL
+				);
+			`);
+		}
+
+		if (currentVersion < 5) {
+			db.exec(`
+				CREATE VIRTUAL TABLE IF NOT EXISTS message_fts USING fts5(
+					content,
+					session_id UNINDEXED,
+					message_id UNINDEXED,
+					role UNINDEXED,
+					timestamp UNINDEXED,
+					tokenize = 'porter unicode61'
+				);
+
+				CREATE TABLE IF NOT EXISTS message_index_state (
+					session_id TEXT PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+					source_mtime INTEGER,
+					message_count INTEGER NOT NULL DEFAULT 0,
+					indexed_at INTEGER NOT NULL
+				);
+			`);
+		}
+
+		if (currentVersion < 6) {
+			db.exec(`
+				CREATE TABLE IF NOT EXISTS queue_jobs (
+					id TEXT PRIMARY KEY,
+					project_path TEXT NOT NULL,
+					worktree_path TEXT,
+					branch_template TEXT,
+					agent_id TEXT NOT NULL,
+					agent_options TEXT NOT NULL DEFAULT '{}',
+					prompt_template TEXT,
+					td_task_id TEXT,
+					session_name TEXT,
+					trigger TEXT NOT NULL,
+					cron_expression TEXT,
+					run_at INTEGER NOT NULL,
+					status TEXT NOT NULL DEFAULT 'pending',
+					session_id TEXT,
+					last_error TEXT,
+					run_count INTEGER NOT NULL DEFAULT 0,
+					created_at INTEGER NOT NULL,
+					updated_at INTEGER NOT NULL,
+					last_run_at INTEGER
+				);
+
+				CREATE INDEX IF NOT EXISTS idx_queue_jobs_status_run_at ON queue_jobs(status, run_at);
+			`);
+		}
+
+		if (currentVersion < 7) {
+			db.exec(`
+				CREATE TABLE IF NOT EXISTS auto_approval_decisions (
+					id INTEGER PRIMARY KEY AUTOINCREMENT,
+					session_id TEXT NOT NULL,
+					agent_id TEXT,
+					project_path TEXT,
+					worktree_path TEXT,
+					verdict TEXT NOT NULL,
+					decided_by TEXT,
+					rule TEXT,
+					reason TEXT,
+					terminal_excerpt TEXT NOT NULL DEFAULT '',
+					latency_ms INTEGER NOT NULL DEFAULT 0,
+					user_override INTEGER NOT NULL DEFAULT 0,
+					overridden_at INTEGER,
+					created_at INTEGER NOT NULL
+				);
+
+				CREATE INDEX IF NOT EXISTS idx_auto_approval_decisions_created_at ON auto_approval_decisions(created_at);
+				CREATE INDEX IF NOT EXISTS idx_auto_approval_decisions_session ON auto_approval_decisions(session_id, created_at);
+			`);
+		}
+
+		if (currentVersion < 8) {
+			db.exec(`
+				CREATE TABLE IF NOT EXISTS review_comments (
+					id TEXT PRIMARY KEY,
+					worktree_path TEXT NOT NULL,
+					commit_sha TEXT,
+					file_path TEXT NOT NULL,
+					line INTEGER NOT NULL,
+					side TEXT NOT NULL DEFAULT 'new',
+					snippet TEXT NOT NULL DEFAULT '',
+					body TEXT NOT NULL,
+					created_at INTEGER NOT NULL,
+					updated_at INTEGER NOT NULL,
+					sent_at INTEGER
+				);
+
+				CREATE INDEX IF NOT EXISTS idx_review_comments_worktree ON review_comments(worktree_path, commit_sha);
+			`);
+		}
+
+		if (currentVersion < 9) {
+			db.exec(`
+				CREATE TABLE IF NOT EXISTS worktree_pull_requests (
+					worktree_path TEXT PRIMARY KEY,
+					provider TEXT NOT NULL,
+					repository TEXT NOT NULL,
+					number INTEGER NOT NULL,
+					url TEXT NOT NULL,
+					title TEXT NOT NULL DEFAULT '',
+					state TEXT NOT NULL DEFAULT 'open',
+					source_branch TEXT NOT NULL,
+					target_branch TEXT NOT NULL,
+					created_at INTEGER NOT NULL,
+					updated_at INTEGER NOT NULL
+				);
+			`);
+		}
+
+		if (currentVersion < 10) {
+			db.exec(`
+				CREATE TABLE IF NOT EXISTS workflow_runs (
+					id TEXT PRIMARY KEY,
+					workflow_name TEXT NOT NULL,
+					project_path TEXT NOT NULL,
+					worktree_path TEXT,
+					td_task_id TEXT,
+					status TEXT NOT NULL DEFAULT 'running',
+					definition TEXT NOT NULL,
+					steps TEXT NOT NULL DEFAULT '[]',
+					error TEXT,
+					created_at INTEGER NOT NULL,
+					updated_at INTEGER NOT NULL
+				);
+
+				CREATE INDEX IF NOT EXISTS idx_workflow_runs_status ON workflow_runs(status, created_at);
+			`);
+		}
+
+		if (currentVersion < 11) {
+			db.exec(`
+				CREATE TABLE IF NOT EXISTS session_budgets (
+					session_id TEXT PRIMARY KEY,
+					busy_seconds INTEGER NOT NULL DEFAULT 0,
+					status TEXT NOT NULL DEFAULT 'ok',
+					scope TEXT,
+					metric TEXT,
+					limit_value REAL,
+					value REAL,
+					action TEXT,
+					updated_at INTEGER NOT NULL
+				);
+			`);
+		}
+
+		if (currentVersion < 12) {
+			db.exec(`
+				CREATE TABLE IF NOT EXISTS comparison_runs (
+					id TEXT PRIMARY KEY,
+					project_path TEXT NOT NULL,
+					base_branch TEXT NOT NULL,
+					td_task_id TEXT,
+					prompt TEXT,
+					prompt_template TEXT,
+					status TEXT NOT NULL DEFAULT 'running',
+					attempts TEXT NOT NULL DEFAULT '[]',
+					kept_branch TEXT,
+					error TEXT,
+					created_at INTEGER NOT NULL,
+					updated_at INTEGER NOT NULL
+				);
+
+				CREATE INDEX IF NOT EXISTS idx_comparison_runs_status ON comparison_runs(status, created_at);
+			`);
+		}
+
 		db.pragma(`user_version = ${SCHEMA_VERSION}`);
 	}
 
@@ -300,11 +1032,12 @@ export class SessionStore {
 					td_session_id,
 					session_name,
 					content_preview,
+					scrollback_path,
 					intent,
 					created_at,
 					ended_at
 				)
-				VALUES (?, ?, ?, ?, ?, NULL, NULL, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL)
+				VALUES (?, ?, ?, ?, ?, NULL, NULL, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL)
 			`);
 
 			statement.run(
@@ -320,149 +1053,1275 @@ export class SessionStore {
 				normalizeOptionalString(input.tdSessionId),
 				normalizeOptionalString(input.sessionName),
 				normalizeContentPreview(input.contentPreview),
+				normalizeOptionalString(input.scrollbackPath),
 				input.intent || 'manual',
 				now,
 			);
 		});
 	}
 
-	markSessionEnded(sessionId: string, endedAt = toUnixSeconds()): void {
-		this.withRecovery(() => {
+	markSessionEnded(sessionId: string, endedAt = toUnixSeconds()): void {
+		this.withRecovery(() => {
+			this.db
+				.prepare('UPDATE sessions SET ended_at = ? WHERE id = ?')
+				.run(endedAt, sessionId);
+		});
+	}
+
+	markSessionResumed(sessionId: string): void {
+		this.withRecovery(() => {
+			this.db
+				.prepare('UPDATE sessions SET ended_at = NULL WHERE id = ?')
+				.run(sessionId);
+		});
+	}
+
+	updateSessionName(sessionId: string, sessionName?: string): void {
+		this.withRecovery(() => {
+			this.db
+				.prepare('UPDATE sessions SET session_name = ? WHERE id = ?')
+				.run(normalizeOptionalString(sessionName), sessionId);
+		});
+	}
+
+	updateSessionContentPreview(
+		sessionId: string,
+		contentPreview?: string,
+	): void {
+		this.withRecovery(() => {
+			this.db
+				.prepare('UPDATE sessions SET content_preview = ? WHERE id = ?')
+				.run(normalizeContentPreview(contentPreview), sessionId);
+		});
+	}
+
+	updateAgentSessionLink(
+		sessionId: string,
+		agentSessionPath: string,
+		agentSessionId?: string,
+	): void {
+		this.withRecovery(() => {
+			this.db
+				.prepare(
+					'UPDATE sessions SET agent_session_path = ?, agent_session_id = ? WHERE id = ?',
+				)
+				.run(
+					agentSessionPath,
+					normalizeOptionalString(agentSessionId) ||
+						extractSessionIdFromFilename(agentSessionPath),
+					sessionId,
+				);
+		});
+	}
+
+	getSessionById(sessionId: string): SessionRecord | null {
+		return this.withRecovery(() => {
+			const row = this.db
+				.prepare('SELECT * FROM sessions WHERE id = ?')
+				.get(sessionId) as SessionRow | undefined;
+			return row ? this.mapRow(row) : null;
+		});
+	}
+
+	querySessions(filters: SessionQueryFilters = {}): SessionRecord[] {
+		return this.withRecovery(() => {
+			const {whereClause, values} = this.buildWhereClause(filters);
+			const limit = typeof filters.limit === 'number' ? filters.limit : 50;
+			const offset = typeof filters.offset === 'number' ? filters.offset : 0;
+			const query = `
+				SELECT * FROM sessions
+				${whereClause}
+				ORDER BY created_at DESC
+				LIMIT ? OFFSET ?
+			`;
+
+			const rows = this.db
+				.prepare(query)
+				.all(...values, limit, offset) as SessionRow[];
+			return rows.map(row => this.mapRow(row));
+		});
+	}
+
+	countSessions(filters: SessionQueryFilters = {}): number {
+		return this.withRecovery(() => {
+			const {whereClause, values} = this.buildWhereClause(filters);
+			const row = this.db
+				.prepare(`SELECT COUNT(*) as total FROM sessions ${whereClause}`)
+				.get(...values) as {total: number};
+			return row.total;
+		});
+	}
+
+	queryByProject(projectPath: string, limit = 50, offset = 0): SessionRecord[] {
+		return this.querySessions({projectPath, limit, offset});
+	}
+
+	queryByWorktree(
+		worktreePath: string,
+		limit = 50,
+		offset = 0,
+	): SessionRecord[] {
+		return this.querySessions({worktreePath, limit, offset});
+	}
+
+	queryByTask(tdTaskId: string, limit = 50, offset = 0): SessionRecord[] {
+		return this.querySessions({tdTaskId, limit, offset});
+	}
+
+	queryByDateRange(dateFrom: number, dateTo: number): SessionRecord[] {
+		return this.querySessions({dateFrom, dateTo, limit: 5000, offset: 0});
+	}
+
+	getLatestByTdSessionId(params: {
+		tdSessionId: string;
+		tdTaskId?: string;
+		projectPath?: string;
+	}): SessionRecord | null {
+		return this.withRecovery(() => {
+			const clauses = ['td_session_id = ?'];
+			const values: SqlPrimitive[] = [params.tdSessionId];
+
+			if (params.tdTaskId) {
+				clauses.push('td_task_id = ?');
+				values.push(params.tdTaskId);
+			}
+
+			if (params.projectPath) {
+				clauses.push('project_path = ?');
+				values.push(params.projectPath);
+			}
+
+			const row = this.db
+				.prepare(
+					`SELECT * FROM sessions WHERE ${clauses.join(' AND ')} ORDER BY created_at DESC LIMIT 1`,
+				)
+				.get(...values) as SessionRow | undefined;
+			return row ? this.mapRow(row) : null;
+		});
+	}
+
+	upsertSessionUsage(input: UpsertSessionUsageInput): void {
+		this.withRecovery(() => {
+			this.db
+				.prepare(
+					`
+				INSERT INTO session_usage (
+					session_id,
+					total_tokens,
+					estimated_cost_usd,
+					model,
+					message_count,
+					source_mtime,
+					updated_at
+				)
+				VALUES (?, ?, ?, ?, ?, ?, ?)
+				ON CONFLICT(session_id) DO UPDATE SET
+					total_tokens = excluded.total_tokens,
+					estimated_cost_usd = excluded.estimated_cost_usd,
+					model = excluded.model,
+					message_count = excluded.message_count,
+					source_mtime = excluded.source_mtime,
+					updated_at = excluded.updated_at
+			`,
+				)
+				.run(
+					input.sessionId,
+					Math.max(0, Math.round(input.totalTokens ?? 0)),
+					typeof input.estimatedCostUsd === 'number'
+						? input.estimatedCostUsd
+						: null,
+					normalizeOptionalString(input.model),
+					typeof input.messageCount === 'number' ? input.messageCount : null,
+					typeof input.sourceMtime === 'number'
+						? Math.round(input.sourceMtime)
+						: null,
+					toUnixSeconds(),
+				);
+		});
+	}
+
+	getSessionUsage(sessionId: string): SessionUsageRecord | null {
+		return this.withRecovery(() => {
+			const row = this.db
+				.prepare('SELECT * FROM session_usage WHERE session_id = ?')
+				.get(sessionId) as SessionUsageRow | undefined;
+			return row ? this.mapUsageRow(row) : null;
+		});
+	}
+
+	/**
+	 * Sessions with a linked agent session file, plus the file mtime recorded
+	 * at their last usage extraction (null when never extracted).
+	 */
+	listUsageCandidates(): UsageCandidate[] {
+		return this.withRecovery(() => {
+			const rows = this.db
+				.prepare(
+					`
+				SELECT
+					s.id AS session_id,
+					s.agent_type,
+					s.agent_profile_id,
+					s.agent_session_path,
+					u.source_mtime
+				FROM sessions s
+				LEFT JOIN session_usage u ON u.session_id = s.id
+				WHERE s.agent_session_path IS NOT NULL
+			`,
+				)
+				.all() as Array<{
+				session_id: string;
+				agent_type: string;
+				agent_profile_id: string;
+				agent_session_path: string;
+				source_mtime: number | null;
+			}>;
+			return rows.map(row => ({
+				sessionId: row.session_id,
+				agentType: row.agent_type,
+				agentProfileId: row.agent_profile_id,
+				agentSessionPath: row.agent_session_path,
+				sourceMtime: row.source_mtime,
+			}));
+		});
+	}
+
+	/**
+	 * Aggregate recorded usage. Filters apply to the owning session rows, so
+	 * date ranges refer to when the session was started.
+	 */
+	queryUsage(
+		groupBy: UsageGroupBy,
+		filters: Omit<SessionQueryFilters, 'limit' | 'offset' | 'search'> = {},
+	): UsageGroup[] {
+		return this.withRecovery(() => {
+			const {whereClause, values} = this.buildWhereClause(filters, 's.');
+			const groupExpression = USAGE_GROUP_EXPRESSIONS[groupBy];
+			const rows = this.db
+				.prepare(
+					`
+				SELECT
+					${groupExpression} AS group_key,
+					COUNT(*) AS sessions,
+					COALESCE(SUM(u.total_tokens), 0) AS total_tokens,
+					COALESCE(SUM(u.estimated_cost_usd), 0) AS estimated_cost_usd
+				FROM session_usage u
+				JOIN sessions s ON s.id = u.session_id
+				${whereClause}
+				GROUP BY group_key
+				ORDER BY ${groupBy === 'day' ? 'group_key DESC' : 'estimated_cost_usd DESC, total_tokens DESC'}
+			`,
+				)
+				.all(...values) as Array<{
+				group_key: string | null;
+				sessions: number;
+				total_tokens: number;
+				estimated_cost_usd: number;
+			}>;
+			return rows.map(row => ({
+				key: row.group_key,
+				sessions: row.sessions,
+				totalTokens: row.total_tokens,
+				estimatedCostUsd: row.estimated_cost_usd,
+			}));
+		});
+	}
+
+	/**
+	 * Sessions with a linked agent session file, plus the file mtime recorded
+	 * when their messages were last indexed (null when never indexed).
+	 */
+	listMessageIndexCandidates(): MessageIndexCandidate[] {
+		return this.withRecovery(() => {
+			const rows = this.db
+				.prepare(
+					`
+				SELECT
+					s.id AS session_id,
+					s.agent_type,
+					s.agent_profile_id,
+					s.agent_session_path,
+					i.source_mtime
+				FROM sessions s
+				LEFT JOIN message_index_state i ON i.session_id = s.id
+				WHERE s.agent_session_path IS NOT NULL
+			`,
+				)
+				.all() as Array<{
+				session_id: string;
+				agent_type: string;
+				agent_profile_id: string;
+				agent_session_path: string;
+				source_mtime: number | null;
+			}>;
+			return rows.map(row => ({
+				sessionId: row.session_id,
+				agentType: row.agent_type,
+				agentProfileId: row.agent_profile_id,
+				agentSessionPath: row.agent_session_path,
+				indexedMtime: row.source_mtime,
+			}));
+		});
+	}
+
+	/** Replace the indexed messages of a session in one transaction. */
+	replaceIndexedMessages(
+		sessionId: string,
+		messages: IndexedMessageInput[],
+		sourceMtime?: number,
+	): void {
+		this.withRecovery(() => {
+			const deleteMessages = this.db.prepare(
+				'DELETE FROM message_fts WHERE session_id = ?',
+			);
+			const insertMessage = this.db.prepare(`
+				INSERT INTO message_fts (content, session_id, message_id, role, timestamp)
+				VALUES (?, ?, ?, ?, ?)
+			`);
+			const upsertState = this.db.prepare(`
+				INSERT INTO message_index_state (session_id, source_mtime, message_count, indexed_at)
+				VALUES (?, ?, ?, ?)
+				ON CONFLICT(session_id) DO UPDATE SET
+					source_mtime = excluded.source_mtime,
+					message_count = excluded.message_count,
+					indexed_at = excluded.indexed_at
+			`);
+
+			this.db.transaction(() => {
+				deleteMessages.run(sessionId);
+				let indexed = 0;
+				for (const message of messages) {
+					const content = message.content
+						.trim()
+						.slice(0, MAX_INDEXED_MESSAGE_LENGTH);
+					if (!content) continue;
+					insertMessage.run(
+						content,
+						sessionId,
+						message.id,
+						message.role,
+						message.timestamp,
+					);
+					indexed += 1;
+				}
+				upsertState.run(
+					sessionId,
+					typeof sourceMtime === 'number' ? Math.round(sourceMtime) : null,
+					indexed,
+					toUnixSeconds(),
+				);
+			})();
+		});
+	}
+
+	/**
+	 * Full-text search over indexed messages, best matches first. Session
+	 * filters apply to the owning session rows.
+	 */
+	searchMessages(
+		query: string,
+		filters: Omit<SessionQueryFilters, 'search'> = {},
+	): {hits: MessageSearchHit[]; total: number} {
+		const ftsQuery = buildFtsQuery(query);
+		if (!ftsQuery) {
+			return {hits: [], total: 0};
+		}
+
+		return this.withRecovery(() => {
+			const {whereClause, values} = this.buildWhereClause(
+				{...filters, limit: undefined, offset: undefined},
+				's.',
+			);
+			const matchClause = whereClause
+				? `${whereClause} AND message_fts MATCH ?`
+				: 'WHERE message_fts MATCH ?';
+			const limit = typeof filters.limit === 'number' ? filters.limit : 50;
+			const offset = typeof filters.offset === 'number' ? filters.offset : 0;
+
+			const rows = this.db
+				.prepare(
+					`
+				SELECT
+					f.session_id,
+					f.message_id,
+					f.role,
+					f.timestamp,
+					snippet(message_fts, 0, '[[', ']]', '…', 16) AS snippet,
+					s.session_name,
+					s.agent_profile_name,
+					s.agent_type,
+					s.branch_name,
+					s.worktree_path,
+					s.project_path,
+					s.td_task_id,
+					s.created_at
+				FROM message_fts f
+				JOIN sessions s ON s.id = f.session_id
+				${matchClause}
+				ORDER BY rank, s.created_at DESC
+				LIMIT ? OFFSET ?
+			`,
+				)
+				.all(...values, ftsQuery, limit, offset) as Array<{
+				session_id: string;
+				message_id: string;
+				role: string;
+				timestamp: number | null;
+				snippet: string;
+				session_name: string | null;
+				agent_profile_name: string;
+				agent_type: string;
+				branch_name: string | null;
+				worktree_path: string;
+				project_path: string | null;
+				td_task_id: string | null;
+				created_at: number;
+			}>;
+			const countRow = this.db
+				.prepare(
+					`
+				SELECT COUNT(*) AS total
+				FROM message_fts f
+				JOIN sessions s ON s.id = f.session_id
+				${matchClause}
+			`,
+				)
+				.get(...values, ftsQuery) as {total: number};
+
+			return {
+				hits: rows.map(row => ({
+					sessionId: row.session_id,
+					messageId: row.message_id,
+					role: row.role,
+					timestamp: row.timestamp,
+					snippet: row.snippet,
+					sessionName: row.session_name,
+					agentProfileName: row.agent_profile_name,
+					agentType: row.agent_type,
+					branchName: row.branch_name,
+					worktreePath: row.worktree_path,
+					projectPath: row.project_path,
+					tdTaskId: row.td_task_id,
+					createdAt: row.created_at,
+				})),
+				total: countRow.total,
+			};
+		});
+	}
+
+	createQueueJob(input: CreateQueueJobInput): QueueJobRecord {
+		const now = toUnixSeconds();
+		return this.withRecovery(() => {
+			this.db
+				.prepare(
+					`
+				INSERT INTO queue_jobs (
+					id,
+					project_path,
+					worktree_path,
+					branch_template,
+					agent_id,
+					agent_options,
+					prompt_template,
+					td_task_id,
+					session_name,
+					trigger,
+					cron_expression,
+					run_at,
+					status,
+					run_count,
+					created_at,
+					updated_at
+				)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', 0, ?, ?)
+			`,
+				)
+				.run(
+					input.id,
+					input.projectPath,
+					normalizeOptionalString(input.worktreePath),
+					normalizeOptionalString(input.branchTemplate),
+					input.agentId,
+					JSON.stringify(input.agentOptions || {}),
+					normalizeOptionalString(input.promptTemplate),
+					normalizeOptionalString(input.tdTaskId),
+					normalizeOptionalString(input.sessionName),
+					input.trigger,
+					normalizeOptionalString(input.cronExpression),
+					input.runAt,
+					now,
+					now,
+				);
+			return this.getQueueJob(input.id) as QueueJobRecord;
+		});
+	}
+
+	getQueueJob(id: string): QueueJobRecord | null {
+		return this.withRecovery(() => {
+			const row = this.db
+				.prepare('SELECT * FROM queue_jobs WHERE id = ?')
+				.get(id) as QueueJobRow | undefined;
+			return row ? this.mapQueueJobRow(row) : null;
+		});
+	}
+
+	/** Jobs newest first; pending jobs come before finished ones. */
+	listQueueJobs(filters: QueueJobFilters = {}): QueueJobRecord[] {
+		return this.withRecovery(() => {
+			const clauses: string[] = [];
+			const values: SqlPrimitive[] = [];
+			if (filters.projectPath) {
+				clauses.push('project_path = ?');
+				values.push(filters.projectPath);
+			}
+			if (filters.status) {
+				clauses.push('status = ?');
+				values.push(filters.status);
+			}
+			const whereClause =
+				clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+			const limit = typeof filters.limit === 'number' ? filters.limit : 200;
+
+			const rows = this.db
+				.prepare(
+					`
+				SELECT * FROM queue_jobs
+				${whereClause}
+				ORDER BY CASE status WHEN 'pending' THEN 0 ELSE 1 END, run_at ASC, created_at DESC
+				LIMIT ?
+			`,
+				)
+				.all(...values, limit) as QueueJobRow[];
+			return rows.map(row => this.mapQueueJobRow(row));
+		});
+	}
+
+	/** Pending jobs whose run time has passed, oldest due first. */
+	listDueQueueJobs(now = toUnixSeconds()): QueueJobRecord[] {
+		return this.withRecovery(() => {
+			const rows = this.db
+				.prepare(
+					`
+				SELECT * FROM queue_jobs
+				WHERE status = 'pending' AND run_at <= ?
+				ORDER BY run_at ASC, created_at ASC
+			`,
+				)
+				.all(now) as QueueJobRow[];
+			return rows.map(row => this.mapQueueJobRow(row));
+		});
+	}
+
+	/**
+	 * Record a successful run. Recurring jobs pass `nextRunAt` and stay pending;
+	 * one-shot jobs move to `launched`. Jobs cancelled meanwhile stay cancelled.
+	 */
+	markQueueJobLaunched(
+		id: string,
+		sessionId: string,
+		nextRunAt?: number,
+	): void {
+		const now = toUnixSeconds();
+		this.withRecovery(() => {
+			this.db
+				.prepare(
+					`
+				UPDATE queue_jobs
+				SET status = ?,
+					run_at = COALESCE(?, run_at),
+					session_id = ?,
+					last_error = NULL,
+					run_count = run_count + 1,
+					last_run_at = ?,
+					updated_at = ?
+				WHERE id = ? AND status = 'pending'
+			`,
+				)
+				.run(
+					typeof nextRunAt === 'number' ? 'pending' : 'launched',
+					typeof nextRunAt === 'number' ? nextRunAt : null,
+					sessionId,
+					now,
+					now,
+					id,
+				);
+		});
+	}
+
+	/**
+	 * Record a failed run. Recurring jobs pass `nextRunAt` and stay pending so a
+	 * single failure does not stop the schedule. Jobs cancelled meanwhile stay
+	 * cancelled.
+	 */
+	markQueueJobFailed(id: string, error: string, nextRunAt?: number): void {
+		const now = toUnixSeconds();
+		this.withRecovery(() => {
+			this.db
+				.prepare(
+					`
+				UPDATE queue_jobs
+				SET status = ?,
+					run_at = COALESCE(?, run_at),
+					last_error = ?,
+					last_run_at = ?,
+					updated_at = ?
+				WHERE id = ? AND status = 'pending'
+			`,
+				)
+				.run(
+					typeof nextRunAt === 'number' ? 'pending' : 'failed',
+					typeof nextRunAt === 'number' ? nextRunAt : null,
+					error,
+					now,
+					now,
+					id,
+				);
+		});
+	}
+
+	/** @returns false when the job does not exist or is no longer pending */
+	cancelQueueJob(id: string): boolean {
+		return this.withRecovery(() => {
+			const result = this.db
+				.prepare(
+					"UPDATE queue_jobs SET status = 'cancelled', updated_at = ? WHERE id = ? AND status = 'pending'",
+				)
+				.run(toUnixSeconds(), id);
+			return result.changes > 0;
+		});
+	}
+
+	createWorkflowRun(input: CreateWorkflowRunInput): WorkflowRunRecord {
+		const now = toUnixSeconds();
+		return this.withRecovery(() => {
+			this.db
+				.prepare(
+					`
+				INSERT INTO workflow_runs (
+					id,
+					workflow_name,
+					project_path,
+					worktree_path,
+					td_task_id,
+					status,
+					definition,
+					steps,
+					created_at,
+					updated_at
+				)
+				VALUES (?, ?, ?, ?, ?, 'running', ?, ?, ?, ?)
+			`,
+				)
+				.run(
+					input.id,
+					input.workflowName,
+					input.projectPath,
+					normalizeOptionalString(input.worktreePath),
+					normalizeOptionalString(input.tdTaskId),
+					JSON.stringify(input.definition),
+					JSON.stringify(input.steps),
+					now,
+					now,
+				);
+			return this.getWorkflowRun(input.id) as WorkflowRunRecord;
+		});
+	}
+
+	getWorkflowRun(id: string): WorkflowRunRecord | null {
+		return this.withRecovery(() => {
+			const row = this.db
+				.prepare('SELECT * FROM workflow_runs WHERE id = ?')
+				.get(id) as WorkflowRunRow | undefined;
+			return row ? this.mapWorkflowRunRow(row) : null;
+		});
+	}
+
+	/** Runs newest first; running ones come before finished ones. */
+	listWorkflowRuns(filters: WorkflowRunFilters = {}): WorkflowRunRecord[] {
+		return this.withRecovery(() => {
+			const clauses: string[] = [];
+			const values: SqlPrimitive[] = [];
+			if (filters.projectPath) {
+				clauses.push('project_path = ?');
+				values.push(filters.projectPath);
+			}
+			if (filters.status) {
+				clauses.push('status = ?');
+				values.push(filters.status);
+			}
+			const whereClause =
+				clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+			const limit = typeof filters.limit === 'number' ? filters.limit : 100;
+
+			const rows = this.db
+				.prepare(
+					`
+				SELECT * FROM workflow_runs
+				${whereClause}
+				ORDER BY CASE status WHEN 'running' THEN 0 ELSE 1 END, created_at DESC
+				LIMIT ?
+			`,
+				)
+				.all(...values, limit) as WorkflowRunRow[];
+			return rows.map(row => this.mapWorkflowRunRow(row));
+		});
+	}
+
+	updateWorkflowRun(
+		id: string,
+		input: UpdateWorkflowRunInput,
+	): WorkflowRunRecord | null {
+		return this.withRecovery(() => {
+			this.db
+				.prepare(
+					`
+				UPDATE workflow_runs
+				SET status = COALESCE(?, status),
+					worktree_path = COALESCE(?, worktree_path),
+					steps = COALESCE(?, steps),
+					error = CASE WHEN ? THEN ? ELSE error END,
+					updated_at = ?
+				WHERE id = ?
+			`,
+				)
+				.run(
+					input.status ?? null,
+					normalizeOptionalString(input.worktreePath),
+					input.steps ? JSON.stringify(input.steps) : null,
+					input.error !== undefined ? 1 : 0,
+					input.error ?? null,
+					toUnixSeconds(),
+					id,
+				);
+			return this.getWorkflowRun(id);
+		});
+	}
+
+	createComparisonRun(input: CreateComparisonRunInput): ComparisonRunRecord {
+		const now = toUnixSeconds();
+		return this.withRecovery(() => {
+			this.db
+				.prepare(
+					`
+				INSERT INTO comparison_runs (
+					id,
+					project_path,
+					base_branch,
+					td_task_id,
+					prompt,
+					prompt_template,
+					status,
+					attempts,
+					created_at,
+					updated_at
+				)
+				VALUES (?, ?, ?, ?, ?, ?, 'running', ?, ?, ?)
+			`,
+				)
+				.run(
+					input.id,
+					input.projectPath,
+					input.baseBranch,
+					normalizeOptionalString(input.tdTaskId),
+					normalizeOptionalString(input.prompt),
+					normalizeOptionalString(input.promptTemplate),
+					JSON.stringify(input.attempts),
+					now,
+					now,
+				);
+			return this.getComparisonRun(input.id) as ComparisonRunRecord;
+		});
+	}
+
+	getComparisonRun(id: string): ComparisonRunRecord | null {
+		return this.withRecovery(() => {
+			const row = this.db
+				.prepare('SELECT * FROM comparison_runs WHERE id = ?')
+				.get(id) as ComparisonRunRow | undefined;
+			return row ? this.mapComparisonRunRow(row) : null;
+		});
+	}
+
+	/** Runs newest first; running ones come before finished ones. */
+	listComparisonRuns(
+		filters: ComparisonRunFilters = {},
+	): ComparisonRunRecord[] {
+		return this.withRecovery(() => {
+			const clauses: string[] = [];
+			const values: SqlPrimitive[] = [];
+			if (filters.projectPath) {
+				clauses.push('project_path = ?');
+				values.push(filters.projectPath);
+			}
+			if (filters.status) {
+				clauses.push('status = ?');
+				values.push(filters.status);
+			}
+			const whereClause =
+				clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+			const limit = typeof filters.limit === 'number' ? filters.limit : 100;
+
+			const rows = this.db
+				.prepare(
+					`
+				SELECT * FROM comparison_runs
+				${whereClause}
+				ORDER BY CASE status WHEN 'running' THEN 0 ELSE 1 END, created_at DESC
+				LIMIT ?
+			`,
+				)
+				.all(...values, limit) as ComparisonRunRow[];
+			return rows.map(row => this.mapComparisonRunRow(row));
+		});
+	}
+
+	updateComparisonRun(
+		id: string,
+		input: UpdateComparisonRunInput,
+	): ComparisonRunRecord | null {
+		return this.withRecovery(() => {
 			this.db
-				.prepare('UPDATE sessions SET ended_at = ? WHERE id = ?')
-				.run(endedAt, sessionId);
+				.prepare(
+					`
+				UPDATE comparison_runs
+				SET status = COALESCE(?, status),
+					attempts = COALESCE(?, attempts),
+					kept_branch = COALESCE(?, kept_branch),
+					error = CASE WHEN ? THEN ? ELSE error END,
+					updated_at = ?
+				WHERE id = ?
+			`,
+				)
+				.run(
+					input.status ?? null,
+					input.attempts ? JSON.stringify(input.attempts) : null,
+					normalizeOptionalString(input.keptBranch),
+					input.error !== undefined ? 1 : 0,
+					input.error ?? null,
+					toUnixSeconds(),
+					id,
+				);
+			return this.getComparisonRun(id);
 		});
 	}
 
-	markSessionResumed(sessionId: string): void {
-		this.withRecovery(() => {
-			this.db
-				.prepare('UPDATE sessions SET ended_at = NULL WHERE id = ?')
-				.run(sessionId);
+	getSessionBudget(sessionId: string): SessionBudgetRecord | null {
+		return this.withRecovery(() => {
+			const row = this.db
+				.prepare('SELECT * FROM session_budgets WHERE session_id = ?')
+				.get(sessionId) as SessionBudgetRow | undefined;
+			return row ? this.mapSessionBudgetRow(row) : null;
 		});
 	}
 
-	updateSessionName(sessionId: string, sessionName?: string): void {
+	upsertSessionBudget(input: UpsertSessionBudgetInput): void {
 		this.withRecovery(() => {
 			this.db
-				.prepare('UPDATE sessions SET session_name = ? WHERE id = ?')
-				.run(normalizeOptionalString(sessionName), sessionId);
+				.prepare(
+					`
+				INSERT INTO session_budgets (
+					session_id,
+					busy_seconds,
+					status,
+					scope,
+					metric,
+					limit_value,
+					value,
+					action,
+					updated_at
+				)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+				ON CONFLICT(session_id) DO UPDATE SET
+					busy_seconds = excluded.busy_seconds,
+					status = excluded.status,
+					scope = excluded.scope,
+					metric = excluded.metric,
+					limit_value = excluded.limit_value,
+					value = excluded.value,
+					action = excluded.action,
+					updated_at = excluded.updated_at
+			`,
+				)
+				.run(
+					input.sessionId,
+					Math.round(input.busySeconds),
+					input.status,
+					input.scope ?? null,
+					input.metric ?? null,
+					input.limit ?? null,
+					input.value ?? null,
+					input.action ?? null,
+					toUnixSeconds(),
+				);
 		});
 	}
 
-	updateSessionContentPreview(
-		sessionId: string,
-		contentPreview?: string,
-	): void {
-		this.withRecovery(() => {
-			this.db
-				.prepare('UPDATE sessions SET content_preview = ? WHERE id = ?')
-				.run(normalizeContentPreview(contentPreview), sessionId);
+	/**
+	 * Runtime, busy time and usage summed over a project's sessions, counting
+	 * only the part of each session that ran since `dateFrom`. Sessions still
+	 * running count up to `now`. Busy time and usage are only recorded per
+	 * session, so they are split in proportion to that part of the runtime.
+	 */
+	getProjectBudgetTotals(
+		projectPath: string,
+		dateFrom: number,
+		now = toUnixSeconds(),
+	): BudgetTotals {
+		return this.withRecovery(() => {
+			const row = this.db
+				.prepare(
+					`
+				WITH clipped AS (
+					SELECT
+						s.id,
+						MAX(MIN(COALESCE(s.ended_at, ?), ?) - MAX(s.created_at, ?), 0) AS seconds,
+						MAX(COALESCE(s.ended_at, ?) - s.created_at, 0) AS total_seconds
+					FROM sessions s
+					WHERE s.project_path = ?
+						AND (s.created_at >= ? OR COALESCE(s.ended_at, ?) > ?)
+				),
+				shares AS (
+					SELECT
+						id,
+						seconds,
+						CASE
+							WHEN total_seconds > 0 THEN CAST(seconds AS REAL) / total_seconds
+							ELSE 1
+						END AS share
+					FROM clipped
+				)
+				SELECT
+					COALESCE(SUM(c.seconds), 0) AS seconds,
+					COALESCE(SUM(b.busy_seconds * c.share), 0) AS busy_seconds,
+					COALESCE(SUM(u.total_tokens * c.share), 0) AS total_tokens,
+					COALESCE(SUM(u.estimated_cost_usd * c.share), 0) AS estimated_cost_usd
+				FROM shares c
+				LEFT JOIN session_budgets b ON b.session_id = c.id
+				LEFT JOIN session_usage u ON u.session_id = c.id
+			`,
+				)
+				.get(now, now, dateFrom, now, projectPath, dateFrom, now, dateFrom) as {
+				seconds: number;
+				busy_seconds: number;
+				total_tokens: number;
+				estimated_cost_usd: number;
+			};
+			return {
+				seconds: row.seconds,
+				busySeconds: Math.round(row.busy_seconds),
+				totalTokens: Math.round(row.total_tokens),
+				estimatedCostUsd: row.estimated_cost_usd,
+			};
 		});
 	}
 
-	updateAgentSessionLink(
-		sessionId: string,
-		agentSessionPath: string,
-		agentSessionId?: string,
-	): void {
-		this.withRecovery(() => {
-			this.db
+	recordAutoApprovalDecision(
+		input: CreateAutoApprovalDecisionInput,
+	): AutoApprovalDecisionRecord {
+		return this.withRecovery(() => {
+			const result = this.db
 				.prepare(
-					'UPDATE sessions SET agent_session_path = ?, agent_session_id = ? WHERE id = ?',
+					`
+				INSERT INTO auto_approval_decisions (
+					session_id,
+					agent_id,
+					project_path,
+					worktree_path,
+					verdict,
+					decided_by,
+					rule,
+					reason,
+					terminal_excerpt,
+					latency_ms,
+					created_at
+				)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+			`,
 				)
 				.run(
-					agentSessionPath,
-					normalizeOptionalString(agentSessionId) ||
-						extractSessionIdFromFilename(agentSessionPath),
-					sessionId,
+					input.sessionId,
+					normalizeOptionalString(input.agentId),
+					normalizeOptionalString(input.projectPath),
+					normalizeOptionalString(input.worktreePath),
+					input.verdict,
+					normalizeOptionalString(input.decidedBy),
+					normalizeOptionalString(input.rule),
+					normalizeOptionalString(input.reason),
+					input.terminalExcerpt,
+					Math.max(0, Math.round(input.latencyMs)),
+					toUnixSeconds(),
 				);
+			const row = this.db
+				.prepare('SELECT * FROM auto_approval_decisions WHERE id = ?')
+				.get(result.lastInsertRowid) as AutoApprovalDecisionRow;
+			return this.mapAutoApprovalDecisionRow(row);
 		});
 	}
 
-	getSessionById(sessionId: string): SessionRecord | null {
+	/**
+	 * Flag the session's latest held-back decision as overridden after the user
+	 * approved the prompt anyway.
+	 * @returns the updated decision, or null when there was none to override
+	 */
+	markAutoApprovalOverridden(
+		sessionId: string,
+	): AutoApprovalDecisionRecord | null {
 		return this.withRecovery(() => {
 			const row = this.db
-				.prepare('SELECT * FROM sessions WHERE id = ?')
-				.get(sessionId) as SessionRow | undefined;
-			return row ? this.mapRow(row) : null;
+				.prepare(
+					`
+				SELECT * FROM auto_approval_decisions
+				WHERE session_id = ?
+				ORDER BY created_at DESC, id DESC
+				LIMIT 1
+			`,
+				)
+				.get(sessionId) as AutoApprovalDecisionRow | undefined;
+			if (!row || row.verdict === 'approved' || row.user_override) {
+				return null;
+			}
+
+			const now = toUnixSeconds();
+			this.db
+				.prepare(
+					'UPDATE auto_approval_decisions SET user_override = 1, overridden_at = ? WHERE id = ?',
+				)
+				.run(now, row.id);
+			return this.mapAutoApprovalDecisionRow({
+				...row,
+				user_override: 1,
+				overridden_at: now,
+			});
 		});
 	}
 
-	querySessions(filters: SessionQueryFilters = {}): SessionRecord[] {
+	/** Decisions newest first. */
+	listAutoApprovalDecisions(
+		filters: AutoApprovalDecisionFilters = {},
+	): AutoApprovalDecisionRecord[] {
 		return this.withRecovery(() => {
-			const {whereClause, values} = this.buildWhereClause(filters);
-			const limit = typeof filters.limit === 'number' ? filters.limit : 50;
+			const {whereClause, values} =
+				this.buildAutoApprovalDecisionWhereClause(filters);
+			const limit = typeof filters.limit === 'number' ? filters.limit : 100;
 			const offset = typeof filters.offset === 'number' ? filters.offset : 0;
-			const query = `
-				SELECT * FROM sessions
+			const rows = this.db
+				.prepare(
+					`
+				SELECT * FROM auto_approval_decisions
 				${whereClause}
-				ORDER BY created_at DESC
+				ORDER BY created_at DESC, id DESC
 				LIMIT ? OFFSET ?
-			`;
-
-			const rows = this.db
-				.prepare(query)
-				.all(...values, limit, offset) as SessionRow[];
-			return rows.map(row => this.mapRow(row));
+			`,
+				)
+				.all(...values, limit, offset) as AutoApprovalDecisionRow[];
+			return rows.map(row => this.mapAutoApprovalDecisionRow(row));
 		});
 	}
 
-	countSessions(filters: SessionQueryFilters = {}): number {
+	countAutoApprovalDecisions(
+		filters: AutoApprovalDecisionFilters = {},
+	): number {
 		return this.withRecovery(() => {
-			const {whereClause, values} = this.buildWhereClause(filters);
+			const {whereClause, values} =
+				this.buildAutoApprovalDecisionWhereClause(filters);
 			const row = this.db
-				.prepare(`SELECT COUNT(*) as total FROM sessions ${whereClause}`)
+				.prepare(
+					`SELECT COUNT(*) as total FROM auto_approval_decisions ${whereClause}`,
+				)
 				.get(...values) as {total: number};
 			return row.total;
 		});
 	}
 
-	queryByProject(projectPath: string, limit = 50, offset = 0): SessionRecord[] {
-		return this.querySessions({projectPath, limit, offset});
+	createReviewComment(input: CreateReviewCommentInput): ReviewCommentRecord {
+		const now = toUnixSeconds();
+		return this.withRecovery(() => {
+			this.db
+				.prepare(
+					`
+				INSERT INTO review_comments (
+					id,
+					worktree_path,
+					commit_sha,
+					file_path,
+					line,
+					side,
+					snippet,
+					body,
+					created_at,
+					updated_at
+				)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+			`,
+				)
+				.run(
+					input.id,
+					input.worktreePath,
+					input.commitSha,
+					input.filePath,
+					input.line,
+					input.side,
+					input.snippet,
+					input.body,
+					now,
+					now,
+				);
+			return this.getReviewComment(input.id) as ReviewCommentRecord;
+		});
 	}
 
-	queryByWorktree(
-		worktreePath: string,
-		limit = 50,
-		offset = 0,
-	): SessionRecord[] {
-		return this.querySessions({worktreePath, limit, offset});
+	getReviewComment(id: string): ReviewCommentRecord | null {
+		return this.withRecovery(() => {
+			const row = this.db
+				.prepare('SELECT * FROM review_comments WHERE id = ?')
+				.get(id) as ReviewCommentRow | undefined;
+			return row ? this.mapReviewCommentRow(row) : null;
+		});
 	}
 
-	queryByTask(tdTaskId: string, limit = 50, offset = 0): SessionRecord[] {
-		return this.querySessions({tdTaskId, limit, offset});
-	}
+	/** Comments ordered by file, then line, then creation time. */
+	listReviewComments(filters: ReviewCommentFilters): ReviewCommentRecord[] {
+		return this.withRecovery(() => {
+			const clauses = ['worktree_path = ?'];
+			const values: SqlPrimitive[] = [filters.worktreePath];
+			if (filters.commitSha !== undefined) {
+				clauses.push('commit_sha IS ?');
+				values.push(filters.commitSha);
+			}
+			if (filters.filePath) {
+				clauses.push('file_path = ?');
+				values.push(filters.filePath);
+			}
+			if (filters.unsentOnly) {
+				clauses.push('sent_at IS NULL');
+			}
 
-	queryByDateRange(dateFrom: number, dateTo: number): SessionRecord[] {
-		return this.querySessions({dateFrom, dateTo, limit: 5000, offset: 0});
+			const rows = this.db
+				.prepare(
+					`
+				SELECT * FROM review_comments
+				WHERE ${clauses.join(' AND ')}
+				ORDER BY file_path ASC, line ASC, created_at ASC
+			`,
+				)
+				.all(...values) as ReviewCommentRow[];
+			return rows.map(row => this.mapReviewCommentRow(row));
+		});
 	}
 
-	getLatestByTdSessionId(params: {
-		tdSessionId: string;
-		tdTaskId?: string;
-		projectPath?: string;
-	}): SessionRecord | null {
+	/** @returns the updated comment, or null when it does not exist */
+	updateReviewComment(id: string, body: string): ReviewCommentRecord | null {
 		return this.withRecovery(() => {
-			const clauses = ['td_session_id = ?'];
-			const values: SqlPrimitive[] = [params.tdSessionId];
+			const result = this.db
+				.prepare(
+					'UPDATE review_comments SET body = ?, updated_at = ? WHERE id = ?',
+				)
+				.run(body, toUnixSeconds(), id);
+			return result.changes > 0 ? this.getReviewComment(id) : null;
+		});
+	}
 
-			if (params.tdTaskId) {
-				clauses.push('td_task_id = ?');
-				values.push(params.tdTaskId);
-			}
+	deleteReviewComment(id: string): boolean {
+		return this.withRecovery(() => {
+			const result = this.db
+				.prepare('DELETE FROM review_comments WHERE id = ?')
+				.run(id);
+			return result.changes > 0;
+		});
+	}
 
-			if (params.projectPath) {
-				clauses.push('project_path = ?');
-				values.push(params.projectPath);
-			}
+	markReviewCommentsSent(ids: string[]): void {
+		if (ids.length === 0) return;
+		const now = toUnixSeconds();
+		this.withRecovery(() => {
+			const statement = this.db.prepare(
+				'UPDATE review_comments SET sent_at = ? WHERE id = ?',
+			);
+			this.db.transaction(() => {
+				for (const id of ids) {
+					statement.run(now, id);
+				}
+			})();
+		});
+	}
 
-			const row = this.db
+	/** Record the pull request opened for a worktree, replacing any earlier one. */
+	upsertWorktreePullRequest(
+		input: UpsertWorktreePullRequestInput,
+	): WorktreePullRequestRecord {
+		const now = toUnixSeconds();
+		return this.withRecovery(() => {
+			this.db
 				.prepare(
-					`SELECT * FROM sessions WHERE ${clauses.join(' AND ')} ORDER BY created_at DESC LIMIT 1`,
+					`
+				INSERT INTO worktree_pull_requests (
+					worktree_path,
+					provider,
+					repository,
+					number,
+					url,
+					title,
+					state,
+					source_branch,
+					target_branch,
+					created_at,
+					updated_at
 				)
-				.get(...values) as SessionRow | undefined;
-			return row ? this.mapRow(row) : null;
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+				ON CONFLICT(worktree_path) DO UPDATE SET
+					provider = excluded.provider,
+					repository = excluded.repository,
+					number = excluded.number,
+					url = excluded.url,
+					title = excluded.title,
+					state = excluded.state,
+					source_branch = excluded.source_branch,
+					target_branch = excluded.target_branch,
+					created_at = CASE
+						WHEN worktree_pull_requests.number = excluded.number
+							AND worktree_pull_requests.repository = excluded.repository
+						THEN worktree_pull_requests.created_at
+						ELSE excluded.created_at
+					END,
+					updated_at = excluded.updated_at
+			`,
+				)
+				.run(
+					input.worktreePath,
+					input.provider,
+					input.repository,
+					input.number,
+					input.url,
+					input.title,
+					input.state,
+					input.sourceBranch,
+					input.targetBranch,
+					now,
+					now,
+				);
+			return this.getWorktreePullRequest(
+				input.worktreePath,
+			) as WorktreePullRequestRecord;
+		});
+	}
+
+	getWorktreePullRequest(
+		worktreePath: string,
+	): WorktreePullRequestRecord | null {
+		return this.withRecovery(() => {
+			const row = this.db
+				.prepare('SELECT * FROM worktree_pull_requests WHERE worktree_path = ?')
+				.get(worktreePath) as WorktreePullRequestRow | undefined;
+			return row ? this.mapWorktreePullRequestRow(row) : null;
+		});
+	}
+
+	deleteWorktreePullRequest(worktreePath: string): boolean {
+		return this.withRecovery(() => {
+			const result = this.db
+				.prepare('DELETE FROM worktree_pull_requests WHERE worktree_path = ?')
+				.run(worktreePath);
+			return result.changes > 0;
 		});
 	}
 
@@ -818,40 +2677,44 @@ export class SessionStore {
 		return null;
 	}
 
-	private buildWhereClause(filters: SessionQueryFilters): {
+	private buildWhereClause(
+		filters: SessionQueryFilters,
+		columnPrefix = '',
+	): {
 		whereClause: string;
 		values: SqlPrimitive[];
 	} {
 		const clauses: string[] = [];
 		const values: SqlPrimitive[] = [];
+		const c = (column: string) => `${columnPrefix}${column}`;
 
 		if (filters.projectPath) {
-			clauses.push('project_path = ?');
+			clauses.push(`${c('project_path')} = ?`);
 			values.push(filters.projectPath);
 		}
 		if (filters.worktreePath) {
-			clauses.push('worktree_path = ?');
+			clauses.push(`${c('worktree_path')} = ?`);
 			values.push(filters.worktreePath);
 		}
 		if (filters.tdTaskId) {
-			clauses.push('td_task_id = ?');
+			clauses.push(`${c('td_task_id')} = ?`);
 			values.push(filters.tdTaskId);
 		}
 		if (typeof filters.dateFrom === 'number') {
-			clauses.push('created_at >= ?');
+			clauses.push(`${c('created_at')} >= ?`);
 			values.push(filters.dateFrom);
 		}
 		if (typeof filters.dateTo === 'number') {
-			clauses.push('created_at <= ?');
+			clauses.push(`${c('created_at')} <= ?`);
 			values.push(filters.dateTo);
 		}
 		if (filters.agentType) {
-			clauses.push('agent_type = ?');
+			clauses.push(`${c('agent_type')} = ?`);
 			values.push(filters.agentType);
 		}
 		if (filters.search) {
 			clauses.push(
-				'(session_name LIKE ? OR content_preview LIKE ? OR branch_name LIKE ? OR td_task_id LIKE ? OR agent_profile_name LIKE ?)',
+				`(${c('session_name')} LIKE ? OR ${c('content_preview')} LIKE ? OR ${c('branch_name')} LIKE ? OR ${c('td_task_id')} LIKE ? OR ${c('agent_profile_name')} LIKE ?)`,
 			);
 			const search = `%${filters.search}%`;
 			values.push(search, search, search, search, search);
@@ -886,12 +2749,230 @@ export class SessionStore {
 			tdSessionId: row.td_session_id,
 			sessionName: row.session_name,
 			contentPreview: row.content_preview,
+			scrollbackPath: row.scrollback_path ?? null,
 			intent,
 			createdAt: row.created_at,
 			endedAt: row.ended_at,
 		};
 	}
 
+	private mapComparisonRunRow(row: ComparisonRunRow): ComparisonRunRecord {
+		const status: ComparisonRunStatus =
+			row.status === 'kept' ||
+			row.status === 'discarded' ||
+			row.status === 'failed'
+				? row.status
+				: 'running';
+		let attempts: ComparisonAttempt[] = [];
+		try {
+			attempts = JSON.parse(row.attempts) as ComparisonAttempt[];
+		} catch {
+			// Keep the empty default for rows written by a broken build
+		}
+
+		return {
+			id: row.id,
+			projectPath: row.project_path,
+			baseBranch: row.base_branch,
+			tdTaskId: row.td_task_id,
+			prompt: row.prompt,
+			promptTemplate: row.prompt_template,
+			status,
+			attempts,
+			keptBranch: row.kept_branch,
+			error: row.error,
+			createdAt: row.created_at,
+			updatedAt: row.updated_at,
+		};
+	}
+
+	private mapSessionBudgetRow(row: SessionBudgetRow): SessionBudgetRecord {
+		const status: BudgetStatus =
+			row.status === 'warning' || row.status === 'exceeded' ? row.status : 'ok';
+		return {
+			sessionId: row.session_id,
+			busySeconds: row.busy_seconds,
+			status,
+			scope: (row.scope as BudgetScope | null) ?? null,
+			metric: (row.metric as BudgetMetric | null) ?? null,
+			limit: row.limit_value,
+			value: row.value,
+			action: (row.action as BudgetAction | null) ?? null,
+			updatedAt: row.updated_at,
+		};
+	}
+
+	private mapWorkflowRunRow(row: WorkflowRunRow): WorkflowRunRecord {
+		const status: WorkflowRunStatus =
+			row.status === 'completed' ||
+			row.status === 'failed' ||
+			row.status === 'cancelled'
+				? row.status
+				: 'running';
+		let definition: WorkflowConfig = {steps: []};
+		let steps: WorkflowStepRun[] = [];
+		try {
+			definition = JSON.parse(row.definition) as WorkflowConfig;
+			steps = JSON.parse(row.steps) as WorkflowStepRun[];
+		} catch {
+			// Keep the empty defaults for rows written by a broken build
+		}
+
+		return {
+			id: row.id,
+			workflowName: row.workflow_name,
+			projectPath: row.project_path,
+			worktreePath: row.worktree_path,
+			tdTaskId: row.td_task_id,
+			status,
+			definition,
+			steps,
+			error: row.error,
+			createdAt: row.created_at,
+			updatedAt: row.updated_at,
+		};
+	}
+
+	private mapQueueJobRow(row: QueueJobRow): QueueJobRecord {
+		const trigger: QueueJobTrigger =
+			row.trigger === 'cron' || row.trigger === 'slot' ? row.trigger : 'at';
+		const status: QueueJobStatus =
+			row.status === 'launched' ||
+			row.status === 'failed' ||
+			row.status === 'cancelled'
+				? row.status
+				: 'pending';
+
+		return {
+			id: row.id,
+			projectPath: row.project_path,
+			worktreePath: row.worktree_path,
+			branchTemplate: row.branch_template,
+			agentId: row.agent_id,
+			agentOptions: parseAgentOptions(row.agent_options),
+			promptTemplate: row.prompt_template,
+			tdTaskId: row.td_task_id,
+			sessionName: row.session_name,
+			trigger,
+			cronExpression: row.cron_expression,
+			runAt: row.run_at,
+			status,
+			sessionId: row.session_id,
+			lastError: row.last_error,
+			runCount: row.run_count,
+			createdAt: row.created_at,
+			updatedAt: row.updated_at,
+			lastRunAt: row.last_run_at,
+		};
+	}
+
+	private buildAutoApprovalDecisionWhereClause(
+		filters: AutoApprovalDecisionFilters,
+	): {whereClause: string; values: SqlPrimitive[]} {
+		const clauses: string[] = [];
+		const values: SqlPrimitive[] = [];
+		const equalityFilters: Array<[string, string | undefined]> = [
+			['session_id', filters.sessionId],
+			['project_path', filters.projectPath],
+			['agent_id', filters.agentId],
+			['verdict', filters.verdict],
+			['decided_by', filters.decidedBy],
+		];
+		for (const [column, value] of equalityFilters) {
+			if (value) {
+				clauses.push(`${column} = ?`);
+				values.push(value);
+			}
+		}
+		if (typeof filters.userOverride === 'boolean') {
+			clauses.push('user_override = ?');
+			values.push(filters.userOverride ? 1 : 0);
+		}
+		if (typeof filters.since === 'number') {
+			clauses.push('created_at >= ?');
+			values.push(filters.since);
+		}
+		return {
+			whereClause: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '',
+			values,
+		};
+	}
+
+	private mapAutoApprovalDecisionRow(
+		row: AutoApprovalDecisionRow,
+	): AutoApprovalDecisionRecord {
+		const verdict: AutoApprovalVerdict =
+			row.verdict === 'approved' || row.verdict === 'error'
+				? row.verdict
+				: 'needs_permission';
+
+		return {
+			id: row.id,
+			sessionId: row.session_id,
+			agentId: row.agent_id,
+			projectPath: row.project_path,
+			worktreePath: row.worktree_path,
+			verdict,
+			decidedBy: row.decided_by,
+			rule: row.rule,
+			reason: row.reason,
+			terminalExcerpt: row.terminal_excerpt,
+			latencyMs: row.latency_ms,
+			userOverride: row.user_override === 1,
+			overriddenAt: row.overridden_at,
+			createdAt: row.created_at,
+		};
+	}
+
+	private mapReviewCommentRow(row: ReviewCommentRow): ReviewCommentRecord {
+		return {
+			id: row.id,
+			worktreePath: row.worktree_path,
+			commitSha: row.commit_sha,
+			filePath: row.file_path,
+			line: row.line,
+			side: row.side === 'old' ? 'old' : 'new',
+			snippet: row.snippet,
+			body: row.body,
+			createdAt: row.created_at,
+			updatedAt: row.updated_at,
+			sentAt: row.sent_at,
+		};
+	}
+
+	private mapWorktreePullRequestRow(
+		row: WorktreePullRequestRow,
+	): WorktreePullRequestRecord {
+		const state = ['open', 'draft', 'merged', 'closed'].includes(row.state)
+			? (row.state as PullRequestState)
+			: 'open';
+		return {
+			worktreePath: row.worktree_path,
+			provider: row.provider,
+			repository: row.repository,
+			number: row.number,
+			url: row.url,
+			title: row.title,
+			state,
+			sourceBranch: row.source_branch,
+			targetBranch: row.target_branch,
+			createdAt: row.created_at,
+			updatedAt: row.updated_at,
+		};
+	}
+
+	private mapUsageRow(row: SessionUsageRow): SessionUsageRecord {
+		return {
+			sessionId: row.session_id,
+			totalTokens: row.total_tokens,
+			estimatedCostUsd: row.estimated_cost_usd,
+			model: row.model,
+			messageCount: row.message_count,
+			sourceMtime: row.source_mtime,
+			updatedAt: row.updated_at,
+		};
+	}
+
 	private isDirectory(dirPath: string): boolean {
 		try {
 			return statSync(dirPath).isDirectory();
@@ -12,7 +12,7 @@ import {existsSync, copyFileSync, statSync} from 'fs';
 import {join, resolve, basename} from 'path';
 import * as readline from 'readline';
 import {getConfigDir} from '../utils/configDir.js';
-import {AgentConfig} from '../types/index.js';
+import {AgentConfig, HttpsConfig, TrustedProxyConfig} from '../types/index.js';
 import {generateRandomPort} from '../constants/env.js';
 import {generateAccessToken} from '../utils/wordlist.js';
 import {hashPasscode, validatePasscode} from './authService.js';
@@ -241,6 +241,72 @@ async function askYesNo(question: string): Promise<boolean> {
 	return answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes';
 }
 
+function splitList(input: string): string[] {
+	return input
+		.split(',')
+		.map(item => item.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Ask whether to serve the web interface over TLS, with the user's own
+ * certificate or a self-signed one generated on first start
+ */
+async function askHttpsConfig(): Promise<HttpsConfig | undefined> {
+	if (!(await askYesNo('Serve the web interface over HTTPS?'))) {
+		return undefined;
+	}
+
+	const certPath = await askQuestion(
+		'Certificate file (PEM, press Enter for a self-signed one): ',
+	);
+	if (!certPath) {
+		return {enabled: true};
+	}
+	const keyPath = await askQuestion('Private key file (PEM): ');
+	if (
+		!existsSync(resolve(certPath)) ||
+		!keyPath ||
+		!existsSync(resolve(keyPath))
+	) {
+		console.log('  Certificate or key not found, using a self-signed one.');
+		return {enabled: true};
+	}
+	return {
+		enabled: true,
+		certPath: resolve(certPath),
+		keyPath: resolve(keyPath),
+	};
+}
+
+/**
+ * Ask whether a reverse proxy (Caddy, nginx) sits in front of CACD, whose
+ * X-Forwarded-* headers should then be honored
+ */
+async function askTrustedProxyConfig(): Promise<
+	TrustedProxyConfig | undefined
+> {
+	if (!(await askYesNo('Running behind a reverse proxy (Caddy, nginx)?'))) {
+		return undefined;
+	}
+
+	const addresses = splitList(
+		await askQuestion(
+			'Proxy IPs or CIDR ranges to trust (press Enter if it runs on this machine): ',
+		),
+	);
+	const hosts = splitList(
+		await askQuestion(
+			'Public hostnames it serves CACD under, comma separated (e.g. cacd.example.com): ',
+		),
+	);
+	return {
+		enabled: true,
+		...(addresses.length > 0 && {addresses}),
+		...(hosts.length > 0 && {hosts}),
+	};
+}
+
 /**
  * Create backup of existing config file
  */
@@ -357,6 +423,8 @@ export async function runSetup(
 	// Auth credentials (new two-tier system)
 	let accessToken: string | undefined;
 	let passcodeHash: string | undefined;
+	let https: HttpsConfig | undefined;
+	let trustedProxy: TrustedProxyConfig | undefined;
 
 	if (options.noWeb === undefined && isInteractive()) {
 		console.log('');
@@ -382,6 +450,9 @@ export async function runSetup(
 				}
 			}
 
+			https = await askHttpsConfig();
+			trustedProxy = await askTrustedProxyConfig();
+
 			// Generate access token (3 memorable words)
 			accessToken = generateAccessToken();
 
@@ -410,8 +481,15 @@ export async function runSetup(
 
 			// Display access URL
 			console.log('\n✓ Your WebUI access URL:');
-			console.log(`  http://localhost:${port}/${accessToken}`);
+			console.log(
+				`  ${https ? 'https' : 'http'}://localhost:${port}/${accessToken}`,
+			);
 			console.log("  (Bookmark this URL - it won't change)");
+			if (https && !https.certPath) {
+				console.log(
+					'  Browsers warn about the self-signed certificate until you accept it once.',
+				);
+			}
 		}
 	} else if (webEnabled && !isInteractive()) {
 		// Non-interactive mode with web enabled - generate token but no passcode
@@ -473,6 +551,8 @@ export async function runSetup(
 		webEnabled,
 		accessToken,
 		passcodeHash,
+		https,
+		trustedProxy,
 		projects: projectAdded
 			? [
 					{
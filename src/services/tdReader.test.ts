@@ -386,6 +386,29 @@ describe('TdReader', () => {
 		});
 	});
 
+	describe('listDependencies', () => {
+		it('should list every dependency edge', () => {
+			const db = new Database(TEST_DB_PATH);
+			db.prepare(
+				`INSERT INTO issue_dependencies (id, issue_id, depends_on_id) VALUES (?, ?, ?)`,
+			).run('dep-001', 'td-003', 'td-002');
+			db.close();
+
+			const reader = new TdReader(TEST_DB_PATH);
+			const dependencies = reader.listDependencies();
+			reader.close();
+
+			expect(dependencies).toEqual([
+				{
+					id: 'dep-001',
+					issue_id: 'td-003',
+					depends_on_id: 'td-002',
+					relation_type: 'depends_on',
+				},
+			]);
+		});
+	});
+
 	describe('searchIssues', () => {
 		it('should search by title', () => {
 			const reader = new TdReader(TEST_DB_PATH);
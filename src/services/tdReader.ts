@@ -385,6 +385,21 @@ export class TdReader {
 		}
 	}
 
+	/**
+	 * Get every dependency edge in the project (for the dependency graph).
+	 */
+	listDependencies(): TdIssueDependency[] {
+		try {
+			const db = this.open();
+			return db
+				.prepare('SELECT * FROM issue_dependencies')
+				.all() as TdIssueDependency[];
+		} catch (error) {
+			logger.error('[TdReader] Failed to list dependencies', error);
+			return [];
+		}
+	}
+
 	// --- Search ---
 
 	/**
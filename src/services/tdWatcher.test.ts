@@ -0,0 +1,118 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {TdWatcher, type TdIssueChange} from './tdWatcher.js';
+
+vi.mock('../utils/logger.js', () => ({
+	logger: {
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	},
+}));
+
+describe('TdWatcher', () => {
+	let tmpDir: string;
+	let dbPath: string;
+	let db: Database.Database;
+	let watcher: TdWatcher;
+	let changes: TdIssueChange[];
+
+	beforeEach(() => {
+		tmpDir = fs.realpathSync(
+			fs.mkdtempSync(path.join(os.tmpdir(), 'cacd-td-watcher-test-')),
+		);
+		fs.mkdirSync(path.join(tmpDir, '.todos'));
+		dbPath = path.join(tmpDir, '.todos', 'issues.db');
+		// Stands in for the td CLI, which writes in WAL mode
+		db = new Database(dbPath);
+		db.pragma('journal_mode = WAL');
+		db.exec(`
+			CREATE TABLE issues (
+				id TEXT PRIMARY KEY,
+				title TEXT NOT NULL,
+				status TEXT NOT NULL DEFAULT 'open',
+				priority TEXT NOT NULL DEFAULT 'P2',
+				updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+				deleted_at DATETIME
+			);
+			INSERT INTO issues (id, title) VALUES ('td-a1', 'Add login');
+			INSERT INTO issues (id, title) VALUES ('td-b2', 'Fix logout');
+		`);
+
+		changes = [];
+		watcher = new TdWatcher({debounceMs: 20, resyncIntervalMs: 60 * 60 * 1000});
+		watcher.on('issue', (change: TdIssueChange) => changes.push(change));
+	});
+
+	afterEach(() => {
+		watcher.stop();
+		db.close();
+		fs.rmSync(tmpDir, {recursive: true, force: true});
+	});
+
+	it('reports created, updated and deleted issues after a write', () => {
+		watcher.watch(tmpDir, dbPath);
+		expect(changes).toEqual([]);
+
+		db.exec(`
+			UPDATE issues SET status = 'in_review' WHERE id = 'td-a1';
+			UPDATE issues SET deleted_at = CURRENT_TIMESTAMP WHERE id = 'td-b2';
+			INSERT INTO issues (id, title) VALUES ('td-c3', 'Write docs');
+		`);
+		watcher.refresh(tmpDir);
+
+		const byId = [...changes].sort((a, b) =>
+			a.issueId.localeCompare(b.issueId),
+		);
+		expect(
+			byId.map(({issueId, change, previousStatus, issue}) => ({
+				issueId,
+				change,
+				previousStatus,
+				status: issue?.status ?? null,
+			})),
+		).toEqual([
+			{
+				issueId: 'td-a1',
+				change: 'updated',
+				previousStatus: 'open',
+				status: 'in_review',
+			},
+			{
+				issueId: 'td-b2',
+				change: 'deleted',
+				previousStatus: 'open',
+				status: null,
+			},
+			{
+				issueId: 'td-c3',
+				change: 'created',
+				previousStatus: null,
+				status: 'open',
+			},
+		]);
+		expect(byId[0]?.projectPath).toBe(tmpDir);
+
+		// Nothing was written since, so the database is not read again
+		expect(watcher.refresh(tmpDir)).toEqual([]);
+	});
+
+	it('picks up writes through the filesystem watcher', async () => {
+		watcher.watch(tmpDir, dbPath);
+
+		db.exec("UPDATE issues SET title = 'Add OAuth login' WHERE id = 'td-a1'");
+		await vi.waitFor(() => expect(changes).toHaveLength(1), {timeout: 2000});
+		expect(changes[0]?.issue?.title).toBe('Add OAuth login');
+	});
+
+	it('stops watching projects that are no longer listed', () => {
+		watcher.start(() => [{projectPath: tmpDir, dbPath}]);
+		expect(watcher.isWatching(tmpDir)).toBe(true);
+		watcher.sync([]);
+		expect(watcher.isWatching(tmpDir)).toBe(false);
+	});
+});
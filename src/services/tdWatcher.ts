@@ -0,0 +1,253 @@
+import {EventEmitter} from 'events';
+import {statSync, watch, type FSWatcher} from 'fs';
+import path from 'path';
+import {TdReader, type TdIssue} from './tdReader.js';
+import {logger} from '../utils/logger.js';
+
+const DEBOUNCE_MS = 200;
+const RESYNC_INTERVAL_MS = 60 * 1000;
+
+/** A project whose td database should be watched */
+export interface TdWatchedProject {
+	projectPath: string;
+	dbPath: string;
+}
+
+export type TdIssueChangeKind = 'created' | 'updated' | 'deleted';
+
+/** One issue that changed between two reads of a project's td database */
+export interface TdIssueChange {
+	projectPath: string;
+	issueId: string;
+	change: TdIssueChangeKind;
+	/** The issue as it is now; null once deleted */
+	issue: TdIssue | null;
+	/** Status before the change; null for new issues */
+	previousStatus: string | null;
+}
+
+export interface TdWatcherOptions {
+	debounceMs?: number;
+	/** Re-list projects and re-read every database, in case an event was missed */
+	resyncIntervalMs?: number;
+}
+
+interface WatchedDatabase {
+	dbPath: string;
+	watcher: FSWatcher | undefined;
+	timer: NodeJS.Timeout | undefined;
+	/** mtime and size of the database and its WAL at the last read */
+	signature: string | undefined;
+	/** Serialized issues by id; undefined until the first read */
+	issues: Map<string, string> | undefined;
+}
+
+function readIssuesFromDb(dbPath: string): TdIssue[] {
+	const reader = new TdReader(dbPath);
+	try {
+		return reader.listIssues();
+	} finally {
+		reader.close();
+	}
+}
+
+function fileSignature(filePath: string): string {
+	try {
+		const stats = statSync(filePath);
+		return `${stats.mtimeMs}:${stats.size}`;
+	} catch {
+		return '-';
+	}
+}
+
+/**
+ * Pushes td issue changes made outside CACD (agents running `td` in their
+ * terminals) without polling. td writes through SQLite in WAL mode, so the
+ * watcher listens on the `.todos/` directory for writes to `issues.db` and
+ * its `-wal` file, re-reads the issues and emits an `issue` event for every
+ * issue that was created, updated or deleted since the previous read.
+ */
+export class TdWatcher extends EventEmitter {
+	private readonly databases = new Map<string, WatchedDatabase>();
+	private listProjects: (() => TdWatchedProject[]) | null = null;
+	private resyncTimer: NodeJS.Timeout | undefined;
+	private readonly debounceMs: number;
+	private readonly resyncIntervalMs: number;
+
+	constructor(
+		options: TdWatcherOptions = {},
+		private readonly readIssues: (
+			dbPath: string,
+		) => TdIssue[] = readIssuesFromDb,
+	) {
+		super();
+		this.debounceMs = options.debounceMs ?? DEBOUNCE_MS;
+		this.resyncIntervalMs = options.resyncIntervalMs ?? RESYNC_INTERVAL_MS;
+	}
+
+	start(listProjects: () => TdWatchedProject[]): void {
+		this.listProjects = listProjects;
+		this.syncProjects();
+		if (!this.resyncTimer) {
+			this.resyncTimer = setInterval(() => {
+				this.syncProjects();
+				for (const projectPath of this.databases.keys()) {
+					this.refresh(projectPath);
+				}
+			}, this.resyncIntervalMs);
+			this.resyncTimer.unref();
+		}
+	}
+
+	stop(): void {
+		clearInterval(this.resyncTimer);
+		this.resyncTimer = undefined;
+		for (const projectPath of [...this.databases.keys()]) {
+			this.unwatch(projectPath);
+		}
+	}
+
+	/** Re-list projects, e.g. after one was added or td was initialized. */
+	syncProjects(): void {
+		if (!this.listProjects) return;
+		try {
+			this.sync(this.listProjects());
+		} catch (error) {
+			logger.warn(`[TdWatcher] Failed to list projects: ${String(error)}`);
+		}
+	}
+
+	/** Watches exactly these projects, closing watchers of all others. */
+	sync(projects: TdWatchedProject[]): void {
+		const wanted = new Map(projects.map(p => [p.projectPath, p.dbPath]));
+		for (const [projectPath, entry] of this.databases) {
+			if (wanted.get(projectPath) !== entry.dbPath) this.unwatch(projectPath);
+		}
+		for (const [projectPath, dbPath] of wanted) {
+			if (!this.databases.has(projectPath)) this.watch(projectPath, dbPath);
+		}
+	}
+
+	watch(projectPath: string, dbPath: string): void {
+		if (this.databases.has(projectPath)) return;
+
+		const entry: WatchedDatabase = {
+			dbPath,
+			watcher: undefined,
+			timer: undefined,
+			signature: undefined,
+			issues: undefined,
+		};
+		this.databases.set(projectPath, entry);
+
+		const dbName = path.basename(dbPath);
+		try {
+			entry.watcher = watch(path.dirname(dbPath), (_event, filename) => {
+				const name = filename?.toString();
+				// Ignore -shm, which changes on every read
+				if (name && name !== dbName && name !== `${dbName}-wal`) return;
+				this.schedule(projectPath);
+			});
+			entry.watcher.on('error', () => {
+				entry.watcher?.close();
+				entry.watcher = undefined;
+			});
+		} catch (error) {
+			logger.debug(
+				`[TdWatcher] Could not watch ${dbPath}, relying on resync: ${String(error)}`,
+			);
+		}
+
+		// Baseline read; changes are reported relative to it
+		this.refresh(projectPath);
+	}
+
+	unwatch(projectPath: string): void {
+		const entry = this.databases.get(projectPath);
+		if (!entry) return;
+		clearTimeout(entry.timer);
+		entry.watcher?.close();
+		this.databases.delete(projectPath);
+	}
+
+	isWatching(projectPath: string): boolean {
+		return this.databases.has(projectPath);
+	}
+
+	/**
+	 * Re-read a project's issues when its database files changed and emit
+	 * the differences. Returns the changes it emitted.
+	 */
+	refresh(projectPath: string): TdIssueChange[] {
+		const entry = this.databases.get(projectPath);
+		if (!entry) return [];
+
+		// Reading never touches these files, so this also stops our own
+		// connection from re-triggering the watcher
+		const signature = `${fileSignature(entry.dbPath)}|${fileSignature(`${entry.dbPath}-wal`)}`;
+		if (signature === entry.signature) return [];
+		entry.signature = signature;
+
+		let issues: TdIssue[];
+		try {
+			issues = this.readIssues(entry.dbPath);
+		} catch (error) {
+			logger.debug(
+				`[TdWatcher] Failed to read ${entry.dbPath}: ${String(error)}`,
+			);
+			entry.signature = undefined;
+			return [];
+		}
+
+		const previous = entry.issues;
+		// TdReader returns no issues when a query fails; td soft-deletes, so
+		// an emptied board is far more likely a failed read than real
+		if (issues.length === 0 && previous && previous.size > 0) {
+			entry.signature = undefined;
+			return [];
+		}
+		const current = new Map(
+			issues.map(issue => [issue.id, JSON.stringify(issue)]),
+		);
+		entry.issues = current;
+		if (!previous) return [];
+
+		const changes: TdIssueChange[] = [];
+		for (const issue of issues) {
+			const before = previous.get(issue.id);
+			if (before === current.get(issue.id)) continue;
+			changes.push({
+				projectPath,
+				issueId: issue.id,
+				change: before ? 'updated' : 'created',
+				issue,
+				previousStatus: before ? (JSON.parse(before) as TdIssue).status : null,
+			});
+		}
+		for (const [issueId, before] of previous) {
+			if (current.has(issueId)) continue;
+			changes.push({
+				projectPath,
+				issueId,
+				change: 'deleted',
+				issue: null,
+				previousStatus: (JSON.parse(before) as TdIssue).status,
+			});
+		}
+
+		for (const change of changes) this.emit('issue', change);
+		return changes;
+	}
+
+	private schedule(projectPath: string): void {
+		const entry = this.databases.get(projectPath);
+		if (!entry) return;
+		clearTimeout(entry.timer);
+		entry.timer = setTimeout(() => {
+			entry.timer = undefined;
+			this.refresh(projectPath);
+		}, this.debounceMs);
+	}
+}
+
+export const tdWatcher = new TdWatcher();
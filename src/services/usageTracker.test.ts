@@ -0,0 +1,88 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type {SessionFileMetadata} from '../adapters/index.js';
+import {SessionStore} from './sessionStore.js';
+import {UsageTracker} from './usageTracker.js';
+
+const {mockExtractMetadata} = vi.hoisted(() => ({
+	mockExtractMetadata:
+		vi.fn<(filePath: string) => Promise<SessionFileMetadata>>(),
+}));
+
+vi.mock('./sessionAdapter.js', () => ({
+	resolveAdapterForSession: () => ({extractMetadata: mockExtractMetadata}),
+}));
+
+vi.mock('../utils/logger.js', () => ({
+	logger: {
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	},
+}));
+
+describe('UsageTracker', () => {
+	let tmpDir: string;
+	let store: SessionStore;
+	let tracker: UsageTracker;
+
+	const addSession = (id: string): string => {
+		const agentSessionPath = path.join(tmpDir, `${id}.jsonl`);
+		fs.writeFileSync(agentSessionPath, '{}\n');
+		store.createSessionRecord({
+			id,
+			agentProfileId: 'claude',
+			agentProfileName: 'Claude',
+			agentType: 'claude',
+			agentOptions: {},
+			worktreePath: tmpDir,
+			createdAt: 1_720_000_000,
+		});
+		store.updateAgentSessionLink(id, agentSessionPath, id);
+		return agentSessionPath;
+	};
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cacd-usage-test-'));
+		store = new SessionStore(path.join(tmpDir, 'sessions.db'));
+		tracker = new UsageTracker(store);
+		mockExtractMetadata.mockReset();
+	});
+
+	afterEach(() => {
+		tracker.stop();
+		store.close();
+		fs.rmSync(tmpDir, {recursive: true, force: true});
+	});
+
+	it('waits for the pass in flight and then collects again', async () => {
+		const filePath = addSession('session-1');
+		let finishFirstPass: (metadata: SessionFileMetadata) => void = () => {};
+		mockExtractMetadata
+			.mockImplementationOnce(
+				() =>
+					new Promise(resolve => {
+						finishFirstPass = resolve;
+					}),
+			)
+			.mockResolvedValueOnce({totalTokens: 200});
+
+		const first = tracker.collect();
+		await vi.waitFor(() => {
+			expect(mockExtractMetadata).toHaveBeenCalledTimes(1);
+		});
+
+		// The agent writes more while the first pass is still reading
+		const later = new Date(Date.now() + 60_000);
+		fs.utimesSync(filePath, later, later);
+		const second = tracker.collect(['session-1']);
+		finishFirstPass({totalTokens: 100});
+
+		expect(await first).toBe(1);
+		expect(await second).toBe(1);
+		expect(store.getSessionUsage('session-1')?.totalTokens).toBe(200);
+	});
+});
@@ -0,0 +1,76 @@
+import type {AgentAdapter} from '../adapters/index.js';
+import {sessionStore, SessionStore, UsageCandidate} from './sessionStore.js';
+import {SessionFilePoller} from './sessionFilePoller.js';
+import {logger} from '../utils/logger.js';
+
+const USAGE_POLL_INTERVAL_MS = 5 * 60 * 1000;
+const USAGE_INITIAL_DELAY_MS = 10 * 1000;
+
+/**
+ * Periodically extracts token/cost metadata from agent session files and
+ * persists it to sessions.db so usage can be aggregated without re-parsing.
+ * Files are only re-read when their mtime changed since the last extraction.
+ */
+export class UsageTracker extends SessionFilePoller<UsageCandidate> {
+	private collecting: Promise<unknown> = Promise.resolve();
+
+	constructor(private readonly store: SessionStore = sessionStore) {
+		super({
+			name: 'UsageTracker',
+			initialDelayMs: USAGE_INITIAL_DELAY_MS,
+			intervalMs: USAGE_POLL_INTERVAL_MS,
+		});
+	}
+
+	protected poll(): Promise<number> {
+		return this.collect();
+	}
+
+	/**
+	 * Extract usage for every session whose agent file changed. Passes run one
+	 * at a time; a call made during a pass waits for it and then runs its own,
+	 * so callers always see usage collected after they asked.
+	 * @param sessionIds Only look at these sessions (default: all)
+	 * @returns number of sessions whose usage was updated
+	 */
+	collect(sessionIds?: string[]): Promise<number> {
+		const pass = this.collecting.then(() => this.runCollectPass(sessionIds));
+		this.collecting = pass.catch(() => undefined);
+		return pass;
+	}
+
+	private async runCollectPass(sessionIds?: string[]): Promise<number> {
+		const candidates = this.store
+			.listUsageCandidates()
+			.filter(
+				candidate => !sessionIds || sessionIds.includes(candidate.sessionId),
+			);
+		const updated = await this.readChangedFiles(candidates);
+		if (updated > 0) {
+			logger.info(`[UsageTracker] Updated usage for ${updated} session(s)`);
+		}
+		return updated;
+	}
+
+	protected getReadMtime(candidate: UsageCandidate): number | null {
+		return candidate.sourceMtime;
+	}
+
+	protected async readFile(
+		candidate: UsageCandidate,
+		adapter: AgentAdapter,
+		mtimeMs: number,
+	): Promise<void> {
+		const metadata = await adapter.extractMetadata(candidate.agentSessionPath);
+		this.store.upsertSessionUsage({
+			sessionId: candidate.sessionId,
+			totalTokens: metadata.totalTokens,
+			estimatedCostUsd: metadata.estimatedCostUsd,
+			model: metadata.model,
+			messageCount: metadata.messageCount,
+			sourceMtime: mtimeMs,
+		});
+	}
+}
+
+export const usageTracker = new UsageTracker();
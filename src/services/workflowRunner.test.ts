@@ -0,0 +1,193 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {Effect} from 'effect';
+import type {WorkflowConfig} from '../types/index.js';
+import {SessionStore} from './sessionStore.js';
+import {
+	WorkflowRunner,
+	type WorkflowLauncher,
+	type WorkflowStepLaunch,
+} from './workflowRunner.js';
+import {createTempGitRepo} from '../utils/testHelpers.js';
+
+vi.mock('./configurationManager.js', () => ({
+	configurationManager: {
+		getAgentById: (id: string) =>
+			['claude', 'codex'].includes(id) ? {id, name: id} : undefined,
+	},
+}));
+
+vi.mock('../utils/worktreeConfig.js', () => ({
+	getWorktreeParentBranch: () => Effect.succeed(null),
+}));
+
+vi.mock('../utils/logger.js', () => ({
+	logger: {
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	},
+}));
+
+describe('WorkflowRunner', () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let store: SessionStore;
+	let runner: WorkflowRunner;
+	let launches: WorkflowStepLaunch[];
+	let failLaunch: boolean;
+	let beforeLaunch: (() => void) | undefined;
+
+	const writeWorkflows = (workflows: Record<string, WorkflowConfig>) => {
+		fs.writeFileSync(
+			path.join(repoPath, '.cacd.json'),
+			JSON.stringify({workflows}),
+		);
+	};
+
+	beforeEach(() => {
+		({tmpDir, repoPath} = createTempGitRepo('cacd-workflow-test-', {
+			'app.ts': 'export const a = 1;\n',
+		}));
+
+		launches = [];
+		failLaunch = false;
+		beforeLaunch = undefined;
+		const launcher: WorkflowLauncher = {
+			createWorktree: async () => repoPath,
+			launchSession: async launch => {
+				beforeLaunch?.();
+				if (failLaunch) throw new Error('Agent not found');
+				launches.push(launch);
+				return `session-${launches.length}`;
+			},
+			getSessionState: () => 'idle',
+		};
+		store = new SessionStore(path.join(tmpDir, 'sessions.db'));
+		runner = new WorkflowRunner(store);
+		runner.start(launcher);
+	});
+
+	afterEach(() => {
+		store.close();
+		fs.rmSync(tmpDir, {recursive: true, force: true});
+	});
+
+	it('starts each step once the previous agent finished working', async () => {
+		writeWorkflows({
+			'implement-review': {
+				steps: [
+					{name: 'Implement', agentId: 'claude', prompt: 'Work on {{task.id}}'},
+					{
+						name: 'Review',
+						agentId: 'codex',
+						intent: 'review',
+						prompt: 'Review this diff:\n{{diff}}',
+					},
+				],
+			},
+		});
+
+		const result = await runner.startRun({
+			projectPath: repoPath,
+			workflow: 'implement-review',
+			tdTaskId: 'td-abc123',
+		});
+		expect(result.ok).toBe(true);
+		const runId = result.ok ? result.run.id : '';
+		expect(launches).toHaveLength(1);
+		expect(launches[0]).toMatchObject({
+			worktreePath: repoPath,
+			initialPrompt: 'Work on td-abc123',
+		});
+
+		// Idle while starting up does not count as done
+		runner.handleSessionState('session-1', 'idle');
+		expect(launches).toHaveLength(1);
+
+		fs.writeFileSync(path.join(repoPath, 'app.ts'), 'export const a = 2;\n');
+		runner.handleSessionState('session-1', 'busy');
+		runner.handleSessionState('session-1', 'idle');
+		await vi.waitFor(() => {
+			expect(store.getWorkflowRun(runId)?.steps[1]?.status).toBe('running');
+		});
+		expect(launches[1]?.step.agentId).toBe('codex');
+		expect(launches[1]?.run.tdTaskId).toBe('td-abc123');
+		expect(launches[1]?.initialPrompt).toContain('+export const a = 2;');
+
+		runner.handleSessionExit('session-2');
+		expect(store.getWorkflowRun(runId)).toMatchObject({
+			status: 'completed',
+			steps: [
+				{name: 'Implement', status: 'idle', sessionId: 'session-1'},
+				{name: 'Review', status: 'exited', sessionId: 'session-2'},
+			],
+		});
+	});
+
+	it('waits for manual steps and records failed launches', async () => {
+		writeWorkflows({
+			gated: {
+				steps: [
+					{agentId: 'claude', prompt: 'Plan'},
+					{agentId: 'codex', after: 'manual', prompt: 'Build'},
+				],
+			},
+		});
+
+		const result = await runner.startRun({
+			projectPath: repoPath,
+			workflow: 'gated',
+		});
+		const runId = result.ok ? result.run.id : '';
+		runner.handleSessionState('session-1', 'busy');
+		runner.handleSessionState('session-1', 'idle');
+		await new Promise(resolve => setTimeout(resolve, 20));
+		expect(launches).toHaveLength(1);
+
+		failLaunch = true;
+		const advanced = await runner.advance(runId);
+		expect(advanced.ok && advanced.run).toMatchObject({
+			status: 'failed',
+			error: 'Step 2: Agent not found',
+			steps: [{status: 'idle'}, {status: 'failed'}],
+		});
+		expect(await runner.advance(runId)).toMatchObject({
+			ok: false,
+			statusCode: 409,
+		});
+
+		expect(
+			await runner.startRun({projectPath: repoPath, workflow: 'missing'}),
+		).toMatchObject({ok: false, statusCode: 404});
+	});
+
+	it('keeps changes made to other steps while a step starts', async () => {
+		writeWorkflows({
+			gated: {
+				steps: [
+					{agentId: 'claude', prompt: 'Plan'},
+					{agentId: 'codex', after: 'manual', prompt: 'Build'},
+				],
+			},
+		});
+
+		const result = await runner.startRun({
+			projectPath: repoPath,
+			workflow: 'gated',
+		});
+		const runId = result.ok ? result.run.id : '';
+		runner.handleSessionState('session-1', 'busy');
+		runner.handleSessionState('session-1', 'idle');
+
+		// The planning agent quits while the next one is starting
+		beforeLaunch = () => runner.handleSessionExit('session-1');
+		const advanced = await runner.advance(runId);
+		expect(advanced.ok && advanced.run.steps).toMatchObject([
+			{status: 'exited', sessionId: 'session-1'},
+			{status: 'running', sessionId: 'session-2'},
+		]);
+	});
+});
@@ -0,0 +1,457 @@
+import {randomUUID} from 'crypto';
+import {execFile} from 'child_process';
+import {promisify} from 'util';
+import type {
+	SessionState,
+	WorkflowStepConfig,
+	WorkflowStepTrigger,
+} from '../types/index.js';
+import {configurationManager} from './configurationManager.js';
+import {renderJobBranchTemplate} from './jobQueue.js';
+import {
+	sessionStore,
+	SessionStore,
+	UpdateWorkflowRunInput,
+	WorkflowRunFilters,
+	WorkflowRunRecord,
+	WorkflowStepRun,
+} from './sessionStore.js';
+import {
+	findPromptTemplateByName,
+	loadProjectConfig,
+	loadPromptTemplatesByScope,
+} from '../utils/projectConfig.js';
+import {getWorktreeDiff} from '../utils/gitStatus.js';
+import {logger} from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+const GIT_TIMEOUT_MS = 15000;
+
+export interface WorkflowSummary {
+	name: string;
+	description: string | null;
+	steps: WorkflowStepConfig[];
+}
+
+export interface StartWorkflowInput {
+	projectPath: string;
+	workflow: string;
+	tdTaskId?: string;
+	/** Existing worktree for steps without a branch template (default: project root) */
+	worktreePath?: string;
+}
+
+export type WorkflowRunResult =
+	| {ok: true; run: WorkflowRunRecord}
+	| {ok: false; statusCode: 400 | 404 | 409 | 503; error: string};
+
+export interface WorkflowStepLaunch {
+	run: WorkflowRunRecord;
+	step: WorkflowStepConfig;
+	stepIndex: number;
+	worktreePath: string;
+	/** Rendered prompt; unset when the step relies on a TD prompt template */
+	initialPrompt?: string;
+}
+
+/**
+ * Hooks the runner needs from the server: creating worktrees, starting
+ * sessions and reading the state of a running session.
+ */
+export interface WorkflowLauncher {
+	/** @returns path of the new worktree, branched off the default branch */
+	createWorktree(projectPath: string, branch: string): Promise<string>;
+	/** @returns id of the started session; rejects when the launch failed */
+	launchSession(launch: WorkflowStepLaunch): Promise<string>;
+	getSessionState(sessionId: string): SessionState | undefined;
+}
+
+function toUnixSeconds(timestampMs = Date.now()): number {
+	return Math.floor(timestampMs / 1000);
+}
+
+function stepName(step: WorkflowStepConfig | undefined, index: number): string {
+	return step?.name?.trim() || `Step ${index + 1}`;
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+	const {stdout} = await execFileAsync('git', args, {
+		cwd,
+		encoding: 'utf8',
+		timeout: GIT_TIMEOUT_MS,
+		maxBuffer: 64 * 1024 * 1024,
+	});
+	return stdout;
+}
+
+/** Replace the workflow placeholders; unknown ones are left as written. */
+export function renderWorkflowPrompt(
+	template: string,
+	values: Record<string, string>,
+): string {
+	return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key: string) =>
+		key in values ? values[key]! : match,
+	);
+}
+
+/**
+ * Runs named multi-step workflows from a project's .cacd.json. Each step starts
+ * an agent session, linked to the run's TD task, once the previous step's
+ * session went idle, exited, or the user moved the run on. Runs and their step
+ * progress are stored in sessions.db.
+ */
+export class WorkflowRunner {
+	private launcher: WorkflowLauncher | undefined;
+	private onChange: (() => void) | undefined;
+	/** Sessions seen working; an idle state before that is the agent starting up */
+	private readonly workedSessions = new Set<string>();
+	private readonly launching = new Set<string>();
+
+	constructor(private readonly store: SessionStore = sessionStore) {}
+
+	start(launcher: WorkflowLauncher, options: {onChange?: () => void} = {}) {
+		this.launcher = launcher;
+		this.onChange = options.onChange;
+	}
+
+	listWorkflows(projectPath: string): WorkflowSummary[] {
+		const workflows = loadProjectConfig(projectPath)?.workflows || {};
+		return Object.entries(workflows).map(([name, workflow]) => ({
+			name,
+			description: workflow?.description ?? null,
+			steps: Array.isArray(workflow?.steps) ? workflow.steps : [],
+		}));
+	}
+
+	listRuns(filters: WorkflowRunFilters = {}): WorkflowRunRecord[] {
+		return this.store.listWorkflowRuns(filters);
+	}
+
+	getRun(id: string): WorkflowRunRecord | null {
+		return this.store.getWorkflowRun(id);
+	}
+
+	async startRun(input: StartWorkflowInput): Promise<WorkflowRunResult> {
+		const projectPath = input.projectPath?.trim();
+		const workflowName = input.workflow?.trim();
+		if (!projectPath) {
+			return {ok: false, statusCode: 400, error: 'projectPath is required'};
+		}
+		if (!workflowName) {
+			return {ok: false, statusCode: 400, error: 'workflow is required'};
+		}
+		if (!this.launcher) {
+			return {
+				ok: false,
+				statusCode: 503,
+				error: 'Workflow runner is not started',
+			};
+		}
+
+		const workflow = loadProjectConfig(projectPath)?.workflows?.[workflowName];
+		if (!workflow) {
+			return {
+				ok: false,
+				statusCode: 404,
+				error: `Workflow not found: ${workflowName}`,
+			};
+		}
+		if (!Array.isArray(workflow.steps) || workflow.steps.length === 0) {
+			return {
+				ok: false,
+				statusCode: 400,
+				error: `Workflow "${workflowName}" has no steps`,
+			};
+		}
+		for (const [index, step] of workflow.steps.entries()) {
+			if (!step?.agentId || !configurationManager.getAgentById(step.agentId)) {
+				return {
+					ok: false,
+					statusCode: 400,
+					error: `${stepName(step, index)}: agent not found: ${step?.agentId ?? '(none)'}`,
+				};
+			}
+		}
+
+		const run = this.store.createWorkflowRun({
+			id: randomUUID(),
+			workflowName,
+			projectPath,
+			worktreePath: input.worktreePath?.trim() || undefined,
+			tdTaskId: input.tdTaskId?.trim() || undefined,
+			definition: workflow,
+			steps: workflow.steps.map((step, index) => ({
+				name: stepName(step, index),
+				agentId: step.agentId,
+				status: 'pending',
+				sessionId: null,
+				worktreePath: null,
+				error: null,
+				startedAt: null,
+				finishedAt: null,
+			})),
+		});
+		logger.info(`[Workflow] Started ${workflowName} as run ${run.id}`);
+		this.onChange?.();
+
+		const started = await this.launchStep(run.id, 0);
+		return {ok: true, run: started ?? run};
+	}
+
+	/**
+	 * Start the next pending step now, without waiting for its trigger. This is
+	 * how `manual` steps run and how a run stuck on a quiet agent moves on.
+	 */
+	async advance(id: string): Promise<WorkflowRunResult> {
+		const run = this.store.getWorkflowRun(id);
+		if (!run) {
+			return {ok: false, statusCode: 404, error: 'Workflow run not found'};
+		}
+		if (run.status !== 'running') {
+			return {
+				ok: false,
+				statusCode: 409,
+				error: `Workflow run is already ${run.status}`,
+			};
+		}
+		const next = run.steps.findIndex(step => step.status === 'pending');
+		if (next === -1) {
+			return {ok: false, statusCode: 409, error: 'No steps left to start'};
+		}
+		if (this.launching.has(id)) {
+			return {ok: false, statusCode: 409, error: 'A step is already starting'};
+		}
+
+		const started = await this.launchStep(id, next);
+		return {ok: true, run: started ?? run};
+	}
+
+	/** Stops the run from starting further steps; running sessions are kept. */
+	cancel(id: string): WorkflowRunResult {
+		const run = this.store.getWorkflowRun(id);
+		if (!run) {
+			return {ok: false, statusCode: 404, error: 'Workflow run not found'};
+		}
+		if (run.status !== 'running') {
+			return {
+				ok: false,
+				statusCode: 409,
+				error: `Workflow run is already ${run.status}`,
+			};
+		}
+		const cancelled = this.store.updateWorkflowRun(id, {status: 'cancelled'});
+		this.onChange?.();
+		return {ok: true, run: cancelled ?? run};
+	}
+
+	handleSessionState(sessionId: string, state: SessionState): void {
+		if (state !== 'idle') {
+			this.workedSessions.add(sessionId);
+		}
+
+		const match = this.findStep(sessionId);
+		if (!match) return;
+		const {run, index} = match;
+		const step = run.steps[index]!;
+
+		if (state !== 'idle') {
+			if (step.status === 'idle') {
+				this.updateStep(run, index, {status: 'running', finishedAt: null});
+			}
+			return;
+		}
+		if (step.status !== 'running' || !this.workedSessions.has(sessionId)) {
+			return;
+		}
+
+		const updated = this.updateStep(run, index, {
+			status: 'idle',
+			finishedAt: toUnixSeconds(),
+		});
+		if (updated) void this.continueAfter(updated, index, 'idle');
+	}
+
+	handleSessionExit(sessionId: string): void {
+		this.workedSessions.delete(sessionId);
+		const match = this.findStep(sessionId);
+		if (!match) return;
+		const {run, index} = match;
+		const step = run.steps[index]!;
+		if (step.status !== 'running' && step.status !== 'idle') return;
+
+		const updated = this.updateStep(run, index, {
+			status: 'exited',
+			finishedAt: step.finishedAt ?? toUnixSeconds(),
+		});
+		if (updated) void this.continueAfter(updated, index, 'exit');
+	}
+
+	private findStep(
+		sessionId: string,
+	): {run: WorkflowRunRecord; index: number} | undefined {
+		for (const run of this.store.listWorkflowRuns({status: 'running'})) {
+			const index = run.steps.findIndex(step => step.sessionId === sessionId);
+			if (index !== -1) return {run, index};
+		}
+		return undefined;
+	}
+
+	private updateStep(
+		run: WorkflowRunRecord,
+		index: number,
+		patch: Partial<WorkflowStepRun>,
+	): WorkflowRunRecord | null {
+		const updated = this.patchStep(run.id, index, patch);
+		this.onChange?.();
+		return updated;
+	}
+
+	/**
+	 * Patch one step of the stored run. Other steps' sessions may have changed
+	 * the run while a caller awaited, so never write back a snapshot.
+	 */
+	private patchStep(
+		id: string,
+		index: number,
+		patch: Partial<WorkflowStepRun>,
+		input: Omit<UpdateWorkflowRunInput, 'steps'> = {},
+	): WorkflowRunRecord | null {
+		const run = this.store.getWorkflowRun(id);
+		if (!run) return null;
+		const steps = run.steps.map((step, stepIndex) =>
+			stepIndex === index ? {...step, ...patch} : step,
+		);
+		return this.store.updateWorkflowRun(id, {...input, steps});
+	}
+
+	/** Start the next step when its trigger matches; complete after the last. */
+	private async continueAfter(
+		run: WorkflowRunRecord,
+		index: number,
+		event: Exclude<WorkflowStepTrigger, 'manual'>,
+	): Promise<void> {
+		if (index === run.steps.length - 1) {
+			this.store.updateWorkflowRun(run.id, {status: 'completed'});
+			logger.info(`[Workflow] Run ${run.id} (${run.workflowName}) completed`);
+			this.onChange?.();
+			return;
+		}
+
+		const next = run.steps[index + 1];
+		const trigger = run.definition.steps[index + 1]?.after ?? 'idle';
+		if (next?.status !== 'pending' || trigger === 'manual') return;
+		if (trigger === 'exit' && event !== 'exit') return;
+		await this.launchStep(run.id, index + 1);
+	}
+
+	private async launchStep(
+		id: string,
+		index: number,
+	): Promise<WorkflowRunRecord | null> {
+		const launcher = this.launcher;
+		if (!launcher || this.launching.has(id)) return null;
+		this.launching.add(id);
+
+		const run = this.store.getWorkflowRun(id);
+		const step = run?.definition.steps[index];
+		try {
+			if (!run || !step || run.status !== 'running') return run;
+
+			let worktreePath = run.worktreePath || run.projectPath;
+			if (step.branchTemplate?.trim()) {
+				const branch = renderJobBranchTemplate(step.branchTemplate, {
+					id: run.id,
+					tdTaskId: run.tdTaskId,
+					runCount: 0,
+				});
+				worktreePath = await launcher.createWorktree(run.projectPath, branch);
+			}
+
+			const initialPrompt = await this.resolvePrompt(run, step, worktreePath);
+			const sessionId = await launcher.launchSession({
+				run,
+				step,
+				stepIndex: index,
+				worktreePath,
+				initialPrompt,
+			});
+			// The agent may already be working on a prompt passed at startup
+			const state = launcher.getSessionState(sessionId);
+			if (state && state !== 'idle') {
+				this.workedSessions.add(sessionId);
+			}
+
+			logger.info(
+				`[Workflow] Run ${run.id}: started ${stepName(step, index)} as ${sessionId}`,
+			);
+			return this.patchStep(
+				run.id,
+				index,
+				{
+					status: 'running',
+					sessionId,
+					worktreePath,
+					error: null,
+					startedAt: toUnixSeconds(),
+					finishedAt: null,
+				},
+				{worktreePath},
+			);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			logger.warn(`[Workflow] Run ${id} step ${index + 1} failed: ${message}`);
+			if (!run || !step) return run;
+			return this.patchStep(
+				run.id,
+				index,
+				{status: 'failed', error: message, finishedAt: toUnixSeconds()},
+				// Keep a cancellation made while the step was starting
+				this.store.getWorkflowRun(run.id)?.status === 'running'
+					? {status: 'failed', error: `${stepName(step, index)}: ${message}`}
+					: {},
+			);
+		} finally {
+			this.launching.delete(id);
+			this.onChange?.();
+		}
+	}
+
+	/**
+	 * The step's prompt text. TD-linked steps that name a prompt template leave
+	 * rendering to the session launch, which fills in the task fields.
+	 */
+	private async resolvePrompt(
+		run: WorkflowRunRecord,
+		step: WorkflowStepConfig,
+		worktreePath: string,
+	): Promise<string | undefined> {
+		let template = step.prompt;
+		if (!template?.trim() && step.promptTemplate?.trim() && !run.tdTaskId) {
+			const found = findPromptTemplateByName(
+				loadPromptTemplatesByScope(run.projectPath, 'effective'),
+				step.promptTemplate,
+			);
+			if (!found) {
+				throw new Error(`Prompt template "${step.promptTemplate}" not found`);
+			}
+			template = found.content;
+		}
+		if (!template?.trim()) return undefined;
+
+		const values: Record<string, string> = {
+			'workflow.name': run.workflowName,
+			'task.id': run.tdTaskId || '',
+			worktree: worktreePath,
+			branch: (
+				await git(worktreePath, ['branch', '--show-current']).catch(() => '')
+			).trim(),
+		};
+		if (/\{\{\s*diff\s*\}\}/.test(template)) {
+			values['diff'] = await getWorktreeDiff(worktreePath);
+		}
+		return renderWorkflowPrompt(template, values).trim();
+	}
+}
+
+export const workflowRunner = new WorkflowRunner();
@@ -0,0 +1,186 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {Effect} from 'effect';
+import type {IWorktreeService, Worktree} from '../types/index.js';
+import {SessionStore} from './sessionStore.js';
+import {WorktreeCleanupService} from './worktreeCleanupService.js';
+import {createTempGitRepo, git} from '../utils/testHelpers.js';
+
+vi.mock('./configurationManager.js', () => ({
+	configurationManager: {
+		getWorktreeLastOpenedTime: vi.fn(),
+	},
+}));
+
+vi.mock('./tdService.js', () => ({
+	tdService: {
+		resolveProjectState: () => ({enabled: false, dbPath: null}),
+	},
+}));
+
+vi.mock('../utils/worktreeConfig.js', () => ({
+	getWorktreeParentBranch: () => Effect.succeed(null),
+}));
+
+vi.mock('../utils/logger.js', () => ({
+	logger: {
+		info: vi.fn(),
+		warn: vi.fn(),
+		error: vi.fn(),
+		debug: vi.fn(),
+	},
+}));
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+function commit(cwd: string, file: string, message: string) {
+	fs.writeFileSync(path.join(cwd, file), `${message}\n`);
+	git(cwd, 'add', '.');
+	git(cwd, 'commit', '-m', message);
+}
+
+function listWorktrees(repoPath: string): Worktree[] {
+	return git(repoPath, 'worktree', 'list', '--porcelain')
+		.split('\n\n')
+		.map((block, index) => {
+			const lines = block.split('\n');
+			return {
+				path: lines[0]!.slice('worktree '.length),
+				branch: lines
+					.find(line => line.startsWith('branch '))
+					?.slice('branch '.length),
+				isMainWorktree: index === 0,
+				hasSession: false,
+			};
+		});
+}
+
+describe('WorktreeCleanupService', () => {
+	let tmpDir: string;
+	let repoPath: string;
+	let store: SessionStore;
+	let worktreeService: IWorktreeService;
+	let service: WorktreeCleanupService;
+
+	const worktreePath = (name: string) => path.join(tmpDir, name);
+
+	beforeEach(() => {
+		({tmpDir, repoPath} = createTempGitRepo('cacd-cleanup-test-'));
+
+		// Merged back into main
+		git(
+			repoPath,
+			'worktree',
+			'add',
+			'-b',
+			'feature/done',
+			worktreePath('done'),
+		);
+		commit(worktreePath('done'), 'done.ts', 'Finish feature');
+		git(repoPath, 'merge', '--no-ff', '-m', 'Merge done', 'feature/done');
+
+		// Unmerged commit plus uncommitted changes
+		git(repoPath, 'worktree', 'add', '-b', 'feature/wip', worktreePath('wip'));
+		commit(worktreePath('wip'), 'wip.ts', 'Start work');
+		fs.writeFileSync(path.join(worktreePath('wip'), 'notes.md'), 'todo\n');
+
+		// Fresh off main, nothing done yet
+		git(
+			repoPath,
+			'worktree',
+			'add',
+			'-b',
+			'feature/fresh',
+			worktreePath('fresh'),
+		);
+
+		// Directory removed outside of git
+		git(
+			repoPath,
+			'worktree',
+			'add',
+			'-b',
+			'feature/gone',
+			worktreePath('gone'),
+		);
+		fs.rmSync(worktreePath('gone'), {recursive: true, force: true});
+
+		worktreeService = {
+			getGitRootPath: () => repoPath,
+			getWorktreesEffect: () => Effect.sync(() => listWorktrees(repoPath)),
+			getDefaultBranchEffect: () => Effect.succeed('main'),
+		} as unknown as IWorktreeService;
+		store = new SessionStore(path.join(tmpDir, 'sessions.db'));
+		service = new WorktreeCleanupService(store);
+	});
+
+	afterEach(() => {
+		store.close();
+		fs.rmSync(tmpDir, {recursive: true, force: true});
+	});
+
+	it('classifies merged and orphaned worktrees and skips fresh ones', async () => {
+		const candidates = await service.analyze(worktreeService, {
+			projectPath: repoPath,
+			activeWorktreePaths: [],
+		});
+
+		expect(
+			candidates.map(({path: candidatePath, reasons, risks, recommended}) => ({
+				path: candidatePath,
+				reasons,
+				risks,
+				recommended,
+			})),
+		).toEqual([
+			{
+				path: worktreePath('done'),
+				reasons: ['merged'],
+				risks: [],
+				recommended: true,
+			},
+			{
+				path: worktreePath('gone'),
+				reasons: ['orphaned'],
+				risks: [],
+				recommended: true,
+			},
+		]);
+		expect(candidates[0]).toMatchObject({
+			branch: 'feature/done',
+			projectPath: repoPath,
+			task: null,
+		});
+	});
+
+	it('flags stale worktrees with the work they would lose', async () => {
+		store.createSessionRecord({
+			id: 'session-1',
+			agentProfileId: 'claude',
+			agentProfileName: 'Claude',
+			agentType: 'claude',
+			agentOptions: {},
+			worktreePath: worktreePath('fresh'),
+			createdAt: Math.floor(Date.now() / 1000) + 30 * DAY_SECONDS,
+		});
+
+		const candidates = await service.analyze(worktreeService, {
+			projectPath: repoPath,
+			activeWorktreePaths: [worktreePath('done')],
+			staleAfterDays: 7,
+			now: Math.floor(Date.now() / 1000) + 31 * DAY_SECONDS,
+		});
+
+		expect(candidates.map(candidate => candidate.path)).toEqual([
+			worktreePath('gone'),
+			worktreePath('wip'),
+		]);
+		expect(candidates[1]).toMatchObject({
+			reasons: ['stale'],
+			risks: ['uncommitted_changes', 'unmerged_commits'],
+			recommended: false,
+		});
+		expect(candidates[1]!.lastActivityAt).toBeGreaterThan(0);
+	});
+});
@@ -0,0 +1,329 @@
+import {execFile} from 'child_process';
+import {promisify} from 'util';
+import {existsSync, promises as fs} from 'fs';
+import path from 'path';
+import {Effect} from 'effect';
+import type {IWorktreeService, Worktree} from '../types/index.js';
+import {configurationManager} from './configurationManager.js';
+import {sessionStore, SessionStore} from './sessionStore.js';
+import {tdService} from './tdService.js';
+import {TdReader, TdIssue} from './tdReader.js';
+import {getGitStatus, type GitStatus} from '../utils/gitStatus.js';
+import {logger} from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+const GIT_TIMEOUT_MS = 10000;
+const DAY_SECONDS = 24 * 60 * 60;
+
+export const DEFAULT_STALE_AFTER_DAYS = 14;
+
+/** Why a worktree is offered for cleanup. */
+export type WorktreeCleanupReason =
+	| 'merged'
+	| 'orphaned'
+	| 'task_closed'
+	| 'stale';
+
+/** Why deleting a candidate could lose work. */
+export type WorktreeCleanupRisk = 'uncommitted_changes' | 'unmerged_commits';
+
+export interface WorktreeCleanupCandidate {
+	path: string;
+	branch: string | null;
+	projectPath: string;
+	reasons: WorktreeCleanupReason[];
+	risks: WorktreeCleanupRisk[];
+	/** Reasons apply and nothing would be lost; preselected for bulk delete */
+	recommended: boolean;
+	/** Unix seconds of the last open, session, commit or creation */
+	lastActivityAt: number | null;
+	gitStatus: GitStatus | null;
+	task: {id: string; title: string; status: string} | null;
+}
+
+export interface WorktreeCleanupOptions {
+	projectPath: string;
+	/** Worktrees with a running session are never candidates */
+	activeWorktreePaths: Iterable<string>;
+	staleAfterDays?: number;
+	/** Unix seconds, defaults to now */
+	now?: number;
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+	const {stdout} = await execFileAsync('git', args, {
+		cwd,
+		encoding: 'utf8',
+		timeout: GIT_TIMEOUT_MS,
+	});
+	return stdout.trim();
+}
+
+async function gitSucceeds(cwd: string, args: string[]): Promise<boolean> {
+	try {
+		await git(cwd, args);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+function normalizeBranch(branch: string | undefined): string | null {
+	return branch ? branch.replace(/^refs\/heads\//, '') : null;
+}
+
+/**
+ * Classifies the linked worktrees of a project as cleanup candidates:
+ * merged into the default branch, orphaned (directory or parent branch
+ * gone), linked to a closed td task or untouched for a while. Worktrees
+ * with running sessions and the main worktree are never offered.
+ */
+export class WorktreeCleanupService {
+	constructor(private readonly store: SessionStore = sessionStore) {}
+
+	async analyze(
+		worktreeService: IWorktreeService,
+		options: WorktreeCleanupOptions,
+	): Promise<WorktreeCleanupCandidate[]> {
+		const gitRoot = worktreeService.getGitRootPath();
+		const worktrees = await Effect.runPromise(
+			worktreeService.getWorktreesEffect(),
+		);
+		const defaultBranch = await Effect.runPromise(
+			Effect.orElseSucceed(worktreeService.getDefaultBranchEffect(), () => ''),
+		);
+		const active = new Set(options.activeWorktreePaths);
+		const staleAfter =
+			(options.staleAfterDays ?? DEFAULT_STALE_AFTER_DAYS) * DAY_SECONDS;
+		const now = options.now ?? Math.floor(Date.now() / 1000);
+		const tasks = this.loadTasks(gitRoot);
+
+		const candidates: WorktreeCleanupCandidate[] = [];
+		for (const worktree of worktrees) {
+			if (worktree.isMainWorktree || active.has(worktree.path)) continue;
+
+			const candidate = await this.classify(worktree, {
+				gitRoot,
+				defaultBranch,
+				projectPath: options.projectPath,
+				tasks,
+			});
+			if (
+				candidate.lastActivityAt !== null &&
+				now - candidate.lastActivityAt > staleAfter
+			) {
+				candidate.reasons.push('stale');
+			}
+			if (candidate.reasons.length === 0) continue;
+
+			candidate.recommended = candidate.risks.length === 0;
+			candidates.push(candidate);
+		}
+
+		return candidates;
+	}
+
+	private async classify(
+		worktree: Worktree,
+		context: {
+			gitRoot: string;
+			defaultBranch: string;
+			projectPath: string;
+			tasks: TdIssue[];
+		},
+	): Promise<WorktreeCleanupCandidate> {
+		const branch = normalizeBranch(worktree.branch);
+		const candidate: WorktreeCleanupCandidate = {
+			path: worktree.path,
+			branch,
+			projectPath: context.projectPath,
+			reasons: [],
+			risks: [],
+			recommended: false,
+			lastActivityAt: null,
+			gitStatus: null,
+			task: null,
+		};
+
+		const task = this.findTask(worktree.path, branch, context.tasks);
+		if (task) {
+			candidate.task = {id: task.id, title: task.title, status: task.status};
+			if (task.status === 'closed') candidate.reasons.push('task_closed');
+		}
+
+		// Nothing left on disk to lose; `git worktree remove` prunes the entry
+		if (!existsSync(worktree.path)) {
+			candidate.reasons.unshift('orphaned');
+			candidate.lastActivityAt = this.lastSessionActivity(worktree.path);
+			return candidate;
+		}
+
+		candidate.gitStatus = await Effect.runPromise(
+			Effect.orElseSucceed(getGitStatus(worktree.path), () => null),
+		);
+		const parentBranch = candidate.gitStatus?.parentBranch;
+		if (
+			parentBranch &&
+			!(await gitSucceeds(context.gitRoot, [
+				'rev-parse',
+				'--verify',
+				'--quiet',
+				`refs/heads/${parentBranch}`,
+			]))
+		) {
+			candidate.reasons.unshift('orphaned');
+		}
+
+		const merged = branch
+			? await this.isMerged(context.gitRoot, branch, context.defaultBranch)
+			: false;
+		if (merged) candidate.reasons.unshift('merged');
+
+		const status = await git(worktree.path, ['status', '--porcelain']).catch(
+			() => '',
+		);
+		if (status) candidate.risks.push('uncommitted_changes');
+		if (
+			!merged &&
+			branch &&
+			((candidate.gitStatus?.aheadCount ?? 0) > 0 ||
+				(await this.hasCommitsOutside(
+					context.gitRoot,
+					branch,
+					context.defaultBranch,
+				)))
+		) {
+			candidate.risks.push('unmerged_commits');
+		}
+
+		candidate.lastActivityAt = await this.lastActivity(worktree.path);
+		return candidate;
+	}
+
+	/**
+	 * The branch tip is reachable from the default branch. A branch fresh
+	 * off the default branch is too, so it must also have moved since it
+	 * was created (more than the creation entry in its reflog).
+	 */
+	private async isMerged(
+		gitRoot: string,
+		branch: string,
+		defaultBranch: string,
+	): Promise<boolean> {
+		if (!defaultBranch || branch === defaultBranch) return false;
+		const ancestor = await gitSucceeds(gitRoot, [
+			'merge-base',
+			'--is-ancestor',
+			`refs/heads/${branch}`,
+			`refs/heads/${defaultBranch}`,
+		]);
+		if (!ancestor) return false;
+
+		const reflog = await git(gitRoot, [
+			'reflog',
+			'show',
+			'--format=%H',
+			`refs/heads/${branch}`,
+			'--',
+		]).catch(() => '');
+		const entries = reflog.split('\n').filter(Boolean).length;
+		if (entries > 1) return true;
+		if (entries === 1) return false;
+
+		// No reflog to go by: only count it once the default branch moved on
+		const [branchTip, defaultTip] = await Promise.all([
+			git(gitRoot, ['rev-parse', `refs/heads/${branch}`]),
+			git(gitRoot, ['rev-parse', `refs/heads/${defaultBranch}`]),
+		]);
+		return branchTip !== defaultTip;
+	}
+
+	private async hasCommitsOutside(
+		gitRoot: string,
+		branch: string,
+		defaultBranch: string,
+	): Promise<boolean> {
+		if (!defaultBranch || branch === defaultBranch) return false;
+		const count = await git(gitRoot, [
+			'rev-list',
+			'--count',
+			`refs/heads/${defaultBranch}..refs/heads/${branch}`,
+		]).catch(() => '0');
+		return Number(count) > 0;
+	}
+
+	private async lastActivity(worktreePath: string): Promise<number | null> {
+		const timestamps: number[] = [];
+
+		const lastOpened =
+			configurationManager.getWorktreeLastOpenedTime(worktreePath);
+		if (lastOpened) timestamps.push(Math.floor(lastOpened / 1000));
+
+		const lastSession = this.lastSessionActivity(worktreePath);
+		if (lastSession) timestamps.push(lastSession);
+
+		const lastCommit = Number(
+			await git(worktreePath, ['log', '-1', '--format=%ct']).catch(() => ''),
+		);
+		if (lastCommit) timestamps.push(lastCommit);
+
+		// `git worktree add` writes the .git file, so its mtime is the creation time
+		const created = await fs
+			.stat(path.join(worktreePath, '.git'))
+			.then(stats => Math.floor(stats.mtimeMs / 1000))
+			.catch(() => 0);
+		if (created) timestamps.push(created);
+
+		return timestamps.length > 0 ? Math.max(...timestamps) : null;
+	}
+
+	private lastSessionActivity(worktreePath: string): number | null {
+		const session = this.store.queryByWorktree(worktreePath, 1)[0];
+		if (!session) return null;
+		return session.endedAt ?? session.createdAt;
+	}
+
+	private loadTasks(gitRoot: string): TdIssue[] {
+		const projectState = tdService.resolveProjectState(gitRoot);
+		if (!projectState.enabled || !projectState.dbPath) return [];
+
+		const reader = new TdReader(projectState.dbPath);
+		try {
+			return reader.listIssues();
+		} catch (error) {
+			logger.debug(`[WorktreeCleanup] td lookup failed: ${String(error)}`);
+			return [];
+		} finally {
+			reader.close();
+		}
+	}
+
+	/** Same matching as the task card: linked session, created branch or id in the folder name. */
+	private findTask(
+		worktreePath: string,
+		branch: string | null,
+		tasks: TdIssue[],
+	): TdIssue | null {
+		if (tasks.length === 0) return null;
+
+		const taskId = this.store
+			.queryByWorktree(worktreePath, 20)
+			.find(session => session.tdTaskId)?.tdTaskId;
+		if (taskId) {
+			const task = tasks.find(issue => issue.id === taskId);
+			if (task) return task;
+		}
+
+		const folderName = path.basename(worktreePath);
+		return (
+			tasks.find(
+				issue =>
+					(branch && issue.created_branch === branch) ||
+					folderName.includes(issue.id),
+			) || null
+		);
+	}
+}
+
+export const worktreeCleanupService = new WorktreeCleanupService();
@@ -35,9 +35,12 @@ vi.mock('./configurationManager.js', () => ({
 }));
 
 // Mock HookExecutor
-vi.mock('../utils/hookExecutor.js', () => ({
-	executeWorktreePostCreationHook: vi.fn(),
-}));
+vi.mock('../utils/hookExecutor.js', async () => {
+	const {Effect} = await import('effect');
+	return {
+		executeWorktreeLifecycleHook: vi.fn(() => Effect.succeed([])),
+	};
+});
 
 // Get the mocked functions with proper typing
 const mockedExecSync = vi.mocked(execSync);
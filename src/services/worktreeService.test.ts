@@ -30,9 +30,12 @@ vi.mock('./configurationManager.js', () => ({
 }));
 
 // Mock HookExecutor
-vi.mock('../utils/hookExecutor.js', () => ({
-	executeWorktreePostCreationHook: vi.fn(),
-}));
+vi.mock('../utils/hookExecutor.js', async () => {
+	const {Effect} = await import('effect');
+	return {
+		executeWorktreeLifecycleHook: vi.fn(() => Effect.succeed([])),
+	};
+});
 
 // Get the mocked function with proper typing
 const mockedExecSync = vi.mocked(execSync);
@@ -886,7 +889,9 @@ branch refs/heads/main
 				expect(result.left).toBeInstanceOf(GitError);
 				expect(result.left.command).toBe('git worktree list --porcelain');
 				expect(result.left.exitCode).toBe(128);
-				expect(result.left.stderr).toContain('not a git repository');
+				expect((result.left as GitError).stderr).toContain(
+					'not a git repository',
+				);
 			} else {
 				expect.fail('Should have returned Left with GitError');
 			}
@@ -1095,7 +1100,9 @@ branch refs/heads/main
 
 			if (result._tag === 'Left') {
 				expect(result.left).toBeInstanceOf(GitError);
-				expect(result.left.stderr).toContain('Worktree not found');
+				expect((result.left as GitError).stderr).toContain(
+					'Worktree not found',
+				);
 			} else {
 				expect.fail('Should have returned Left with GitError');
 			}
@@ -1122,7 +1129,9 @@ branch refs/heads/main
 
 			if (result._tag === 'Left') {
 				expect(result.left).toBeInstanceOf(GitError);
-				expect(result.left.stderr).toContain('Cannot delete the main worktree');
+				expect((result.left as GitError).stderr).toContain(
+					'Cannot delete the main worktree',
+				);
 			} else {
 				expect.fail('Should have returned Left with GitError');
 			}
@@ -1197,7 +1206,7 @@ branch refs/heads/main
 
 			if (result._tag === 'Left') {
 				expect(result.left).toBeInstanceOf(GitError);
-				expect(result.left.stderr).toContain(
+				expect((result.left as GitError).stderr).toContain(
 					'Target branch worktree not found',
 				);
 			} else {
@@ -1246,7 +1255,7 @@ branch refs/heads/feature
 			if (result._tag === 'Left') {
 				expect(result.left).toBeInstanceOf(GitError);
 				expect(result.left.exitCode).toBe(1);
-				expect(result.left.stderr).toContain('Merge conflict');
+				expect((result.left as GitError).stderr).toContain('Merge conflict');
 			} else {
 				expect.fail('Should have returned Left with GitError');
 			}
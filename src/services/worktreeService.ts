@@ -6,24 +6,17 @@ import {
 	Worktree,
 	AmbiguousBranchError,
 	RemoteBranchMatch,
+	WorktreeOperationResult,
 } from '../types/index.js';
-import {GitError, FileSystemError} from '../types/errors.js';
+import {GitError, FileSystemError, ProcessError} from '../types/errors.js';
 import {setWorktreeParentBranch} from '../utils/worktreeConfig.js';
 import {
 	getClaudeProjectsDir,
 	pathToClaudeProjectName,
 } from '../utils/claudeDir.js';
-import {
-	executeWorktreePostCreationHook,
-	executeProjectSetupHook,
-	executeProjectTeardownHook,
-} from '../utils/hookExecutor.js';
+import {executeWorktreeLifecycleHook} from '../utils/hookExecutor.js';
 import {configurationManager} from './configurationManager.js';
 import {tdService} from './tdService.js';
-import {
-	loadProjectConfig,
-	buildHookEnvironment,
-} from '../utils/projectConfig.js';
 
 const CLAUDE_DIR = '.claude';
 
@@ -916,7 +909,7 @@ export class WorktreeService {
 		baseBranch: string,
 		copySessionData = false,
 		copyClaudeDirectory = false,
-	): Effect.Effect<Worktree, GitError | FileSystemError, never> {
+	): Effect.Effect<Worktree, GitError | FileSystemError | ProcessError, never> {
 		// eslint-disable-next-line @typescript-eslint/no-this-alias
 		const self = this;
 
@@ -952,6 +945,15 @@ export class WorktreeService {
 				() => Effect.succeed(false),
 			);
 
+			// Blocking pre_creation hooks may veto the worktree; it does not exist yet
+			const warnings = yield* executeWorktreeLifecycleHook('pre_creation', {
+				worktreePath: resolvedPath,
+				branch,
+				gitRoot: self.gitRootPath,
+				cwd: absoluteGitRoot,
+				env: {CACD_BASE_BRANCH: baseBranch},
+			});
+
 			// Execute the worktree creation command
 			const worktreeArgs: string[] = branchExists
 				? ['worktree', 'add', '--', resolvedPath, branch]
@@ -1029,50 +1031,19 @@ export class WorktreeService {
 				);
 			}
 
-			// Collect warnings for non-fatal issues
-			const warnings: string[] = [];
-
-			// Execute project-local setup hook if configured (.cacd.json)
-			const projectConfig = loadProjectConfig(self.gitRootPath);
-			if (projectConfig?.scripts?.setup) {
-				const env = buildHookEnvironment({
-					rootPath: self.gitRootPath,
-					worktreePath: resolvedPath,
-					worktreeName: path.basename(resolvedPath),
-					branch: branch,
-				});
-
-				const warning = yield* executeProjectSetupHook(
-					projectConfig.scripts.setup,
-					resolvedPath,
-					env,
-				);
-				if (warning) {
-					warnings.push(warning);
-					console.warn(warning);
-				}
-			}
-
-			// Execute post-creation hook if configured (global config)
-			const worktreeHooks = configurationManager.getWorktreeHooks();
-			if (
-				worktreeHooks.post_creation?.enabled &&
-				worktreeHooks.post_creation?.command
-			) {
-				const newWorktree: Worktree = {
-					path: resolvedPath,
-					branch: branch,
-					isMainWorktree: false,
-					hasSession: false,
-				};
-
-				yield* executeWorktreePostCreationHook(
-					worktreeHooks.post_creation.command,
-					newWorktree,
-					absoluteGitRoot,
-					baseBranch,
-				);
-			}
+			// Project setup script and post_creation hooks
+			warnings.push(
+				...(yield* Effect.catchAll(
+					executeWorktreeLifecycleHook('post_creation', {
+						worktreePath: resolvedPath,
+						branch,
+						gitRoot: self.gitRootPath,
+						env: {CACD_BASE_BRANCH: baseBranch},
+					}),
+					// post_* hooks never block, the worktree already exists
+					error => Effect.succeed([error.message]),
+				)),
+			);
 
 			// Write .td-root file if td is available for this project
 			const tdState = tdService.resolveProjectState(absoluteGitRoot);
@@ -1118,7 +1089,7 @@ export class WorktreeService {
 	 *
 	 * @param {string} worktreePath - Path of the worktree to delete
 	 * @param {{deleteBranch?: boolean}} options - Options for deletion (default: deleteBranch = true)
-	 * @returns {Effect.Effect<void, GitError, never>} Effect that completes successfully or fails with GitError
+	 * @returns {Effect.Effect<WorktreeOperationResult, GitError | ProcessError, never>} Effect with hook warnings, or failing with GitError (or ProcessError when a pre_delete hook vetoes)
 	 *
 	 * @example
 	 * ```typescript
@@ -1136,11 +1107,12 @@ export class WorktreeService {
 	 * ```
 	 *
 	 * @throws {GitError} When git worktree remove command fails or worktree not found
+	 * @throws {ProcessError} When a blocking pre_delete hook fails
 	 */
 	deleteWorktreeEffect(
 		worktreePath: string,
 		options?: {deleteBranch?: boolean},
-	): Effect.Effect<void, GitError, never> {
+	): Effect.Effect<WorktreeOperationResult, GitError | ProcessError, never> {
 		// eslint-disable-next-line @typescript-eslint/no-this-alias
 		const self = this;
 
@@ -1169,27 +1141,14 @@ export class WorktreeService {
 				);
 			}
 
-			// Execute project-local teardown hook BEFORE deletion (.cacd.json)
-			// This runs while files still exist so scripts can access them
-			const projectConfig = loadProjectConfig(self.gitRootPath);
-			if (projectConfig?.scripts?.teardown) {
-				const env = buildHookEnvironment({
-					rootPath: self.gitRootPath,
-					worktreePath: worktreePath,
-					worktreeName: path.basename(worktreePath),
-					branch: worktree.branch || '',
-				});
-
-				const warning = yield* executeProjectTeardownHook(
-					projectConfig.scripts.teardown,
-					worktreePath,
-					env,
-				);
-				if (warning) {
-					console.warn(warning);
-					// Continue with deletion despite hook failure
-				}
-			}
+			// Teardown script and pre_delete hooks run while files still exist;
+			// a blocking hook keeps the worktree
+			const branch = worktree.branch?.replace('refs/heads/', '') || '';
+			const warnings = yield* executeWorktreeLifecycleHook('pre_delete', {
+				worktreePath,
+				branch,
+				gitRoot: self.gitRootPath,
+			});
 
 			// Remove the worktree
 			yield* Effect.try({
@@ -1239,6 +1198,23 @@ export class WorktreeService {
 					},
 				);
 			}
+
+			warnings.push(
+				...(yield* Effect.catchAll(
+					executeWorktreeLifecycleHook('post_delete', {
+						worktreePath,
+						branch,
+						gitRoot: self.gitRootPath,
+						cwd: self.gitRootPath,
+					}),
+					error => Effect.succeed([error.message]),
+				)),
+			);
+
+			return {
+				success: true,
+				warnings: warnings.length > 0 ? warnings : undefined,
+			};
 		});
 	}
 
@@ -1249,7 +1225,7 @@ export class WorktreeService {
 	 * @param {string} sourceBranch - Branch to merge from
 	 * @param {string} targetBranch - Branch to merge into
 	 * @param {boolean} useRebase - Whether to use rebase instead of merge (default: false)
-	 * @returns {Effect.Effect<void, GitError, never>} Effect that completes successfully or fails with GitError
+	 * @returns {Effect.Effect<WorktreeOperationResult, GitError | ProcessError, never>} Effect with hook warnings, or failing with GitError (or ProcessError when a pre_merge hook vetoes)
 	 *
 	 * @example
 	 * ```typescript
@@ -1275,12 +1251,13 @@ export class WorktreeService {
 	 * ```
 	 *
 	 * @throws {GitError} When git merge/rebase command fails or worktrees not found
+	 * @throws {ProcessError} When a blocking pre_merge hook fails
 	 */
 	mergeWorktreeEffect(
 		sourceBranch: string,
 		targetBranch: string,
 		useRebase = false,
-	): Effect.Effect<void, GitError, never> {
+	): Effect.Effect<WorktreeOperationResult, GitError | ProcessError, never> {
 		// eslint-disable-next-line @typescript-eslint/no-this-alias
 		const self = this;
 
@@ -1302,6 +1279,21 @@ export class WorktreeService {
 				);
 			}
 
+			const hookContext = {
+				worktreePath: targetWorktree.path,
+				branch: targetBranch,
+				gitRoot: self.gitRootPath,
+				env: {
+					CACD_SOURCE_BRANCH: sourceBranch,
+					CACD_TARGET_BRANCH: targetBranch,
+					CACD_MERGE_STRATEGY: useRebase ? 'rebase' : 'merge',
+				},
+			};
+			const warnings = yield* executeWorktreeLifecycleHook(
+				'pre_merge',
+				hookContext,
+			);
+
 			// Perform the merge or rebase in the target worktree
 			if (useRebase) {
 				// For rebase, we need to checkout source branch and rebase it onto target
@@ -1389,6 +1381,18 @@ export class WorktreeService {
 					},
 				});
 			}
+
+			warnings.push(
+				...(yield* Effect.catchAll(
+					executeWorktreeLifecycleHook('post_merge', hookContext),
+					error => Effect.succeed([error.message]),
+				)),
+			);
+
+			return {
+				success: true,
+				warnings: warnings.length > 0 ? warnings : undefined,
+			};
 		});
 	}
 }
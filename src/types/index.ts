@@ -46,6 +46,7 @@ export interface Session {
 	commandConfig: CommandConfig | undefined; // Store command config for fallback
 	detectionStrategy: StateDetectionStrategy | undefined; // State detection strategy for this session
 	devcontainerConfig: DevcontainerConfig | undefined; // Devcontainer configuration if session runs in container
+	hostMode?: SessionHostMode; // 'tmux' when the process lives in the session host and survives daemon restarts
 	/**
 	 * Mutex-protected session state data.
 	 * Access via stateMutex.runExclusive() or stateMutex.update() to ensure thread-safe operations.
@@ -57,6 +58,31 @@ export interface Session {
 export interface AutoApprovalResponse {
 	needsPermission: boolean;
 	reason?: string;
+	/** What made the decision: a policy rule, the verifier, or no rule matching with verification off */
+	decidedBy?: 'rule' | 'verifier' | 'no-match';
+	/** Human-readable description of the matching rule when decidedBy is 'rule' */
+	rule?: string;
+}
+
+/**
+ * Declarative auto-approval rule. Every matcher set on a rule must match the
+ * pending action; deny rules are checked before allow rules.
+ */
+export interface AutoApprovalRule {
+	action: 'allow' | 'deny';
+	/** Regex tested against the pending shell command */
+	command?: string;
+	/** Glob tested against file paths the action touches (e.g. "src/**", "*.env") */
+	path?: string;
+	/** Tool name as shown by the agent (e.g. "Bash", "Edit", "Read"); case-insensitive */
+	tool?: string;
+	description?: string;
+}
+
+export interface AutoApprovalPolicyConfig {
+	rules?: AutoApprovalRule[];
+	/** Fall back to LLM / custom command verification when no rule matches (default: true) */
+	llmVerification?: boolean;
 }
 
 export interface SessionManager {
@@ -65,6 +91,20 @@ export interface SessionManager {
 	getSessionByPath(worktreePath: string): Session | undefined; // For backwards compat
 	getSessionsForWorktree(worktreePath: string): Session[]; // Get all sessions for a worktree
 	renameSession(sessionId: string, name?: string): boolean;
+	writeInput(
+		sessionId: string,
+		text: string,
+		submit?: boolean,
+	): number | undefined;
+	approvePermissionPrompt(sessionId: string): Promise<
+		| {
+				approved: boolean;
+				state: SessionState;
+				prompt?: string;
+				reason?: string;
+		  }
+		| undefined
+	>;
 	destroySession(sessionId: string): void;
 	getAllSessions(): Session[];
 	cancelAutoApproval(sessionId: string, reason?: string): void;
@@ -102,10 +142,34 @@ export interface StatusHookConfig {
 export interface WorktreeHook {
 	command: string;
 	enabled: boolean;
+	/** pre_* hooks only: a failing hook aborts the operation (default: true) */
+	blocking?: boolean;
+	/** Seconds before the hook is killed (default: 300) */
+	timeout?: number;
 }
 
+export const WORKTREE_HOOK_EVENTS = [
+	'pre_creation',
+	'post_creation',
+	'pre_delete',
+	'post_delete',
+	'pre_merge',
+	'post_merge',
+	'session_start',
+	'session_end',
+] as const;
+
+export type WorktreeHookEvent = (typeof WORKTREE_HOOK_EVENTS)[number];
+
 export interface WorktreeHookConfig {
+	pre_creation?: WorktreeHook;
 	post_creation?: WorktreeHook;
+	pre_delete?: WorktreeHook;
+	post_delete?: WorktreeHook;
+	pre_merge?: WorktreeHook;
+	post_merge?: WorktreeHook;
+	session_start?: WorktreeHook;
+	session_end?: WorktreeHook;
 }
 
 /**
@@ -168,6 +232,21 @@ export interface AgentOption {
  * Configuration for an agent (CLI tool) or terminal.
  * Agents have structured options; terminals are plain shells.
  */
+export type BudgetAction = 'warn' | 'interrupt' | 'stop';
+
+/**
+ * Limits for agent sessions. Every limit is optional. Reaching `warnAt` of a
+ * limit sends a warning; exceeding it applies `onExceeded`.
+ */
+export interface BudgetConfig {
+	maxMinutes?: number; // Wall-clock minutes since the session started
+	maxBusyMinutes?: number; // Minutes the agent spent working
+	maxTokens?: number;
+	maxCostUsd?: number; // Estimated from the agent's session file
+	warnAt?: number; // Fraction of a limit that triggers a warning (default: 0.8)
+	onExceeded?: BudgetAction; // 'interrupt' sends Ctrl-C, 'stop' ends the session (default: 'warn')
+}
+
 export interface AgentConfig {
 	id: string;
 	name: string;
@@ -181,6 +260,7 @@ export interface AgentConfig {
 	detectionStrategy?: StateDetectionStrategy; // For state detection (agents only)
 	icon?: string; // Brand icon ID or generic Lucide icon name
 	iconColor?: string; // Hex color (only for generic icons)
+	budget?: BudgetConfig; // Limits for each session of this agent
 }
 
 /**
@@ -214,6 +294,72 @@ export interface QuickStartConfig {
 	[key: string]: unknown;
 }
 
+export interface NotificationsConfig {
+	enabled: boolean; // Master switch for session notifications
+	states?: SessionState[]; // States that trigger a notification (default: waiting_input)
+	browser?: {enabled: boolean}; // Push to connected web UI clients
+	webhook?: {url: string; enabled: boolean}; // POST JSON payload to this URL
+	command?: {command: string; enabled: boolean}; // Shell command, payload passed via CACD_NOTIFY_* env vars
+	quietHours?: {
+		enabled: boolean;
+		start: string; // HH:MM local time
+		end: string; // HH:MM local time (may wrap past midnight)
+	};
+}
+
+export type SessionHostMode = 'pty' | 'tmux';
+
+export interface SessionHostConfig {
+	mode: SessionHostMode; // 'tmux' keeps agent sessions alive across daemon restarts
+}
+
+export interface QueueConfig {
+	maxConcurrentAgents?: number; // Per-project limit on running agent sessions for queued jobs (unset = unlimited)
+}
+
+// When a workflow step starts: once the previous step's agent went idle after
+// working, once its session exited, or only when started by hand
+export type WorkflowStepTrigger = 'idle' | 'exit' | 'manual';
+
+export interface WorkflowStepConfig {
+	name?: string; // Shown in progress views (default: "Step N")
+	agentId: string;
+	agentOptions?: Record<string, boolean | string>;
+	branchTemplate?: string; // Create a new worktree for this step; later steps reuse it
+	promptTemplate?: string; // Name of a prompt template from .cacd/prompts or global prompts
+	prompt?: string; // Inline prompt; supports {{diff}}, {{task.id}}, {{branch}}, {{worktree}}, {{workflow.name}}
+	sessionName?: string;
+	intent?: 'work' | 'review' | 'manual';
+	after?: WorkflowStepTrigger; // Ignored for the first step (default: idle)
+}
+
+export interface WorkflowConfig {
+	description?: string;
+	steps: WorkflowStepConfig[];
+}
+
+export type ForgeKind = 'github' | 'gitlab' | 'gitea';
+
+export interface ForgeConfig {
+	provider?: ForgeKind; // Override detection from the remote URL (needed for self-hosted forges)
+	apiUrl?: string; // REST API base URL, e.g. https://git.example.com/api/v1
+	token?: string; // API token; falls back to GITHUB_TOKEN, GITLAB_TOKEN or GITEA_TOKEN
+	remote?: string; // Git remote to push to (default: origin)
+}
+
+export interface HttpsConfig {
+	enabled: boolean; // Serve the web interface over TLS; loopback clients may still use plain HTTP
+	certPath?: string; // PEM certificate; a self-signed one is generated in the config dir when unset
+	keyPath?: string; // PEM private key for certPath
+	hsts?: boolean; // Send Strict-Transport-Security on HTTPS responses (default: true)
+}
+
+export interface TrustedProxyConfig {
+	enabled: boolean; // Honor X-Forwarded-For/-Proto/-Host from the proxy in front of CACD
+	addresses?: string[]; // Proxy IPs or CIDR ranges to trust (default: loopback)
+	hosts?: string[]; // Public hostnames the proxy serves CACD under, e.g. cacd.example.com
+}
+
 export interface DevcontainerConfig {
 	upCommand: string; // Command to start devcontainer
 	execCommand: string; // Command to execute in devcontainer
@@ -231,11 +377,19 @@ export interface ConfigurationData {
 		enabled: boolean; // Whether auto-approval is enabled
 		customCommand?: string; // Custom verification command; must output JSON matching AutoApprovalResponse
 		timeout?: number; // Timeout in seconds for auto-approval verification (default: 30)
+		rules?: AutoApprovalRule[]; // Global policy rules, evaluated after project rules
+		llmVerification?: boolean; // Verify with the LLM/custom command when no rule matches (default: true)
 	};
+	notifications?: NotificationsConfig;
+	sessionHost?: SessionHostConfig;
+	queue?: QueueConfig;
+	forge?: ForgeConfig;
 	quickStart?: QuickStartConfig;
 	td?: TdConfig; // TD startup defaults used across projects
 	port?: number; // Port for web interface (generated randomly on first run if not set)
 	webEnabled?: boolean; // Whether web interface is enabled
+	https?: HttpsConfig;
+	trustedProxy?: TrustedProxyConfig;
 	// Authentication (new two-tier system)
 	accessToken?: string; // 3-word token used as URL path (e.g., "apple-desk-river")
 	passcodeHash?: string; // bcrypt hash of the user's passcode
@@ -342,15 +496,17 @@ export interface IWorktreeService {
 	): import('effect').Effect.Effect<
 		Worktree,
 		| import('../types/errors.js').GitError
-		| import('../types/errors.js').FileSystemError,
+		| import('../types/errors.js').FileSystemError
+		| import('../types/errors.js').ProcessError,
 		never
 	>;
 	deleteWorktreeEffect(
 		worktreePath: string,
 		options?: {deleteBranch?: boolean},
 	): import('effect').Effect.Effect<
-		void,
-		import('../types/errors.js').GitError,
+		WorktreeOperationResult,
+		| import('../types/errors.js').GitError
+		| import('../types/errors.js').ProcessError,
 		never
 	>;
 	mergeWorktreeEffect(
@@ -358,8 +514,9 @@ export interface IWorktreeService {
 		targetBranch: string,
 		useRebase?: boolean,
 	): import('effect').Effect.Effect<
-		void,
-		import('../types/errors.js').GitError,
+		WorktreeOperationResult,
+		| import('../types/errors.js').GitError
+		| import('../types/errors.js').ProcessError,
 		never
 	>;
 }
@@ -0,0 +1,60 @@
+import {describe, it, expect} from 'vitest';
+import {getNextCronRun, parseCronExpression} from './cron.js';
+
+describe('parseCronExpression', () => {
+	it('should expand lists, ranges and steps', () => {
+		const schedule = parseCronExpression('*/15 9-11 1,15 * 1-5');
+		expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+		expect([...schedule.hours]).toEqual([9, 10, 11]);
+		expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+		expect(schedule.months.size).toBe(12);
+		expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+	});
+
+	it('should treat 7 as Sunday and accept aliases', () => {
+		expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+		expect([...parseCronExpression('@daily').hours]).toEqual([0]);
+	});
+
+	it('should reject malformed expressions', () => {
+		expect(() => parseCronExpression('* * *')).toThrow('expected 5 fields');
+		expect(() => parseCronExpression('60 * * * *')).toThrow('minute');
+		expect(() => parseCronExpression('* * * * mon')).toThrow('day-of-week');
+		expect(() => parseCronExpression('*/0 * * * *')).toThrow('step');
+	});
+});
+
+describe('getNextCronRun', () => {
+	it('should return the next matching minute strictly after the given time', () => {
+		const after = new Date(2026, 0, 5, 9, 7, 30);
+		expect(getNextCronRun('*/15 * * * *', after)).toEqual(
+			new Date(2026, 0, 5, 9, 15),
+		);
+		expect(getNextCronRun('15 9 * * *', new Date(2026, 0, 5, 9, 15))).toEqual(
+			new Date(2026, 0, 6, 9, 15),
+		);
+	});
+
+	it('should roll over days, months and years', () => {
+		// 2026-01-05 is a Monday; next Saturday is the 10th
+		expect(getNextCronRun('0 3 * * 6', new Date(2026, 0, 5, 12))).toEqual(
+			new Date(2026, 0, 10, 3, 0),
+		);
+		expect(getNextCronRun('0 0 1 * *', new Date(2026, 11, 15))).toEqual(
+			new Date(2027, 0, 1, 0, 0),
+		);
+	});
+
+	it('should match either day field when both are restricted', () => {
+		// Day 20 or any Monday -> Monday the 12th comes first
+		expect(getNextCronRun('0 0 20 * 1', new Date(2026, 0, 6))).toEqual(
+			new Date(2026, 0, 12, 0, 0),
+		);
+	});
+
+	it('should reject expressions that never fire', () => {
+		expect(() => getNextCronRun('0 0 31 2 *', new Date(2026, 0, 1))).toThrow(
+			'does not fire',
+		);
+	});
+});
@@ -0,0 +1,157 @@
+/**
+ * Minimal five-field cron parser (minute hour day-of-month month day-of-week)
+ * used by the job queue. Supports `*`, lists, ranges, steps and the common
+ * `@hourly`/`@daily`/`@weekly`/`@monthly` aliases. Times are local.
+ */
+
+export interface CronSchedule {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	daysOfWeek: Set<number>;
+	// Standard cron semantics: when both day fields are restricted a day
+	// matches if either field matches.
+	dayOfMonthRestricted: boolean;
+	dayOfWeekRestricted: boolean;
+}
+
+const CRON_ALIASES: Record<string, string> = {
+	'@hourly': '0 * * * *',
+	'@daily': '0 0 * * *',
+	'@midnight': '0 0 * * *',
+	'@weekly': '0 0 * * 0',
+	'@monthly': '0 0 1 * *',
+	'@yearly': '0 0 1 1 *',
+	'@annually': '0 0 1 1 *',
+};
+
+// Upper bound for the next-run search; every valid expression fires within
+// this window (Feb 29 on a specific weekday can take years, which we reject).
+const MAX_SEARCH_MINUTES = 366 * 24 * 60;
+
+function parseField(
+	field: string,
+	min: number,
+	max: number,
+	name: string,
+): Set<number> {
+	const values = new Set<number>();
+	for (const part of field.split(',')) {
+		const [rangePart, stepPart] = part.split('/');
+		const step = stepPart === undefined ? 1 : Number(stepPart);
+		if (!Number.isInteger(step) || step < 1) {
+			throw new Error(`Invalid step "${stepPart}" in cron ${name} field`);
+		}
+
+		let start: number;
+		let end: number;
+		if (rangePart === '*') {
+			start = min;
+			end = max;
+		} else if (rangePart?.includes('-')) {
+			const [from, to] = rangePart.split('-');
+			start = Number(from);
+			end = Number(to);
+		} else {
+			start = Number(rangePart);
+			// `5/15` means "from 5 to max every 15"
+			end = stepPart === undefined ? start : max;
+		}
+
+		if (
+			!Number.isInteger(start) ||
+			!Number.isInteger(end) ||
+			start < min ||
+			end > max ||
+			start > end
+		) {
+			throw new Error(`Invalid value "${part}" in cron ${name} field`);
+		}
+
+		for (let value = start; value <= end; value += step) {
+			values.add(value);
+		}
+	}
+	return values;
+}
+
+export function parseCronExpression(expression: string): CronSchedule {
+	const normalized = expression.trim().toLowerCase();
+	const fields = (CRON_ALIASES[normalized] ?? normalized).split(/\s+/);
+	if (fields.length !== 5) {
+		throw new Error(
+			`Invalid cron expression "${expression}": expected 5 fields (minute hour day month weekday)`,
+		);
+	}
+
+	const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [
+		string,
+		string,
+		string,
+		string,
+		string,
+	];
+	const daysOfWeek = parseField(dayOfWeek, 0, 7, 'day-of-week');
+	// Both 0 and 7 mean Sunday
+	if (daysOfWeek.has(7)) {
+		daysOfWeek.delete(7);
+		daysOfWeek.add(0);
+	}
+
+	return {
+		minutes: parseField(minute, 0, 59, 'minute'),
+		hours: parseField(hour, 0, 23, 'hour'),
+		daysOfMonth: parseField(dayOfMonth, 1, 31, 'day-of-month'),
+		months: parseField(month, 1, 12, 'month'),
+		daysOfWeek,
+		dayOfMonthRestricted: dayOfMonth !== '*',
+		dayOfWeekRestricted: dayOfWeek !== '*',
+	};
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+	const domMatch = schedule.daysOfMonth.has(date.getDate());
+	const dowMatch = schedule.daysOfWeek.has(date.getDay());
+	if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+		return domMatch || dowMatch;
+	}
+	return domMatch && dowMatch;
+}
+
+/**
+ * Next time strictly after `after` that matches the expression.
+ * @throws Error when the expression is invalid or never fires within a year
+ */
+export function getNextCronRun(expression: string, after: Date): Date {
+	const schedule = parseCronExpression(expression);
+	const candidate = new Date(after.getTime());
+	candidate.setSeconds(0, 0);
+	candidate.setMinutes(candidate.getMinutes() + 1);
+
+	for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+		if (!schedule.months.has(candidate.getMonth() + 1)) {
+			candidate.setMonth(candidate.getMonth() + 1, 1);
+			candidate.setHours(0, 0, 0, 0);
+			continue;
+		}
+		if (!matchesDay(schedule, candidate)) {
+			candidate.setDate(candidate.getDate() + 1);
+			candidate.setHours(0, 0, 0, 0);
+			continue;
+		}
+		if (!schedule.hours.has(candidate.getHours())) {
+			candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+			continue;
+		}
+		if (!schedule.minutes.has(candidate.getMinutes())) {
+			candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+			continue;
+		}
+		return candidate;
+	}
+
+	throw new Error(
+		`Cron expression "${expression}" does not fire within the next year`,
+	);
+}
@@ -575,3 +575,51 @@ export const getFileDiff = (
 
 		return stagedDiff.stdout || unstagedDiff.stdout || '';
 	});
+
+const WORKTREE_DIFF_TIMEOUT_MS = 15000;
+// Keep diffs within what agents accept as a single prompt
+const MAX_WORKTREE_DIFF_LENGTH = 60000;
+
+async function gitOutput(cwd: string, args: string[]): Promise<string> {
+	const {stdout} = await execFileAsync('git', args, {
+		cwd,
+		encoding: 'utf8',
+		timeout: WORKTREE_DIFF_TIMEOUT_MS,
+		maxBuffer: 64 * 1024 * 1024,
+	});
+	return stdout;
+}
+
+/**
+ * Changes in a worktree relative to the branch it was created from: committed
+ * and uncommitted edits to tracked files plus the names of untracked files.
+ */
+export async function getWorktreeDiff(worktreePath: string): Promise<string> {
+	const parentBranch = await Effect.runPromise(fetchParentBranch(worktreePath));
+	let base = 'HEAD';
+	if (parentBranch) {
+		base = (
+			await gitOutput(worktreePath, ['merge-base', parentBranch, 'HEAD']).catch(
+				() => 'HEAD',
+			)
+		).trim();
+	}
+
+	let diff = await gitOutput(worktreePath, ['diff', base]);
+	const untracked = (
+		await gitOutput(worktreePath, [
+			'ls-files',
+			'--others',
+			'--exclude-standard',
+		])
+	)
+		.split('\n')
+		.filter(Boolean);
+	if (untracked.length > 0) {
+		diff += `\nUntracked files:\n${untracked.map(file => `  ${file}`).join('\n')}\n`;
+	}
+	if (diff.length > MAX_WORKTREE_DIFF_LENGTH) {
+		diff = `${diff.slice(0, MAX_WORKTREE_DIFF_LENGTH)}\n... diff truncated (${diff.length} characters in total)\n`;
+	}
+	return diff.trim();
+}
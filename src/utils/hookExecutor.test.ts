@@ -2,22 +2,23 @@ import {describe, it, expect, vi} from 'vitest';
 import {Effect} from 'effect';
 import {
 	executeHook,
-	executeWorktreePostCreationHook,
 	executeStatusHook,
+	executeWorktreeLifecycleHook,
 } from './hookExecutor.js';
-import {mkdtemp, rm, readFile, realpath} from 'fs/promises';
+import {mkdtemp, rm, readFile, realpath, writeFile} from 'fs/promises';
 import {tmpdir} from 'os';
 import {join} from 'path';
 import type {Session} from '../types/index.js';
 import {configurationManager} from '../services/configurationManager.js';
 import {WorktreeService} from '../services/worktreeService.js';
-import {GitError} from '../types/errors.js';
+import {GitError, ProcessError} from '../types/errors.js';
 import {Mutex, createInitialSessionStateData} from './mutex.js';
 
 // Mock the configurationManager
 vi.mock('../services/configurationManager.js', () => ({
 	configurationManager: {
 		getStatusHooks: vi.fn(),
+		getWorktreeHooks: vi.fn(() => ({})),
 	},
 }));
 
@@ -234,149 +235,6 @@ describe('hookExecutor Integration Tests', () => {
 		});
 	});
 
-	describe('executeWorktreePostCreationHook (real execution)', () => {
-		it('should not throw even when command fails', async () => {
-			// Arrange
-			const tmpDir = await mkdtemp(join(tmpdir(), 'hook-test-'));
-			const worktree = {
-				path: tmpDir,
-				branch: 'test-branch',
-				isMainWorktree: false,
-				hasSession: false,
-			};
-
-			try {
-				// Act & Assert - should not throw even with failing command
-				await expect(
-					Effect.runPromise(
-						executeWorktreePostCreationHook(
-							toNodeCommand('process.exit(1)'),
-							worktree,
-							tmpDir,
-							'main',
-						),
-					),
-				).resolves.toBeUndefined();
-			} finally {
-				// Cleanup
-				await rm(tmpDir, {recursive: true});
-			}
-		});
-
-		it('should execute worktree hook in the worktree path by default', async () => {
-			// Arrange
-			const tmpDir = await mkdtemp(join(tmpdir(), 'hook-worktree-test-'));
-			const outputFile = join(tmpDir, 'cwd.txt');
-			const worktree = {
-				path: tmpDir,
-				branch: 'test-branch',
-				isMainWorktree: false,
-				hasSession: false,
-			};
-			const gitRoot = '/different/git/root';
-
-			try {
-				// Act - write current directory to file
-				await Effect.runPromise(
-					executeWorktreePostCreationHook(
-						toNodeCommand(
-							"require('node:fs').writeFileSync('cwd.txt', process.cwd());",
-						),
-						worktree,
-						gitRoot,
-						'main',
-					),
-				);
-
-				// Read the output
-				const output = await readFile(outputFile, 'utf-8');
-
-				// Assert - should be executed in worktree path, not git root
-				const expectedPath = await realpath(tmpDir);
-				const actualPath = await realpath(output.trim());
-				expect(actualPath).toBe(expectedPath);
-
-				// Also verify it's not the git root path
-				expect(output.trim()).not.toBe(gitRoot);
-			} finally {
-				// Cleanup
-				await rm(tmpDir, {recursive: true});
-			}
-		});
-
-		it('should allow changing to git root using environment variable', async () => {
-			// Arrange
-			const tmpWorktreeDir = await mkdtemp(join(tmpdir(), 'hook-worktree-'));
-			const tmpGitRootDir = await mkdtemp(join(tmpdir(), 'hook-gitroot-'));
-			const outputFile = join(tmpWorktreeDir, 'gitroot.txt');
-			const worktree = {
-				path: tmpWorktreeDir,
-				branch: 'test-branch',
-				isMainWorktree: false,
-				hasSession: false,
-			};
-
-			try {
-				// Act - change to git root and write its path
-				await Effect.runPromise(
-					executeWorktreePostCreationHook(
-						toNodeCommand(
-							"require('node:fs').writeFileSync('gitroot.txt', process.env.CACD_GIT_ROOT || '');",
-						),
-						worktree,
-						tmpGitRootDir,
-						'main',
-					),
-				);
-
-				// Read the output
-				const output = await readFile(outputFile, 'utf-8');
-
-				// Assert - should have changed to git root
-				expect(output.trim()).toBe(tmpGitRootDir);
-			} finally {
-				// Cleanup
-				await rm(tmpWorktreeDir, {recursive: true});
-				await rm(tmpGitRootDir, {recursive: true});
-			}
-		});
-
-		it('should wait for asynchronous hook command completion', async () => {
-			// Arrange
-			const tmpDir = await mkdtemp(join(tmpdir(), 'hook-wait-test-'));
-			const outputFile = join(tmpDir, 'delayed.txt');
-			const worktree = {
-				path: tmpDir,
-				branch: 'test-branch',
-				isMainWorktree: false,
-				hasSession: false,
-			};
-
-			try {
-				// Act - execute an async command with delayed file write
-				await Effect.runPromise(
-					executeWorktreePostCreationHook(
-						toNodeCommand(
-							"setTimeout(() => { require('node:fs').writeFileSync('delayed.txt', 'completed'); }, 100);",
-						),
-						worktree,
-						tmpDir,
-						'main',
-					),
-				);
-
-				// Read the output - this should exist because executeHook awaited completion
-				const output = await readFile(outputFile, 'utf-8');
-
-				// Assert - the file should contain the expected content
-				expect(output.trim()).toBe('completed');
-			} finally {
-				// Cleanup
-				await rm(tmpDir, {recursive: true});
-			}
-		});
-	});
-
 	describe('executeStatusHook', () => {
 		it('should wait for hook execution to complete', async () => {
 			// Arrange
@@ -633,4 +491,81 @@ describe('hookExecutor Integration Tests', () => {
 			}
 		});
 	});
+
+	describe('executeWorktreeLifecycleHook (real execution)', () => {
+		it('should abort the operation when a blocking pre hook fails', async () => {
+			const tmpDir = await mkdtemp(join(tmpdir(), 'hook-test-'));
+			vi.mocked(configurationManager.getWorktreeHooks).mockReturnValue({
+				pre_delete: {
+					enabled: true,
+					command: toNodeCommand(
+						"process.stderr.write('Uncommitted changes\\n'); process.exit(2);",
+					),
+				},
+			});
+
+			try {
+				const result = await Effect.runPromise(
+					Effect.either(
+						executeWorktreeLifecycleHook('pre_delete', {
+							worktreePath: tmpDir,
+							branch: 'feature',
+							gitRoot: tmpDir,
+						}),
+					),
+				);
+
+				expect(result._tag).toBe('Left');
+				if (result._tag === 'Left') {
+					expect(result.left).toBeInstanceOf(ProcessError);
+					expect(result.left.exitCode).toBe(2);
+					expect(result.left.message).toContain('aborted the operation');
+					expect(result.left.message).toContain('Uncommitted changes');
+				}
+			} finally {
+				vi.mocked(configurationManager.getWorktreeHooks).mockReturnValue({});
+				await rm(tmpDir, {recursive: true});
+			}
+		});
+
+		it('should turn non-blocking failures and stderr output into warnings', async () => {
+			const tmpDir = await mkdtemp(join(tmpdir(), 'hook-test-'));
+			await writeFile(
+				join(tmpDir, '.cacd.json'),
+				JSON.stringify({
+					scripts: {setup: toNodeCommand('process.exit(1)')},
+					hooks: {
+						post_creation: toNodeCommand(
+							"process.stderr.write('npm WARN deprecated\\n')",
+						),
+					},
+				}),
+			);
+			vi.mocked(configurationManager.getWorktreeHooks).mockReturnValue({
+				post_creation: {
+					enabled: true,
+					command: toNodeCommand('setTimeout(() => {}, 5000)'),
+					timeout: 1,
+				},
+			});
+
+			try {
+				const warnings = await Effect.runPromise(
+					executeWorktreeLifecycleHook('post_creation', {
+						worktreePath: tmpDir,
+						branch: 'feature',
+						gitRoot: tmpDir,
+					}),
+				);
+
+				expect(warnings).toHaveLength(3);
+				expect(warnings[0]).toContain('Setup hook failed');
+				expect(warnings[1]).toContain('npm WARN deprecated');
+				expect(warnings[2]).toContain('timed out after 1s');
+			} finally {
+				vi.mocked(configurationManager.getWorktreeHooks).mockReturnValue({});
+				await rm(tmpDir, {recursive: true});
+			}
+		});
+	});
 });
@@ -1,9 +1,24 @@
-import {spawn} from 'child_process';
+import {execFileSync, spawn} from 'child_process';
+import path from 'path';
 import {Effect} from 'effect';
 import {ProcessError} from '../types/errors.js';
-import {Worktree, Session, SessionState} from '../types/index.js';
+import {
+	Session,
+	SessionState,
+	WorktreeHook,
+	WorktreeHookEvent,
+} from '../types/index.js';
 import {WorktreeService} from '../services/worktreeService.js';
 import {configurationManager} from '../services/configurationManager.js';
+import {
+	buildHookEnvironment,
+	loadProjectConfig,
+	resolveProjectConfigRoot,
+} from './projectConfig.js';
+import {logger} from './logger.js';
+
+const DEFAULT_LIFECYCLE_HOOK_TIMEOUT_SECONDS = 300;
+const MAX_HOOK_OUTPUT_LENGTH = 2000;
 
 export interface HookEnvironment {
 	CACD_WORKTREE_PATH: string;
@@ -52,12 +67,34 @@ export function executeHook(
 	cwd: string,
 	environment: HookEnvironment,
 ): Effect.Effect<void, ProcessError> {
-	return Effect.async<void, ProcessError>(resume => {
+	return Effect.asVoid(runHookCommand(command, cwd, environment));
+}
+
+export interface HookOutput {
+	stdout: string;
+	stderr: string;
+}
+
+/**
+ * Run a hook command and capture its output
+ *
+ * Same as executeHook, but hands back stdout/stderr and optionally kills the
+ * hook (and the processes it started) once timeoutMs has passed.
+ */
+export function runHookCommand(
+	command: string,
+	cwd: string,
+	environment: HookEnvironment,
+	timeoutMs?: number,
+): Effect.Effect<HookOutput, ProcessError> {
+	return Effect.async<HookOutput, ProcessError>(resume => {
 		// Use spawn with shell to execute the command and wait for all child processes
 		// INTENTIONAL: shell: true is required here — user-configured hook
 		// commands need shell features (pipes, &&, variable expansion).
 		// Untrusted data is passed via environment variables, not interpolated
 		// into the command string. Safe per Unix conventions.
+		// Hooks with a timeout get their own process group so it can be killed as a whole
+		const killGroup = !!timeoutMs && process.platform !== 'win32';
 		const child = spawn(command, [], {
 			cwd,
 			env: {
@@ -66,21 +103,46 @@ export function executeHook(
 			},
 			shell: true,
 			stdio: ['ignore', 'pipe', 'pipe'],
+			detached: killGroup,
 		});
 
+		let stdout = '';
 		let stderr = '';
+		let timedOut = false;
+
+		child.stdout?.on('data', data => {
+			stdout += data.toString();
+		});
 
 		// Collect stderr for logging
 		child.stderr?.on('data', data => {
 			stderr += data.toString();
 		});
 
+		const timer = timeoutMs
+			? setTimeout(() => {
+					timedOut = true;
+					try {
+						if (killGroup && child.pid) {
+							process.kill(-child.pid, 'SIGTERM');
+						} else {
+							child.kill('SIGTERM');
+						}
+					} catch {
+						// Already exited
+					}
+				}, timeoutMs)
+			: undefined;
+
 		// Wait for the process and all its children to exit
 		child.on('exit', (code, signal) => {
+			if (timer) clearTimeout(timer);
 			if (code !== 0 || signal) {
-				const errorMessage = signal
-					? `Hook terminated by signal ${signal}`
-					: `Hook exited with code ${code}`;
+				const errorMessage = timedOut
+					? `Hook timed out after ${Math.round((timeoutMs ?? 0) / 1000)}s`
+					: signal
+						? `Hook terminated by signal ${signal}`
+						: `Hook exited with code ${code}`;
 
 				resume(
 					Effect.fail(
@@ -96,12 +158,13 @@ export function executeHook(
 				);
 				return;
 			}
-			// When exit code is 0, ignore stderr and resolve successfully
-			resume(Effect.void);
+			// When exit code is 0, stderr is not an error
+			resume(Effect.succeed({stdout, stderr}));
 		});
 
 		// Handle errors in spawning the process
 		child.on('error', error => {
+			if (timer) clearTimeout(timer);
 			resume(
 				Effect.fail(
 					new ProcessError({
@@ -114,36 +177,6 @@ export function executeHook(
 	});
 }
 
-/**
- * Execute a worktree post-creation hook using Effect
- * Errors are caught and logged but do not break the main flow
- */
-export function executeWorktreePostCreationHook(
-	command: string,
-	worktree: Worktree,
-	gitRoot: string,
-	baseBranch?: string,
-): Effect.Effect<void, never> {
-	const environment: HookEnvironment = {
-		CACD_WORKTREE_PATH: worktree.path,
-		CACD_WORKTREE_BRANCH: worktree.branch || 'unknown',
-		CACD_GIT_ROOT: gitRoot,
-	};
-
-	if (baseBranch) {
-		environment.CACD_BASE_BRANCH = baseBranch;
-	}
-
-	return Effect.catchAll(
-		executeHook(command, worktree.path, environment),
-		error => {
-			// Log error but don't throw - hooks should not break the main flow
-			console.error(`Failed to execute post-creation hook: ${error.message}`);
-			return Effect.void;
-		},
-	);
-}
-
 /**
  * Execute a session status change hook using Effect
  * Errors are caught and logged but do not break the main flow
@@ -199,60 +232,200 @@ export function executeStatusHook(
 	});
 }
 
+export interface WorktreeHookContext {
+	worktreePath: string;
+	branch: string;
+	gitRoot: string;
+	/** Directory the hook runs in (default: the worktree) */
+	cwd?: string;
+	/** Extra CACD_* variables for the event, e.g. CACD_TARGET_BRANCH */
+	env?: Record<string, string>;
+}
+
+interface ResolvedLifecycleHook {
+	label: string;
+	command: string;
+	blocking: boolean;
+	timeoutMs: number;
+}
+
+function toLifecycleHook(
+	event: WorktreeHookEvent,
+	label: string,
+	hook: string | Partial<WorktreeHook> | undefined,
+	blockingByDefault: boolean,
+): ResolvedLifecycleHook | null {
+	const config = typeof hook === 'string' ? {command: hook} : hook;
+	if (!config?.command?.trim() || config.enabled === false) {
+		return null;
+	}
+	const timeoutSeconds =
+		config.timeout && config.timeout > 0
+			? config.timeout
+			: DEFAULT_LIFECYCLE_HOOK_TIMEOUT_SECONDS;
+	return {
+		label,
+		command: config.command,
+		// Only hooks that run before an operation can veto it
+		blocking:
+			event.startsWith('pre_') && (config.blocking ?? blockingByDefault),
+		timeoutMs: timeoutSeconds * 1000,
+	};
+}
+
 /**
- * Execute a project-local setup hook after worktree creation
- * Returns warning message if hook fails, null on success
+ * Hooks configured for an event, in execution order: the project's
+ * .cacd.json (scripts.setup/teardown, then hooks) followed by the global config
  */
-export function executeProjectSetupHook(
-	command: string,
-	worktreePath: string,
-	env: Record<string, string>,
-): Effect.Effect<string | null, never> {
-	const environment: HookEnvironment = {
-		CACD_WORKTREE_PATH: worktreePath,
-		CACD_WORKTREE_BRANCH: env['CACD_BRANCH'] || 'unknown',
-		CACD_GIT_ROOT: env['CACD_ROOT_PATH'] || worktreePath,
-		...env,
-	};
+function resolveLifecycleHooks(
+	event: WorktreeHookEvent,
+	projectRoot: string,
+): ResolvedLifecycleHook[] {
+	const projectConfig = loadProjectConfig(projectRoot);
+	const globalHooks = configurationManager.getWorktreeHooks();
 
-	return Effect.catchAll(
-		Effect.map(
-			executeHook(command, worktreePath, environment),
-			() => null, // Success - no warning
+	const hooks = [
+		// Legacy project scripts keep their non-blocking behaviour
+		event === 'post_creation'
+			? toLifecycleHook(
+					event,
+					'Setup hook',
+					projectConfig?.scripts?.setup,
+					false,
+				)
+			: null,
+		event === 'pre_delete'
+			? toLifecycleHook(
+					event,
+					'Teardown hook',
+					projectConfig?.scripts?.teardown,
+					false,
+				)
+			: null,
+		toLifecycleHook(
+			event,
+			`Project ${event} hook`,
+			projectConfig?.hooks?.[event],
+			true,
 		),
-		error => {
-			// Return warning message instead of throwing
-			console.error(`Setup hook failed: ${error.message}`);
-			return Effect.succeed(`Setup hook failed: ${error.message}`);
-		},
-	);
+		toLifecycleHook(event, `${event} hook`, globalHooks[event], true),
+	];
+	return hooks.filter((hook): hook is ResolvedLifecycleHook => hook !== null);
+}
+
+function tail(output: string): string {
+	const trimmed = output.trim();
+	return trimmed.length > MAX_HOOK_OUTPUT_LENGTH
+		? `…${trimmed.slice(-MAX_HOOK_OUTPUT_LENGTH)}`
+		: trimmed;
 }
 
 /**
- * Execute a project-local teardown hook before worktree deletion
- * Returns warning message if hook fails, null on success
+ * Execute the hooks configured for a worktree lifecycle event
+ *
+ * Returns warnings for failed hooks and for hooks that wrote to stderr.
+ * Fails with ProcessError when a blocking pre_* hook exits non-zero or times
+ * out, so the caller can abort the operation.
  */
-export function executeProjectTeardownHook(
-	command: string,
-	worktreePath: string,
-	env: Record<string, string>,
-): Effect.Effect<string | null, never> {
-	const environment: HookEnvironment = {
-		CACD_WORKTREE_PATH: worktreePath,
-		CACD_WORKTREE_BRANCH: env['CACD_BRANCH'] || 'unknown',
-		CACD_GIT_ROOT: env['CACD_ROOT_PATH'] || worktreePath,
-		...env,
-	};
+export function executeWorktreeLifecycleHook(
+	event: WorktreeHookEvent,
+	context: WorktreeHookContext,
+): Effect.Effect<string[], ProcessError> {
+	return Effect.gen(function* () {
+		const warnings: string[] = [];
+		const environment: HookEnvironment = {
+			...buildHookEnvironment({
+				rootPath: context.gitRoot,
+				worktreePath: context.worktreePath,
+				worktreeName: path.basename(context.worktreePath),
+				branch: context.branch,
+			}),
+			CACD_WORKTREE_PATH: context.worktreePath,
+			CACD_WORKTREE_BRANCH: context.branch || 'unknown',
+			CACD_GIT_ROOT: context.gitRoot,
+			CACD_HOOK_EVENT: event,
+			...context.env,
+		};
 
-	return Effect.catchAll(
-		Effect.map(
-			executeHook(command, worktreePath, environment),
-			() => null, // Success - no warning
-		),
-		error => {
-			// Return warning message instead of throwing
-			console.error(`Teardown hook failed: ${error.message}`);
-			return Effect.succeed(`Teardown hook failed: ${error.message}`);
+		for (const hook of resolveLifecycleHooks(event, context.gitRoot)) {
+			const result = yield* Effect.either(
+				runHookCommand(
+					hook.command,
+					context.cwd ?? context.worktreePath,
+					environment,
+					hook.timeoutMs,
+				),
+			);
+
+			if (result._tag === 'Left') {
+				if (hook.blocking) {
+					logger.warn(`${hook.label} aborted ${event}: ${result.left.message}`);
+					return yield* Effect.fail(
+						new ProcessError({
+							command: hook.command,
+							exitCode: result.left.exitCode,
+							signal: result.left.signal,
+							message: `${hook.label} aborted the operation: ${tail(result.left.message)}`,
+						}),
+					);
+				}
+				warnings.push(`${hook.label} failed: ${tail(result.left.message)}`);
+				continue;
+			}
+
+			if (result.right.stdout.trim()) {
+				logger.info(`${hook.label} output: ${tail(result.right.stdout)}`);
+			}
+			if (result.right.stderr.trim()) {
+				warnings.push(`${hook.label}: ${tail(result.right.stderr)}`);
+			}
+		}
+
+		for (const warning of warnings) {
+			logger.warn(warning);
+		}
+		return warnings;
+	});
+}
+
+/**
+ * Execute session_start/session_end hooks for an agent session
+ * Runs in the background; failures are logged and never affect the session
+ */
+export function executeSessionLifecycleHook(
+	event: 'session_start' | 'session_end',
+	session: Pick<Session, 'id' | 'worktreePath' | 'agentId'>,
+): Effect.Effect<void, never> {
+	return Effect.catchAllCause(
+		Effect.gen(function* () {
+			const gitRoot = resolveProjectConfigRoot(session.worktreePath);
+			if (resolveLifecycleHooks(event, gitRoot).length === 0) {
+				return;
+			}
+
+			const branch = yield* Effect.catchAll(
+				Effect.try(() =>
+					execFileSync('git', ['rev-parse', '--abbrev-ref', 'HEAD'], {
+						cwd: session.worktreePath,
+						encoding: 'utf8',
+					}).trim(),
+				),
+				() => Effect.succeed(''),
+			);
+
+			yield* executeWorktreeLifecycleHook(event, {
+				worktreePath: session.worktreePath,
+				branch,
+				gitRoot,
+				env: {
+					CACD_SESSION_ID: session.id,
+					CACD_AGENT_ID: session.agentId ?? '',
+				},
+			});
+		}),
+		cause => {
+			logger.warn(`Failed to execute ${event} hook: ${cause}`);
+			return Effect.void;
 		},
 	);
 }
@@ -7,7 +7,16 @@ import {
 	unlinkSync,
 } from 'fs';
 import path from 'path';
+import {execFileSync} from 'child_process';
 import {getConfigDir} from './configDir.js';
+import type {
+	AutoApprovalRule,
+	BudgetConfig,
+	ForgeKind,
+	WorkflowConfig,
+	WorktreeHook,
+	WorktreeHookEvent,
+} from '../types/index.js';
 
 /**
  * Project-local configuration schema
@@ -15,10 +24,20 @@ import {getConfigDir} from './configDir.js';
  */
 export interface ProjectConfig {
 	scripts?: {
+		/** Shorthand for a non-blocking post_creation hook */
 		setup?: string;
+		/** Shorthand for a non-blocking pre_delete hook */
 		teardown?: string;
+		/** Run in each attempt's worktree to compare A/B runs */
+		test?: string;
+		/** Seconds before the test command is killed (default: 600) */
+		testTimeout?: number;
 		[key: string]: unknown;
 	};
+	/** Worktree lifecycle hooks, run before the global hook for the same event */
+	hooks?: {
+		[event in WorktreeHookEvent]?: string | Partial<WorktreeHook>;
+	};
 	quickStart?: {
 		work?: {
 			branchTemplate?: string;
@@ -32,10 +51,14 @@ export interface ProjectConfig {
 			promptTemplate?: string;
 			agentId?: string;
 			sessionNameTemplate?: string;
+			/** Start a review session when a task enters in_review and record its verdict */
+			auto?: boolean;
 			[key: string]: unknown;
 		};
 		[key: string]: unknown;
 	};
+	/** Named multi-step agent workflows, run from the WebUI or `cacd run` */
+	workflows?: Record<string, WorkflowConfig>;
 	td?: {
 		/** Enable td integration for this project (default: auto-detect) */
 		enabled?: boolean;
@@ -54,6 +77,43 @@ export interface ProjectConfig {
 		options?: Record<string, boolean | string>;
 		[key: string]: unknown;
 	};
+	notifications?: {
+		/** Set to false to silence notifications for this project */
+		enabled?: boolean;
+		/** Override the global list of states that trigger a notification */
+		states?: string[];
+		[key: string]: unknown;
+	};
+	autoApproval?: {
+		/** Policy rules evaluated before global rules and LLM verification */
+		rules?: AutoApprovalRule[];
+		/** Verify with the LLM/custom command when no rule matches (default: true) */
+		llmVerification?: boolean;
+		[key: string]: unknown;
+	};
+	queue?: {
+		/** Max agent sessions queued jobs may keep running in this project */
+		maxConcurrentAgents?: number;
+		[key: string]: unknown;
+	};
+	budgets?: {
+		/** Limits for each session; override the agent's budget limit by limit */
+		session?: BudgetConfig;
+		/** Limits for all sessions of this project started on the same day */
+		daily?: BudgetConfig;
+		[key: string]: unknown;
+	};
+	forge?: {
+		/** Forge kind when it cannot be detected from the remote URL */
+		provider?: ForgeKind;
+		/** REST API base URL for self-hosted forges */
+		apiUrl?: string;
+		/** Git remote to push to (default: origin) */
+		remote?: string;
+		/** Branch pull requests target by default */
+		targetBranch?: string;
+		[key: string]: unknown;
+	};
 	[key: string]: unknown;
 }
 
@@ -161,6 +221,30 @@ export function findExistingProjectConfigPath(
 	return null;
 }
 
+/**
+ * Directory whose project config applies to a worktree: the worktree itself
+ * when it carries a config, otherwise the main working tree of its repository.
+ */
+export function resolveProjectConfigRoot(worktreePath: string): string {
+	if (findExistingProjectConfigPath(worktreePath)) {
+		return worktreePath;
+	}
+	try {
+		const gitCommonDir = execFileSync(
+			'git',
+			['rev-parse', '--git-common-dir'],
+			{
+				cwd: worktreePath,
+				encoding: 'utf8',
+				stdio: ['ignore', 'pipe', 'ignore'],
+			},
+		).trim();
+		return path.dirname(path.resolve(worktreePath, gitCommonDir));
+	} catch {
+		return worktreePath;
+	}
+}
+
 /**
  * Get path for project config. Uses existing file path if available,
  * otherwise returns .cacd/config.json.
@@ -257,6 +341,23 @@ export function loadGlobalPromptTemplates(): PromptTemplate[] {
 	return loadTemplatesFromDir(promptsDir, 'global');
 }
 
+/**
+ * Find a template by name, preferring an exact match over a case-insensitive one.
+ */
+export function findPromptTemplateByName(
+	templates: PromptTemplate[],
+	templateName: string,
+): PromptTemplate | null {
+	const normalized = templateName.trim();
+	if (!normalized) return null;
+
+	const exactMatch = templates.find(t => t.name === normalized);
+	if (exactMatch) return exactMatch;
+
+	const lowered = normalized.toLowerCase();
+	return templates.find(t => t.name.toLowerCase() === lowered) ?? null;
+}
+
 /**
  * Load templates by scope.
  * - project: project-only templates
@@ -0,0 +1,27 @@
+import {describe, it, expect} from 'vitest';
+import {renderTdBranchTemplate} from './tdBranchTemplate.js';
+
+describe('renderTdBranchTemplate', () => {
+	it('renders the default work branch for a task', () => {
+		expect(
+			renderTdBranchTemplate(undefined, {
+				id: 'td-a1',
+				title: 'Fix the logout redirect',
+				type: 'bug',
+			}),
+		).toBe('fix/td-a1-fix-the');
+	});
+
+	it('supports underscore placeholders and sanitizes the result', () => {
+		expect(
+			renderTdBranchTemplate('{{task.type_prefix}}/{{ task.title_slug }}!', {
+				id: 'td-a1',
+				title: 'Add OAuth login',
+				type: 'Spike Work',
+			}),
+		).toBe('spike-work/add-oauth-login');
+		expect(renderTdBranchTemplate('///', {id: 'td-a1', title: ''})).toBe(
+			'task/td-a1',
+		);
+	});
+});
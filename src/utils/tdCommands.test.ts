@@ -0,0 +1,107 @@
+import {describe, it, expect} from 'vitest';
+import {
+	buildTdCreateArgs,
+	buildTdRequestChangesCommands,
+	buildTdUpdateArgs,
+	getTdStatusTransition,
+	isTdIssueId,
+	parseCreatedTdIssueId,
+	validateTdIssueFields,
+} from './tdCommands.js';
+
+describe('tdCommands', () => {
+	it('builds create and update arguments from the edited fields', () => {
+		expect(
+			buildTdCreateArgs({
+				title: ' Add login ',
+				type: 'feature',
+				priority: 'P1',
+				labels: ['auth', ' ui ', ''],
+				parentId: 'td-epic1',
+			}),
+		).toEqual([
+			'create',
+			'--type',
+			'feature',
+			'--priority',
+			'P1',
+			'--labels',
+			'auth,ui',
+			'--parent',
+			'td-epic1',
+			'--',
+			'Add login',
+		]);
+		expect(
+			buildTdUpdateArgs('td-a1', {description: '', acceptance: '- works'}),
+		).toEqual([
+			'update',
+			'td-a1',
+			'--description',
+			'',
+			'--acceptance',
+			'- works',
+		]);
+		expect(buildTdUpdateArgs('td-a1', {})).toBeNull();
+	});
+
+	it('rejects invalid fields', () => {
+		expect(validateTdIssueFields({title: '  '})).toBe('Title cannot be empty');
+		expect(validateTdIssueFields({priority: 'P9'})).toBe(
+			'Invalid priority: P9',
+		);
+		expect(validateTdIssueFields({parentId: '--all'})).toBe(
+			'Invalid parent id: --all',
+		);
+		expect(validateTdIssueFields({priority: 'P2', parentId: ''})).toBeNull();
+		expect(validateTdIssueFields({description: {text: 'x'}} as never)).toBe(
+			'description must be a string',
+		);
+		expect(validateTdIssueFields({labels: ['ui', 3]} as never)).toBe(
+			'labels must be a string or a list of strings',
+		);
+		expect(isTdIssueId('td-a1')).toBe(true);
+		expect(isTdIssueId('-rf')).toBe(false);
+		expect(isTdIssueId(undefined)).toBe(false);
+	});
+
+	it('parses the id td prints for a new issue', () => {
+		expect(parseCreatedTdIssueId('CREATED td-3f9a2c "Add login"\n')).toBe(
+			'td-3f9a2c',
+		);
+		expect(parseCreatedTdIssueId('')).toBeNull();
+	});
+
+	it('comments before sending a task back for changes', () => {
+		expect(buildTdRequestChangesCommands('td-a1', ' Add tests ')).toEqual([
+			['comment', 'td-a1', 'Add tests'],
+			['reject', 'td-a1', '--reason', 'Changes requested via CACD'],
+		]);
+		expect(buildTdRequestChangesCommands('td-a1')).toEqual([
+			['reject', 'td-a1', '--reason', 'Changes requested via CACD'],
+		]);
+	});
+
+	it('chains the td commands a board move needs', () => {
+		expect(getTdStatusTransition('td-a1', 'open', 'open')).toEqual([]);
+		expect(getTdStatusTransition('td-a1', 'open', 'in_review')).toEqual([
+			['start', 'td-a1'],
+			['review', 'td-a1'],
+		]);
+		expect(getTdStatusTransition('td-a1', 'in_review', 'closed')).toEqual([
+			['approve', 'td-a1'],
+		]);
+		expect(getTdStatusTransition('td-a1', 'closed', 'in_progress')).toEqual([
+			['reopen', 'td-a1'],
+			['start', 'td-a1'],
+		]);
+		expect(getTdStatusTransition('td-a1', 'in_review', 'open')).toEqual([
+			['reject', 'td-a1', '--reason', 'Moved on the CACD task board'],
+			['unstart', 'td-a1'],
+		]);
+		expect(getTdStatusTransition('td-a1', 'blocked', 'in_progress')).toEqual([
+			['unblock', 'td-a1'],
+			['start', 'td-a1'],
+		]);
+	});
+});
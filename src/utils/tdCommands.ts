@@ -0,0 +1,202 @@
+/**
+ * Argument builders for the td CLI write commands used by the web TaskBoard.
+ * All writes go through the td binary rather than the SQLite database so td
+ * keeps its own logs, timestamps and validation.
+ */
+
+export const TD_STATUSES = [
+	'open',
+	'in_progress',
+	'in_review',
+	'blocked',
+	'closed',
+] as const;
+
+export type TdStatus = (typeof TD_STATUSES)[number];
+
+export const TD_PRIORITIES = ['P0', 'P1', 'P2', 'P3'] as const;
+
+// Issue ids are passed to td as arguments; one starting with `-` would be
+// read as a flag
+const TD_ISSUE_ID_PATTERN = /^\w[\w-]*$/;
+
+const TD_TEXT_FIELDS = [
+	'title',
+	'type',
+	'priority',
+	'description',
+	'acceptance',
+	'parentId',
+] as const;
+
+export interface TdIssueFields {
+	title?: string;
+	type?: string;
+	priority?: string;
+	description?: string;
+	acceptance?: string;
+	labels?: string[] | string;
+	/** Epic (or other parent) id; an empty string detaches the issue */
+	parentId?: string;
+}
+
+export function isTdIssueId(value: unknown): value is string {
+	return typeof value === 'string' && TD_ISSUE_ID_PATTERN.test(value);
+}
+
+export function isTdStatus(value: unknown): value is TdStatus {
+	return (
+		typeof value === 'string' &&
+		(TD_STATUSES as readonly string[]).includes(value)
+	);
+}
+
+function normalizeLabels(labels: string[] | string): string {
+	const list = Array.isArray(labels) ? labels : labels.split(',');
+	return list
+		.map(label => label.trim())
+		.filter(Boolean)
+		.join(',');
+}
+
+/** Validate fields shared by create and update; returns an error message. */
+export function validateTdIssueFields(fields: TdIssueFields): string | null {
+	// Request bodies are only typed, not checked
+	for (const field of TD_TEXT_FIELDS) {
+		if (fields[field] !== undefined && typeof fields[field] !== 'string') {
+			return `${field} must be a string`;
+		}
+	}
+	const {labels} = fields as {labels?: unknown};
+	if (
+		labels !== undefined &&
+		typeof labels !== 'string' &&
+		!(Array.isArray(labels) && labels.every(label => typeof label === 'string'))
+	) {
+		return 'labels must be a string or a list of strings';
+	}
+	if (fields.title !== undefined && !fields.title.trim()) {
+		return 'Title cannot be empty';
+	}
+	if (
+		fields.priority !== undefined &&
+		!(TD_PRIORITIES as readonly string[]).includes(fields.priority)
+	) {
+		return `Invalid priority: ${fields.priority}`;
+	}
+	if (fields.parentId && !isTdIssueId(fields.parentId)) {
+		return `Invalid parent id: ${fields.parentId}`;
+	}
+	return null;
+}
+
+function buildFieldArgs(fields: TdIssueFields): string[] {
+	const args: string[] = [];
+	if (fields.type) args.push('--type', fields.type);
+	if (fields.priority) args.push('--priority', fields.priority);
+	if (fields.description !== undefined) {
+		args.push('--description', fields.description);
+	}
+	if (fields.acceptance !== undefined) {
+		args.push('--acceptance', fields.acceptance);
+	}
+	if (fields.labels !== undefined) {
+		args.push('--labels', normalizeLabels(fields.labels));
+	}
+	if (fields.parentId !== undefined) {
+		args.push('--parent', fields.parentId);
+	}
+	return args;
+}
+
+export function buildTdCreateArgs(
+	fields: TdIssueFields & {title: string},
+): string[] {
+	// `--` keeps a title that starts with a dash from being read as a flag
+	return ['create', ...buildFieldArgs(fields), '--', fields.title.trim()];
+}
+
+/** Returns null when there is nothing to update. */
+export function buildTdUpdateArgs(
+	id: string,
+	fields: TdIssueFields,
+): string[] | null {
+	const args = buildFieldArgs(fields);
+	if (fields.title !== undefined) {
+		args.unshift('--title', fields.title.trim());
+	}
+	return args.length > 0 ? ['update', id, ...args] : null;
+}
+
+/** td prints the new issue id (e.g. `td-a1b2c3`) when creating an issue. */
+export function parseCreatedTdIssueId(output: string): string | null {
+	return /\btd-[0-9a-z]+\b/i.exec(output)?.[0] ?? null;
+}
+
+/** Approve a task in review, closing it. */
+export function buildTdApproveCommands(id: string): string[][] {
+	return [['approve', id]];
+}
+
+/**
+ * Send a task in review back for changes, leaving the reviewer's comment on
+ * the task first.
+ */
+export function buildTdRequestChangesCommands(
+	id: string,
+	comment?: string,
+): string[][] {
+	const commands: string[][] = [];
+	if (comment?.trim()) commands.push(['comment', id, comment.trim()]);
+	commands.push(['reject', id, '--reason', 'Changes requested via CACD']);
+	return commands;
+}
+
+/**
+ * The td commands that move an issue from one status to another. td only
+ * allows specific transitions, so some moves chain several commands (for
+ * example a closed task is reopened before it can be started).
+ */
+export function getTdStatusTransition(
+	id: string,
+	from: string,
+	to: TdStatus,
+): string[][] {
+	if (from === to) return [];
+
+	// First get the issue back to a state the target command accepts
+	const steps: string[][] = [];
+	let current = from;
+	if (current === 'closed') {
+		steps.push(['reopen', id]);
+		current = 'open';
+	}
+	if (current === 'blocked' && to !== 'closed') {
+		steps.push(['unblock', id]);
+		current = 'open';
+	}
+	if (current === 'in_review' && to !== 'closed' && to !== 'blocked') {
+		steps.push(['reject', id, '--reason', 'Moved on the CACD task board']);
+		current = 'in_progress';
+	}
+
+	switch (to) {
+		case 'open':
+			if (current === 'in_progress') steps.push(['unstart', id]);
+			break;
+		case 'in_progress':
+			if (current === 'open') steps.push(['start', id]);
+			break;
+		case 'in_review':
+			if (current === 'open') steps.push(['start', id]);
+			steps.push(['review', id]);
+			break;
+		case 'blocked':
+			steps.push(['block', id]);
+			break;
+		case 'closed':
+			steps.push(current === 'in_review' ? ['approve', id] : ['close', id]);
+			break;
+	}
+	return steps;
+}
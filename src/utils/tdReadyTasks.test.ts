@@ -0,0 +1,89 @@
+import {describe, it, expect} from 'vitest';
+import type {TdIssue, TdIssueDependency} from '../services/tdReader.js';
+import {getReadyTdTasks} from './tdReadyTasks.js';
+
+function issue(id: string, overrides: Partial<TdIssue> = {}): TdIssue {
+	return {
+		id,
+		title: id,
+		description: '',
+		status: 'open',
+		type: 'task',
+		priority: 'P2',
+		points: 0,
+		labels: '',
+		parent_id: '',
+		acceptance: '',
+		implementer_session: '',
+		reviewer_session: '',
+		created_at: '2026-01-01 00:00:00',
+		updated_at: '2026-01-01 00:00:00',
+		closed_at: null,
+		deleted_at: null,
+		minor: 0,
+		created_branch: '',
+		creator_session: '',
+		sprint: '',
+		defer_until: null,
+		due_date: null,
+		defer_count: 0,
+		...overrides,
+	};
+}
+
+function dependsOn(issueId: string, dependsOnId: string): TdIssueDependency {
+	return {
+		id: `${issueId}-${dependsOnId}`,
+		issue_id: issueId,
+		depends_on_id: dependsOnId,
+		relation_type: 'depends_on',
+	};
+}
+
+describe('getReadyTdTasks', () => {
+	const now = new Date('2026-03-01T00:00:00Z');
+
+	it('only returns open tasks whose dependencies are all closed', () => {
+		const issues = [
+			issue('td-epic', {type: 'epic'}),
+			issue('td-done', {status: 'closed'}),
+			issue('td-wip', {status: 'in_progress'}),
+			issue('td-free'),
+			issue('td-unblocked'),
+			issue('td-waiting'),
+			issue('td-orphan'),
+			issue('td-later', {defer_until: '2026-04-01'}),
+		];
+		const dependencies = [
+			dependsOn('td-unblocked', 'td-done'),
+			dependsOn('td-waiting', 'td-done'),
+			dependsOn('td-waiting', 'td-wip'),
+			dependsOn('td-orphan', 'td-removed'),
+		];
+
+		expect(
+			getReadyTdTasks(issues, dependencies, now).map(ready => ready.id),
+		).toEqual(['td-free', 'td-unblocked', 'td-orphan']);
+	});
+
+	it('orders by priority, then due date, then age', () => {
+		const issues = [
+			issue('td-p2-undated'),
+			issue('td-p2-due-later', {due_date: '2026-05-01'}),
+			issue('td-p2-due-soon', {due_date: '2026-03-10'}),
+			issue('td-p0', {priority: 'P0', created_at: '2026-02-01 00:00:00'}),
+			issue('td-p0-older', {
+				priority: 'P0',
+				created_at: '2025-12-01 00:00:00',
+			}),
+		];
+
+		expect(getReadyTdTasks(issues, [], now).map(ready => ready.id)).toEqual([
+			'td-p0-older',
+			'td-p0',
+			'td-p2-due-soon',
+			'td-p2-due-later',
+			'td-p2-undated',
+		]);
+	});
+});
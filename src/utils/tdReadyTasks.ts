@@ -0,0 +1,57 @@
+import type {TdIssue, TdIssueDependency} from '../services/tdReader.js';
+
+const PRIORITY_ORDER = ['P0', 'P1', 'P2', 'P3'];
+
+function priorityRank(priority: string): number {
+	const rank = PRIORITY_ORDER.indexOf(priority);
+	return rank === -1 ? PRIORITY_ORDER.length : rank;
+}
+
+function isDeferred(issue: TdIssue, now: Date): boolean {
+	if (!issue.defer_until) return false;
+	const until = Date.parse(issue.defer_until);
+	return !Number.isNaN(until) && until > now.getTime();
+}
+
+/**
+ * Open tasks that can be picked up now: not an epic, not deferred and every
+ * task they depend on is closed. Dependencies on issues that no longer exist
+ * do not block. Ordered by priority, then due date (undated last), then age.
+ */
+export function getReadyTdTasks(
+	issues: TdIssue[],
+	dependencies: TdIssueDependency[],
+	now: Date = new Date(),
+): TdIssue[] {
+	const statusById = new Map(issues.map(issue => [issue.id, issue.status]));
+	const blocked = new Set<string>();
+	for (const dependency of dependencies) {
+		const status = statusById.get(dependency.depends_on_id);
+		if (status !== undefined && status !== 'closed') {
+			blocked.add(dependency.issue_id);
+		}
+	}
+
+	return issues
+		.filter(
+			issue =>
+				issue.status === 'open' &&
+				issue.type !== 'epic' &&
+				!issue.deleted_at &&
+				!blocked.has(issue.id) &&
+				!isDeferred(issue, now),
+		)
+		.sort(
+			(a, b) =>
+				priorityRank(a.priority) - priorityRank(b.priority) ||
+				compareDueDates(a.due_date, b.due_date) ||
+				a.created_at.localeCompare(b.created_at),
+		);
+}
+
+function compareDueDates(a: string | null, b: string | null): number {
+	if (a === b) return 0;
+	if (!a) return 1;
+	if (!b) return -1;
+	return a.localeCompare(b);
+}
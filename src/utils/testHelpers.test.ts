@@ -1,6 +1,10 @@
 import {describe, it, expect} from 'vitest';
+import fs from 'fs';
+import path from 'path';
 import {Effect, Either} from 'effect';
 import {
+	createTempGitRepo,
+	git,
 	runEffectSync,
 	runEffectPromise,
 	expectEffectSuccess,
@@ -138,4 +142,21 @@ describe('testHelpers', () => {
 			).toThrow();
 		});
 	});
+
+	describe('createTempGitRepo', () => {
+		it('should create a repository with the files as its initial commit', () => {
+			const {tmpDir, repoPath} = createTempGitRepo('cacd-helper-test-', {
+				'src/app.ts': 'export {};\n',
+			});
+			try {
+				expect(path.dirname(repoPath)).toBe(tmpDir);
+				expect(git(repoPath, 'branch', '--show-current')).toBe('main');
+				expect(git(repoPath, 'log', '--format=%s')).toBe('Initial commit');
+				expect(git(repoPath, 'ls-files')).toBe('src/app.ts');
+				expect(git(repoPath, 'status', '--porcelain')).toBe('');
+			} finally {
+				fs.rmSync(tmpDir, {recursive: true, force: true});
+			}
+		});
+	});
 });
@@ -5,6 +5,7 @@
  * - Synchronous and asynchronous Effect execution
  * - Assertions for success and failure cases
  * - Pattern matching for specific error types
+ * - Temporary git repositories for services that run git
  *
  * These utilities follow Effect-ts best practices and are designed to work
  * seamlessly with Vitest test framework.
@@ -29,6 +30,10 @@
  * @module testHelpers
  */
 
+import {execFileSync} from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import {Effect, Either, Exit} from 'effect';
 import type {AppError} from '../types/errors.js';
 
@@ -181,3 +186,60 @@ export function matchEffectError<R>(
 	// eslint-disable-next-line @typescript-eslint/no-explicit-any
 	return matcher(error as any);
 }
+
+/**
+ * Run git in a test repository
+ *
+ * @returns Trimmed stdout
+ */
+export function git(cwd: string, ...args: string[]): string {
+	return execFileSync('git', args, {
+		cwd,
+		encoding: 'utf8',
+		stdio: ['ignore', 'pipe', 'pipe'],
+	}).trim();
+}
+
+export interface TempGitRepo {
+	/** Temporary directory to delete after the test */
+	tmpDir: string;
+	/** Repository inside tmpDir, on `main` with one commit */
+	repoPath: string;
+}
+
+/**
+ * Create a git repository in a new temporary directory, with a test identity,
+ * unsigned commits and `files` committed as the initial commit on `main`
+ *
+ * @param prefix - Prefix of the temporary directory name
+ * @param files - Paths relative to the repository mapped to their content
+ *
+ * @example
+ * ```typescript
+ * ({tmpDir, repoPath} = createTempGitRepo('cacd-pr-test-', {
+ *   'app.ts': 'export const a = 1;\n',
+ * }));
+ * ```
+ */
+export function createTempGitRepo(
+	prefix = 'cacd-git-test-',
+	files: Record<string, string> = {'README.md': 'hello\n'},
+): TempGitRepo {
+	const tmpDir = fs.realpathSync(
+		fs.mkdtempSync(path.join(os.tmpdir(), prefix)),
+	);
+	const repoPath = path.join(tmpDir, 'repo');
+	fs.mkdirSync(repoPath);
+	git(repoPath, 'init', '-b', 'main');
+	git(repoPath, 'config', 'user.email', 'test@example.com');
+	git(repoPath, 'config', 'user.name', 'Test User');
+	git(repoPath, 'config', 'commit.gpgsign', 'false');
+	for (const [file, content] of Object.entries(files)) {
+		const filePath = path.join(repoPath, file);
+		fs.mkdirSync(path.dirname(filePath), {recursive: true});
+		fs.writeFileSync(filePath, content);
+	}
+	git(repoPath, 'add', '.');
+	git(repoPath, 'commit', '-m', 'Initial commit');
+	return {tmpDir, repoPath};
+}
@@ -0,0 +1,97 @@
+import {afterEach, describe, expect, it} from 'vitest';
+import {mkdtemp, rm} from 'fs/promises';
+import http from 'http';
+import https from 'https';
+import {connect, type AddressInfo} from 'net';
+import {join} from 'path';
+import {tmpdir} from 'os';
+import {
+	createDualProtocolServer,
+	isLoopbackAddress,
+	resolveTlsCredentials,
+} from './tls.js';
+
+function get(
+	client: typeof http | typeof https,
+	port: number,
+): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const request = client.get(
+			{host: '127.0.0.1', port, path: '/status', rejectUnauthorized: false},
+			response => {
+				let body = '';
+				response.on('data', chunk => (body += chunk));
+				response.on('end', () => resolve(body));
+			},
+		);
+		request.on('error', reject);
+	});
+}
+
+describe('tls', () => {
+	let testDir: string | undefined;
+	let server: http.Server | undefined;
+
+	afterEach(async () => {
+		server?.close();
+		server = undefined;
+		if (testDir) {
+			await rm(testDir, {recursive: true, force: true});
+			testDir = undefined;
+		}
+	});
+
+	it('recognizes loopback addresses, including IPv4-mapped ones', () => {
+		expect(isLoopbackAddress('127.0.0.1')).toBe(true);
+		expect(isLoopbackAddress('::ffff:127.0.0.1')).toBe(true);
+		expect(isLoopbackAddress('::1')).toBe(true);
+		expect(isLoopbackAddress('192.168.1.20')).toBe(false);
+		expect(isLoopbackAddress(undefined)).toBe(false);
+	});
+
+	it('serves plain HTTP and TLS on the same port with a generated certificate', async () => {
+		testDir = await mkdtemp(join(tmpdir(), 'cacd-tls-'));
+		const credentials = resolveTlsCredentials({enabled: true}, testDir);
+		expect(credentials.selfSigned).toBe(true);
+		expect(credentials.certPath).toBe(join(testDir, 'tls', 'cert.pem'));
+		// Reused rather than regenerated on the next start
+		expect(resolveTlsCredentials({enabled: true}, testDir).cert).toEqual(
+			credentials.cert,
+		);
+
+		const dual = createDualProtocolServer((request, response) => {
+			const encrypted = 'encrypted' in request.socket;
+			response.end(`${encrypted ? 'tls' : 'plain'} ${request.url}`);
+		});
+		dual.secureServer.setSecureContext(credentials);
+		server = dual.server;
+		await new Promise<void>(resolve =>
+			dual.server.listen(0, '127.0.0.1', resolve),
+		);
+		const {port} = dual.server.address() as AddressInfo;
+
+		expect(await get(http, port)).toBe('plain /status');
+		expect(await get(https, port)).toBe('tls /status');
+	});
+
+	it('closes connections that send nothing', async () => {
+		const dual = createDualProtocolServer(
+			(_request, response) => response.end(),
+			{
+				firstByteTimeoutMs: 50,
+			},
+		);
+		server = dual.server;
+		await new Promise<void>(resolve =>
+			dual.server.listen(0, '127.0.0.1', resolve),
+		);
+		const {port} = dual.server.address() as AddressInfo;
+
+		const socket = connect(port, '127.0.0.1');
+		await new Promise<void>((resolve, reject) => {
+			socket.on('close', () => resolve());
+			socket.on('error', reject);
+		});
+		expect(socket.destroyed).toBe(true);
+	});
+});
@@ -0,0 +1,196 @@
+import {execFileSync} from 'child_process';
+import {chmodSync, existsSync, mkdirSync, readFileSync} from 'fs';
+import http from 'http';
+import https from 'https';
+import {hostname, networkInterfaces} from 'os';
+import {join, resolve} from 'path';
+import type {Socket} from 'net';
+import type {TLSSocket} from 'tls';
+import type {HttpsConfig} from '../types/index.js';
+
+/** One year; browsers ignore the header for IP addresses and self-signed certs */
+export const HSTS_HEADER_VALUE = 'max-age=31536000';
+
+// First byte of a TLS record carrying a handshake
+const TLS_HANDSHAKE_RECORD = 0x16;
+// Connections that send nothing are closed rather than held open forever
+const FIRST_BYTE_TIMEOUT_MS = 10_000;
+
+export interface TlsCredentials {
+	cert: Buffer;
+	key: Buffer;
+	certPath: string;
+	selfSigned: boolean;
+}
+
+export function isLoopbackAddress(address: string | undefined): boolean {
+	if (!address) return false;
+	const ip = address.startsWith('::ffff:') ? address.slice(7) : address;
+	return ip === '::1' || ip.startsWith('127.');
+}
+
+/** With HTTPS on, only clients on this machine may talk plain HTTP. */
+export function isPlainRemoteConnection(socket: Socket): boolean {
+	return (
+		!(socket as Partial<TLSSocket>).encrypted &&
+		!isLoopbackAddress(socket.remoteAddress)
+	);
+}
+
+/** Names and addresses the self-signed certificate is valid for. */
+export function getSelfSignedSubjectAltNames(): string[] {
+	const names = ['DNS:localhost', 'IP:127.0.0.1', 'IP:::1'];
+	const host = hostname();
+	if (host && /^[A-Za-z0-9.-]+$/.test(host)) {
+		names.push(`DNS:${host}`);
+		if (!host.includes('.')) names.push(`DNS:${host}.local`);
+	}
+	for (const addresses of Object.values(networkInterfaces())) {
+		for (const address of addresses ?? []) {
+			if (address.family === 'IPv4' && !address.internal) {
+				names.push(`IP:${address.address}`);
+			}
+		}
+	}
+	return [...new Set(names)];
+}
+
+/**
+ * Writes a self-signed certificate and its key with openssl, which ships
+ * with macOS and practically every Linux distribution.
+ */
+export function generateSelfSignedCertificate(
+	certPath: string,
+	keyPath: string,
+	subjectAltNames: string[] = getSelfSignedSubjectAltNames(),
+): void {
+	try {
+		execFileSync(
+			'openssl',
+			[
+				'req',
+				'-x509',
+				'-newkey',
+				'rsa:2048',
+				'-nodes',
+				'-sha256',
+				'-days',
+				'825',
+				'-subj',
+				'/CN=cacd',
+				'-addext',
+				`subjectAltName=${subjectAltNames.join(',')}`,
+				'-keyout',
+				keyPath,
+				'-out',
+				certPath,
+			],
+			{stdio: 'pipe', timeout: 30000},
+		);
+	} catch (error) {
+		const stderr = (error as {stderr?: Buffer}).stderr?.toString().trim();
+		throw new Error(
+			`Could not generate a self-signed certificate (is openssl installed?): ${stderr || String(error)}`,
+		);
+	}
+	chmodSync(keyPath, 0o600);
+}
+
+/**
+ * Reads the configured certificate and key, or the self-signed pair in
+ * `<configDir>/tls/`, generating it on first use.
+ */
+export function resolveTlsCredentials(
+	config: HttpsConfig,
+	configDir: string,
+): TlsCredentials {
+	if (config.certPath || config.keyPath) {
+		if (!config.certPath || !config.keyPath) {
+			throw new Error('HTTPS needs both certPath and keyPath');
+		}
+		const certPath = resolve(config.certPath);
+		return {
+			cert: readFileSync(certPath),
+			key: readFileSync(resolve(config.keyPath)),
+			certPath,
+			selfSigned: false,
+		};
+	}
+
+	const tlsDir = join(configDir, 'tls');
+	const certPath = join(tlsDir, 'cert.pem');
+	const keyPath = join(tlsDir, 'key.pem');
+	if (!existsSync(certPath) || !existsSync(keyPath)) {
+		mkdirSync(tlsDir, {recursive: true});
+		generateSelfSignedCertificate(certPath, keyPath);
+	}
+	return {
+		cert: readFileSync(certPath),
+		key: readFileSync(keyPath),
+		certPath,
+		selfSigned: true,
+	};
+}
+
+export interface DualProtocolServer {
+	/** Listens and serves plain HTTP; hand this to Fastify and socket.io */
+	server: http.Server;
+	/** Terminates TLS; call setSecureContext() before accepting connections */
+	secureServer: https.Server;
+}
+
+/**
+ * An HTTP server that also accepts TLS on the same port. Each connection's
+ * first byte tells a TLS handshake from a plain request; TLS connections are
+ * decrypted by `secureServer`, whose requests and upgrades are re-emitted on
+ * `server` so every listener sees both. Keeping plain HTTP lets the TUI and
+ * CLI keep talking to the daemon over loopback without trusting the cert.
+ */
+export function createDualProtocolServer(
+	handler: http.RequestListener,
+	{
+		firstByteTimeoutMs = FIRST_BYTE_TIMEOUT_MS,
+	}: {firstByteTimeoutMs?: number} = {},
+): DualProtocolServer {
+	const server = http.createServer(handler);
+	const secureServer = https.createServer();
+
+	secureServer.on('request', (req, res) => server.emit('request', req, res));
+	secureServer.on('upgrade', (req, socket, head) =>
+		server.emit('upgrade', req, socket, head),
+	);
+
+	// http.Server registers its parser as its only 'connection' listener when
+	// constructed. That is Node internals, so fail at startup if it changes
+	// rather than silently dropping plain HTTP connections.
+	const connectionListeners = server.listeners('connection');
+	if (connectionListeners.length !== 1) {
+		throw new Error(
+			`Expected http.Server to have one connection listener, found ${connectionListeners.length}`,
+		);
+	}
+	const httpConnectionListener = connectionListeners[0] as (
+		socket: Socket,
+	) => void;
+	server.removeAllListeners('connection');
+	server.on('connection', (socket: Socket) => {
+		const onTimeout = () => socket.destroy();
+		socket.setTimeout(firstByteTimeoutMs);
+		socket.once('timeout', onTimeout);
+		socket.once('data', (chunk: Buffer) => {
+			// The HTTP and TLS servers apply their own timeouts from here on
+			socket.setTimeout(0);
+			socket.off('timeout', onTimeout);
+			socket.pause();
+			socket.unshift(chunk);
+			if (chunk[0] === TLS_HANDSHAKE_RECORD) {
+				secureServer.emit('connection', socket);
+			} else {
+				httpConnectionListener.call(server, socket);
+			}
+			process.nextTick(() => socket.resume());
+		});
+	});
+
+	return {server, secureServer};
+}